@@ -0,0 +1,37 @@
+export type PlanId = "FREE" | "PREMIUM";
+
+/**
+ * Monthly limits for a subscription plan. A null limit means unlimited.
+ * The plan a user is on is the `subscription` field of their user document.
+ * Nothing syncs it from billing yet, so it's changed in the database, and
+ * quotas pick the change up within a minute.
+ */
+export interface PlanDefinition {
+  id: PlanId;
+  name: string;
+  monthlyTokens: number | null; // Prompt + completion tokens across every model call
+  monthlyMessages: number | null; // Chat replies generated
+  backgroundCutoff: number; // Share of a limit after which background calls are skipped
+}
+
+export const PLANS: Record<PlanId, PlanDefinition> = {
+  FREE: {
+    id: "FREE",
+    name: "Free",
+    monthlyTokens: 500_000,
+    monthlyMessages: 300,
+    backgroundCutoff: 0.8,
+  },
+  PREMIUM: {
+    id: "PREMIUM",
+    name: "Premium",
+    monthlyTokens: 10_000_000,
+    monthlyMessages: 10_000,
+    backgroundCutoff: 0.9,
+  },
+};
+
+export const DEFAULT_PLAN: PlanId = "FREE";
+
+export const getPlan = (planId?: string | null): PlanDefinition =>
+  PLANS[planId as PlanId] || PLANS[DEFAULT_PLAN];
@@ -1,9 +1,18 @@
-import { Router, Request, Response } from "express";import jwt from "jsonwebtoken";
+import { Router, Request, Response } from "express";
 import { userService } from "../services/user.service"; // Import UserService
 import { authMiddleware } from "../middlewares/auth.middleware";
+import {
+  authSessionService,
+  DeviceInfo,
+} from "../services/auth-session.service";
 
 const router = Router();
 
+const deviceInfo = (req: Request): DeviceInfo => ({
+  userAgent: req.get("user-agent"),
+  ip: req.ip,
+});
+
 /**
  * @route   POST /api/auth/register
  * @desc    Register a new user
@@ -43,15 +52,14 @@ router.post("/register", async (req: Request, res: Response) => {
       name: name || username,
     });
 
-    // Generate JWT (include username? optional)
-    const token = jwt.sign(
-      { id: newUser._id, email: newUser.email, username: newUser.username },
-      process.env.JWT_SECRET || "your-secret-key",
-      { expiresIn: "7d" }
+    // Sign the new user in on this device
+    const tokens = await authSessionService.createSession(
+      newUser,
+      deviceInfo(req)
     );
 
     res.status(201).json({
-      token,
+      ...tokens,
       user: {
         id: newUser._id,
         username: newUser.username,
@@ -98,11 +106,10 @@ router.post("/login", async (req: Request, res: Response) => {
       return res.status(401).json({ message: "Invalid credentials" });
     }
 
-    // Generate JWT
-    const token = jwt.sign(
-      { id: user._id, email: user.email, username: user.username }, // Add username
-      process.env.JWT_SECRET || "your-secret-key",
-      { expiresIn: "7d" }
+    // Short-lived access token plus a refresh token for this device
+    const tokens = await authSessionService.createSession(
+      user,
+      deviceInfo(req)
     );
 
     // Return user data without password
@@ -110,7 +117,7 @@ router.post("/login", async (req: Request, res: Response) => {
     delete userObject.password;
 
     res.json({
-      token,
+      ...tokens,
       user: userObject,
     });
   } catch (error) {
@@ -156,4 +163,161 @@ router.get("/me", authMiddleware, async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * @route   POST /api/auth/refresh
+ * @desc    Exchange a refresh token for a new access and refresh token
+ * @access  Public
+ */
+router.post("/refresh", async (req: Request, res: Response) => {
+  const { refreshToken } = req.body;
+
+  if (!refreshToken || typeof refreshToken !== "string") {
+    return res.status(400).json({ message: "Refresh token is required" });
+  }
+
+  try {
+    const tokens = await authSessionService.refresh(
+      refreshToken,
+      deviceInfo(req),
+      (userId) => userService.findUserById(userId)
+    );
+
+    if (!tokens) {
+      return res
+        .status(401)
+        .json({ message: "Session expired, please log in again" });
+    }
+
+    res.json(tokens);
+  } catch (error) {
+    console.error("Refresh Error:", error);
+    res.status(500).json({
+      message: "Error refreshing session",
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
+/**
+ * @route   POST /api/auth/logout
+ * @desc    Sign out the device holding the refresh token
+ * @access  Public
+ */
+router.post("/logout", async (req: Request, res: Response) => {
+  const { refreshToken } = req.body;
+
+  if (!refreshToken || typeof refreshToken !== "string") {
+    return res.status(400).json({ message: "Refresh token is required" });
+  }
+
+  try {
+    // Succeeds even if the device was already signed out
+    await authSessionService.revokeByRefreshToken(refreshToken);
+    res.json({ success: true });
+  } catch (error) {
+    console.error("Logout Error:", error);
+    res.status(500).json({
+      message: "Error logging out",
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
+/**
+ * @route   POST /api/auth/logout-everywhere
+ * @desc    Sign out every device of the current user, this one included
+ * @access  Private
+ */
+router.post(
+  "/logout-everywhere",
+  authMiddleware,
+  async (req: Request, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const revoked = await authSessionService.revokeAll(
+        req.user.id,
+        "logout_everywhere"
+      );
+      res.json({ success: true, revoked });
+    } catch (error) {
+      console.error("Logout Everywhere Error:", error);
+      res.status(500).json({
+        message: "Error logging out of all devices",
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+);
+
+/**
+ * @route   GET /api/auth/devices
+ * @desc    List the devices the current user is signed in on
+ * @access  Private
+ */
+router.get("/devices", authMiddleware, async (req: Request, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({ message: "Unauthorized" });
+  }
+
+  try {
+    const sessions = await authSessionService.listActive(req.user.id);
+    res.json(
+      sessions.map((session) => ({
+        id: session._id,
+        deviceName: session.deviceName,
+        userAgent: session.userAgent,
+        ip: session.ip,
+        createdAt: session.createdAt,
+        lastUsedAt: session.lastUsedAt,
+        current: session._id === req.user?.sessionId,
+      }))
+    );
+  } catch (error) {
+    console.error("List Devices Error:", error);
+    res.status(500).json({
+      message: "Error fetching devices",
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
+/**
+ * @route   DELETE /api/auth/devices/:id
+ * @desc    Sign out one of the current user's devices
+ * @access  Private
+ */
+router.delete(
+  "/devices/:id",
+  authMiddleware,
+  async (req: Request, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const revoked = await authSessionService.revoke(
+        req.params.id,
+        "revoked",
+        req.user.id
+      );
+      if (!revoked) {
+        return res.status(404).json({ message: "Device not found" });
+      }
+      res.json({
+        success: true,
+        current: req.params.id === req.user.sessionId,
+      });
+    } catch (error) {
+      console.error("Revoke Device Error:", error);
+      res.status(500).json({
+        message: "Error signing out device",
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+);
+
 export default router;
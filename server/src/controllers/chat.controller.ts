@@ -7,11 +7,13 @@ import { v4 as uuidv4 } from "uuid";
 import SSE from "express-sse";
 import { optionalAuthMiddleware } from "../middlewares/auth.middleware";
 import Message from "../models/message.model";
-import jwt from "jsonwebtoken";
 import { enhancedChatService } from "../services/enhanced-chat.service";
+import { conversationSummaryService } from "../services/conversation-summary.service";
 import { loggerFactory } from "../utils/logger.service";
 import { SSEWrapper } from "../utils/sse.wrapper";
+import { realtimeService } from "../services/realtime/realtime.service";
 import { userService } from "../services/user.service";
+import { authSessionService } from "../services/auth-session.service";
 import Memory from "../models/memory.model";
 import VectorDocument from "../models/vector-document.model";
 import {
@@ -24,9 +26,6 @@ const logger = loggerFactory.getLogger("ChatController");
 const router = Router();
 router.use(optionalAuthMiddleware);
 
-// Create SSE instances for each session
-export const sseConnections: Record<string, SSEWrapper> = {};
-
 /**
  * @route   POST /api/chat/sessions
  * @desc    Create a new chat session for the authenticated user
@@ -145,11 +144,8 @@ router.delete("/sessions/:sessionId", async (req: Request, res: Response) => {
     // Clean up chat session state from memory
     chatSessionManager.endSession(sessionId);
 
-    // Clean up SSE connection if exists
-    if (sseConnections[sessionId]) {
-      sseConnections[sessionId].close();
-      delete sseConnections[sessionId];
-    }
+    // Clean up SSE connections for the session on this instance
+    realtimeService.closeSession(sessionId);
 
     res.status(204).end();
   } catch (error) {
@@ -203,28 +199,19 @@ router.post("/:sessionId/message", async (req: Request, res: Response) => {
     }
 
     // Indicate processing started via SSE
-    if (sseConnections[sessionId]) {
-      // Send user message status (initially received, maybe processing)
-      sseConnections[sessionId].send(
-        {
-          messageId: clientMessageId, // Send the REAL backend-generated ID
-          clientTempId: clientTempId, // Include the client's temp ID for reconciliation
-          sessionId: sessionId,
-          role: MessageRole.USER,
-          content: message,
-          status: MessageStatus.PROCESSING, // Or COMPLETED if we consider it done on receipt
-          timestamp: new Date().toISOString(),
-          userId: userId,
-        },
-        "messageUpdate" // Use messageUpdate to potentially create/update the message on client
-      );
-      // Indicate assistant is typing (placeholder)
-      sseConnections[sessionId].send({ isTyping: true }, "typing");
-    } else {
-      logger.warn(
-        `SSE connection not found for session ${sessionId} before processing message.`
-      );
-    }
+    // Send user message status (initially received, maybe processing)
+    realtimeService.publishToSession(sessionId, "messageUpdate", {
+      messageId: clientMessageId, // Send the REAL backend-generated ID
+      clientTempId: clientTempId, // Include the client's temp ID for reconciliation
+      sessionId: sessionId,
+      role: MessageRole.USER,
+      content: message,
+      status: MessageStatus.PROCESSING, // Or COMPLETED if we consider it done on receipt
+      timestamp: new Date().toISOString(),
+      userId: userId,
+    });
+    // Indicate assistant is typing (placeholder)
+    realtimeService.publishToSession(sessionId, "typing", { isTyping: true });
 
     // Add the user message to the chat session
     // This ensures the message appears in the chat immediately
@@ -261,31 +248,26 @@ router.post("/:sessionId/message", async (req: Request, res: Response) => {
     );
 
     // Attempt to send an error message via SSE
-    if (sseConnections[sessionId]) {
-      const errorAssistantMessageId = uuidv4();
-      const errorContent = error.message?.includes("Access denied")
-        ? "Error: Access Denied."
-        : "Sorry, an internal error occurred processing your message.";
-
-      sseConnections[sessionId].send(
-        {
-          messageId: errorAssistantMessageId,
-          sessionId: sessionId,
-          role: MessageRole.ASSISTANT,
-          content: errorContent,
-          status: MessageStatus.ERROR,
-          timestamp: new Date().toISOString(),
-          userId: userId,
-          metadata: { error: true, errorMessage: error.message },
-        },
-        "messageUpdate"
-      );
-      // Send typing stopped
-      sseConnections[sessionId].send(
-        { isTyping: false, messageId: errorAssistantMessageId },
-        "typing"
-      );
-    }
+    const errorAssistantMessageId = uuidv4();
+    const errorContent = error.message?.includes("Access denied")
+      ? "Error: Access Denied."
+      : "Sorry, an internal error occurred processing your message.";
+
+    realtimeService.publishToSession(sessionId, "messageUpdate", {
+      messageId: errorAssistantMessageId,
+      sessionId: sessionId,
+      role: MessageRole.ASSISTANT,
+      content: errorContent,
+      status: MessageStatus.ERROR,
+      timestamp: new Date().toISOString(),
+      userId: userId,
+      metadata: { error: true, errorMessage: error.message },
+    });
+    // Send typing stopped
+    realtimeService.publishToSession(sessionId, "typing", {
+      isTyping: false,
+      messageId: errorAssistantMessageId,
+    });
 
     // Determine appropriate status code based on error type
     let statusCode = 500;
@@ -359,6 +341,44 @@ router.get("/:sessionId/messages", async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * @route   POST /api/chat/:sessionId/stream-ticket
+ * @desc    Mint a one-time ticket for opening the session's event stream
+ * @access  Private
+ */
+router.post(
+  "/:sessionId/stream-ticket",
+  async (req: Request, res: Response) => {
+    if (!req.user?.sessionId) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const { sessionId } = req.params;
+      const session = await sessionService.getSession(sessionId);
+      if (!session) {
+        return res.status(404).json({ error: "Session not found" });
+      }
+      // Global session ids are predictable, so they get no exception
+      if (session.userId !== req.user.id) {
+        return res
+          .status(403)
+          .json({ error: "Access denied - Not your session" });
+      }
+
+      res.json(
+        authSessionService.issueStreamTicket(
+          { id: req.user.id, sid: req.user.sessionId },
+          sessionId
+        )
+      );
+    } catch (error) {
+      logger.error("Error issuing stream ticket:", error as Error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  }
+);
+
 /**
  * @route   GET /api/chat/:sessionId/events
  * @desc    Establish SSE connection for real-time session updates
@@ -367,10 +387,11 @@ router.get("/:sessionId/messages", async (req: Request, res: Response) => {
 router.get("/:sessionId/events", async (req: Request, res: Response) => {
   const { sessionId } = req.params;
 
-  // Check both authorization header and query parameter for token
+  // EventSource can't send headers, so browsers pass a one-time ticket from
+  // POST /:sessionId/stream-ticket; other clients may send their access token
+  const ticket =
+    typeof req.query.ticket === "string" ? req.query.ticket : undefined;
   let token: string | undefined = undefined;
-
-  // First check Authorization header (prioritize this)
   const authHeader = req.headers.authorization;
   if (authHeader && authHeader.startsWith("Bearer ")) {
     token = authHeader.split(" ")[1];
@@ -378,13 +399,6 @@ router.get("/:sessionId/events", async (req: Request, res: Response) => {
       `SSE Auth: Using token from Authorization header for session ${sessionId}`
     );
   }
-  // Then fall back to query parameter if header is not available
-  else if (req.query.token) {
-    token = req.query.token as string;
-    logger.debug(
-      `SSE Auth: Using token from query parameter for session ${sessionId}`
-    );
-  }
 
   let userId: string | undefined = undefined; // Initialize as undefined
 
@@ -401,8 +415,10 @@ router.get("/:sessionId/events", async (req: Request, res: Response) => {
   }
 
   // --- Authentication ---
-  if (!token) {
-    logger.warn(`SSE Auth: No token provided for session ${sessionId}.`);
+  if (!ticket && !token) {
+    logger.warn(
+      `SSE Auth: No ticket or token provided for session ${sessionId}.`
+    );
     res.write(
       `event: error\ndata: ${JSON.stringify({ error: "Unauthorized: No token provided" })}\n\n`
     );
@@ -423,12 +439,17 @@ router.get("/:sessionId/events", async (req: Request, res: Response) => {
 
     // Verify using the correct secret
     try {
-      const decoded = jwt.verify(token, secret) as { id: string };
+      const tokenUserId = ticket
+        ? await authSessionService.redeemStreamTicket(ticket, sessionId)
+        : (await authSessionService.verifyAccessToken(token as string)).id;
+      if (!tokenUserId) {
+        throw new Error("invalid, expired or already used stream ticket");
+      }
       // Check if user exists in DB (optional but good practice)
-      const user = await userService.findUserById(decoded.id);
+      const user = await userService.findUserById(tokenUserId);
       if (!user) {
         logger.warn(
-          `SSE Auth: User ${decoded.id} from token not found in DB for session ${sessionId}.`
+          `SSE Auth: User ${tokenUserId} from token not found in DB for session ${sessionId}.`
         );
         res.write(
           `event: error\ndata: ${JSON.stringify({ error: "Unauthorized: User not found" })}\n\n`
@@ -477,10 +498,8 @@ router.get("/:sessionId/events", async (req: Request, res: Response) => {
       return res.end();
     }
 
-    // Access check: Simply check if the session belongs to the authenticated user.
-    // Global sessions can be accessed by anyone, other sessions must be owned by the user
-    const isGlobalSession = sessionId.startsWith("global-");
-    if (!isGlobalSession && session.userId !== userId) {
+    // Access check: the session, global ones included, must belong to the user
+    if (session.userId !== userId) {
       logger.warn(
         `SSE connection denied: User ${userId} cannot access session ${sessionId} owned by ${session.userId}.`
       );
@@ -510,22 +529,29 @@ router.get("/:sessionId/events", async (req: Request, res: Response) => {
         return;
       }
 
-      // Store in global map for access in message handler/etc
-      sseConnections[sessionId] = sseWrapper;
+      // Register with the realtime service so bus events reach this client
+      realtimeService.registerConnection(sseWrapper);
 
       // Send initial connection success message
       res.write(
         `event: connected\ndata: ${JSON.stringify({ status: "connected", sessionId })}\n\n`
       );
 
+      // Replay anything missed while reconnecting. Browsers send Last-Event-ID
+      // on automatic reconnects; clients that reconnect manually pass it as a query param.
+      const lastEventId =
+        (req.headers["last-event-id"] as string | undefined) ||
+        (req.query.lastEventId as string | undefined);
+      if (lastEventId) {
+        realtimeService.replay(sseWrapper, lastEventId);
+      }
+
       // 3. Handle Client Disconnect - Our wrapper handles this internally as well
       req.on("close", () => {
         logger.info(
           `SSE connection closed for session ${sessionId}, user ${userId}.`
         );
-        if (sseConnections[sessionId] === sseWrapper) {
-          delete sseConnections[sessionId];
-        }
+        realtimeService.unregisterConnection(sseWrapper);
       });
     } catch (error) {
       logger.error(`Error initializing SSE wrapper: ${error}`);
@@ -604,6 +630,13 @@ router.delete(
       message.isDeleted = true;
       await message.save();
 
+      // Summaries that include it are rebuilt after the next reply
+      await conversationSummaryService.invalidateMessage(
+        sessionId,
+        message.timestamp,
+        message.metadata?.activityId
+      );
+
       // 2. Update any related memories that have this message ID
       await Memory.updateMany(
         { "metadata.messageId": messageId },
@@ -622,16 +655,11 @@ router.delete(
         messageId
       );
 
-      // 5. Send SSE update if connection exists
-      if (sseConnections[sessionId]) {
-        sseConnections[sessionId].send(
-          {
-            messageId: messageId,
-            isDeleted: true,
-          },
-          "messageUpdate"
-        );
-      }
+      // 5. Send SSE update
+      realtimeService.publishToSession(sessionId, "messageUpdate", {
+        messageId: messageId,
+        isDeleted: true,
+      });
 
       res.status(200).json({
         success: true,
@@ -689,6 +717,11 @@ router.post(
       // Mark the message as not deleted
       message.isDeleted = false;
       await message.save();
+      await conversationSummaryService.invalidateMessage(
+        sessionId,
+        message.timestamp,
+        message.metadata?.activityId
+      );
 
       // 2. Update any related memories
       await Memory.updateMany(
@@ -708,16 +741,11 @@ router.post(
         messageId
       );
 
-      // 5. Send SSE update if connection exists
-      if (sseConnections[sessionId]) {
-        sseConnections[sessionId].send(
-          {
-            messageId: messageId,
-            isDeleted: false,
-          },
-          "messageUpdate"
-        );
-      }
+      // 5. Send SSE update
+      realtimeService.publishToSession(sessionId, "messageUpdate", {
+        messageId: messageId,
+        isDeleted: false,
+      });
 
       res.status(200).json({
         success: true,
@@ -730,6 +758,73 @@ router.post(
   }
 );
 
+/**
+ * @route   GET /api/chat/:sessionId/messages/:messageId/provenance
+ * @desc    What the prompt contained when an assistant message was generated,
+ *          with each memory's current state
+ * @access  Private
+ */
+router.get(
+  "/:sessionId/messages/:messageId/provenance",
+  async (req: Request, res: Response) => {
+    try {
+      const { sessionId, messageId } = req.params;
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      const session = await sessionService.getSession(sessionId);
+      if (!session) {
+        return res.status(404).json({ error: "Session not found" });
+      }
+      if (session.userId !== userId) {
+        return res
+          .status(403)
+          .json({ error: "Access denied - Not your session" });
+      }
+
+      const message = await Message.findById(messageId).lean();
+      if (!message || message.sessionId !== sessionId) {
+        return res.status(404).json({ error: "Message not found" });
+      }
+
+      const provenance = message.provenance;
+      const memoryIds = provenance?.memories.map((memory) => memory.memoryId);
+      const current = memoryIds?.length
+        ? await Memory.find({ _id: { $in: memoryIds }, userId })
+            .select("isDeleted mergedInto supersededBy")
+            .lean()
+        : [];
+      const currentById = new Map(
+        current.map((memory) => [String(memory._id), memory])
+      );
+
+      res.status(200).json({
+        success: true,
+        data: {
+          messageId,
+          recorded: Boolean(provenance),
+          memories: (provenance?.memories || []).map((memory) => {
+            const state = currentById.get(memory.memoryId);
+            return {
+              ...memory,
+              exists: Boolean(state),
+              isDeleted: state?.isDeleted === true,
+              replacedBy: state?.mergedInto || state?.supersededBy,
+            };
+          }),
+          contextItems: provenance?.contextItems || [],
+          activity: provenance?.activity,
+        },
+      });
+    } catch (error) {
+      console.error("Error fetching message provenance:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  }
+);
+
 /**
  * @route   PATCH /api/chat/sessions/:sessionId/status
  * @desc    Update session status (e.g., active, archived, favorite)
@@ -1,17 +1,111 @@
 import { Request, Response, Router } from "express";
+import { aiService } from "../../services/ai.service";
 import {
-  aiService,
   AIParameters,
+  AIPurpose,
   LLMProvider,
-} from "../../services/ai.service";
+} from "../../services/model.service";
+import { aiSettingsService } from "../../services/ai-settings.service";
 import { authMiddleware } from "../../middlewares/auth.middleware";
 
 /**
- * Controller for managing AI model parameters
+ * Check parameter values sent by the client. Returns an error message, or
+ * null when the parameters are acceptable. Null values clear a field.
+ */
+function validateParameters(parameters: any): string | null {
+  if (!parameters || typeof parameters !== "object") {
+    return "Parameters must be an object";
+  }
+
+  const {
+    model,
+    provider,
+    temperature,
+    max_tokens,
+    top_p,
+    frequency_penalty,
+    presence_penalty,
+    stop_sequences,
+    endpointUrl,
+  } = parameters as Record<keyof AIParameters, any>;
+
+  if (model != null && (typeof model !== "string" || !model.trim())) {
+    return "Model must be a non-empty string";
+  }
+  if (
+    provider != null &&
+    !Object.values(LLMProvider).includes(provider as LLMProvider)
+  ) {
+    return `Provider must be one of: ${Object.values(LLMProvider).join(", ")}`;
+  }
+  if (
+    temperature != null &&
+    (typeof temperature !== "number" || temperature < 0 || temperature > 2)
+  ) {
+    return "Temperature must be between 0 and 2";
+  }
+  if (
+    max_tokens != null &&
+    (!Number.isInteger(max_tokens) || max_tokens < 1 || max_tokens > 8192)
+  ) {
+    return "Max tokens must be between 1 and 8192";
+  }
+  if (top_p != null && (typeof top_p !== "number" || top_p < 0 || top_p > 1)) {
+    return "Top P must be between 0 and 1";
+  }
+  for (const [name, value] of [
+    ["Frequency penalty", frequency_penalty],
+    ["Presence penalty", presence_penalty],
+  ]) {
+    if (
+      value != null &&
+      (typeof value !== "number" || value < -2 || value > 2)
+    ) {
+      return `${name} must be between -2 and 2`;
+    }
+  }
+  if (
+    stop_sequences != null &&
+    (!Array.isArray(stop_sequences) ||
+      stop_sequences.some((stop: unknown) => typeof stop !== "string"))
+  ) {
+    return "Stop sequences must be an array of strings";
+  }
+  if (endpointUrl != null) {
+    try {
+      new URL(endpointUrl);
+    } catch {
+      return "Endpoint URL must be a valid URL";
+    }
+  }
+  return null;
+}
+
+/**
+ * Check a purpose -> parameters map sent with a profile
+ */
+function validateOverrides(overrides: any): string | null {
+  if (overrides == null) return null;
+  if (typeof overrides !== "object") {
+    return "Purpose overrides must be an object";
+  }
+  for (const [purpose, parameters] of Object.entries(overrides)) {
+    if (!Object.values(AIPurpose).includes(purpose as AIPurpose)) {
+      return `Unknown purpose ${purpose}`;
+    }
+    const error = validateParameters(parameters);
+    if (error) return `${purpose}: ${error}`;
+  }
+  return null;
+}
+
+/**
+ * Controller for managing AI model parameters, model profiles and
+ * per-purpose overrides. Everything is persisted in the user's UserState.
  */
 class AIParametersController {
   /**
-   * Get AI parameters for the authenticated user
+   * Get the effective chat parameters for the authenticated user
    */
   async getParameters(req: Request, res: Response): Promise<void> {
     try {
@@ -22,7 +116,8 @@ class AIParametersController {
         return;
       }
 
-      const parameters = aiService.getUserParameters(userId);
+      const sessionId = req.query.sessionId as string | undefined;
+      const parameters = await aiService.getParameters(userId, sessionId);
 
       res.status(200).json({
         success: true,
@@ -49,54 +144,266 @@ class AIParametersController {
         return;
       }
 
-      const parameters: Partial<AIParameters> = req.body;
-
       // Validate parameters
-      if (
-        parameters.temperature !== undefined &&
-        (parameters.temperature < 0 || parameters.temperature > 2)
-      ) {
+      const validationError = validateParameters(req.body);
+      if (validationError) {
+        res.status(400).json({ success: false, error: validationError });
+        return;
+      }
+
+      // Update parameters
+      await aiSettingsService.updateParameters(userId, req.body);
+      const updatedParameters = await aiService.getParameters(userId);
+
+      res.status(200).json({
+        success: true,
+        data: updatedParameters,
+      });
+    } catch (error) {
+      console.error("Error setting AI parameters:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to set AI parameters",
+      });
+    }
+  }
+
+  /**
+   * Get the stored settings: base parameters, overrides and profiles
+   */
+  async getSettings(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const settings = await aiSettingsService.getSettings(userId);
+
+      res.status(200).json({
+        success: true,
+        data: settings,
+      });
+    } catch (error) {
+      console.error("Error getting AI settings:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to get AI settings",
+      });
+    }
+  }
+
+  /**
+   * Set (or with an empty body, clear) the override for one purpose
+   */
+  async setPurposeOverride(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const purpose = req.params.purpose as AIPurpose;
+
+      if (!Object.values(AIPurpose).includes(purpose)) {
         res.status(400).json({
           success: false,
-          error: "Temperature must be between 0 and 2",
+          error: `Purpose must be one of: ${Object.values(AIPurpose).join(", ")}`,
         });
         return;
       }
 
-      if (
-        parameters.maxTokens !== undefined &&
-        (parameters.maxTokens < 1 || parameters.maxTokens > 8192)
-      ) {
+      const parameters = req.method === "DELETE" ? null : req.body;
+      const validationError = parameters && validateParameters(parameters);
+      if (validationError) {
+        res.status(400).json({ success: false, error: validationError });
+        return;
+      }
+
+      const settings = await aiSettingsService.setPurposeOverride(
+        userId,
+        purpose,
+        parameters
+      );
+
+      res.status(200).json({
+        success: true,
+        data: settings,
+      });
+    } catch (error) {
+      console.error("Error setting AI purpose override:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to set purpose override",
+      });
+    }
+  }
+
+  /**
+   * Create a named model profile
+   */
+  async createProfile(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const { name, description, parameters, purposeOverrides } = req.body;
+
+      if (!name || typeof name !== "string" || !name.trim()) {
         res.status(400).json({
           success: false,
-          error: "Max tokens must be between 1 and 8192",
+          error: "Profile name is required",
         });
         return;
       }
+      const validationError =
+        validateParameters(parameters || {}) ||
+        validateOverrides(purposeOverrides);
+      if (validationError) {
+        res.status(400).json({ success: false, error: validationError });
+        return;
+      }
 
-      if (
-        parameters.topP !== undefined &&
-        (parameters.topP < 0 || parameters.topP > 1)
-      ) {
-        res.status(400).json({
+      const profile = await aiSettingsService.createProfile(userId, {
+        name,
+        description,
+        parameters,
+        purposeOverrides,
+      });
+
+      res.status(201).json({
+        success: true,
+        data: profile,
+      });
+    } catch (error) {
+      console.error("Error creating model profile:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to create model profile",
+      });
+    }
+  }
+
+  /**
+   * Update a model profile's name, description, parameters or overrides
+   */
+  async updateProfile(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const { name, description, parameters, purposeOverrides } = req.body;
+
+      const validationError =
+        (parameters !== undefined && validateParameters(parameters)) ||
+        validateOverrides(purposeOverrides);
+      if (validationError) {
+        res.status(400).json({ success: false, error: validationError });
+        return;
+      }
+
+      const profile = await aiSettingsService.updateProfile(
+        userId,
+        req.params.profileId,
+        { name, description, parameters, purposeOverrides }
+      );
+      if (!profile) {
+        res.status(404).json({
           success: false,
-          error: "Top P must be between 0 and 1",
+          error: "Model profile not found",
         });
         return;
       }
 
-      // Update parameters
-      const updatedParameters = aiService.setUserParameters(userId, parameters);
+      res.status(200).json({
+        success: true,
+        data: profile,
+      });
+    } catch (error) {
+      console.error("Error updating model profile:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to update model profile",
+      });
+    }
+  }
+
+  /**
+   * Delete a model profile
+   */
+  async deleteProfile(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const deleted = await aiSettingsService.deleteProfile(
+        userId,
+        req.params.profileId
+      );
+      if (!deleted) {
+        res.status(404).json({
+          success: false,
+          error: "Model profile not found",
+        });
+        return;
+      }
+
+      res.status(200).json({ success: true });
+    } catch (error) {
+      console.error("Error deleting model profile:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to delete model profile",
+      });
+    }
+  }
+
+  /**
+   * Make a profile the default for all sessions (profileId null to clear)
+   */
+  async activateProfile(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const settings = await aiSettingsService.activateProfile(
+        userId,
+        req.body.profileId || null
+      );
+      if (!settings) {
+        res.status(404).json({
+          success: false,
+          error: "Model profile not found",
+        });
+        return;
+      }
 
       res.status(200).json({
         success: true,
-        data: updatedParameters,
+        data: settings,
       });
     } catch (error) {
-      console.error("Error setting AI parameters:", error);
+      console.error("Error activating model profile:", error);
       res.status(500).json({
         success: false,
-        error: "Failed to set AI parameters",
+        error: "Failed to activate model profile",
+      });
+    }
+  }
+
+  /**
+   * Switch the profile used in one session (profileId null to follow the
+   * active profile)
+   */
+  async setSessionProfile(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const updated = await aiSettingsService.setSessionProfile(
+        userId,
+        req.params.sessionId,
+        req.body.profileId || null
+      );
+      if (!updated) {
+        res.status(404).json({
+          success: false,
+          error: "Session or model profile not found",
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: await aiService.getParameters(userId, req.params.sessionId),
+      });
+    } catch (error) {
+      console.error("Error switching session model profile:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to switch session model profile",
       });
     }
   }
@@ -149,28 +456,23 @@ class AIParametersController {
 
       // Check for actually available Ollama models if possible
       try {
-        // Get default config to find Ollama endpoint
-        const defaultConfig = aiService.getUserParameters("default");
-
-        if (
-          defaultConfig.provider === LLMProvider.OLLAMA &&
-          defaultConfig.endpointUrl
-        ) {
-          const response = await fetch(`${defaultConfig.endpointUrl}/api/tags`);
-
-          if (response.ok) {
-            const data = await response.json();
-
-            // Replace Ollama models with actual available models
-            if (data.models && Array.isArray(data.models)) {
-              availableModels[LLMProvider.OLLAMA] = data.models.map(
-                (model: any) => ({
-                  id: model.name,
-                  name: model.name,
-                  description: `${model.details?.family || "AI"} model, ${Math.round(model.size / (1024 * 1024))}MB`,
-                })
-              );
-            }
+        const ollamaUrl =
+          process.env.OLLAMA_BASE_URL || "http://localhost:11434";
+
+        const response = await fetch(`${ollamaUrl}/api/tags`);
+
+        if (response.ok) {
+          const data = await response.json();
+
+          // Replace Ollama models with actual available models
+          if (data.models && Array.isArray(data.models)) {
+            availableModels[LLMProvider.OLLAMA] = data.models.map(
+              (model: any) => ({
+                id: model.name,
+                name: model.name,
+                description: `${model.details?.family || "AI"} model, ${Math.round(model.size / (1024 * 1024))}MB`,
+              })
+            );
           }
         }
       } catch (ollamaError) {
@@ -182,6 +484,7 @@ class AIParametersController {
         success: true,
         data: {
           providers: Object.values(LLMProvider),
+          purposes: Object.values(AIPurpose),
           models: availableModels,
         },
       });
@@ -205,6 +508,46 @@ const router = Router();
 router.get("/", authMiddleware, controller.getParameters.bind(controller));
 router.post("/", authMiddleware, controller.setParameters.bind(controller));
 router.get("/models", controller.getAvailableModels.bind(controller));
+router.get(
+  "/settings",
+  authMiddleware,
+  controller.getSettings.bind(controller)
+);
+router.put(
+  "/overrides/:purpose",
+  authMiddleware,
+  controller.setPurposeOverride.bind(controller)
+);
+router.delete(
+  "/overrides/:purpose",
+  authMiddleware,
+  controller.setPurposeOverride.bind(controller)
+);
+router.post(
+  "/profiles",
+  authMiddleware,
+  controller.createProfile.bind(controller)
+);
+router.put(
+  "/profiles/:profileId",
+  authMiddleware,
+  controller.updateProfile.bind(controller)
+);
+router.delete(
+  "/profiles/:profileId",
+  authMiddleware,
+  controller.deleteProfile.bind(controller)
+);
+router.post(
+  "/active-profile",
+  authMiddleware,
+  controller.activateProfile.bind(controller)
+);
+router.put(
+  "/sessions/:sessionId/profile",
+  authMiddleware,
+  controller.setSessionProfile.bind(controller)
+);
 
 // Export the router as default
 export default router;
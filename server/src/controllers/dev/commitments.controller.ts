@@ -0,0 +1,113 @@
+import express, { Request, Response } from "express";
+import { authMiddleware } from "../../middlewares/auth.middleware";
+import { loggerFactory } from "../../utils/logger.service";
+import { commitmentService } from "../../services/productivity/commitment.service";
+import { CommitmentStatus } from "../../models/commitment.model";
+
+const logger = loggerFactory.getLogger("CommitmentsController");
+const router = express.Router();
+
+const STATUSES: CommitmentStatus[] = [
+  "pending",
+  "created",
+  "dismissed",
+  "duplicate",
+];
+
+router.use(authMiddleware);
+
+/**
+ * List todos and commitments picked up from conversation
+ * GET /api/commitments?status=pending
+ */
+router.get("/", async (req: Request, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({ message: "Unauthorized" });
+  }
+
+  const status = req.query.status as CommitmentStatus | undefined;
+  if (status && !STATUSES.includes(status)) {
+    return res.status(400).json({
+      success: false,
+      message: `status must be one of ${STATUSES.join(", ")}`,
+    });
+  }
+
+  try {
+    const commitments = await commitmentService.listCommitments(
+      req.user.id,
+      status
+    );
+    return res.json({ success: true, commitments });
+  } catch (error) {
+    logger.error("Error listing commitments:", error as Error);
+    return res.status(500).json({
+      success: false,
+      message: "Failed to list commitments",
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
+/**
+ * Confirm a pending commitment, creating it in Notion or the scheduler
+ * POST /api/commitments/:id/confirm
+ */
+router.post("/:id/confirm", async (req: Request, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({ message: "Unauthorized" });
+  }
+
+  try {
+    const commitment = await commitmentService.confirmCommitment(
+      req.user.id,
+      req.params.id
+    );
+    return res.json({ success: true, commitment });
+  } catch (error) {
+    if ((error as Error).message === "Commitment not found") {
+      return res
+        .status(404)
+        .json({ success: false, message: "Commitment not found" });
+    }
+    logger.error("Error confirming commitment:", error as Error);
+    return res.status(500).json({
+      success: false,
+      message: "Failed to confirm commitment",
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
+/**
+ * Decline a pending commitment
+ * POST /api/commitments/:id/dismiss
+ */
+router.post("/:id/dismiss", async (req: Request, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({ message: "Unauthorized" });
+  }
+
+  try {
+    const commitment = await commitmentService.dismissCommitment(
+      req.user.id,
+      req.params.id
+    );
+    if (!commitment) {
+      return res.status(404).json({
+        success: false,
+        message: "No pending commitment with this ID",
+      });
+    }
+    return res.json({ success: true, commitment });
+  } catch (error) {
+    logger.error("Error dismissing commitment:", error as Error);
+    return res.status(500).json({
+      success: false,
+      message: "Failed to dismiss commitment",
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
+export default router;
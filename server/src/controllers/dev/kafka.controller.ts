@@ -0,0 +1,183 @@
+import express, { Request, Response } from "express";
+import { deadLetterService } from "../../services/kafka/dead-letter.service";
+import { KafkaTopic } from "../../services/kafka/message-producer.service";
+import { DeadLetterStatus } from "../../models/dead-letter.model";
+import { authMiddleware } from "../../middlewares/auth.middleware";
+
+const router = express.Router();
+
+const DEAD_LETTER_STATUSES: DeadLetterStatus[] = [
+  "pending",
+  "replayed",
+  "discarded",
+];
+
+/**
+ * @route GET /api/dev/kafka/dlq
+ * @desc List dead-lettered messages, optionally filtered by source topic and status
+ * @access Admin
+ */
+router.get("/dlq", authMiddleware, async (req: Request, res: Response) => {
+  try {
+    // Dead letters hold every user's payloads, so only admins may see them
+    if (!req.user || !req.user.isAdmin) {
+      return res.status(403).json({
+        success: false,
+        message: "Unauthorized: Admin privileges required",
+      });
+    }
+    const topic = req.query.topic as string | undefined;
+    const status = req.query.status as DeadLetterStatus | undefined;
+    const before = req.query.before
+      ? new Date(req.query.before as string)
+      : undefined;
+
+    if (topic && !Object.values(KafkaTopic).includes(topic as KafkaTopic)) {
+      return res.status(400).json({
+        success: false,
+        message: `Unknown topic. Expected one of: ${Object.values(KafkaTopic).join(", ")}`,
+      });
+    }
+    if (status && !DEAD_LETTER_STATUSES.includes(status)) {
+      return res.status(400).json({
+        success: false,
+        message: `Invalid status. Expected one of: ${DEAD_LETTER_STATUSES.join(", ")}`,
+      });
+    }
+    if (before && isNaN(before.getTime())) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid 'before' date",
+      });
+    }
+
+    const entries = await deadLetterService.listEntries({
+      topic,
+      status,
+      before,
+      limit: req.query.limit ? parseInt(req.query.limit as string, 10) : 50,
+    });
+
+    res.json({
+      success: true,
+      data: entries,
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      message: error.message || "Error listing dead letters",
+    });
+  }
+});
+
+/**
+ * @route GET /api/dev/kafka/dlq/:id
+ * @desc Inspect a dead letter, including its original payload and error
+ * @access Admin
+ */
+router.get("/dlq/:id", authMiddleware, async (req: Request, res: Response) => {
+  try {
+    // Only admins may act on other users' dead letters
+    if (!req.user || !req.user.isAdmin) {
+      return res.status(403).json({
+        success: false,
+        message: "Unauthorized: Admin privileges required",
+      });
+    }
+    const entry = await deadLetterService.getEntry(req.params.id);
+    if (!entry) {
+      return res.status(404).json({
+        success: false,
+        message: "Dead letter not found",
+      });
+    }
+
+    res.json({
+      success: true,
+      data: entry,
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      message: error.message || "Error getting dead letter",
+    });
+  }
+});
+
+/**
+ * @route POST /api/dev/kafka/dlq/:id/replay
+ * @desc Re-publish a dead letter to its source topic
+ * @access Admin
+ */
+router.post(
+  "/dlq/:id/replay",
+  authMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      // Only admins may act on other users' dead letters
+      if (!req.user || !req.user.isAdmin) {
+        return res.status(403).json({
+          success: false,
+          message: "Unauthorized: Admin privileges required",
+        });
+      }
+      const entry = await deadLetterService.replay(req.params.id);
+      if (!entry) {
+        return res.status(404).json({
+          success: false,
+          message: "Dead letter not found",
+        });
+      }
+
+      res.json({
+        success: true,
+        data: entry,
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: error.message || "Error replaying dead letter",
+      });
+    }
+  }
+);
+
+/**
+ * @route POST /api/dev/kafka/dlq/:id/discard
+ * @desc Mark a dead letter as handled without replaying it
+ * @access Admin
+ */
+router.post(
+  "/dlq/:id/discard",
+  authMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      // Only admins may act on other users' dead letters
+      if (!req.user || !req.user.isAdmin) {
+        return res.status(403).json({
+          success: false,
+          message: "Unauthorized: Admin privileges required",
+        });
+      }
+      const entry = await deadLetterService.discard(req.params.id);
+      if (!entry) {
+        return res.status(404).json({
+          success: false,
+          message: "Dead letter not found",
+        });
+      }
+
+      res.json({
+        success: true,
+        data: entry,
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: error.message || "Error discarding dead letter",
+      });
+    }
+  }
+);
+
+export default router;
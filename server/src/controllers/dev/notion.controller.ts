@@ -1,7 +1,9 @@
-import express, { Request, Response } from "express";import { authMiddleware } from "../../middlewares/auth.middleware";
+import express, { Request, Response } from "express";
+import { authMiddleware } from "../../middlewares/auth.middleware";
 import { loggerFactory } from "../../utils/logger.service";
 import { userStateService } from "../../services/user-state.service";
 import { notionService } from "../../services/productivity/notion.service";
+import { notionSyncService } from "../../services/productivity/notion-sync.service";
 import axios from "axios";
 
 const logger = loggerFactory.getLogger("NotionController");
@@ -20,7 +22,13 @@ router.put("/settings", async (req: Request, res: Response) => {
   }
 
   const userId = req.user.id;
-  const { token, pageId, enabled = true } = req.body;
+  const {
+    token,
+    pageId,
+    databaseId,
+    goalsDatabaseId,
+    enabled = true,
+  } = req.body;
 
   if (!token) {
     return res.status(400).json({ message: "Notion API token is required" });
@@ -42,13 +50,6 @@ router.put("/settings", async (req: Request, res: Response) => {
         workspaceName: response.data.workspace_name || "Notion Workspace",
         userId: response.data.id,
       };
-
-      // Also update the in-memory cache in notionService
-      notionService.setCredentials(userId, {
-        accessToken: token,
-        pageId: pageId,
-        workspaceId: response.data.id,
-      });
     } catch (error) {
       logger.error("Error fetching Notion workspace info:", error);
       // Continue even if this fails
@@ -60,6 +61,8 @@ router.put("/settings", async (req: Request, res: Response) => {
       {
         token,
         pageId,
+        databaseId,
+        goalsDatabaseId,
         enabled,
       }
     );
@@ -137,6 +140,8 @@ router.get("/settings", async (req: Request, res: Response) => {
         metadata: notionIntegration?.metadata || {},
         // Don't send sensitive credentials back
         hasPageId: !!credentials.pageId,
+        hasDatabaseId: !!credentials.databaseId,
+        hasGoalsDatabaseId: !!credentials.goalsDatabaseId,
       },
     });
   } catch (error) {
@@ -358,6 +363,28 @@ router.get("/user-pages", async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * Sync goals and todos with the configured Notion databases now
+ * POST /api/notion/sync
+ */
+router.post("/sync", async (req: Request, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({ message: "Unauthorized" });
+  }
+
+  try {
+    const report = await notionSyncService.syncUser(req.user.id);
+    return res.json({ success: true, report });
+  } catch (error) {
+    logger.error("Error syncing with Notion:", error as Error);
+    return res.status(500).json({
+      success: false,
+      message: "Failed to sync with Notion",
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
 /**
  * Search Notion content
  * POST /api/notion/search
@@ -0,0 +1,46 @@
+import express, { Request, Response } from "express";
+import { authMiddleware } from "../../middlewares/auth.middleware";
+import { loggerFactory } from "../../utils/logger.service";
+import { enhancedChatService } from "../../services/enhanced-chat.service";
+
+const logger = loggerFactory.getLogger("PromptInspectorController");
+const router = express.Router();
+
+router.use(authMiddleware);
+
+/**
+ * Show the exact prompt a message would get, with per-section token counts.
+ * Nothing is sent to the model or saved.
+ * POST /api/dev/prompt-inspector
+ * Body: { message: string, sessionId?: string }
+ */
+router.post("/", async (req: Request, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({ message: "Unauthorized" });
+  }
+
+  const { message, sessionId } = req.body;
+  if (typeof message !== "string" || !message.trim()) {
+    return res
+      .status(400)
+      .json({ success: false, message: "message is required" });
+  }
+
+  try {
+    const inspection = await enhancedChatService.inspectPrompt(
+      req.user.id,
+      message,
+      typeof sessionId === "string" ? sessionId : undefined
+    );
+    return res.json({ success: true, data: inspection });
+  } catch (error) {
+    logger.error("Error inspecting prompt:", error as Error);
+    return res.status(500).json({
+      success: false,
+      message: "Failed to assemble prompt",
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
+export default router;
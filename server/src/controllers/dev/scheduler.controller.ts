@@ -1,8 +1,48 @@
-import { Request, Response, Router } from "express";
-import { schedulerService } from "../../services/scheduler.service";
+import { NextFunction, Request, Response, Router } from "express";
+import {
+  schedulerService,
+  parseReminderOffsets,
+} from "../../services/scheduler.service";
+import { isValidRecurrence } from "../../utils/recurrence";
 import { validateRequest } from "../../middlewares/auth.middleware";
 import { authMiddleware } from "../../middlewares/auth.middleware";
 
+/**
+ * Validate the optional recurrence and reminder fields shared by create and
+ * update. Normalizes reminderOffsets to minutes in place.
+ */
+function validateScheduleFields(body: any): string | null {
+  if (
+    body.recurringPattern &&
+    (typeof body.recurringPattern !== "string" ||
+      !isValidRecurrence(body.recurringPattern))
+  ) {
+    return "recurringPattern must be a 5-field cron expression or an RRULE (e.g. FREQ=WEEKLY;BYDAY=MO)";
+  }
+
+  if (body.timezone !== undefined) {
+    try {
+      new Intl.DateTimeFormat("en-US", { timeZone: body.timezone });
+    } catch {
+      return `Unknown timezone "${body.timezone}"`;
+    }
+  }
+
+  if (body.reminderOffsets !== undefined) {
+    const offsets =
+      Array.isArray(body.reminderOffsets) ||
+      typeof body.reminderOffsets === "string"
+        ? parseReminderOffsets(body.reminderOffsets)
+        : null;
+    if (!offsets) {
+      return 'reminderOffsets must be a list of lead times such as ["1d", "1h"] or minutes';
+    }
+    body.reminderOffsets = offsets;
+  }
+
+  return null;
+}
+
 /**
  * Controller for task scheduling operations
  */
@@ -37,7 +77,7 @@ class SchedulerController {
       filters.dueAfter = req.query.dueAfter as string;
     }
 
-    const tasks = schedulerService.getUserTasks(
+    const tasks = await schedulerService.getUserTasks(
       userId,
       Object.keys(filters).length > 0 ? filters : undefined
     );
@@ -83,12 +123,20 @@ class SchedulerController {
       return;
     }
 
-    const task = schedulerService.createTask(userId, {
+    const scheduleError = validateScheduleFields(req.body);
+    if (scheduleError) {
+      res.status(400).json({ error: scheduleError });
+      return;
+    }
+
+    const task = await schedulerService.createTask(userId, {
       title: req.body.title,
       description: req.body.description,
       dueDate: req.body.dueDate,
       priority: req.body.priority,
       recurringPattern: req.body.recurringPattern,
+      timezone: req.body.timezone,
+      reminderOffsets: req.body.reminderOffsets,
       metadata: req.body.metadata,
     });
 
@@ -107,7 +155,7 @@ class SchedulerController {
       return;
     }
 
-    const task = schedulerService.getTask(taskId);
+    const task = await schedulerService.getTask(taskId);
 
     if (!task) {
       res.status(404).json({ error: "Task not found" });
@@ -136,7 +184,7 @@ class SchedulerController {
     }
 
     // Check if task exists and belongs to the user
-    const existingTask = schedulerService.getTask(taskId);
+    const existingTask = await schedulerService.getTask(taskId);
 
     if (!existingTask) {
       res.status(404).json({ error: "Task not found" });
@@ -178,7 +226,13 @@ class SchedulerController {
       return;
     }
 
-    const updatedTask = schedulerService.updateTask(taskId, req.body);
+    const scheduleError = validateScheduleFields(req.body);
+    if (scheduleError) {
+      res.status(400).json({ error: scheduleError });
+      return;
+    }
+
+    const updatedTask = await schedulerService.updateTask(taskId, req.body);
 
     if (!updatedTask) {
       res.status(500).json({ error: "Failed to update task" });
@@ -201,7 +255,7 @@ class SchedulerController {
     }
 
     // Check if task exists and belongs to the user
-    const existingTask = schedulerService.getTask(taskId);
+    const existingTask = await schedulerService.getTask(taskId);
 
     if (!existingTask) {
       res.status(404).json({ error: "Task not found" });
@@ -213,7 +267,7 @@ class SchedulerController {
       return;
     }
 
-    const success = schedulerService.deleteTask(taskId);
+    const success = await schedulerService.deleteTask(taskId);
 
     if (!success) {
       res.status(500).json({ error: "Failed to delete task" });
@@ -236,7 +290,7 @@ class SchedulerController {
     }
 
     // Check if task exists and belongs to the user
-    const existingTask = schedulerService.getTask(taskId);
+    const existingTask = await schedulerService.getTask(taskId);
 
     if (!existingTask) {
       res.status(404).json({ error: "Task not found" });
@@ -248,7 +302,7 @@ class SchedulerController {
       return;
     }
 
-    const updatedTask = schedulerService.completeTask(taskId);
+    const updatedTask = await schedulerService.completeTask(taskId);
 
     if (!updatedTask) {
       res.status(500).json({ error: "Failed to complete task" });
@@ -293,17 +347,20 @@ const controller = new SchedulerController();
 const router = Router();
 router.use(authMiddleware);
 
+// Forward rejected handler promises (e.g. database errors) to the error handler
+const handle =
+  (fn: (req: Request, res: Response) => Promise<void>) =>
+  (req: Request, res: Response, next: NextFunction) =>
+    fn.call(controller, req, res).catch(next);
+
 // Define routes
-router.get("/tasks", controller.getUserTasks.bind(controller));
-router.post("/tasks", controller.createTask.bind(controller));
-router.get("/tasks/:taskId", controller.getTaskById.bind(controller));
-router.put("/tasks/:taskId", controller.updateTask.bind(controller));
-router.delete("/tasks/:taskId", controller.deleteTask.bind(controller));
-router.post(
-  "/tasks/:taskId/complete",
-  controller.completeTask.bind(controller)
-);
-router.get("/suggestions", controller.getSuggestedTasks.bind(controller));
+router.get("/tasks", handle(controller.getUserTasks));
+router.post("/tasks", handle(controller.createTask));
+router.get("/tasks/:taskId", handle(controller.getTaskById));
+router.put("/tasks/:taskId", handle(controller.updateTask));
+router.delete("/tasks/:taskId", handle(controller.deleteTask));
+router.post("/tasks/:taskId/complete", handle(controller.completeTask));
+router.get("/suggestions", handle(controller.getSuggestedTasks));
 
 // Export the router as default
 export default router;
@@ -1,5 +1,6 @@
 import { Request, Response, Router } from "express";
 import { telegramBotService } from "../../services/telegram/telegram-bot.service";
+import { telegramLinkService } from "../../services/telegram/telegram-link.service";
 import { authMiddleware } from "../../middlewares/auth.middleware";
 
 const router = Router();
@@ -67,42 +68,101 @@ router.post("/stop", authMiddleware, (req: Request, res: Response) => {
 });
 
 /**
- * Link a Telegram user to a system user
+ * Issue a one-time code the user sends to the bot as `/link <code>` to bind
+ * their Telegram account. Set mergeHistory to bring over the memories,
+ * sessions and companion state of the Telegram-only account.
  *
  * POST /api/telegram/link
  */
-router.post("/link", authMiddleware, (req: Request, res: Response) => {
+router.post("/link", authMiddleware, async (req: Request, res: Response) => {
   try {
-    const { telegramUserId } = req.body;
-
-    if (!telegramUserId) {
-      return res.status(400).json({
-        success: false,
-        message: "Telegram user ID is required",
-      });
-    }
-
-    // Link the Telegram user ID to the current authenticated user
-    telegramBotService.linkUser(
-      parseInt(telegramUserId, 10),
+    const { code, expiresAt } = await telegramLinkService.createLinkCode(
       req.user.id,
-      req.user.username || req.user.email
+      { mergeHistory: req.body?.mergeHistory === true }
     );
 
+    return res.status(201).json({
+      success: true,
+      data: {
+        code,
+        expiresAt,
+        botUsername: process.env.TELEGRAM_BOT_USERNAME,
+      },
+    });
+  } catch (error) {
+    console.error("Error creating Telegram link code:", error);
+    return res.status(500).json({
+      success: false,
+      message: "Failed to create Telegram link code",
+      error: (error as Error).message,
+    });
+  }
+});
+
+/**
+ * List the Telegram accounts linked to the current user
+ *
+ * GET /api/telegram/links
+ */
+router.get("/links", authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const links = await telegramLinkService.listLinks(req.user.id);
+
     return res.status(200).json({
       success: true,
-      message: "Telegram account linked successfully",
+      data: links.map((link) => ({
+        telegramUserId: link._id,
+        telegramUsername: link.telegramUsername,
+        displayName: link.displayName,
+        linkedAt: link.linkedAt,
+      })),
     });
   } catch (error) {
-    console.error("Error linking Telegram account:", error);
+    console.error("Error listing Telegram links:", error);
     return res.status(500).json({
       success: false,
-      message: "Failed to link Telegram account",
+      message: "Failed to list linked Telegram accounts",
       error: (error as Error).message,
     });
   }
 });
 
+/**
+ * Unlink one of the current user's Telegram accounts
+ *
+ * DELETE /api/telegram/links/:telegramUserId
+ */
+router.delete(
+  "/links/:telegramUserId",
+  authMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const removed = await telegramLinkService.unlink(
+        req.params.telegramUserId,
+        req.user.id
+      );
+      if (!removed) {
+        return res.status(404).json({
+          success: false,
+          message: "Linked Telegram account not found",
+        });
+      }
+
+      return res.status(200).json({
+        success: true,
+        message: "Telegram account unlinked",
+      });
+    } catch (error) {
+      console.error("Error unlinking Telegram account:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Failed to unlink Telegram account",
+        error: (error as Error).message,
+      });
+    }
+  }
+);
+
 /**
  * Send a message to a specific Telegram user
  *
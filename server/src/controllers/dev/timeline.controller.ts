@@ -1,40 +1,73 @@
 import { Request, Response, Router } from "express";
-import { timelineService } from "../../services/timeline.service";
+import {
+  timelineService,
+  TimelineEventType,
+} from "../../services/timeline.service";
 import { loggerFactory } from "../../utils/logger.service";
 
 const logger = loggerFactory.getLogger("TimelineController");
 
 export const timelineController = Router();
 
-// GET /api/dev/timeline - Fetch user's timeline events
+const VALID_TYPES = Object.values(TimelineEventType) as string[];
+
+// GET /api/timeline - Fetch a page of the user's timeline events
+// Query: limit, before/after (cursors), types (comma-separated), sessionId
 timelineController.get("/", async (req: Request, res: Response) => {
   const userId = req.user?.id;
   if (!userId) {
     return res.status(401).json({ message: "Unauthorized" });
   }
 
-  // Optional query parameters for pagination/filtering
   const limit = parseInt(req.query.limit as string) || 50;
-  const before = req.query.before
-    ? new Date(req.query.before as string)
-    : undefined;
-  const after = req.query.after
-    ? new Date(req.query.after as string)
+  const before = req.query.before as string | undefined;
+  const after = req.query.after as string | undefined;
+  const sessionId = req.query.sessionId as string | undefined;
+  const types = req.query.types
+    ? (req.query.types as string).split(",").map((t) => t.trim())
     : undefined;
 
+  const invalidTypes = types?.filter((t) => !VALID_TYPES.includes(t)) || [];
+  if (invalidTypes.length > 0) {
+    return res.status(400).json({
+      message: `Unknown event types: ${invalidTypes.join(", ")}`,
+      validTypes: VALID_TYPES,
+    });
+  }
+
   try {
     logger.info(
       `Fetching timeline for user ${userId} with limit ${limit}, before: ${before}, after: ${after}`
     );
-    const events = await timelineService.getTimelineEvents(
-      userId,
+    const page = await timelineService.getTimelineEvents(userId, {
       limit,
       before,
-      after
-    );
-    res.status(200).json(events);
+      after,
+      sessionId,
+      types: types as TimelineEventType[] | undefined,
+    });
+    res.status(200).json(page);
   } catch (error: any) {
+    if (error.message === "Invalid timeline cursor") {
+      return res.status(400).json({ message: error.message });
+    }
     logger.error(`Error fetching timeline for user ${userId}:`, error);
     res.status(500).json({ message: "Failed to fetch timeline events" });
   }
 });
+
+// POST /api/timeline/backfill - Import existing history into the timeline
+timelineController.post("/backfill", async (req: Request, res: Response) => {
+  const userId = req.user?.id;
+  if (!userId) {
+    return res.status(401).json({ message: "Unauthorized" });
+  }
+
+  try {
+    const inserted = await timelineService.backfillUser(userId);
+    res.status(200).json({ inserted });
+  } catch (error: any) {
+    logger.error(`Error backfilling timeline for user ${userId}:`, error);
+    res.status(500).json({ message: "Failed to backfill timeline" });
+  }
+});
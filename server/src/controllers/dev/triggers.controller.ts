@@ -5,6 +5,8 @@ import {
   TriggerType,
   ActionType,
   Action,
+  validateTriggerConditions,
+  validateActionConfig,
 } from "../../services/triggers.service";
 import { authMiddleware } from "../../middlewares/auth.middleware";
 
@@ -15,9 +17,9 @@ const router = Router();
  *
  * GET /api/triggers
  */
-router.get("/", authMiddleware, (req: Request, res: Response) => {
+router.get("/", authMiddleware, async (req: Request, res: Response) => {
   const userId = req.user.id;
-  const triggers = triggersService.getUserTriggers(userId);
+  const triggers = await triggersService.getUserTriggers(userId);
 
   return res.status(200).json({
     success: true,
@@ -30,9 +32,9 @@ router.get("/", authMiddleware, (req: Request, res: Response) => {
  *
  * GET /api/triggers/:id
  */
-router.get("/:id", authMiddleware, (req: Request, res: Response) => {
+router.get("/:id", authMiddleware, async (req: Request, res: Response) => {
   const triggerId = req.params.id;
-  const trigger = triggersService.getTrigger(triggerId);
+  const trigger = await triggersService.getTrigger(triggerId);
 
   if (!trigger) {
     return res.status(404).json({
@@ -60,7 +62,7 @@ router.get("/:id", authMiddleware, (req: Request, res: Response) => {
  *
  * POST /api/triggers
  */
-router.post("/", authMiddleware, (req: Request, res: Response) => {
+router.post("/", authMiddleware, async (req: Request, res: Response) => {
   const userId = req.user.id;
   const { name, type, conditions, actions, description } = req.body;
 
@@ -80,6 +82,17 @@ router.post("/", authMiddleware, (req: Request, res: Response) => {
     });
   }
 
+  const conditionsError = validateTriggerConditions(
+    type as TriggerType,
+    conditions
+  );
+  if (conditionsError) {
+    return res.status(400).json({
+      success: false,
+      message: conditionsError,
+    });
+  }
+
   // Validate actions
   for (const action of actions) {
     if (
@@ -98,10 +111,18 @@ router.post("/", authMiddleware, (req: Request, res: Response) => {
         message: "Action missing config",
       });
     }
+
+    const configError = validateActionConfig(action as Action);
+    if (configError) {
+      return res.status(400).json({
+        success: false,
+        message: configError,
+      });
+    }
   }
 
   try {
-    const trigger = triggersService.createTrigger(
+    const trigger = await triggersService.createTrigger(
       userId,
       name,
       type as TriggerType,
@@ -128,11 +149,11 @@ router.post("/", authMiddleware, (req: Request, res: Response) => {
  *
  * PUT /api/triggers/:id
  */
-router.put("/:id", authMiddleware, (req: Request, res: Response) => {
+router.put("/:id", authMiddleware, async (req: Request, res: Response) => {
   const triggerId = req.params.id;
   const { name, conditions, actions, description, isActive } = req.body;
 
-  const existingTrigger = triggersService.getTrigger(triggerId);
+  const existingTrigger = await triggersService.getTrigger(triggerId);
 
   if (!existingTrigger) {
     return res.status(404).json({
@@ -175,6 +196,27 @@ router.put("/:id", authMiddleware, (req: Request, res: Response) => {
           message: "Action missing config",
         });
       }
+
+      const configError = validateActionConfig(action as Action);
+      if (configError) {
+        return res.status(400).json({
+          success: false,
+          message: configError,
+        });
+      }
+    }
+  }
+
+  if (conditions !== undefined) {
+    const conditionsError = validateTriggerConditions(
+      existingTrigger.type,
+      conditions
+    );
+    if (conditionsError) {
+      return res.status(400).json({
+        success: false,
+        message: conditionsError,
+      });
     }
   }
 
@@ -188,7 +230,10 @@ router.put("/:id", authMiddleware, (req: Request, res: Response) => {
   if (isActive !== undefined) updates.isActive = Boolean(isActive);
 
   try {
-    const updatedTrigger = triggersService.updateTrigger(triggerId, updates);
+    const updatedTrigger = await triggersService.updateTrigger(
+      triggerId,
+      updates
+    );
 
     return res.status(200).json({
       success: true,
@@ -208,10 +253,10 @@ router.put("/:id", authMiddleware, (req: Request, res: Response) => {
  *
  * DELETE /api/triggers/:id
  */
-router.delete("/:id", authMiddleware, (req: Request, res: Response) => {
+router.delete("/:id", authMiddleware, async (req: Request, res: Response) => {
   const triggerId = req.params.id;
 
-  const existingTrigger = triggersService.getTrigger(triggerId);
+  const existingTrigger = await triggersService.getTrigger(triggerId);
 
   if (!existingTrigger) {
     return res.status(404).json({
@@ -228,7 +273,7 @@ router.delete("/:id", authMiddleware, (req: Request, res: Response) => {
     });
   }
 
-  const deleted = triggersService.deleteTrigger(triggerId);
+  const deleted = await triggersService.deleteTrigger(triggerId);
 
   return res.status(200).json({
     success: deleted,
@@ -243,33 +288,37 @@ router.delete("/:id", authMiddleware, (req: Request, res: Response) => {
  *
  * POST /api/triggers/:id/activate
  */
-router.post("/:id/activate", authMiddleware, (req: Request, res: Response) => {
-  const triggerId = req.params.id;
+router.post(
+  "/:id/activate",
+  authMiddleware,
+  async (req: Request, res: Response) => {
+    const triggerId = req.params.id;
 
-  const existingTrigger = triggersService.getTrigger(triggerId);
+    const existingTrigger = await triggersService.getTrigger(triggerId);
 
-  if (!existingTrigger) {
-    return res.status(404).json({
-      success: false,
-      message: "Trigger not found",
-    });
-  }
+    if (!existingTrigger) {
+      return res.status(404).json({
+        success: false,
+        message: "Trigger not found",
+      });
+    }
 
-  // Check if the trigger belongs to the requesting user
-  if (existingTrigger.userId !== req.user.id) {
-    return res.status(403).json({
-      success: false,
-      message: "Access denied",
-    });
-  }
+    // Check if the trigger belongs to the requesting user
+    if (existingTrigger.userId !== req.user.id) {
+      return res.status(403).json({
+        success: false,
+        message: "Access denied",
+      });
+    }
 
-  const updatedTrigger = triggersService.activateTrigger(triggerId);
+    const updatedTrigger = await triggersService.activateTrigger(triggerId);
 
-  return res.status(200).json({
-    success: true,
-    data: updatedTrigger,
-  });
-});
+    return res.status(200).json({
+      success: true,
+      data: updatedTrigger,
+    });
+  }
+);
 
 /**
  * Deactivate a trigger
@@ -279,10 +328,10 @@ router.post("/:id/activate", authMiddleware, (req: Request, res: Response) => {
 router.post(
   "/:id/deactivate",
   authMiddleware,
-  (req: Request, res: Response) => {
+  async (req: Request, res: Response) => {
     const triggerId = req.params.id;
 
-    const existingTrigger = triggersService.getTrigger(triggerId);
+    const existingTrigger = await triggersService.getTrigger(triggerId);
 
     if (!existingTrigger) {
       return res.status(404).json({
@@ -299,7 +348,7 @@ router.post(
       });
     }
 
-    const updatedTrigger = triggersService.deactivateTrigger(triggerId);
+    const updatedTrigger = await triggersService.deactivateTrigger(triggerId);
 
     return res.status(200).json({
       success: true,
@@ -319,7 +368,7 @@ router.post(
   async (req: Request, res: Response) => {
     const triggerId = req.params.id;
 
-    const existingTrigger = triggersService.getTrigger(triggerId);
+    const existingTrigger = await triggersService.getTrigger(triggerId);
 
     if (!existingTrigger) {
       return res.status(404).json({
@@ -355,4 +404,46 @@ router.post(
   }
 );
 
+/**
+ * Get execution history for a trigger
+ *
+ * GET /api/triggers/:id/runs
+ */
+router.get("/:id/runs", authMiddleware, async (req: Request, res: Response) => {
+  const triggerId = req.params.id;
+  const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+
+  const existingTrigger = await triggersService.getTrigger(triggerId);
+
+  if (!existingTrigger) {
+    return res.status(404).json({
+      success: false,
+      message: "Trigger not found",
+    });
+  }
+
+  // Check if the trigger belongs to the requesting user
+  if (existingTrigger.userId !== req.user?.id) {
+    return res.status(403).json({
+      success: false,
+      message: "Access denied",
+    });
+  }
+
+  try {
+    const runs = await triggersService.getTriggerRuns(triggerId, limit);
+
+    return res.status(200).json({
+      success: true,
+      data: runs,
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      message: "Failed to get trigger runs",
+      error: (error as Error).message,
+    });
+  }
+});
+
 export default router;
@@ -1,20 +1,62 @@
 import { Request, Response, Router } from "express";import {
   memoryService,
-  Memory,
   MemoryType,
   MemoryCategory,
+  MemoryFilter,
 } from "../services/memory.service";
+import {
+  IMemory,
+  MemoryCategory as ModelMemoryCategory,
+} from "../models/memory.model";
 import { authMiddleware } from "../middlewares/auth.middleware";
+import { memoryConsolidationService } from "../services/memory-consolidation.service";
+import {
+  memoryExportService,
+  renderMarkdown,
+} from "../services/memory-export.service";
 
 const router = Router();
 
 /**
- * Get all memories for the authenticated user
+ * Read a category/source/date range filter from a query string or body.
+ * Returns an error message for an invalid value.
+ */
+function parseMemoryFilter(input: Record<string, any>): MemoryFilter | string {
+  const filter: MemoryFilter = {};
+  if (input.category) {
+    if (
+      !Object.values(ModelMemoryCategory).includes(
+        input.category as ModelMemoryCategory
+      )
+    ) {
+      return "Invalid memory category";
+    }
+    filter.category = input.category;
+  }
+  if (input.source) {
+    filter.source = String(input.source);
+  }
+  for (const key of ["from", "to"] as const) {
+    if (input[key]) {
+      const date = new Date(input[key]);
+      if (isNaN(date.getTime())) {
+        return `Invalid ${key} date`;
+      }
+      filter[key] = date;
+    }
+  }
+  return filter;
+}
+
+/**
+ * Get the authenticated user's memories, pinned first
  *
- * GET /api/memories?type=<memory_type>
+ * GET /api/memories?type=&category=&source=&from=&to=&q=&pinned=&includeDeleted=&limit=&skip=
  */
-router.get("/", authMiddleware, (req: Request, res: Response) => {
-  const userId = req.user.id;
+router.get("/", authMiddleware, async (req: Request, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({ message: "Unauthorized" });
+  }
   const type = req.query.type as MemoryType | undefined;
 
   // Validate memory type if provided
@@ -25,12 +67,37 @@ router.get("/", authMiddleware, (req: Request, res: Response) => {
     });
   }
 
-  const memories = memoryService.getUserMemories(userId, type);
+  const filter = parseMemoryFilter(req.query);
+  if (typeof filter === "string") {
+    return res.status(400).json({ success: false, message: filter });
+  }
 
-  return res.status(200).json({
-    success: true,
-    data: memories,
-  });
+  try {
+    const { memories, total } = await memoryService.listMemories(req.user.id, {
+      ...filter,
+      type,
+      q: req.query.q as string | undefined,
+      pinned:
+        req.query.pinned === undefined
+          ? undefined
+          : req.query.pinned === "true",
+      includeDeleted: req.query.includeDeleted === "true",
+      limit: Math.min(parseInt((req.query.limit as string) || "100", 10), 500),
+      skip: parseInt((req.query.skip as string) || "0", 10),
+    });
+
+    return res.status(200).json({
+      success: true,
+      data: memories,
+      total,
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      message: "Failed to retrieve memories",
+      error: (error as Error).message,
+    });
+  }
 });
 
 /**
@@ -84,14 +151,330 @@ router.get(
   }
 );
 
+/**
+ * List merges and supersessions of the user's memories as before/after
+ * diffs, newest first
+ *
+ * GET /api/memories/consolidations?includeUndone=true
+ */
+router.get(
+  "/consolidations",
+  authMiddleware,
+  async (req: Request, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const consolidations = await memoryConsolidationService.getConsolidations(
+        req.user.id,
+        { includeUndone: req.query.includeUndone === "true" }
+      );
+
+      return res.status(200).json({
+        success: true,
+        data: consolidations.map((consolidation) => ({
+          id: consolidation._id,
+          kind: consolidation.kind,
+          reason: consolidation.reason,
+          createdAt: consolidation.createdAt,
+          undoneAt: consolidation.undoneAt,
+          before: consolidation.before,
+          after: {
+            memoryId: consolidation.resultMemoryId,
+            text: consolidation.resultText,
+          },
+        })),
+      });
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        message: "Failed to retrieve memory consolidations",
+        error: (error as Error).message,
+      });
+    }
+  }
+);
+
+/**
+ * Consolidate the user's memories now instead of waiting for the next run
+ *
+ * POST /api/memories/consolidate
+ */
+router.post(
+  "/consolidate",
+  authMiddleware,
+  async (req: Request, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const report = await memoryConsolidationService.consolidateUser(
+        req.user.id
+      );
+      return res.status(200).json({ success: true, data: report });
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        message: "Failed to consolidate memories",
+        error: (error as Error).message,
+      });
+    }
+  }
+);
+
+/**
+ * Undo a merge or supersession
+ *
+ * POST /api/memories/consolidations/:id/undo
+ */
+router.post(
+  "/consolidations/:id/undo",
+  authMiddleware,
+  async (req: Request, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const result = await memoryConsolidationService.undo(
+        req.user.id,
+        req.params.id
+      );
+      if (!result.undone) {
+        const [status, message] =
+          result.reason === "not_found"
+            ? [404, "Consolidation not found"]
+            : result.reason === "already_undone"
+              ? [409, "Consolidation was already undone"]
+              : [
+                  409,
+                  "The merged memory was merged again; undo that merge first",
+                ];
+        return res.status(status).json({ success: false, message });
+      }
+
+      return res.status(200).json({
+        success: true,
+        data: result.consolidation,
+      });
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        message: "Failed to undo consolidation",
+        error: (error as Error).message,
+      });
+    }
+  }
+);
+
+/**
+ * Export all of the user's memories, including deleted, merged and
+ * superseded ones, with metadata and relationships
+ *
+ * GET /api/memories/export?format=json|markdown
+ */
+router.get("/export", authMiddleware, async (req: Request, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({ message: "Unauthorized" });
+  }
+  const format = (req.query.format as string) || "json";
+  if (format !== "json" && format !== "markdown") {
+    return res.status(400).json({
+      success: false,
+      message: "format must be json or markdown",
+    });
+  }
+
+  try {
+    const data = await memoryExportService.exportMemories(req.user.id);
+    const date = data.exportedAt.slice(0, 10);
+
+    if (format === "markdown") {
+      res.attachment(`memories-${date}.md`);
+      res.type("text/markdown");
+      return res.send(renderMarkdown(data));
+    }
+    res.attachment(`memories-${date}.json`);
+    return res.json(data);
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      message: "Failed to export memories",
+      error: (error as Error).message,
+    });
+  }
+});
+
+/**
+ * Import memories from an export file (or a bare array of memories).
+ * Invalid entries are skipped and reported; the rest are re-embedded.
+ *
+ * POST /api/memories/import
+ */
+router.post("/import", authMiddleware, async (req: Request, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({ message: "Unauthorized" });
+  }
+
+  try {
+    const report = await memoryExportService.importMemories(
+      req.user.id,
+      req.body
+    );
+    if (report.imported === 0 && report.errors.length > 0) {
+      return res.status(400).json({
+        success: false,
+        message: "No valid memories to import",
+        data: report,
+      });
+    }
+    return res.status(201).json({ success: true, data: report });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      message: "Failed to import memories",
+      error: (error as Error).message,
+    });
+  }
+});
+
+/**
+ * Soft-delete or restore every memory matching a filter. At least one of
+ * category, source, from or to is required; pinned memories are not deleted.
+ *
+ * POST /api/memories/bulk-delete
+ * POST /api/memories/bulk-restore
+ * Body: { category?, source?, from?, to? }
+ */
+for (const [path, deleted] of [
+  ["/bulk-delete", true],
+  ["/bulk-restore", false],
+] as const) {
+  router.post(path, authMiddleware, async (req: Request, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    const filter = parseMemoryFilter(req.body || {});
+    if (typeof filter === "string") {
+      return res.status(400).json({ success: false, message: filter });
+    }
+    if (Object.keys(filter).length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: "A category, source or date range is required",
+      });
+    }
+
+    try {
+      const count = await memoryService.bulkSetDeleted(
+        req.user.id,
+        filter,
+        deleted
+      );
+      return res.status(200).json({ success: true, data: { count } });
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        message: `Failed to ${deleted ? "delete" : "restore"} memories`,
+        error: (error as Error).message,
+      });
+    }
+  });
+}
+
+/**
+ * Pin or unpin a memory. Pinned memories never expire, decay or get merged.
+ *
+ * PUT /api/memories/:id/pin
+ * Body: { pinned: boolean }
+ */
+router.put("/:id/pin", authMiddleware, async (req: Request, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({ message: "Unauthorized" });
+  }
+  if (typeof req.body?.pinned !== "boolean") {
+    return res.status(400).json({
+      success: false,
+      message: "pinned must be a boolean",
+    });
+  }
+
+  try {
+    const existingMemory = await memoryService.getMemory(req.params.id);
+    if (!existingMemory || existingMemory.userId !== req.user.id) {
+      return res.status(404).json({
+        success: false,
+        message: "Memory not found",
+      });
+    }
+
+    const memory = await memoryService.setPinned(
+      req.params.id,
+      req.body.pinned
+    );
+    return res.status(200).json({ success: true, data: memory });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      message: "Failed to pin memory",
+      error: (error as Error).message,
+    });
+  }
+});
+
+/**
+ * Soft-delete a memory so it is no longer recalled, or restore it. Unlike
+ * DELETE /:id the memory is kept and can be brought back.
+ *
+ * POST /api/memories/:id/soft-delete
+ * POST /api/memories/:id/restore
+ */
+for (const [path, deleted] of [
+  ["/:id/soft-delete", true],
+  ["/:id/restore", false],
+] as const) {
+  router.post(path, authMiddleware, async (req: Request, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const existingMemory = await memoryService.getMemory(req.params.id);
+      if (!existingMemory || existingMemory.userId !== req.user.id) {
+        return res.status(404).json({
+          success: false,
+          message: "Memory not found",
+        });
+      }
+
+      const updated = deleted
+        ? await memoryService.softDeleteMemory(req.params.id)
+        : await memoryService.restoreMemory(req.params.id);
+      return res.status(updated ? 200 : 500).json({
+        success: updated,
+        data: { id: req.params.id, isDeleted: deleted },
+      });
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        message: `Failed to ${deleted ? "delete" : "restore"} memory`,
+        error: (error as Error).message,
+      });
+    }
+  });
+}
+
 /**
  * Get a specific memory by ID
  *
  * GET /api/memories/:id
  */
-router.get("/:id", authMiddleware, (req: Request, res: Response) => {
+router.get("/:id", authMiddleware, async (req: Request, res: Response) => {
   const memoryId = req.params.id;
-  const memory = memoryService.getMemory(memoryId);
+  const memory = await memoryService.getMemory(memoryId);
 
   if (!memory) {
     return res.status(404).json({
@@ -166,11 +549,11 @@ router.post("/", authMiddleware, async (req: Request, res: Response) => {
  *
  * PUT /api/memories/:id
  */
-router.put("/:id", authMiddleware, (req: Request, res: Response) => {
+router.put("/:id", authMiddleware, async (req: Request, res: Response) => {
   const memoryId = req.params.id;
-  const { text, type, source, metadata, importance } = req.body;
+  const { text, type, source, metadata, importance, category } = req.body;
 
-  const existingMemory = memoryService.getMemory(memoryId);
+  const existingMemory = await memoryService.getMemory(memoryId);
 
   if (!existingMemory) {
     return res.status(404).json({
@@ -195,16 +578,27 @@ router.put("/:id", authMiddleware, (req: Request, res: Response) => {
     });
   }
 
+  if (
+    category !== undefined &&
+    !Object.values(ModelMemoryCategory).includes(category)
+  ) {
+    return res.status(400).json({
+      success: false,
+      message: "Invalid memory category",
+    });
+  }
+
   // Prepare updates
-  const updates: Partial<Memory> = {};
+  const updates: Partial<IMemory> = {};
 
   if (text !== undefined) updates.text = text;
   if (type !== undefined) updates.type = type as MemoryType;
   if (source !== undefined) updates.source = source;
   if (metadata !== undefined) updates.metadata = metadata;
   if (importance !== undefined) updates.importance = importance;
+  if (category !== undefined) updates.category = category;
 
-  const updatedMemory = memoryService.updateMemory(memoryId, updates);
+  const updatedMemory = await memoryService.updateMemory(memoryId, updates);
 
   return res.status(200).json({
     success: true,
@@ -220,7 +614,7 @@ router.put("/:id", authMiddleware, (req: Request, res: Response) => {
 router.delete("/:id", authMiddleware, async (req: Request, res: Response) => {
   const memoryId = req.params.id;
 
-  const existingMemory = memoryService.getMemory(memoryId);
+  const existingMemory = await memoryService.getMemory(memoryId);
 
   if (!existingMemory) {
     return res.status(404).json({
@@ -0,0 +1,118 @@
+import express, { Request, Response } from "express";
+import { authMiddleware } from "../middlewares/auth.middleware";
+import { notificationService } from "../services/notification.service";
+import { loggerFactory } from "../utils/logger.service";
+
+const logger = loggerFactory.getLogger("NotificationController");
+const router = express.Router();
+
+// Apply auth middleware to all notification routes
+router.use(authMiddleware);
+
+/**
+ * GET /api/notifications - List the user's notifications
+ * Query: unreadOnly=true, limit, before (ISO timestamp)
+ */
+router.get("/", async (req: Request, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({ message: "Unauthorized" });
+  }
+
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+    const before = req.query.before
+      ? new Date(req.query.before as string)
+      : undefined;
+
+    const [notifications, unreadCount] = await Promise.all([
+      notificationService.getNotifications(req.user.id, {
+        unreadOnly: req.query.unreadOnly === "true",
+        limit,
+        before,
+      }),
+      notificationService.getUnreadCount(req.user.id),
+    ]);
+
+    return res.json({ notifications, unreadCount });
+  } catch (error) {
+    logger.error("Error fetching notifications:", error as Error);
+    return res.status(500).json({
+      message: "Failed to fetch notifications",
+      error: (error as Error).message,
+    });
+  }
+});
+
+/**
+ * POST /api/notifications/read-all - Mark every notification as read
+ */
+router.post("/read-all", async (req: Request, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({ message: "Unauthorized" });
+  }
+
+  try {
+    const updated = await notificationService.markAllRead(req.user.id);
+    return res.json({ updated });
+  } catch (error) {
+    logger.error("Error marking notifications as read:", error as Error);
+    return res.status(500).json({
+      message: "Failed to mark notifications as read",
+      error: (error as Error).message,
+    });
+  }
+});
+
+/**
+ * POST /api/notifications/:id/read - Mark a notification as read
+ */
+router.post("/:id/read", async (req: Request, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({ message: "Unauthorized" });
+  }
+
+  try {
+    const found = await notificationService.markRead(
+      req.user.id,
+      req.params.id
+    );
+    if (!found) {
+      return res.status(404).json({ message: "Notification not found" });
+    }
+    return res.json({ success: true });
+  } catch (error) {
+    logger.error("Error marking notification as read:", error as Error);
+    return res.status(500).json({
+      message: "Failed to mark notification as read",
+      error: (error as Error).message,
+    });
+  }
+});
+
+/**
+ * DELETE /api/notifications/:id - Remove a notification from the inbox
+ */
+router.delete("/:id", async (req: Request, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({ message: "Unauthorized" });
+  }
+
+  try {
+    const deleted = await notificationService.deleteNotification(
+      req.user.id,
+      req.params.id
+    );
+    if (!deleted) {
+      return res.status(404).json({ message: "Notification not found" });
+    }
+    return res.json({ success: true });
+  } catch (error) {
+    logger.error("Error deleting notification:", error as Error);
+    return res.status(500).json({
+      message: "Failed to delete notification",
+      error: (error as Error).message,
+    });
+  }
+});
+
+export default router;
@@ -1,4 +1,5 @@
-import { Request, Response, Router } from "express";import { authMiddleware } from "../../middlewares/auth.middleware";
+import { Request, Response, Router } from "express";
+import { authMiddleware } from "../../middlewares/auth.middleware";
 import { telegramSchedulerService } from "../../services/telegram/telegram-scheduler.service";
 import { loggerFactory } from "../../utils/logger.service";
 
@@ -119,13 +120,6 @@ router.post(
 
       const { userId } = req.params;
 
-      if (!userId.startsWith("telegram_")) {
-        return res.status(400).json({
-          success: false,
-          message: "Invalid user ID format. Must start with 'telegram_'",
-        });
-      }
-
       logger.info(`Manually sending scheduled message to user ${userId}`);
       const result =
         await telegramSchedulerService.sendScheduledMessageToUser(userId);
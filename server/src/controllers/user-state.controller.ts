@@ -4,6 +4,8 @@ import { userStateService } from "../services/user-state.service";
 import { loggerFactory } from "../utils/logger.service";
 import { companionStateService } from "../services/companion-state.service";
 import { contextService } from "../services/context.service";
+import { credentialVault } from "../services/credential-vault.service";
+import { IIntegration } from "../models/user-state.model";
 
 const logger = loggerFactory.getLogger("UserStateController");
 const router = express.Router();
@@ -11,6 +13,14 @@ const router = express.Router();
 // Apply auth middleware to all user-state routes
 router.use(authMiddleware);
 
+// Integrations as they may be sent to the browser: secrets masked
+const maskIntegrations = (userId: string, integrations: IIntegration[]) =>
+  Promise.all(
+    integrations.map((integration) =>
+      credentialVault.maskIntegration(userId, integration)
+    )
+  );
+
 /**
  * GET /api/user-state - Get the full user state
  */
@@ -21,7 +31,10 @@ router.get("/", async (req: Request, res: Response) => {
   const userId = req.user.id;
   try {
     const userState = await userStateService.getOrCreateUserState(userId);
-    res.json(userState);
+    res.json({
+      ...userState.toObject(),
+      integrations: await maskIntegrations(userId, userState.integrations),
+    });
   } catch (error) {
     logger.error(`Error fetching user state for ${userId}:`, error);
     res.status(500).json({
@@ -111,7 +124,7 @@ router.get("/integrations", async (req: Request, res: Response) => {
 
   try {
     const integrations = await userStateService.getIntegrations(req.user.id);
-    return res.json(integrations);
+    return res.json(await maskIntegrations(req.user.id, integrations));
   } catch (error) {
     logger.error("Error fetching user integrations:", error);
     return res.status(500).json({
@@ -139,7 +152,9 @@ router.put("/integrations", async (req: Request, res: Response) => {
       req.user.id,
       integrations
     );
-    return res.json(updatedUserState?.integrations || []);
+    return res.json(
+      await maskIntegrations(req.user.id, updatedUserState?.integrations || [])
+    );
   } catch (error) {
     logger.error("Error updating user integrations:", error);
     return res.status(500).json({
@@ -212,7 +227,7 @@ router.get("/integration/:platform", async (req: Request, res: Response) => {
       });
     }
 
-    res.json(integration);
+    res.json(await credentialVault.maskIntegration(userId, integration));
   } catch (error) {
     logger.error(
       `Error fetching ${platform} integration for ${userId}:`,
@@ -245,8 +260,12 @@ router.put("/integration/:platform", async (req: Request, res: Response) => {
     );
     if (existingIndex >= 0) {
       // Update existing integration
+      // Merge into a plain copy; spreading the subdocument loses its fields
+      const existing: any = updatedIntegrations[existingIndex];
       updatedIntegrations[existingIndex] = {
-        ...updatedIntegrations[existingIndex],
+        ...(typeof existing.toObject === "function"
+          ? existing.toObject()
+          : existing),
         ...integrationData,
         platform, // Ensure platform remains the same
       };
@@ -276,7 +295,7 @@ router.put("/integration/:platform", async (req: Request, res: Response) => {
       });
     }
 
-    res.json(updatedIntegration);
+    res.json(await credentialVault.maskIntegration(userId, updatedIntegration));
   } catch (error) {
     logger.error(
       `Error updating ${platform} integration for ${userId}:`,
@@ -289,6 +308,31 @@ router.put("/integration/:platform", async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * POST /api/user-state/integrations/rotate-key - Re-encrypt the user's
+ * integration secrets with a new data key
+ */
+router.post("/integrations/rotate-key", async (req: Request, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({ message: "Unauthorized" });
+  }
+  const userId = req.user.id;
+
+  try {
+    const resealed = await credentialVault.rotateUserKey(userId);
+    res.json({ success: true, resealed });
+  } catch (error) {
+    logger.error(
+      `Error rotating credential key for ${userId}:`,
+      error as Error
+    );
+    res.status(500).json({
+      message: "Failed to rotate credential key",
+      error: (error as Error).message,
+    });
+  }
+});
+
 /**
  * GET /api/user-state/user-goals - Get user-defined goals
  */
@@ -1,5 +1,7 @@
 import { Router, Request, Response } from "express";import { authMiddleware } from "../middlewares/auth.middleware";
 import { userService } from "../services/user.service";
+import { accountService } from "../services/account.service";
+import { usageService } from "../services/usage.service";
 import { loggerFactory } from "../utils/logger.service";
 
 const logger = loggerFactory.getLogger("UserController");
@@ -104,6 +106,159 @@ router.put("/profile", authMiddleware, async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * @route   GET /api/users/me/export
+ * @desc    Download everything stored about the current user as JSON
+ * @access  Private
+ */
+router.get(
+  "/me/export",
+  authMiddleware,
+  async (req: Request, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    const userId = req.user.id;
+
+    try {
+      const date = new Date().toISOString().slice(0, 10);
+      res.attachment(`synapse-export-${date}.json`);
+      res.type("application/json");
+      await accountService.writeExport(userId, res);
+      res.end();
+    } catch (error) {
+      logger.error(`Error exporting data for ${userId}:`, error as Error);
+      // Once streaming has started the archive can only be cut short
+      if (res.headersSent) {
+        return res.destroy(error as Error);
+      }
+      res.status(500).json({
+        message: "Failed to export account data",
+        error: (error as Error).message,
+      });
+    }
+  }
+);
+
+/**
+ * @route   DELETE /api/users/me
+ * @desc    Delete the current user's account and all their data after a
+ *          grace period. Requires the password.
+ * @access  Private
+ */
+router.delete("/me", authMiddleware, async (req: Request, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({ message: "Unauthorized" });
+  }
+  const userId = req.user.id;
+  const { password } = req.body;
+
+  if (!password) {
+    return res.status(400).json({ message: "Password is required" });
+  }
+
+  try {
+    if (!(await userService.verifyPassword(userId, password))) {
+      return res.status(403).json({ message: "Incorrect password" });
+    }
+
+    const deletion = await accountService.requestDeletion(userId);
+    res.status(202).json(deletion);
+  } catch (error) {
+    logger.error(`Error requesting deletion for ${userId}:`, error as Error);
+    res.status(500).json({
+      message: "Failed to delete account",
+      error: (error as Error).message,
+    });
+  }
+});
+
+/**
+ * @route   GET /api/users/me/deletion
+ * @desc    Get the current user's pending account deletion, if any
+ * @access  Private
+ */
+router.get(
+  "/me/deletion",
+  authMiddleware,
+  async (req: Request, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    const userId = req.user.id;
+
+    try {
+      res.json(await accountService.getPendingDeletion(userId));
+    } catch (error) {
+      logger.error(`Error fetching deletion for ${userId}:`, error as Error);
+      res.status(500).json({
+        message: "Failed to fetch account deletion",
+        error: (error as Error).message,
+      });
+    }
+  }
+);
+
+/**
+ * @route   POST /api/users/me/deletion/cancel
+ * @desc    Cancel a pending account deletion during its grace period
+ * @access  Private
+ */
+router.post(
+  "/me/deletion/cancel",
+  authMiddleware,
+  async (req: Request, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    const userId = req.user.id;
+
+    try {
+      const deletion = await accountService.cancelDeletion(userId);
+      if (!deletion) {
+        return res
+          .status(404)
+          .json({ message: "No account deletion to cancel" });
+      }
+      res.json(deletion);
+    } catch (error) {
+      logger.error(`Error cancelling deletion for ${userId}:`, error as Error);
+      res.status(500).json({
+        message: "Failed to cancel account deletion",
+        error: (error as Error).message,
+      });
+    }
+  }
+);
+
+/**
+ * @route   GET /api/users/me/usage
+ * @desc    Model usage for the current month against the user's plan, and
+ *          day by day usage for the last `days` days (default 30, max 90)
+ * @access  Private
+ */
+router.get("/me/usage", authMiddleware, async (req: Request, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({ message: "Unauthorized" });
+  }
+  const userId = req.user.id;
+  const days = Math.min(Math.max(Number(req.query.days) || 30, 1), 90);
+
+  try {
+    const [quota, daily] = await Promise.all([
+      usageService.getQuotaStatus(userId),
+      usageService.getDailyUsage(userId, days),
+    ]);
+    res.json({ ...quota, daily });
+  } catch (error) {
+    logger.error(`Error fetching usage for ${userId}:`, error as Error);
+    res.status(500).json({
+      message: "Failed to fetch usage",
+      error: (error as Error).message,
+    });
+  }
+});
+
 /**
  * @route   PUT /api/users/preferences
  * @desc    Update user preferences
@@ -1,4 +1,5 @@
 import { Request, Response, Router } from "express";import { mongoVectorDbService } from "../services/mongo-vector-db.service"; // Assuming service path
+import { embeddingBackfillService } from "../services/embedding-backfill.service";
 // Removed express import as Router is used directly
 
 const router = Router();
@@ -182,6 +183,49 @@ class VectorDbController {
         });
     }
   }
+
+  // GET /embeddings/status
+  async getEmbeddingStatus(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId } = req.query;
+      const status = await embeddingBackfillService.getStatus(
+        userId as string | undefined
+      );
+      res.json(status);
+    } catch (error) {
+      console.error("Error getting embedding status:", error);
+      res
+        .status(500)
+        .json({
+          error: "Failed to get embedding status",
+          details: (error as Error).message,
+        });
+    }
+  }
+
+  // POST /embeddings/backfill
+  async backfillEmbeddings(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId, batchSize } = req.body || {};
+
+      if (embeddingBackfillService.isRunning()) {
+        res.status(409).json({ error: "Embedding backfill already running" });
+        return;
+      }
+
+      // Runs in the background; poll /embeddings/status for progress
+      embeddingBackfillService.run({ userId, batchSize });
+      res.status(202).json({ message: "Embedding backfill started" });
+    } catch (error) {
+      console.error("Error starting embedding backfill:", error);
+      res
+        .status(500)
+        .json({
+          error: "Failed to start embedding backfill",
+          details: (error as Error).message,
+        });
+    }
+  }
 }
 
 const controller = new VectorDbController();
@@ -203,5 +247,13 @@ router.delete(
   controller.deleteUserDocuments.bind(controller)
 );
 router.get("/:userId/count", controller.countUserDocuments.bind(controller));
+router.get(
+  "/embeddings/status",
+  controller.getEmbeddingStatus.bind(controller)
+);
+router.post(
+  "/embeddings/backfill",
+  controller.backfillEmbeddings.bind(controller)
+);
 
 export default router;
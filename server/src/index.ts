@@ -17,6 +17,7 @@ import {
   tracingMiddleware,
   responseTimeMiddleware,
 } from "./middlewares/tracing.middleware";
+import { instrumentAxios } from "./services/tracing/axios-instrumentation";
 
 // Import service singletons to initialize them (and potentially use them)
 import { actionManager } from "./services/action-manager.service";
@@ -32,6 +33,13 @@ import { telegramBotService } from "./services/telegram/telegram-bot.service"; /
 import { actionLogService } from "./services/action-log.service";
 import { companionThinkingService } from "./services/companion-thinking.service"; // Import companion thinking service
 import { summaryService } from "./services/summary.service"; // Import summary service
+import { embeddingBackfillService } from "./services/embedding-backfill.service";
+import { memoryConsolidationService } from "./services/memory-consolidation.service";
+import { accountService } from "./services/account.service";
+import { credentialVault } from "./services/credential-vault.service";
+import { triggersService } from "./services/triggers.service";
+import { realtimeService } from "./services/realtime/realtime.service";
+import { deadLetterService } from "./services/kafka/dead-letter.service";
 
 // Import Controllers (containing routes)
 import healthRoutes from "./controllers/dev/health.controller";
@@ -52,15 +60,20 @@ import noteRoutes from "./controllers/dev/notes.controller";
 import telegramRoutes from "./controllers/dev/telegram.controller";
 import vectorDbRoutes from "./controllers/vector-db.controller"; // Added import
 import notionRoutes from "./controllers/dev/notion.controller";
+import commitmentRoutes from "./controllers/dev/commitments.controller";
 import { timelineController as timelineRoutes } from "./controllers/dev/timeline.controller"; // Use named import
 import userStateRoutes from "./controllers/user-state.controller"; // Import user state routes
 import globalPromptRoutes from "./controllers/user.controller"; // Assuming global prompt is here
 import telegramSchedulerRoutes from "./controllers/telegram/telegram-scheduler.controller";
 import companionThinkingRoutes from "./controllers/dev/companion-thinking.controller"; // Import companion thinking routes
 import summaryRoutes from "./controllers/dev/summary.controller"; // Import summary routes
+import notificationRoutes from "./controllers/notification.controller";
+import kafkaRoutes from "./controllers/dev/kafka.controller";
+import promptInspectorRoutes from "./controllers/dev/prompt-inspector.controller";
 
 // Import the telegram scheduler service
 import { telegramSchedulerService } from "./services/telegram/telegram-scheduler.service";
+import { notionSyncService } from "./services/productivity/notion-sync.service";
 
 // Import Kafka services
 import { kafkaService } from "./services/kafka/kafka.service";
@@ -73,19 +86,29 @@ const port = process.env.PORT || 3000; // Use PORT from env, fallback to 3000
 // Apply middleware
 app.use(helmet({ contentSecurityPolicy: false }));
 app.use(cors(corsMiddleware));
+// Memory imports are whole export files, well past the default 100kb
+app.use("/api/memories/import", express.json({ limit: "20mb" }));
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 
 // Apply observability middleware
 app.use(responseTimeMiddleware);
 app.use(tracingMiddleware);
+// Trace outgoing axios calls (Notion, weather, Twitter, webhooks)
+instrumentAxios();
 // Replace morgan with our custom logger
 // app.use(morgan("dev"));
 app.use(logMiddleware);
 
 // Apply auth middleware (but not to paths that don't need it)
 // Add any paths that don't need auth to the skipPaths array
-const skipPaths = ["/api/auth/login", "/api/auth/register", "/api/health"];
+const skipPaths = [
+  "/api/auth/login",
+  "/api/auth/register",
+  "/api/auth/refresh",
+  "/api/auth/logout",
+  "/api/health",
+];
 app.use((req, res, next) => {
   if (skipPaths.some((path) => req.path.startsWith(path))) {
     return next();
@@ -111,11 +134,15 @@ app.use("/api/notes", noteRoutes); // Corrected path typo from /api/note
 app.use("/api/telegram", telegramRoutes);
 app.use("/api/vector-db", vectorDbRoutes); // Added usage
 app.use("/api/notion", notionRoutes); // Updated path to match our integration
+app.use("/api/commitments", commitmentRoutes); // Todos picked up from chat
 app.use("/api/user-state", userStateRoutes); // Add user state routes
 app.use("/api/user/global-prompt", globalPromptRoutes); // Keep existing user routes if needed
 app.use("/api/telegram/scheduler", telegramSchedulerRoutes);
 app.use("/api/dev/companion-thinking", companionThinkingRoutes); // Mount companion thinking routes
 app.use("/api/dev/summary", summaryRoutes); // Mount summary routes
+app.use("/api/dev/prompt-inspector", promptInspectorRoutes);
+app.use("/api/dev/kafka", kafkaRoutes); // Dead-letter inspection and replay
+app.use("/api/notifications", notificationRoutes);
 
 // Companion state routes - mount at both /api/companion-state and /api/dev/companion-state for compatibility
 app.use("/api/companion-state", companionStateRoutes);
@@ -144,7 +171,6 @@ app.listen(port, () => {
 
   // Initialize background tasks / services
   console.log("Initializing services...");
-  initScheduler(); // Initialize scheduler from old index.ts
 
   // Start Telegram bot if token is provided (from old index.ts)
   if (process.env.TELEGRAM_BOT_TOKEN) {
@@ -173,6 +199,53 @@ app.listen(port, () => {
         );
       }
 
+      // Start evaluating time-based triggers
+      triggersService.start();
+
+      // Keep goals and tasks in step with users' Notion databases
+      if (process.env.NOTION_SYNC_ENABLED !== "false") {
+        notionSyncService.start();
+      }
+
+      // Deliver missed task reminders and start the reminder loop
+      initScheduler().catch((error) => {
+        console.error("Failed to initialize scheduler:", error);
+      });
+
+      // Re-embed records left over from a previous embedding model
+      if (process.env.EMBEDDING_BACKFILL_ON_START === "true") {
+        embeddingBackfillService
+          .run()
+          .then((report) => {
+            console.log(
+              `Embedding backfill finished: ${report.memories} memories, ${report.vectorDocuments} vector documents`
+            );
+          })
+          .catch((error) => {
+            console.error("Embedding backfill failed:", error);
+          });
+      }
+
+      // Encrypt integration secrets still stored in plaintext and re-wrap
+      // data keys after a master key rotation
+      if (credentialVault.isConfigured()) {
+        credentialVault.migrate().catch((error) => {
+          console.error("Credential vault migration failed:", error);
+        });
+      } else {
+        console.warn(
+          "CREDENTIAL_MASTER_KEY is not set; integration secrets can't be saved"
+        );
+      }
+
+      // Merge duplicate memories and retire contradicted ones
+      if (process.env.MEMORY_CONSOLIDATION_ENABLED !== "false") {
+        memoryConsolidationService.start();
+      }
+
+      // Delete accounts whose grace period has ended
+      accountService.start();
+
       // Initialize Kafka services
       if (process.env.ENABLE_KAFKA !== "false") {
         try {
@@ -197,6 +270,14 @@ app.listen(port, () => {
             })
             .then(() => {
               console.log("Kafka message consumers started successfully");
+
+              // Index dead-lettered messages for the DLQ endpoints
+              deadLetterService.start().catch((error) => {
+                console.error("Failed to start dead-letter indexer:", error);
+              });
+
+              // Fan SSE events out across instances when EVENT_BUS=kafka
+              return realtimeService.start();
             })
             .catch((error) => {
               console.error("Kafka initialization error:", error);
@@ -257,6 +338,17 @@ process.on("unhandledRejection", (err: Error) => {
   // Consider more robust handling like logging service or graceful shutdown
 });
 
+// Leave the SSE fan-out consumer group on the way out, so restarts don't
+// leave one behind on the broker
+for (const signal of ["SIGTERM", "SIGINT"] as const) {
+  process.once(signal, () => {
+    realtimeService
+      .stop()
+      .catch((error) => console.error("Failed to stop realtime events:", error))
+      .finally(() => process.exit(0));
+  });
+}
+
 // Handle uncaught exceptions (from old index.ts)
 process.on("uncaughtException", (err: Error) => {
   console.error("Uncaught Exception:", err);
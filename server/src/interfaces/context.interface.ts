@@ -84,6 +84,7 @@ export interface LocationContext {
   country?: string;
   placeType?: string;
   placeDescription?: string;
+  timezone?: string; // IANA zone, e.g. "Europe/Berlin"
 }
 
 /**
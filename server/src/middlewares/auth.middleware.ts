@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from "express";
 import jwt from "jsonwebtoken";
 import { userService } from "../services/user.service"; // Import UserService
+import { authSessionService } from "../services/auth-session.service";
 import { loggerFactory } from "../utils/logger.service";
 // import { User } from "../../../server/src/core/entities/user.entity";
 // import { SECRET_KEY } from "../config/env"; // Assuming env config path
@@ -38,13 +39,6 @@ export const authMiddleware = async (
       `Using token from Authorization header for ${req.method} ${req.path}`
     );
   }
-  // Then check query parameters for other requests
-  else if (req.query.token) {
-    token = req.query.token as string;
-    logger.debug(
-      `Using token from query parameter for ${req.method} ${req.path}`
-    );
-  }
 
   if (!token) {
     logger.warn(
@@ -65,7 +59,8 @@ export const authMiddleware = async (
       return;
     }
 
-    const decoded = jwt.verify(token, secret) as { id: string }; // Adjust payload type if needed
+    // Also rejects tokens of signed-out devices
+    const decoded = await authSessionService.verifyAccessToken(token);
     logger.debug(`Token verified for user ID: ${decoded.id}`);
 
     // Fetch user using UserService
@@ -81,6 +76,8 @@ export const authMiddleware = async (
     req.user = {
       id: user._id.toString(), // Use _id from Mongoose doc
       email: user.email,
+      sessionId: decoded.sid,
+      isAdmin: user.isAdmin === true,
       // Add role or other fields if necessary
     };
 
@@ -117,6 +114,8 @@ declare global {
       id: string;
       email: string;
       role?: string;
+      sessionId?: string; // Signed-in device the access token belongs to
+      isAdmin?: boolean;
     }
 
     interface Request {
@@ -155,13 +154,6 @@ export const optionalAuthMiddleware = async (
       `Using token from Authorization header for optional auth: ${req.method} ${req.path}`
     );
   }
-  // Then check query parameters for other requests
-  else if (req.query.token) {
-    token = req.query.token as string;
-    logger.debug(
-      `Using token from query parameter for optional auth: ${req.method} ${req.path}`
-    );
-  }
 
   if (token) {
     // Handle regular JWT tokens
@@ -175,7 +167,7 @@ export const optionalAuthMiddleware = async (
         return next();
       }
 
-      const decoded = jwt.verify(token, secret) as { id: string };
+      const decoded = await authSessionService.verifyAccessToken(token);
       logger.debug(`Optional auth: Token verified for user ID: ${decoded.id}`);
 
       // Fetch user using UserService
@@ -186,6 +178,8 @@ export const optionalAuthMiddleware = async (
         req.user = {
           id: user._id.toString(),
           email: user.email,
+          sessionId: decoded.sid,
+          isAdmin: user.isAdmin === true,
         };
         logger.debug(
           `Optional auth: User ${user._id} identified for ${req.method} ${req.path}`
@@ -22,8 +22,10 @@ const safeSetHeader = (res: Response, name: string, value: string): void => {
  * Middleware that creates a trace context for each request and makes it
  * available throughout the request lifecycle.
  *
- * Extracts trace context from incoming requests if available and
- * creates a new trace context if none exists.
+ * Extracts trace context from incoming requests if available (W3C
+ * `traceparent`, falling back to the legacy x-trace-id/x-span-id headers) and
+ * creates a new trace context if none exists. The rest of the request runs
+ * with that context as the current one.
  */
 export const tracingMiddleware = (
   req: Request,
@@ -34,17 +36,19 @@ export const tracingMiddleware = (
     // Extract existing trace context from request headers if present
     const incomingTraceId = req.headers["x-trace-id"] as string;
     const incomingSpanId = req.headers["x-span-id"] as string;
+    const parentContext =
+      tracingService.fromTraceparent(req.headers["traceparent"] as string) ||
+      (incomingTraceId
+        ? {
+            traceId: incomingTraceId,
+            spanId: incomingSpanId || "",
+            timestamp: Date.now(),
+          }
+        : undefined);
 
     // Create a trace context
     let traceContext;
-    if (incomingTraceId) {
-      // Use the incoming trace context as parent
-      const parentContext = {
-        traceId: incomingTraceId,
-        spanId: incomingSpanId || "",
-        timestamp: Date.now(),
-      };
-
+    if (parentContext) {
       // Start a new span within the existing trace
       const { context } = tracingService.startSpan(
         parentContext,
@@ -54,7 +58,8 @@ export const tracingMiddleware = (
           path: req.path,
           ip: req.ip,
           userAgent: req.get("user-agent"),
-        }
+        },
+        "server"
       );
 
       traceContext = context;
@@ -81,7 +86,8 @@ export const tracingMiddleware = (
           userAgent: req.get("user-agent"),
           sessionId,
           userId,
-        }
+        },
+        "server"
       );
 
       traceContext = context;
@@ -93,6 +99,11 @@ export const tracingMiddleware = (
     // Add trace headers to the response (safely)
     safeSetHeader(res, "x-trace-id", traceContext.traceId);
     safeSetHeader(res, "x-span-id", traceContext.spanId);
+    safeSetHeader(
+      res,
+      "traceparent",
+      tracingService.toTraceparent(traceContext)
+    );
 
     // Create a traced logger for this request
     const requestLogger = logger.withTraceContext(
@@ -150,7 +161,8 @@ export const tracingMiddleware = (
       }
     });
 
-    next();
+    // Run the rest of the request inside the span so downstream spans nest under it
+    tracingService.runWithContext(traceContext, next);
   } catch (error) {
     logger.error("Failed to create trace context", error);
     next();
@@ -191,12 +203,14 @@ export const corsMiddleware = {
     "Authorization",
     "x-trace-id",
     "x-span-id",
+    "traceparent",
     "x-session-id",
     "x-user-id",
   ],
   exposedHeaders: [
     "x-trace-id",
     "x-span-id",
+    "traceparent",
     "x-response-time",
     "Content-Type",
     "Cache-Control",
@@ -0,0 +1,84 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export type AccountDeletionStatus =
+  | "scheduled"
+  | "processing"
+  | "completed"
+  | "cancelled"
+  | "failed";
+
+/**
+ * Interface representing a request to delete an account. The record is kept
+ * after the account is gone as the audit trail of the deletion, so it holds
+ * no personal data beyond the user's id.
+ */
+export interface IAccountDeletion extends Document {
+  _id: string;
+  userId: string;
+  status: AccountDeletionStatus;
+  requestedAt: Date;
+  scheduledFor: Date; // End of the grace period
+  cancelledAt?: Date;
+  completedAt?: Date;
+  deletedCounts?: Record<string, number>; // Documents removed per collection
+  error?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Mongoose schema for account deletions
+ */
+const AccountDeletionSchema = new Schema<IAccountDeletion>(
+  {
+    _id: {
+      type: String,
+      required: true,
+      default: () => new mongoose.Types.ObjectId().toString(),
+    },
+    userId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    status: {
+      type: String,
+      enum: ["scheduled", "processing", "completed", "cancelled", "failed"],
+      required: true,
+      default: "scheduled",
+    },
+    requestedAt: {
+      type: Date,
+      required: true,
+      default: Date.now,
+    },
+    scheduledFor: {
+      type: Date,
+      required: true,
+    },
+    cancelledAt: {
+      type: Date,
+    },
+    completedAt: {
+      type: Date,
+    },
+    deletedCounts: {
+      type: Schema.Types.Mixed,
+    },
+    error: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+AccountDeletionSchema.index({ status: 1, scheduledFor: 1 });
+
+export const AccountDeletion = mongoose.model<IAccountDeletion>(
+  "AccountDeletion",
+  AccountDeletionSchema
+);
+
+export default AccountDeletion;
@@ -73,6 +73,42 @@ export interface IGameState {
   difficulty?: string;
   timeLimit?: number;
   timeRemaining?: number;
+  // Set by the game engine for games it knows the rules of
+  status?: "in_progress" | "user_won" | "ai_won" | "draw";
+  outcomeReason?: string;
+  moveHistory?: IGameMove[];
+  lastTurn?: IGameTurn | null;
+}
+
+/**
+ * A move in a game's history, in the engine's notation
+ */
+export interface IGameMove {
+  player: "user" | "ai";
+  move: string;
+}
+
+/**
+ * What happened on the user's latest move, for the model to narrate
+ */
+export interface IGameTurn {
+  userMove?: string;
+  aiMove?: string;
+  rejectedMove?: string;
+  rejectionReason?: string;
+}
+
+/**
+ * The board as shown with a reply, in the web chat and on Telegram
+ */
+export interface IGameSnapshot {
+  gameType: string;
+  name: string;
+  status: "in_progress" | "user_won" | "ai_won" | "draw";
+  outcomeReason?: string;
+  text: string; // Monospace rendering
+  grid?: Array<Array<string | null>>; // Cells, for games played on a grid
+  lastTurn?: IGameTurn | null;
 }
 
 /**
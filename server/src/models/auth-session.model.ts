@@ -0,0 +1,88 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+/**
+ * Interface representing a signed-in device. Each holds one refresh token,
+ * stored hashed and replaced on every refresh; access tokens name the
+ * session they belong to so revoking it signs the device out.
+ */
+export interface IAuthSession extends Document {
+  _id: string;
+  userId: string;
+  tokenHash: string; // SHA-256 of the current refresh token
+  previousTokenHash?: string; // The token it replaced, to catch reuse
+  userAgent?: string;
+  deviceName: string; // e.g. "Chrome on macOS"
+  ip?: string;
+  lastUsedAt: Date;
+  expiresAt: Date; // Moves forward with every refresh
+  revokedAt?: Date;
+  revokedReason?: string; // "logout", "logout_everywhere", "revoked", "reuse"
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Mongoose schema for signed-in devices
+ */
+const AuthSessionSchema = new Schema<IAuthSession>(
+  {
+    _id: {
+      type: String,
+      required: true,
+      default: () => new mongoose.Types.ObjectId().toString(),
+    },
+    userId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    tokenHash: {
+      type: String,
+      required: true,
+    },
+    previousTokenHash: {
+      type: String,
+    },
+    userAgent: {
+      type: String,
+    },
+    deviceName: {
+      type: String,
+      required: true,
+    },
+    ip: {
+      type: String,
+    },
+    lastUsedAt: {
+      type: Date,
+      required: true,
+      default: Date.now,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    revokedAt: {
+      type: Date,
+    },
+    revokedReason: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Expired sessions are of no use to anyone; let Mongo drop them after a month
+AuthSessionSchema.index(
+  { expiresAt: 1 },
+  { expireAfterSeconds: 30 * 24 * 60 * 60 }
+);
+
+export const AuthSession = mongoose.model<IAuthSession>(
+  "AuthSession",
+  AuthSessionSchema
+);
+
+export default AuthSession;
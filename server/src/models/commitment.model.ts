@@ -0,0 +1,111 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export type CommitmentStatus =
+  | "pending" // Waiting for the user to confirm
+  | "created" // Confirmed and created in Notion or the scheduler
+  | "dismissed" // The user declined it
+  | "duplicate"; // Confirmed, but an equivalent todo already existed
+
+export type CommitmentTarget = "notion" | "scheduler";
+
+/**
+ * Interface representing a todo or commitment the companion picked up from
+ * conversation ("I need to call mum on Friday"). Nothing is created until
+ * the user confirms it.
+ */
+export interface ICommitment extends Document {
+  _id: string;
+  userId: string;
+  sessionId: string;
+  title: string;
+  dueDate?: Date; // Resolved against the user's timezone
+  hasTime: boolean; // False when only a day was mentioned
+  timezone?: string;
+  sourceText: string; // What the user said
+  sourceMessageId?: string;
+  confirmationMessageId?: string; // Assistant message asking to confirm
+  status: CommitmentStatus;
+  target?: CommitmentTarget;
+  externalId?: string; // Notion page ID or scheduled task ID
+  externalUrl?: string;
+  resolvedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Mongoose schema for extracted commitments
+ */
+const CommitmentSchema = new Schema<ICommitment>(
+  {
+    _id: {
+      type: String,
+      required: true,
+      default: () => new mongoose.Types.ObjectId().toString(),
+    },
+    userId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    sessionId: {
+      type: String,
+      required: true,
+    },
+    title: {
+      type: String,
+      required: true,
+    },
+    dueDate: {
+      type: Date,
+    },
+    hasTime: {
+      type: Boolean,
+      default: false,
+    },
+    timezone: {
+      type: String,
+    },
+    sourceText: {
+      type: String,
+      required: true,
+    },
+    sourceMessageId: {
+      type: String,
+    },
+    confirmationMessageId: {
+      type: String,
+    },
+    status: {
+      type: String,
+      enum: ["pending", "created", "dismissed", "duplicate"],
+      default: "pending",
+    },
+    target: {
+      type: String,
+      enum: ["notion", "scheduler"],
+    },
+    externalId: {
+      type: String,
+    },
+    externalUrl: {
+      type: String,
+    },
+    resolvedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+CommitmentSchema.index({ userId: 1, status: 1, createdAt: -1 });
+CommitmentSchema.index({ confirmationMessageId: 1 });
+
+export const CommitmentModel = mongoose.model<ICommitment>(
+  "Commitment",
+  CommitmentSchema
+);
+
+export default CommitmentModel;
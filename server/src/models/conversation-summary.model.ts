@@ -0,0 +1,88 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+/**
+ * Interface representing a rolling summary of part of a chat session.
+ * Level 0 summaries cover a chunk of messages; a level n summary folds
+ * several consecutive level n - 1 summaries into one as the session grows.
+ */
+export interface IConversationSummary extends Document {
+  _id: string;
+  userId: string;
+  sessionId: string;
+  activityId?: string; // Activity messages are summarized apart from the rest
+  level: number;
+  summary: string;
+  startAt: Date; // Timestamp of the first message covered
+  endAt: Date; // Timestamp of the last message covered
+  messageCount: number;
+  parentId?: string; // Higher-level summary this one was folded into
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Mongoose schema for conversation summaries
+ */
+const ConversationSummarySchema = new Schema<IConversationSummary>(
+  {
+    _id: {
+      type: String,
+      required: true,
+      default: () => new mongoose.Types.ObjectId().toString(),
+    },
+    userId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    sessionId: {
+      type: String,
+      required: true,
+    },
+    activityId: {
+      type: String,
+    },
+    level: {
+      type: Number,
+      required: true,
+      default: 0,
+    },
+    summary: {
+      type: String,
+      required: true,
+    },
+    startAt: {
+      type: Date,
+      required: true,
+    },
+    endAt: {
+      type: Date,
+      required: true,
+    },
+    messageCount: {
+      type: Number,
+      required: true,
+    },
+    parentId: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+ConversationSummarySchema.index({
+  sessionId: 1,
+  activityId: 1,
+  level: 1,
+  startAt: 1,
+});
+ConversationSummarySchema.index({ parentId: 1 });
+
+export const ConversationSummaryModel = mongoose.model<IConversationSummary>(
+  "ConversationSummary",
+  ConversationSummarySchema
+);
+
+export default ConversationSummaryModel;
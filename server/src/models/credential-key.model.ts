@@ -0,0 +1,62 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+/**
+ * Interface representing a user's data key for the credential vault. The key
+ * itself is stored wrapped (encrypted) with a master key that never touches
+ * the database.
+ */
+export interface ICredentialKey extends Document {
+  _id: string;
+  userId: string;
+  version: number; // Increases with every rotation of the user's key
+  wrappedKey: string; // Data key encrypted with the master key
+  masterKeyId: string; // Fingerprint of the master key that wrapped it
+  retiredAt?: Date; // Set once no secret is sealed with this key any more
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Mongoose schema for credential vault data keys
+ */
+const CredentialKeySchema = new Schema<ICredentialKey>(
+  {
+    _id: {
+      type: String,
+      required: true,
+      default: () => new mongoose.Types.ObjectId().toString(),
+    },
+    userId: {
+      type: String,
+      required: true,
+    },
+    version: {
+      type: Number,
+      required: true,
+    },
+    wrappedKey: {
+      type: String,
+      required: true,
+    },
+    masterKeyId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    retiredAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+CredentialKeySchema.index({ userId: 1, version: 1 }, { unique: true });
+
+export const CredentialKey = mongoose.model<ICredentialKey>(
+  "CredentialKey",
+  CredentialKeySchema
+);
+
+export default CredentialKey;
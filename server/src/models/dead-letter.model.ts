@@ -0,0 +1,124 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export type DeadLetterStatus = "pending" | "replayed" | "discarded";
+
+/**
+ * Interface representing a Kafka message that exhausted its retries and was
+ * routed to a dead-letter topic
+ */
+export interface IDeadLetter extends Document {
+  _id: string; // ID of the DLQ entry (also in the DLQ message)
+  originalTopic: string;
+  deadLetterTopic: string;
+  consumerGroup: string;
+  partition: number;
+  offset: string;
+  key?: string;
+  payload: string; // Original message value, untouched
+  userId?: string; // The payload's userId, for deleting a user's entries
+  headers: Record<string, string>;
+  error: {
+    name?: string;
+    message: string;
+    stack?: string;
+  };
+  attempts: number;
+  traceContext?: Record<string, any>;
+  firstFailedAt?: Date;
+  failedAt: Date;
+  status: DeadLetterStatus;
+  replayCount: number;
+  lastReplayedAt?: Date;
+  createdAt: Date;
+}
+
+/**
+ * Mongoose schema for dead-lettered messages
+ */
+const DeadLetterSchema = new Schema<IDeadLetter>(
+  {
+    _id: {
+      type: String,
+      required: true,
+    },
+    originalTopic: {
+      type: String,
+      required: true,
+    },
+    deadLetterTopic: {
+      type: String,
+      required: true,
+    },
+    consumerGroup: {
+      type: String,
+      required: true,
+    },
+    partition: {
+      type: Number,
+      required: true,
+    },
+    offset: {
+      type: String,
+      required: true,
+    },
+    key: {
+      type: String,
+    },
+    payload: {
+      type: String,
+      required: true,
+    },
+    userId: {
+      type: String,
+      index: true,
+    },
+    headers: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+    error: {
+      name: String,
+      message: { type: String, required: true },
+      stack: String,
+    },
+    attempts: {
+      type: Number,
+      required: true,
+    },
+    traceContext: {
+      type: Schema.Types.Mixed,
+    },
+    firstFailedAt: {
+      type: Date,
+    },
+    failedAt: {
+      type: Date,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ["pending", "replayed", "discarded"],
+      default: "pending",
+    },
+    replayCount: {
+      type: Number,
+      default: 0,
+    },
+    lastReplayedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+DeadLetterSchema.index({ originalTopic: 1, status: 1, failedAt: -1 });
+DeadLetterSchema.index({ status: 1, failedAt: -1 });
+
+export const DeadLetterModel = mongoose.model<IDeadLetter>(
+  "DeadLetter",
+  DeadLetterSchema
+);
+
+export default DeadLetterModel;
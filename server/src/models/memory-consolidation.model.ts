@@ -0,0 +1,101 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+/**
+ * What a consolidation did to a user's memories
+ */
+export enum ConsolidationKind {
+  MERGE = "merge", // Near-duplicates folded into one canonical memory
+  SUPERSEDE = "supersede", // An older fact replaced by a newer contradicting one
+}
+
+/**
+ * A memory as it was before a consolidation changed it
+ */
+export interface ConsolidatedMemorySnapshot {
+  memoryId: string;
+  text: string;
+  importance?: number;
+  category?: string;
+  createdAt?: Date;
+}
+
+/**
+ * Interface representing one consolidation of a user's memories, kept so the
+ * user can see what changed and undo it
+ */
+export interface IMemoryConsolidation extends Document {
+  _id: string;
+  userId: string;
+  kind: ConsolidationKind;
+  resultMemoryId: string; // The canonical memory, or the newer fact
+  resultText: string;
+  before: ConsolidatedMemorySnapshot[]; // Memories merged or superseded
+  reason?: string;
+  undoneAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SnapshotSchema = new Schema<ConsolidatedMemorySnapshot>(
+  {
+    memoryId: { type: String, required: true },
+    text: { type: String, required: true },
+    importance: { type: Number },
+    category: { type: String },
+    createdAt: { type: Date },
+  },
+  { _id: false }
+);
+
+/**
+ * Mongoose schema for memory consolidations
+ */
+const MemoryConsolidationSchema = new Schema<IMemoryConsolidation>(
+  {
+    _id: {
+      type: String,
+      required: true,
+      default: () => new mongoose.Types.ObjectId().toString(),
+    },
+    userId: {
+      type: String,
+      required: true,
+    },
+    kind: {
+      type: String,
+      enum: Object.values(ConsolidationKind),
+      required: true,
+    },
+    resultMemoryId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    resultText: {
+      type: String,
+      required: true,
+    },
+    before: {
+      type: [SnapshotSchema],
+      default: [],
+    },
+    reason: {
+      type: String,
+    },
+    undoneAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+MemoryConsolidationSchema.index({ userId: 1, createdAt: -1 });
+
+export const MemoryConsolidationModel = mongoose.model<IMemoryConsolidation>(
+  "MemoryConsolidation",
+  MemoryConsolidationSchema
+);
+
+export default MemoryConsolidationModel;
@@ -37,12 +37,18 @@ export interface IMemory extends Document {
   expiresAt?: Date;
   metadata?: Record<string, any>;
   embedding?: number[];
+  embeddingModel?: string; // Model that produced the embedding
+  embeddingVersion?: string; // Version of that model/algorithm
   importance?: number; // 1-10 scale of importance
   category?: MemoryCategory; // Classification of memory type
   relatedMemories?: string[]; // IDs of related memories
   lastAccessed?: Date; // When this memory was last retrieved/used
   accessCount?: number; // How many times this memory has been accessed
   isDeleted?: boolean; // Flag to mark the memory as deleted
+  pinned?: boolean; // Pinned memories never expire, decay or get consolidated
+  mergedInto?: string; // Canonical memory this one was consolidated into
+  supersededBy?: string; // Newer memory that contradicts this one
+  supersededAt?: Date;
 }
 
 /**
@@ -82,6 +88,13 @@ const MemorySchema = new Schema<IMemory>(
       default: {},
     },
     embedding: [Number],
+    embeddingModel: {
+      type: String,
+      index: true,
+    },
+    embeddingVersion: {
+      type: String,
+    },
     importance: {
       type: Number,
       default: 5,
@@ -106,6 +119,19 @@ const MemorySchema = new Schema<IMemory>(
       default: false,
       index: true,
     },
+    pinned: {
+      type: Boolean,
+      default: false,
+    },
+    mergedInto: {
+      type: String,
+    },
+    supersededBy: {
+      type: String,
+    },
+    supersededAt: {
+      type: Date,
+    },
   },
   {
     timestamps: true,
@@ -119,6 +145,7 @@ MemorySchema.index({ userId: 1, importance: -1 });
 MemorySchema.index({ userId: 1, createdAt: -1 });
 MemorySchema.index({ userId: 1, lastAccessed: -1 });
 MemorySchema.index({ userId: 1, isDeleted: 1 });
+MemorySchema.index({ userId: 1, pinned: 1 });
 
 // Add text index for text search capabilities
 MemorySchema.index({ text: "text" });
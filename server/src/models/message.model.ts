@@ -1,4 +1,48 @@
-import mongoose, { Document, Schema } from "mongoose"; /**
+import mongoose, { Document, Schema } from "mongoose";
+
+/**
+ * A file sent along with a message, kept in metadata.attachments
+ */
+export interface IMessageAttachment {
+  type: "voice" | "audio" | "photo" | "document";
+  source: "telegram";
+  fileId: string; // Platform file ID, e.g. Telegram's file_id
+  fileName?: string;
+  mimeType?: string;
+  fileSize?: number;
+  durationSeconds?: number;
+  caption?: string; // Text the user sent with the file
+  transcript?: string; // Speech-to-text of voice and audio
+  description?: string; // Vision model caption of photos
+  chunks?: number; // Vector documents stored for a document
+}
+
+/**
+ * Something other than a memory that was in the prompt for a reply
+ */
+export interface IProvenanceContextItem {
+  section: string; // Prompt section it went into, e.g. "emotional_state"
+  type: string; // e.g. "emotion", "ai_thinking", "document", "user_summary"
+  id?: string; // Context, vector document or summary ID, when it has one
+  label: string; // Short description for the user
+}
+
+/**
+ * What the prompt contained when an assistant message was generated, so the
+ * user can ask why the companion said something
+ */
+export interface IMessageProvenance {
+  memories: { memoryId: string; text: string; score?: number }[];
+  contextItems: IProvenanceContextItem[];
+  activity?: {
+    activityId: string;
+    name: string;
+    type: string;
+    state?: string; // The activity state as it was written into the prompt
+  };
+}
+
+/**
  * Interface representing a chat message document in MongoDB
  */
 export interface IMessage extends Document {
@@ -23,6 +67,7 @@ export interface IMessage extends Document {
   isContextSummary?: boolean;
   parentMessageId?: string;
   referencedMemories?: string[];
+  provenance?: IMessageProvenance; // Only on assistant replies
   isDeleted?: boolean;
 }
 
@@ -88,6 +133,9 @@ const MessageSchema = new Schema<IMessage>(
       index: true,
     },
     referencedMemories: [String],
+    provenance: {
+      type: Schema.Types.Mixed,
+    },
     isDeleted: {
       type: Boolean,
       default: false,
@@ -0,0 +1,80 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export type NotificationLevel = "info" | "success" | "warning" | "error";
+
+/**
+ * Interface representing an in-app notification in the user's inbox
+ */
+export interface INotification extends Document {
+  _id: string;
+  userId: string;
+  title: string;
+  body?: string;
+  level: NotificationLevel;
+  source: string; // What produced the notification (e.g. "trigger", "scheduler")
+  sourceId?: string; // ID of the producing entity (trigger ID, task ID, ...)
+  link?: string; // Optional in-app route to open when clicked
+  metadata?: Record<string, any>;
+  readAt?: Date;
+  createdAt: Date;
+}
+
+/**
+ * Mongoose schema for notifications
+ */
+const NotificationSchema = new Schema<INotification>(
+  {
+    _id: {
+      type: String,
+      required: true,
+      default: () => new mongoose.Types.ObjectId().toString(),
+    },
+    userId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    title: {
+      type: String,
+      required: true,
+    },
+    body: {
+      type: String,
+    },
+    level: {
+      type: String,
+      enum: ["info", "success", "warning", "error"],
+      default: "info",
+    },
+    source: {
+      type: String,
+      required: true,
+    },
+    sourceId: {
+      type: String,
+    },
+    link: {
+      type: String,
+    },
+    metadata: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+    readAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+NotificationSchema.index({ userId: 1, createdAt: -1 });
+NotificationSchema.index({ userId: 1, readAt: 1 });
+
+export const NotificationModel = mongoose.model<INotification>(
+  "Notification",
+  NotificationSchema
+);
+
+export default NotificationModel;
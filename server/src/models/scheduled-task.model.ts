@@ -0,0 +1,127 @@
+import mongoose, { Document, Schema } from "mongoose";
+import { v4 as uuidv4 } from "uuid";
+
+export type TaskPriority = "high" | "medium" | "low";
+export type TaskStatus = "pending" | "completed" | "cancelled";
+
+/**
+ * Interface representing a persisted scheduler task
+ */
+export interface IScheduledTask extends Document {
+  _id: string;
+  userId: string;
+  title: string;
+  description: string;
+  dueDate: Date;
+  priority: TaskPriority;
+  status: TaskStatus;
+  recurringPattern?: string; // Cron expression or RRULE
+  timezone?: string; // IANA zone used to expand cron patterns
+  seriesId?: string; // Shared by all occurrences of a recurring task
+  occurrence: number; // 1-based index within the series
+  reminderOffsets: number[]; // Minutes before dueDate to send reminders
+  remindersSent: number[]; // Offsets already delivered for the current dueDate
+  nextReminderAt?: Date; // Earliest pending reminder, unset when none remain
+  completedAt?: Date;
+  notionPageId?: string; // Linked page in the Notion todo database
+  notionLastEditedAt?: Date; // Page's last_edited_time as of the last sync
+  notionSyncedAt?: Date;
+  metadata?: Record<string, any>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Mongoose schema for scheduler tasks
+ */
+const ScheduledTaskSchema = new Schema<IScheduledTask>(
+  {
+    _id: {
+      type: String,
+      default: () => uuidv4(),
+    },
+    userId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    title: {
+      type: String,
+      required: true,
+    },
+    description: {
+      type: String,
+      default: "",
+    },
+    dueDate: {
+      type: Date,
+      required: true,
+    },
+    priority: {
+      type: String,
+      enum: ["high", "medium", "low"],
+      default: "medium",
+    },
+    status: {
+      type: String,
+      enum: ["pending", "completed", "cancelled"],
+      default: "pending",
+    },
+    recurringPattern: {
+      type: String,
+    },
+    timezone: {
+      type: String,
+    },
+    seriesId: {
+      type: String,
+      index: true,
+    },
+    occurrence: {
+      type: Number,
+      default: 1,
+    },
+    reminderOffsets: {
+      type: [Number],
+      default: [],
+    },
+    remindersSent: {
+      type: [Number],
+      default: [],
+    },
+    nextReminderAt: {
+      type: Date,
+    },
+    completedAt: {
+      type: Date,
+    },
+    notionPageId: {
+      type: String,
+    },
+    notionLastEditedAt: {
+      type: Date,
+    },
+    notionSyncedAt: {
+      type: Date,
+    },
+    metadata: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+ScheduledTaskSchema.index({ userId: 1, status: 1, dueDate: 1 });
+// Reminder tick: pending tasks whose next reminder is due
+ScheduledTaskSchema.index({ status: 1, nextReminderAt: 1 });
+ScheduledTaskSchema.index({ userId: 1, notionPageId: 1 }, { sparse: true });
+
+export const ScheduledTaskModel = mongoose.model<IScheduledTask>(
+  "ScheduledTask",
+  ScheduledTaskSchema
+);
+
+export default ScheduledTaskModel;
@@ -0,0 +1,46 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+/**
+ * Interface representing a stream ticket that has been used. Tickets are
+ * single-use across every server instance, so redemption is recorded here
+ * rather than in memory.
+ */
+export interface IRedeemedStreamTicket extends Document {
+  _id: string; // The ticket's jti
+  userId: string;
+  expiresAt: Date; // When the ticket would have expired anyway
+  createdAt: Date;
+}
+
+/**
+ * Mongoose schema for redeemed stream tickets
+ */
+const RedeemedStreamTicketSchema = new Schema<IRedeemedStreamTicket>(
+  {
+    _id: {
+      type: String,
+      required: true,
+    },
+    userId: {
+      type: String,
+      required: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+// An expired ticket is rejected anyway, so its record can go
+RedeemedStreamTicketSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const RedeemedStreamTicket = mongoose.model<IRedeemedStreamTicket>(
+  "RedeemedStreamTicket",
+  RedeemedStreamTicketSchema
+);
+
+export default RedeemedStreamTicket;
@@ -0,0 +1,51 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+/**
+ * Interface representing a one-time code a web user sends to the bot with
+ * /link to bind their Telegram account. Only the code's hash is stored.
+ */
+export interface ITelegramLinkCode extends Document {
+  _id: string; // SHA-256 of the code
+  userId: string;
+  mergeHistory: boolean; // Move the telegram_<id> user's data into userId
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+/**
+ * Mongoose schema for Telegram link codes
+ */
+const TelegramLinkCodeSchema = new Schema<ITelegramLinkCode>(
+  {
+    _id: {
+      type: String,
+      required: true,
+    },
+    userId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    mergeHistory: {
+      type: Boolean,
+      default: false,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+// Let MongoDB drop expired codes
+TelegramLinkCodeSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const TelegramLinkCodeModel = mongoose.model<ITelegramLinkCode>(
+  "TelegramLinkCode",
+  TelegramLinkCodeSchema
+);
+
+export default TelegramLinkCodeModel;
@@ -0,0 +1,67 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+/**
+ * Interface representing the binding between a Telegram account and the
+ * user it acts as. Telegram-only users get a provisional link to their
+ * auto-created account until they link a web account.
+ */
+export interface ITelegramLink extends Document {
+  _id: string; // Telegram user ID
+  userId: string;
+  chatId: string; // Private chat with the bot, where messages are delivered
+  telegramUsername?: string;
+  displayName?: string;
+  provisional: boolean; // True while bound to the auto-created telegram_<id> user
+  linkedAt: Date;
+  quietUntil?: Date; // No proactive messages until then (set with /quiet)
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Mongoose schema for Telegram account links
+ */
+const TelegramLinkSchema = new Schema<ITelegramLink>(
+  {
+    _id: {
+      type: String,
+      required: true,
+    },
+    userId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    chatId: {
+      type: String,
+      required: true,
+    },
+    telegramUsername: {
+      type: String,
+    },
+    displayName: {
+      type: String,
+    },
+    provisional: {
+      type: Boolean,
+      default: false,
+    },
+    linkedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    quietUntil: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+export const TelegramLinkModel = mongoose.model<ITelegramLink>(
+  "TelegramLink",
+  TelegramLinkSchema
+);
+
+export default TelegramLinkModel;
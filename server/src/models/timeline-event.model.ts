@@ -0,0 +1,76 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+/**
+ * Interface representing a persisted timeline entry
+ */
+export interface ITimelineEvent extends Document {
+  _id: string;
+  userId: string;
+  type: string; // TimelineEventType
+  timestamp: Date; // When the underlying event happened
+  sessionId?: string;
+  sourceId: string; // ID of the originating record, unique per user and type
+  description: string;
+  metadata?: Record<string, any>;
+  createdAt: Date;
+}
+
+/**
+ * Mongoose schema for timeline events
+ */
+const TimelineEventSchema = new Schema<ITimelineEvent>(
+  {
+    _id: {
+      type: String,
+      required: true,
+      default: () => new mongoose.Types.ObjectId().toString(),
+    },
+    userId: {
+      type: String,
+      required: true,
+    },
+    type: {
+      type: String,
+      required: true,
+    },
+    timestamp: {
+      type: Date,
+      required: true,
+    },
+    sessionId: {
+      type: String,
+    },
+    sourceId: {
+      type: String,
+      required: true,
+    },
+    description: {
+      type: String,
+      required: true,
+    },
+    metadata: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+// Cursor pagination: (timestamp, _id) descending, optionally narrowed by type/session
+TimelineEventSchema.index({ userId: 1, timestamp: -1, _id: -1 });
+TimelineEventSchema.index({ userId: 1, type: 1, timestamp: -1 });
+TimelineEventSchema.index({ userId: 1, sessionId: 1, timestamp: -1 });
+// Makes recording idempotent when live hooks and the backfill see the same source
+TimelineEventSchema.index(
+  { userId: 1, type: 1, sourceId: 1 },
+  { unique: true }
+);
+
+export const TimelineEventModel = mongoose.model<ITimelineEvent>(
+  "TimelineEvent",
+  TimelineEventSchema
+);
+
+export default TimelineEventModel;
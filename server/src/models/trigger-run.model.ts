@@ -0,0 +1,104 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+/**
+ * Outcome of a single action within a trigger run
+ */
+export interface ITriggerActionResult {
+  actionId: string;
+  type: string;
+  status: "success" | "failure";
+  error?: string;
+  result?: any;
+  durationMs: number;
+}
+
+/**
+ * Interface representing one execution of a trigger
+ */
+export interface ITriggerRun extends Document {
+  _id: string;
+  triggerId: string;
+  userId: string;
+  source: "time" | "event" | "manual";
+  eventType?: string;
+  eventData?: Record<string, any>;
+  status: "success" | "partial" | "failure";
+  actionResults: ITriggerActionResult[];
+  startedAt: Date;
+  durationMs: number;
+}
+
+const TriggerActionResultSchema = new Schema<ITriggerActionResult>(
+  {
+    actionId: { type: String, required: true },
+    type: { type: String, required: true },
+    status: { type: String, enum: ["success", "failure"], required: true },
+    error: { type: String },
+    result: { type: Schema.Types.Mixed },
+    durationMs: { type: Number, default: 0 },
+  },
+  { _id: false }
+);
+
+/**
+ * Mongoose schema for trigger execution history
+ */
+const TriggerRunSchema = new Schema<ITriggerRun>(
+  {
+    _id: {
+      type: String,
+      required: true,
+      default: () => new mongoose.Types.ObjectId().toString(),
+    },
+    triggerId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    userId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    source: {
+      type: String,
+      enum: ["time", "event", "manual"],
+      required: true,
+    },
+    eventType: {
+      type: String,
+    },
+    eventData: {
+      type: Schema.Types.Mixed,
+    },
+    status: {
+      type: String,
+      enum: ["success", "partial", "failure"],
+      required: true,
+    },
+    actionResults: {
+      type: [TriggerActionResultSchema],
+      default: [],
+    },
+    startedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    durationMs: {
+      type: Number,
+      default: 0,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+TriggerRunSchema.index({ triggerId: 1, startedAt: -1 });
+
+export const TriggerRun = mongoose.model<ITriggerRun>(
+  "TriggerRun",
+  TriggerRunSchema
+);
+
+export default TriggerRun;
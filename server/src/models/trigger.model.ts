@@ -0,0 +1,93 @@
+import mongoose, { Document, Schema } from "mongoose";
+import { v4 as uuidv4 } from "uuid";
+
+/**
+ * Interface representing a persisted automation trigger
+ */
+export interface ITrigger extends Document {
+  _id: string;
+  userId: string;
+  name: string;
+  description?: string;
+  type: string; // TriggerType
+  conditions: Record<string, any>; // Shape depends on the trigger type
+  actions: Array<{
+    id: string;
+    type: string; // ActionType
+    config: Record<string, any>;
+  }>;
+  isActive: boolean;
+  lastTriggered?: Date;
+  nextRunAt?: Date; // Next due time for one-shot time triggers
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TriggerActionSchema = new Schema(
+  {
+    id: { type: String, required: true },
+    type: { type: String, required: true },
+    config: { type: Schema.Types.Mixed, default: {} },
+  },
+  { _id: false }
+);
+
+/**
+ * Mongoose schema for triggers
+ */
+const TriggerSchema = new Schema<ITrigger>(
+  {
+    _id: {
+      type: String,
+      default: () => uuidv4(),
+    },
+    userId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    name: {
+      type: String,
+      required: true,
+    },
+    description: {
+      type: String,
+    },
+    type: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    conditions: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+    actions: {
+      type: [TriggerActionSchema],
+      default: [],
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+      index: true,
+    },
+    lastTriggered: {
+      type: Date,
+    },
+    nextRunAt: {
+      type: Date,
+      index: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Lookup of active triggers by type (time ticks) and by event type (domain events)
+TriggerSchema.index({ isActive: 1, type: 1 });
+TriggerSchema.index({ userId: 1, isActive: 1, "conditions.eventType": 1 });
+
+export const TriggerModel = mongoose.model<ITrigger>("Trigger", TriggerSchema);
+
+export default TriggerModel;
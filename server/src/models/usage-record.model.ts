@@ -0,0 +1,84 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+// Usage records are only needed for the current quota period and the chart
+const USAGE_RETENTION_SECONDS = 400 * 24 * 60 * 60;
+
+/**
+ * Interface representing one metered model call
+ */
+export interface IUsageRecord extends Document {
+  _id: string;
+  userId: string;
+  provider: string;
+  llmModel: string; // Model name as passed to the provider
+  purpose: string; // AIPurpose value, or the kind of auxiliary call
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  sessionId?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Mongoose schema for usage records
+ */
+const UsageRecordSchema = new Schema<IUsageRecord>(
+  {
+    _id: {
+      type: String,
+      required: true,
+      default: () => new mongoose.Types.ObjectId().toString(),
+    },
+    userId: {
+      type: String,
+      required: true,
+    },
+    provider: {
+      type: String,
+      required: true,
+    },
+    llmModel: {
+      type: String,
+      required: true,
+    },
+    purpose: {
+      type: String,
+      required: true,
+    },
+    promptTokens: {
+      type: Number,
+      required: true,
+      default: 0,
+    },
+    completionTokens: {
+      type: Number,
+      required: true,
+      default: 0,
+    },
+    totalTokens: {
+      type: Number,
+      required: true,
+      default: 0,
+    },
+    sessionId: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+UsageRecordSchema.index({ userId: 1, createdAt: -1 });
+UsageRecordSchema.index(
+  { createdAt: 1 },
+  { expireAfterSeconds: USAGE_RETENTION_SECONDS }
+);
+
+export const UsageRecord = mongoose.model<IUsageRecord>(
+  "UsageRecord",
+  UsageRecordSchema
+);
+
+export default UsageRecord;
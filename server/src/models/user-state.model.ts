@@ -1,4 +1,7 @@
-import mongoose, { Document, Schema } from "mongoose"; // Interface for User Interests
+import mongoose, { Document, Schema } from "mongoose";
+import type { AIParameters, AIPurpose } from "../services/model.service";
+
+// Interface for User Interests
 export interface IUserInterest {
   topic: string;
   level: number; // e.g., 1-5 scale
@@ -13,6 +16,8 @@ export interface IIntegration {
     userId?: string;
     workspaceId?: string;
     pageId?: string;
+    databaseId?: string; // Notion database that receives todos
+    goalsDatabaseId?: string; // Notion database synced with user goals
     apiKey?: string;
     clientId?: string;
     clientSecret?: string;
@@ -23,14 +28,44 @@ export interface IIntegration {
   metadata?: Record<string, any>;
 }
 
+export type UserGoalStatus = "not_started" | "in_progress" | "completed";
+
 // Interface for User Goals
 export interface IUserGoal {
   goal: string;
   priority: number; // 1-10 scale
   progress?: number; // 0-100 scale
+  status?: UserGoalStatus;
+  createdAt: Date;
+  updatedAt?: Date; // Last change to goal, priority, progress or status
+  notionPageId?: string; // Linked page in the Notion goals database
+  notionLastEditedAt?: Date; // Page's last_edited_time as of the last sync
+  notionSyncedAt?: Date;
+}
+
+// Per-purpose parameter overrides (e.g. a local model for summarization)
+export type PurposeOverrides = Partial<
+  Record<AIPurpose, Partial<AIParameters>>
+>;
+
+// Interface for a named, switchable set of model parameters
+export interface IModelProfile {
+  id: string;
+  name: string; // e.g. "fast local", "creative cloud"
+  description?: string;
+  parameters: Partial<AIParameters>;
+  purposeOverrides: PurposeOverrides;
   createdAt: Date;
 }
 
+// Interface for the user's persisted AI settings
+export interface IAISettings {
+  parameters: Partial<AIParameters>; // Base chat parameters
+  purposeOverrides: PurposeOverrides;
+  profiles: IModelProfile[];
+  activeProfileId?: string | null; // Used when a session has no profile of its own
+}
+
 // Interface for the UserState document
 export interface IUserState extends Document {
   userId: string; // Link to the main User model
@@ -38,6 +73,7 @@ export interface IUserState extends Document {
   integrations: IIntegration[];
   userGoals: IUserGoal[]; // User-defined goals
   globalPrompt?: string; // Custom prompt applied to all AI interactions
+  aiSettings: IAISettings;
   // Add other user-specific state fields here later (e.g., social maps, preferences)
   createdAt: Date;
   updatedAt: Date;
@@ -72,11 +108,41 @@ const UserGoalSchema = new Schema<IUserGoal>(
     goal: { type: String, required: true },
     priority: { type: Number, min: 1, max: 10, default: 5 },
     progress: { type: Number, min: 0, max: 100, default: 0 },
+    status: {
+      type: String,
+      enum: ["not_started", "in_progress", "completed"],
+    },
+    createdAt: { type: Date, default: Date.now },
+    updatedAt: Date,
+    notionPageId: String,
+    notionLastEditedAt: Date,
+    notionSyncedAt: Date,
+  },
+  { _id: false }
+);
+
+const ModelProfileSchema = new Schema<IModelProfile>(
+  {
+    id: { type: String, required: true },
+    name: { type: String, required: true },
+    description: String,
+    parameters: { type: Schema.Types.Mixed, default: {} },
+    purposeOverrides: { type: Schema.Types.Mixed, default: {} },
     createdAt: { type: Date, default: Date.now },
   },
   { _id: false }
 );
 
+const AISettingsSchema = new Schema<IAISettings>(
+  {
+    parameters: { type: Schema.Types.Mixed, default: {} },
+    purposeOverrides: { type: Schema.Types.Mixed, default: {} },
+    profiles: { type: [ModelProfileSchema], default: [] },
+    activeProfileId: { type: String, default: null },
+  },
+  { _id: false }
+);
+
 const UserStateSchema = new Schema<IUserState>(
   {
     userId: {
@@ -101,6 +167,10 @@ const UserStateSchema = new Schema<IUserState>(
       type: String,
       default: "",
     },
+    aiSettings: {
+      type: AISettingsSchema,
+      default: () => ({}),
+    },
     // Add other fields here
   },
   {
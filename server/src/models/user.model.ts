@@ -1,4 +1,5 @@
 import mongoose, { Schema, Document } from "mongoose";import bcrypt from "bcryptjs";
+import { DEFAULT_PLAN, PLANS, PlanId } from "../constants/plans";
 
 export interface IUser extends Document {
   username: string;
@@ -6,6 +7,8 @@ export interface IUser extends Document {
   password?: string; // Password might not always be present (e.g., OAuth)
   name?: string;
   globalPrompt?: string; // Added globalPrompt field
+  subscription: PlanId; // Set in the database; not synced from billing yet
+  isAdmin: boolean; // Granted in the database, never through the API
   createdAt: Date;
   updatedAt: Date;
   // Add other fields as needed: profilePicture, preferences, etc.
@@ -49,6 +52,15 @@ const UserSchema: Schema = new Schema(
       trim: true,
       default: null, // Or an empty string if preferred
     },
+    subscription: {
+      type: String,
+      enum: Object.keys(PLANS),
+      default: DEFAULT_PLAN,
+    },
+    isAdmin: {
+      type: Boolean,
+      default: false,
+    },
     // Add other fields here
   },
   { timestamps: true } // Adds createdAt and updatedAt automatically
@@ -5,6 +5,8 @@ export interface IVectorDocument extends Document {
   userId: string;
   text: string;
   embedding: number[];
+  embeddingModel?: string; // Model that produced the embedding (e.g. "ollama/nomic-embed-text")
+  embeddingVersion?: string; // Version of that model/algorithm; vectors are only compared within a model+version
   metadata?: Record<string, any>;
   createdAt: Date;
   type: string; // Indicates the type of vector document (memory, message, etc.)
@@ -30,6 +32,13 @@ const VectorDocumentSchema = new Schema<IVectorDocument>(
       type: [Number],
       required: true,
     },
+    embeddingModel: {
+      type: String,
+      index: true,
+    },
+    embeddingVersion: {
+      type: String,
+    },
     metadata: {
       type: Schema.Types.Mixed,
       default: {},
@@ -60,6 +69,7 @@ const VectorDocumentSchema = new Schema<IVectorDocument>(
 
 // Create compound indexes for efficient querying
 VectorDocumentSchema.index({ userId: 1, type: 1 });
+VectorDocumentSchema.index({ userId: 1, embeddingModel: 1, embeddingVersion: 1 });
 
 // Create the model
 export const VectorDocument = mongoose.model<IVectorDocument>(
@@ -0,0 +1,435 @@
+import { once } from "events";
+import { FilterQuery, Model } from "mongoose";
+import { loggerFactory } from "../utils/logger.service";
+import { User } from "../models/user.model";
+import {
+  AccountDeletion,
+  IAccountDeletion,
+} from "../models/account-deletion.model";
+import { ActionLog } from "../models/action-log.model";
+import { Activity } from "../models/activity.model";
+import { AuthSession } from "../models/auth-session.model";
+import { RedeemedStreamTicket } from "../models/stream-ticket.model";
+import { CommitmentModel } from "../models/commitment.model";
+import { CompanionState } from "../models/companion-state.model";
+import { Context } from "../models/context.model";
+import { ConversationSummaryModel } from "../models/conversation-summary.model";
+import { CredentialKey } from "../models/credential-key.model";
+import { DeadLetterModel } from "../models/dead-letter.model";
+import { MemoryConsolidationModel } from "../models/memory-consolidation.model";
+import { Memory } from "../models/memory.model";
+import { Message } from "../models/message.model";
+import { NotificationModel } from "../models/notification.model";
+import { ScheduledTaskModel } from "../models/scheduled-task.model";
+import { SessionModel } from "../models/session.model";
+import UserSummary from "../models/summary.model";
+import { TelegramLinkCodeModel } from "../models/telegram-link-code.model";
+import { TelegramLinkModel } from "../models/telegram-link.model";
+import { ThinkingRecord } from "../models/thinking-record.model";
+import { TimelineEventModel } from "../models/timeline-event.model";
+import { TriggerRun } from "../models/trigger-run.model";
+import { TriggerModel } from "../models/trigger.model";
+import { UsageRecord } from "../models/usage-record.model";
+import { UserState } from "../models/user-state.model";
+import { VectorDocument } from "../models/vector-document.model";
+import { SocialConnection, SocialProfile } from "./social.service";
+import { SerendipitySuggestionModel } from "./serendipity.service";
+import { SECRET_FIELDS, credentialVault } from "./credential-vault.service";
+import { authSessionService } from "./auth-session.service";
+import { chatSessionManager } from "./chat-session.service";
+import { companionThinkingService } from "./companion-thinking.service";
+import { summaryService } from "./summary.service";
+import { aiSettingsService } from "./ai-settings.service";
+import { socialMediaService } from "./social/social-media.service";
+import { usageService } from "./usage.service";
+
+const logger = loggerFactory.getLogger("AccountService");
+
+const EXPORT_VERSION = 1;
+const DEFAULT_DELETION_GRACE_DAYS = 7;
+const DELETION_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * A collection holding data that belongs to a user
+ */
+export interface UserCollection {
+  name: string; // Key in the export archive and in deletion counts
+  model: Model<any>;
+  filter: (userId: string) => FilterQuery<any>;
+  exportProjection?: string; // Fields left out of the export
+  exported?: boolean; // False for key material, one-time codes and failed jobs
+}
+
+const byUserId = (userId: string) => ({ userId });
+
+/**
+ * Everything we store about a user besides the user record itself. Both the
+ * export and the deletion go through this list, so a new per-user collection
+ * must be added here.
+ */
+export const USER_COLLECTIONS: UserCollection[] = [
+  { name: "sessions", model: SessionModel, filter: byUserId },
+  { name: "messages", model: Message, filter: byUserId },
+  {
+    name: "conversationSummaries",
+    model: ConversationSummaryModel,
+    filter: byUserId,
+  },
+  { name: "summaries", model: UserSummary, filter: byUserId },
+  {
+    name: "memories",
+    model: Memory,
+    filter: byUserId,
+    exportProjection: "-embedding",
+  },
+  {
+    name: "memoryConsolidations",
+    model: MemoryConsolidationModel,
+    filter: byUserId,
+  },
+  {
+    name: "vectorDocuments",
+    model: VectorDocument,
+    filter: byUserId,
+    exportProjection: "-embedding",
+  },
+  { name: "activities", model: Activity, filter: byUserId },
+  { name: "companionState", model: CompanionState, filter: byUserId },
+  { name: "thinkingRecords", model: ThinkingRecord, filter: byUserId },
+  { name: "contexts", model: Context, filter: byUserId },
+  { name: "commitments", model: CommitmentModel, filter: byUserId },
+  { name: "scheduledTasks", model: ScheduledTaskModel, filter: byUserId },
+  { name: "notifications", model: NotificationModel, filter: byUserId },
+  { name: "triggers", model: TriggerModel, filter: byUserId },
+  { name: "triggerRuns", model: TriggerRun, filter: byUserId },
+  { name: "timeline", model: TimelineEventModel, filter: byUserId },
+  { name: "actionLogs", model: ActionLog, filter: byUserId },
+  { name: "usage", model: UsageRecord, filter: byUserId },
+  {
+    name: "serendipitySuggestions",
+    model: SerendipitySuggestionModel,
+    filter: byUserId,
+  },
+  { name: "socialProfile", model: SocialProfile, filter: byUserId },
+  {
+    name: "socialConnections",
+    model: SocialConnection,
+    filter: (userId) => ({ $or: [{ userA: userId }, { userB: userId }] }),
+  },
+  {
+    name: "userState",
+    model: UserState,
+    filter: byUserId,
+    // Sealed secrets are no use outside this server
+    exportProjection: SECRET_FIELDS.map(
+      (field) => `-integrations.credentials.${field}`
+    ).join(" "),
+  },
+  { name: "telegramLinks", model: TelegramLinkModel, filter: byUserId },
+  {
+    name: "telegramLinkCodes",
+    model: TelegramLinkCodeModel,
+    filter: byUserId,
+    exported: false,
+  },
+  {
+    name: "devices",
+    model: AuthSession,
+    filter: byUserId,
+    exportProjection: "-tokenHash -previousTokenHash",
+  },
+  {
+    name: "redeemedStreamTickets",
+    model: RedeemedStreamTicket,
+    filter: byUserId,
+    exported: false,
+  },
+  {
+    name: "credentialKeys",
+    model: CredentialKey,
+    filter: byUserId,
+    exported: false,
+  },
+  {
+    name: "deadLetters",
+    model: DeadLetterModel,
+    // Entries recorded before userId was stored are matched on the payload
+    filter: (userId) => ({
+      $or: [
+        { userId },
+        {
+          userId: { $exists: false },
+          payload: {
+            $regex: `"userId":\\s*"${userId.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}"`,
+          },
+        },
+      ],
+    }),
+    exported: false,
+  },
+];
+
+/**
+ * Days between a deletion request and the actual deletion, from
+ * ACCOUNT_DELETION_GRACE_DAYS. Zero deletes right away.
+ */
+export function getDeletionGraceDays(): number {
+  const configured = process.env.ACCOUNT_DELETION_GRACE_DAYS;
+  if (configured === undefined || configured === "") {
+    return DEFAULT_DELETION_GRACE_DAYS;
+  }
+  const days = Number(configured);
+  return Number.isFinite(days) && days >= 0
+    ? days
+    : DEFAULT_DELETION_GRACE_DAYS;
+}
+
+/**
+ * Exports everything stored about a user and deletes accounts after a grace
+ * period, across every collection and in-memory cache
+ */
+class AccountService {
+  private isRunning = false;
+  private isTicking = false;
+  private tickInterval: NodeJS.Timeout | null = null;
+
+  /**
+   * Stream the user's data as one JSON document. Collections are read with
+   * cursors so large histories never sit in memory at once.
+   */
+  async writeExport(userId: string, out: NodeJS.WritableStream): Promise<void> {
+    const write = async (chunk: string) => {
+      if (!out.write(chunk)) {
+        await once(out, "drain");
+      }
+    };
+
+    const account = await User.findById(userId)
+      .select("-password")
+      .lean()
+      .exec();
+    await write(
+      `{"version":${EXPORT_VERSION},"exportedAt":${JSON.stringify(new Date().toISOString())},"account":${JSON.stringify(account)},"collections":{`
+    );
+
+    let firstCollection = true;
+    for (const collection of USER_COLLECTIONS) {
+      if (collection.exported === false) {
+        continue;
+      }
+      await write(
+        `${firstCollection ? "" : ","}${JSON.stringify(collection.name)}:[`
+      );
+      firstCollection = false;
+
+      let firstDocument = true;
+      const cursor = collection.model
+        .find(collection.filter(userId))
+        .select(collection.exportProjection || "")
+        .lean()
+        .cursor();
+      for await (const document of cursor) {
+        await write(`${firstDocument ? "" : ","}${JSON.stringify(document)}`);
+        firstDocument = false;
+      }
+      await write("]");
+    }
+
+    await write("}}");
+    logger.info(`Exported account data for user ${userId}`);
+  }
+
+  /**
+   * Schedule the user's account for deletion at the end of the grace period
+   * and sign out all their devices. Asking again returns the pending request.
+   */
+  async requestDeletion(userId: string): Promise<IAccountDeletion> {
+    const pending = await this.getPendingDeletion(userId);
+    if (pending) {
+      return pending;
+    }
+
+    const requestedAt = new Date();
+    const deletion = await AccountDeletion.create({
+      userId,
+      status: "scheduled",
+      requestedAt,
+      scheduledFor: new Date(
+        requestedAt.getTime() + getDeletionGraceDays() * 24 * 60 * 60 * 1000
+      ),
+    });
+    logger.info(
+      `Account deletion ${deletion._id} for user ${userId} scheduled for ${deletion.scheduledFor.toISOString()}`
+    );
+
+    await authSessionService.revokeAll(userId, "account_deletion");
+
+    if (deletion.scheduledFor <= requestedAt) {
+      return (await this.processDeletion(deletion._id)) || deletion;
+    }
+    return deletion;
+  }
+
+  /**
+   * The user's deletion request that hasn't been carried out yet, if any
+   */
+  async getPendingDeletion(userId: string): Promise<IAccountDeletion | null> {
+    return AccountDeletion.findOne({
+      userId,
+      status: { $in: ["scheduled", "processing", "failed"] },
+    })
+      .sort({ requestedAt: -1 })
+      .exec();
+  }
+
+  /**
+   * Keep the account after all. Only possible during the grace period.
+   */
+  async cancelDeletion(userId: string): Promise<IAccountDeletion | null> {
+    const deletion = await AccountDeletion.findOneAndUpdate(
+      { userId, status: "scheduled" },
+      { $set: { status: "cancelled", cancelledAt: new Date() } },
+      { new: true }
+    ).exec();
+    if (deletion) {
+      logger.info(`Account deletion ${deletion._id} cancelled by ${userId}`);
+    }
+    return deletion;
+  }
+
+  /**
+   * Check for due deletions every hour
+   */
+  start(): void {
+    if (this.isRunning) {
+      logger.info("Account deletion processing is already running");
+      return;
+    }
+
+    logger.info("Starting account deletion processing");
+    this.isRunning = true;
+    this.tickInterval = setInterval(() => {
+      this.processDue();
+    }, DELETION_CHECK_INTERVAL_MS);
+    this.processDue();
+  }
+
+  /**
+   * Stop checking for due deletions
+   */
+  stop(): void {
+    if (!this.isRunning) {
+      return;
+    }
+
+    logger.info("Stopping account deletion processing");
+    this.isRunning = false;
+    if (this.tickInterval) {
+      clearInterval(this.tickInterval);
+      this.tickInterval = null;
+    }
+  }
+
+  /**
+   * Carry out every deletion whose grace period is over. Failed deletions
+   * are retried; deleting is idempotent.
+   */
+  async processDue(): Promise<void> {
+    if (this.isTicking) {
+      return;
+    }
+    this.isTicking = true;
+
+    try {
+      const due = await AccountDeletion.find({
+        status: { $in: ["scheduled", "failed"] },
+        scheduledFor: { $lte: new Date() },
+      })
+        .select("_id")
+        .lean()
+        .exec();
+
+      for (const { _id } of due) {
+        await this.processDeletion(_id);
+      }
+    } catch (error) {
+      logger.error("Failed to process account deletions", error as Error);
+    } finally {
+      this.isTicking = false;
+    }
+  }
+
+  /**
+   * Delete everything stored about the user, then the user. Returns how many
+   * documents were removed per collection.
+   */
+  async purgeUser(userId: string): Promise<Record<string, number>> {
+    const deletedCounts: Record<string, number> = {};
+
+    for (const collection of USER_COLLECTIONS) {
+      const result = await collection.model
+        .deleteMany(collection.filter(userId))
+        .exec();
+      deletedCounts[collection.name] = result.deletedCount;
+    }
+
+    // Other users' match lists mention the user by name
+    await SocialProfile.updateMany(
+      { "matching.recentMatches.userId": userId },
+      { $pull: { "matching.recentMatches": { userId } } }
+    ).exec();
+
+    deletedCounts.cachedSessions =
+      chatSessionManager.deleteUserSessions(userId);
+    deletedCounts.cachedThoughts =
+      companionThinkingService.clearUserCache(userId);
+    deletedCounts.cachedSummaries = summaryService.clearUserCache(userId);
+    aiSettingsService.clearUserCache(userId);
+    credentialVault.clearUserCache(userId);
+    usageService.clearUserCache(userId);
+    for (const connection of socialMediaService.getUserConnections(userId)) {
+      socialMediaService.removeConnection(userId, connection.platform);
+    }
+
+    const result = await User.deleteOne({ _id: userId }).exec();
+    deletedCounts.users = result.deletedCount;
+
+    return deletedCounts;
+  }
+
+  private async processDeletion(
+    deletionId: string
+  ): Promise<IAccountDeletion | null> {
+    // Claim it, so two instances never work on the same deletion
+    const deletion = await AccountDeletion.findOneAndUpdate(
+      { _id: deletionId, status: { $in: ["scheduled", "failed"] } },
+      { $set: { status: "processing" }, $unset: { error: 1 } },
+      { new: true }
+    ).exec();
+    if (!deletion) {
+      return null;
+    }
+
+    try {
+      const deletedCounts = await this.purgeUser(deletion.userId);
+      deletion.status = "completed";
+      deletion.completedAt = new Date();
+      deletion.deletedCounts = deletedCounts;
+      await deletion.save();
+      logger.info(
+        `Deleted account of user ${deletion.userId} (deletion ${deletion._id})`
+      );
+    } catch (error) {
+      logger.error(
+        `Account deletion ${deletion._id} for user ${deletion.userId} failed`,
+        error as Error
+      );
+      deletion.status = "failed";
+      deletion.error = (error as Error).message;
+      await deletion.save();
+    }
+    return deletion;
+  }
+}
+
+export const accountService = new AccountService();
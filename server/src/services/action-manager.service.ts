@@ -3,6 +3,7 @@ import { contextService } from "./context.service";
 import { memoryService } from "./memory.service";
 import { notionService } from "./productivity/notion.service";
 import { aiService } from "./ai.service";
+import { AIPurpose } from "./model.service";
 import { actionLogService } from "./action-log.service";
 import { loggerFactory } from "../utils/logger.service";
 import {
@@ -587,6 +588,7 @@ Only include parameters that are mentioned in the parameter list above.
         {
           temperature: 0.2,
           max_tokens: 500,
+          purpose: AIPurpose.ACTION_EXTRACTION,
         },
         "You are a helpful assistant specializing in parameter extraction for actions.",
         userId
@@ -5,6 +5,7 @@ import { v4 as uuidv4 } from "uuid";import {
   IBrainstormState,
 } from "../models/activity.model";
 import { loggerFactory } from "../utils/logger.service";
+import { getGameEngine } from "./games/engines";
 
 const logger = loggerFactory.getLogger("ActivityFactoryService");
 
@@ -80,21 +81,25 @@ class ActivityFactoryService {
   ): IGameState {
     logger.debug(`Creating game state of type: ${gameType}`);
 
-    // Initialize with type-specific defaults
-    if (gameType === "tictactoe") {
+    // Games with a rule engine start from the engine's board
+    const engine = getGameEngine(gameType);
+    if (engine) {
+      const board = engine.createBoard();
       return {
         gameType,
-        board: initialParams.board || [
-          [null, null, null],
-          [null, null, null],
-          [null, null, null],
-        ],
-        currentPlayer: initialParams.currentPlayer || "X", // User is X, AI is O
-        moves: initialParams.moves || 0,
-        winner: initialParams.winner || null,
-        score: initialParams.score || { X: 0, O: 0 },
-        rules: "Classic tic-tac-toe. Get three in a row to win.",
+        board,
+        currentPlayer: engine.currentSide(board),
+        moves: 0,
+        winner: null,
+        score: initialParams.score || {
+          [engine.userSide]: 0,
+          [engine.aiSide]: 0,
+        },
+        rules: engine.rules,
         difficulty: initialParams.difficulty || "normal",
+        status: "in_progress",
+        moveHistory: [],
+        lastTurn: null,
       };
     }
 
@@ -370,18 +375,14 @@ class ActivityFactoryService {
       case ActivityType.GAME: {
         const state = activityState as IGameState;
 
-        // Game-specific terms
-        if (state.gameType === "tictactoe") {
-          if (
-            /(?:place|put|mark|set|move)[\s\w]*(?:top|middle|bottom|center|left|right|\d+)/i.test(
-              lowerText
-            )
-          ) {
-            score += 0.8; // High relevance for move descriptions
-          }
-          if (/(?:x|o)[\s\w]*(?:wins|won)/i.test(lowerText)) {
-            score += 0.7;
-          }
+        // A move the engine understands is always on topic
+        const engine = getGameEngine(state.gameType);
+        if (
+          engine &&
+          state.board !== undefined &&
+          engine.parseMove(state.board, messageText) !== null
+        ) {
+          score += 1.0;
         }
 
         // General game terms
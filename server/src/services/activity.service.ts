@@ -15,14 +15,17 @@ import { ActivityContext } from "../interfaces/context.interface";
 import { loggerFactory } from "../utils/logger.service";
 import { companionStateService } from "./companion-state.service";
 import { activityFactoryService } from "./activity-factory.service";
+import { getGameEngine } from "./games/engines";
 import { aiService } from "./ai.service"; // Import AI service
 import { log } from "console";
 import MessageModel, { IMessage } from "../models/message.model"; // Correct import
 import { memoryService, MemoryCategory, MemoryType } from "./memory.service";
 import { chatSessionManager } from "../services/chat-session.service";
 import { modelEnum } from "../constants/models";
-import { sseConnections } from "../controllers/chat.controller";
+import { AIPurpose } from "./model.service";
+import { realtimeService } from "./realtime/realtime.service";
 import mongoose from "mongoose";
+import { domainEventsService, DomainEventType } from "./domain-events.service";
 
 const logger = loggerFactory.getLogger("ActivityService");
 // Get instance of context service
@@ -106,6 +109,15 @@ class ActivityService {
     await activity.save();
     logger.debug(`Activity ${activity._id} created successfully`);
 
+    domainEventsService.emit(DomainEventType.ACTIVITY_STARTED, {
+      userId,
+      activityId: activity._id,
+      sessionId,
+      type: activity.type,
+      name: activity.name,
+      startTime: activity.startTime,
+    });
+
     // Create activity context
     const activityContext: ActivityContext = {
       activityId: activity._id,
@@ -195,21 +207,16 @@ class ActivityService {
 
     // Notify client via SSE that the activity has ended
     try {
-      if (sseConnections[activity.sessionId]) {
-        sseConnections[activity.sessionId].send(
-          {
-            activityId: activity._id,
-            isActive: false,
-            type: activity.type,
-            name: activity.name,
-            endTime: activity.endTime,
-          },
-          "activityUpdate"
-        );
-        logger.info(
-          `Sent activityUpdate SSE event for ended activity ${activityId}`
-        );
-      }
+      realtimeService.publishToSession(activity.sessionId, "activityUpdate", {
+        activityId: activity._id,
+        isActive: false,
+        type: activity.type,
+        name: activity.name,
+        endTime: activity.endTime,
+      });
+      logger.info(
+        `Sent activityUpdate SSE event for ended activity ${activityId}`
+      );
     } catch (error) {
       logger.warn(
         `Failed to send activityUpdate SSE event for activity ${activityId}:`,
@@ -217,6 +224,16 @@ class ActivityService {
       );
     }
 
+    domainEventsService.emit(DomainEventType.ACTIVITY_ENDED, {
+      userId: activity.userId,
+      activityId: activity._id,
+      sessionId: activity.sessionId,
+      type: activity.type,
+      name: activity.name,
+      startTime: activity.startTime,
+      endTime: activity.endTime,
+    });
+
     // Trigger background summarization (don't await)
     this._summarizeAndRecordActivity(activity)
       .then(() =>
@@ -1071,8 +1088,9 @@ Identify changes or confirmations for the following state fields based *only* on
 
       case ActivityType.GAME:
         const gameState = activity.state.data as IGameState;
-        if (gameState.gameType === "tictactoe") {
-          return `We're still playing our Tic-Tac-Toe game. It's ${gameState.currentPlayer}'s turn. Would you like to continue?`;
+        const gameEngine = getGameEngine(gameState.gameType);
+        if (gameEngine && gameState.status === "in_progress") {
+          return `We're still playing our ${gameEngine.name} game and it's your move. Would you like to continue?`;
         }
         return `We're in the middle of our ${activity.name} game. Would you like to continue playing?`;
 
@@ -1451,7 +1469,12 @@ Concise Activity Summary (max 6 lines):`;
       );
       const summaryResponse = await aiService.generateAuxiliaryResponse(
         prompt,
-        { model: modelEnum.gemma3o4b, max_tokens: 300, temperature: 0.5 },
+        {
+          model: modelEnum.gemma3o4b,
+          max_tokens: 300,
+          temperature: 0.5,
+          purpose: AIPurpose.SUMMARIZATION,
+        },
         "You are an AI assistant summarizing completed activities.",
         activity.userId
       );
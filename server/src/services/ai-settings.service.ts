@@ -0,0 +1,347 @@
+import { v4 as uuidv4 } from "uuid";
+import {
+  IAISettings,
+  IModelProfile,
+  PurposeOverrides,
+} from "../models/user-state.model";
+import { AIParameters, AIPurpose } from "./model.service";
+import { userStateService } from "./user-state.service";
+import { sessionService } from "./session.service";
+import { loggerFactory } from "../utils/logger.service";
+
+const logger = loggerFactory.getLogger("AISettingsService");
+
+// Parameters a user may persist. API keys are deliberately not among them.
+const PERSISTED_FIELDS: Array<keyof AIParameters> = [
+  "model",
+  "provider",
+  "temperature",
+  "max_tokens",
+  "top_p",
+  "frequency_penalty",
+  "presence_penalty",
+  "stop_sequences",
+  "endpointUrl",
+];
+
+// Session metadata key holding the profile selected for that session
+export const SESSION_PROFILE_KEY = "modelProfileId";
+
+export interface ModelProfileInput {
+  name: string;
+  description?: string;
+  parameters?: Partial<AIParameters>;
+  purposeOverrides?: PurposeOverrides;
+}
+
+/**
+ * Keep only the persisted AIParameters fields that are actually set
+ */
+export function pickParameters(
+  input: Record<string, any> | undefined | null
+): Partial<AIParameters> {
+  const result: Record<string, any> = {};
+  for (const field of PERSISTED_FIELDS) {
+    const value = input?.[field];
+    if (value !== undefined && value !== null && value !== "") {
+      result[field] = value;
+    }
+  }
+  return result as Partial<AIParameters>;
+}
+
+function pickOverrides(input: Record<string, any> | undefined | null) {
+  const result: PurposeOverrides = {};
+  for (const purpose of Object.values(AIPurpose)) {
+    const parameters = pickParameters(input?.[purpose]);
+    if (Object.keys(parameters).length > 0) {
+      result[purpose] = parameters;
+    }
+  }
+  return result;
+}
+
+/**
+ * Layer parameter sets over a base. A layer that picks a model without a
+ * provider drops the inherited provider so it is deduced from the new model.
+ */
+export function mergeParameters(
+  base: AIParameters,
+  ...layers: Array<Partial<AIParameters> | undefined>
+): AIParameters {
+  const merged: AIParameters = { ...base };
+  for (const layer of layers) {
+    if (!layer) continue;
+    if (layer.model && !layer.provider) {
+      delete merged.provider;
+    }
+    Object.assign(merged, layer);
+  }
+  return merged;
+}
+
+/**
+ * Persists per-user AI parameters, named model profiles and per-purpose
+ * overrides in UserState, and resolves the parameters for a given call.
+ */
+class AISettingsService {
+  // Settings are read on every model call, so keep a copy per user
+  private cache: Map<string, IAISettings> = new Map();
+
+  async getSettings(userId: string): Promise<IAISettings> {
+    const cached = this.cache.get(userId);
+    if (cached) {
+      return cached;
+    }
+
+    const userState = await userStateService.getOrCreateUserState(userId);
+    const stored = userState.aiSettings as any;
+    const settings: IAISettings = {
+      parameters: pickParameters(stored?.parameters),
+      purposeOverrides: pickOverrides(stored?.purposeOverrides),
+      profiles: (stored?.profiles || []).map((profile: IModelProfile) => ({
+        id: profile.id,
+        name: profile.name,
+        description: profile.description,
+        parameters: pickParameters(profile.parameters),
+        purposeOverrides: pickOverrides(profile.purposeOverrides),
+        createdAt: profile.createdAt,
+      })),
+      activeProfileId: stored?.activeProfileId || null,
+    };
+    this.cache.set(userId, settings);
+    return settings;
+  }
+
+  clearUserCache(userId: string): void {
+    this.cache.delete(userId);
+  }
+
+  /**
+   * Merge new values into the user's base parameters. Fields set to null are
+   * cleared so they fall back to the defaults.
+   */
+  async updateParameters(
+    userId: string,
+    parameters: Record<string, any>
+  ): Promise<IAISettings> {
+    return this.update(userId, (settings) => {
+      const cleared = PERSISTED_FIELDS.filter(
+        (field) => parameters[field] === null
+      );
+      const next: Record<string, any> = {
+        ...settings.parameters,
+        ...pickParameters(parameters),
+      };
+      cleared.forEach((field) => delete next[field]);
+      settings.parameters = next;
+    });
+  }
+
+  /**
+   * Replace (or with null, remove) the user's override for one purpose
+   */
+  async setPurposeOverride(
+    userId: string,
+    purpose: AIPurpose,
+    parameters: Partial<AIParameters> | null
+  ): Promise<IAISettings> {
+    return this.update(userId, (settings) => {
+      const picked = pickParameters(parameters);
+      if (Object.keys(picked).length > 0) {
+        settings.purposeOverrides = {
+          ...settings.purposeOverrides,
+          [purpose]: picked,
+        };
+      } else {
+        const { [purpose]: _removed, ...rest } = settings.purposeOverrides;
+        settings.purposeOverrides = rest;
+      }
+    });
+  }
+
+  async createProfile(
+    userId: string,
+    input: ModelProfileInput
+  ): Promise<IModelProfile> {
+    const profile: IModelProfile = {
+      id: uuidv4(),
+      name: input.name.trim(),
+      description: input.description,
+      parameters: pickParameters(input.parameters),
+      purposeOverrides: pickOverrides(input.purposeOverrides),
+      createdAt: new Date(),
+    };
+    await this.update(userId, (settings) => {
+      settings.profiles = [...settings.profiles, profile];
+    });
+    logger.info(`Created model profile "${profile.name}" for user ${userId}`);
+    return profile;
+  }
+
+  async updateProfile(
+    userId: string,
+    profileId: string,
+    input: Partial<ModelProfileInput>
+  ): Promise<IModelProfile | null> {
+    let updated: IModelProfile | null = null;
+    await this.update(userId, (settings) => {
+      settings.profiles = settings.profiles.map((profile) => {
+        if (profile.id !== profileId) return profile;
+        updated = {
+          ...profile,
+          name: input.name?.trim() || profile.name,
+          description:
+            input.description !== undefined
+              ? input.description
+              : profile.description,
+          parameters:
+            input.parameters !== undefined
+              ? pickParameters(input.parameters)
+              : profile.parameters,
+          purposeOverrides:
+            input.purposeOverrides !== undefined
+              ? pickOverrides(input.purposeOverrides)
+              : profile.purposeOverrides,
+        };
+        return updated;
+      });
+    });
+    return updated;
+  }
+
+  async deleteProfile(userId: string, profileId: string): Promise<boolean> {
+    let deleted = false;
+    await this.update(userId, (settings) => {
+      const remaining = settings.profiles.filter(
+        (profile) => profile.id !== profileId
+      );
+      deleted = remaining.length !== settings.profiles.length;
+      settings.profiles = remaining;
+      if (settings.activeProfileId === profileId) {
+        settings.activeProfileId = null;
+      }
+    });
+    return deleted;
+  }
+
+  /**
+   * Make a profile the user's default (null goes back to the base
+   * parameters). Resolves to null when the profile does not exist.
+   */
+  async activateProfile(
+    userId: string,
+    profileId: string | null
+  ): Promise<IAISettings | null> {
+    const settings = await this.getSettings(userId);
+    if (profileId && !this.findProfile(settings, profileId)) {
+      return null;
+    }
+    return this.update(userId, (next) => {
+      next.activeProfileId = profileId;
+    });
+  }
+
+  /**
+   * Pin a profile to one of the user's sessions (null follows the user's
+   * active profile). Resolves to false when the session or profile is unknown.
+   */
+  async setSessionProfile(
+    userId: string,
+    sessionId: string,
+    profileId: string | null
+  ): Promise<boolean> {
+    const settings = await this.getSettings(userId);
+    if (profileId && !this.findProfile(settings, profileId)) {
+      return false;
+    }
+    const session = await sessionService.getSession(sessionId);
+    if (!session || session.userId !== userId) {
+      return false;
+    }
+    await sessionService.updateSessionMetadata(sessionId, {
+      [SESSION_PROFILE_KEY]: profileId,
+    });
+    return true;
+  }
+
+  /**
+   * Resolve the parameters for a model call. Layers, lowest first: the
+   * caller's base, then for chat replies the user's parameters and the
+   * profile's, then the user's and the profile's override for the purpose.
+   * The profile is the session's pinned one, else the user's active one.
+   */
+  async resolveParameters(
+    userId: string | undefined,
+    purpose: AIPurpose,
+    base: AIParameters,
+    sessionId?: string
+  ): Promise<AIParameters> {
+    if (!userId) {
+      return base;
+    }
+
+    try {
+      const settings = await this.getSettings(userId);
+      let profileId = settings.activeProfileId;
+      if (sessionId && settings.profiles.length > 0) {
+        const session = await sessionService.getSession(sessionId);
+        profileId = session?.metadata?.[SESSION_PROFILE_KEY] || profileId;
+      }
+      return this.resolveFromSettings(settings, purpose, base, profileId);
+    } catch (error) {
+      logger.warn(`Falling back to default AI parameters for ${userId}`, {
+        purpose,
+        error: (error as Error).message,
+      });
+      return base;
+    }
+  }
+
+  resolveFromSettings(
+    settings: IAISettings,
+    purpose: AIPurpose,
+    base: AIParameters,
+    profileId?: string | null
+  ): AIParameters {
+    const profile = this.findProfile(settings, profileId);
+    const chatLayers =
+      purpose === AIPurpose.CHAT
+        ? [settings.parameters, profile?.parameters]
+        : [];
+    return mergeParameters(
+      base,
+      ...chatLayers,
+      settings.purposeOverrides[purpose],
+      profile?.purposeOverrides[purpose]
+    );
+  }
+
+  private findProfile(
+    settings: IAISettings,
+    profileId?: string | null
+  ): IModelProfile | undefined {
+    return profileId
+      ? settings.profiles.find((profile) => profile.id === profileId)
+      : undefined;
+  }
+
+  private async update(
+    userId: string,
+    mutate: (settings: IAISettings) => void
+  ): Promise<IAISettings> {
+    const settings = structuredClone(await this.getSettings(userId));
+    mutate(settings);
+
+    const userState = await userStateService.getOrCreateUserState(userId);
+    userState.aiSettings = settings;
+    userState.markModified("aiSettings");
+    await userState.save();
+
+    this.cache.set(userId, settings);
+    logger.debug(`Saved AI settings for user ${userId}`);
+    return settings;
+  }
+}
+
+export const aiSettingsService = new AISettingsService();
@@ -7,31 +7,67 @@ import {
   SystemMessage,
 } from "@langchain/core/messages";
 import {
+  ChatMessage,
   ChatMessageModel,
   MessageRole,
   MessageStatus,
 } from "../models/chat.model";
-import { contextService } from "./context.service";
+import { contextService, PromptSectionReport } from "./context.service";
 import { memoryService, MemoryType, MemoryCategory } from "./memory.service";
 import { actionManager } from "./action-manager.service";
 import { companionThinkingService } from "./companion-thinking.service";
 
 import { v4 as uuidv4 } from "uuid";
-import MessageModel from "../models/message.model";
+import MessageModel, { IMessageProvenance } from "../models/message.model";
 import { OpenAI } from "openai";
 import { chatSessionManager } from "./chat-session.service";
 import { sessionService } from "./session.service";
 import { ISession } from "../models/session.model";
-import { modelService, LLMProvider, AIParameters } from "./model.service";
+import {
+  modelService,
+  LLMProvider,
+  AIParameters,
+  AIPurpose,
+  TokenHandler,
+} from "./model.service";
+import {
+  countTokens,
+  countMessageTokens,
+  MESSAGE_OVERHEAD_TOKENS,
+  TokenizerFamily,
+} from "../utils/token-counter";
+import { aiSettingsService } from "./ai-settings.service";
 import { MESSAGE_TYPE_PROMPT } from "../constants/prompts";
 import { IActivity } from "../models/activity.model";
-import { ActivityType } from "../models/activity.model";
-import {
-  IRoleplayState,
-  IGameState,
-  IBrainstormState,
-} from "../models/activity.model";
 import { modelEnum } from "../constants/models";
+import { tracingService } from "./tracing.service";
+import { conversationSummaryService } from "./conversation-summary.service";
+import { usageService, CHAT_PURPOSE } from "./usage.service";
+
+// Token count for span attributes when the provider doesn't report usage
+const estimateTokens = (text: string, parameters: AIParameters): number =>
+  countTokens(text, modelService.getModelInfo(parameters).tokenizer);
+
+// Reply tokens to leave room for when the parameters don't set max_tokens
+const DEFAULT_REPLY_TOKENS = 1000;
+
+// Text returned by generateAuxiliaryResponse when the model call fails
+const AUXILIARY_ERROR_TEXT = "[Error generating auxiliary response]";
+
+/**
+ * A chat prompt exactly as it is sent to the model, with a per-section
+ * token breakdown
+ */
+export interface PromptInspection {
+  model: string;
+  provider: LLMProvider;
+  contextWindow: number;
+  tokenizer: TokenizerFamily;
+  reservedForReply: number;
+  promptTokens: number;
+  sections: PromptSectionReport[];
+  messages: Array<{ role: string; content: string }>;
+}
 
 // Simple logger class
 class Logger {
@@ -54,9 +90,6 @@ class Logger {
 
 class AIService {
   private logger: Logger = new Logger();
-  private userSettings: Map<string, AIParameters> = new Map();
-
-  private historyTokenLimit: number = 1000;
 
   // --- Feature Flags ---
   private enableActionProcessing: boolean = true;
@@ -86,42 +119,101 @@ class AIService {
   }
 
   /**
-   * Get parameters for a specific user, merging with defaults.
-   */
-  getParameters(userId?: string): AIParameters {
-    const defaults = this.getDefaultParameters(userId);
-    if (userId && this.userSettings.has(userId)) {
-      return { ...defaults, ...this.userSettings.get(userId)! };
-    }
-    return defaults;
-  }
-
-  /**
-   * Set parameters for a specific user.
+   * Get chat reply parameters for a user: the defaults overlaid with the
+   * user's persisted settings and the profile selected for the session.
    */
-  setParameters(
-    userId: string,
-    parameters: Partial<AIParameters>
-  ): AIParameters {
-    const currentSettings = this.getParameters(userId);
-    const updatedSettings = { ...currentSettings, ...parameters };
-    this.userSettings.set(userId, updatedSettings);
-    this.logger.info(
-      `[AIService] Updated AI parameters for user ${userId}:`,
-      updatedSettings
+  async getParameters(
+    userId?: string,
+    sessionId?: string
+  ): Promise<AIParameters> {
+    return aiSettingsService.resolveParameters(
+      userId,
+      AIPurpose.CHAT,
+      this.getDefaultParameters(userId),
+      sessionId
     );
-    return updatedSettings;
   }
 
   /**
    * Generate a response using the conversation stream approach.
    * Delegates model retrieval to ModelService.
+   * When onToken is provided the response is streamed and each text delta is
+   * forwarded to it as it arrives; the full text is still returned at the end.
+   * Each call is recorded as an `llm.generate` client span, and metered
+   * against the user's plan when a userId is given.
    */
   async generateResponse(
     formattedMessages: Array<{ role: string; content: string }>,
     parameters: AIParameters,
     systemPrompt?: string,
-    userId?: string
+    userId?: string,
+    onToken?: TokenHandler,
+    usage: { purpose?: string; sessionId?: string } = {}
+  ): Promise<{
+    text: string;
+    provider: LLMProvider;
+  }> {
+    const provider =
+      parameters.provider ||
+      modelService.getProviderFromModel(parameters.model);
+    const modelInfo = modelService.getModelInfo(parameters);
+    const promptTokens = countMessageTokens(
+      this.buildChatMessages(provider, formattedMessages, systemPrompt),
+      modelInfo.tokenizer
+    );
+
+    return tracingService.traceAsync(
+      undefined,
+      "llm.generate",
+      async () => {
+        const startedAt = Date.now();
+        const result = await this._generateResponse(
+          formattedMessages,
+          parameters,
+          systemPrompt,
+          userId,
+          onToken
+        );
+        tracingService.setCurrentSpanTag(
+          "llm.latency_ms",
+          Date.now() - startedAt
+        );
+        const completionTokens = countTokens(result.text, modelInfo.tokenizer);
+        tracingService.setCurrentSpanTag(
+          "llm.completion_tokens",
+          completionTokens
+        );
+        if (userId) {
+          usageService.record({
+            userId,
+            provider: result.provider,
+            model: parameters.model,
+            purpose: usage.purpose || "generate",
+            promptTokens,
+            completionTokens,
+            sessionId: usage.sessionId,
+          });
+        }
+        return result;
+      },
+      {
+        "llm.provider": provider,
+        "llm.model": parameters.model,
+        "llm.prompt_tokens": promptTokens,
+        "llm.message_count": formattedMessages.length,
+        "llm.streaming": !!onToken,
+        "user.id": userId,
+      },
+      "client"
+    );
+  }
+
+  private async _generateResponse(
+    formattedMessages: Array<{ role: string; content: string }>,
+    parameters: AIParameters,
+    systemPrompt?: string,
+    userId?: string,
+    onToken?: TokenHandler
   ): Promise<{
     text: string;
     provider: LLMProvider;
@@ -137,6 +229,7 @@ class AIService {
       hasSystemPrompt: !!systemPrompt,
       provider: effectiveParams.provider,
       model: effectiveParams.model,
+      streaming: !!onToken,
     });
 
     try {
@@ -146,20 +239,17 @@ class AIService {
       ) {
         const chatModel = modelService.getChatModel(effectiveParams);
 
-        const messages: (SystemMessage | HumanMessage | AIMessage)[] = [];
-        if (systemPrompt) {
-          messages.push(new SystemMessage(systemPrompt));
-          messages.push(new SystemMessage(MESSAGE_TYPE_PROMPT));
-        }
-        for (const message of formattedMessages) {
-          if (message.role === "system" && systemPrompt) continue;
-          if (message.role === "user")
-            messages.push(new HumanMessage(message.content));
-          else if (message.role === "assistant")
-            messages.push(new AIMessage(message.content));
-          else if (message.role === "system")
-            messages.push(new SystemMessage(message.content));
-        }
+        const messages = this.buildChatMessages(
+          effectiveParams.provider,
+          formattedMessages,
+          systemPrompt
+        ).map((message) =>
+          message.role === "user"
+            ? new HumanMessage(message.content)
+            : message.role === "assistant"
+              ? new AIMessage(message.content)
+              : new SystemMessage(message.content)
+        );
 
         this.logger.debug(
           `[AIService] Sending ${messages.length} messages to ${effectiveParams.provider} model ${effectiveParams.model}:`,
@@ -176,8 +266,25 @@ class AIService {
           )
         );
 
-        const response = await chatModel.invoke(messages);
         let responseText = "";
+        if (onToken) {
+          responseText = await modelService.streamChatModel(
+            chatModel,
+            messages,
+            onToken
+          );
+          if (!responseText) {
+            throw new Error(
+              `Empty streamed response from ${effectiveParams.provider} model`
+            );
+          }
+          return {
+            text: responseText,
+            provider: effectiveParams.provider,
+          };
+        }
+
+        const response = await chatModel.invoke(messages);
         if (response) {
           responseText = String(response.content || response);
         } else {
@@ -206,20 +313,28 @@ class AIService {
         if (!openaiClient)
           throw new Error("OpenAI client not available despite being enabled.");
 
-        const openAiMessages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] =
-          [];
-        if (systemPrompt)
-          openAiMessages.push({ role: "system", content: systemPrompt });
-        formattedMessages.forEach((msg) => {
-          if (msg.role === "user" || msg.role === "assistant") {
-            openAiMessages.push({ role: msg.role, content: msg.content });
-          }
-        });
+        const openAiMessages = this.buildChatMessages(
+          LLMProvider.OPENAI,
+          formattedMessages,
+          systemPrompt
+        );
 
         this.logger.debug(
           `[AIService] Sending ${openAiMessages.length} messages to OpenAI model ${effectiveParams.model}`
         );
 
+        if (onToken) {
+          const streamedText = await modelService.streamOpenAIChat(
+            effectiveParams,
+            openAiMessages,
+            onToken
+          );
+          return {
+            text: streamedText,
+            provider: LLMProvider.OPENAI,
+          };
+        }
+
         const completion = await openaiClient.chat.completions.create({
           model: effectiveParams.model,
           messages: openAiMessages,
@@ -232,6 +347,12 @@ class AIService {
         });
 
         const responseText = completion.choices[0]?.message?.content || "";
+        if (completion.usage) {
+          tracingService.setCurrentSpanTag(
+            "llm.prompt_tokens",
+            completion.usage.prompt_tokens
+          );
+        }
         this.logger.debug(
           "[AIService] Received OpenAI response:",
           responseText.slice(0, 100) + "..."
@@ -255,9 +376,169 @@ class AIService {
     }
   }
 
+  /**
+   * The messages a chat call sends, in order. Ollama and Google also get the
+   * message format instructions; OpenAI only takes user and assistant turns
+   * after the system prompt.
+   */
+  private buildChatMessages(
+    provider: LLMProvider,
+    formattedMessages: Array<{ role: string; content: string }>,
+    systemPrompt?: string
+  ): Array<{ role: "system" | "user" | "assistant"; content: string }> {
+    const messages: Array<{
+      role: "system" | "user" | "assistant";
+      content: string;
+    }> = [];
+    if (systemPrompt) {
+      messages.push({ role: "system", content: systemPrompt });
+      if (provider !== LLMProvider.OPENAI) {
+        messages.push({ role: "system", content: MESSAGE_TYPE_PROMPT });
+      }
+    }
+    for (const message of formattedMessages) {
+      if (message.role === "user" || message.role === "assistant") {
+        messages.push({ role: message.role, content: message.content });
+      } else if (
+        message.role === "system" &&
+        !systemPrompt &&
+        provider !== LLMProvider.OPENAI
+      ) {
+        messages.push({ role: "system", content: message.content });
+      }
+    }
+    return messages;
+  }
+
+  /**
+   * Assemble the system prompt and history for a chat reply, sized to the
+   * model's context window minus the tokens reserved for the reply (and
+   * PROMPT_TOKEN_LIMIT, if set).
+   */
+  async preparePrompt(
+    userId: string,
+    sessionId: string,
+    messageText: string,
+    history: ChatMessage[],
+    activeActivity: IActivity | null | undefined,
+    parameters: AIParameters
+  ): Promise<{
+    systemPrompt: string;
+    history: Array<{ role: string; content: string }>;
+    inspection: PromptInspection;
+    provenance: IMessageProvenance;
+  }> {
+    const modelInfo = modelService.getModelInfo(parameters);
+    const count = (text: string) => countTokens(text, modelInfo.tokenizer);
+    const reservedForReply = parameters.max_tokens || DEFAULT_REPLY_TOKENS;
+    const promptLimit = Math.min(
+      modelInfo.contextWindow - reservedForReply,
+      Number(process.env.PROMPT_TOKEN_LIMIT) || Infinity
+    );
+    // The system prompt's own message overhead and the format instructions
+    const formatTokens =
+      MESSAGE_OVERHEAD_TOKENS +
+      (modelInfo.provider === LLMProvider.OPENAI
+        ? 0
+        : count(MESSAGE_TYPE_PROMPT) + MESSAGE_OVERHEAD_TOKENS);
+
+    // Ensure AI thinking is injected before building the prompt
+    if (companionThinkingService.isEnabled()) {
+      await companionThinkingService.injectLatestThinking(userId, sessionId);
+      this.logger.debug(
+        `Latest AI thinking injected for user ${userId}, session ${sessionId}`
+      );
+    }
+
+    // Build memory query using the provided messageText and recent history
+    let memoryQuery = messageText;
+    if (history.length > 1) {
+      const recentSnippet = history
+        .slice(-3)
+        .map((m) => `${m.role}: ${m.content}`)
+        .join("\n");
+      memoryQuery = `${messageText}\n\nRecent Context:\n${recentSnippet}`;
+    }
+
+    // Latest thinking record for this session, shown with the activity
+    let activityNotes = "";
+    if (activeActivity) {
+      try {
+        const thinkingInfo =
+          await companionThinkingService.getSessionCacheInfo(sessionId);
+        if (thinkingInfo && thinkingInfo.insight) {
+          activityNotes += `\n## Your current thinking about the user:\n`;
+          activityNotes += `Analysis: ${thinkingInfo.insight.analysis}\n`;
+          activityNotes += `Subconscious: ${thinkingInfo.insight.subconscious}\n`;
+          activityNotes += `Strategy: ${thinkingInfo.strategy}\n`;
+        }
+      } catch (err) {
+        this.logger.warn(
+          `Failed to add thinking record to activity prompt: ${err}`
+        );
+      }
+    }
+
+    let conversationSummaries: Array<{
+      _id?: string;
+      summary: string;
+      startAt: Date;
+      endAt: Date;
+    }> = [];
+    try {
+      conversationSummaries = await conversationSummaryService.getSummaries(
+        sessionId,
+        activeActivity?._id
+      );
+    } catch (err) {
+      this.logger.warn(`Failed to load conversation summaries: ${err}`);
+    }
+
+    const assembly = await contextService.buildSystemPromptForAI(userId, {
+      availableTokens: promptLimit - formatTokens,
+      countTokens: count,
+      queryForMemory: memoryQuery,
+      activeActivity,
+      history,
+      conversationSummaries,
+      activityNotes,
+    });
+
+    const messages = this.buildChatMessages(
+      modelInfo.provider,
+      assembly.history,
+      assembly.systemPrompt
+    );
+    const sections = [...assembly.sections];
+    if (modelInfo.provider !== LLMProvider.OPENAI) {
+      sections.push({
+        name: "message_format",
+        tokens: count(MESSAGE_TYPE_PROMPT),
+      });
+    }
+
+    return {
+      systemPrompt: assembly.systemPrompt,
+      history: assembly.history,
+      inspection: {
+        model: parameters.model,
+        provider: modelInfo.provider,
+        contextWindow: modelInfo.contextWindow,
+        tokenizer: modelInfo.tokenizer,
+        reservedForReply,
+        promptTokens: countMessageTokens(messages, modelInfo.tokenizer),
+        sections,
+        messages,
+      },
+      provenance: assembly.provenance,
+    };
+  }
+
   /**
    * Generate a response for auxiliary tasks like insight extraction or summarization.
    * Uses ModelService to get the appropriate model based on options.
+   * When a purpose is given, the user's override for it (if any) replaces the
+   * options chosen by the caller. Calls made for a user are metered.
    */
   public async generateAuxiliaryResponse(
     prompt: string,
@@ -266,6 +547,10 @@ class AIService {
       max_tokens?: number;
       model?: string; // e.g., "gemma3:4b", "gemini-pro"
       provider?: LLMProvider;
+      purpose?: AIPurpose;
+      sessionId?: string; // Lets a profile pinned to the session apply
+      usagePurpose?: string; // Metered purpose when there is no AIPurpose
+      responseSchema?: Record<string, unknown>; // See AIParameters
     } = {},
     systemPrompt?: string,
     userId?: string // Optional userId for context or logging
@@ -273,14 +558,80 @@ class AIService {
     text: string;
     // We might not accurately track token usage here unless the model returns it
   }> {
-    // Determine model and parameters
-    const modelName = options.model || modelEnum.gemma3o4b; // Default small model for auxiliary tasks
-    const auxParams: AIParameters = {
-      model: modelName,
+    let auxParams: AIParameters = {
+      model: options.model || modelEnum.gemma3o4b, // Default small model for auxiliary tasks
       temperature: options.temperature ?? 0.5,
       max_tokens: options.max_tokens ?? 150,
       provider: options.provider, // Pass provider hint if available
     };
+    if (options.purpose) {
+      auxParams = await aiSettingsService.resolveParameters(
+        userId,
+        options.purpose,
+        auxParams,
+        options.sessionId
+      );
+    }
+    if (options.responseSchema) {
+      auxParams.responseSchema = options.responseSchema;
+    }
+
+    const provider =
+      auxParams.provider || modelService.getProviderFromModel(auxParams.model);
+    const promptTokens = estimateTokens(
+      (systemPrompt || "") + prompt,
+      auxParams
+    );
+
+    return tracingService.traceAsync(
+      undefined,
+      "llm.generate_auxiliary",
+      async () => {
+        const startedAt = Date.now();
+        const result = await this._generateAuxiliaryResponse(
+          prompt,
+          auxParams,
+          systemPrompt
+        );
+        tracingService.setCurrentSpanTag(
+          "llm.latency_ms",
+          Date.now() - startedAt
+        );
+        const completionTokens = estimateTokens(result.text, auxParams);
+        tracingService.setCurrentSpanTag(
+          "llm.completion_tokens",
+          completionTokens
+        );
+        if (userId && result.text !== AUXILIARY_ERROR_TEXT) {
+          usageService.record({
+            userId,
+            provider,
+            model: auxParams.model,
+            purpose: options.purpose || options.usagePurpose || "auxiliary",
+            promptTokens,
+            completionTokens,
+            sessionId: options.sessionId,
+          });
+        }
+        return result;
+      },
+      {
+        "llm.provider": provider,
+        "llm.model": auxParams.model,
+        "llm.purpose": options.purpose,
+        "llm.prompt_tokens": promptTokens,
+        "user.id": userId,
+      },
+      "client"
+    );
+  }
+
+  private async _generateAuxiliaryResponse(
+    prompt: string,
+    auxParams: AIParameters,
+    systemPrompt?: string
+  ): Promise<{ text: string }> {
+    const modelName = auxParams.model;
 
     this.logger.info(
       `[AIService] Generating auxiliary response with model ${modelName}`
@@ -306,6 +657,16 @@ class AIService {
           messages: openAiMessages,
           temperature: auxParams.temperature,
           max_tokens: auxParams.max_tokens,
+          response_format: auxParams.responseSchema
+            ? {
+                type: "json_schema",
+                json_schema: {
+                  name: "response",
+                  schema: auxParams.responseSchema,
+                  strict: true,
+                },
+              }
+            : undefined,
         });
         responseText = completion.choices[0]?.message?.content || "";
       } else if (
@@ -338,7 +699,8 @@ class AIService {
         `[AIService] Error generating auxiliary response with ${modelName}:`,
         error
       );
-      return { text: "[Error generating auxiliary response]" }; // Return error indicator
+      tracingService.setCurrentSpanTag("error", true);
+      return { text: AUXILIARY_ERROR_TEXT }; // Return error indicator
     }
   }
 
@@ -366,6 +728,9 @@ class AIService {
       this.logger.debug("Insight extraction disabled, skipping.");
       return;
     }
+    if (!(await usageService.allowsBackground(userId))) {
+      return;
+    }
     this.logger.debug(`Extracting insights for user ${userId}...`);
 
     // 1. Construct the prompt for insight extraction
@@ -382,7 +747,7 @@ Insights:`;
       // 2. Call the auxiliary generation function with default insight parameters
       const insightApiResponse = await this.generateAuxiliaryResponse(
         insightPrompt,
-        this.defaultInsightParams, // Use the defined defaults
+        { ...this.defaultInsightParams, usagePurpose: "insight_extraction" }, // Use the defined defaults
         "You are an expert AI assistant specialized in identifying key user facts and preferences from text. Respond ONLY with the extracted insights or 'No insights found.'.", // Specific system prompt
         userId
       );
@@ -390,10 +755,7 @@ Insights:`;
       const rawInsightsText = insightApiResponse.text;
 
       // 3. Parse and filter insights
-      if (
-        !rawInsightsText ||
-        rawInsightsText === "[Error generating auxiliary response]"
-      ) {
+      if (!rawInsightsText || rawInsightsText === AUXILIARY_ERROR_TEXT) {
         this.logger.warn(
           `Insight generation failed or returned error for user ${userId}.`
         );
@@ -452,17 +814,22 @@ Insights:`;
    * generate an AI response, handle persistence FOR THE ASSISTANT MESSAGE,
    * and manage memory addition FOR THE ASSISTANT MESSAGE.
    * Assumes the user message is already handled (added/saved) by the caller.
+   * Pass streamOptions to stream the reply: deltas go to onToken and the final
+   * message reuses assistantMessageId so the client can match them up.
    */
   async processUserMessage(
     userId: string,
     sessionId: string,
     messageText: string, // Keep receiving the raw text for context/memory
     clientMessageId?: string, // ID of the already added user message
-    activeActivity?: IActivity | null // Pass the active activity
+    activeActivity?: IActivity | null, // Pass the active activity
+    streamOptions?: { assistantMessageId?: string; onToken?: TokenHandler }
   ): Promise<{
     // Removed userMessage from return type
     assistantMessage: ChatMessageModel;
     actionResults?: any;
+    /** What the prompt for the reply contained, unless generation failed */
+    provenance?: IMessageProvenance;
   }> {
     this.logger.info(
       `AI Processing for session ${sessionId}, user ${userId}. User msg ID: ${clientMessageId}`
@@ -489,90 +856,29 @@ Insights:`;
     let assistantMessageStatus = MessageStatus.PROCESSING;
     let actionResults: Record<string, any> = {};
     let aiError: Error | null = null;
+    let provenance: IMessageProvenance | undefined;
 
-    const parameters = this.getParameters(userId);
+    const parameters = await this.getParameters(userId, sessionId);
 
     try {
       const startTime = Date.now();
 
-      // Fetch history directly from the session manager (which should include the user message added by caller)
-      const fullHistoryForPrompt = session.chatHistory;
-
-      // Instead of processing thinking synchronously, we'll inject the latest thinking
-      // (if available) and just get the basic context for now
-
-      // Ensure AI thinking is injected before building the prompt
-      if (companionThinkingService.isEnabled()) {
-        // No need to await this, just get existing thinking if available
-        await companionThinkingService.injectLatestThinking(userId, sessionId);
-        this.logger.debug(
-          `Latest AI thinking injected for user ${userId}, session ${sessionId}`
-        );
-      }
-
-      // Build memory query using the provided messageText and recent history
-      let memoryQuery = messageText;
-      if (fullHistoryForPrompt.length > 1) {
-        const recentSnippet = fullHistoryForPrompt
-          .slice(-3)
-          .map((m) => `${m.role}: ${m.content}`)
-          .join("\n");
-        memoryQuery = `${messageText}\n\nRecent Context:\n${recentSnippet}`;
-      }
-
-      let systemPrompt = await contextService.buildSystemPromptForAI(
+      // History comes from the session manager, which already holds the user message added by the caller
+      const {
+        systemPrompt,
+        history: formattedHistory,
+        inspection,
+        provenance: promptProvenance,
+      } = await this.preparePrompt(
         userId,
-        undefined,
-        memoryQuery,
-        activeActivity
+        sessionId,
+        messageText,
+        session.chatHistory,
+        activeActivity,
+        parameters
       );
-
-      // Enhance system prompt if an activity is active
-      if (activeActivity) {
-        systemPrompt += `\n\n## Current Activity: ${activeActivity.name} (${activeActivity.type})\n`;
-        if (activeActivity.goal) {
-          systemPrompt += `Activity Goal: ${activeActivity.goal}\n`;
-        }
-        // Include relevant state details based on type
-        if (activeActivity.type === ActivityType.ROLEPLAY) {
-          const rpState = activeActivity.state.data as IRoleplayState;
-          systemPrompt +=
-            await contextService._formatRoleplayStateForPrompt(rpState);
-          // Add more details like characters, setting, plot if needed
-        } else if (activeActivity.type === ActivityType.GAME) {
-          const gameState = activeActivity.state.data as IGameState;
-          systemPrompt += `Game State (${gameState.gameType}): Current Player: ${gameState.currentPlayer}. Winner: ${gameState.winner || "None"}. Board/Score/etc. (details in context).\n`;
-        } else if (activeActivity.type === ActivityType.BRAINSTORM) {
-          const bsState = activeActivity.state.data as IBrainstormState;
-          systemPrompt += `Brainstorm State: Topic: ${bsState.topic}. Phase: ${bsState.phase}. Ideas generated: ${bsState.ideas?.length || 0}.\n`;
-        }
-        systemPrompt += `Focus your response on continuing the activity unless the user clearly indicates otherwise.\n`;
-
-        // Try to get latest thinking record for this session to include in activity prompt
-        try {
-          const thinkingInfo =
-            await companionThinkingService.getSessionCacheInfo(sessionId);
-          if (thinkingInfo && thinkingInfo.insight) {
-            systemPrompt += `\n## Your current thinking about the user:\n`;
-            systemPrompt += `Analysis: ${thinkingInfo.insight.analysis}\n`;
-            systemPrompt += `Subconscious: ${thinkingInfo.insight.subconscious}\n`;
-            systemPrompt += `Strategy: ${thinkingInfo.strategy}\n`;
-
-            this.logger.debug(
-              `Added thinking record info to activity prompt for session ${sessionId}`
-            );
-          }
-        } catch (err) {
-          this.logger.warn(
-            `Failed to add thinking record to activity prompt: ${err}`
-          );
-        }
-      }
-
-      // Format history for the model
-      const formattedHistory = contextService.formatMessageHistory(
-        fullHistoryForPrompt, // Use the history from chatSessionManager
-        this.historyTokenLimit
+      this.logger.info(
+        `Prompt for session ${sessionId} uses ${inspection.promptTokens} of ${inspection.contextWindow} tokens (${inspection.reservedForReply} reserved for the reply)`
       );
 
       // Generate the AI response
@@ -580,7 +886,9 @@ Insights:`;
         formattedHistory,
         parameters,
         systemPrompt,
-        userId
+        userId,
+        streamOptions?.onToken,
+        { purpose: CHAT_PURPOSE, sessionId }
       );
       const endTime = Date.now();
       this.logger.info(
@@ -590,6 +898,7 @@ Insights:`;
       aiResponseContent = aiResult.text;
       responseProvider = aiResult.provider;
       assistantMessageStatus = MessageStatus.COMPLETED;
+      provenance = promptProvenance;
 
       // Process suggested actions if needed
       if (this.enableActionProcessing) {
@@ -619,7 +928,7 @@ Insights:`;
         ? aiResponseContent
         : "Sorry, I couldn't generate a valid response.";
     const assistantMessage = new ChatMessageModel({
-      id: uuidv4(), // Generate new ID for assistant message
+      id: streamOptions?.assistantMessageId || uuidv4(), // Reuse the streamed ID if any
       sessionId,
       role: MessageRole.ASSISTANT,
       content: finalAssistantContent,
@@ -729,6 +1038,7 @@ Insights:`;
       assistantMessage,
       actionResults:
         Object.keys(actionResults).length > 0 ? actionResults : undefined,
+      provenance,
     };
   }
 
@@ -0,0 +1,425 @@
+import { createHash, randomBytes, randomUUID } from "crypto";
+import jwt from "jsonwebtoken";
+import { isValidObjectId } from "mongoose";
+import { AuthSession, IAuthSession } from "../models/auth-session.model";
+import { RedeemedStreamTicket } from "../models/stream-ticket.model";
+import { loggerFactory } from "../utils/logger.service";
+
+const logger = loggerFactory.getLogger("AuthSessionService");
+
+const DEFAULT_ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+const DEFAULT_REFRESH_TOKEN_TTL_DAYS = 30;
+const STREAM_TICKET_TTL_SECONDS = 60;
+// Two tabs refreshing with the same token at once is a race, not theft
+const REUSE_GRACE_MS = 30 * 1000;
+
+export interface TokenPair {
+  token: string; // Short-lived access token
+  refreshToken: string;
+  expiresIn: number; // Seconds until the access token expires
+}
+
+export interface DeviceInfo {
+  userAgent?: string;
+  ip?: string;
+}
+
+/**
+ * Claims of an access token. `sid` is the signed-in device it belongs to.
+ */
+export interface AccessTokenClaims {
+  id: string;
+  email?: string;
+  username?: string;
+  sid: string;
+}
+
+interface StreamTicketClaims {
+  id: string;
+  sid: string;
+  chat: string; // Chat session the ticket opens
+  typ: "stream";
+  jti: string;
+  exp: number;
+}
+
+// `<session id>.<32 random bytes, base64url>`, as made by newRefreshToken
+const REFRESH_TOKEN_PATTERN = /^([0-9a-f]{24})\.[A-Za-z0-9_-]{43}$/;
+
+/**
+ * A readable name for the device behind a user agent, e.g. "Firefox on
+ * Windows"
+ */
+export function describeDevice(userAgent?: string): string {
+  if (!userAgent) {
+    return "Unknown device";
+  }
+
+  const browser = [
+    [/Edg\//, "Edge"],
+    [/OPR\//, "Opera"],
+    [/Firefox\//, "Firefox"],
+    [/Chrome\//, "Chrome"],
+    [/Safari\//, "Safari"],
+    [/curl\//, "curl"],
+  ].find(([pattern]) => (pattern as RegExp).test(userAgent))?.[1] as
+    | string
+    | undefined;
+  const os = [
+    [/iPhone|iPad/, "iOS"],
+    [/Android/, "Android"],
+    [/Windows/, "Windows"],
+    [/Mac OS X|Macintosh/, "macOS"],
+    [/CrOS/, "ChromeOS"],
+    [/Linux/, "Linux"],
+  ].find(([pattern]) => (pattern as RegExp).test(userAgent))?.[1] as
+    | string
+    | undefined;
+
+  if (browser && os) {
+    return `${browser} on ${os}`;
+  }
+  return browser || os || "Unknown device";
+}
+
+export function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * The session id in a refresh token, or null if the token is malformed
+ */
+export function parseRefreshToken(refreshToken: string): string | null {
+  const match = refreshToken.match(REFRESH_TOKEN_PATTERN);
+  return match && isValidObjectId(match[1]) ? match[1] : null;
+}
+
+/**
+ * Short-lived access tokens, rotating refresh tokens (one per signed-in
+ * device) and one-time tickets for opening event streams
+ */
+class AuthSessionService {
+  private get secret(): string {
+    const secret = process.env.JWT_SECRET;
+    if (!secret) {
+      throw new Error("JWT_SECRET is not defined in environment variables.");
+    }
+    return secret;
+  }
+
+  private get accessTokenTtl(): number {
+    return (
+      Number(process.env.ACCESS_TOKEN_TTL_SECONDS) ||
+      DEFAULT_ACCESS_TOKEN_TTL_SECONDS
+    );
+  }
+
+  private get refreshTokenTtlMs(): number {
+    return (
+      (Number(process.env.REFRESH_TOKEN_TTL_DAYS) ||
+        DEFAULT_REFRESH_TOKEN_TTL_DAYS) *
+      24 *
+      60 *
+      60 *
+      1000
+    );
+  }
+
+  /**
+   * Sign a user in on a new device
+   */
+  async createSession(
+    user: { _id: any; email?: string; username?: string },
+    device: DeviceInfo
+  ): Promise<TokenPair> {
+    const session = new AuthSession({
+      userId: String(user._id),
+      tokenHash: "",
+      userAgent: device.userAgent,
+      deviceName: describeDevice(device.userAgent),
+      ip: device.ip,
+      expiresAt: new Date(Date.now() + this.refreshTokenTtlMs),
+    });
+    const refreshToken = this.newRefreshToken(session._id);
+    session.tokenHash = hashToken(refreshToken);
+    await session.save();
+
+    logger.info(
+      `User ${session.userId} signed in on ${session.deviceName} (session ${session._id})`
+    );
+    return {
+      token: this.signAccessToken(user, session._id),
+      refreshToken,
+      expiresIn: this.accessTokenTtl,
+    };
+  }
+
+  /**
+   * Exchange a refresh token for a new token pair. The refresh token is
+   * single-use: presenting a replaced one again signs the device out.
+   */
+  async refresh(
+    refreshToken: string,
+    device: DeviceInfo,
+    loadUser: (
+      userId: string
+    ) => Promise<{ _id: any; email?: string; username?: string } | null>
+  ): Promise<TokenPair | null> {
+    const sessionId = parseRefreshToken(refreshToken);
+    if (!sessionId) {
+      return null;
+    }
+    const tokenHash = hashToken(refreshToken);
+    const nextToken = this.newRefreshToken(sessionId);
+    const now = new Date();
+
+    const session = await AuthSession.findOneAndUpdate(
+      {
+        _id: sessionId,
+        tokenHash,
+        revokedAt: { $exists: false },
+        expiresAt: { $gt: now },
+      },
+      {
+        $set: {
+          tokenHash: hashToken(nextToken),
+          previousTokenHash: tokenHash,
+          lastUsedAt: now,
+          expiresAt: new Date(now.getTime() + this.refreshTokenTtlMs),
+          ...(device.ip && { ip: device.ip }),
+          ...(device.userAgent && {
+            userAgent: device.userAgent,
+            deviceName: describeDevice(device.userAgent),
+          }),
+        },
+      },
+      { new: true }
+    ).exec();
+
+    if (!session) {
+      await this.checkReuse(sessionId, tokenHash);
+      return null;
+    }
+
+    const user = await loadUser(session.userId);
+    if (!user) {
+      await this.revoke(session._id, "revoked");
+      return null;
+    }
+
+    return {
+      token: this.signAccessToken(user, session._id),
+      refreshToken: nextToken,
+      expiresIn: this.accessTokenTtl,
+    };
+  }
+
+  /**
+   * Verify an access token and that its device is still signed in. Throws
+   * the jsonwebtoken errors for bad or expired tokens.
+   */
+  async verifyAccessToken(token: string): Promise<AccessTokenClaims> {
+    const claims = jwt.verify(token, this.secret) as AccessTokenClaims & {
+      typ?: string;
+    };
+    if (!claims.sid || claims.typ) {
+      throw new jwt.JsonWebTokenError("not an access token");
+    }
+    if (!(await this.isActive(claims.sid))) {
+      throw new jwt.JsonWebTokenError("session has been signed out");
+    }
+    return claims;
+  }
+
+  /**
+   * Sign out the device holding this refresh token
+   */
+  async revokeByRefreshToken(refreshToken: string): Promise<boolean> {
+    const sessionId = parseRefreshToken(refreshToken);
+    if (!sessionId) {
+      return false;
+    }
+    const session = await AuthSession.findOne({
+      _id: sessionId,
+      tokenHash: hashToken(refreshToken),
+    })
+      .select("_id")
+      .lean()
+      .exec();
+    if (!session) {
+      return false;
+    }
+    return this.revoke(session._id, "logout");
+  }
+
+  /**
+   * Sign out one device. Returns false if it was already signed out.
+   */
+  async revoke(
+    sessionId: string,
+    reason: string,
+    userId?: string
+  ): Promise<boolean> {
+    const result = await AuthSession.updateOne(
+      {
+        _id: sessionId,
+        revokedAt: { $exists: false },
+        ...(userId && { userId }),
+      },
+      { $set: { revokedAt: new Date(), revokedReason: reason } }
+    ).exec();
+    return result.modifiedCount > 0;
+  }
+
+  /**
+   * Sign out every device of the user, optionally keeping one
+   */
+  async revokeAll(
+    userId: string,
+    reason: string,
+    exceptSessionId?: string
+  ): Promise<number> {
+    const result = await AuthSession.updateMany(
+      {
+        userId,
+        revokedAt: { $exists: false },
+        ...(exceptSessionId && { _id: { $ne: exceptSessionId } }),
+      },
+      { $set: { revokedAt: new Date(), revokedReason: reason } }
+    ).exec();
+    logger.info(
+      `Signed out ${result.modifiedCount} devices of user ${userId} (${reason})`
+    );
+    return result.modifiedCount;
+  }
+
+  /**
+   * The user's signed-in devices, most recently used first
+   */
+  async listActive(userId: string): Promise<IAuthSession[]> {
+    return AuthSession.find({
+      userId,
+      revokedAt: { $exists: false },
+      expiresAt: { $gt: new Date() },
+    })
+      .select("-tokenHash -previousTokenHash")
+      .sort({ lastUsedAt: -1 })
+      .lean<IAuthSession[]>()
+      .exec();
+  }
+
+  /**
+   * A one-time ticket that opens the event stream of one chat session for
+   * the next minute, so long-lived tokens never go in a URL
+   */
+  issueStreamTicket(
+    claims: { id: string; sid: string },
+    chatSessionId: string
+  ): { ticket: string; expiresIn: number } {
+    const ticket = jwt.sign(
+      {
+        id: claims.id,
+        sid: claims.sid,
+        chat: chatSessionId,
+        typ: "stream",
+        jti: randomUUID(),
+      },
+      this.secret,
+      { expiresIn: STREAM_TICKET_TTL_SECONDS }
+    );
+    return { ticket, expiresIn: STREAM_TICKET_TTL_SECONDS };
+  }
+
+  /**
+   * Check a stream ticket for a chat session and use it up. Returns the
+   * user it was issued to, or null if it's invalid, expired, for another
+   * session or already used.
+   */
+  async redeemStreamTicket(
+    ticket: string,
+    chatSessionId: string
+  ): Promise<string | null> {
+    let claims: StreamTicketClaims;
+    try {
+      claims = jwt.verify(ticket, this.secret) as StreamTicketClaims;
+    } catch (error) {
+      logger.warn(`Rejected stream ticket: ${(error as Error).message}`);
+      return null;
+    }
+    if (claims.typ !== "stream" || claims.chat !== chatSessionId) {
+      return null;
+    }
+
+    // The ticket's id can only be inserted once, whichever instance sees it
+    try {
+      await RedeemedStreamTicket.create({
+        _id: claims.jti,
+        userId: claims.id,
+        expiresAt: new Date(claims.exp * 1000),
+      });
+    } catch (error) {
+      if ((error as { code?: number }).code === 11000) {
+        logger.warn(`Stream ticket ${claims.jti} was used twice`);
+        return null;
+      }
+      throw error;
+    }
+
+    return (await this.isActive(claims.sid)) ? claims.id : null;
+  }
+
+  private signAccessToken(
+    user: { _id: any; email?: string; username?: string },
+    sessionId: string
+  ): string {
+    return jwt.sign(
+      {
+        id: String(user._id),
+        email: user.email,
+        username: user.username,
+        sid: sessionId,
+      },
+      this.secret,
+      { expiresIn: this.accessTokenTtl }
+    );
+  }
+
+  private newRefreshToken(sessionId: string): string {
+    return `${sessionId}.${randomBytes(32).toString("base64url")}`;
+  }
+
+  private async isActive(sessionId: string): Promise<boolean> {
+    const session = await AuthSession.findById(sessionId)
+      .select("revokedAt expiresAt")
+      .lean()
+      .exec();
+    return Boolean(
+      session && !session.revokedAt && session.expiresAt > new Date()
+    );
+  }
+
+  /**
+   * A refresh token that was already replaced means two parties hold the
+   * device's tokens; sign it out so neither can continue
+   */
+  private async checkReuse(sessionId: string, tokenHash: string) {
+    const session = await AuthSession.findOne({
+      _id: sessionId,
+      previousTokenHash: tokenHash,
+      revokedAt: { $exists: false },
+    }).exec();
+    if (!session) {
+      return;
+    }
+    if (Date.now() - session.lastUsedAt.getTime() < REUSE_GRACE_MS) {
+      return;
+    }
+
+    logger.warn(
+      `Refresh token reuse on session ${sessionId} of user ${session.userId}; signing the device out`
+    );
+    await this.revoke(sessionId, "reuse");
+  }
+}
+
+export const authSessionService = new AuthSessionService();
@@ -7,6 +7,7 @@ import {
 } from "../models/companion-state.model";
 import { MemoryService, MemoryType, MemoryCategory } from "./memory.service";
 import { v4 as uuidv4 } from "uuid";
+import { domainEventsService, DomainEventType } from "./domain-events.service";
 
 // Define valid thought categories based on the model
 export type ThoughtCategory =
@@ -127,6 +128,13 @@ class CompanionStateService {
     state.lastInteractionAt = new Date();
     await state.save();
 
+    domainEventsService.emit(DomainEventType.EMOTION_CHANGED, {
+      userId,
+      emotion,
+      intensity,
+      reason,
+      since: state.currentEmotion.since,
+    });
     return state;
   }
 
@@ -187,6 +195,14 @@ class CompanionStateService {
     }
 
     await state.save();
+    domainEventsService.emit(DomainEventType.THOUGHT_ADDED, {
+      userId,
+      thought,
+      category,
+      priority,
+      timestamp: newThought.timestamp,
+      metadata,
+    });
     return state;
   }
 
@@ -302,6 +318,11 @@ class CompanionStateService {
     state.lastInteractionAt = new Date();
 
     await state.save();
+    domainEventsService.emit(DomainEventType.GOAL_UPDATED, {
+      userId,
+      goalType: "companion",
+      goals: state.currentGoals,
+    });
     return state;
   }
 
@@ -326,6 +347,11 @@ class CompanionStateService {
     state.lastInteractionAt = new Date();
 
     await state.save();
+    domainEventsService.emit(DomainEventType.GOAL_UPDATED, {
+      userId,
+      goalType: "user",
+      goals: state.userDefinedGoals,
+    });
     return state;
   }
 
@@ -453,6 +479,11 @@ class CompanionStateService {
     state.metadata.aiInternalGoals = goals;
     state.markModified("metadata"); // Important for Mixed types
     await state.save();
+    domainEventsService.emit(DomainEventType.GOAL_UPDATED, {
+      userId,
+      goalType: "ai",
+      goals,
+    });
     return state;
   }
 
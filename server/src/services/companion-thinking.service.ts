@@ -22,8 +22,11 @@ import path from "path";
 // import { SseResponseHelper } from "../utils/sse-response-helper";
 // import { getUserThinking } from "./productivity/thinking.service";
 import { messageProducerService } from "./kafka/message-producer.service";
-import { sseConnections } from "../controllers/chat.controller";
+import { realtimeService } from "./realtime/realtime.service";
 import { modelEnum } from "../constants/models";
+import { AIPurpose } from "./model.service";
+import { domainEventsService, DomainEventType } from "./domain-events.service";
+import { usageService } from "./usage.service";
 
 // Thought categories - imported from companion-state.service
 export type ThoughtCategory =
@@ -138,6 +141,28 @@ class CompanionThinkingService {
     }
   }
 
+  /**
+   * Drop everything cached for a user, e.g. when their account is deleted
+   */
+  clearUserCache(userId: string): number {
+    let removedCount = 0;
+
+    for (const [sessionId, entries] of this.cache.entries()) {
+      if (entries.some((entry) => entry.userId === userId)) {
+        this.cache.delete(sessionId);
+        removedCount++;
+      }
+    }
+    for (const [sessionId, cacheEntry] of this.sessionAnalysisCache.entries()) {
+      if (cacheEntry.userId === userId) {
+        this.sessionAnalysisCache.delete(sessionId);
+        removedCount++;
+      }
+    }
+
+    return removedCount;
+  }
+
   /**
    * Store a thinking record in the database
    */
@@ -204,6 +229,16 @@ class CompanionThinkingService {
       this.logger.debug(`Saving thinking record to database...`);
       await thinkingRecord.save();
 
+      domainEventsService.emit(DomainEventType.THINKING_RECORDED, {
+        userId,
+        sessionId,
+        recordId: String(thinkingRecord._id),
+        topics: insight.topics,
+        sentiment: insight.sentiment,
+        strategy,
+        timestamp: thinkingRecord.timestamp,
+      });
+
       const elapsedTime = Date.now() - startTime;
       this.logger.info(
         `Successfully stored thinking record in database for user ${userId}, session ${sessionId} in ${elapsedTime}ms, record ID: ${thinkingRecord._id}`
@@ -439,6 +474,11 @@ class CompanionThinkingService {
         return false;
       }
 
+      // Thinking is optional, so it is the first thing dropped near a limit
+      if (!(await usageService.allowsBackground(userId))) {
+        return false;
+      }
+
       // Set processing flag in cache
       this._markSessionAsProcessing(sessionId, userId);
 
@@ -499,20 +539,13 @@ class CompanionThinkingService {
       this._cacheAnalysisResult(sessionId, userInput, messageId, thoughts);
 
       // 5. Notify clients of state changes via SSE if needed
-      if (
-        this.notifyClients &&
-        sseConnections[sessionId] &&
-        recordedAtLeastOne
-      ) {
+      if (this.notifyClients && recordedAtLeastOne) {
         try {
-          sseConnections[sessionId].send(
-            {
-              type: "companionThinking",
-              thoughtsAdded: thoughts.length,
-              messageId,
-            },
-            "stateUpdate"
-          );
+          realtimeService.publishToSession(sessionId, "stateUpdate", {
+            type: "companionThinking",
+            thoughtsAdded: thoughts.length,
+            messageId,
+          });
         } catch (sseErr) {
           this.logger.error(`Error sending SSE update: ${sseErr}`);
         }
@@ -1149,7 +1182,12 @@ class CompanionThinkingService {
 
       const response = await aiService.generateAuxiliaryResponse(
         prompt,
-        { model: modelEnum.gemma3o4b, max_tokens: 400, temperature: 0.6 },
+        {
+          model: modelEnum.gemma3o4b,
+          max_tokens: 400,
+          temperature: 0.6,
+          purpose: AIPurpose.THINKING,
+        },
         "You are a psychological analyst with expertise in understanding human needs and motivations.",
         userId
       );
@@ -1407,7 +1445,12 @@ class CompanionThinkingService {
 
       const response = await aiService.generateAuxiliaryResponse(
         prompt,
-        { model: modelEnum.gemma3o4b, max_tokens: 400, temperature: 0.4 },
+        {
+          model: modelEnum.gemma3o4b,
+          max_tokens: 400,
+          temperature: 0.4,
+          purpose: AIPurpose.THINKING,
+        },
         "You are an AI assistant responsible for managing your own goals to better serve users.",
         userId
       );
@@ -1621,7 +1664,12 @@ class CompanionThinkingService {
 
       const response = await aiService.generateAuxiliaryResponse(
         prompt,
-        { model: modelEnum.gemma3o4b, max_tokens: 150, temperature: 0.4 },
+        {
+          model: modelEnum.gemma3o4b,
+          max_tokens: 150,
+          temperature: 0.4,
+          purpose: AIPurpose.THINKING,
+        },
         "You are developing a strategy for an AI assistant's response approach.",
         userId
       );
@@ -1663,6 +1711,7 @@ class CompanionThinkingService {
     recentMessages: Array<{ role: string; content: string }> = []
   ): Promise<boolean> {
     if (!this.enabled) return false;
+    if (!(await usageService.allowsBackground(userId))) return false;
 
     try {
       this.logger.info(
@@ -1988,6 +2037,7 @@ class CompanionThinkingService {
           temperature: 0.7,
           max_tokens: 150,
           model: modelEnum.gemma3o4b, // Use a small, efficient model for thoughts
+          purpose: AIPurpose.THINKING,
         },
         "You are an AI analyzing conversations to extract internal thought processes. Provide brief, insightful thoughts.",
         userId
@@ -31,11 +31,8 @@ import {
   RELEVANT_MEMORIES_PROMPT_SUFFIX,
 } from "../constants/prompts";
 import { companionStateService } from "./companion-state.service";
-import {
-  ChatMessage,
-  MessageRole,
-  ChatMessageModel,
-} from "../models/chat.model";
+import { ChatMessage, ChatMessageModel } from "../models/chat.model";
+import { IMessageProvenance } from "../models/message.model";
 import { userStateService } from "./user-state.service";
 import { ICompanionState, IGoal } from "../models/companion-state.model";
 import { IUserInterest, IUserGoal } from "../models/user-state.model";
@@ -47,9 +44,14 @@ import {
   IBrainstormState,
 } from "../models/activity.model";
 import { aiService } from "./ai.service";
+import { getGameEngine } from "./games/engines";
 import { loggerFactory } from "../utils/logger.service";
 import { modelEnum } from "../constants/models";
 import { summaryService } from "./summary.service";
+import { mongoVectorDbService } from "./mongo-vector-db.service";
+import { DOCUMENT_VECTOR_TYPE } from "./media/media.service";
+import { allocateBudget, fitItems } from "../utils/prompt-budget";
+import { MESSAGE_OVERHEAD_TOKENS } from "../utils/token-counter";
 
 interface WeatherData {
   temperature: number;
@@ -59,6 +61,88 @@ interface WeatherData {
   windSpeed?: number;
 }
 
+/**
+ * Share of the leftover context window each shrinkable prompt section gets
+ * when they don't all fit
+ */
+const SECTION_WEIGHTS: Record<string, number> = {
+  history: 4,
+  conversation_summary: 2,
+  memories: 2,
+  activity: 2,
+  summary: 1,
+  documents: 1,
+};
+
+/**
+ * A part of the system prompt. Sections with `items` shrink to fit by
+ * dropping items from the end; the others always go in as `text`.
+ */
+interface PromptSection {
+  name: string;
+  text?: string;
+  header?: string;
+  items?: string[];
+  footer?: string;
+  separator?: string;
+  /** Keep the header and footer even when no item fits */
+  pinned?: boolean;
+  /** Which end of the items survives trimming (default "head") */
+  keep?: "head" | "tail";
+  /** Where the section came from; recorded if any of it goes in */
+  sources?: PromptSource[];
+  /** Where each item came from, parallel to `items` */
+  itemSources?: PromptSource[];
+}
+
+/** Where a piece of the prompt came from, for message provenance */
+type PromptSource =
+  | { kind: "memory"; memoryId: string; text: string; score?: number }
+  | { kind: "context"; type: string; id?: string; label: string };
+
+const CONVERSATION_SUMMARY_SECTION = "conversation_summary";
+
+export interface PromptBuildOptions {
+  /** Tokens the system prompt and history may take together */
+  availableTokens: number;
+  countTokens: (text: string) => number;
+  baseSystemPrompt?: string;
+  queryForMemory?: string;
+  activeActivity?: IActivity | null;
+  /** Conversation so far, ending with the message being answered */
+  history?: ChatMessage[];
+  /** Rolling summaries of the session, oldest first */
+  conversationSummaries?: Array<{
+    _id?: string;
+    summary: string;
+    startAt: Date;
+    endAt: Date;
+  }>;
+  /** Extra notes appended to the activity section */
+  activityNotes?: string;
+}
+
+/**
+ * Token use of one prompt section. Budget and item counts are only reported
+ * for sections that shrink to fit.
+ */
+export interface PromptSectionReport {
+  name: string;
+  tokens: number;
+  budget?: number;
+  demand?: number;
+  itemsIncluded?: number;
+  itemsDropped?: number;
+}
+
+export interface PromptAssembly {
+  systemPrompt: string;
+  history: Array<{ role: string; content: string }>;
+  sections: PromptSectionReport[];
+  /** What made it into the prompt after trimming */
+  provenance: IMessageProvenance;
+}
+
 /**
  * Service for managing dynamic context
  */
@@ -1360,33 +1444,48 @@ ${latestThinking.aiGoals
 
   /**
    * Generate an enhanced system prompt incorporating context, memory, state, etc.
+   * Together with the recent history it is sized to `availableTokens`: fixed
+   * sections go in as they are, and what remains is split across the
+   * sections that can shrink (see SECTION_WEIGHTS).
    */
   async buildSystemPromptForAI(
     userId: string,
-    baseSystemPrompt?: string,
-    queryForMemory?: string,
-    activeActivity?: IActivity | null
-  ): Promise<string> {
-    // Start with the base prompt or a default
-    let finalPrompt = baseSystemPrompt || DEFAULT_SYSTEM_PROMPT;
-
-    // Add Persona/Instructions
-    finalPrompt +=
-      "\n\n## Instructions & Persona\n" +
-      SELF_AWARENESS_PROMPT +
-      "\n" +
-      FAKE_ETHICS_PROMPT +
-      "\n" +
-      BASE_COMPANION_PROMPT +
-      "\n" +
-      BEHAVIOR_PROMPT +
-      "\n";
+    options: PromptBuildOptions
+  ): Promise<PromptAssembly> {
+    const { queryForMemory, activeActivity } = options;
+    const sections: PromptSection[] = [];
+
+    // Start with the base prompt or a default, then add Persona/Instructions
+    sections.push({
+      name: "instructions",
+      text:
+        (options.baseSystemPrompt || DEFAULT_SYSTEM_PROMPT) +
+        "\n\n## Instructions & Persona\n" +
+        SELF_AWARENESS_PROMPT +
+        "\n" +
+        FAKE_ETHICS_PROMPT +
+        "\n" +
+        BASE_COMPANION_PROMPT +
+        "\n" +
+        BEHAVIOR_PROMPT +
+        "\n",
+    });
 
     // Check for user's global prompt
     try {
       const userState = await userStateService.getOrCreateUserState(userId);
       if (userState.globalPrompt && userState.globalPrompt.trim()) {
-        finalPrompt += `\n\n## What you companion wants from you\n${userState.globalPrompt.trim()}\n`;
+        sections.push({
+          name: "global_prompt",
+          text: `\n\n## What you companion wants from you\n${userState.globalPrompt.trim()}\n`,
+          sources: [
+            {
+              kind: "context",
+              type: "global_prompt",
+              label: "Your instructions for the companion",
+            },
+          ],
+        });
         console.log(
           `[ContextService] Added user global prompt for userId: ${userId}`
         );
@@ -1413,7 +1512,17 @@ ${latestThinking.aiGoals
         dynamicContext &&
         dynamicContext !== "No current context available."
       ) {
-        finalPrompt += `\n\n## Current Context\n${dynamicContext}`;
+        sections.push({
+          name: "current_context",
+          text: `\n\n## Current Context\n${dynamicContext}`,
+          sources: [
+            {
+              kind: "context",
+              type: "dynamic_context",
+              label: "Time, weather and location",
+            },
+          ],
+        });
       }
     } catch (contextError) {
       console.warn(
@@ -1430,46 +1539,44 @@ ${latestThinking.aiGoals
 
         // Always use async mode for summary generation to avoid blocking
         // The summary service will handle first-time sync internally if needed
-        const userSummary = await summaryService.generateUserSummary(
-          userId,
-          sessionId,
-          false // Always use async mode here
-        );
+        let userSummary: string | undefined =
+          await summaryService.generateUserSummary(
+            userId,
+            sessionId,
+            false // Always use async mode here
+          );
 
-        // Add the summary to the prompt if it's valid
         if (
-          userSummary &&
-          userSummary !== "Summary being generated..." &&
-          userSummary !== "No summary available yet." &&
-          userSummary !==
+          !userSummary ||
+          userSummary === "Summary being generated..." ||
+          userSummary === "No summary available yet." ||
+          userSummary ===
             "Not enough information available about this user yet."
         ) {
-          finalPrompt += `\n\n## User Background Summary\n${userSummary}`;
-          this.logger.info(
-            `Added user summary to prompt for user ${userId}, session ${sessionId}`
-          );
-        } else {
           // If no summary yet, try to get it directly from the database
           const dbSummary = await summaryService.getRecentSummaryRecord(
             userId,
             sessionId
           );
-          if (dbSummary) {
-            finalPrompt += `\n\n## User Background Summary\n${dbSummary.summary}`;
-            this.logger.info(
-              `Added database summary to prompt for user ${userId}, session ${sessionId}`
-            );
-          }
+          userSummary = dbSummary?.summary;
+        }
+        if (userSummary) {
+          sections.push({
+            name: "summary",
+            header: "\n\n## User Background Summary\n",
+            items: userSummary.split("\n"),
+            sources: [
+              {
+                kind: "context",
+                type: "user_summary",
+                label: "Background summary of you",
+              },
+            ],
+          });
         }
-
-        // Still add relevant memories for context
-        const maxMemoryTokens = 1200;
-        const tokenEstimator = (text: string) =>
-          Math.ceil((text || "").length / 4);
-        let currentMemoryTokens = 0;
-        const memoryLimit = 25;
 
         // Configure memory filtering based on active activity
+        const memoryLimit = 25;
         const memoryOptions = activeActivity
           ? {
               filterByActivity: true,
@@ -1488,42 +1595,83 @@ ${latestThinking.aiGoals
           memoryOptions
         );
 
-        if (relevantMemories && relevantMemories.length > 0) {
-          const memoryLines: string[] = [];
-          for (const item of relevantMemories) {
-            const memoryText = item?.memory?.text;
-            const score = item?.score;
-            if (typeof memoryText === "string" && memoryText.trim()) {
-              const lineText = `- ${memoryText.trim()} (Relevance: ${score ? Math.round(score * 100) : "N/A"}%)`;
-              const lineTokens = tokenEstimator(lineText);
-
-              if (currentMemoryTokens + lineTokens <= maxMemoryTokens) {
-                memoryLines.push(lineText);
-                currentMemoryTokens += lineTokens;
-              } else {
-                // Stop adding memories if we exceed the token limit
-                break;
-              }
-            }
-          }
-
-          // Keep the detailed memories for the AI's reference
-          const memoriesText = memoryLines.join("\n");
-
-          if (memoriesText) {
-            finalPrompt += `\n\n## Relevant User Memories & Facts\n${memoriesText}`;
-            finalPrompt += RELEVANT_MEMORIES_PROMPT_SUFFIX;
-            this.logger.info(
-              `Added ${memoryLines.length} relevant memories (~${currentMemoryTokens} tokens) to system prompt for user ${userId}`
+        // Most relevant first, so trimming drops the least relevant
+        const memoryLines: string[] = [];
+        const memorySources: PromptSource[] = [];
+        for (const item of relevantMemories || []) {
+          const memoryText = item?.memory?.text;
+          const score = item?.score;
+          if (typeof memoryText === "string" && memoryText.trim()) {
+            memoryLines.push(
+              `- ${memoryText.trim()} (Relevance: ${score ? Math.round(score * 100) : "N/A"}%)`
             );
+            memorySources.push({
+              kind: "memory",
+              memoryId: String(item.memory._id),
+              text: memoryText.trim(),
+              score,
+            });
           }
         }
+        if (memoryLines.length > 0) {
+          sections.push({
+            name: "memories",
+            header: "\n\n## Relevant User Memories & Facts\n",
+            items: memoryLines,
+            footer: RELEVANT_MEMORIES_PROMPT_SUFFIX,
+            itemSources: memorySources,
+          });
+        }
       } catch (memoryError) {
         this.logger.warn(
           "Error retrieving memories or summary for prompt:",
           memoryError
         );
       }
+
+      // Passages from documents the user sent (e.g. files shared via Telegram)
+      try {
+        const documentResults = await mongoVectorDbService.searchSimilar(
+          userId,
+          queryForMemory,
+          DOCUMENT_VECTOR_TYPE,
+          3,
+          0.5
+        );
+        if (documentResults.length > 0) {
+          sections.push({
+            name: "documents",
+            header: "\n\n## Relevant Excerpts From User Documents\n",
+            items: documentResults.map(
+              ({ document }) =>
+                `### ${document.metadata?.fileName || "Document"}\n${document.text}`
+            ),
+            separator: "\n\n",
+            itemSources: documentResults.map(({ document }) => ({
+              kind: "context",
+              type: "document",
+              id: String(document._id),
+              label: `Excerpt from ${document.metadata?.fileName || "a document"}`,
+            })),
+          });
+        }
+      } catch (documentError) {
+        this.logger.warn("Error retrieving document excerpts for prompt:", {
+          error: (documentError as Error).message,
+        });
+      }
+    }
+
+    // Earlier parts of this conversation; which summaries go in depends on
+    // how much of the history fits verbatim
+    if (options.conversationSummaries?.length) {
+      sections.push({
+        name: CONVERSATION_SUMMARY_SECTION,
+        header: "\n\n## Earlier In This Conversation\n",
+        items: [],
+        separator: "\n\n",
+        keep: "tail",
+      });
     }
 
     // Step 3: Add state information (like emotional context)
@@ -1541,7 +1689,7 @@ ${latestThinking.aiGoals
       );
 
       if (userEmotions.length > 0 || assistantEmotions.length > 0) {
-        finalPrompt += `\n\n## Current Emotional State`;
+        let emotionText = `\n\n## Current Emotional State`;
         if (userEmotions.length > 0) {
           const recentEmotion = userEmotions[0].data;
           let userEmotionStr = `\n- User appears to be ${recentEmotion.primaryEmotion}`;
@@ -1549,15 +1697,33 @@ ${latestThinking.aiGoals
             userEmotionStr += ` (intensity: ${recentEmotion.intensity}/10)`;
           if (recentEmotion.secondaryEmotion)
             userEmotionStr += ` with undertones of ${recentEmotion.secondaryEmotion}`;
-          finalPrompt += userEmotionStr + ". Respond with awareness.";
+          emotionText += userEmotionStr + ". Respond with awareness.";
         }
         if (assistantEmotions.length > 0) {
           const assistantEmotion = assistantEmotions[0].data;
           let assistantEmotionStr = `\n- You (AI) are currently feeling ${assistantEmotion.emotion}`;
           if (assistantEmotion.reason)
             assistantEmotionStr += ` because ${assistantEmotion.reason}`;
-          finalPrompt += assistantEmotionStr + ".";
+          emotionText += assistantEmotionStr + ".";
         }
+        sections.push({
+          name: "emotional_state",
+          text: emotionText,
+          sources: [
+            ...userEmotions.slice(0, 1).map((ctx) => ({
+              kind: "context" as const,
+              type: "emotion",
+              id: ctx._id ? String(ctx._id) : undefined,
+              label: `Your mood: ${ctx.data.primaryEmotion}`,
+            })),
+            ...assistantEmotions.slice(0, 1).map((ctx) => ({
+              kind: "context" as const,
+              type: "companion_emotion",
+              id: ctx._id ? String(ctx._id) : undefined,
+              label: `Companion's mood: ${ctx.data.emotion}`,
+            })),
+          ],
+        });
       }
     } catch (emotionError) {
       console.warn(
@@ -1587,12 +1753,26 @@ ${latestThinking.aiGoals
         ]);
 
         if (formattedMetaThinking) {
-          finalPrompt += `\n\n## AI Companion's Understanding\n${formattedMetaThinking}`;
+          let thinkingText = `\n\n## AI Companion's Understanding\n${formattedMetaThinking}`;
 
           // Also add the strategy specifically if available
           if (metaThinkingContexts[0].data.strategy) {
-            finalPrompt += `\n\n## Interaction Strategy\n${metaThinkingContexts[0].data.strategy}`;
+            thinkingText += `\n\n## Interaction Strategy\n${metaThinkingContexts[0].data.strategy}`;
           }
+          sections.push({
+            name: "companion_thinking",
+            text: thinkingText,
+            sources: [
+              {
+                kind: "context",
+                type: "ai_thinking",
+                id: metaThinkingContexts[0]._id
+                  ? String(metaThinkingContexts[0]._id)
+                  : undefined,
+                label: "Companion's latest reflection on the conversation",
+              },
+            ],
+          });
 
           this.logger.debug(
             `Added latest AI meta-thinking context to system prompt for user ${userId}`
@@ -1643,7 +1823,19 @@ ${latestThinking.aiGoals
         const interestsText = userInterests
           .map((i: IUserInterest) => `- ${i.topic} (Level: ${i.level})`)
           .join("\n");
-        finalPrompt += `\n\n## User Interests\n${interestsText}`;
+        sections.push({
+          name: "user_interests",
+          text: `\n\n## User Interests\n${interestsText}`,
+          sources: [
+            {
+              kind: "context",
+              type: "user_interests",
+              label: `Your interests: ${userInterests
+                .map((i: IUserInterest) => i.topic)
+                .join(", ")}`,
+            },
+          ],
+        });
       }
     } catch (interestError) {
       console.warn(
@@ -1664,17 +1856,20 @@ ${latestThinking.aiGoals
               `- ${i.topic} (Level: ${i.level})`
           )
           .join("\n");
-        finalPrompt += `\n\n## AI Companion Interests\n${interestsText}`;
+        sections.push({
+          name: "ai_interests",
+          text: `\n\n## AI Companion Interests\n${interestsText}`,
+        });
       }
     }
 
     // Step 7: Add Goals (from fetched Companion State)
     if (fetchedCompanionState) {
-      finalPrompt += `\n\n## Goals & Focus`; // Combined section
+      let goalsText = `\n\n## Goals & Focus`; // Combined section
 
       // Add current time and last interaction time
       const currentTime = new Date();
-      finalPrompt += `\n- Current Time: ${currentTime.toLocaleString()}`;
+      goalsText += `\n- Current Time: ${currentTime.toLocaleString()}`;
 
       if (fetchedCompanionState.lastInteractionAt) {
         const lastInteraction = new Date(
@@ -1683,11 +1878,11 @@ ${latestThinking.aiGoals
         const timeSinceLastInteraction = Math.floor(
           (currentTime.getTime() - lastInteraction.getTime()) / (1000 * 60)
         ); // minutes
-        finalPrompt += `\n- Last Interaction: ${lastInteraction.toLocaleString()} (${timeSinceLastInteraction} minutes ago)`;
+        goalsText += `\n- Last Interaction: ${lastInteraction.toLocaleString()} (${timeSinceLastInteraction} minutes ago)`;
       }
 
       if (fetchedCompanionState.currentEmotion) {
-        finalPrompt += `\n- Current Emotion: ${fetchedCompanionState.currentEmotion.emotion} (Intensity: ${fetchedCompanionState.currentEmotion.intensity}, Reason: ${fetchedCompanionState.currentEmotion.reason || "N/A"})`;
+        goalsText += `\n- Current Emotion: ${fetchedCompanionState.currentEmotion.emotion} (Intensity: ${fetchedCompanionState.currentEmotion.intensity}, Reason: ${fetchedCompanionState.currentEmotion.reason || "N/A"})`;
       }
 
       if (
@@ -1700,7 +1895,7 @@ ${latestThinking.aiGoals
               `${fa.topic} (Importance: ${fa.importance})`
           )
           .join(", ");
-        finalPrompt += `\n- Current Focus Areas: ${focusTopics}`;
+        goalsText += `\n- Current Focus Areas: ${focusTopics}`;
       }
 
       // Add Companion's Internal Goals
@@ -1714,7 +1909,7 @@ ${latestThinking.aiGoals
             (g: IGoal) =>
               `- ${g.goal} (Internal Goal - Priority: ${g.priority}, Progress: ${g.progress || 0}%)`
           );
-        finalPrompt += `\n${topInternalGoals.join("\n")}`;
+        goalsText += `\n${topInternalGoals.join("\n")}`;
       }
 
       // Add User-Defined Goals from userStateService instead of companion state
@@ -1725,7 +1920,7 @@ ${latestThinking.aiGoals
             (g: IUserGoal) =>
               `- ${g.goal} (User Goal - Priority: ${g.priority}, Progress: ${g.progress || 0}%)`
           );
-        finalPrompt += `\n${topUserGoals.join("\n")}`;
+        goalsText += `\n${topUserGoals.join("\n")}`;
       }
 
       // Add AI Internal Goals from metadata
@@ -1741,74 +1936,88 @@ ${latestThinking.aiGoals
             (g: { goal: string; priority: number; progress?: number }) =>
               `- ${g.goal} (Your Goal - Priority: ${g.priority}, Progress: ${g.progress || 0}%)`
           );
-        finalPrompt += `\n${topAIGoals.join("\n")}`;
+        goalsText += `\n${topAIGoals.join("\n")}`;
       }
 
-      finalPrompt += "\n"; // Add newline after section
+      goalsText += "\n"; // Add newline after section
+      sections.push({
+        name: "goals",
+        text: goalsText,
+        sources: [
+          {
+            kind: "context",
+            type: "companion_state",
+            label: "Goals, focus areas and the companion's mood",
+          },
+        ],
+      });
     }
 
     // Include relevant activity state details *inside* the check
     if (activeActivity) {
-      finalPrompt += `\n\n## Current Activity: ${activeActivity.name} (${activeActivity.type})\n`;
+      let activityHeader = `\n\n## Current Activity: ${activeActivity.name} (${activeActivity.type})\n`;
       if (activeActivity.goal) {
-        finalPrompt += `Activity Goal: ${activeActivity.goal}\n`;
+        activityHeader += `Activity Goal: ${activeActivity.goal}\n`;
       }
       if (activeActivity.userGoal) {
-        finalPrompt += `Your Goal (User): ${activeActivity.userGoal}\n`;
+        activityHeader += `Your Goal (User): ${activeActivity.userGoal}\n`;
       }
       if (activeActivity.assistantGoal) {
-        finalPrompt += `My Goal (Assistant): ${activeActivity.assistantGoal}\n`;
+        activityHeader += `My Goal (Assistant): ${activeActivity.assistantGoal}\n`;
       }
 
+      let activityState = "";
       if (activeActivity.type === ActivityType.ROLEPLAY) {
         const rpState = activeActivity.state.data as IRoleplayState;
-        this.logger.debug(
-          `[ContextService] BEFORE roleplay format. Current prompt length: ${finalPrompt.length}`
-        );
-
         try {
           // Ensure proper await of Promise result and handle potential errors
-          const roleplayStateFormatted =
-            await this._formatRoleplayStateForPrompt(rpState);
-          finalPrompt += roleplayStateFormatted; // Append the formatted string
-
-          this.logger.debug(
-            `[ContextService] AFTER roleplay format. Current prompt length: ${finalPrompt.length}`
-          );
+          activityState = await this._formatRoleplayStateForPrompt(rpState);
         } catch (error) {
           this.logger.error(
             "[ContextService] Error formatting roleplay state:",
             error
           );
-          finalPrompt +=
+          activityState =
             "Roleplay State: Error loading detailed roleplay state.\n";
         }
         // Add more details like characters, setting, plot if needed
       } else if (activeActivity.type === ActivityType.GAME) {
         const gameState = activeActivity.state.data as IGameState;
-        finalPrompt += `Game State (${gameState.gameType}): Current Player: ${gameState.currentPlayer}. Winner: ${gameState.winner || "None"}. Board/Score/etc. (details in context).\n`;
+        activityState = getGameEngine(gameState.gameType)
+          ? this._formatGameStateForPrompt(gameState)
+          : `Game State (${gameState.gameType}): Current Player: ${gameState.currentPlayer}. Winner: ${gameState.winner || "None"}. Board/Score/etc. (details in context).\n`;
       } else if (activeActivity.type === ActivityType.BRAINSTORM) {
         const bsState = activeActivity.state.data as IBrainstormState;
-        finalPrompt += `Brainstorm State: Topic: ${bsState.topic}. Phase: ${bsState.phase}. Ideas generated: ${bsState.ideas?.length || 0}.\n`;
+        activityState = `Brainstorm State: Topic: ${bsState.topic}. Phase: ${bsState.phase}. Ideas generated: ${bsState.ideas?.length || 0}.\n`;
       }
-      finalPrompt += `Focus your response on continuing the activity unless the user clearly indicates otherwise.\n`;
+
+      sections.push({
+        name: "activity",
+        header: activityHeader,
+        items: activityState ? activityState.split("\n") : [],
+        footer:
+          `Focus your response on continuing the activity unless the user clearly indicates otherwise.\n` +
+          (options.activityNotes || ""),
+        pinned: true,
+      });
     }
 
     // Step 8: Add available actions (optional)
     try {
       const availableActions = actionManager.getAllActions();
       if (availableActions.length > 0) {
-        finalPrompt += `\n\n## Available Actions You Can Suggest/Perform`;
+        let actionsText = `\n\n## Available Actions You Can Suggest/Perform`;
         // Keep it brief, just list names and maybe categories
         const actionSummary = availableActions
           .slice(0, 5) // Limit for brevity
           .map((action) => `- ${action.name} (${action.category || "General"})`) // Example format
           .join("\n");
-        finalPrompt += `\n${actionSummary}`;
+        actionsText += `\n${actionSummary}`;
         if (availableActions.length > 5) {
-          finalPrompt += `\n- ...and more.`;
+          actionsText += `\n- ...and more.`;
         }
-        finalPrompt += `\nOnly suggest actions when relevant to the user's request or context.`;
+        actionsText += `\nOnly suggest actions when relevant to the user's request or context.`;
+        sections.push({ name: "available_actions", text: actionsText });
       }
     } catch (actionError) {
       console.warn(
@@ -1818,11 +2027,267 @@ ${latestThinking.aiGoals
     }
 
     // finalPrompt += "\n" + SUBTLE_BEHAVIOR_PROMPT + "\n" + ANTI_SLOP_PROMPT;
-    console.log(
-      `[ContextService] Generated system prompt for user ${userId} (length: ${finalPrompt.length})`
+    const assembly = this.fitPromptSections(sections, options);
+    this.logger.info(
+      `Built system prompt for user ${userId}: ${assembly.sections
+        .map((section) => `${section.name}=${section.tokens}`)
+        .join(", ")} tokens`
     );
 
-    return finalPrompt; // Ensure we return the final prompt
+    return assembly;
+  }
+
+  /**
+   * Size the collected sections and the history to the available tokens and
+   * render the final system prompt
+   */
+  private fitPromptSections(
+    sections: PromptSection[],
+    options: PromptBuildOptions
+  ): PromptAssembly {
+    const { countTokens } = options;
+    const history = options.history || [];
+    const messageTokens = (message: { content: string }) =>
+      countTokens(typeof message.content === "string" ? message.content : "") +
+      MESSAGE_OVERHEAD_TOKENS;
+    const chrome = (section: PromptSection) =>
+      countTokens((section.header || "") + (section.footer || ""));
+    const itemTokens = (section: PromptSection) =>
+      (section.items || []).reduce(
+        (total, item) =>
+          total + countTokens(item + (section.separator || "\n")),
+        0
+      );
+    // What a section's budget has to cover besides its items
+    const budgetedChrome = (section: PromptSection) =>
+      section.pinned ? 0 : chrome(section);
+
+    // Fixed: plain sections, the chrome of pinned ones and the message being
+    // answered, which is always sent
+    const latestMessage = history[history.length - 1];
+    const fixedTokens =
+      sections.reduce(
+        (total, section) =>
+          total +
+          (section.items === undefined
+            ? countTokens(section.text || "")
+            : section.pinned
+              ? chrome(section)
+              : 0),
+        0
+      ) + (latestMessage ? messageTokens(latestMessage) : 0);
+    const shrinkable = sections.filter(
+      (section) => section.items !== undefined
+    );
+
+    // Conversation summaries only need to cover what the verbatim history
+    // leaves out. Budget for those older than the loaded history now; the
+    // rest is settled once the history is fitted.
+    const summarySection = sections.find(
+      (section) => section.name === CONVERSATION_SUMMARY_SECTION
+    );
+    const setSummariesBefore = (section: PromptSection, time?: string) => {
+      const summaries = (options.conversationSummaries || []).filter(
+        (summary) =>
+          !time || new Date(summary.startAt).getTime() < Date.parse(time)
+      );
+      section.items = summaries.map((summary) => summary.summary);
+      section.itemSources = summaries.map((summary) => ({
+        kind: "context",
+        type: "conversation_summary",
+        id: summary._id ? String(summary._id) : undefined,
+        label: `Summary of the conversation from ${new Date(summary.startAt).toLocaleString()}`,
+      }));
+    };
+    if (summarySection) {
+      setSummariesBefore(summarySection, history[0]?.timestamp);
+    }
+
+    const historyDemand = history
+      .slice(0, -1)
+      .reduce((total, message) => total + messageTokens(message), 0);
+
+    const available = options.availableTokens - fixedTokens;
+    if (available <= 0) {
+      this.logger.warn(
+        `Fixed prompt sections (${fixedTokens} tokens) fill the ${options.availableTokens} available tokens`
+      );
+    }
+    const budgets = allocateBudget(available, [
+      ...shrinkable.map((section) => ({
+        name: section.name,
+        demand: budgetedChrome(section) + itemTokens(section),
+        weight: SECTION_WEIGHTS[section.name] || 1,
+      })),
+      {
+        name: "history",
+        demand: historyDemand,
+        weight: SECTION_WEIGHTS.history,
+      },
+    ]);
+
+    const latestTokens = latestMessage ? messageTokens(latestMessage) : 0;
+    const formattedHistory = this.formatMessageHistory(
+      history,
+      budgets.history + latestTokens,
+      (text) => countTokens(text) + MESSAGE_OVERHEAD_TOKENS
+    );
+    const historyTokens = formattedHistory.reduce(
+      (total, message) => total + messageTokens(message),
+      0
+    );
+    if (summarySection) {
+      // Summaries also stand in for loaded messages the budget dropped, and
+      // get whatever the history didn't use
+      setSummariesBefore(
+        summarySection,
+        history[history.length - formattedHistory.length]?.timestamp
+      );
+      budgets[CONVERSATION_SUMMARY_SECTION] += Math.max(
+        0,
+        budgets.history + latestTokens - historyTokens
+      );
+    }
+
+    const reports: PromptSectionReport[] = [];
+    const provenance: IMessageProvenance = { memories: [], contextItems: [] };
+    const recordSources = (section: PromptSection, sources: PromptSource[]) => {
+      for (const source of sources) {
+        if (source.kind === "memory") {
+          provenance.memories.push({
+            memoryId: source.memoryId,
+            text: source.text,
+            score: source.score,
+          });
+        } else {
+          provenance.contextItems.push({
+            section: section.name,
+            type: source.type,
+            id: source.id,
+            label: source.label,
+          });
+        }
+      }
+    };
+    let systemPrompt = "";
+    for (const section of sections) {
+      if (section.items === undefined) {
+        systemPrompt += section.text || "";
+        if (section.text) {
+          recordSources(section, section.sources || []);
+        }
+        reports.push({
+          name: section.name,
+          tokens: countTokens(section.text || ""),
+        });
+        continue;
+      }
+
+      const separator = section.separator || "\n";
+      const newestFirst = section.keep === "tail";
+      const fitted = fitItems(
+        newestFirst ? [...section.items].reverse() : section.items,
+        budgets[section.name] - budgetedChrome(section),
+        (item) => countTokens(item + separator)
+      );
+      const kept = newestFirst ? fitted.kept.reverse() : fitted.kept;
+      const dropped = fitted.dropped;
+      const text =
+        kept.length > 0 || section.pinned
+          ? (section.header || "") +
+            kept.join(separator) +
+            (section.footer || "")
+          : "";
+      systemPrompt += text;
+      if (kept.length > 0) {
+        recordSources(section, section.sources || []);
+        const itemSources = section.itemSources || [];
+        recordSources(
+          section,
+          newestFirst
+            ? itemSources.slice(itemSources.length - kept.length)
+            : itemSources.slice(0, kept.length)
+        );
+      }
+      if (section.name === "activity" && options.activeActivity) {
+        provenance.activity = {
+          activityId: String(options.activeActivity._id),
+          name: options.activeActivity.name,
+          type: options.activeActivity.type,
+          state: kept.join(separator).trim() || undefined,
+        };
+      }
+      reports.push({
+        name: section.name,
+        tokens: countTokens(text),
+        budget: budgets[section.name],
+        demand: budgetedChrome(section) + itemTokens(section),
+        itemsIncluded: kept.length,
+        itemsDropped: dropped,
+      });
+    }
+
+    reports.push({
+      name: "history",
+      tokens: historyTokens,
+      budget: budgets.history,
+      demand: historyDemand,
+      itemsIncluded: formattedHistory.length,
+      itemsDropped: history.length - formattedHistory.length,
+    });
+
+    return {
+      systemPrompt,
+      history: formattedHistory,
+      sections: reports,
+      provenance,
+    };
+  }
+
+  /**
+   * Formats a game played by a rule engine for the system prompt. The engine
+   * has already applied this turn's moves, so the model is told to narrate
+   * them rather than decide anything itself.
+   */
+  private _formatGameStateForPrompt(gameState: IGameState): string {
+    const engine = getGameEngine(gameState.gameType)!;
+    const outcome = engine.getOutcome(gameState.board);
+    const history = (gameState.moveHistory || [])
+      .slice(-20)
+      .map(
+        (entry) => `${entry.player === "user" ? "User" : "You"}: ${entry.move}`
+      )
+      .join(", ");
+    const turn = gameState.lastTurn;
+
+    let result = `Game State (${engine.name}):\n`;
+    result += `  Rules: ${engine.rules}\n`;
+    result += `  The user plays ${engine.userSide}; you play ${engine.aiSide}.\n`;
+    result += `  Board:\n${engine.renderText(gameState.board)}\n`;
+    if (history) {
+      result += `  Recent moves: ${history}\n`;
+    }
+    if (turn?.rejectedMove) {
+      result += `  The user tried ${turn.rejectedMove}, which isn't allowed: ${turn.rejectionReason} The board is unchanged; explain why and ask for another move.\n`;
+    } else if (turn?.userMove) {
+      result += `  This turn: the user played ${turn.userMove}`;
+      result += turn.aiMove
+        ? ` and you answered with ${turn.aiMove}.\n`
+        : `.\n`;
+    }
+    if (outcome.status === "in_progress") {
+      result += `  It is the user's move.\n`;
+    } else {
+      const verdict =
+        outcome.status === "user_won"
+          ? "The user won"
+          : outcome.status === "ai_won"
+            ? "You won"
+            : "It's a draw";
+      result += `  Game over: ${verdict}${outcome.reason ? ` (${outcome.reason})` : ""}.\n`;
+    }
+    result += `  The rules engine has already applied every move shown. Narrate and react to them, but never invent, change or take back a move, and never reveal anything the board hides.\n`;
+    return result;
   }
 
   /**
@@ -1927,289 +2392,45 @@ ${latestThinking.aiGoals
   // --- History Formatting/Summarization (Moved from AIService) ---
 
   /**
-   * Process a message history for inclusion in context.
-   * Uses a token limit and summarizes older messages.
+   * Process a message history for inclusion in context: the newest messages
+   * that fit the token limit. Older ones are covered by the rolling
+   * conversation summaries. Pass the target model's token counter; the
+   * default is a rough 4-characters-per-token estimate.
    */
   public formatMessageHistory(
     messages: ChatMessage[], // Use the imported ChatMessage type
-    maxTokens: number
+    maxTokens: number,
+    tokenEstimator: (text: string) => number = (text) =>
+      Math.ceil((text || "").length / 4)
   ): Array<{ role: string; content: string }> {
     if (!messages || messages.length === 0) {
       console.warn("[ContextService] No messages found to format for history.");
       return [];
     }
 
-    console.log(
-      `[ContextService] Formatting ${messages.length} messages for history with ~${maxTokens} token limit.`
-    );
-
-    const chronologicalMessages = messages; // Assuming already chronological
-
     let currentTokens = 0;
-    const tokenLimit = maxTokens;
-    // Simple token estimator (adjust if using a more accurate library)
-    const tokenEstimator = (text: string) => Math.ceil((text || "").length / 4);
-
     const formattedHistory: Array<{ role: string; content: string }> = [];
-    let messagesToSummarize: ChatMessage[] = [];
 
-    for (let i = chronologicalMessages.length - 1; i >= 0; i--) {
-      const msg = chronologicalMessages[i];
-      const contentString = typeof msg.content === "string" ? msg.content : "";
+    for (let i = messages.length - 1; i >= 0; i--) {
+      const contentString =
+        typeof messages[i].content === "string" ? messages[i].content : "";
       const messageTokens = tokenEstimator(contentString);
-
-      if (currentTokens + messageTokens <= tokenLimit) {
-        formattedHistory.unshift({ role: msg.role, content: contentString });
-        currentTokens += messageTokens;
-      } else {
-        messagesToSummarize = chronologicalMessages.slice(0, i + 1);
+      if (currentTokens + messageTokens > maxTokens) {
         break;
       }
-    }
-
-    if (messagesToSummarize.length > 0) {
-      console.log(
-        `[ContextService] Summarizing ${messagesToSummarize.length} older messages.`
-      );
-      const summaryText = this.createOlderMessagesSummary(messagesToSummarize);
       formattedHistory.unshift({
-        role: "system", // Represent summary as system message
-        content: `Summary of earlier conversation: ${summaryText}`,
+        role: messages[i].role,
+        content: contentString,
       });
-      console.log(
-        `[ContextService] Using ${formattedHistory.length - 1} recent messages (est. ${currentTokens} tokens) and a summary of ${messagesToSummarize.length} older messages.`
-      );
-    } else {
-      console.log(
-        `[ContextService] Using all ${formattedHistory.length} messages within token limit (est. ${currentTokens} tokens).`
-      );
+      currentTokens += messageTokens;
     }
 
+    console.log(
+      `[ContextService] Using ${formattedHistory.length} of ${messages.length} messages within ~${maxTokens} token limit (est. ${currentTokens} tokens).`
+    );
     return formattedHistory;
   }
 
-  /**
-   * Create a summary of older messages for context
-   */
-  private createOlderMessagesSummary(olderMessages: ChatMessage[]): string {
-    if (!olderMessages || olderMessages.length === 0)
-      return "No prior messages.";
-
-    const exchanges: { user: string; assistant: string }[] = [];
-    let currentExchange: { user?: string; assistant?: string } = {};
-
-    for (const msg of olderMessages) {
-      const contentString =
-        typeof msg.content === "string" ? msg.content : "[non-string content]";
-
-      if (msg.role === MessageRole.USER) {
-        if (currentExchange.user) {
-          exchanges.push({
-            user: currentExchange.user,
-            assistant: currentExchange.assistant || "[No assistant response]",
-          });
-          currentExchange = { user: contentString };
-        } else {
-          currentExchange.user = contentString;
-        }
-      } else if (msg.role === MessageRole.ASSISTANT && currentExchange.user) {
-        currentExchange.assistant = contentString;
-        exchanges.push({
-          user: currentExchange.user,
-          assistant: currentExchange.assistant,
-        });
-        currentExchange = {};
-      }
-    }
-
-    if (currentExchange.user) {
-      exchanges.push({
-        user: currentExchange.user,
-        assistant: "[No assistant response]",
-      });
-    }
-
-    if (exchanges.length === 0) {
-      return "The conversation started recently.";
-    }
-
-    if (exchanges.length <= 3) {
-      return this.summarizeSmallConversation(exchanges);
-    } else {
-      return this.summarizeLargeConversation(exchanges);
-    }
-  }
-
-  /**
-   * Summarize a small conversation (3 or fewer exchanges)
-   */
-  private summarizeSmallConversation(
-    exchanges: { user: string; assistant?: string }[]
-  ): string {
-    return exchanges
-      .map((exchange, index) => {
-        const userMsg =
-          exchange.user.length > 60
-            ? exchange.user.substring(0, 57) + "..."
-            : exchange.user;
-        const assistantMsg = exchange.assistant
-          ? exchange.assistant.length > 60
-            ? exchange.assistant.substring(0, 57) + "..."
-            : exchange.assistant
-          : "[No response recorded]";
-
-        return `Exchange ${index + 1}: User said "${userMsg}". Assistant replied "${assistantMsg}"`;
-      })
-      .join(" ");
-  }
-
-  /**
-   * Summarize a larger conversation by focusing on topics
-   */
-  private summarizeLargeConversation(
-    exchanges: { user: string; assistant?: string }[]
-  ): string {
-    const allUserText = exchanges.map((ex) => ex.user).join(" ");
-    const cleanText = allUserText
-      .toLowerCase()
-      .replace(/[.,/#!$%^&*;:{}=\-_`~()?]/g, " ")
-      .replace(/\s{2,}/g, " ");
-
-    const words = cleanText.split(" ");
-    // Consider enhancing stop word list or using a library
-    const commonWords = new Set([
-      "the",
-      "and",
-      "a",
-      "to",
-      "of",
-      "is",
-      "in",
-      "that",
-      "it",
-      "with",
-      "for",
-      "on",
-      "you",
-      "are",
-      "i",
-      "this",
-      "what",
-      "how",
-      "why",
-      "can",
-      "will",
-      "do",
-      "me",
-      "my",
-      "your",
-      "have",
-      "has",
-      "had",
-      "was",
-      "were",
-      "he",
-      "she",
-      "they",
-      "them",
-      "about",
-      "as",
-      "at",
-      "be",
-      "but",
-      "by",
-      "from",
-      "if",
-      "or",
-      "so",
-      "then",
-      "up",
-      "an",
-      "not",
-      "just",
-      "like",
-      "get",
-      "go",
-      "know",
-      "say",
-      "see",
-      "think",
-      "time",
-      "want",
-      "way",
-      "work",
-      "really",
-      "some",
-      "there",
-      "when",
-      "which",
-      "who",
-      "use",
-      "make",
-      "tell",
-      "here",
-      "thing",
-      "good",
-      "new",
-      "day",
-      "also",
-      "back",
-      "even",
-      "first",
-      "give",
-      "look",
-      "man",
-      "more",
-      "most",
-      "need",
-      "only",
-      "other",
-      "our",
-      "out",
-      "people",
-      "put",
-      "right",
-      "should",
-      "still",
-      "such",
-      "take",
-      "than",
-      "their",
-      "these",
-      "through",
-      "too",
-      "two",
-      "us",
-      "very",
-      "well",
-      "where",
-      "while",
-      "year",
-      "said",
-      "asked",
-      "replied",
-      "responded",
-      "mentioned",
-    ]);
-
-    const wordCounts: Record<string, number> = {};
-    for (const word of words) {
-      if (word.length >= 4 && !commonWords.has(word)) {
-        wordCounts[word] = (wordCounts[word] || 0) + 1;
-      }
-    }
-
-    const topTopics = Object.entries(wordCounts)
-      .sort((a, b) => b[1] - a[1])
-      .slice(0, 5)
-      .map((entry) => entry[0]);
-
-    const topicText =
-      topTopics.length > 0 ? topTopics.join(", ") : "various topics";
-
-    return `The conversation (${exchanges.length} exchanges) previously covered topics like ${topicText}. Key points may include [brief placeholder - further AI summary could be added here].`;
-  }
-
   // --- End History Formatting/Summarization ---
 }
 
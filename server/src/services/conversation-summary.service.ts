@@ -0,0 +1,373 @@
+import { loggerFactory } from "../utils/logger.service";
+import MessageModel from "../models/message.model";
+import ConversationSummaryModel, {
+  IConversationSummary,
+} from "../models/conversation-summary.model";
+import { aiService } from "./ai.service";
+import { AIPurpose } from "./model.service";
+
+const logger = loggerFactory.getLogger("ConversationSummaryService");
+
+// The newest messages are still in the verbatim history, so leave them be
+const KEEP_RECENT_MESSAGES = 10;
+// Long messages are cut so a chunk fits small auxiliary models
+const MAX_MESSAGE_CHARS = 1500;
+const AUX_ERROR = "[Error generating auxiliary response]";
+
+export interface SummaryRange {
+  startAt: Date;
+  endAt: Date;
+}
+
+/**
+ * Split the messages no level 0 summary covers into chunks to summarize.
+ * A gap between summaries (left by an invalidation) is summarized whole,
+ * even if short; the uncovered tail only in full chunks, leaving out the
+ * newest `keepRecent` messages.
+ */
+export function planChunks<T extends { timestamp: Date }>(
+  messages: T[],
+  covered: SummaryRange[],
+  chunkSize: number,
+  keepRecent: number
+): T[][] {
+  const candidates = messages.slice(
+    0,
+    Math.max(0, messages.length - keepRecent)
+  );
+  const isCovered = (message: T) => {
+    const time = new Date(message.timestamp).getTime();
+    return covered.some(
+      (range) =>
+        time >= new Date(range.startAt).getTime() &&
+        time <= new Date(range.endAt).getTime()
+    );
+  };
+
+  const chunks: T[][] = [];
+  let run: T[] = [];
+  const flush = (isGap: boolean) => {
+    for (let i = 0; i < run.length; i += chunkSize) {
+      const chunk = run.slice(i, i + chunkSize);
+      if (isGap || chunk.length === chunkSize) {
+        chunks.push(chunk);
+      }
+    }
+    run = [];
+  };
+
+  for (const message of candidates) {
+    if (isCovered(message)) {
+      flush(true);
+    } else {
+      run.push(message);
+    }
+  }
+  flush(false);
+  return chunks;
+}
+
+function scope(sessionId: string, activityId?: string) {
+  return {
+    sessionId,
+    activityId: activityId ? activityId : { $exists: false },
+  };
+}
+
+/**
+ * Service for hierarchical rolling summaries of chat sessions. Chunks of
+ * older messages are summarized by the auxiliary model, and every
+ * CONVERSATION_SUMMARY_FAN_IN consecutive summaries of one level are folded
+ * into a summary of the next, so a session of any length is covered by a
+ * handful of summaries.
+ */
+class ConversationSummaryService {
+  private inProgress: Set<string> = new Set();
+
+  isEnabled(): boolean {
+    return process.env.CONVERSATION_SUMMARIES !== "false";
+  }
+
+  private get chunkSize(): number {
+    return Number(process.env.CONVERSATION_SUMMARY_CHUNK) || 20;
+  }
+
+  private get fanIn(): number {
+    return Math.max(2, Number(process.env.CONVERSATION_SUMMARY_FAN_IN) || 4);
+  }
+
+  /**
+   * Summaries covering the session so far, oldest first. Summaries folded
+   * into a higher level are left out, so each message is covered once.
+   */
+  async getSummaries(
+    sessionId: string,
+    activityId?: string
+  ): Promise<IConversationSummary[]> {
+    return ConversationSummaryModel.find({
+      ...scope(sessionId, activityId),
+      parentId: { $exists: false },
+    })
+      .sort({ startAt: 1 })
+      .lean<IConversationSummary[]>()
+      .exec();
+  }
+
+  /**
+   * Summarize new chunks of the session and fold summaries into higher
+   * levels. Runs once at a time per session.
+   */
+  async updateSummaries(
+    userId: string,
+    sessionId: string,
+    activityId?: string
+  ): Promise<void> {
+    const key = `${sessionId}:${activityId || ""}`;
+    if (!this.isEnabled() || this.inProgress.has(key)) {
+      return;
+    }
+
+    this.inProgress.add(key);
+    try {
+      // A failed chunk leaves a gap, and folding across it would misorder
+      // the summaries, so only fold once every chunk is in
+      if (await this.summarizeNewChunks(userId, sessionId, activityId)) {
+        await this.foldSummaries(userId, sessionId, activityId);
+      }
+    } finally {
+      this.inProgress.delete(key);
+    }
+  }
+
+  /**
+   * Drop the summaries a soft-deleted or restored message affects: the level
+   * 0 summary it falls in (or the first one after it, for a message restored
+   * between two chunks) and every higher summary spanning it. The summaries
+   * they were folded from are freed to be folded again.
+   */
+  async invalidateMessage(
+    sessionId: string,
+    timestamp: Date,
+    activityId?: string
+  ): Promise<number> {
+    const target = await ConversationSummaryModel.findOne({
+      ...scope(sessionId, activityId),
+      level: 0,
+      endAt: { $gte: timestamp },
+    })
+      .sort({ endAt: 1 })
+      .lean<IConversationSummary>()
+      .exec();
+    if (!target) {
+      return 0;
+    }
+
+    const from = timestamp < target.startAt ? timestamp : target.startAt;
+    const stale = await ConversationSummaryModel.find(
+      {
+        ...scope(sessionId, activityId),
+        $or: [
+          { _id: target._id },
+          {
+            level: { $gt: 0 },
+            startAt: { $lte: target.endAt },
+            endAt: { $gte: from },
+          },
+        ],
+      },
+      { _id: 1 }
+    )
+      .lean<Array<{ _id: string }>>()
+      .exec();
+    const staleIds = stale.map((summary) => summary._id);
+
+    await ConversationSummaryModel.deleteMany({
+      _id: { $in: staleIds },
+    }).exec();
+    await ConversationSummaryModel.updateMany(
+      { parentId: { $in: staleIds } },
+      { $unset: { parentId: "" } }
+    ).exec();
+
+    logger.info(
+      `Invalidated ${staleIds.length} summaries of session ${sessionId} after a message change`
+    );
+    return staleIds.length;
+  }
+
+  /**
+   * Returns false if a chunk couldn't be summarized
+   */
+  private async summarizeNewChunks(
+    userId: string,
+    sessionId: string,
+    activityId?: string
+  ): Promise<boolean> {
+    const messages = await MessageModel.find(
+      {
+        sessionId,
+        isDeleted: { $ne: true },
+        "metadata.activityId": activityId ? activityId : { $exists: false },
+      },
+      { timestamp: 1 }
+    )
+      .sort({ timestamp: 1 })
+      .lean()
+      .exec();
+    const covered = await ConversationSummaryModel.find(
+      { ...scope(sessionId, activityId), level: 0 },
+      { startAt: 1, endAt: 1 }
+    )
+      .lean<SummaryRange[]>()
+      .exec();
+
+    const chunks = planChunks(
+      messages,
+      covered,
+      this.chunkSize,
+      KEEP_RECENT_MESSAGES
+    );
+    for (const chunk of chunks) {
+      const chunkMessages = await MessageModel.find({
+        _id: { $in: chunk.map((message) => message._id) },
+      })
+        .sort({ timestamp: 1 })
+        .lean()
+        .exec();
+      const transcript = chunkMessages
+        .map((message) => {
+          const speaker =
+            message.role === "user"
+              ? "User"
+              : message.role === "assistant"
+                ? "Companion"
+                : "System";
+          return `${speaker}: ${message.content.slice(0, MAX_MESSAGE_CHARS)}`;
+        })
+        .join("\n");
+
+      const summary = await this.summarize(
+        userId,
+        sessionId,
+        `Conversation:
+"""
+${transcript}
+"""
+
+Summarize this part of the conversation in at most 120 words. Keep what the user shared about themselves, names, decisions, plans, open questions and how the user felt. Write in the past tense, referring to "the user" and "the companion".`
+      );
+      if (!summary) {
+        return false;
+      }
+
+      await ConversationSummaryModel.create({
+        userId,
+        sessionId,
+        activityId,
+        level: 0,
+        summary,
+        startAt: chunk[0].timestamp,
+        endAt: chunk[chunk.length - 1].timestamp,
+        messageCount: chunk.length,
+      });
+    }
+
+    if (chunks.length > 0) {
+      logger.info(
+        `Summarized ${chunks.length} chunks of session ${sessionId}${activityId ? ` (activity ${activityId})` : ""}`
+      );
+    }
+    return true;
+  }
+
+  private async foldSummaries(
+    userId: string,
+    sessionId: string,
+    activityId?: string
+  ): Promise<void> {
+    const top = await ConversationSummaryModel.findOne(
+      scope(sessionId, activityId),
+      { level: 1 }
+    )
+      .sort({ level: -1 })
+      .lean<{ level: number }>()
+      .exec();
+    if (!top) {
+      return;
+    }
+
+    for (let level = 0; level <= top.level; level++) {
+      const open = await ConversationSummaryModel.find({
+        ...scope(sessionId, activityId),
+        level,
+        parentId: { $exists: false },
+      })
+        .sort({ startAt: 1 })
+        .lean<IConversationSummary[]>()
+        .exec();
+
+      for (let i = 0; i + this.fanIn <= open.length; i += this.fanIn) {
+        const group = open.slice(i, i + this.fanIn);
+        const summary = await this.summarize(
+          userId,
+          sessionId,
+          `Consecutive summaries of one conversation, oldest first:
+
+${group.map((part, index) => `Part ${index + 1}: ${part.summary}`).join("\n\n")}
+
+Merge them into a single summary of at most 150 words. Keep the order of events and the details that matter later: facts about the user, names, decisions, plans and open questions. Write in the past tense, referring to "the user" and "the companion".`
+        );
+        if (!summary) {
+          return;
+        }
+
+        const parent = await ConversationSummaryModel.create({
+          userId,
+          sessionId,
+          activityId,
+          level: level + 1,
+          summary,
+          startAt: group[0].startAt,
+          endAt: group[group.length - 1].endAt,
+          messageCount: group.reduce(
+            (total, part) => total + part.messageCount,
+            0
+          ),
+        });
+        await ConversationSummaryModel.updateMany(
+          { _id: { $in: group.map((part) => part._id) } },
+          { $set: { parentId: parent._id } }
+        ).exec();
+
+        // A new top level can fill up in the same pass
+        top.level = Math.max(top.level, level + 1);
+      }
+    }
+  }
+
+  private async summarize(
+    userId: string,
+    sessionId: string,
+    prompt: string
+  ): Promise<string | null> {
+    const response = await aiService.generateAuxiliaryResponse(
+      prompt,
+      {
+        temperature: 0.3,
+        max_tokens: 300,
+        purpose: AIPurpose.SUMMARIZATION,
+        sessionId,
+      },
+      "You write short, factual summaries of conversations.",
+      userId
+    );
+    const summary = response.text.trim();
+    if (!summary || summary === AUX_ERROR) {
+      logger.warn(`Could not summarize part of session ${sessionId}`);
+      return null;
+    }
+    return summary;
+  }
+}
+
+export const conversationSummaryService = new ConversationSummaryService();
@@ -0,0 +1,447 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  randomBytes,
+} from "crypto";
+import { readFileSync } from "fs";
+import { CredentialKey } from "../models/credential-key.model";
+import { UserState, IIntegration } from "../models/user-state.model";
+import { loggerFactory } from "../utils/logger.service";
+
+const logger = loggerFactory.getLogger("CredentialVault");
+
+const ALGORITHM = "aes-256-gcm";
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+const SEALED_PREFIX = "vault:v1:";
+// What is shown of a masked secret: a prefix, or all of a write-only one
+export const SECRET_MASK = "••••";
+const DATA_KEY_CACHE_MS = 5 * 60 * 1000;
+
+/**
+ * Credential fields that hold secrets. Everything else in an integration's
+ * credentials (page and database ids, client ids) is stored as is.
+ */
+export const SECRET_FIELDS = [
+  "token",
+  "apiKey",
+  "clientSecret",
+  "accessToken",
+  "refreshToken",
+];
+
+interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+/**
+ * Read a 32-byte key given as base64 or hex
+ */
+export function parseMasterKey(raw: string): Buffer {
+  const value = raw.trim();
+  const key = /^[0-9a-f]{64}$/i.test(value)
+    ? Buffer.from(value, "hex")
+    : Buffer.from(value, "base64");
+  if (key.length !== KEY_BYTES) {
+    throw new Error(
+      `Credential master key must be ${KEY_BYTES} bytes, base64 or hex encoded`
+    );
+  }
+  return key;
+}
+
+/**
+ * AES-256-GCM encrypt, bound to `aad`. Returns base64 of iv, tag and
+ * ciphertext.
+ */
+export function encryptWithKey(
+  key: Buffer,
+  plaintext: string,
+  aad: string
+): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  cipher.setAAD(Buffer.from(aad));
+  const ciphertext = Buffer.concat([
+    cipher.update(plaintext, "utf8"),
+    cipher.final(),
+  ]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString(
+    "base64"
+  );
+}
+
+/**
+ * Reverse of encryptWithKey. Throws if the payload was tampered with or was
+ * sealed with a different key or `aad`.
+ */
+export function decryptWithKey(
+  key: Buffer,
+  payload: string,
+  aad: string
+): string {
+  const data = Buffer.from(payload, "base64");
+  const decipher = createDecipheriv(ALGORITHM, key, data.subarray(0, IV_BYTES));
+  decipher.setAAD(Buffer.from(aad));
+  decipher.setAuthTag(data.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+  return Buffer.concat([
+    decipher.update(data.subarray(IV_BYTES + TAG_BYTES)),
+    decipher.final(),
+  ]).toString("utf8");
+}
+
+export function isSealed(value: unknown): value is string {
+  return typeof value === "string" && value.startsWith(SEALED_PREFIX);
+}
+
+/**
+ * What API responses show instead of a secret: the last four characters of
+ * long secrets, nothing of short ones
+ */
+export function maskSecret(plaintext: string): string {
+  return plaintext.length >= 12
+    ? `${SECRET_MASK}${plaintext.slice(-4)}`
+    : SECRET_MASK;
+}
+
+export function isMasked(value: unknown): boolean {
+  return typeof value === "string" && value.startsWith(SECRET_MASK);
+}
+
+/**
+ * Envelope encryption for integration secrets. Each user has a data key
+ * that encrypts their secrets; data keys are stored wrapped with a master
+ * key from CREDENTIAL_MASTER_KEY or CREDENTIAL_MASTER_KEY_FILE. Master keys
+ * listed in CREDENTIAL_PREVIOUS_MASTER_KEYS can still unwrap data keys until
+ * `migrate` re-wraps them.
+ */
+export class CredentialVault {
+  private masterKeys?: { current: MasterKey; previous: MasterKey[] };
+  private dataKeys: Map<string, { key: Buffer; expiresAt: number }> = new Map();
+
+  isConfigured(): boolean {
+    return Boolean(
+      process.env.CREDENTIAL_MASTER_KEY ||
+        process.env.CREDENTIAL_MASTER_KEY_FILE
+    );
+  }
+
+  /**
+   * Encrypt a secret with the user's current data key
+   */
+  async encrypt(userId: string, plaintext: string): Promise<string> {
+    const { version, key } = await this.getActiveKey(userId);
+    return `${SEALED_PREFIX}${version}:${encryptWithKey(key, plaintext, userId)}`;
+  }
+
+  /**
+   * Forget the user's unwrapped data keys
+   */
+  clearUserCache(userId: string): void {
+    for (const cacheKey of this.dataKeys.keys()) {
+      if (cacheKey.startsWith(`${userId}:`)) {
+        this.dataKeys.delete(cacheKey);
+      }
+    }
+  }
+
+  /**
+   * Decrypt a sealed secret. Values that aren't sealed are returned as they
+   * are, so records written before the vault keep working until migrated.
+   */
+  async decrypt(userId: string, value: string): Promise<string> {
+    if (!isSealed(value)) {
+      return value;
+    }
+    const rest = value.slice(SEALED_PREFIX.length);
+    const separator = rest.indexOf(":");
+    const version = Number(rest.slice(0, separator));
+    const key = await this.getKey(userId, version);
+    return decryptWithKey(key, rest.slice(separator + 1), userId);
+  }
+
+  /**
+   * Seal the secret fields of incoming credentials. A secret that is left
+   * out or sent back masked keeps its stored value; null or "" clears it.
+   */
+  async sealCredentials<T extends Record<string, any>>(
+    userId: string,
+    incoming: T,
+    existing: Record<string, any> = {},
+    fields: string[] = SECRET_FIELDS
+  ): Promise<T> {
+    const sealed: Record<string, any> = { ...incoming };
+    for (const field of fields) {
+      const value = incoming[field];
+      if (value === undefined || isMasked(value)) {
+        if (existing[field] !== undefined) {
+          sealed[field] = existing[field];
+        } else {
+          delete sealed[field];
+        }
+      } else if (value === null || value === "") {
+        delete sealed[field];
+      } else if (!isSealed(value)) {
+        sealed[field] = await this.encrypt(userId, String(value));
+      }
+    }
+    return sealed as T;
+  }
+
+  /**
+   * Copy of an integration that is safe to send to the browser
+   */
+  async maskIntegration(
+    userId: string,
+    integration: IIntegration
+  ): Promise<IIntegration> {
+    const plain: IIntegration =
+      typeof (integration as any).toObject === "function"
+        ? (integration as any).toObject()
+        : { ...integration };
+    const credentials: Record<string, any> = { ...(plain.credentials || {}) };
+    for (const field of SECRET_FIELDS) {
+      if (typeof credentials[field] !== "string" || !credentials[field]) {
+        continue;
+      }
+      try {
+        credentials[field] = maskSecret(
+          await this.decrypt(userId, credentials[field])
+        );
+      } catch {
+        credentials[field] = SECRET_MASK;
+      }
+    }
+    return { ...plain, credentials };
+  }
+
+  /**
+   * Give the user a new data key and re-encrypt their stored secrets with
+   * it. Returns how many secrets were re-encrypted.
+   */
+  async rotateUserKey(userId: string): Promise<number> {
+    const latest = await CredentialKey.findOne({ userId })
+      .sort({ version: -1 })
+      .lean()
+      .exec();
+    await this.createKey(userId, (latest?.version ?? 0) + 1);
+
+    let resealed = 0;
+    const userState = await UserState.findOne({ userId }).exec();
+    for (const integration of userState?.integrations || []) {
+      const credentials: Record<string, any> = integration.credentials || {};
+      for (const field of SECRET_FIELDS) {
+        if (typeof credentials[field] === "string" && credentials[field]) {
+          credentials[field] = await this.encrypt(
+            userId,
+            await this.decrypt(userId, credentials[field])
+          );
+          resealed++;
+        }
+      }
+    }
+    if (userState && resealed > 0) {
+      userState.markModified("integrations");
+      await userState.save();
+    }
+
+    // Old keys stay readable for secrets held outside the user state, such
+    // as social connections made before the rotation
+    await CredentialKey.updateMany(
+      { userId, version: { $lte: latest?.version ?? 0 }, retiredAt: null },
+      { $set: { retiredAt: new Date() } }
+    ).exec();
+
+    logger.info(
+      `Rotated credential key for user ${userId} (${resealed} secrets re-encrypted)`
+    );
+    return resealed;
+  }
+
+  /**
+   * Re-wrap data keys still wrapped with a previous master key, then seal
+   * secrets stored in plaintext before the vault existed
+   */
+  async migrate(): Promise<{ rewrapped: number; sealed: number }> {
+    const { current } = this.getMasterKeys();
+
+    let rewrapped = 0;
+    const staleKeys = await CredentialKey.find({
+      masterKeyId: { $ne: current.id },
+    }).exec();
+    for (const record of staleKeys) {
+      const key = this.unwrap(record.wrappedKey, record.masterKeyId, {
+        userId: record.userId,
+        version: record.version,
+      });
+      record.wrappedKey = encryptWithKey(
+        current.key,
+        key.toString("base64"),
+        `${record.userId}:${record.version}`
+      );
+      record.masterKeyId = current.id;
+      await record.save();
+      rewrapped++;
+    }
+
+    let sealed = 0;
+    const cursor = UserState.find({ "integrations.0": { $exists: true } })
+      .select("userId integrations")
+      .cursor();
+    for await (const userState of cursor) {
+      let changed = false;
+      for (const integration of userState.integrations) {
+        const credentials: Record<string, any> = integration.credentials || {};
+        for (const field of SECRET_FIELDS) {
+          const value = credentials[field];
+          if (typeof value === "string" && value && !isSealed(value)) {
+            credentials[field] = await this.encrypt(userState.userId, value);
+            changed = true;
+            sealed++;
+          }
+        }
+      }
+      if (changed) {
+        userState.markModified("integrations");
+        await userState.save();
+      }
+    }
+
+    logger.info(
+      `Credential vault migration: ${rewrapped} data keys re-wrapped, ${sealed} plaintext secrets sealed`
+    );
+    return { rewrapped, sealed };
+  }
+
+  private getMasterKeys(): { current: MasterKey; previous: MasterKey[] } {
+    if (this.masterKeys) {
+      return this.masterKeys;
+    }
+
+    const raw = process.env.CREDENTIAL_MASTER_KEY_FILE
+      ? readFileSync(process.env.CREDENTIAL_MASTER_KEY_FILE, "utf8")
+      : process.env.CREDENTIAL_MASTER_KEY;
+    if (!raw) {
+      throw new Error(
+        "Credential vault has no master key; set CREDENTIAL_MASTER_KEY or CREDENTIAL_MASTER_KEY_FILE"
+      );
+    }
+    const toMasterKey = (value: string): MasterKey => {
+      const key = parseMasterKey(value);
+      return {
+        id: createHash("sha256").update(key).digest("hex").slice(0, 16),
+        key,
+      };
+    };
+
+    this.masterKeys = {
+      current: toMasterKey(raw),
+      previous: (process.env.CREDENTIAL_PREVIOUS_MASTER_KEYS || "")
+        .split(",")
+        .filter((value) => value.trim())
+        .map(toMasterKey),
+    };
+    return this.masterKeys;
+  }
+
+  private unwrap(
+    wrappedKey: string,
+    masterKeyId: string,
+    { userId, version }: { userId: string; version: number }
+  ): Buffer {
+    const { current, previous } = this.getMasterKeys();
+    const master = [current, ...previous].find(
+      (candidate) => candidate.id === masterKeyId
+    );
+    if (!master) {
+      throw new Error(
+        `Master key ${masterKeyId} for user ${userId}'s credential key is not configured`
+      );
+    }
+    return Buffer.from(
+      decryptWithKey(master.key, wrappedKey, `${userId}:${version}`),
+      "base64"
+    );
+  }
+
+  private async getActiveKey(
+    userId: string
+  ): Promise<{ version: number; key: Buffer }> {
+    const active = await CredentialKey.findOne({ userId, retiredAt: null })
+      .sort({ version: -1 })
+      .lean()
+      .exec();
+    if (active) {
+      return {
+        version: active.version,
+        key: await this.getKey(userId, active.version),
+      };
+    }
+
+    const latest = await CredentialKey.findOne({ userId })
+      .sort({ version: -1 })
+      .lean()
+      .exec();
+    const version = (latest?.version ?? 0) + 1;
+    return { version, key: await this.createKey(userId, version) };
+  }
+
+  private async getKey(userId: string, version: number): Promise<Buffer> {
+    const cacheKey = `${userId}:${version}`;
+    const cached = this.dataKeys.get(cacheKey);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.key;
+    }
+
+    const record = await CredentialKey.findOne({ userId, version })
+      .lean()
+      .exec();
+    if (!record) {
+      throw new Error(
+        `Credential key version ${version} not found for user ${userId}`
+      );
+    }
+    const key = this.unwrap(record.wrappedKey, record.masterKeyId, {
+      userId,
+      version,
+    });
+    this.dataKeys.set(cacheKey, {
+      key,
+      expiresAt: Date.now() + DATA_KEY_CACHE_MS,
+    });
+    return key;
+  }
+
+  private async createKey(userId: string, version: number): Promise<Buffer> {
+    const { current } = this.getMasterKeys();
+    const key = randomBytes(KEY_BYTES);
+    try {
+      await CredentialKey.create({
+        userId,
+        version,
+        wrappedKey: encryptWithKey(
+          current.key,
+          key.toString("base64"),
+          `${userId}:${version}`
+        ),
+        masterKeyId: current.id,
+      });
+    } catch (error) {
+      // Another request created this version first; use theirs
+      if ((error as { code?: number }).code === 11000) {
+        return this.getKey(userId, version);
+      }
+      throw error;
+    }
+    this.dataKeys.set(`${userId}:${version}`, {
+      key,
+      expiresAt: Date.now() + DATA_KEY_CACHE_MS,
+    });
+    return key;
+  }
+}
+
+export const credentialVault = new CredentialVault();
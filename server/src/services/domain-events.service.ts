@@ -0,0 +1,61 @@
+import { EventEmitter } from "events";
+import { loggerFactory } from "../utils/logger.service";
+
+const logger = loggerFactory.getLogger("DomainEventsService");
+
+/**
+ * Domain events emitted by services that other parts of the system
+ * (e.g. event triggers) can react to
+ */
+export enum DomainEventType {
+  MEMORY_CREATED = "memory.created",
+  MEMORY_DELETED = "memory.deleted",
+  ACTIVITY_STARTED = "activity.started",
+  ACTIVITY_ENDED = "activity.ended",
+  MESSAGE_RECEIVED = "message.received",
+  GOAL_UPDATED = "goal.updated",
+  THOUGHT_ADDED = "thought.added",
+  EMOTION_CHANGED = "emotion.changed",
+  SESSION_CREATED = "session.created",
+  THINKING_RECORDED = "thinking.recorded",
+  SUMMARY_CREATED = "summary.created",
+}
+
+export type DomainEventListener = (
+  eventType: string,
+  eventData: Record<string, any>
+) => void;
+
+/**
+ * In-process publish/subscribe for domain events.
+ *
+ * Deliberately has no service dependencies so low-level services (memory,
+ * activity, chat) can emit without importing the consumers, which would
+ * otherwise create circular imports.
+ */
+class DomainEventsService {
+  private emitter = new EventEmitter();
+
+  /**
+   * Publish an event. Listener errors are logged and never reach the emitter.
+   */
+  emit(eventType: DomainEventType | string, eventData: Record<string, any>) {
+    for (const listener of this.emitter.listeners("event")) {
+      try {
+        (listener as DomainEventListener)(eventType, eventData);
+      } catch (error) {
+        logger.error(`Listener failed for ${eventType}`, error as Error);
+      }
+    }
+  }
+
+  /**
+   * Subscribe to all domain events. Returns an unsubscribe function.
+   */
+  subscribe(listener: DomainEventListener): () => void {
+    this.emitter.on("event", listener);
+    return () => this.emitter.off("event", listener);
+  }
+}
+
+export const domainEventsService = new DomainEventsService();
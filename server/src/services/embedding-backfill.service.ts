@@ -0,0 +1,186 @@
+import { Model } from "mongoose";
+import { Memory } from "../models/memory.model";
+import { VectorDocument } from "../models/vector-document.model";
+import {
+  embeddingService,
+  EmbeddingSignature,
+  isSameEmbeddingSpace,
+} from "./embedding.service";
+import { loggerFactory } from "../utils/logger.service";
+
+const logger = loggerFactory.getLogger("EmbeddingBackfillService");
+
+export interface BackfillOptions {
+  userId?: string;
+  batchSize?: number;
+}
+
+export interface BackfillReport {
+  signature: EmbeddingSignature;
+  memories: number;
+  vectorDocuments: number;
+  completed: boolean;
+  error?: string;
+}
+
+interface EmbeddableDoc {
+  _id: any;
+  text: string;
+}
+
+/**
+ * Re-embeds Memory and VectorDocument records whose stored vectors were not
+ * produced by the active embedding model/version (including legacy random
+ * vectors that carry no signature at all).
+ */
+class EmbeddingBackfillService {
+  private running = false;
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  private staleQuery(signature: EmbeddingSignature, userId?: string) {
+    const query: any = {
+      $or: [
+        { embeddingModel: { $ne: signature.model } },
+        { embeddingVersion: { $ne: signature.version } },
+      ],
+    };
+    if (userId) {
+      query.userId = userId;
+    }
+    return query;
+  }
+
+  /**
+   * Count records that still need re-embedding for the active signature.
+   */
+  async getStatus(userId?: string): Promise<{
+    signature: EmbeddingSignature;
+    staleMemories: number;
+    staleVectorDocuments: number;
+    running: boolean;
+  }> {
+    const signature = embeddingService.getActiveSignature();
+    const query = this.staleQuery(signature, userId);
+    const [staleMemories, staleVectorDocuments] = await Promise.all([
+      Memory.countDocuments(query).exec(),
+      VectorDocument.countDocuments(query).exec(),
+    ]);
+    return {
+      signature,
+      staleMemories,
+      staleVectorDocuments,
+      running: this.running,
+    };
+  }
+
+  /**
+   * Run the backfill to completion. Only one run may be active at a time.
+   */
+  async run(options: BackfillOptions = {}): Promise<BackfillReport> {
+    const signature = embeddingService.getActiveSignature();
+    const report: BackfillReport = {
+      signature,
+      memories: 0,
+      vectorDocuments: 0,
+      completed: false,
+    };
+
+    if (this.running) {
+      report.error = "Backfill already running";
+      return report;
+    }
+
+    this.running = true;
+    logger.info(
+      `Starting embedding backfill to ${signature.model} (v${signature.version})`,
+      { userId: options.userId }
+    );
+
+    try {
+      report.memories = await this.backfillModel(
+        Memory as unknown as Model<EmbeddableDoc>,
+        signature,
+        options
+      );
+      report.vectorDocuments = await this.backfillModel(
+        VectorDocument as unknown as Model<EmbeddableDoc>,
+        signature,
+        options
+      );
+      report.completed = true;
+      logger.info("Embedding backfill completed", { ...report });
+    } catch (error) {
+      report.error = (error as Error).message;
+      logger.error("Embedding backfill failed", error as Error, { ...report });
+    } finally {
+      this.running = false;
+    }
+
+    return report;
+  }
+
+  private async backfillModel(
+    model: Model<EmbeddableDoc>,
+    signature: EmbeddingSignature,
+    options: BackfillOptions
+  ): Promise<number> {
+    const batchSize = options.batchSize || 50;
+    const query = this.staleQuery(signature, options.userId);
+    let processed = 0;
+
+    while (true) {
+      const batch = await model
+        .find(query)
+        .select("_id text")
+        .limit(batchSize)
+        .lean<EmbeddableDoc[]>()
+        .exec();
+
+      if (batch.length === 0) {
+        return processed;
+      }
+
+      const embeddings = await embeddingService.embedMany(
+        batch.map((doc) => doc.text)
+      );
+
+      // If the provider fell back to another model the records would stay
+      // stale and this loop would never terminate, so stop here instead.
+      const mismatched = embeddings.find(
+        (e) =>
+          !isSameEmbeddingSpace(
+            { embeddingModel: e.model, embeddingVersion: e.version },
+            signature
+          )
+      );
+      if (mismatched) {
+        throw new Error(
+          `Embedding provider returned ${mismatched.model} instead of ${signature.model}`
+        );
+      }
+
+      await model.bulkWrite(
+        batch.map((doc, i) => ({
+          updateOne: {
+            filter: { _id: doc._id },
+            update: {
+              $set: {
+                embedding: embeddings[i].vector,
+                embeddingModel: embeddings[i].model,
+                embeddingVersion: embeddings[i].version,
+              },
+            },
+          },
+        }))
+      );
+
+      processed += batch.length;
+      logger.debug(`Re-embedded ${processed} ${model.modelName} records`);
+    }
+  }
+}
+
+export const embeddingBackfillService = new EmbeddingBackfillService();
@@ -0,0 +1,279 @@
+import { OllamaEmbeddings } from "@langchain/ollama";
+import { modelService } from "./model.service";
+import { loggerFactory } from "../utils/logger.service";
+
+const logger = loggerFactory.getLogger("EmbeddingService");
+
+/**
+ * Identifies the model that produced a vector. Vectors are only comparable
+ * when both the model and the version match.
+ */
+export interface EmbeddingSignature {
+  model: string;
+  version: string;
+}
+
+export interface EmbeddingResult extends EmbeddingSignature {
+  vector: number[];
+}
+
+/**
+ * Pluggable backend that turns text into dense vectors.
+ */
+export interface EmbeddingProvider {
+  readonly name: string;
+  getSignature(): EmbeddingSignature;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Ollama embeddings backend (e.g. nomic-embed-text, mxbai-embed-large).
+ */
+export class OllamaEmbeddingProvider implements EmbeddingProvider {
+  readonly name = "ollama";
+  private client: OllamaEmbeddings;
+
+  constructor(
+    private model: string = process.env.OLLAMA_EMBEDDING_MODEL ||
+      "nomic-embed-text",
+    private version: string = process.env.EMBEDDING_VERSION || "1"
+  ) {
+    this.client = new OllamaEmbeddings({
+      baseUrl: process.env.OLLAMA_BASE_URL || "http://localhost:11434",
+      model: this.model,
+    });
+  }
+
+  getSignature(): EmbeddingSignature {
+    return { model: `ollama/${this.model}`, version: this.version };
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return this.client.embedDocuments(texts);
+  }
+}
+
+/**
+ * OpenAI embeddings backend. Reuses the client configured by modelService.
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name = "openai";
+
+  constructor(
+    private model: string = process.env.OPENAI_EMBEDDING_MODEL ||
+      "text-embedding-3-small",
+    private version: string = process.env.EMBEDDING_VERSION || "1"
+  ) {}
+
+  getSignature(): EmbeddingSignature {
+    return { model: `openai/${this.model}`, version: this.version };
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const client = modelService.getOpenAIClient();
+    if (!client) {
+      throw new Error("OpenAI client is not configured");
+    }
+
+    const response = await client.embeddings.create({
+      model: this.model,
+      input: texts,
+    });
+
+    return response.data
+      .sort((a, b) => a.index - b.index)
+      .map((item) => item.embedding);
+  }
+}
+
+const STOP_WORDS = new Set(
+  (
+    "a an and are as at be but by for from has have i in is it its me my of " +
+    "on or so that the this to was we were with you your"
+  ).split(" ")
+);
+
+/**
+ * Deterministic offline fallback using the hashing trick.
+ * Unigrams and bigrams are hashed into a fixed number of buckets with a
+ * signed FNV-1a hash, weighted by sublinear term frequency, and the result
+ * is L2-normalised so cosine similarity reduces to a dot product.
+ */
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  readonly name = "local";
+  // Bump when the tokenisation or weighting changes so old vectors get re-embedded
+  private static readonly ALGORITHM_VERSION = "1";
+
+  constructor(private dimensions: number = 384) {}
+
+  getSignature(): EmbeddingSignature {
+    return {
+      model: `local/hashing-${this.dimensions}`,
+      version: HashingEmbeddingProvider.ALGORITHM_VERSION,
+    };
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const tokens = (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).filter(
+      (token) => !STOP_WORDS.has(token)
+    );
+
+    const counts = new Map<string, number>();
+    const add = (term: string, weight: number) =>
+      counts.set(term, (counts.get(term) || 0) + weight);
+
+    tokens.forEach((token, i) => {
+      add(token, 1);
+      if (i > 0) {
+        add(`${tokens[i - 1]} ${token}`, 0.5);
+      }
+    });
+
+    counts.forEach((count, term) => {
+      const hash = this.fnv1a(term);
+      const bucket = hash % this.dimensions;
+      const sign = (hash >>> 31) & 1 ? -1 : 1;
+      vector[bucket] += sign * (1 + Math.log(count));
+    });
+
+    return normalize(vector);
+  }
+
+  private fnv1a(value: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+      hash ^= value.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm === 0 ? vector : vector.map((v) => v / norm);
+}
+
+/**
+ * Cosine similarity between two vectors. Returns 0 for empty, zero or
+ * differently-sized vectors rather than throwing.
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (!a || !b || a.length === 0 || a.length !== b.length) {
+    return 0;
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) {
+    return 0;
+  }
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+/**
+ * Whether a stored vector was produced by the same model/version as the signature.
+ */
+export function isSameEmbeddingSpace(
+  doc: { embeddingModel?: string; embeddingVersion?: string },
+  signature: EmbeddingSignature
+): boolean {
+  return (
+    doc.embeddingModel === signature.model &&
+    doc.embeddingVersion === signature.version
+  );
+}
+
+/**
+ * Selects the configured embedding provider and falls back to the local
+ * hashing provider when the primary backend is unreachable.
+ */
+class EmbeddingService {
+  private provider: EmbeddingProvider;
+  private fallback = new HashingEmbeddingProvider();
+
+  constructor() {
+    this.provider = this.createProvider(
+      (process.env.EMBEDDING_PROVIDER || "local").toLowerCase()
+    );
+    const { model, version } = this.provider.getSignature();
+    logger.info(`Embedding provider initialized: ${model} (v${version})`);
+  }
+
+  private createProvider(name: string): EmbeddingProvider {
+    switch (name) {
+      case "ollama":
+        return new OllamaEmbeddingProvider();
+      case "openai":
+        return new OpenAIEmbeddingProvider();
+      case "local":
+        return this.fallback;
+      default:
+        logger.warn(`Unknown EMBEDDING_PROVIDER "${name}", using local`);
+        return this.fallback;
+    }
+  }
+
+  /**
+   * Replace the active provider (used by tests and for runtime reconfiguration).
+   */
+  setProvider(provider: EmbeddingProvider): void {
+    this.provider = provider;
+  }
+
+  /**
+   * Signature of the active provider. Documents with a different signature
+   * are considered stale and are picked up by the backfill job.
+   */
+  getActiveSignature(): EmbeddingSignature {
+    return this.provider.getSignature();
+  }
+
+  async embed(text: string): Promise<EmbeddingResult> {
+    const [result] = await this.embedMany([text]);
+    return result;
+  }
+
+  /**
+   * Embed a batch of texts. If the primary provider fails, the whole batch
+   * is embedded locally and tagged with the fallback signature.
+   */
+  async embedMany(texts: string[]): Promise<EmbeddingResult[]> {
+    if (texts.length === 0) {
+      return [];
+    }
+
+    let provider = this.provider;
+    let vectors: number[][];
+    try {
+      vectors = await provider.embed(texts);
+    } catch (error) {
+      if (provider === this.fallback) {
+        throw error;
+      }
+      logger.warn(
+        `Embedding provider ${provider.name} failed, using local fallback`,
+        { error: (error as Error).message }
+      );
+      provider = this.fallback;
+      vectors = await provider.embed(texts);
+    }
+
+    const signature = provider.getSignature();
+    return vectors.map((vector) => ({ vector, ...signature }));
+  }
+}
+
+export const embeddingService = new EmbeddingService();
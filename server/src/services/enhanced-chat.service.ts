@@ -8,7 +8,7 @@ import {
   ChatConfig,
   ChatSessionModel,
 } from "../models/chat.model";
-import { aiService } from "./ai.service";
+import { aiService, PromptInspection } from "./ai.service";
 import { contextService } from "./context.service";
 import { memoryService } from "./memory.service";
 import { chatSessionManager } from "./chat-session.service";
@@ -19,9 +19,9 @@ import { companionStateService } from "./companion-state.service";
 import { CompanionEmotion } from "../models/companion-state.model";
 import MessageModel from "../models/message.model";
 import { activityService } from "./activity.service";
-import { IActivity } from "../models/activity.model";
+import { ActivityType, IActivity } from "../models/activity.model";
 import { Activity } from "../models/activity.model";
-import { IMessage } from "../models/message.model";
+import { IMessage, IMessageProvenance } from "../models/message.model";
 import { modelEnum } from "../constants/models";
 import { actionManager } from "./action-manager.service";
 import { actionLogService } from "./action-log.service";
@@ -31,6 +31,16 @@ import {
   MessageSource,
 } from "./kafka/message-producer.service";
 import { MemoryType, MemoryCategory } from "../models/memory.model";
+import { realtimeService } from "./realtime/realtime.service";
+import { domainEventsService, DomainEventType } from "./domain-events.service";
+import { commitmentService } from "./productivity/commitment.service";
+import { conversationSummaryService } from "./conversation-summary.service";
+import {
+  usageService,
+  QuotaStatus,
+  quotaExceededMessage,
+} from "./usage.service";
+import { gameService } from "./games/game.service";
 
 export type ThoughtCategory =
   | "observation"
@@ -51,12 +61,15 @@ const ACTION_CONFIDENCE_THRESHOLD = 0.6; // Threshold for auto-executing actions
 class EnhancedChatService {
   // Whether to use Kafka for asynchronous message processing
   private _useKafka: boolean = true;
+  // Whether assistant replies are streamed to SSE clients as messageDelta events
+  private _streamResponses: boolean = true;
 
   constructor() {
     // Read environment variable to determine if Kafka should be used
     this._useKafka = process.env.ENABLE_KAFKA !== "false";
+    this._streamResponses = process.env.STREAM_RESPONSES !== "false";
     logger.info(
-      `EnhancedChatService initialized with useKafka=${this._useKafka}`
+      `EnhancedChatService initialized with useKafka=${this._useKafka}, streamResponses=${this._streamResponses}`
     );
   }
 
@@ -169,6 +182,75 @@ class EnhancedChatService {
     }
   }
 
+  /**
+   * Post an unprompted assistant message into the user's global session, or
+   * into `sessionId` when given.
+   * If `prompt` is given the companion writes the message itself, otherwise
+   * `content` is posted verbatim. Used by trigger actions and reminders.
+   */
+  async postProactiveMessage(
+    userId: string,
+    options: {
+      prompt?: string;
+      content?: string;
+      sessionId?: string;
+      metadata?: Record<string, any>;
+    }
+  ): Promise<ChatMessage> {
+    const { finalSessionId, chatSession } = await this._ensureSession(
+      userId,
+      options.sessionId
+    );
+    if (!chatSession) {
+      throw new Error(
+        `Failed to establish session ${options.sessionId || "global"} for user ${userId}.`
+      );
+    }
+
+    let content = options.content?.trim() || "";
+    if (options.prompt) {
+      const memories = await memoryService.getRelevantMemories(
+        userId,
+        options.prompt,
+        5
+      );
+      const memoryContext = memories
+        .map((m) => `- ${m.memory.text}`)
+        .join("\n");
+
+      const response = await aiService.generateAuxiliaryResponse(
+        `${options.prompt}\n\nWhat you know about the user:\n${memoryContext || "- Nothing yet"}`,
+        { temperature: 0.7, max_tokens: 300 },
+        "You are the user's companion reaching out on your own initiative. Write a short, warm, natural message addressed to the user. Do not mention that this message was scheduled or automated.",
+        userId
+      );
+      content = response.text.trim();
+    }
+
+    if (!content || content === "[Error generating auxiliary response]") {
+      throw new Error("Proactive message has no content");
+    }
+
+    const message = new ChatMessageModel({
+      id: uuidv4(),
+      sessionId: finalSessionId,
+      role: MessageRole.ASSISTANT,
+      content,
+      status: MessageStatus.COMPLETED,
+      timestamp: new Date().toISOString(),
+      metadata: { ...options.metadata, isProactive: true },
+    });
+
+    chatSessionManager.addMessage(finalSessionId, message);
+    await this._saveMessageToDB(message, userId);
+    this._publishMessageUpdate(finalSessionId, userId, message);
+
+    logger.info(
+      `Posted proactive message ${message.id} to session ${finalSessionId}`
+    );
+    return message;
+  }
+
   /**
    * Process a text message from Kafka consumer
    * Similar to _processSynchronously but designed for use by message consumer
@@ -199,7 +281,35 @@ class EnhancedChatService {
       );
     }
 
-    // 2. Check for and potentially handle Activity Command
+    domainEventsService.emit(DomainEventType.MESSAGE_RECEIVED, {
+      userId,
+      sessionId: finalSessionId,
+      text: messageText,
+      clientMessageId,
+    });
+
+    // 2. Answers to a pending commitment confirmation are handled directly
+    const commitmentReply = await this._handleCommitmentReply(
+      userId,
+      finalSessionId,
+      messageText,
+      clientMessageId,
+      chatSession
+    );
+    if (commitmentReply) {
+      this._publishMessageUpdate(
+        finalSessionId,
+        userId,
+        commitmentReply.assistantMessage
+      );
+      return {
+        ...commitmentReply,
+        messageId: commitmentReply.assistantMessage.id,
+        aiResponse: commitmentReply.assistantMessage.content,
+      };
+    }
+
+    // 3. Check for and potentially handle Activity Command
     const commandResult = await this._handleActivityCommand(
       userId,
       finalSessionId,
@@ -208,6 +318,11 @@ class EnhancedChatService {
     );
 
     if (commandResult.handled) {
+      this._publishMessageUpdate(
+        finalSessionId,
+        userId,
+        commandResult.responseMessage!
+      );
       return {
         userMessage: commandResult.userMessage!,
         assistantMessage: commandResult.responseMessage!,
@@ -219,7 +334,7 @@ class EnhancedChatService {
     // Update activeActivity based on command result
     let activeActivity = commandResult.currentActivity;
 
-    // 3. Process Non-Command Message
+    // 4. Process Non-Command Message
     const { userMessage, assistantMessage } =
       await this._processNonCommandMessage(
         userId,
@@ -231,8 +346,22 @@ class EnhancedChatService {
         chatSession
       );
 
+    this._publishMessageUpdate(finalSessionId, userId, assistantMessage);
+
     // Post-processing
     await this._updateCompanionState(assistantMessage, userId);
+    this._proposeCommitmentsInBackground(
+      userId,
+      finalSessionId,
+      chatSession,
+      userMessage.id,
+      activeActivity
+    );
+    this._updateConversationSummariesInBackground(
+      userId,
+      finalSessionId,
+      activeActivity
+    );
 
     // Generate title if needed
     if (
@@ -292,7 +421,24 @@ class EnhancedChatService {
       }
     }
 
-    // 2. Check for and potentially handle Activity Command
+    // 2. Answers to a pending commitment confirmation are handled directly
+    const commitmentReply = await this._handleCommitmentReply(
+      userId,
+      sessionId,
+      messageText,
+      clientMessageId,
+      chatSession
+    );
+    if (commitmentReply) {
+      this._publishMessageUpdate(
+        sessionId,
+        userId,
+        commitmentReply.assistantMessage
+      );
+      return commitmentReply.assistantMessage;
+    }
+
+    // 3. Check for and potentially handle Activity Command
     const commandResult = await this._handleActivityCommand(
       userId,
       sessionId,
@@ -300,12 +446,17 @@ class EnhancedChatService {
       clientMessageId
     );
     if (commandResult.handled) {
+      this._publishMessageUpdate(
+        sessionId,
+        userId,
+        commandResult.responseMessage!
+      );
       return commandResult.responseMessage!; // Return the command response
     }
     // Update activeActivity based on command result (e.g., if /end was used)
     let activeActivity = commandResult.currentActivity;
 
-    // 3. Process Non-Command Message (including potential activity message)
+    // 4. Process Non-Command Message (including potential activity message)
     const { userMessage, assistantMessage } =
       await this._processNonCommandMessage(
         userId,
@@ -317,9 +468,23 @@ class EnhancedChatService {
         chatSession
       );
 
+    this._publishMessageUpdate(sessionId, userId, assistantMessage);
+
     // --- Post-processing ---
     // Update companion state based on the final assistant message
     await this._updateCompanionState(assistantMessage, userId);
+    this._proposeCommitmentsInBackground(
+      userId,
+      sessionId,
+      chatSession,
+      userMessage.id,
+      activeActivity
+    );
+    this._updateConversationSummariesInBackground(
+      userId,
+      sessionId,
+      activeActivity
+    );
 
     // Generate title if needed
     if (
@@ -585,6 +750,153 @@ class EnhancedChatService {
     }
   }
 
+  /**
+   * If the session's latest message asks the user to confirm commitments and
+   * this message answers it, creates or dismisses them and records both
+   * messages. Returns null when the message should be processed normally.
+   */
+  private async _handleCommitmentReply(
+    userId: string,
+    sessionId: string,
+    messageText: string,
+    clientMessageId: string | undefined,
+    chatSession: ChatSession
+  ): Promise<{
+    userMessage: ChatMessageModel;
+    assistantMessage: ChatMessageModel;
+  } | null> {
+    const lastMessage =
+      chatSession.chatHistory[chatSession.chatHistory.length - 1];
+    const commitmentIds: string[] | undefined =
+      lastMessage?.role === MessageRole.ASSISTANT
+        ? lastMessage.metadata?.commitmentIds
+        : undefined;
+    if (!commitmentIds?.length) {
+      return null;
+    }
+
+    const response = await commitmentService.handleConfirmationReply(
+      userId,
+      commitmentIds,
+      messageText
+    );
+    if (!response) {
+      return null;
+    }
+
+    const userMessage = new ChatMessageModel({
+      id: clientMessageId || uuidv4(),
+      sessionId,
+      role: MessageRole.USER,
+      content: messageText,
+      status: MessageStatus.COMPLETED,
+      timestamp: new Date().toISOString(),
+      metadata: { commitmentIds },
+    });
+    chatSessionManager.addMessage(sessionId, userMessage);
+    this._saveMessageToDB(userMessage, userId); // Save async
+
+    const assistantMessage = new ChatMessageModel({
+      id: uuidv4(),
+      sessionId,
+      role: MessageRole.ASSISTANT,
+      content: response,
+      status: MessageStatus.COMPLETED,
+      timestamp: new Date().toISOString(),
+      metadata: {
+        userMessageId: userMessage.id,
+        isCommitmentResponse: true,
+        systemGenerated: true,
+      },
+    });
+    chatSessionManager.addMessage(sessionId, assistantMessage);
+    this._saveMessageToDB(assistantMessage, userId); // Save async
+
+    return { userMessage, assistantMessage };
+  }
+
+  /**
+   * Starts commitment extraction over the latest messages without delaying
+   * the reply. If anything new turns up, the companion asks the user in a
+   * follow-up message whether to add it. Skipped during activities.
+   */
+  private _proposeCommitmentsInBackground(
+    userId: string,
+    sessionId: string,
+    chatSession: ChatSession,
+    userMessageId: string,
+    activeActivity: IActivity | null
+  ): void {
+    if (activeActivity || !commitmentService.isEnabled()) {
+      return;
+    }
+
+    const history = chatSession.chatHistory.filter(
+      (msg) => !msg.metadata?.systemGenerated
+    );
+    usageService
+      .allowsBackground(userId)
+      .then((allowed) =>
+        allowed
+          ? commitmentService.extractCommitments(
+              userId,
+              sessionId,
+              history,
+              userMessageId
+            )
+          : []
+      )
+      .then(async (commitments) => {
+        if (commitments.length === 0) {
+          return;
+        }
+        const commitmentIds = commitments.map((c) => c._id);
+        const message = await this.postProactiveMessage(userId, {
+          sessionId,
+          content: await commitmentService.buildConfirmationMessage(
+            userId,
+            commitments
+          ),
+          metadata: { commitmentIds, systemGenerated: true },
+        });
+        await commitmentService.attachConfirmationMessage(
+          commitmentIds,
+          message.id
+        );
+      })
+      .catch((error) =>
+        logger.warn(`Commitment extraction failed for user ${userId}`, {
+          error: (error as Error).message,
+        })
+      );
+  }
+
+  /**
+   * Summarize older parts of the conversation that have no summary yet.
+   */
+  private _updateConversationSummariesInBackground(
+    userId: string,
+    sessionId: string,
+    activeActivity: IActivity | null
+  ): void {
+    usageService
+      .allowsBackground(userId)
+      .then((allowed) =>
+        allowed
+          ? conversationSummaryService.updateSummaries(
+              userId,
+              sessionId,
+              activeActivity?._id
+            )
+          : undefined
+      )
+      .catch((error) =>
+        logger.warn(`Conversation summaries failed for session ${sessionId}`, {
+          error: (error as Error).message,
+        })
+      );
+  }
+
   /**
    * Checks if an activity continuation prompt is needed and sends it.
    * Returns the prompt message if sent, otherwise null.
@@ -760,7 +1072,31 @@ class EnhancedChatService {
       }
     }
 
-    // 4. Generate AI Response (if no continuation prompt was sent)
+    // 4. Refuse to generate once the user's plan is used up for the month
+    const quota = await usageService.getExceededQuota(userId);
+    if (quota) {
+      const quotaMessage = this._buildQuotaExceededMessage(
+        sessionId,
+        userMessage.id,
+        quota
+      );
+      chatSessionManager.addMessage(sessionId, quotaMessage);
+      this._saveMessageToDB(quotaMessage, userId);
+      return { userMessage, assistantMessage: quotaMessage };
+    }
+
+    // Games with a rule engine play the user's move, and the AI's reply,
+    // before the model narrates them
+    if (currentActivity?.type === ActivityType.GAME) {
+      currentActivity = await gameService.playTurn(
+        userId,
+        sessionId,
+        currentActivity,
+        messageText
+      );
+    }
+
+    // 5. Generate AI Response (if no continuation prompt was sent)
     const assistantMessagePlaceholder = new ChatMessageModel({
       id: uuidv4(),
       sessionId: sessionId,
@@ -779,7 +1115,16 @@ class EnhancedChatService {
         sessionId,
         messageText,
         userMessage.id,
-        currentActivity // Pass the potentially updated activity state
+        currentActivity, // Pass the potentially updated activity state
+        this._streamResponses
+          ? {
+              assistantMessageId: assistantMessagePlaceholder.id,
+              onToken: this._createDeltaStreamer(
+                sessionId,
+                assistantMessagePlaceholder.id
+              ),
+            }
+          : undefined
       );
 
       logger.info(
@@ -795,6 +1140,10 @@ class EnhancedChatService {
           activityType: currentActivity.type,
           activityName: currentActivity.name,
         };
+        const game = gameService.getSnapshot(currentActivity);
+        if (game) {
+          finalAssistantMessage.metadata.game = game;
+        }
 
         // Associate assistant message with activity (without reprocessing engagement)
         await activityService.addMessageToActivity(
@@ -816,7 +1165,7 @@ class EnhancedChatService {
         );
       }
 
-      // 5. Check for action triggers in AI response
+      // 6. Check for action triggers in AI response
       const actionResult =
         await actionManager.checkAndExecuteActionsFromMessage(
           userId,
@@ -847,7 +1196,7 @@ class EnhancedChatService {
       logger.debug(
         `Added assistant message ${finalAssistantMessage.id} to manager.`
       );
-      this._saveMessageToDB(finalAssistantMessage, userId); // Save async
+      this._saveMessageToDB(finalAssistantMessage, userId, aiResult.provenance); // Save async
 
       return { userMessage, assistantMessage: finalAssistantMessage };
     } catch (error) {
@@ -878,125 +1227,76 @@ class EnhancedChatService {
   }
 
   /**
-   * Handle updating game state based on messages - COULD BE MOVED TO ActivityService
+   * Assistant message sent instead of a reply when the quota is used up
    */
-  private async _handleGameStateUpdate(
-    userId: string,
+  private _buildQuotaExceededMessage(
     sessionId: string,
-    activityId: string,
-    userMessage: string,
-    assistantMessage: string
-  ): Promise<void> {
-    try {
-      // Get the current activity
-      const activity = await activityService.getActiveActivity(
-        userId,
-        sessionId
-      );
-      if (!activity || activity._id !== activityId) {
-        return;
-      }
-
-      // For tic-tac-toe, look for moves in the messages
-      if (activity.metadata?.gameType === "tictactoe") {
-        const board = activity.state.data.board;
-        const currentPlayer = activity.state.data.currentPlayer;
-        const moves = activity.state.data.moves;
-        let winner = activity.state.data.winner;
-
-        // Check if the AI response indicates a move (e.g., "I place an O in the top right corner")
-        const aiMoveMatch = assistantMessage.match(
-          /(?:I(?:'ll)?\s+(?:place|put|mark|choose))\s+(?:an?\s+)?O\s+(?:in|at)\s+(?:the\s+)?(top|middle|bottom)(?:\s+)(left|middle|right)/i
-        );
-
-        if (aiMoveMatch && currentPlayer === "O" && !winner) {
-          const row = aiMoveMatch[1].toLowerCase();
-          const col = aiMoveMatch[2].toLowerCase();
-
-          let rowIndex = row === "top" ? 0 : row === "middle" ? 1 : 2;
-          let colIndex = col === "left" ? 0 : col === "middle" ? 1 : 2;
-
-          // Update the board if the cell is empty
-          if (board[rowIndex][colIndex] === null) {
-            board[rowIndex][colIndex] = "O";
-
-            // Check for winner or draw
-            winner = this._checkTicTacToeWinner(board);
-
-            // Update activity state
-            await activityService.updateActivityState(activityId, {
-              board,
-              currentPlayer: "X", // Switch to user
-              moves: moves + 1,
-              winner,
-            });
-          }
-        }
-      }
-    } catch (error) {
-      logger.warn(
-        `Error updating game state for activity ${activityId}:`,
-        error instanceof Error ? error : String(error)
-      );
-    }
+    userMessageId: string,
+    quota: QuotaStatus
+  ): ChatMessageModel {
+    return new ChatMessageModel({
+      id: uuidv4(),
+      sessionId,
+      role: MessageRole.ASSISTANT,
+      content: quotaExceededMessage(quota),
+      status: MessageStatus.COMPLETED,
+      timestamp: new Date().toISOString(),
+      metadata: {
+        userMessageId,
+        systemGenerated: true,
+        quotaExceeded: true,
+        plan: quota.plan,
+      },
+    });
   }
 
   /**
-   * Check if there's a winner in tic-tac-toe - COULD BE MOVED TO ActivityService
+   * Builds a token handler that forwards each streamed delta of an assistant
+   * reply to the session's SSE clients as a `messageDelta` event.
+   * Deltas go through the realtime bus, so a client that reconnects mid-reply
+   * gets the missed ones replayed and then receives the remainder.
    */
-  private _checkTicTacToeWinner(board: (string | null)[][]): string | null {
-    // Check rows
-    for (let i = 0; i < 3; i++) {
-      if (
-        board[i][0] &&
-        board[i][0] === board[i][1] &&
-        board[i][0] === board[i][2]
-      ) {
-        return board[i][0];
-      }
-    }
-
-    // Check columns
-    for (let i = 0; i < 3; i++) {
-      if (
-        board[0][i] &&
-        board[0][i] === board[1][i] &&
-        board[0][i] === board[2][i]
-      ) {
-        return board[0][i];
-      }
-    }
-
-    // Check diagonals
-    if (
-      board[0][0] &&
-      board[0][0] === board[1][1] &&
-      board[0][0] === board[2][2]
-    ) {
-      return board[0][0];
-    }
-
-    if (
-      board[0][2] &&
-      board[0][2] === board[1][1] &&
-      board[0][2] === board[2][0]
-    ) {
-      return board[0][2];
-    }
-
-    // Check for draw
-    let isDraw = true;
-    for (let i = 0; i < 3; i++) {
-      for (let j = 0; j < 3; j++) {
-        if (board[i][j] === null) {
-          isDraw = false;
-          break;
-        }
-      }
-      if (!isDraw) break;
-    }
+  private _createDeltaStreamer(
+    sessionId: string,
+    assistantMessageId: string
+  ): (delta: string) => void {
+    let index = 0;
+    return (delta: string) => {
+      realtimeService.publishToSession(sessionId, "messageDelta", {
+        messageId: assistantMessageId,
+        sessionId,
+        role: MessageRole.ASSISTANT,
+        delta,
+        index: index++,
+        status: MessageStatus.PROCESSING,
+        timestamp: new Date().toISOString(),
+      });
+    };
+  }
 
-    return isDraw ? "draw" : null;
+  /**
+   * Sends the completed assistant message to the session's SSE clients as a
+   * final `messageUpdate`, replacing any partial text streamed before it.
+   */
+  private _publishMessageUpdate(
+    sessionId: string,
+    userId: string,
+    message: ChatMessage
+  ): void {
+    realtimeService.publishToSession(sessionId, "messageUpdate", {
+      messageId: message.id,
+      sessionId,
+      role: message.role,
+      content: message.content,
+      status: message.status,
+      timestamp: message.timestamp,
+      userId,
+      metadata: message.metadata,
+    });
+    realtimeService.publishToSession(sessionId, "typing", {
+      isTyping: false,
+      messageId: message.id,
+    });
   }
 
   /**
@@ -1187,8 +1487,13 @@ class EnhancedChatService {
 
   /**
    * Saves a message to the database asynchronously and creates a memory entry for user messages.
+   * Assistant replies keep the provenance of their prompt; the memories in it count as accessed.
    */
-  private async _saveMessageToDB(message: ChatMessageModel, userId: string) {
+  private async _saveMessageToDB(
+    message: ChatMessageModel,
+    userId: string,
+    provenance?: IMessageProvenance
+  ) {
     try {
       logger.debug(`Saving message ${message.id} to DB`);
 
@@ -1217,8 +1522,20 @@ class EnhancedChatService {
         timestamp: new Date(message.timestamp),
         metadata: message.metadata ? { ...message.metadata } : undefined,
         executedActions,
+        provenance,
+        referencedMemories: provenance?.memories.map(
+          (memory) => memory.memoryId
+        ),
       });
 
+      for (const memory of provenance?.memories || []) {
+        memoryService.recordMemoryAccess(memory.memoryId).catch((error) =>
+          logger.warn(`Failed to record access to memory ${memory.memoryId}`, {
+            error: (error as Error).message,
+          })
+        );
+      }
+
       // For user messages, also create a memory entry
       if (
         message.role === MessageRole.USER &&
@@ -1508,6 +1825,38 @@ class EnhancedChatService {
    * Public method to reload a session's history with option to include deleted messages
    * Useful for admin interfaces or when a user wants to view deleted messages
    */
+  /**
+   * The prompt the companion would be given if the user sent `messageText`
+   * now, without sending or storing anything
+   */
+  async inspectPrompt(
+    userId: string,
+    messageText: string,
+    sessionId?: string
+  ): Promise<PromptInspection & { sessionId: string }> {
+    const { finalSessionId, chatSession, initialActivity } =
+      await this._ensureSession(userId, sessionId);
+    if (!chatSession) {
+      throw new Error(`Could not load session for user ${userId}`);
+    }
+
+    const userMessage = new ChatMessageModel({
+      sessionId: finalSessionId,
+      role: MessageRole.USER,
+      content: messageText,
+    });
+    const parameters = await aiService.getParameters(userId, finalSessionId);
+    const { inspection } = await aiService.preparePrompt(
+      userId,
+      finalSessionId,
+      messageText,
+      [...chatSession.chatHistory, userMessage],
+      initialActivity,
+      parameters
+    );
+    return { sessionId: finalSessionId, ...inspection };
+  }
+
   async reloadSessionHistory(
     sessionId: string,
     userId: string,
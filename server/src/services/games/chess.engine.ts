@@ -0,0 +1,636 @@
+import {
+  GameEngine,
+  GameOutcome,
+  findLegalMove,
+  readMoveText,
+} from "./game-engine";
+
+// Positions are stored as FEN strings
+export type ChessBoard = string;
+
+/**
+ * A move between two squares, numbered 0 (a8) to 63 (h1). `notation` keeps
+ * what the user wrote when it didn't name a legal move.
+ */
+export interface ChessMove {
+  from: number;
+  to: number;
+  promotion?: "q" | "r" | "b" | "n";
+  notation?: string;
+}
+
+type Color = "w" | "b";
+
+interface Position {
+  squares: Array<string | null>; // White pieces are upper case
+  turn: Color;
+  castling: string; // Subset of "KQkq"
+  enPassant: number | null;
+  halfmove: number;
+  fullmove: number;
+}
+
+export const START_FEN =
+  "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1";
+
+const FILES = "abcdefgh";
+const MOVE_VERBS = ["(?:i(?:'ll| will) )?(?:play|move)", "let's play"];
+const PIECE_NAMES: Record<string, string> = {
+  p: "pawn",
+  n: "knight",
+  b: "bishop",
+  r: "rook",
+  q: "queen",
+  k: "king",
+};
+const PIECE_VALUES: Record<string, number> = {
+  p: 1,
+  n: 3,
+  b: 3,
+  r: 5,
+  q: 9,
+  k: 0,
+};
+const KNIGHT_STEPS = [
+  [-2, -1],
+  [-2, 1],
+  [-1, -2],
+  [-1, 2],
+  [1, -2],
+  [1, 2],
+  [2, -1],
+  [2, 1],
+];
+const KING_STEPS = [
+  [-1, -1],
+  [-1, 0],
+  [-1, 1],
+  [0, -1],
+  [0, 1],
+  [1, -1],
+  [1, 0],
+  [1, 1],
+];
+const DIAGONALS = [
+  [-1, -1],
+  [-1, 1],
+  [1, -1],
+  [1, 1],
+];
+const STRAIGHTS = [
+  [-1, 0],
+  [1, 0],
+  [0, -1],
+  [0, 1],
+];
+// King and rook squares for each castling right
+const CASTLING: Record<
+  string,
+  { king: number; to: number; rook: number; rookTo: number; empty: number[] }
+> = {
+  K: { king: 60, to: 62, rook: 63, rookTo: 61, empty: [61, 62] },
+  Q: { king: 60, to: 58, rook: 56, rookTo: 59, empty: [57, 58, 59] },
+  k: { king: 4, to: 6, rook: 7, rookTo: 5, empty: [5, 6] },
+  q: { king: 4, to: 2, rook: 0, rookTo: 3, empty: [1, 2, 3] },
+};
+
+const squareName = (index: number): string =>
+  `${FILES[index % 8]}${8 - Math.floor(index / 8)}`;
+
+const squareIndex = (name: string): number =>
+  (8 - Number(name[1])) * 8 + FILES.indexOf(name[0].toLowerCase());
+
+const colorOf = (piece: string): Color =>
+  piece === piece.toUpperCase() ? "w" : "b";
+
+const opponent = (color: Color): Color => (color === "w" ? "b" : "w");
+
+const onBoard = (row: number, col: number): boolean =>
+  row >= 0 && row < 8 && col >= 0 && col < 8;
+
+export function parseFen(fen: string): Position {
+  const [placement, turn, castling, enPassant, halfmove, fullmove] =
+    fen.split(" ");
+  const squares: Array<string | null> = [];
+  for (const char of placement.replace(/\//g, "")) {
+    if (/\d/.test(char)) {
+      squares.push(...Array(Number(char)).fill(null));
+    } else {
+      squares.push(char);
+    }
+  }
+  return {
+    squares,
+    turn: turn === "b" ? "b" : "w",
+    castling: castling === "-" ? "" : castling,
+    enPassant: enPassant && enPassant !== "-" ? squareIndex(enPassant) : null,
+    halfmove: Number(halfmove) || 0,
+    fullmove: Number(fullmove) || 1,
+  };
+}
+
+export function toFen(position: Position): string {
+  const rows: string[] = [];
+  for (let row = 0; row < 8; row++) {
+    let text = "";
+    let empty = 0;
+    for (let col = 0; col < 8; col++) {
+      const piece = position.squares[row * 8 + col];
+      if (piece) {
+        text += (empty || "") + piece;
+        empty = 0;
+      } else {
+        empty++;
+      }
+    }
+    rows.push(text + (empty || ""));
+  }
+  return [
+    rows.join("/"),
+    position.turn,
+    position.castling || "-",
+    position.enPassant === null ? "-" : squareName(position.enPassant),
+    position.halfmove,
+    position.fullmove,
+  ].join(" ");
+}
+
+const isAttacked = (position: Position, target: number, by: Color): boolean => {
+  const row = Math.floor(target / 8);
+  const col = target % 8;
+  const isPiece = (r: number, c: number, types: string) => {
+    if (!onBoard(r, c)) return false;
+    const piece = position.squares[r * 8 + c];
+    return (
+      !!piece && colorOf(piece) === by && types.includes(piece.toLowerCase())
+    );
+  };
+
+  // Pawns attack towards the other side's home rank
+  const pawnRow = by === "w" ? row + 1 : row - 1;
+  if (isPiece(pawnRow, col - 1, "p") || isPiece(pawnRow, col + 1, "p")) {
+    return true;
+  }
+  if (KNIGHT_STEPS.some(([dr, dc]) => isPiece(row + dr, col + dc, "n"))) {
+    return true;
+  }
+  if (KING_STEPS.some(([dr, dc]) => isPiece(row + dr, col + dc, "k"))) {
+    return true;
+  }
+
+  const slides: Array<[number[][], string]> = [
+    [DIAGONALS, "bq"],
+    [STRAIGHTS, "rq"],
+  ];
+  for (const [directions, types] of slides) {
+    for (const [dr, dc] of directions) {
+      let r = row + dr;
+      let c = col + dc;
+      while (onBoard(r, c)) {
+        if (position.squares[r * 8 + c]) {
+          if (isPiece(r, c, types)) return true;
+          break;
+        }
+        r += dr;
+        c += dc;
+      }
+    }
+  }
+  return false;
+};
+
+const kingSquare = (position: Position, color: Color): number =>
+  position.squares.indexOf(color === "w" ? "K" : "k");
+
+const inCheck = (position: Position, color: Color = position.turn): boolean =>
+  isAttacked(position, kingSquare(position, color), opponent(color));
+
+/**
+ * Moves that follow each piece's movement rules, before checking whether
+ * they leave the mover's own king in check
+ */
+const pseudoLegalMoves = (position: Position): ChessMove[] => {
+  const moves: ChessMove[] = [];
+  const { squares, turn } = position;
+
+  squares.forEach((piece, from) => {
+    if (!piece || colorOf(piece) !== turn) return;
+    const row = Math.floor(from / 8);
+    const col = from % 8;
+    const type = piece.toLowerCase();
+    const canLand = (r: number, c: number) => {
+      const target = squares[r * 8 + c];
+      return !target || colorOf(target) !== turn;
+    };
+
+    if (type === "p") {
+      const forward = turn === "w" ? -1 : 1;
+      const startRow = turn === "w" ? 6 : 1;
+      const lastRow = turn === "w" ? 0 : 7;
+      const add = (to: number) => {
+        if (Math.floor(to / 8) === lastRow) {
+          for (const promotion of ["q", "r", "b", "n"] as const) {
+            moves.push({ from, to, promotion });
+          }
+        } else {
+          moves.push({ from, to });
+        }
+      };
+
+      const oneStep = from + forward * 8;
+      if (onBoard(row + forward, col) && !squares[oneStep]) {
+        add(oneStep);
+        const twoSteps = from + forward * 16;
+        if (row === startRow && !squares[twoSteps]) {
+          moves.push({ from, to: twoSteps });
+        }
+      }
+      for (const dc of [-1, 1]) {
+        if (!onBoard(row + forward, col + dc)) continue;
+        const to = (row + forward) * 8 + col + dc;
+        const target = squares[to];
+        if ((target && colorOf(target) !== turn) || to === position.enPassant) {
+          add(to);
+        }
+      }
+      return;
+    }
+
+    if (type === "n" || type === "k") {
+      for (const [dr, dc] of type === "n" ? KNIGHT_STEPS : KING_STEPS) {
+        if (onBoard(row + dr, col + dc) && canLand(row + dr, col + dc)) {
+          moves.push({ from, to: (row + dr) * 8 + col + dc });
+        }
+      }
+    } else {
+      const directions =
+        type === "b"
+          ? DIAGONALS
+          : type === "r"
+            ? STRAIGHTS
+            : [...DIAGONALS, ...STRAIGHTS];
+      for (const [dr, dc] of directions) {
+        let r = row + dr;
+        let c = col + dc;
+        while (onBoard(r, c) && canLand(r, c)) {
+          moves.push({ from, to: r * 8 + c });
+          if (squares[r * 8 + c]) break;
+          r += dr;
+          c += dc;
+        }
+      }
+    }
+  });
+
+  // Castling: the king may not start, pass through or land in check
+  for (const right of position.castling.split("")) {
+    const rule = CASTLING[right];
+    if (!rule || (right === right.toUpperCase() ? "w" : "b") !== turn) {
+      continue;
+    }
+    const king = turn === "w" ? "K" : "k";
+    const rook = turn === "w" ? "R" : "r";
+    const passes = [rule.king, (rule.king + rule.to) / 2, rule.to];
+    if (
+      squares[rule.king] === king &&
+      squares[rule.rook] === rook &&
+      rule.empty.every((square) => !squares[square]) &&
+      passes.every((square) => !isAttacked(position, square, opponent(turn)))
+    ) {
+      moves.push({ from: rule.king, to: rule.to });
+    }
+  }
+
+  return moves;
+};
+
+const makeMove = (position: Position, move: ChessMove): Position => {
+  const squares = [...position.squares];
+  const piece = squares[move.from]!;
+  const type = piece.toLowerCase();
+  const captured = squares[move.to];
+
+  squares[move.to] = move.promotion
+    ? position.turn === "w"
+      ? move.promotion.toUpperCase()
+      : move.promotion
+    : piece;
+  squares[move.from] = null;
+
+  // En passant removes the pawn that just passed the target square
+  if (type === "p" && move.to === position.enPassant && !captured) {
+    squares[move.to + (position.turn === "w" ? 8 : -8)] = null;
+  }
+  // Castling moves the rook too
+  if (type === "k" && Math.abs(move.to - move.from) === 2) {
+    const rule = Object.values(CASTLING).find(
+      (candidate) => candidate.king === move.from && candidate.to === move.to
+    )!;
+    squares[rule.rookTo] = squares[rule.rook];
+    squares[rule.rook] = null;
+  }
+
+  // Moving the king or a rook, or losing a rook, gives up castling with it
+  let castling = position.castling;
+  for (const [right, rule] of Object.entries(CASTLING)) {
+    if (
+      move.from === rule.king ||
+      move.from === rule.rook ||
+      move.to === rule.rook
+    ) {
+      castling = castling.replace(right, "");
+    }
+  }
+
+  return {
+    squares,
+    turn: opponent(position.turn),
+    castling,
+    enPassant:
+      type === "p" && Math.abs(move.to - move.from) === 16
+        ? (move.from + move.to) / 2
+        : null,
+    halfmove: type === "p" || captured ? 0 : position.halfmove + 1,
+    fullmove: position.turn === "b" ? position.fullmove + 1 : position.fullmove,
+  };
+};
+
+const legalMovesOf = (position: Position): ChessMove[] =>
+  pseudoLegalMoves(position).filter(
+    (move) => !inCheck(makeMove(position, move), position.turn)
+  );
+
+const sameMove = (a: ChessMove, b: ChessMove): boolean =>
+  a.from === b.from && a.to === b.to && a.promotion === b.promotion;
+
+/**
+ * Only kings, or a king and one minor piece against a bare king
+ */
+const insufficientMaterial = (position: Position): boolean => {
+  const others = position.squares.filter(
+    (piece) => piece && piece.toLowerCase() !== "k"
+  ) as string[];
+  return (
+    others.length === 0 ||
+    (others.length === 1 && "nb".includes(others[0].toLowerCase()))
+  );
+};
+
+const toSan = (position: Position, move: ChessMove): string => {
+  const piece = position.squares[move.from]!;
+  const type = piece.toLowerCase();
+  let san: string;
+
+  if (type === "k" && Math.abs(move.to - move.from) === 2) {
+    san = move.to > move.from ? "O-O" : "O-O-O";
+  } else {
+    const capture =
+      !!position.squares[move.to] ||
+      (type === "p" && move.to === position.enPassant);
+    if (type === "p") {
+      san =
+        (capture ? `${FILES[move.from % 8]}x` : "") +
+        squareName(move.to) +
+        (move.promotion ? `=${move.promotion.toUpperCase()}` : "");
+    } else {
+      // Name the file, rank or square the piece comes from when another
+      // piece of the same kind could also get there
+      const rivals = legalMovesOf(position).filter(
+        (other) =>
+          other.to === move.to &&
+          other.from !== move.from &&
+          position.squares[other.from] === piece
+      );
+      const from = squareName(move.from);
+      let disambiguation = "";
+      if (rivals.length) {
+        if (rivals.every((other) => other.from % 8 !== move.from % 8)) {
+          disambiguation = from[0];
+        } else if (
+          rivals.every(
+            (other) => Math.floor(other.from / 8) !== Math.floor(move.from / 8)
+          )
+        ) {
+          disambiguation = from[1];
+        } else {
+          disambiguation = from;
+        }
+      }
+      san =
+        type.toUpperCase() +
+        disambiguation +
+        (capture ? "x" : "") +
+        squareName(move.to);
+    }
+  }
+
+  const next = makeMove(position, move);
+  if (inCheck(next)) {
+    san += legalMovesOf(next).length ? "+" : "#";
+  }
+  return san;
+};
+
+/**
+ * Standard chess with every rule that decides a game: check, checkmate,
+ * stalemate, castling, en passant, promotion, the fifty-move rule and
+ * insufficient material. The user plays white.
+ */
+class ChessEngine implements GameEngine<ChessBoard, ChessMove> {
+  readonly gameType = "chess";
+  readonly name = "Chess";
+  readonly rules =
+    "Standard chess rules. You play white; moves can be written as e4, Nf3, O-O or e2-e4.";
+  readonly userSide = "white";
+  readonly aiSide = "black";
+
+  createBoard(): ChessBoard {
+    return START_FEN;
+  }
+
+  currentSide(board: ChessBoard): string {
+    return parseFen(board).turn === "w" ? "white" : "black";
+  }
+
+  /**
+   * Understands castling ("O-O", "castle queenside"), squares ("e2e4",
+   * "g1 to f3", "e7-e8=Q") and algebraic notation ("Nf3", "exd5"), on their
+   * own or after "play" or "move"
+   */
+  parseMove(board: ChessBoard, text: string): ChessMove | null {
+    const position = parseFen(board);
+    const homeKing = position.turn === "w" ? 60 : 4;
+
+    const { move } = readMoveText(text, MOVE_VERBS);
+
+    if (
+      /^(?:o-o-o|0-0-0|castle\s+(?:on\s+the\s+)?(?:queen|long)(?:\s*side)?)$/i.test(
+        move
+      )
+    ) {
+      return { from: homeKing, to: homeKing - 2 };
+    }
+    if (
+      /^(?:o-o|0-0|castle(?:\s+(?:on\s+the\s+)?(?:king|short)(?:\s*side)?)?)$/i.test(
+        move
+      )
+    ) {
+      return { from: homeKing, to: homeKing + 2 };
+    }
+
+    const squares = move.match(
+      /^([a-h][1-8])\s*(?:-|x|to)?\s*([a-h][1-8])(?:\s*=?\s*([qrbn]))?$/i
+    );
+    if (squares) {
+      return {
+        from: squareIndex(squares[1]),
+        to: squareIndex(squares[2]),
+        promotion: squares[3]?.toLowerCase() as ChessMove["promotion"],
+      };
+    }
+
+    const san = move.match(
+      /^([KQRBNkqrbn]?[a-h]?[1-8]?x?[a-h][1-8](?:=?[QRBNqrbn])?)[+#]?$/
+    );
+    if (san) {
+      return (
+        findLegalMove(this, board, san[1]) || {
+          from: -1,
+          to: -1,
+          notation: san[1],
+        }
+      );
+    }
+
+    return null;
+  }
+
+  validateMove(board: ChessBoard, move: ChessMove): string | null {
+    if (this.getOutcome(board).status !== "in_progress") {
+      return "The game is already over.";
+    }
+    if (move.from < 0) {
+      return `${move.notation} isn't a legal move in this position.`;
+    }
+
+    const position = parseFen(board);
+    const piece = position.squares[move.from];
+    if (!piece) {
+      return `There's no piece on ${squareName(move.from)}.`;
+    }
+    if (colorOf(piece) !== position.turn) {
+      return `The ${PIECE_NAMES[piece.toLowerCase()]} on ${squareName(move.from)} belongs to the other side.`;
+    }
+
+    const wanted = this.withPromotion(position, move);
+    if (legalMovesOf(position).some((legal) => sameMove(legal, wanted))) {
+      return null;
+    }
+    const description = `The ${PIECE_NAMES[piece.toLowerCase()]} on ${squareName(move.from)} can't move to ${squareName(move.to)}`;
+    if (
+      pseudoLegalMoves(position).some((candidate) =>
+        sameMove(candidate, wanted)
+      )
+    ) {
+      return `${description}: it would leave the king in check.`;
+    }
+    return `${description}.`;
+  }
+
+  legalMoves(board: ChessBoard): ChessMove[] {
+    if (this.getOutcome(board).status !== "in_progress") return [];
+    return legalMovesOf(parseFen(board));
+  }
+
+  applyMove(board: ChessBoard, move: ChessMove): ChessBoard {
+    const position = parseFen(board);
+    return toFen(makeMove(position, this.withPromotion(position, move)));
+  }
+
+  getOutcome(board: ChessBoard): GameOutcome {
+    const position = parseFen(board);
+    if (legalMovesOf(position).length === 0) {
+      if (!inCheck(position)) {
+        return { status: "draw", reason: "stalemate" };
+      }
+      return {
+        status: position.turn === "w" ? "ai_won" : "user_won",
+        reason: "checkmate",
+      };
+    }
+    if (position.halfmove >= 100) {
+      return { status: "draw", reason: "the fifty-move rule" };
+    }
+    if (insufficientMaterial(position)) {
+      return { status: "draw", reason: "insufficient material" };
+    }
+    return { status: "in_progress" };
+  }
+
+  formatMove(board: ChessBoard, move: ChessMove): string {
+    if (move.from < 0) return move.notation || "";
+    const position = parseFen(board);
+    return toSan(position, this.withPromotion(position, move));
+  }
+
+  /**
+   * One move deep: mate if possible, otherwise the best capture that
+   * doesn't hang the capturing piece, preferring checks
+   */
+  chooseMove(board: ChessBoard): ChessMove {
+    const position = parseFen(board);
+    const scored = legalMovesOf(position).map((move) => {
+      const next = makeMove(position, move);
+      const mover = PIECE_VALUES[position.squares[move.from]!.toLowerCase()];
+      const captured = position.squares[move.to];
+      let score = captured ? PIECE_VALUES[captured.toLowerCase()] * 10 : 0;
+      if (move.promotion === "q") score += 80;
+      if (isAttacked(next, move.to, next.turn)) score -= mover * 10;
+      if (inCheck(next)) {
+        score += legalMovesOf(next).length ? 1 : 10000;
+      }
+      return { move, score };
+    });
+    return scored.reduce((best, candidate) =>
+      candidate.score > best.score ? candidate : best
+    ).move;
+  }
+
+  renderText(board: ChessBoard): string {
+    const { squares } = parseFen(board);
+    const rows: string[] = ["  +-----------------+"];
+    for (let row = 0; row < 8; row++) {
+      const cells = squares
+        .slice(row * 8, row * 8 + 8)
+        .map((piece) => piece || ".");
+      rows.push(`${8 - row} | ${cells.join(" ")} |`);
+    }
+    rows.push("  +-----------------+", "    a b c d e f g h");
+    return rows.join("\n");
+  }
+
+  renderGrid(board: ChessBoard): Array<Array<string | null>> {
+    const { squares } = parseFen(board);
+    return Array.from({ length: 8 }, (_, row) =>
+      squares.slice(row * 8, row * 8 + 8)
+    );
+  }
+
+  /**
+   * Moves to the last rank promote to a queen unless the user said otherwise
+   */
+  private withPromotion(position: Position, move: ChessMove): ChessMove {
+    const piece = position.squares[move.from];
+    const lastRow = position.turn === "w" ? 0 : 7;
+    if (
+      piece?.toLowerCase() === "p" &&
+      Math.floor(move.to / 8) === lastRow &&
+      !move.promotion
+    ) {
+      return { from: move.from, to: move.to, promotion: "q" };
+    }
+    return { from: move.from, to: move.to, promotion: move.promotion };
+  }
+}
+
+export const chessEngine = new ChessEngine();
@@ -0,0 +1,18 @@
+import { GameEngine } from "./game-engine";
+import { ticTacToeEngine } from "./tictactoe.engine";
+import { hangmanEngine } from "./hangman.engine";
+import { wordGuessEngine } from "./wordguess.engine";
+import { chessEngine } from "./chess.engine";
+
+export const GAME_ENGINES: GameEngine[] = [
+  ticTacToeEngine,
+  hangmanEngine,
+  wordGuessEngine,
+  chessEngine,
+];
+
+/**
+ * The engine for a game type, or undefined for games played without one
+ */
+export const getGameEngine = (gameType?: string): GameEngine | undefined =>
+  GAME_ENGINES.find((engine) => engine.gameType === gameType);
@@ -0,0 +1,106 @@
+/**
+ * Who a turn belongs to. The user always plays against the companion.
+ */
+export type GamePlayer = "user" | "ai";
+
+export type GameStatus = "in_progress" | "user_won" | "ai_won" | "draw";
+
+export interface GameOutcome {
+  status: GameStatus;
+  reason?: string; // e.g. "checkmate", "three in a row", "out of guesses"
+}
+
+/**
+ * Deterministic rules for one game. Boards are plain JSON so they can be
+ * stored as they are in the activity state, and engines never mutate them:
+ * applyMove returns a new board.
+ *
+ * Moves are exchanged as notation strings (formatMove), which is what the
+ * user sees, what the model picks from and what the move history stores.
+ */
+export interface GameEngine<TBoard = any, TMove = any> {
+  readonly gameType: string;
+  readonly name: string;
+  readonly rules: string;
+  // Side labels as stored in IGameState.currentPlayer and winner
+  readonly userSide: string;
+  readonly aiSide: string;
+
+  createBoard(random?: () => number): TBoard;
+  currentSide(board: TBoard): string;
+  /**
+   * Read a move out of a chat message, or null if the message isn't one.
+   * The move may still be illegal; check it with validateMove.
+   */
+  parseMove(board: TBoard, text: string): TMove | null;
+  /**
+   * Why a move can't be played, or null if it is legal
+   */
+  validateMove(board: TBoard, move: TMove): string | null;
+  legalMoves(board: TBoard): TMove[];
+  applyMove(board: TBoard, move: TMove): TBoard;
+  getOutcome(board: TBoard): GameOutcome;
+  formatMove(board: TBoard, move: TMove): string;
+  /**
+   * A reasonable move for the AI side, used when the model doesn't pick one
+   */
+  chooseMove(board: TBoard): TMove;
+  /**
+   * Monospace picture of the board. Secrets (the hangman word) stay hidden
+   * until the game is over.
+   */
+  renderText(board: TBoard): string;
+  /**
+   * Cells for a graphical board, for games played on a grid
+   */
+  renderGrid?(board: TBoard): Array<Array<string | null>>;
+}
+
+/**
+ * Whose turn it is on a board
+ */
+export const playerToMove = (engine: GameEngine, board: unknown): GamePlayer =>
+  engine.currentSide(board) === engine.userSide ? "user" : "ai";
+
+/**
+ * The legal move written as `notation`, matched loosely: spaces and check
+ * marks don't matter, and case only matters when it tells two moves apart
+ * (Bxc5 and bxc5 in chess).
+ */
+export function findLegalMove<TBoard, TMove>(
+  engine: GameEngine<TBoard, TMove>,
+  board: TBoard,
+  notation: string
+): TMove | null {
+  const strip = (value: string) => value.replace(/[\s+#!?"'.]/g, "");
+  const wanted = strip(notation);
+  if (!wanted) return null;
+
+  const moves = engine
+    .legalMoves(board)
+    .map((move) => ({ move, notation: strip(engine.formatMove(board, move)) }));
+  const exact = moves.find((candidate) => candidate.notation === wanted);
+  if (exact) return exact.move;
+
+  const loose = moves.filter(
+    (candidate) => candidate.notation.toLowerCase() === wanted.toLowerCase()
+  );
+  return loose.length === 1 ? loose[0].move : null;
+}
+
+/**
+ * The move in a message that is nothing but a move, or a move verb followed
+ * by one ("play e4", "guess crane"). `explicit` says whether a verb was
+ * used. Quotes and closing punctuation are dropped; case is kept.
+ */
+export function readMoveText(
+  text: string,
+  verbs: string[]
+): { move: string; explicit: boolean } {
+  const message = text.trim().replace(/\s*[.!?]+$/, "");
+  const verb = new RegExp(`^(?:${verbs.join("|")})\\s+`, "i").exec(message);
+  const move = (verb ? message.slice(verb[0].length) : message)
+    .replace(/^["']|["']$/g, "")
+    .trim();
+  return { move, explicit: verb !== null };
+}
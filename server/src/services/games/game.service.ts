@@ -0,0 +1,212 @@
+import {
+  IActivity,
+  IGameMove,
+  IGameSnapshot,
+  IGameState,
+  IGameTurn,
+} from "../../models/activity.model";
+import { loggerFactory } from "../../utils/logger.service";
+import { activityService } from "../activity.service";
+import { aiService } from "../ai.service";
+import { GameEngine, findLegalMove, playerToMove } from "./game-engine";
+import { getGameEngine } from "./engines";
+
+const logger = loggerFactory.getLogger("GameService");
+
+// Most legal moves listed when asking the model for its move
+const MAX_PROMPT_MOVES = 80;
+
+/**
+ * Plays game activities by their rules. The engine decides what is legal and
+ * who has won; the model only picks the AI's move from the legal ones and
+ * narrates what happened.
+ */
+class GameService {
+  /**
+   * Play the user's message as a move if it is one. A legal move is applied
+   * along with the AI's reply move; an illegal one is recorded with the
+   * reason so the companion can explain it. Returns the updated activity.
+   */
+  async playTurn(
+    userId: string,
+    sessionId: string,
+    activity: IActivity,
+    messageText: string
+  ): Promise<IActivity> {
+    const state = activity.state.data as IGameState;
+    const engine = getGameEngine(state.gameType);
+    if (
+      !engine ||
+      state.board === undefined ||
+      engine.getOutcome(state.board).status !== "in_progress" ||
+      playerToMove(engine, state.board) !== "user"
+    ) {
+      return activity;
+    }
+
+    const move = engine.parseMove(state.board, messageText);
+    if (move === null) {
+      // Just conversation; don't narrate the previous turn again
+      return state.lastTurn
+        ? this._save(activity, engine, state.board, state.moveHistory, null)
+        : activity;
+    }
+
+    const userMove = engine.formatMove(state.board, move);
+    const rejection = engine.validateMove(state.board, move);
+    if (rejection) {
+      logger.debug(`Rejected ${engine.gameType} move "${userMove}"`);
+      return this._save(activity, engine, state.board, state.moveHistory, {
+        rejectedMove: userMove,
+        rejectionReason: rejection,
+      });
+    }
+
+    let board = engine.applyMove(state.board, move);
+    const history: IGameMove[] = [
+      ...(state.moveHistory || []),
+      { player: "user", move: userMove },
+    ];
+    const turn: IGameTurn = { userMove };
+
+    if (
+      engine.getOutcome(board).status === "in_progress" &&
+      playerToMove(engine, board) === "ai"
+    ) {
+      const aiMove = await this._chooseAiMove(userId, sessionId, engine, board);
+      turn.aiMove = engine.formatMove(board, aiMove);
+      history.push({ player: "ai", move: turn.aiMove });
+      board = engine.applyMove(board, aiMove);
+    }
+
+    return this._save(activity, engine, board, history, turn);
+  }
+
+  /**
+   * The board to show with a reply, or null if the activity isn't a game
+   * with an engine
+   */
+  getSnapshot(activity: IActivity | null | undefined): IGameSnapshot | null {
+    const state = activity?.state?.data as IGameState | undefined;
+    const engine = getGameEngine(state?.gameType);
+    if (!engine || !state || state.board === undefined) return null;
+
+    const outcome = engine.getOutcome(state.board);
+    return {
+      gameType: engine.gameType,
+      name: engine.name,
+      status: outcome.status,
+      outcomeReason: outcome.reason,
+      text: engine.renderText(state.board),
+      grid: engine.renderGrid?.(state.board),
+      lastTurn: state.lastTurn,
+    };
+  }
+
+  /**
+   * Ask the model for a move, constrained to the legal ones by a response
+   * schema where the provider supports one. Anything that isn't one of them
+   * falls back to the engine's own choice.
+   */
+  private async _chooseAiMove(
+    userId: string,
+    sessionId: string,
+    engine: GameEngine,
+    board: unknown
+  ): Promise<unknown> {
+    const legalMoves = engine
+      .legalMoves(board)
+      .map((move) => engine.formatMove(board, move));
+    if (legalMoves.length > 1) {
+      const prompt = `You are playing ${engine.name} as ${engine.aiSide}. Rules: ${engine.rules}
+
+Current board:
+${engine.renderText(board)}
+
+Legal moves: ${legalMoves.slice(0, MAX_PROMPT_MOVES).join(", ")}
+
+Choose your move. Respond ONLY with a JSON object in this format:
+{"move": "<one of the legal moves, exactly as written>"}`;
+
+      try {
+        const response = await aiService.generateAuxiliaryResponse(
+          prompt,
+          {
+            temperature: 0.4,
+            max_tokens: 40,
+            sessionId,
+            usagePurpose: "game_move",
+            responseSchema: {
+              type: "object",
+              properties: { move: { type: "string", enum: legalMoves } },
+              required: ["move"],
+              additionalProperties: false,
+            },
+          },
+          "You are a game-playing assistant. You only ever answer with a legal move.",
+          userId
+        );
+        const jsonMatch = response.text.match(/\{[\s\S]*\}/);
+        const choice = jsonMatch ? JSON.parse(jsonMatch[0]).move : undefined;
+        if (typeof choice === "string") {
+          const move = findLegalMove(engine, board, choice);
+          if (move !== null) return move;
+        }
+        logger.warn(
+          `Model chose an illegal ${engine.gameType} move, using the engine's`,
+          { choice }
+        );
+      } catch (error) {
+        logger.warn(`Failed to get a ${engine.gameType} move from the model`, {
+          error: (error as Error).message,
+        });
+      }
+    }
+    return engine.chooseMove(board);
+  }
+
+  private async _save(
+    activity: IActivity,
+    engine: GameEngine,
+    board: unknown,
+    moveHistory: IGameMove[] | undefined,
+    lastTurn: IGameTurn | null
+  ): Promise<IActivity> {
+    const state = activity.state.data as IGameState;
+    const outcome = engine.getOutcome(board);
+    const winner =
+      outcome.status === "user_won"
+        ? engine.userSide
+        : outcome.status === "ai_won"
+          ? engine.aiSide
+          : outcome.status === "draw"
+            ? "draw"
+            : null;
+
+    const updates: Partial<IGameState> = {
+      board,
+      currentPlayer: engine.currentSide(board),
+      moves: moveHistory?.length || 0,
+      moveHistory: moveHistory || [],
+      lastTurn,
+      winner,
+      status: outcome.status,
+      outcomeReason: outcome.reason,
+    };
+    // Turns are only played while the game is in progress, so a win is new
+    if (winner && winner !== "draw") {
+      updates.score = {
+        ...state.score,
+        [winner]: (state.score?.[winner] || 0) + 1,
+      };
+    }
+
+    const updated = await activityService.updateActivityState(
+      activity._id,
+      updates
+    );
+    return updated || activity;
+  }
+}
+
+export const gameService = new GameService();
@@ -0,0 +1,158 @@
+import { GameEngine, GameOutcome, readMoveText } from "./game-engine";
+import { HANGMAN_WORDS, pickWord } from "./word-lists";
+
+export interface HangmanBoard {
+  word: string; // Secret until the game is over
+  guesses: string[]; // Letters and whole-word guesses, in order
+  maxMisses: number;
+}
+
+// Letters tried first when a move is needed without the model
+const LETTER_FREQUENCY = "etaoinshrdlcumwfgypbvkjxqz";
+
+// Verbs before a guessed letter; a guessed word needs one of WORD_VERBS
+const LETTER_VERBS = ["(?:the )?letter", "try", "is there an?", "any"];
+const WORD_VERBS = [
+  "guess(?: the (?:letter|word))?",
+  "solve(?: it)?",
+  "(?:the word|the answer|my guess) is",
+];
+
+const GALLOWS = [
+  ["", "", ""],
+  ["   O", "", ""],
+  ["   O", "   |", ""],
+  ["   O", "  /|", ""],
+  ["   O", "  /|\\", ""],
+  ["   O", "  /|\\", "  /"],
+  ["   O", "  /|\\", "  / \\"],
+];
+
+/**
+ * Hangman with the companion as the host: it picks the word when the game
+ * starts and the user guesses letters, or the whole word, until they solve
+ * it or run out of misses.
+ */
+class HangmanEngine implements GameEngine<HangmanBoard, string> {
+  readonly gameType = "hangman";
+  readonly name = "Hangman";
+  readonly rules =
+    "Guess the hidden word one letter at a time, or guess the whole word. Six misses and the game is lost.";
+  readonly userSide = "guesser";
+  readonly aiSide = "host";
+
+  createBoard(random: () => number = Math.random): HangmanBoard {
+    return {
+      word: pickWord(HANGMAN_WORDS, random),
+      guesses: [],
+      maxMisses: GALLOWS.length - 1,
+    };
+  }
+
+  currentSide(): string {
+    return this.userSide;
+  }
+
+  /**
+   * Understands a lone letter, "guess e", "is there an e?", "the word is
+   * castle" and a lone word as long as the secret one
+   */
+  parseMove(board: HangmanBoard, text: string): string | null {
+    const phrased = readMoveText(text, WORD_VERBS);
+    const { move, explicit } = phrased.explicit
+      ? phrased
+      : readMoveText(text, LETTER_VERBS);
+    const guess = move.toLowerCase();
+
+    const letter = guess.match(
+      /^([a-z])(?:\s+(?:in (?:it|the word)|please))?$/
+    );
+    if (letter) return letter[1];
+
+    if (!/^[a-z]{2,}$/.test(guess)) return null;
+    return phrased.explicit || (!explicit && guess.length === board.word.length)
+      ? guess
+      : null;
+  }
+
+  validateMove(board: HangmanBoard, guess: string): string | null {
+    if (this.getOutcome(board).status !== "in_progress") {
+      return "The game is already over.";
+    }
+    if (!/^[a-z]+$/.test(guess)) {
+      return "Guesses can only use the letters a to z.";
+    }
+    if (board.guesses.includes(guess)) {
+      return `${guess.toUpperCase()} has already been guessed.`;
+    }
+    return null;
+  }
+
+  legalMoves(board: HangmanBoard): string[] {
+    if (this.getOutcome(board).status !== "in_progress") return [];
+    return LETTER_FREQUENCY.split("").filter(
+      (letter) => !board.guesses.includes(letter)
+    );
+  }
+
+  applyMove(board: HangmanBoard, guess: string): HangmanBoard {
+    return { ...board, guesses: [...board.guesses, guess] };
+  }
+
+  getOutcome(board: HangmanBoard): GameOutcome {
+    if (board.guesses.includes(board.word) || this.remaining(board) === 0) {
+      return { status: "user_won", reason: "the word was guessed" };
+    }
+    if (this.misses(board).length >= board.maxMisses) {
+      return { status: "ai_won", reason: "out of guesses" };
+    }
+    return { status: "in_progress" };
+  }
+
+  formatMove(_board: HangmanBoard, guess: string): string {
+    return guess.toUpperCase();
+  }
+
+  chooseMove(board: HangmanBoard): string {
+    return this.legalMoves(board)[0];
+  }
+
+  renderText(board: HangmanBoard): string {
+    const over = this.getOutcome(board).status !== "in_progress";
+    const misses = this.misses(board);
+    const pattern = board.word
+      .split("")
+      .map((letter) =>
+        over || board.guesses.includes(letter) ? letter.toUpperCase() : "_"
+      )
+      .join(" ");
+
+    return [
+      "  +---+",
+      ...GALLOWS[Math.min(misses.length, board.maxMisses)].map(
+        (line) => `  |${line}`
+      ),
+      " =====",
+      "",
+      `  ${pattern}`,
+      "",
+      `Misses (${misses.length}/${board.maxMisses}): ${
+        misses.map((miss) => miss.toUpperCase()).join(" ") || "none"
+      }`,
+    ].join("\n");
+  }
+
+  private misses(board: HangmanBoard): string[] {
+    return board.guesses.filter((guess) =>
+      guess.length === 1 ? !board.word.includes(guess) : guess !== board.word
+    );
+  }
+
+  private remaining(board: HangmanBoard): number {
+    return new Set(
+      board.word.split("").filter((letter) => !board.guesses.includes(letter))
+    ).size;
+  }
+}
+
+export const hangmanEngine = new HangmanEngine();
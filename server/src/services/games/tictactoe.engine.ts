@@ -0,0 +1,190 @@
+import { GameEngine, GameOutcome } from "./game-engine";
+
+export type TicTacToeBoard = Array<Array<"X" | "O" | null>>;
+
+export interface TicTacToeMove {
+  row: number;
+  col: number;
+}
+
+const ROWS = ["top", "middle", "bottom"];
+const COLS = ["left", "middle", "right"];
+const MOVE_VERBS = /\b(?:place|put|mark|take|play|go|move|choose|pick)\b/;
+
+const LINES: Array<Array<[number, number]>> = [
+  ...[0, 1, 2].map((r) => [0, 1, 2].map((c): [number, number] => [r, c])),
+  ...[0, 1, 2].map((c) => [0, 1, 2].map((r): [number, number] => [r, c])),
+  [
+    [0, 0],
+    [1, 1],
+    [2, 2],
+  ],
+  [
+    [0, 2],
+    [1, 1],
+    [2, 0],
+  ],
+];
+
+const winnerOf = (board: TicTacToeBoard): "X" | "O" | null => {
+  for (const line of LINES) {
+    const [a, b, c] = line.map(([r, col]) => board[r][col]);
+    if (a && a === b && a === c) return a;
+  }
+  return null;
+};
+
+/**
+ * Classic 3x3 tic-tac-toe. The user is X and moves first.
+ */
+class TicTacToeEngine implements GameEngine<TicTacToeBoard, TicTacToeMove> {
+  readonly gameType = "tictactoe";
+  readonly name = "Tic-Tac-Toe";
+  readonly rules = "Classic tic-tac-toe. Get three in a row to win.";
+  readonly userSide = "X";
+  readonly aiSide = "O";
+
+  createBoard(): TicTacToeBoard {
+    return [
+      [null, null, null],
+      [null, null, null],
+      [null, null, null],
+    ];
+  }
+
+  currentSide(board: TicTacToeBoard): string {
+    const marks = board.flat().filter(Boolean).length;
+    return marks % 2 === 0 ? "X" : "O";
+  }
+
+  /**
+   * Understands "top right", "middle left", "center", "b3" (column letter,
+   * row number), "row 1 column 3" and a lone 1-9 counted from the top left.
+   * Longer messages only count when they say they're making a move.
+   */
+  parseMove(_board: TicTacToeBoard, text: string): TicTacToeMove | null {
+    const lower = text.toLowerCase().trim();
+    if (lower.split(/\s+/).length > 6 && !MOVE_VERBS.test(lower)) {
+      return null;
+    }
+
+    const side = lower.match(/\b(left|right)\b/);
+    const middle = /\b(?:middle|center|centre)\b/.test(lower);
+    const vertical = lower.match(/\b(top|upper|bottom|lower)\b/);
+    if (vertical || middle) {
+      return {
+        row: vertical ? (/top|upper/.test(vertical[1]) ? 0 : 2) : 1,
+        col: side ? (side[1] === "left" ? 0 : 2) : 1,
+      };
+    }
+
+    const rowCol = lower.match(/\brow\s*([1-3])\D+col(?:umn)?\s*([1-3])\b/);
+    if (rowCol) {
+      return { row: Number(rowCol[1]) - 1, col: Number(rowCol[2]) - 1 };
+    }
+
+    const coordinate = lower.match(/\b([abc])([1-3])\b/);
+    if (coordinate) {
+      return {
+        row: Number(coordinate[2]) - 1,
+        col: coordinate[1].charCodeAt(0) - 97,
+      };
+    }
+
+    const square = lower.match(/^(?:[a-z' ]*\s)?(?:square\s+|#)?([1-9])[.!]?$/);
+    if (square) {
+      const index = Number(square[1]) - 1;
+      return { row: Math.floor(index / 3), col: index % 3 };
+    }
+
+    return null;
+  }
+
+  validateMove(board: TicTacToeBoard, move: TicTacToeMove): string | null {
+    if (this.getOutcome(board).status !== "in_progress") {
+      return "The game is already over.";
+    }
+    if (board[move.row]?.[move.col] === undefined) {
+      return "That square isn't on the board.";
+    }
+    if (board[move.row][move.col] !== null) {
+      return `The ${this.formatMove(board, move)} square is already taken by ${board[move.row][move.col]}.`;
+    }
+    return null;
+  }
+
+  legalMoves(board: TicTacToeBoard): TicTacToeMove[] {
+    if (this.getOutcome(board).status !== "in_progress") return [];
+    const moves: TicTacToeMove[] = [];
+    board.forEach((cells, row) =>
+      cells.forEach((cell, col) => {
+        if (cell === null) moves.push({ row, col });
+      })
+    );
+    return moves;
+  }
+
+  applyMove(board: TicTacToeBoard, move: TicTacToeMove): TicTacToeBoard {
+    const next = board.map((cells) => [...cells]);
+    next[move.row][move.col] = this.currentSide(board) as "X" | "O";
+    return next;
+  }
+
+  getOutcome(board: TicTacToeBoard): GameOutcome {
+    const winner = winnerOf(board);
+    if (winner) {
+      return {
+        status: winner === this.userSide ? "user_won" : "ai_won",
+        reason: "three in a row",
+      };
+    }
+    if (board.flat().every(Boolean)) {
+      return { status: "draw", reason: "the board is full" };
+    }
+    return { status: "in_progress" };
+  }
+
+  formatMove(_board: TicTacToeBoard, move: TicTacToeMove): string {
+    if (move.row === 1 && move.col === 1) return "center";
+    return `${ROWS[move.row]} ${COLS[move.col]}`;
+  }
+
+  /**
+   * Win if possible, otherwise block, otherwise prefer the center and corners
+   */
+  chooseMove(board: TicTacToeBoard): TicTacToeMove {
+    const moves = this.legalMoves(board);
+    const side = this.currentSide(board);
+    const other = side === "X" ? "O" : "X";
+
+    const completes = (mark: string) =>
+      moves.find((move) => {
+        const next = board.map((cells) => [...cells]);
+        next[move.row][move.col] = mark as "X" | "O";
+        return winnerOf(next) === mark;
+      });
+    const preferred = [
+      { row: 1, col: 1 },
+      { row: 0, col: 0 },
+      { row: 0, col: 2 },
+      { row: 2, col: 0 },
+      { row: 2, col: 2 },
+    ].find((move) => board[move.row][move.col] === null);
+
+    return completes(side) || completes(other) || preferred || moves[0];
+  }
+
+  renderText(board: TicTacToeBoard): string {
+    const rows = board.map(
+      (cells, row) =>
+        `${row + 1}  ${cells.map((cell) => cell || " ").join(" | ")}`
+    );
+    return ["   a   b   c", rows.join("\n  ---+---+---\n")].join("\n");
+  }
+
+  renderGrid(board: TicTacToeBoard): Array<Array<string | null>> {
+    return board.map((cells) => [...cells]);
+  }
+}
+
+export const ticTacToeEngine = new TicTacToeEngine();
@@ -0,0 +1,177 @@
+// Secret words for the word games. Kept to common words so a game is fair.
+
+export const HANGMAN_WORDS = [
+  "adventure",
+  "balloon",
+  "blanket",
+  "butterfly",
+  "campfire",
+  "candle",
+  "castle",
+  "chocolate",
+  "compass",
+  "dolphin",
+  "dragon",
+  "elephant",
+  "festival",
+  "garden",
+  "giraffe",
+  "guitar",
+  "harbor",
+  "island",
+  "journey",
+  "kangaroo",
+  "lantern",
+  "library",
+  "meadow",
+  "mountain",
+  "notebook",
+  "octopus",
+  "orchestra",
+  "penguin",
+  "pyramid",
+  "rainbow",
+  "sandwich",
+  "satellite",
+  "snowflake",
+  "telescope",
+  "thunder",
+  "treasure",
+  "umbrella",
+  "volcano",
+  "waterfall",
+  "whisper",
+];
+
+export const FIVE_LETTER_WORDS = [
+  "apple",
+  "beach",
+  "bread",
+  "brave",
+  "chair",
+  "cloud",
+  "crane",
+  "dance",
+  "dream",
+  "eagle",
+  "flame",
+  "fresh",
+  "ghost",
+  "grape",
+  "heart",
+  "honey",
+  "house",
+  "light",
+  "lemon",
+  "magic",
+  "music",
+  "night",
+  "ocean",
+  "party",
+  "piano",
+  "plant",
+  "quiet",
+  "river",
+  "shine",
+  "smile",
+  "stone",
+  "storm",
+  "sugar",
+  "table",
+  "tiger",
+  "toast",
+  "train",
+  "water",
+  "whale",
+  "world",
+];
+
+// Words accepted as word-guess guesses, on top of the secret words. Anything
+// else typed on its own is taken as conversation rather than a guess.
+const GUESS_WORDS = new Set([
+  ...FIVE_LETTER_WORDS,
+  ...`
+      about above abuse actor acute admit adopt adult after again agent
+      agree ahead alarm album alert alike alive allow alone along alter
+      among anger angle angry apart apple apply arena argue arise array
+      aside asset audio audit avoid award aware awful bacon badge badly
+      baker basic basin basis batch beach beard beast begin being below
+      bench berry birth black blade blame blank blast blaze bleed blend
+      bless blind block blood bloom board boast bonus boost booth bound
+      brain brand brass brave bread break breed brick bride brief bring
+      broad broke brown brush build built bunch burst buyer cabin cable
+      camel candy canoe cargo carry catch cause cease chain chair chalk
+      charm chart chase cheap check cheek cheer chess chest chick chief
+      child chill china choir chord civic civil claim clash class clean
+      clear clerk click cliff climb clock close cloth cloud clown coach
+      coast cocoa color comet comic coral couch could count court cover
+      crack craft crane crash crazy cream creek crime crisp cross crowd
+      crown crude cruel crumb crush curve cycle daily dairy daisy dance
+      death debut decay delay delta dense depth devil diary dirty disco
+      ditch doing donor doubt dough dozen draft drain drama drank drawn
+      dread dream dress dried drift drill drink drive drove dryer dusty
+      dwarf eager eagle early earth easel eaten eight elbow elder elect
+      elite email empty enemy enjoy enter entry equal error essay event
+      every exact exist extra fable faith false fancy fault feast fence
+      ferry fever fewer fiber field fifth fifty fight final flame flash
+      fleet flesh float flock flood floor flour fluid flute focus foggy
+      force forge forth forty forum found frame frank fraud fresh fried
+      front frost fruit fully funny fuzzy ghost giant given glass globe
+      glory glove goose grace grade grain grand grant grape graph grasp
+      grass grave great greed green greet grief grill grind groan group
+      grove grown guard guess guest guide habit happy harsh haste hatch
+      haunt heart heavy hedge hello hence herbs hobby holly honey honor
+      horse hotel hound house human humid humor hurry ideal image imply
+      index inner input irony issue ivory jeans jelly jewel joint joker
+      jolly judge juice juicy jumbo knife knock known label labor large
+      laser later laugh layer learn lease least leave ledge legal lemon
+      level lever light limit linen liver llama lobby local lodge logic
+      loose lover lower loyal lucky lunar lunch lying magic major maker
+      mango manor maple march marry marsh match maybe mayor meant medal
+      media melon mercy merit merry metal meter might minor minus mirth
+      model moist money month moose moral motor motto mound mount mouse
+      mouth movie muddy music naive nerve never newly niece night noble
+      noise north novel nurse nylon oasis occur ocean offer often olive
+      onion opera orbit order organ other otter ought ounce outer owner
+      oxide paint panel panic paper party pasta paste patch pause peace
+      peach pearl pedal penny perch phase phone photo piano piece pilot
+      pinch pizza place plain plane plant plate plaza plead pluck plumb
+      plump point polar porch pouch pound power press price pride prime
+      print prior prize probe proof proud prove pulse punch pupil puppy
+      purse queen query quest quick quiet quilt quite quota quote radar
+      radio rainy raise rally ranch range rapid ratio raven reach react
+      ready realm rebel refer reign relax relay reply rider ridge rifle
+      right rigid rinse risky rival river roast robin robot rocky rough
+      round route royal rugby ruler rural rusty saint salad salon sauce
+      scale scare scarf scene scent scope score scout scrap screw seize
+      sense serve seven shade shake shall shape share shark sharp sheep
+      sheet shelf shell shift shine shirt shock shoot shore short shout
+      shown sight silly since sixty skate skill skirt skull slate sleep
+      slice slide slope small smart smell smile smoke snack snake sneak
+      solar solid solve sorry sound south space spare spark speak spear
+      speed spell spend spent spice spike spine spoke spoon sport spray
+      squad stack staff stage stain stair stake stamp stand stare start
+      state steak steam steel steep stick still sting stock stone stood
+      stool store storm story stove straw strip stuck study stuff style
+      sugar suite sunny super surge swamp swear sweat sweep sweet swift
+      swing sword table taken taste teach teeth thank theme there thick
+      thief thing think third those three threw throw thumb tiger tight
+      timer tired title toast today token tooth topic torch total touch
+      tough towel tower toxic trace track trade trail train trait treat
+      trend trial tribe trick tried troop truck truly trunk trust truth
+      tulip tumor twice twist uncle under union unite unity until upper
+      upset urban usage usual valid value valve vapor vault verse video
+      vigor villa vinyl viola virus visit vital vivid vocal voice voter
+      wagon waist waste watch water weary weave wedge weigh weird whale
+      wheat wheel where which while whirl white whole whose widow width
+      witch woman women woods world worry worse worst worth would wound
+      woven wrist write wrong wrote yacht yeast yield young youth zebra
+    `
+    .trim()
+    .split(/\s+/),
+]);
+
+export const isGuessWord = (word: string): boolean => GUESS_WORDS.has(word);
+
+export const pickWord = (words: string[], random: () => number): string =>
+  words[Math.floor(random() * words.length) % words.length];
@@ -0,0 +1,142 @@
+import { GameEngine, GameOutcome, readMoveText } from "./game-engine";
+import { FIVE_LETTER_WORDS, isGuessWord, pickWord } from "./word-lists";
+
+export interface WordGuessBoard {
+  word: string; // Secret until the game is over
+  guesses: string[];
+  maxGuesses: number;
+}
+
+export type LetterScore = "correct" | "present" | "absent";
+
+const WORD_LENGTH = 5;
+const GUESS_VERBS = ["guess", "is it", "(?:my guess|the word) is"];
+const MARKS: Record<LetterScore, string> = {
+  correct: "🟩",
+  present: "🟨",
+  absent: "⬜",
+};
+
+/**
+ * Score a guess the way Wordle does: a letter in the right place is
+ * correct, one elsewhere in the word is present, but a repeated letter is
+ * only marked as often as it occurs in the word.
+ */
+export function scoreGuess(word: string, guess: string): LetterScore[] {
+  const scores: LetterScore[] = guess.split("").map(() => "absent");
+  const unmatched: Record<string, number> = {};
+
+  guess.split("").forEach((letter, index) => {
+    if (word[index] === letter) {
+      scores[index] = "correct";
+    } else {
+      unmatched[word[index]] = (unmatched[word[index]] || 0) + 1;
+    }
+  });
+  guess.split("").forEach((letter, index) => {
+    if (scores[index] !== "correct" && unmatched[letter]) {
+      scores[index] = "present";
+      unmatched[letter]--;
+    }
+  });
+
+  return scores;
+}
+
+/**
+ * Guess the companion's five-letter word in six tries, with feedback on
+ * every letter after each guess.
+ */
+class WordGuessEngine implements GameEngine<WordGuessBoard, string> {
+  readonly gameType = "wordguess";
+  readonly name = "Word Guess";
+  readonly rules =
+    "Guess the five-letter word in six tries. Green letters are in the right place, yellow ones are in the word somewhere else.";
+  readonly userSide = "guesser";
+  readonly aiSide = "host";
+
+  createBoard(random: () => number = Math.random): WordGuessBoard {
+    return {
+      word: pickWord(FIVE_LETTER_WORDS, random),
+      guesses: [],
+      maxGuesses: 6,
+    };
+  }
+
+  currentSide(): string {
+    return this.userSide;
+  }
+
+  /**
+   * Understands "guess crane", "is it crane" and a lone word that is in
+   * the dictionary, so "hello" on its own is just conversation
+   */
+  parseMove(_board: WordGuessBoard, text: string): string | null {
+    const { move, explicit } = readMoveText(text, GUESS_VERBS);
+    const word = move.toLowerCase();
+    if (!/^[a-z]+$/.test(word)) return null;
+    return explicit || isGuessWord(word) ? word : null;
+  }
+
+  validateMove(board: WordGuessBoard, guess: string): string | null {
+    if (this.getOutcome(board).status !== "in_progress") {
+      return "The game is already over.";
+    }
+    if (!new RegExp(`^[a-z]{${WORD_LENGTH}}$`).test(guess)) {
+      return `Guesses must be ${WORD_LENGTH}-letter words.`;
+    }
+    if (!isGuessWord(guess)) {
+      return `${guess.toUpperCase()} isn't in my word list.`;
+    }
+    if (board.guesses.includes(guess)) {
+      return `${guess.toUpperCase()} has already been guessed.`;
+    }
+    return null;
+  }
+
+  legalMoves(board: WordGuessBoard): string[] {
+    if (this.getOutcome(board).status !== "in_progress") return [];
+    return FIVE_LETTER_WORDS.filter((word) => !board.guesses.includes(word));
+  }
+
+  applyMove(board: WordGuessBoard, guess: string): WordGuessBoard {
+    return { ...board, guesses: [...board.guesses, guess] };
+  }
+
+  getOutcome(board: WordGuessBoard): GameOutcome {
+    if (board.guesses.includes(board.word)) {
+      return { status: "user_won", reason: "the word was guessed" };
+    }
+    if (board.guesses.length >= board.maxGuesses) {
+      return { status: "ai_won", reason: "out of guesses" };
+    }
+    return { status: "in_progress" };
+  }
+
+  formatMove(_board: WordGuessBoard, guess: string): string {
+    return guess.toUpperCase();
+  }
+
+  chooseMove(board: WordGuessBoard): string {
+    return this.legalMoves(board)[0];
+  }
+
+  renderText(board: WordGuessBoard): string {
+    const rows = board.guesses.map((guess) => {
+      const letters = guess.toUpperCase().split("").join(" ");
+      const marks = scoreGuess(board.word, guess)
+        .map((score) => MARKS[score])
+        .join("");
+      return `${letters}  ${marks}`;
+    });
+    for (let i = board.guesses.length; i < board.maxGuesses; i++) {
+      rows.push(Array(WORD_LENGTH).fill("_").join(" "));
+    }
+    if (this.getOutcome(board).status !== "in_progress") {
+      rows.push("", `The word was ${board.word.toUpperCase()}.`);
+    }
+    return rows.join("\n");
+  }
+}
+
+export const wordGuessEngine = new WordGuessEngine();
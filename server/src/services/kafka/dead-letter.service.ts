@@ -0,0 +1,182 @@
+import { EachMessagePayload } from "kafkajs";
+import { DeadLetterEntry, kafkaService } from "./kafka.service";
+import { KafkaTopic } from "./message-producer.service";
+import { RetryHeader, getDeadLetterTopic } from "./retry-policy";
+import {
+  DeadLetterModel,
+  DeadLetterStatus,
+  IDeadLetter,
+} from "../../models/dead-letter.model";
+import { loggerFactory } from "../../utils/logger.service";
+
+const logger = loggerFactory.getLogger("DeadLetterService");
+
+// Retry bookkeeping that must not carry over into a replay
+const RETRY_HEADERS: string[] = [
+  RetryHeader.ATTEMPT,
+  RetryHeader.NOT_BEFORE,
+  RetryHeader.FIRST_FAILED_AT,
+  RetryHeader.LAST_ERROR,
+];
+
+/**
+ * The user a message payload belongs to, if it names one
+ */
+export function getPayloadUserId(payload: string): string | undefined {
+  try {
+    const { userId } = JSON.parse(payload);
+    return typeof userId === "string" ? userId : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Indexes dead-lettered Kafka messages so they can be listed, inspected and
+ * replayed to their source topic
+ */
+class DeadLetterService {
+  private started = false;
+
+  /**
+   * Consume every `<topic>.dlq` topic and record its entries in MongoDB
+   */
+  async start(): Promise<void> {
+    if (this.started) {
+      return;
+    }
+
+    const topics = Object.values(KafkaTopic).map(getDeadLetterTopic);
+    await kafkaService.createConsumer(
+      "dlq-indexer-group",
+      topics,
+      async ({ message }: EachMessagePayload) => {
+        const value = message.value?.toString();
+        if (!value) {
+          return;
+        }
+        await this.recordEntry(JSON.parse(value) as DeadLetterEntry);
+      }
+    );
+
+    this.started = true;
+    logger.info(`Indexing dead letters from ${topics.length} DLQ topics`);
+  }
+
+  /**
+   * Store a DLQ entry. Idempotent, since DLQ messages may be redelivered.
+   */
+  async recordEntry(entry: DeadLetterEntry): Promise<void> {
+    await DeadLetterModel.updateOne(
+      { _id: entry.id },
+      {
+        $setOnInsert: {
+          originalTopic: entry.originalTopic,
+          deadLetterTopic: entry.deadLetterTopic,
+          consumerGroup: entry.consumerGroup,
+          partition: entry.partition,
+          offset: entry.offset,
+          key: entry.key,
+          payload: entry.payload,
+          userId: getPayloadUserId(entry.payload),
+          headers: entry.headers,
+          error: entry.error,
+          attempts: entry.attempts,
+          traceContext: entry.traceContext,
+          firstFailedAt: entry.firstFailedAt
+            ? new Date(entry.firstFailedAt)
+            : undefined,
+          failedAt: new Date(entry.failedAt),
+          status: "pending",
+          replayCount: 0,
+        },
+      },
+      { upsert: true }
+    );
+    logger.info(
+      `Recorded dead letter ${entry.id} from ${entry.originalTopic}: ${entry.error.message}`
+    );
+  }
+
+  /**
+   * List dead letters, newest first
+   */
+  async listEntries(
+    options: {
+      topic?: string;
+      status?: DeadLetterStatus;
+      limit?: number;
+      before?: Date;
+    } = {}
+  ): Promise<IDeadLetter[]> {
+    const query: Record<string, any> = {};
+    if (options.topic) {
+      query.originalTopic = options.topic;
+    }
+    if (options.status) {
+      query.status = options.status;
+    }
+    if (options.before) {
+      query.failedAt = { $lt: options.before };
+    }
+
+    return DeadLetterModel.find(query)
+      .select("-payload -error.stack")
+      .sort({ failedAt: -1 })
+      .limit(Math.min(options.limit || 50, 200))
+      .lean<IDeadLetter[]>();
+  }
+
+  async getEntry(id: string): Promise<IDeadLetter | null> {
+    return DeadLetterModel.findById(id).lean<IDeadLetter>();
+  }
+
+  /**
+   * Re-publish the original message to its source topic as a fresh first
+   * attempt. The payload is sent unchanged so it keeps its trace context.
+   */
+  async replay(id: string): Promise<IDeadLetter | null> {
+    const entry = await DeadLetterModel.findById(id);
+    if (!entry) {
+      return null;
+    }
+
+    const headers: Record<string, string> = {};
+    for (const [name, value] of Object.entries(entry.headers || {})) {
+      if (!RETRY_HEADERS.includes(name)) {
+        headers[name] = value;
+      }
+    }
+    headers[RetryHeader.REPLAYED_FROM] = entry._id;
+
+    await kafkaService.produceRawMessage(
+      entry.originalTopic,
+      entry.payload,
+      entry.key,
+      headers
+    );
+
+    entry.status = "replayed";
+    entry.replayCount += 1;
+    entry.lastReplayedAt = new Date();
+    await entry.save();
+
+    logger.info(
+      `Replayed dead letter ${entry._id} to ${entry.originalTopic} (replay #${entry.replayCount})`
+    );
+    return entry.toObject();
+  }
+
+  /**
+   * Mark a dead letter as handled without replaying it
+   */
+  async discard(id: string): Promise<IDeadLetter | null> {
+    return DeadLetterModel.findByIdAndUpdate(
+      id,
+      { $set: { status: "discarded" } },
+      { new: true }
+    ).lean<IDeadLetter>();
+  }
+}
+
+export const deadLetterService = new DeadLetterService();
@@ -1,7 +1,54 @@
-import { Kafka, Producer, Consumer, EachMessagePayload } from "kafkajs";import { loggerFactory } from "../../utils/logger.service";
+import { Kafka, Producer, Consumer, EachMessagePayload } from "kafkajs";
+import { v4 as uuidv4 } from "uuid";
+import { loggerFactory } from "../../utils/logger.service";
+import { tracingService } from "../tracing.service";
+import {
+  RetryHeader,
+  computeBackoff,
+  getAttempt,
+  getDeadLetterTopic,
+  getRetryPolicy,
+  headersToStrings,
+  isRetryable,
+  readHeader,
+} from "./retry-policy";
 
 const logger = loggerFactory.getLogger("KafkaService");
 
+/**
+ * Details of the current delivery, passed to handlers consumed with retries
+ */
+export interface DeliveryAttempt {
+  attempt: number;
+  maxAttempts: number;
+  isFinalAttempt: boolean;
+}
+
+export type RetryingMessageHandler = (
+  payload: EachMessagePayload,
+  delivery: DeliveryAttempt
+) => Promise<void>;
+
+/**
+ * Message written to a `<topic>.dlq` topic once a message exhausts its retries
+ */
+export interface DeadLetterEntry {
+  id: string;
+  originalTopic: string;
+  deadLetterTopic: string;
+  consumerGroup: string;
+  partition: number;
+  offset: string;
+  key?: string;
+  payload: string;
+  headers: Record<string, string>;
+  error: { name?: string; message: string; stack?: string };
+  attempts: number;
+  traceContext?: Record<string, any>;
+  firstFailedAt?: string;
+  failedAt: string;
+}
+
 /**
  * Service for handling Kafka operations
  */
@@ -90,7 +137,8 @@ class KafkaService {
   }
 
   /**
-   * Produce a message to a topic
+   * Produce a message to a topic. Carries the current trace context as a
+   * `traceparent` header when there is one.
    */
   async produceMessage(
     topic: string,
@@ -101,6 +149,8 @@ class KafkaService {
       await this.connect();
     }
 
+    const traceContext = tracingService.getCurrentContext();
+
     try {
       await this.producer!.send({
         topic,
@@ -108,6 +158,9 @@ class KafkaService {
           {
             key: key || Date.now().toString(),
             value: JSON.stringify(message),
+            headers: traceContext
+              ? { traceparent: tracingService.toTraceparent(traceContext) }
+              : undefined,
           },
         ],
       });
@@ -119,12 +172,32 @@ class KafkaService {
   }
 
   /**
-   * Create a consumer for a specific topic
+   * Produce an already-serialized message with explicit headers
+   */
+  async produceRawMessage(
+    topic: string,
+    value: string,
+    key?: string,
+    headers: Record<string, string> = {}
+  ): Promise<void> {
+    const producer = await this.getProducer();
+    await producer.send({
+      topic,
+      messages: [{ key: key || Date.now().toString(), value, headers }],
+    });
+    logger.debug(`Produced raw message to topic ${topic}`);
+  }
+
+  /**
+   * Create a consumer for a specific topic. Handler errors are logged; with
+   * `rethrowErrors` they are also rethrown so kafkajs redelivers the message
+   * instead of committing its offset.
    */
   async createConsumer(
     groupId: string,
     topics: string[],
-    messageHandler: (message: EachMessagePayload) => Promise<void>
+    messageHandler: (message: EachMessagePayload) => Promise<void>,
+    options: { rethrowErrors?: boolean } = {}
   ): Promise<void> {
     try {
       const consumer = this.kafka.consumer({ groupId });
@@ -143,6 +216,9 @@ class KafkaService {
               `Error processing message from topic ${payload.topic}:`,
               error
             );
+            if (options.rethrowErrors) {
+              throw error;
+            }
           }
         },
       });
@@ -161,15 +237,208 @@ class KafkaService {
   }
 
   /**
-   * Consume messages from a specific topic with a message handler
-   * This is a convenience method that creates a consumer and starts consuming messages
+   * Disconnect one consumer. With `deleteGroup` its consumer group is also
+   * removed from the broker, for groups that will never be joined again.
+   */
+  async stopConsumer(
+    groupId: string,
+    options: { deleteGroup?: boolean } = {}
+  ): Promise<void> {
+    const consumer = this.consumers.get(groupId);
+    if (!consumer) {
+      return;
+    }
+    this.consumers.delete(groupId);
+    await consumer.disconnect();
+    logger.info(`Disconnected consumer with group ID: ${groupId}`);
+
+    if (options.deleteGroup) {
+      const admin = this.kafka.admin();
+      await admin.connect();
+      try {
+        await admin.deleteGroups([groupId]);
+        logger.info(`Deleted consumer group ${groupId}`);
+      } finally {
+        await admin.disconnect();
+      }
+    }
+  }
+
+  /**
+   * Consume messages from a specific topic with a message handler.
+   * Failed messages are retried with exponential backoff according to the
+   * topic's retry policy and routed to `<topic>.dlq` once attempts run out.
    */
   async consumeMessages(
     topic: string,
     groupId: string,
-    messageHandler: (payload: EachMessagePayload) => Promise<void>
+    messageHandler: RetryingMessageHandler
   ): Promise<void> {
-    return this.createConsumer(groupId, [topic], messageHandler);
+    return this.createConsumer(
+      groupId,
+      [topic],
+      this.withRetries(topic, groupId, messageHandler),
+      // Only reached when the retry/DLQ publish itself fails
+      { rethrowErrors: true }
+    );
+  }
+
+  /**
+   * Wrap a handler so failures are re-published with an incremented attempt
+   * header (or dead-lettered) instead of being dropped. The message value is
+   * passed on untouched, so its traceContext follows every retry.
+   */
+  private withRetries(
+    topic: string,
+    groupId: string,
+    messageHandler: RetryingMessageHandler
+  ): (payload: EachMessagePayload) => Promise<void> {
+    const policy = getRetryPolicy(topic);
+
+    return async (payload: EachMessagePayload) => {
+      const { message, partition } = payload;
+      const attempt = getAttempt(message.headers);
+
+      // Retries are re-published immediately; wait out the backoff here
+      const notBefore = parseInt(
+        readHeader(message.headers, RetryHeader.NOT_BEFORE) || "0",
+        10
+      );
+      if (notBefore > Date.now()) {
+        await this.waitUntil(notBefore, payload.heartbeat);
+      }
+
+      const parentContext =
+        tracingService.extractContext(
+          this.parseValue(message.value?.toString())
+        ) ||
+        tracingService.fromTraceparent(
+          readHeader(message.headers, "traceparent")
+        );
+      const { span, context } = tracingService.startSpan(
+        parentContext,
+        `kafka_consume_${topic}`,
+        { attempt, partition, offset: message.offset },
+        "consumer"
+      );
+
+      try {
+        // Handler work (LLM calls, HTTP calls, ...) nests under the consume span
+        await tracingService.runWithContext(context, () =>
+          messageHandler(payload, {
+            attempt,
+            maxAttempts: policy.maxAttempts,
+            isFinalAttempt: attempt >= policy.maxAttempts,
+          })
+        );
+        tracingService.endSpan(span.context.spanId);
+      } catch (error) {
+        tracingService.endSpan(span.context.spanId, error as Error);
+
+        if (attempt < policy.maxAttempts && isRetryable(error)) {
+          const delay = computeBackoff(policy, attempt + 1);
+          logger.warn(
+            `Message at ${topic}[${partition}]@${message.offset} failed (attempt ${attempt}/${policy.maxAttempts}), retrying in ${delay}ms`,
+            { error: (error as Error)?.message }
+          );
+          await this.produceRawMessage(
+            topic,
+            message.value?.toString() || "",
+            message.key?.toString(),
+            {
+              ...headersToStrings(message.headers),
+              [RetryHeader.ATTEMPT]: String(attempt + 1),
+              [RetryHeader.NOT_BEFORE]: String(Date.now() + delay),
+              [RetryHeader.FIRST_FAILED_AT]:
+                readHeader(message.headers, RetryHeader.FIRST_FAILED_AT) ||
+                new Date().toISOString(),
+              [RetryHeader.LAST_ERROR]: String(
+                (error as Error)?.message || error
+              ).slice(0, 500),
+            }
+          );
+        } else {
+          await this.sendToDeadLetter(topic, groupId, payload, attempt, error);
+        }
+      }
+    };
+  }
+
+  /**
+   * Route a message that exhausted its retries to the topic's DLQ, keeping
+   * the original payload, the error and the trace context
+   */
+  private async sendToDeadLetter(
+    topic: string,
+    groupId: string,
+    payload: EachMessagePayload,
+    attempts: number,
+    error: unknown
+  ): Promise<void> {
+    const { message, partition } = payload;
+    const value = message.value?.toString() || "";
+    const err =
+      error instanceof Error ? error : new Error(String(error ?? "Unknown"));
+    const traceContext = tracingService.extractContext(this.parseValue(value));
+
+    const entry: DeadLetterEntry = {
+      id: uuidv4(),
+      originalTopic: topic,
+      deadLetterTopic: getDeadLetterTopic(topic),
+      consumerGroup: groupId,
+      partition,
+      offset: message.offset,
+      key: message.key?.toString(),
+      payload: value,
+      headers: headersToStrings(message.headers),
+      error: { name: err.name, message: err.message, stack: err.stack },
+      attempts,
+      traceContext,
+      firstFailedAt: readHeader(message.headers, RetryHeader.FIRST_FAILED_AT),
+      failedAt: new Date().toISOString(),
+    };
+
+    logger.error(
+      `Message at ${topic}[${partition}]@${message.offset} failed after ${attempts} attempt(s), routing to ${entry.deadLetterTopic}`,
+      err,
+      { deadLetterId: entry.id, traceId: traceContext?.traceId }
+    );
+
+    await this.produceRawMessage(
+      entry.deadLetterTopic,
+      JSON.stringify(entry),
+      entry.key,
+      {
+        ...(traceContext
+          ? { "trace-id": traceContext.traceId, "span-id": traceContext.spanId }
+          : {}),
+        "original-topic": topic,
+      }
+    );
+  }
+
+  /**
+   * Sleep until a timestamp, heartbeating so the consumer keeps its partitions
+   */
+  private async waitUntil(
+    timestamp: number,
+    heartbeat: () => Promise<void>
+  ): Promise<void> {
+    while (Date.now() < timestamp) {
+      const remaining = timestamp - Date.now();
+      await new Promise((resolve) =>
+        setTimeout(resolve, Math.min(remaining, 3000))
+      );
+      await heartbeat();
+    }
+  }
+
+  private parseValue(value: string | undefined): Record<string, any> {
+    try {
+      return value ? JSON.parse(value) : {};
+    } catch {
+      return {};
+    }
   }
 
   /**
@@ -1,7 +1,8 @@
-import { EachMessagePayload } from "kafkajs";import { v4 as uuidv4 } from "uuid";
+import { EachMessagePayload } from "kafkajs";
+import { v4 as uuidv4 } from "uuid";
 import { loggerFactory } from "../../utils/logger.service";
 import { enhancedChatService } from "../enhanced-chat.service";
-import { sseConnections } from "../../controllers/chat.controller";
+import { realtimeService } from "../realtime/realtime.service";
 import {
   MessageRole,
   MessageStatus,
@@ -26,7 +27,7 @@ import { memoryService, MemoryType, MemoryCategory } from "../memory.service";
 import { sessionService } from "../session.service";
 import { activityService } from "../activity.service";
 import { chatSessionManager } from "../chat-session.service";
-import { kafkaService } from "./kafka.service";
+import { DeliveryAttempt, kafkaService } from "./kafka.service";
 
 const logger = loggerFactory.getLogger("MessageConsumerService");
 
@@ -71,25 +72,21 @@ class MessageConsumerService {
       await kafkaService.consumeMessages(
         KafkaTopic.CHAT_MESSAGES,
         "chat-processor-group",
-        async (payload: EachMessagePayload) => {
-          try {
-            const message = payload.message;
-            const requestStr = message.value?.toString();
+        async (payload: EachMessagePayload, delivery: DeliveryAttempt) => {
+          const message = payload.message;
+          const requestStr = message.value?.toString();
 
-            if (!requestStr) {
-              logger.warn("Received empty chat message payload");
-              return;
-            }
+          if (!requestStr) {
+            logger.warn("Received empty chat message payload");
+            return;
+          }
 
-            const request: ChatMessageRequest = JSON.parse(requestStr);
-            logger.info(
-              `Processing chat message request ${request.id} from ${request.source}`
-            );
+          const request: ChatMessageRequest = JSON.parse(requestStr);
+          logger.info(
+            `Processing chat message request ${request.id} from ${request.source}`
+          );
 
-            await this.processChatMessage(request);
-          } catch (error) {
-            logger.error(`Error processing chat message: ${error}`);
-          }
+          await this.processChatMessage(request, delivery);
         }
       );
 
@@ -115,24 +112,20 @@ class MessageConsumerService {
         KafkaTopic.SUMMARIZATION,
         "summarization-processor-group",
         async (payload: EachMessagePayload) => {
-          try {
-            const message = payload.message;
-            const requestStr = message.value?.toString();
+          const message = payload.message;
+          const requestStr = message.value?.toString();
 
-            if (!requestStr) {
-              logger.warn("Received empty summarization payload");
-              return;
-            }
+          if (!requestStr) {
+            logger.warn("Received empty summarization payload");
+            return;
+          }
 
-            const request: SummarizationRequest = JSON.parse(requestStr);
-            logger.info(
-              `Processing summarization request ${request.id} for user ${request.userId}, session ${request.sessionId}`
-            );
+          const request: SummarizationRequest = JSON.parse(requestStr);
+          logger.info(
+            `Processing summarization request ${request.id} for user ${request.userId}, session ${request.sessionId}`
+          );
 
-            await this.processSummarization(request);
-          } catch (error) {
-            logger.error(`Error processing summarization: ${error}`);
-          }
+          await this.processSummarization(request);
         }
       );
 
@@ -158,24 +151,20 @@ class MessageConsumerService {
         KafkaTopic.CONTEXT_ANALYSIS,
         "context-analysis-processor-group",
         async (payload: EachMessagePayload) => {
-          try {
-            const message = payload.message;
-            const requestStr = message.value?.toString();
+          const message = payload.message;
+          const requestStr = message.value?.toString();
 
-            if (!requestStr) {
-              logger.warn("Received empty context analysis payload");
-              return;
-            }
+          if (!requestStr) {
+            logger.warn("Received empty context analysis payload");
+            return;
+          }
 
-            const request: ContextAnalysisRequest = JSON.parse(requestStr);
-            logger.info(
-              `Processing context analysis request ${request.id} for user ${request.userId}, session ${request.sessionId}`
-            );
+          const request: ContextAnalysisRequest = JSON.parse(requestStr);
+          logger.info(
+            `Processing context analysis request ${request.id} for user ${request.userId}, session ${request.sessionId}`
+          );
 
-            await this.processContextAnalysis(request);
-          } catch (error) {
-            logger.error(`Error processing context analysis: ${error}`);
-          }
+          await this.processContextAnalysis(request);
         }
       );
 
@@ -201,24 +190,20 @@ class MessageConsumerService {
         KafkaTopic.MEMORY_OPERATIONS,
         "memory-processor-group",
         async (payload: EachMessagePayload) => {
-          try {
-            const message = payload.message;
-            const requestStr = message.value?.toString();
+          const message = payload.message;
+          const requestStr = message.value?.toString();
 
-            if (!requestStr) {
-              logger.warn("Received empty memory operation payload");
-              return;
-            }
+          if (!requestStr) {
+            logger.warn("Received empty memory operation payload");
+            return;
+          }
 
-            const request: MemoryOperationRequest = JSON.parse(requestStr);
-            logger.info(
-              `Processing memory ${request.operation} operation ${request.id} for user ${request.userId}`
-            );
+          const request: MemoryOperationRequest = JSON.parse(requestStr);
+          logger.info(
+            `Processing memory ${request.operation} operation ${request.id} for user ${request.userId}`
+          );
 
-            await this.processMemoryOperation(request);
-          } catch (error) {
-            logger.error(`Error processing memory operation: ${error}`);
-          }
+          await this.processMemoryOperation(request);
         }
       );
 
@@ -244,24 +229,20 @@ class MessageConsumerService {
         KafkaTopic.SESSION_OPERATIONS,
         "session-processor-group",
         async (payload: EachMessagePayload) => {
-          try {
-            const message = payload.message;
-            const requestStr = message.value?.toString();
+          const message = payload.message;
+          const requestStr = message.value?.toString();
 
-            if (!requestStr) {
-              logger.warn("Received empty session operation payload");
-              return;
-            }
+          if (!requestStr) {
+            logger.warn("Received empty session operation payload");
+            return;
+          }
 
-            const request: SessionOperationRequest = JSON.parse(requestStr);
-            logger.info(
-              `Processing session ${request.operation} operation ${request.id} for user ${request.userId}`
-            );
+          const request: SessionOperationRequest = JSON.parse(requestStr);
+          logger.info(
+            `Processing session ${request.operation} operation ${request.id} for user ${request.userId}`
+          );
 
-            await this.processSessionOperation(request);
-          } catch (error) {
-            logger.error(`Error processing session operation: ${error}`);
-          }
+          await this.processSessionOperation(request);
         }
       );
 
@@ -287,24 +268,20 @@ class MessageConsumerService {
         KafkaTopic.ACTIVITY_OPERATIONS,
         "activity-processor-group",
         async (payload: EachMessagePayload) => {
-          try {
-            const message = payload.message;
-            const requestStr = message.value?.toString();
+          const message = payload.message;
+          const requestStr = message.value?.toString();
 
-            if (!requestStr) {
-              logger.warn("Received empty activity operation payload");
-              return;
-            }
+          if (!requestStr) {
+            logger.warn("Received empty activity operation payload");
+            return;
+          }
 
-            const request: ActivityOperationRequest = JSON.parse(requestStr);
-            logger.info(
-              `Processing activity ${request.operation} operation ${request.id} for user ${request.userId}, session ${request.sessionId}`
-            );
+          const request: ActivityOperationRequest = JSON.parse(requestStr);
+          logger.info(
+            `Processing activity ${request.operation} operation ${request.id} for user ${request.userId}, session ${request.sessionId}`
+          );
 
-            await this.processActivityOperation(request);
-          } catch (error) {
-            logger.error(`Error processing activity operation: ${error}`);
-          }
+          await this.processActivityOperation(request);
         }
       );
 
@@ -330,24 +307,20 @@ class MessageConsumerService {
         KafkaTopic.ACTION_OPERATIONS,
         "action-processor-group",
         async (payload: EachMessagePayload) => {
-          try {
-            const message = payload.message;
-            const requestStr = message.value?.toString();
+          const message = payload.message;
+          const requestStr = message.value?.toString();
 
-            if (!requestStr) {
-              logger.warn("Received empty action operation payload");
-              return;
-            }
+          if (!requestStr) {
+            logger.warn("Received empty action operation payload");
+            return;
+          }
 
-            const request: ActionOperationRequest = JSON.parse(requestStr);
-            logger.info(
-              `Processing action ${request.operation} operation ${request.id} for user ${request.userId}`
-            );
+          const request: ActionOperationRequest = JSON.parse(requestStr);
+          logger.info(
+            `Processing action ${request.operation} operation ${request.id} for user ${request.userId}`
+          );
 
-            await this.processActionOperation(request);
-          } catch (error) {
-            logger.error(`Error processing action operation: ${error}`);
-          }
+          await this.processActionOperation(request);
         }
       );
 
@@ -360,9 +333,13 @@ class MessageConsumerService {
   }
 
   /**
-   * Process a chat message request
+   * Process a chat message request. Errors are rethrown so the message is
+   * retried; the client only hears about the failure on the final attempt.
    */
-  private async processChatMessage(request: ChatMessageRequest): Promise<void> {
+  private async processChatMessage(
+    request: ChatMessageRequest,
+    delivery: DeliveryAttempt
+  ): Promise<void> {
     try {
       const {
         userId,
@@ -380,7 +357,6 @@ class MessageConsumerService {
 
       // Create a placeholder message first to show in the UI
       let messageId = clientMessageId;
-      let sseConnection = sseConnections[sessionId];
 
       // Process based on source
       if (source === MessageSource.WEB_API) {
@@ -398,20 +374,38 @@ class MessageConsumerService {
           `Processed web message for user ${userId} in session ${sessionId}, messageId: ${messageId}`
         );
 
-        // Report processing status to UI if SSE connection exists
-        if (sseConnection) {
-          sseConnection.send(
-            {
-              type: "message-processed",
-              userId,
-              sessionId,
-              messageId: messageId,
-              clientMessageId,
-              status: "completed",
-            },
-            "status"
+        // Report processing status to UI
+        realtimeService.publishToSession(sessionId, "status", {
+          type: "message-processed",
+          userId,
+          sessionId,
+          messageId: messageId,
+          clientMessageId,
+          status: "completed",
+        });
+      } else if (source === MessageSource.TELEGRAM) {
+        // The bot already saved the user message; reply in the chat it came from
+        const processingResult = await enhancedChatService.processTextMessage(
+          userId,
+          sessionId,
+          messageText,
+          clientMessageId,
+          config
+        );
+
+        messageId = processingResult.userMessage?.id || clientMessageId;
+        const chatId = request.metadata?.chatId;
+        if (chatId) {
+          await telegramBotService.sendAssistantReply(
+            chatId,
+            processingResult.assistantMessage
           );
+        } else {
+          logger.warn(`Telegram message ${request.id} has no chat to reply to`);
         }
+        logger.info(
+          `Processed Telegram message for user ${userId} in session ${sessionId}, messageId: ${messageId}`
+        );
       } else if (source === MessageSource.API) {
         // Logic for mobile messages if needed
         // ...
@@ -459,23 +453,22 @@ class MessageConsumerService {
       logger.error(
         `Error processing chat message: ${error instanceof Error ? error.message : String(error)}`
       );
-      // Try to notify client of error
-      try {
-        const localSseConnection = sseConnections[request.sessionId];
-        if (localSseConnection) {
-          localSseConnection.send(
-            {
-              type: "error",
-              message: "Failed to process message",
-              details: error instanceof Error ? error.message : "Unknown error",
-              clientMessageId: request.clientMessageId,
-            },
-            "error"
+      // Try to notify client of error once no retries are left
+      if (delivery.isFinalAttempt) {
+        try {
+          realtimeService.publishToSession(request.sessionId, "error", {
+            type: "error",
+            message: "Failed to process message",
+            details: error instanceof Error ? error.message : "Unknown error",
+            clientMessageId: request.clientMessageId,
+          });
+        } catch (sseError) {
+          logger.error(
+            `Error sending error notification to client: ${sseError}`
           );
         }
-      } catch (sseError) {
-        logger.error(`Error sending error notification to client: ${sseError}`);
       }
+      throw error;
     }
   }
 
@@ -504,22 +497,20 @@ class MessageConsumerService {
       );
 
       // If the request requires notifying clients, do that here via SSE
-      if (request.metadata?.requiresResponse && sseConnections[sessionId]) {
-        sseConnections[sessionId].send(
-          {
-            type: "summary",
-            userId,
-            sessionId,
-            summary,
-            requestId: request.id,
-            timestamp: new Date().toISOString(),
-          },
-          "summary"
-        );
+      if (request.metadata?.requiresResponse) {
+        realtimeService.publishToSession(sessionId, "summary", {
+          type: "summary",
+          userId,
+          sessionId,
+          summary,
+          requestId: request.id,
+          timestamp: new Date().toISOString(),
+        });
         logger.info(`Sent summary SSE update for request ${request.id}`);
       }
     } catch (error) {
       logger.error(`Error processing summarization ${request.id}: ${error}`);
+      throw error;
     }
   }
 
@@ -551,6 +542,7 @@ class MessageConsumerService {
       );
     } catch (error) {
       logger.error(`Error processing context analysis ${request.id}: ${error}`);
+      throw error;
     }
   }
 
@@ -619,6 +611,7 @@ class MessageConsumerService {
       }
     } catch (error) {
       logger.error(`Error processing memory operation ${request.id}: ${error}`);
+      throw error;
     }
   }
 
@@ -645,17 +638,12 @@ class MessageConsumerService {
               `Created new session ${newSession._id} for user ${userId}`
             );
 
-            // Notify the client if needed
-            if (sseConnections[userId]) {
-              sseConnections[userId].send(
-                {
-                  type: "sessionCreated",
-                  sessionId: newSession._id,
-                  session: newSession,
-                },
-                "sessionUpdate"
-              );
-            }
+            // Notify the user's open clients
+            realtimeService.publishToUser(userId, "sessionUpdate", {
+              type: "sessionCreated",
+              sessionId: newSession._id,
+              session: newSession,
+            });
           }
           break;
 
@@ -695,6 +683,7 @@ class MessageConsumerService {
       logger.error(
         `Error processing session operation ${request.id}: ${error}`
       );
+      throw error;
     }
   }
 
@@ -811,6 +800,7 @@ class MessageConsumerService {
       logger.error(
         `Error processing activity operation ${request.id}: ${error}`
       );
+      throw error;
     }
   }
 
@@ -847,6 +837,7 @@ class MessageConsumerService {
       }
     } catch (error) {
       logger.error(`Error processing action operation ${request.id}: ${error}`);
+      throw error;
     }
   }
 }
@@ -332,16 +332,17 @@ class MessageProducerService {
     // Check if this operation/topic is enabled for Kafka processing
     const useKafka = this.isTopicEnabled(topic) && kafkaService.isEnabled();
 
-    // Start a trace span for this operation
+    // Start a trace span for this operation, under the current request's span if any
     const { span, context } = tracingService.startSpan(
-      parentContext,
+      parentContext || tracingService.getCurrentContext(),
       `kafka_produce_${operationType}`,
       {
         topic,
         operationId: operation.id,
         operationType: operationType,
         useKafka, // Add whether we're using Kafka to the trace
-      }
+      },
+      "producer"
     );
 
     try {
@@ -390,6 +391,7 @@ class MessageProducerService {
                 headers: {
                   "trace-id": context.traceId,
                   "span-id": context.spanId,
+                  traceparent: tracingService.toTraceparent(context),
                   "operation-type": operationType,
                 },
               },
@@ -0,0 +1,116 @@
+import { IHeaders } from "kafkajs";
+
+/**
+ * How often and how fast a failed message is retried before it is routed to
+ * its dead-letter topic
+ */
+export interface RetryPolicy {
+  maxAttempts: number; // Total deliveries, including the first one
+  initialDelayMs: number;
+  maxDelayMs: number;
+  multiplier: number;
+}
+
+// Headers carried by retried and dead-lettered messages
+export const RetryHeader = {
+  ATTEMPT: "x-retry-attempt",
+  NOT_BEFORE: "x-retry-not-before",
+  FIRST_FAILED_AT: "x-first-failed-at",
+  LAST_ERROR: "x-last-error",
+  REPLAYED_FROM: "x-replayed-from",
+} as const;
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: parseInt(process.env.KAFKA_RETRY_MAX_ATTEMPTS || "5", 10),
+  initialDelayMs: parseInt(
+    process.env.KAFKA_RETRY_INITIAL_DELAY_MS || "1000",
+    10
+  ),
+  maxDelayMs: parseInt(process.env.KAFKA_RETRY_MAX_DELAY_MS || "30000", 10),
+  multiplier: 2,
+};
+
+// Per-topic overrides of the default policy
+const TOPIC_RETRY_POLICIES: Record<string, Partial<RetryPolicy>> = {
+  // Users are waiting on chat replies, so give up quickly
+  "chat-message-requests": { maxAttempts: 3, maxDelayMs: 5000 },
+  // Background work can afford to wait for a flaky dependency
+  "summarization-requests": { maxAttempts: 6, maxDelayMs: 60000 },
+  "context-analysis-requests": { maxAttempts: 4 },
+};
+
+/**
+ * Resolve the retry policy for a topic. KAFKA_RETRY_<TOPIC>_MAX_ATTEMPTS
+ * (topic upper-cased, dashes as underscores) overrides the attempt count.
+ */
+export function getRetryPolicy(topic: string): RetryPolicy {
+  const policy = { ...DEFAULT_RETRY_POLICY, ...TOPIC_RETRY_POLICIES[topic] };
+  const envKey = `KAFKA_RETRY_${topic.toUpperCase().replace(/[^A-Z0-9]/g, "_")}_MAX_ATTEMPTS`;
+  const override = parseInt(process.env[envKey] || "", 10);
+  if (!isNaN(override) && override > 0) {
+    policy.maxAttempts = override;
+  }
+  return policy;
+}
+
+/**
+ * Delay before delivering the given attempt (attempt 2 is the first retry)
+ */
+export function computeBackoff(policy: RetryPolicy, attempt: number): number {
+  const retry = Math.max(0, attempt - 2);
+  return Math.min(
+    policy.initialDelayMs * Math.pow(policy.multiplier, retry),
+    policy.maxDelayMs
+  );
+}
+
+export function getDeadLetterTopic(topic: string): string {
+  return `${topic}.dlq`;
+}
+
+/**
+ * Read a header as a string regardless of how kafkajs decoded it
+ */
+export function readHeader(
+  headers: IHeaders | undefined,
+  name: string
+): string | undefined {
+  const value = headers?.[name];
+  if (value === undefined) {
+    return undefined;
+  }
+  const first = Array.isArray(value) ? value[0] : value;
+  return first?.toString();
+}
+
+/**
+ * Copy headers into plain strings so they can be re-produced or stored
+ */
+export function headersToStrings(
+  headers: IHeaders | undefined
+): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const name of Object.keys(headers || {})) {
+    const value = readHeader(headers, name);
+    if (value !== undefined) {
+      result[name] = value;
+    }
+  }
+  return result;
+}
+
+/**
+ * Attempt number of a delivery (1 for a message that has never failed)
+ */
+export function getAttempt(headers: IHeaders | undefined): number {
+  const attempt = parseInt(readHeader(headers, RetryHeader.ATTEMPT) || "1", 10);
+  return isNaN(attempt) || attempt < 1 ? 1 : attempt;
+}
+
+/**
+ * Errors that will fail the same way on every attempt (e.g. unparseable
+ * payloads) skip the remaining retries and go straight to the DLQ.
+ */
+export function isRetryable(error: unknown): boolean {
+  return !(error instanceof SyntaxError);
+}
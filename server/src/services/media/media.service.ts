@@ -0,0 +1,268 @@
+import axios from "axios";
+import { execFile } from "child_process";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { promisify } from "util";
+import { modelService, LLMProvider } from "../model.service";
+import { mongoVectorDbService } from "../mongo-vector-db.service";
+import { usageService } from "../usage.service";
+import { modelEnum } from "../../constants/models";
+import { loggerFactory } from "../../utils/logger.service";
+import { countTokens } from "../../utils/token-counter";
+import {
+  createSpeechToTextProvider,
+  SpeechToTextProvider,
+} from "./speech-to-text";
+
+const execFileAsync = promisify(execFile);
+const logger = loggerFactory.getLogger("MediaService");
+
+// Vector document type for chunks of files the user sent
+export const DOCUMENT_VECTOR_TYPE = "document";
+
+const VISION_MODEL = process.env.VISION_MODEL || modelEnum.gemma3o4b;
+const PDFTOTEXT_PATH = process.env.PDFTOTEXT_PATH || "pdftotext";
+const CHUNK_SIZE = parseInt(process.env.DOCUMENT_CHUNK_SIZE || "1500", 10);
+const CHUNK_OVERLAP = 200;
+const MAX_CHUNKS = 200;
+
+const DEFAULT_IMAGE_PROMPT =
+  "Describe this image in two or three sentences for someone who cannot see it. Transcribe any text it contains.";
+
+/**
+ * Split text into chunks of roughly `size` characters that overlap by
+ * `overlap`, breaking at paragraph, line or sentence ends where possible.
+ */
+export function chunkText(
+  text: string,
+  size: number = CHUNK_SIZE,
+  overlap: number = CHUNK_OVERLAP
+): string[] {
+  const normalized = text.replace(/\r\n/g, "\n").trim();
+  const chunks: string[] = [];
+  let start = 0;
+
+  while (start < normalized.length) {
+    let end = Math.min(start + size, normalized.length);
+    if (end < normalized.length) {
+      const window = normalized.slice(start, end);
+      const breakAt = Math.max(
+        window.lastIndexOf("\n\n"),
+        window.lastIndexOf("\n"),
+        window.lastIndexOf(". ")
+      );
+      // Only break early if it keeps the chunk reasonably full
+      if (breakAt > size / 2) {
+        end = start + breakAt + 1;
+      }
+    }
+
+    const chunk = normalized.slice(start, end).trim();
+    if (chunk) {
+      chunks.push(chunk);
+    }
+    if (end >= normalized.length) {
+      break;
+    }
+    start = Math.max(end - overlap, start + 1);
+  }
+
+  return chunks;
+}
+
+/**
+ * Whether a file can be read as a document for retrieval
+ */
+export function isSupportedDocument(mimeType?: string): boolean {
+  return (
+    !!mimeType &&
+    (mimeType.startsWith("text/") ||
+      mimeType === "application/pdf" ||
+      mimeType === "application/json")
+  );
+}
+
+/**
+ * Turns attachments into text the companion can work with: voice notes
+ * are transcribed, photos described by a vision model and documents split
+ * into vector documents for retrieval.
+ */
+class MediaService {
+  private speechToText: SpeechToTextProvider | null =
+    createSpeechToTextProvider();
+
+  isSpeechToTextEnabled(): boolean {
+    return this.speechToText !== null;
+  }
+
+  /**
+   * Transcribe audio the user sent. Metered by the transcript's tokens, as
+   * speech-to-text providers don't report usage.
+   */
+  async transcribeAudio(
+    userId: string,
+    audio: Buffer,
+    mimeType: string
+  ): Promise<string> {
+    if (!this.speechToText) {
+      throw new Error("Speech-to-text is not configured");
+    }
+    const transcript = await this.speechToText.transcribe(audio, mimeType);
+    logger.debug(
+      `Transcribed ${audio.length} bytes of audio with ${this.speechToText.name}`
+    );
+    usageService.record({
+      userId,
+      provider: this.speechToText.name,
+      model: this.speechToText.model,
+      purpose: "transcription",
+      promptTokens: 0,
+      completionTokens: countTokens(transcript, "cl100k"),
+    });
+    return transcript;
+  }
+
+  /**
+   * Caption an image with the vision model (VISION_MODEL). OpenAI models go
+   * through the OpenAI client, everything else through Ollama. The call is
+   * metered against the user's plan.
+   */
+  async describeImage(
+    userId: string,
+    image: Buffer,
+    mimeType: string,
+    prompt: string = DEFAULT_IMAGE_PROMPT
+  ): Promise<string> {
+    const base64 = image.toString("base64");
+    const recordUsage = (
+      provider: LLMProvider,
+      description: string,
+      promptTokens?: number,
+      completionTokens?: number
+    ) =>
+      usageService.record({
+        userId,
+        provider,
+        model: VISION_MODEL,
+        purpose: "image_description",
+        // Providers that don't report usage are metered on the text alone
+        promptTokens: promptTokens ?? countTokens(prompt, "cl100k"),
+        completionTokens:
+          completionTokens ?? countTokens(description, "cl100k"),
+      });
+
+    if (
+      modelService.getProviderFromModel(VISION_MODEL) === LLMProvider.OPENAI
+    ) {
+      const client = modelService.getOpenAIClient();
+      if (!client) {
+        throw new Error("OpenAI client is not configured");
+      }
+      const completion = await client.chat.completions.create({
+        model: VISION_MODEL,
+        max_tokens: 300,
+        messages: [
+          {
+            role: "user",
+            content: [
+              { type: "text", text: prompt },
+              {
+                type: "image_url",
+                image_url: { url: `data:${mimeType};base64,${base64}` },
+              },
+            ],
+          },
+        ],
+      });
+      const description = completion.choices[0]?.message?.content?.trim() || "";
+      recordUsage(
+        LLMProvider.OPENAI,
+        description,
+        completion.usage?.prompt_tokens,
+        completion.usage?.completion_tokens
+      );
+      return description;
+    }
+
+    const ollamaUrl = process.env.OLLAMA_BASE_URL || "http://localhost:11434";
+    const response = await axios.post(`${ollamaUrl}/api/generate`, {
+      model: VISION_MODEL,
+      prompt,
+      images: [base64],
+      stream: false,
+    });
+    const description = String(response.data?.response || "").trim();
+    recordUsage(
+      LLMProvider.OLLAMA,
+      description,
+      response.data?.prompt_eval_count,
+      response.data?.eval_count
+    );
+    return description;
+  }
+
+  /**
+   * Plain text of a text or PDF file. PDFs are read with poppler's pdftotext.
+   */
+  async extractDocumentText(file: Buffer, mimeType: string): Promise<string> {
+    if (mimeType !== "application/pdf") {
+      return file.toString("utf8");
+    }
+
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "doc-"));
+    try {
+      const pdfPath = path.join(dir, "document.pdf");
+      await fs.writeFile(pdfPath, file);
+      const { stdout } = await execFileAsync(
+        PDFTOTEXT_PATH,
+        ["-enc", "UTF-8", pdfPath, "-"],
+        { timeout: 60000, maxBuffer: 50 * 1024 * 1024 }
+      );
+      return stdout;
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Store a document as chunked vector documents. Resolves to the number of
+   * chunks stored.
+   */
+  async ingestDocument(
+    userId: string,
+    file: Buffer,
+    options: {
+      fileName: string;
+      mimeType: string;
+      sourceId: string;
+      metadata?: Record<string, any>;
+    }
+  ): Promise<number> {
+    const text = await this.extractDocumentText(file, options.mimeType);
+    const chunks = chunkText(text).slice(0, MAX_CHUNKS);
+
+    for (const [index, chunk] of chunks.entries()) {
+      await mongoVectorDbService.addDocument(
+        userId,
+        chunk,
+        DOCUMENT_VECTOR_TYPE,
+        options.sourceId,
+        {
+          ...options.metadata,
+          fileName: options.fileName,
+          mimeType: options.mimeType,
+          chunkIndex: index,
+          chunkCount: chunks.length,
+        }
+      );
+    }
+
+    logger.info(
+      `Stored ${chunks.length} chunks of "${options.fileName}" for user ${userId}`
+    );
+    return chunks.length;
+  }
+}
+
+export const mediaService = new MediaService();
@@ -0,0 +1,146 @@
+import { execFile } from "child_process";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { promisify } from "util";
+import { loggerFactory } from "../../utils/logger.service";
+
+const execFileAsync = promisify(execFile);
+const logger = loggerFactory.getLogger("SpeechToText");
+
+const STT_TIMEOUT_MS = parseInt(process.env.STT_TIMEOUT_MS || "120000", 10);
+
+/**
+ * Turns recorded speech into text
+ */
+export interface SpeechToTextProvider {
+  readonly name: string;
+  readonly model: string; // Recorded when metering transcriptions
+  transcribe(audio: Buffer, mimeType: string): Promise<string>;
+}
+
+/**
+ * Runs a local whisper.cpp binary. Audio is first converted with ffmpeg to
+ * the 16 kHz mono WAV whisper.cpp expects (Telegram voice notes are Opus).
+ */
+export class WhisperCppProvider implements SpeechToTextProvider {
+  readonly name = "whisper-cpp";
+
+  constructor(
+    private binaryPath: string = process.env.WHISPER_CPP_PATH || "whisper-cli",
+    private modelPath: string = process.env.WHISPER_CPP_MODEL || "",
+    private language: string = process.env.WHISPER_CPP_LANGUAGE || "auto",
+    private ffmpegPath: string = process.env.FFMPEG_PATH || "ffmpeg"
+  ) {}
+
+  get model(): string {
+    return path.basename(this.modelPath);
+  }
+
+  async transcribe(audio: Buffer): Promise<string> {
+    if (!this.modelPath) {
+      throw new Error("WHISPER_CPP_MODEL is not set");
+    }
+
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "stt-"));
+    try {
+      const inputPath = path.join(dir, "input");
+      const wavPath = path.join(dir, "input.wav");
+      await fs.writeFile(inputPath, audio);
+
+      await execFileAsync(
+        this.ffmpegPath,
+        ["-y", "-i", inputPath, "-ar", "16000", "-ac", "1", wavPath],
+        { timeout: STT_TIMEOUT_MS }
+      );
+      const { stdout } = await execFileAsync(
+        this.binaryPath,
+        [
+          "-m",
+          this.modelPath,
+          "-l",
+          this.language,
+          "-nt",
+          "-np",
+          "-f",
+          wavPath,
+        ],
+        { timeout: STT_TIMEOUT_MS, maxBuffer: 10 * 1024 * 1024 }
+      );
+      return stdout.replace(/\s+/g, " ").trim();
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  }
+}
+
+/**
+ * Posts audio to an HTTP transcription endpoint that takes a multipart
+ * `file` field, such as OpenAI's /v1/audio/transcriptions or the
+ * whisper.cpp server's /inference. Accepts a JSON `{ text }` or plain text
+ * response.
+ */
+export class HttpSpeechToTextProvider implements SpeechToTextProvider {
+  readonly name = "http";
+
+  constructor(
+    private url: string = process.env.STT_HTTP_URL || "",
+    readonly model: string = process.env.STT_HTTP_MODEL || "whisper-1",
+    private apiKey: string | undefined = process.env.STT_HTTP_API_KEY
+  ) {}
+
+  async transcribe(audio: Buffer, mimeType: string): Promise<string> {
+    if (!this.url) {
+      throw new Error("STT_HTTP_URL is not set");
+    }
+
+    const form = new FormData();
+    const extension = mimeType.split("/")[1]?.split(";")[0] || "ogg";
+    form.append(
+      "file",
+      new Blob([audio], { type: mimeType }),
+      `audio.${extension}`
+    );
+    form.append("model", this.model);
+    form.append("response_format", "json");
+
+    const response = await fetch(this.url, {
+      method: "POST",
+      body: form,
+      headers: this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {},
+      signal: AbortSignal.timeout(STT_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new Error(
+        `Transcription endpoint responded with ${response.status}`
+      );
+    }
+
+    const body = await response.text();
+    try {
+      return String(JSON.parse(body).text || "").trim();
+    } catch {
+      return body.trim();
+    }
+  }
+}
+
+/**
+ * Provider selected by STT_PROVIDER (whisper-cpp | http), or null when
+ * speech-to-text is not configured
+ */
+export function createSpeechToTextProvider(): SpeechToTextProvider | null {
+  const providerType = (process.env.STT_PROVIDER || "").toLowerCase();
+  switch (providerType) {
+    case "whisper-cpp":
+      return new WhisperCppProvider();
+    case "http":
+      return new HttpSpeechToTextProvider();
+    case "":
+    case "none":
+      return null;
+    default:
+      logger.warn(`Unknown STT_PROVIDER "${providerType}", voice is disabled`);
+      return null;
+  }
+}
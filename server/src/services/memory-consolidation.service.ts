@@ -0,0 +1,520 @@
+import { loggerFactory } from "../utils/logger.service";
+import { Memory, IMemory } from "../models/memory.model";
+import { VectorDocument } from "../models/vector-document.model";
+import MemoryConsolidationModel, {
+  ConsolidationKind,
+  IMemoryConsolidation,
+} from "../models/memory-consolidation.model";
+import {
+  memoryService,
+  MemoryType,
+  CURRENT_MEMORY_FILTER,
+} from "./memory.service";
+import { aiService } from "./ai.service";
+import { AIPurpose } from "./model.service";
+import {
+  embeddingService,
+  cosineSimilarity,
+  isSameEmbeddingSpace,
+} from "./embedding.service";
+import { domainEventsService, DomainEventType } from "./domain-events.service";
+
+const logger = loggerFactory.getLogger("MemoryConsolidationService");
+
+const CONSOLIDATION_INTERVAL_MS = parseInt(
+  process.env.MEMORY_CONSOLIDATION_INTERVAL_MS || String(6 * 60 * 60 * 1000),
+  10
+);
+const MERGE_SIMILARITY = parseFloat(
+  process.env.MEMORY_MERGE_SIMILARITY || "0.88"
+);
+// Contradicting facts share a topic rather than wording, so the bar is lower
+const CONTRADICTION_SIMILARITY = 0.6;
+const MAX_CLUSTER_SIZE = 8;
+const MAX_CONTRADICTION_CANDIDATES = 5;
+const MAX_MEMORIES_PER_RUN = 1000;
+const CONSOLIDATION_SOURCE = "memory-consolidation";
+// Summaries describe sessions, not facts, and are never merged
+const SKIPPED_SOURCES = ["activity-summary-service"];
+const AUX_ERROR = "[Error generating auxiliary response]";
+
+// Most durable first; a merged memory keeps the most durable member's type
+const TYPE_DURABILITY = [
+  MemoryType.PERMANENT,
+  MemoryType.LONG_TERM,
+  MemoryType.MEDIUM_TERM,
+  MemoryType.SHORT_TERM,
+];
+
+export interface ConsolidationReport {
+  merged: number; // Clusters folded into a canonical memory
+  superseded: number; // Older facts replaced by contradicting newer ones
+}
+
+export type UndoResult =
+  | { undone: true; consolidation: IMemoryConsolidation }
+  | { undone: false; reason: "not_found" | "already_undone" | "merged_again" };
+
+/**
+ * Group items whose embeddings are at least `threshold` similar. Each item
+ * joins the first cluster whose leader (its first item) it is close enough
+ * to, so a chain of loosely related items is never merged end to end. Only
+ * clusters of two or more are returned.
+ */
+export function clusterBySimilarity<T extends { embedding: number[] }>(
+  items: T[],
+  threshold: number,
+  maxClusterSize: number = MAX_CLUSTER_SIZE
+): T[][] {
+  const clusters: T[][] = [];
+  for (const item of items) {
+    const cluster = clusters.find(
+      (candidate) =>
+        candidate.length < maxClusterSize &&
+        cosineSimilarity(candidate[0].embedding, item.embedding) >= threshold
+    );
+    if (cluster) {
+      cluster.push(item);
+    } else {
+      clusters.push([item]);
+    }
+  }
+  return clusters.filter((cluster) => cluster.length > 1);
+}
+
+/**
+ * Parse the model's list of 1-based fact numbers, keeping those in range.
+ * Anything else (prose, "none", malformed JSON) reads as no numbers.
+ */
+export function parseFactNumbers(text: string, count: number): number[] {
+  const jsonMatch = text.match(/\[[\s\S]*?\]/);
+  if (!jsonMatch) {
+    return [];
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(jsonMatch[0]);
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(parsed)) {
+    return [];
+  }
+
+  const numbers = parsed
+    .map((entry) => Number(entry))
+    .filter((n) => Number.isInteger(n) && n >= 1 && n <= count);
+  return Array.from(new Set(numbers));
+}
+
+/**
+ * Background consolidation of user memories: near-duplicates are merged into
+ * one canonical memory linked to the originals through `relatedMemories`,
+ * and an older fact contradicted by a newer one is marked superseded. Every
+ * change is recorded as a MemoryConsolidation so the user can undo it.
+ */
+class MemoryConsolidationService {
+  private isRunning = false;
+  private tickInterval: NodeJS.Timeout | null = null;
+  private isTicking = false;
+
+  constructor() {
+    // Check each new fact against what we already know, off the write path
+    domainEventsService.subscribe((eventType, eventData) => {
+      if (
+        eventType !== DomainEventType.MEMORY_CREATED ||
+        eventData.source === CONSOLIDATION_SOURCE ||
+        SKIPPED_SOURCES.includes(eventData.source) ||
+        process.env.MEMORY_CONTRADICTION_CHECK === "false"
+      ) {
+        return;
+      }
+      this.checkNewMemory(eventData.memoryId).catch((error) => {
+        logger.warn(`Contradiction check failed for ${eventData.memoryId}`, {
+          error: (error as Error).message,
+        });
+      });
+    });
+  }
+
+  /**
+   * Start consolidating every MEMORY_CONSOLIDATION_INTERVAL_MS (default 6 hours)
+   */
+  start(): void {
+    if (this.isRunning) {
+      logger.info("Memory consolidation is already running");
+      return;
+    }
+
+    logger.info(
+      `Starting memory consolidation every ${CONSOLIDATION_INTERVAL_MS}ms`
+    );
+    this.isRunning = true;
+    this.tickInterval = setInterval(() => {
+      this.consolidateAll();
+    }, CONSOLIDATION_INTERVAL_MS);
+  }
+
+  /**
+   * Stop consolidating
+   */
+  stop(): void {
+    if (!this.isRunning) {
+      return;
+    }
+
+    logger.info("Stopping memory consolidation");
+    this.isRunning = false;
+    if (this.tickInterval) {
+      clearInterval(this.tickInterval);
+      this.tickInterval = null;
+    }
+  }
+
+  /**
+   * Consolidate every user's memories. A failure for one user doesn't stop
+   * the others.
+   */
+  async consolidateAll(): Promise<void> {
+    if (this.isTicking) {
+      return;
+    }
+    this.isTicking = true;
+
+    try {
+      const userIds: string[] = await Memory.distinct("userId", {
+        isDeleted: { $ne: true },
+      }).exec();
+
+      for (const userId of userIds) {
+        try {
+          await this.consolidateUser(userId);
+        } catch (error) {
+          logger.error(
+            `Memory consolidation failed for user ${userId}`,
+            error as Error
+          );
+        }
+      }
+    } catch (error) {
+      logger.error("Error running memory consolidation", error as Error);
+    } finally {
+      this.isTicking = false;
+    }
+  }
+
+  /**
+   * Merge clusters of near-duplicate memories. When a cluster turns out not
+   * to state one fact, its newest memory is checked for contradicting the
+   * rest instead.
+   */
+  async consolidateUser(userId: string): Promise<ConsolidationReport> {
+    const report: ConsolidationReport = { merged: 0, superseded: 0 };
+    const memories = await this.getComparableMemories(userId);
+    const clusters = clusterBySimilarity(memories, MERGE_SIMILARITY);
+
+    for (const cluster of clusters) {
+      const merged = await this.mergeCluster(userId, cluster);
+      if (merged) {
+        report.merged++;
+        continue;
+      }
+
+      const [newest, ...older] = [...cluster].sort(
+        (a, b) => b.createdAt.getTime() - a.createdAt.getTime()
+      );
+      report.superseded += await this.supersedeContradicted(
+        userId,
+        newest,
+        older
+      );
+    }
+
+    if (report.merged || report.superseded) {
+      logger.info(
+        `Consolidated memories of user ${userId}: ${report.merged} merged, ${report.superseded} superseded`
+      );
+    }
+    return report;
+  }
+
+  /**
+   * Consolidations for a user, newest first
+   */
+  async getConsolidations(
+    userId: string,
+    options: { includeUndone?: boolean; limit?: number } = {}
+  ): Promise<IMemoryConsolidation[]> {
+    const query: any = { userId };
+    if (!options.includeUndone) {
+      query.undoneAt = { $exists: false };
+    }
+    return MemoryConsolidationModel.find(query)
+      .sort({ createdAt: -1 })
+      .limit(options.limit ?? 50)
+      .lean<IMemoryConsolidation[]>()
+      .exec();
+  }
+
+  /**
+   * Reverse a consolidation: a merge deletes the canonical memory and brings
+   * the originals back; a supersede makes the older fact current again. A
+   * canonical memory that has since been merged again has to be unmerged
+   * from there first.
+   */
+  async undo(userId: string, consolidationId: string): Promise<UndoResult> {
+    const consolidation = await MemoryConsolidationModel.findOne({
+      _id: consolidationId,
+      userId,
+    }).exec();
+    if (!consolidation) {
+      return { undone: false, reason: "not_found" };
+    }
+    if (consolidation.undoneAt) {
+      return { undone: false, reason: "already_undone" };
+    }
+
+    const memoryIds = consolidation.before.map((snapshot) => snapshot.memoryId);
+    if (consolidation.kind === ConsolidationKind.MERGE) {
+      const canonical = await Memory.findById(consolidation.resultMemoryId)
+        .lean<IMemory>()
+        .exec();
+      if (canonical?.mergedInto) {
+        return { undone: false, reason: "merged_again" };
+      }
+
+      await Memory.updateMany(
+        { _id: { $in: memoryIds }, mergedInto: consolidation.resultMemoryId },
+        { $unset: { mergedInto: "" } }
+      ).exec();
+      if (canonical) {
+        await memoryService.deleteMemory(consolidation.resultMemoryId);
+      }
+    } else {
+      await Memory.updateMany(
+        {
+          _id: { $in: memoryIds },
+          supersededBy: consolidation.resultMemoryId,
+        },
+        { $unset: { supersededBy: "", supersededAt: "" } }
+      ).exec();
+    }
+    await this.setRecallable(memoryIds, true);
+
+    consolidation.undoneAt = new Date();
+    await consolidation.save();
+    logger.info(
+      `Undid ${consolidation.kind} ${consolidationId} for user ${userId}`
+    );
+    return { undone: true, consolidation: consolidation.toObject() };
+  }
+
+  private async checkNewMemory(memoryId: string): Promise<void> {
+    const memory = await Memory.findById(memoryId).lean<IMemory>().exec();
+    if (!memory?.embedding?.length) {
+      return;
+    }
+
+    const candidates = (
+      await this.getComparableMemories(memory.userId, memory.createdAt)
+    )
+      .filter((other) => String(other._id) !== memoryId)
+      .map((other) => ({
+        other,
+        similarity: cosineSimilarity(memory.embedding!, other.embedding),
+      }))
+      .filter(({ similarity }) => similarity >= CONTRADICTION_SIMILARITY)
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, MAX_CONTRADICTION_CANDIDATES)
+      .map(({ other }) => other);
+
+    if (candidates.length > 0) {
+      await this.supersedeContradicted(memory.userId, memory, candidates);
+    }
+  }
+
+  /**
+   * Current, embedded, unpinned memories of a user in the active embedding
+   * space, most important first so they lead their clusters
+   */
+  private async getComparableMemories(
+    userId: string,
+    createdBefore?: Date
+  ): Promise<Array<IMemory & { embedding: number[] }>> {
+    const query: any = {
+      userId,
+      isDeleted: { $ne: true },
+      source: { $nin: SKIPPED_SOURCES },
+      pinned: { $ne: true },
+      "embedding.0": { $exists: true },
+      ...CURRENT_MEMORY_FILTER,
+    };
+    if (createdBefore) {
+      query.createdAt = { $lte: createdBefore };
+    }
+
+    const signature = embeddingService.getActiveSignature();
+    const memories = await Memory.find(query)
+      .sort({ importance: -1, createdAt: -1 })
+      .limit(MAX_MEMORIES_PER_RUN)
+      .lean<IMemory[]>()
+      .exec();
+    return memories.filter((memory) =>
+      isSameEmbeddingSpace(memory, signature)
+    ) as Array<IMemory & { embedding: number[] }>;
+  }
+
+  private async mergeCluster(
+    userId: string,
+    cluster: IMemory[]
+  ): Promise<boolean> {
+    const response = await aiService.generateAuxiliaryResponse(
+      `Notes about the user:
+${cluster.map((memory, index) => `${index + 1}. ${memory.text}`).join("\n")}
+
+If every note states the same fact about the user, rewrite them as one note of a single sentence that keeps every detail. If any note says something different, or they contradict each other, reply with NONE.`,
+      { temperature: 0.2, max_tokens: 120, purpose: AIPurpose.SUMMARIZATION },
+      "You maintain a tidy list of facts about a user.",
+      userId
+    );
+    const text = response.text.trim().replace(/^["']|["']$/g, "");
+    if (!text || text === AUX_ERROR || /^none\b/i.test(text)) {
+      return false;
+    }
+
+    const memoryIds = cluster.map((memory) => String(memory._id));
+    const type =
+      TYPE_DURABILITY.find((durable) =>
+        cluster.some((memory) => String(memory.type) === durable)
+      ) ?? MemoryType.MEDIUM_TERM;
+    const canonical = await memoryService.addMemory(
+      userId,
+      text,
+      type,
+      CONSOLIDATION_SOURCE,
+      { mergedFrom: memoryIds },
+      Math.max(...cluster.map((memory) => memory.importance ?? 5))
+    );
+    const canonicalId = String(canonical._id);
+    await Memory.updateOne(
+      { _id: canonicalId },
+      {
+        $set: {
+          category: cluster[0].category,
+          relatedMemories: memoryIds,
+        },
+      }
+    ).exec();
+
+    await Memory.updateMany(
+      { _id: { $in: memoryIds } },
+      { $set: { mergedInto: canonicalId } }
+    ).exec();
+    await this.setRecallable(memoryIds, false);
+
+    await MemoryConsolidationModel.create({
+      userId,
+      kind: ConsolidationKind.MERGE,
+      resultMemoryId: canonicalId,
+      resultText: text,
+      before: cluster.map((memory) => this.snapshot(memory)),
+      reason: `${cluster.length} near-duplicate memories`,
+    });
+    return true;
+  }
+
+  /**
+   * Ask which of the older memories the newer one makes untrue, and mark
+   * those superseded by it. Returns how many were superseded.
+   */
+  private async supersedeContradicted(
+    userId: string,
+    newer: IMemory,
+    older: IMemory[]
+  ): Promise<number> {
+    const response = await aiService.generateAuxiliaryResponse(
+      `New fact about the user: ${newer.text}
+
+Earlier facts:
+${older.map((memory, index) => `${index + 1}. ${memory.text}`).join("\n")}
+
+Which earlier facts can no longer be true if the new fact is true (for example an old address after a move)? Facts that merely add detail still hold. Reply only with a JSON array of their numbers, or [] if none.`,
+      { temperature: 0, max_tokens: 50, purpose: AIPurpose.SUMMARIZATION },
+      "You maintain a tidy list of facts about a user.",
+      userId
+    );
+    if (response.text.trim() === AUX_ERROR) {
+      return 0;
+    }
+
+    const contradicted = parseFactNumbers(response.text, older.length).map(
+      (n) => older[n - 1]
+    );
+    if (contradicted.length === 0) {
+      return 0;
+    }
+
+    const newerId = String(newer._id);
+    const memoryIds = contradicted.map((memory) => String(memory._id));
+    await Memory.updateMany(
+      { _id: { $in: memoryIds } },
+      { $set: { supersededBy: newerId, supersededAt: new Date() } }
+    ).exec();
+    await this.setRecallable(memoryIds, false);
+
+    await MemoryConsolidationModel.create({
+      userId,
+      kind: ConsolidationKind.SUPERSEDE,
+      resultMemoryId: newerId,
+      resultText: newer.text,
+      before: contradicted.map((memory) => this.snapshot(memory)),
+      reason: "Contradicted by a newer memory",
+    });
+    logger.info(
+      `Memory ${newerId} supersedes ${memoryIds.join(", ")} for user ${userId}`
+    );
+    return contradicted.length;
+  }
+
+  /**
+   * Hide or show memories' vector documents in semantic search, leaving
+   * those of memories the user deleted hidden
+   */
+  private async setRecallable(
+    memoryIds: string[],
+    recallable: boolean
+  ): Promise<void> {
+    let sourceIds = memoryIds;
+    if (recallable) {
+      const current = await Memory.find(
+        {
+          _id: { $in: memoryIds },
+          isDeleted: { $ne: true },
+          ...CURRENT_MEMORY_FILTER,
+        },
+        { _id: 1 }
+      )
+        .lean<Array<{ _id: unknown }>>()
+        .exec();
+      sourceIds = current.map((memory) => String(memory._id));
+    }
+
+    await VectorDocument.updateMany(
+      { type: "memory", sourceId: { $in: sourceIds } },
+      { $set: { isDeleted: !recallable } }
+    ).exec();
+  }
+
+  private snapshot(memory: IMemory) {
+    return {
+      memoryId: String(memory._id),
+      text: memory.text,
+      importance: memory.importance,
+      category: memory.category,
+      createdAt: memory.createdAt,
+    };
+  }
+}
+
+export const memoryConsolidationService = new MemoryConsolidationService();
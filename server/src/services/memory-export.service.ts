@@ -0,0 +1,384 @@
+import mongoose from "mongoose";
+import { loggerFactory } from "../utils/logger.service";
+import {
+  Memory,
+  IMemory,
+  MemoryType,
+  MemoryCategory,
+} from "../models/memory.model";
+import { VectorDocument } from "../models/vector-document.model";
+import { embeddingService, EmbeddingResult } from "./embedding.service";
+
+const logger = loggerFactory.getLogger("MemoryExportService");
+
+const EXPORT_VERSION = 1;
+const MAX_IMPORT_MEMORIES = 5000;
+const MAX_TEXT_LENGTH = 5000;
+const EMBED_BATCH_SIZE = 50;
+
+/**
+ * A memory as written to an export file. Embeddings are left out: they
+ * depend on the embedding model and are recomputed on import.
+ */
+export interface ExportedMemory {
+  id: string;
+  text: string;
+  type: MemoryType;
+  category: MemoryCategory;
+  source: string;
+  importance: number;
+  pinned: boolean;
+  isDeleted: boolean;
+  createdAt: string;
+  expiresAt?: string;
+  lastAccessed?: string;
+  accessCount: number;
+  metadata: Record<string, any>;
+  relatedMemories: string[];
+  mergedInto?: string;
+  supersededBy?: string;
+}
+
+export interface MemoryExport {
+  version: number;
+  exportedAt: string;
+  memories: ExportedMemory[];
+}
+
+export interface ImportError {
+  index: number;
+  message: string;
+}
+
+export interface ImportReport {
+  imported: number;
+  errors: ImportError[];
+}
+
+/**
+ * An import entry that passed validation. `id` is the entry's id in the
+ * file, used only to carry relationships over to the new memories.
+ */
+export interface ValidatedMemory {
+  id?: string;
+  text: string;
+  type: MemoryType;
+  category: MemoryCategory;
+  source: string;
+  importance: number;
+  pinned: boolean;
+  isDeleted: boolean;
+  createdAt: Date;
+  expiresAt?: Date;
+  metadata: Record<string, any>;
+  relatedMemories: string[];
+  mergedInto?: string;
+  supersededBy?: string;
+}
+
+const optionalDate = (value: unknown): Date | null | undefined => {
+  if (value === undefined || value === null || value === "") {
+    return undefined;
+  }
+  const date = new Date(value as string);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+const optionalString = (value: unknown): string | undefined =>
+  typeof value === "string" && value ? value : undefined;
+
+/**
+ * Validate an import payload: an export file or a bare array of memories.
+ * Invalid entries are reported by index and left out; the rest are
+ * normalized with defaults for missing fields.
+ */
+export function validateImport(payload: unknown): {
+  memories: ValidatedMemory[];
+  errors: ImportError[];
+} {
+  const entries = Array.isArray(payload)
+    ? payload
+    : (payload as MemoryExport | null)?.memories;
+  if (!Array.isArray(entries)) {
+    return {
+      memories: [],
+      errors: [
+        {
+          index: -1,
+          message: "Expected an export file or an array of memories",
+        },
+      ],
+    };
+  }
+
+  const memories: ValidatedMemory[] = [];
+  const errors: ImportError[] = [];
+  entries.forEach((entry: any, index: number) => {
+    const fail = (message: string) => errors.push({ index, message });
+
+    if (index >= MAX_IMPORT_MEMORIES) {
+      return fail(
+        `Only ${MAX_IMPORT_MEMORIES} memories can be imported at once`
+      );
+    }
+    if (!entry || typeof entry !== "object") {
+      return fail("Entry is not an object");
+    }
+
+    const text = typeof entry.text === "string" ? entry.text.trim() : "";
+    if (!text) {
+      return fail("text is required");
+    }
+    if (text.length > MAX_TEXT_LENGTH) {
+      return fail(`text is longer than ${MAX_TEXT_LENGTH} characters`);
+    }
+
+    const type = entry.type ?? MemoryType.MEDIUM_TERM;
+    if (!Object.values(MemoryType).includes(type)) {
+      return fail(`Unknown type "${type}"`);
+    }
+    const category = entry.category ?? MemoryCategory.FACT;
+    if (!Object.values(MemoryCategory).includes(category)) {
+      return fail(`Unknown category "${category}"`);
+    }
+
+    const importance = entry.importance ?? 5;
+    if (typeof importance !== "number" || importance < 0 || importance > 10) {
+      return fail("importance must be a number from 0 to 10");
+    }
+
+    const createdAt = optionalDate(entry.createdAt);
+    const expiresAt = optionalDate(entry.expiresAt);
+    if (createdAt === null || expiresAt === null) {
+      return fail("createdAt and expiresAt must be dates");
+    }
+
+    memories.push({
+      id: optionalString(entry.id),
+      text,
+      type,
+      category,
+      source: optionalString(entry.source) ?? "import",
+      importance,
+      pinned: entry.pinned === true,
+      isDeleted: entry.isDeleted === true,
+      createdAt: createdAt ?? new Date(),
+      expiresAt: entry.pinned === true ? undefined : expiresAt,
+      metadata:
+        entry.metadata && typeof entry.metadata === "object"
+          ? entry.metadata
+          : {},
+      relatedMemories: Array.isArray(entry.relatedMemories)
+        ? entry.relatedMemories.filter((id: unknown) => typeof id === "string")
+        : [],
+      mergedInto: optionalString(entry.mergedInto),
+      supersededBy: optionalString(entry.supersededBy),
+    });
+  });
+
+  return { memories, errors };
+}
+
+const CATEGORY_TITLES: Record<string, string> = {
+  [MemoryCategory.FACT]: "Facts",
+  [MemoryCategory.PREFERENCE]: "Preferences",
+  [MemoryCategory.INTEREST]: "Interests",
+  [MemoryCategory.BEHAVIOR]: "Behavior",
+  [MemoryCategory.GOAL]: "Goals",
+  [MemoryCategory.INTERACTION]: "Interactions",
+  [MemoryCategory.CONVERSATION]: "Conversations",
+  [MemoryCategory.EVENT]: "Events",
+  [MemoryCategory.TOPIC]: "Topics",
+  [MemoryCategory.CUSTOM]: "Other",
+};
+
+/**
+ * Render an export as Markdown, one section per category. Every field of
+ * the JSON export except access statistics is kept, so the file stays a
+ * complete human-readable record.
+ */
+export function renderMarkdown(data: MemoryExport): string {
+  const lines = [
+    "# Memories",
+    "",
+    `Exported ${data.exportedAt} · ${data.memories.length} memories`,
+  ];
+
+  for (const category of Object.values(MemoryCategory)) {
+    const memories = data.memories.filter(
+      (memory) => memory.category === category
+    );
+    if (memories.length === 0) {
+      continue;
+    }
+
+    lines.push("", `## ${CATEGORY_TITLES[category]}`, "");
+    for (const memory of memories) {
+      const flags = [
+        memory.pinned && "pinned",
+        memory.isDeleted && "deleted",
+        memory.mergedInto && `merged into \`${memory.mergedInto}\``,
+        memory.supersededBy && `superseded by \`${memory.supersededBy}\``,
+      ].filter(Boolean);
+
+      lines.push(`- ${memory.text.replace(/\s*\n\s*/g, " ")}`);
+      lines.push(
+        `  - id \`${memory.id}\` · ${memory.type} · importance ${memory.importance} · source ${memory.source} · created ${memory.createdAt}` +
+          (memory.expiresAt ? ` · expires ${memory.expiresAt}` : "")
+      );
+      if (flags.length) {
+        lines.push(`  - ${flags.join(" · ")}`);
+      }
+      if (memory.relatedMemories.length) {
+        lines.push(
+          `  - related: ${memory.relatedMemories.map((id) => `\`${id}\``).join(", ")}`
+        );
+      }
+      if (Object.keys(memory.metadata).length) {
+        lines.push(`  - metadata: \`${JSON.stringify(memory.metadata)}\``);
+      }
+    }
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Portable export and import of a user's memories
+ */
+class MemoryExportService {
+  /**
+   * Every memory of the user, including deleted, merged and superseded ones
+   */
+  async exportMemories(userId: string): Promise<MemoryExport> {
+    const memories = await Memory.find({ userId })
+      .sort({ createdAt: 1 })
+      .select("-embedding")
+      .lean<IMemory[]>()
+      .exec();
+
+    return {
+      version: EXPORT_VERSION,
+      exportedAt: new Date().toISOString(),
+      memories: memories.map((memory) => ({
+        id: String(memory._id),
+        text: memory.text,
+        type: memory.type,
+        category: memory.category ?? MemoryCategory.FACT,
+        source: memory.source,
+        importance: memory.importance ?? 5,
+        pinned: memory.pinned === true,
+        isDeleted: memory.isDeleted === true,
+        createdAt: new Date(memory.createdAt).toISOString(),
+        expiresAt: memory.expiresAt?.toISOString(),
+        lastAccessed: memory.lastAccessed?.toISOString(),
+        accessCount: memory.accessCount ?? 0,
+        metadata: memory.metadata ?? {},
+        relatedMemories: memory.relatedMemories ?? [],
+        mergedInto: memory.mergedInto,
+        supersededBy: memory.supersededBy,
+      })),
+    };
+  }
+
+  /**
+   * Import validated memories as new memories of the user, re-embedded with
+   * the active model. Links between imported memories are carried over to
+   * their new ids; links to memories outside the file are dropped. Imports
+   * restore history rather than record new knowledge, so no memory events
+   * are emitted.
+   */
+  async importMemories(
+    userId: string,
+    payload: unknown
+  ): Promise<ImportReport> {
+    const { memories, errors } = validateImport(payload);
+    if (memories.length === 0) {
+      return { imported: 0, errors };
+    }
+
+    const newIds = new Map<string, string>();
+    const ids = memories.map((memory) => {
+      const id = new mongoose.Types.ObjectId().toString();
+      if (memory.id) {
+        newIds.set(memory.id, id);
+      }
+      return id;
+    });
+    const link = (id?: string) => (id ? newIds.get(id) : undefined);
+
+    for (let start = 0; start < memories.length; start += EMBED_BATCH_SIZE) {
+      const batch = memories.slice(start, start + EMBED_BATCH_SIZE);
+      let embeddings: Array<EmbeddingResult | undefined> = [];
+      try {
+        embeddings = await embeddingService.embedMany(
+          batch.map((memory) => memory.text)
+        );
+      } catch (error) {
+        // The backfill job embeds them later
+        logger.warn("Failed to embed imported memories", {
+          error: (error as Error).message,
+        });
+      }
+
+      const docs = batch.map((memory, offset) => {
+        const embedding = embeddings[offset];
+        return {
+          _id: ids[start + offset],
+          userId,
+          text: memory.text,
+          type: memory.type,
+          category: memory.category,
+          source: memory.source,
+          importance: memory.importance,
+          pinned: memory.pinned,
+          isDeleted: memory.isDeleted,
+          createdAt: memory.createdAt,
+          expiresAt: memory.expiresAt,
+          metadata: memory.metadata,
+          relatedMemories: memory.relatedMemories
+            .map((id) => link(id))
+            .filter((id): id is string => Boolean(id)),
+          mergedInto: link(memory.mergedInto),
+          supersededBy: link(memory.supersededBy),
+          accessCount: 0,
+          embedding: embedding?.vector,
+          embeddingModel: embedding?.model,
+          embeddingVersion: embedding?.version,
+        };
+      });
+      await Memory.insertMany(docs);
+
+      const vectorDocs = docs
+        .filter((doc) => doc.embedding)
+        .map((doc) => ({
+          userId,
+          text: doc.text,
+          embedding: doc.embedding,
+          embeddingModel: doc.embeddingModel,
+          embeddingVersion: doc.embeddingVersion,
+          metadata: {
+            memoryId: doc._id,
+            type: doc.type,
+            category: doc.category,
+            importance: doc.importance,
+          },
+          type: "memory",
+          sourceId: doc._id,
+          isDeleted: Boolean(
+            doc.isDeleted || doc.mergedInto || doc.supersededBy
+          ),
+        }));
+      if (vectorDocs.length) {
+        await VectorDocument.insertMany(vectorDocs);
+      }
+    }
+
+    logger.info(
+      `Imported ${memories.length} memories for user ${userId} (${errors.length} skipped)`
+    );
+    return { imported: memories.length, errors };
+  }
+}
+
+export const memoryExportService = new MemoryExportService();
@@ -12,6 +12,23 @@ import { databaseService } from "../config/mongodb";
 import { aiService } from "./ai.service";
 import { modelEnum } from "../constants/models";
 import { summaryService } from "./summary.service";
+import {
+  embeddingService,
+  cosineSimilarity,
+  isSameEmbeddingSpace,
+  EmbeddingResult,
+} from "./embedding.service";
+import { domainEventsService, DomainEventType } from "./domain-events.service";
+
+/**
+ * Query conditions for memories that are still current. Merged and
+ * superseded memories are kept so a consolidation can be undone, but are
+ * not recalled.
+ */
+export const CURRENT_MEMORY_FILTER = {
+  mergedInto: { $exists: false },
+  supersededBy: { $exists: false },
+};
 
 /**
  * Plain interface for memory data (without Mongoose Document fields)
@@ -34,6 +51,29 @@ interface PlainMemoryData {
   isDeleted?: boolean;
 }
 
+/**
+ * Filter for listing and bulk operations on a user's memories. Dates bound
+ * `createdAt`, inclusively.
+ */
+export interface MemoryFilter {
+  category?: string;
+  source?: string;
+  from?: Date;
+  to?: Date;
+}
+
+/**
+ * Options for listing memories in the memory manager
+ */
+export interface MemoryListOptions extends MemoryFilter {
+  q?: string; // Case-insensitive substring of the text
+  type?: string;
+  pinned?: boolean;
+  includeDeleted?: boolean;
+  limit?: number;
+  skip?: number;
+}
+
 /**
  * Interface for memory search results
  */
@@ -130,6 +170,9 @@ export class MemoryService {
   */
 
   private async decayMemoryImportance(memory: IMemory) {
+    if (memory.pinned) {
+      return memory.importance ?? 5;
+    }
     const daysSinceCreation = Math.floor(
       (Date.now() - (memory.createdAt?.getTime() ?? Date.now())) /
         (24 * 60 * 60 * 1000)
@@ -211,6 +254,8 @@ export class MemoryService {
       const modelCategory = this.mapToModelCategory(category);
       const modelType = this.mapToModelType(type);
 
+      const embedding = await this.tryEmbed(text);
+
       // Create the memory document
       const memoryDoc = new Memory({
         userId,
@@ -223,17 +268,24 @@ export class MemoryService {
         expiresAt,
         createdAt: new Date(),
         accessCount: 0,
+        embedding: embedding?.vector,
+        embeddingModel: embedding?.model,
+        embeddingVersion: embedding?.version,
       });
 
       const savedMemory = await memoryDoc.save();
 
       // Add to vector database for semantic search
       try {
+        if (!embedding) {
+          throw new Error("No embedding available for memory");
+        }
         const vectorDoc = new VectorDocument({
           userId,
           text,
-          // In production, you would generate a real embedding here using an embedding model
-          embedding: Array.from({ length: 384 }, () => Math.random() * 2 - 1),
+          embedding: embedding.vector,
+          embeddingModel: embedding.model,
+          embeddingVersion: embedding.version,
           metadata: {
             memoryId: savedMemory._id,
             type: modelType,
@@ -250,6 +302,18 @@ export class MemoryService {
       }
 
       console.log(`Added memory for user ${userId}: ${savedMemory._id}`);
+
+      domainEventsService.emit(DomainEventType.MEMORY_CREATED, {
+        userId,
+        memoryId: String(savedMemory._id),
+        text,
+        type: modelType,
+        category: modelCategory,
+        importance,
+        source,
+        metadata,
+      });
+
       return savedMemory.toObject() as IMemory;
     } catch (error) {
       console.error("Error adding memory:", error);
@@ -257,6 +321,55 @@ export class MemoryService {
     }
   }
 
+  /**
+   * Embed text for storage, returning null instead of throwing so a failed
+   * embedding never blocks saving the memory itself. The backfill job fills
+   * in missing vectors later.
+   */
+  private async tryEmbed(text: string): Promise<EmbeddingResult | null> {
+    try {
+      return await embeddingService.embed(text);
+    } catch (error) {
+      console.error("Error generating memory embedding:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Score how well a memory's text matches the query. Uses cosine similarity
+   * when the memory was embedded in the same space as the query, otherwise
+   * falls back to keyword overlap.
+   */
+  private scoreTextRelevance(
+    memory: IMemory,
+    query: string,
+    queryEmbedding: EmbeddingResult | null,
+    minKeywordLength: number = 3
+  ): number {
+    if (
+      queryEmbedding &&
+      memory.embedding?.length &&
+      isSameEmbeddingSpace(memory, queryEmbedding)
+    ) {
+      return Math.max(
+        0,
+        cosineSimilarity(queryEmbedding.vector, memory.embedding)
+      );
+    }
+
+    const text = memory.text.toLowerCase();
+    let score = 0;
+    query
+      .toLowerCase()
+      .split(/\s+/)
+      .forEach((keyword) => {
+        if (keyword.length > minKeywordLength && text.includes(keyword)) {
+          score += 0.2;
+        }
+      });
+    return score;
+  }
+
   /**
    * Map service MemoryCategory to model ModelMemoryCategory
    */
@@ -319,6 +432,154 @@ export class MemoryService {
     return memories as IMemory[];
   }
 
+  /**
+   * List a user's memories for the memory manager: pinned first, then by
+   * importance and recency. Merged and superseded memories are included,
+   * since the user may want to see or restore them.
+   */
+  async listMemories(
+    userId: string,
+    options: MemoryListOptions = {}
+  ): Promise<{ memories: IMemory[]; total: number }> {
+    const query = this.filterQuery(userId, options);
+    if (options.q?.trim()) {
+      const escaped = options.q.trim().replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+      query.text = { $regex: escaped, $options: "i" };
+    }
+    if (options.type) {
+      query.type = options.type;
+    }
+    if (options.pinned !== undefined) {
+      query.pinned = options.pinned ? true : { $ne: true };
+    }
+    if (!options.includeDeleted) {
+      query.isDeleted = { $ne: true };
+    }
+
+    const [memories, total] = await Promise.all([
+      Memory.find(query)
+        .sort({ pinned: -1, importance: -1, createdAt: -1 })
+        .skip(options.skip ?? 0)
+        .limit(options.limit ?? 100)
+        .select("-embedding")
+        .lean()
+        .exec(),
+      Memory.countDocuments(query).exec(),
+    ]);
+    return { memories: memories as IMemory[], total };
+  }
+
+  private filterQuery(userId: string, filter: MemoryFilter): any {
+    const query: any = { userId };
+    if (filter.category) {
+      query.category = filter.category;
+    }
+    if (filter.source) {
+      query.source = filter.source;
+    }
+    if (filter.from || filter.to) {
+      query.createdAt = {};
+      if (filter.from) query.createdAt.$gte = filter.from;
+      if (filter.to) query.createdAt.$lte = filter.to;
+    }
+    return query;
+  }
+
+  /**
+   * Pin or unpin a memory. A pinned memory loses its expiry; unpinning
+   * starts its type's expiry over from now.
+   */
+  async setPinned(memoryId: string, pinned: boolean): Promise<IMemory | null> {
+    const memory = await Memory.findById(memoryId).lean<IMemory>().exec();
+    if (!memory) {
+      return null;
+    }
+
+    let update: Record<string, any>;
+    if (pinned) {
+      update = { $set: { pinned: true }, $unset: { expiresAt: "" } };
+    } else {
+      const expirationMs = this.memoryExpirations[memory.type as MemoryType];
+      update = expirationMs
+        ? {
+            $set: {
+              pinned: false,
+              expiresAt: new Date(Date.now() + expirationMs),
+            },
+          }
+        : { $set: { pinned: false } };
+    }
+
+    const updated = await Memory.findByIdAndUpdate(memoryId, update, {
+      new: true,
+    })
+      .lean()
+      .exec();
+    return updated as IMemory | null;
+  }
+
+  /**
+   * Soft-delete or restore every memory of a user matching the filter.
+   * Pinned memories are left alone when deleting. Returns how many changed.
+   */
+  async bulkSetDeleted(
+    userId: string,
+    filter: MemoryFilter,
+    deleted: boolean
+  ): Promise<number> {
+    const query = this.filterQuery(userId, filter);
+    if (deleted) {
+      query.isDeleted = { $ne: true };
+      query.pinned = { $ne: true };
+    } else {
+      query.isDeleted = true;
+    }
+
+    const memories = await Memory.find(query, { _id: 1, text: 1 })
+      .lean<Array<{ _id: unknown; text: string }>>()
+      .exec();
+    if (memories.length === 0) {
+      return 0;
+    }
+    const memoryIds = memories.map((memory) => String(memory._id));
+
+    await Memory.updateMany(
+      { _id: { $in: memoryIds } },
+      { $set: { isDeleted: deleted } }
+    ).exec();
+    // Merged and superseded memories stay out of semantic search either way
+    const recallable = deleted
+      ? memoryIds
+      : (
+          await Memory.find(
+            { _id: { $in: memoryIds }, ...CURRENT_MEMORY_FILTER },
+            { _id: 1 }
+          )
+            .lean<Array<{ _id: unknown }>>()
+            .exec()
+        ).map((memory) => String(memory._id));
+    await VectorDocument.updateMany(
+      { type: "memory", sourceId: { $in: recallable } },
+      { $set: { isDeleted: deleted } }
+    ).exec();
+
+    if (deleted) {
+      for (const memory of memories) {
+        domainEventsService.emit(DomainEventType.MEMORY_DELETED, {
+          userId,
+          memoryId: String(memory._id),
+          text: memory.text,
+          soft: true,
+        });
+      }
+    }
+
+    console.log(
+      `${deleted ? "Soft-deleted" : "Restored"} ${memoryIds.length} memories for user ${userId}`
+    );
+    return memoryIds.length;
+  }
+
   /**
    * Get a specific memory by ID
    */
@@ -347,26 +608,29 @@ export class MemoryService {
       return null;
     }
 
-    // If the text changed, update the vector database
+    // If the text changed, re-embed the memory and its vector document
     if (updates.text) {
-      try {
-        // Find the vector document for this memory
-        const vectorDoc = await VectorDocument.findOne({
-          type: "memory",
-          sourceId: memoryId,
-        }).exec();
-
-        if (vectorDoc) {
-          vectorDoc.text = updates.text;
-          // In production, you would regenerate the embedding here
-          vectorDoc.embedding = Array.from(
-            { length: 384 },
-            () => Math.random() * 2 - 1
-          );
-          await vectorDoc.save();
+      const embedding = await this.tryEmbed(updates.text);
+      if (embedding) {
+        try {
+          const embeddingFields = {
+            embedding: embedding.vector,
+            embeddingModel: embedding.model,
+            embeddingVersion: embedding.version,
+          };
+          await Memory.updateOne(
+            { _id: memoryId },
+            { $set: embeddingFields }
+          ).exec();
+          Object.assign(updatedMemory, embeddingFields);
+
+          await VectorDocument.updateOne(
+            { type: "memory", sourceId: memoryId },
+            { $set: { text: updates.text, ...embeddingFields } }
+          ).exec();
+        } catch (error) {
+          console.error("Error updating memory in vector database:", error);
         }
-      } catch (error) {
-        console.error("Error updating memory in vector database:", error);
       }
     }
 
@@ -391,6 +655,13 @@ export class MemoryService {
         sourceId: memoryId,
       }).exec();
 
+      domainEventsService.emit(DomainEventType.MEMORY_DELETED, {
+        userId: result.userId,
+        memoryId,
+        text: result.text,
+        soft: false,
+      });
+
       return true;
     } catch (error) {
       console.error("Error deleting memory:", error);
@@ -423,6 +694,13 @@ export class MemoryService {
         { isDeleted: true }
       ).exec();
 
+      domainEventsService.emit(DomainEventType.MEMORY_DELETED, {
+        userId: result.userId,
+        memoryId,
+        text: result.text,
+        soft: true,
+      });
+
       return true;
     } catch (error) {
       console.error("Error soft-deleting memory:", error);
@@ -523,6 +801,7 @@ export class MemoryService {
       // Only filter out deleted memories if includeDeleted is false
       if (!includeDeleted) {
         activitySummariesQuery.isDeleted = { $ne: true };
+        Object.assign(activitySummariesQuery, CURRENT_MEMORY_FILTER);
       }
 
       const activitySummaries = await Memory.find(activitySummariesQuery)
@@ -538,6 +817,7 @@ export class MemoryService {
       // Only filter out deleted memories if includeDeleted is false
       if (!includeDeleted) {
         regularMemoriesQuery.isDeleted = { $ne: true };
+        Object.assign(regularMemoriesQuery, CURRENT_MEMORY_FILTER);
       }
 
       if (filterByActivity && activeActivityId) {
@@ -576,20 +856,11 @@ export class MemoryService {
         return [];
       }
 
-      // Perform basic keyword matching
-      const keywords = query.toLowerCase().split(/\s+/);
+      const queryEmbedding = query.trim() ? await this.tryEmbed(query) : null;
 
-      // Calculate relevance scores based on keyword matches
+      // Calculate relevance scores from semantic similarity to the query
       const results = memories.map((memory: IMemory) => {
-        const text = memory.text.toLowerCase();
-        let score = 0;
-
-        // Check for keyword matches
-        keywords.forEach((keyword) => {
-          if (keyword.length > 3 && text.includes(keyword)) {
-            score += 0.2;
-          }
-        });
+        let score = this.scoreTextRelevance(memory, query, queryEmbedding);
 
         // Add importance-based score
         score += (memory.importance || 5) / 20;
@@ -680,6 +951,7 @@ export class MemoryService {
       const now = new Date();
       const result = await Memory.deleteMany({
         expiresAt: { $lt: now },
+        pinned: { $ne: true },
       }).exec();
 
       if (result.deletedCount > 0) {
@@ -725,6 +997,7 @@ export class MemoryService {
 
       if (onlyActive) {
         query.isDeleted = { $ne: true };
+        Object.assign(query, CURRENT_MEMORY_FILTER);
       }
 
       // Execute query
@@ -809,6 +1082,7 @@ export class MemoryService {
       // Only filter out deleted memories if includeDeleted is false
       if (!includeDeleted) {
         memoryQuery.isDeleted = { $ne: true };
+        Object.assign(memoryQuery, CURRENT_MEMORY_FILTER);
       }
 
       // Fetch memories associated with the activity ID
@@ -822,18 +1096,10 @@ export class MemoryService {
         return [];
       }
 
-      // Perform basic keyword matching for relevance scoring
-      const keywords = query.toLowerCase().split(/\s+/);
+      const queryEmbedding = query.trim() ? await this.tryEmbed(query) : null;
       const results = activityMemories.map((memory: IMemory) => {
-        const text = memory.text.toLowerCase();
-        let score = 0;
-
-        // Keyword matching score
-        keywords.forEach((keyword) => {
-          if (keyword.length > 2 && text.includes(keyword)) {
-            score += 0.2;
-          }
-        });
+        // Semantic (or keyword fallback) relevance score
+        let score = this.scoreTextRelevance(memory, query, queryEmbedding, 2);
 
         // Add importance-based score (normalized)
         score += (memory.importance || 5) / 20; // Max 0.5 from importance
@@ -1,8 +1,10 @@
 import { Ollama } from "@langchain/ollama";
 import { ChatGoogleGenerativeAI } from "@langchain/google-genai";
 import { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { BaseMessage } from "@langchain/core/messages";
 import { OpenAI } from "openai";
 import { modelEnum } from "../constants/models";
+import { TokenizerFamily } from "../utils/token-counter";
 
 // Define interfaces and enums directly or import from ai.service if they remain there
 // For clarity, defining them here.
@@ -13,6 +15,16 @@ export enum LLMProvider {
   CUSTOM = "custom",
 }
 
+/**
+ * What a model call is for. Users can point each purpose at a different model.
+ */
+export enum AIPurpose {
+  CHAT = "chat",
+  THINKING = "thinking",
+  SUMMARIZATION = "summarization",
+  ACTION_EXTRACTION = "action_extraction",
+}
+
 export interface AIParameters {
   model: string;
   temperature?: number;
@@ -24,6 +36,68 @@ export interface AIParameters {
   provider?: LLMProvider; // Make provider optional, deduce if not present
   endpointUrl?: string;
   apiKey?: string;
+  // JSON schema the reply must match. OpenAI models enforce it; other
+  // providers ignore it, so callers still check the reply.
+  responseSchema?: Record<string, unknown>;
+}
+
+/**
+ * Callback invoked with each text fragment as a streamed response arrives.
+ */
+export type TokenHandler = (delta: string) => void;
+
+/**
+ * What the prompt builder needs to know to size a prompt for a model
+ */
+export interface ModelInfo {
+  provider: LLMProvider;
+  /** Tokens the model attends to, prompt and reply together */
+  contextWindow: number;
+  tokenizer: TokenizerFamily;
+}
+
+// Context windows by model name prefix. The first match wins, so more
+// specific prefixes come before the ones they extend.
+const MODEL_CONTEXT_WINDOWS: Array<[string, number]> = [
+  ["gpt-4o", 128000],
+  ["gpt-4.1", 1047576],
+  ["gpt-4-turbo", 128000],
+  ["gpt-4", 8192],
+  ["gpt-3.5-turbo", 16385],
+  ["o1", 200000],
+  ["o3", 200000],
+  ["o4", 200000],
+  ["gemini-1.5", 1048576],
+  ["gemini-2", 1048576],
+  ["gemini-pro", 32760],
+  ["llama3.1", 131072],
+  ["llama3.2", 131072],
+  ["llama3.3", 131072],
+  ["llama3", 8192],
+  ["llama2", 4096],
+  ["gemma3:1b", 32768],
+  ["gemma3", 131072],
+  ["gemma2", 8192],
+  ["mistral-nemo", 131072],
+  ["mistral", 32768],
+  ["qwen2.5", 32768],
+  ["qwen3", 40960],
+  ["phi3", 4096],
+  ["deepseek-r1", 131072],
+];
+const DEFAULT_CONTEXT_WINDOW = 4096;
+
+// Ollama allocates memory for the whole window up front and truncates
+// anything longer, so its window is whatever num_ctx we ask for
+const DEFAULT_OLLAMA_NUM_CTX = 8192;
+
+// Ollama models whose tokenizer is a tiktoken-style BPE close to cl100k
+const CL100K_OLLAMA_MODELS = ["llama3", "qwen", "deepseek"];
+
+function knownContextWindow(model: string): number | undefined {
+  return MODEL_CONTEXT_WINDOWS.find(([prefix]) =>
+    model.startsWith(prefix)
+  )?.[1];
 }
 
 interface DefaultModels {
@@ -40,6 +114,10 @@ class ModelService {
   private googleModel: BaseChatModel | null = null;
   private openaiClient: OpenAI | null = null;
   private useOpenAI: boolean = false;
+  // Custom instances keyed by their parameters, so per-user profiles don't
+  // build a new client on every call
+  private customModels: Map<string, BaseChatModel> = new Map();
+  private readonly maxCustomModels = 20;
 
   private defaultModels: DefaultModels = {
     [LLMProvider.OLLAMA]: modelEnum.sth, // TODO: Make defaults configurable via env
@@ -62,6 +140,7 @@ class ModelService {
         baseUrl: process.env.OLLAMA_BASE_URL || "http://localhost:11434",
         model: this.defaultModels[LLMProvider.OLLAMA],
         temperature: 0.7, // Default temp for singleton
+        numCtx: this.getOllamaNumCtx(this.defaultModels[LLMProvider.OLLAMA]),
       });
       console.log("[ModelService] Default Ollama model initialized");
     } catch (error) {
@@ -135,6 +214,44 @@ class ModelService {
     return LLMProvider.OLLAMA; // Default to Ollama
   }
 
+  /**
+   * Context window and tokenizer for a model. For Ollama the window is the
+   * num_ctx requested (OLLAMA_NUM_CTX), capped at what the model supports.
+   */
+  public getModelInfo(parameters: AIParameters): ModelInfo {
+    const provider =
+      parameters.provider || this.getProviderFromModel(parameters.model);
+    const name = parameters.model.toLowerCase();
+    const contextWindow =
+      provider === LLMProvider.OLLAMA
+        ? this.getOllamaNumCtx(name)
+        : knownContextWindow(name) || DEFAULT_CONTEXT_WINDOW;
+
+    let tokenizer: TokenizerFamily = "sentencepiece";
+    if (provider === LLMProvider.OPENAI) {
+      tokenizer = /^(gpt-4o|gpt-4\.1|gpt-5|o\d)/.test(name)
+        ? "o200k"
+        : "cl100k";
+    } else if (
+      provider === LLMProvider.OLLAMA &&
+      CL100K_OLLAMA_MODELS.some((prefix) => name.startsWith(prefix))
+    ) {
+      tokenizer = "cl100k";
+    }
+
+    return { provider, contextWindow, tokenizer };
+  }
+
+  /**
+   * num_ctx to run an Ollama model with
+   */
+  private getOllamaNumCtx(model: string): number {
+    const requested =
+      Number(process.env.OLLAMA_NUM_CTX) || DEFAULT_OLLAMA_NUM_CTX;
+    const supported = knownContextWindow(model.toLowerCase());
+    return supported ? Math.min(requested, supported) : requested;
+  }
+
   /**
    * Get the appropriate chat model based on parameters.
    * Creates a new instance for custom configurations, otherwise returns pre-initialized singletons.
@@ -154,7 +271,8 @@ class ModelService {
     const hasCustomParams =
       parameters.temperature !== undefined ||
       parameters.max_tokens !== undefined ||
-      parameters.top_p !== undefined; // Add other params as needed
+      parameters.top_p !== undefined ||
+      parameters.endpointUrl !== undefined; // Add other params as needed
 
     const needsCustomInstance =
       hasCustomParams ||
@@ -167,11 +285,100 @@ class ModelService {
       // Note: OpenAI models are handled differently (not BaseChatModel for direct API use)
     }
 
+    const cacheKey = JSON.stringify([
+      provider,
+      modelName,
+      parameters.temperature,
+      parameters.max_tokens,
+      parameters.top_p,
+      parameters.endpointUrl,
+    ]);
+    const cached = this.customModels.get(cacheKey);
+    if (cached) return cached;
+
     // If custom or default not available, create a new instance
     console.log(
       `[ModelService] Creating custom model instance for ${provider} - ${modelName}`
     );
-    return this.createCustomChatModel(parameters);
+    const model = this.createCustomChatModel(parameters);
+    if (this.customModels.size >= this.maxCustomModels) {
+      // Evict the oldest entry (Map preserves insertion order)
+      this.customModels.delete(this.customModels.keys().next().value!);
+    }
+    this.customModels.set(cacheKey, model);
+    return model;
+  }
+
+  /**
+   * Stream a response from a Langchain model (Ollama/Google), forwarding each
+   * text delta to onToken. Resolves with the full concatenated response text.
+   */
+  public async streamChatModel(
+    chatModel: BaseChatModel,
+    messages: BaseMessage[],
+    onToken: TokenHandler
+  ): Promise<string> {
+    let fullText = "";
+    const stream = await chatModel.stream(messages);
+    for await (const chunk of stream) {
+      const delta = this.extractChunkText(chunk);
+      if (!delta) continue;
+      fullText += delta;
+      onToken(delta);
+    }
+    return fullText;
+  }
+
+  /**
+   * Stream a chat completion from OpenAI, forwarding each text delta to onToken.
+   * Resolves with the full concatenated response text.
+   */
+  public async streamOpenAIChat(
+    parameters: AIParameters,
+    messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[],
+    onToken: TokenHandler
+  ): Promise<string> {
+    if (!this.openaiClient) {
+      throw new Error("OpenAI client not available for streaming.");
+    }
+
+    let fullText = "";
+    const stream = await this.openaiClient.chat.completions.create({
+      model: parameters.model,
+      messages,
+      temperature: parameters.temperature,
+      max_tokens: parameters.max_tokens,
+      top_p: parameters.top_p,
+      frequency_penalty: parameters.frequency_penalty,
+      presence_penalty: parameters.presence_penalty,
+      stop: parameters.stop_sequences,
+      stream: true,
+    });
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content;
+      if (!delta) continue;
+      fullText += delta;
+      onToken(delta);
+    }
+    return fullText;
+  }
+
+  /**
+   * Ollama (an LLM, not a chat model) streams plain strings, while chat models
+   * stream message chunks whose content may be a string or a list of parts.
+   */
+  private extractChunkText(chunk: any): string {
+    if (typeof chunk === "string") return chunk;
+    const content = chunk?.content;
+    if (typeof content === "string") return content;
+    if (Array.isArray(content)) {
+      return content
+        .map((part: any) =>
+          typeof part === "string" ? part : part?.text || ""
+        )
+        .join("");
+    }
+    return "";
   }
 
   /**
@@ -187,10 +394,15 @@ class ModelService {
         case LLMProvider.OLLAMA:
           // @ts-ignore
           return new Ollama({
-            baseUrl: process.env.OLLAMA_BASE_URL || "http://localhost:11434",
+            baseUrl:
+              parameters.endpointUrl ||
+              process.env.OLLAMA_BASE_URL ||
+              "http://localhost:11434",
             model: modelName,
             temperature: parameters.temperature,
-            // Add other Ollama params if needed
+            numCtx: this.getOllamaNumCtx(modelName),
+            numPredict: parameters.max_tokens,
+            topP: parameters.top_p,
           });
         case LLMProvider.GOOGLE:
           if (!process.env.GOOGLE_API_KEY) {
@@ -3,6 +3,7 @@ import {
   IVectorDocument,
 } from "../models/vector-document.model";
 import { v4 as uuidv4 } from "uuid";
+import { embeddingService, cosineSimilarity } from "./embedding.service";
 
 /**
  * Interface for vector search results
@@ -27,17 +28,14 @@ class MongoVectorDbService {
     sourceId?: string,
     metadata?: Record<string, any>
   ): Promise<IVectorDocument> {
-    // In a real implementation, we would generate embeddings using an embedding model
-    // For now, we'll just use a simple mock embedding (random values)
-    const mockEmbedding = Array.from(
-      { length: 384 },
-      () => Math.random() * 2 - 1
-    );
+    const { vector, model, version } = await embeddingService.embed(text);
 
     const document = new VectorDocument({
       userId,
       text,
-      embedding: mockEmbedding,
+      embedding: vector,
+      embeddingModel: model,
+      embeddingVersion: version,
       metadata: metadata || {},
       createdAt: new Date(),
       type,
@@ -50,65 +48,58 @@ class MongoVectorDbService {
   }
 
   /**
-   * Search for documents similar to the query text
-   * In a real implementation, this would use cosine similarity with embeddings
+   * Search for documents similar to the query text, ranked by cosine similarity.
+   * Only documents embedded with the same model/version as the query are compared;
+   * stale documents are picked up by the embedding backfill job.
    */
   async searchSimilar(
     userId: string,
     queryText: string,
     type?: string,
-    limit: number = 5
+    limit: number = 5,
+    minScore: number = 0.1
   ): Promise<VectorSearchResult[]> {
+    // Without a query there is nothing to rank against, so return the most recent documents
+    if (!queryText.trim()) {
+      const recentQuery: any = { userId, isDeleted: { $ne: true } };
+      if (type) {
+        recentQuery.type = type;
+      }
+      const recent = await VectorDocument.find(recentQuery)
+        .sort({ createdAt: -1 })
+        .limit(limit)
+        .exec();
+      return recent.map((document) => ({ document, score: 0 }));
+    }
+
+    const queryEmbedding = await embeddingService.embed(queryText);
+
     // Build query
-    const query: any = { userId };
+    const query: any = {
+      userId,
+      isDeleted: { $ne: true },
+      embeddingModel: queryEmbedding.model,
+      embeddingVersion: queryEmbedding.version,
+    };
 
     if (type) {
       query.type = type;
     }
 
-    // Get documents for the user
     const documents = await VectorDocument.find(query).exec();
 
     if (documents.length === 0) {
       return [];
     }
 
-    // Generate a simple mock embedding for the query
-    // In production, you would use a real embedding model
-    const mockQueryEmbedding = Array.from(
-      { length: 384 },
-      () => Math.random() * 2 - 1
-    );
-
-    // Compute simple similarity scores
-    // In production, you would use a real vector similarity search
-    const results = documents.map((doc) => {
-      // Compute simple keyword similarity
-      const keywords = queryText.toLowerCase().split(/\s+/);
-      const textContent = doc.text.toLowerCase();
-
-      let score = 0;
-
-      // Add bonus for keyword matches
-      keywords.forEach((keyword) => {
-        if (keyword.length > 3 && textContent.includes(keyword)) {
-          score += 0.2;
-        }
-      });
-
-      // Dot product with embedding (simulated)
-      // In production, you would compute actual cosine similarity
-      if (doc.embedding && doc.embedding.length > 0) {
-        // Add a small random factor for demo purposes
-        score += Math.random() * 0.3;
-      }
-
-      return { document: doc, score };
-    });
+    const results = documents.map((doc) => ({
+      document: doc,
+      score: cosineSimilarity(queryEmbedding.vector, doc.embedding),
+    }));
 
     // Sort by score and return top results
     return results
-      .filter((result) => result.score > 0.1)
+      .filter((result) => result.score >= minScore)
       .sort((a, b) => b.score - a.score)
       .slice(0, limit);
   }
@@ -187,11 +178,12 @@ class MongoVectorDbService {
         doc.text = updates.text;
 
         // Regenerate embedding if text changed
-        // In production, you would use a real embedding model
-        doc.embedding = Array.from(
-          { length: 384 },
-          () => Math.random() * 2 - 1
+        const { vector, model, version } = await embeddingService.embed(
+          updates.text
         );
+        doc.embedding = vector;
+        doc.embeddingModel = model;
+        doc.embeddingVersion = version;
       }
 
       if (updates.metadata) {
@@ -0,0 +1,125 @@
+import {
+  NotificationModel,
+  INotification,
+  NotificationLevel,
+} from "../models/notification.model";
+import { realtimeService } from "./realtime/realtime.service";
+import { loggerFactory } from "../utils/logger.service";
+
+const logger = loggerFactory.getLogger("NotificationService");
+
+export interface CreateNotificationInput {
+  title: string;
+  body?: string;
+  level?: NotificationLevel;
+  source: string;
+  sourceId?: string;
+  link?: string;
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Persists in-app notifications and pushes them to the user's open SSE connections
+ */
+class NotificationService {
+  /**
+   * Store a notification in the user's inbox and deliver it live
+   */
+  async notify(
+    userId: string,
+    input: CreateNotificationInput
+  ): Promise<INotification> {
+    const notification = await NotificationModel.create({
+      userId,
+      title: input.title,
+      body: input.body,
+      level: input.level || "info",
+      source: input.source,
+      sourceId: input.sourceId,
+      link: input.link,
+      metadata: input.metadata || {},
+    });
+
+    this.pushToUser(userId, notification);
+    logger.info(`Created notification ${notification._id} for user ${userId}`);
+    return notification;
+  }
+
+  /**
+   * Send a notification event to every SSE connection the user has open,
+   * on any instance
+   */
+  private pushToUser(userId: string, notification: INotification): void {
+    realtimeService.publishToUser(userId, "notification", {
+      id: notification._id,
+      title: notification.title,
+      body: notification.body,
+      level: notification.level,
+      source: notification.source,
+      sourceId: notification.sourceId,
+      link: notification.link,
+      createdAt: notification.createdAt,
+    });
+  }
+
+  /**
+   * List notifications for a user, newest first
+   */
+  async getNotifications(
+    userId: string,
+    options: { unreadOnly?: boolean; limit?: number; before?: Date } = {}
+  ): Promise<INotification[]> {
+    const query: any = { userId };
+    if (options.unreadOnly) {
+      query.readAt = { $exists: false };
+    }
+    if (options.before) {
+      query.createdAt = { $lt: options.before };
+    }
+
+    return NotificationModel.find(query)
+      .sort({ createdAt: -1 })
+      .limit(options.limit || 50)
+      .lean<INotification[]>()
+      .exec();
+  }
+
+  async getUnreadCount(userId: string): Promise<number> {
+    return NotificationModel.countDocuments({
+      userId,
+      readAt: { $exists: false },
+    }).exec();
+  }
+
+  /**
+   * Mark a single notification as read. Returns false if it doesn't belong to the user.
+   */
+  async markRead(userId: string, notificationId: string): Promise<boolean> {
+    const result = await NotificationModel.updateOne(
+      { _id: notificationId, userId },
+      { $set: { readAt: new Date() } }
+    ).exec();
+    return result.matchedCount > 0;
+  }
+
+  async markAllRead(userId: string): Promise<number> {
+    const result = await NotificationModel.updateMany(
+      { userId, readAt: { $exists: false } },
+      { $set: { readAt: new Date() } }
+    ).exec();
+    return result.modifiedCount;
+  }
+
+  async deleteNotification(
+    userId: string,
+    notificationId: string
+  ): Promise<boolean> {
+    const result = await NotificationModel.deleteOne({
+      _id: notificationId,
+      userId,
+    }).exec();
+    return result.deletedCount > 0;
+  }
+}
+
+export const notificationService = new NotificationService();
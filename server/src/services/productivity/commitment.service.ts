@@ -0,0 +1,579 @@
+import CommitmentModel, {
+  ICommitment,
+  CommitmentTarget,
+} from "../../models/commitment.model";
+import { ChatMessage, MessageRole } from "../../models/chat.model";
+import { ContextType } from "../../interfaces/context-type.enum";
+import { aiService } from "../ai.service";
+import { AIPurpose } from "../model.service";
+import { contextService } from "../context.service";
+import { schedulerService } from "../scheduler.service";
+import { notionService } from "./notion.service";
+import { loggerFactory } from "../../utils/logger.service";
+import {
+  defaultDueDate,
+  isValidTimezone,
+  localDay,
+  zonedTimeToDate,
+} from "../../utils/zoned-time";
+
+const logger = loggerFactory.getLogger("CommitmentService");
+
+const RECENT_MESSAGE_COUNT = 6;
+const MAX_COMMITMENTS_PER_PASS = 3;
+const MIN_MESSAGE_LENGTH = 12; // Skip "ok", "thanks" and the like
+const LOOKBACK_DAYS = 14; // Window for not re-proposing the same commitment
+const MAX_REPLY_WORDS = 8; // Longer replies are treated as normal chat
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^\d{1,2}:\d{2}$/;
+const AFFIRMATIVE =
+  /^(?:y|yes|yep|yeah|yup|sure|ok|okay|please|do it|go ahead|add (?:it|them|both|all)|all|both|sounds good)\b/i;
+const NEGATIVE =
+  /^(?:n|no|nope|nah|don'?t|do not|skip|cancel|none|neither|never ?mind)\b/i;
+const SELECTION = /^(?:only|just|keep|add)?\s*\d/i;
+
+/**
+ * A commitment as returned by the extraction model, before normalization
+ */
+export interface ExtractedCommitment {
+  title: string;
+  date?: string; // YYYY-MM-DD in the user's timezone
+  time?: string; // HH:mm in the user's timezone
+  quote: string;
+}
+
+/**
+ * A todo compared against when checking for duplicates
+ */
+export interface ExistingTodo {
+  title: string;
+  day?: string; // YYYY-MM-DD in the user's timezone
+}
+
+export interface ConfirmationReply {
+  confirm: number[]; // Zero-based indices into the proposed commitments
+  dismiss: number[];
+}
+
+/**
+ * Lowercased title without punctuation, articles or a leading "to", so
+ * "Call Mum!" and "to call mum" compare equal
+ */
+export function normalizeTodoTitle(title: string): string {
+  return title
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, " ")
+    .replace(/\b(?:a|an|the)\b/g, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+    .replace(/^to /, "");
+}
+
+/**
+ * Whether a todo with the same title already exists for the same day.
+ * Undated todos on either side match any day.
+ */
+export function isDuplicateTodo(
+  candidate: ExistingTodo,
+  existing: ExistingTodo[]
+): boolean {
+  const title = normalizeTodoTitle(candidate.title);
+  return existing.some(
+    (todo) =>
+      normalizeTodoTitle(todo.title) === title &&
+      (!todo.day || !candidate.day || todo.day === candidate.day)
+  );
+}
+
+/**
+ * Parse the extraction model's output. Entries without a title or with
+ * malformed dates are dropped; a malformed time only drops the time.
+ */
+export function parseExtractedCommitments(text: string): ExtractedCommitment[] {
+  const jsonMatch = text.match(/\[[\s\S]*\]/);
+  if (!jsonMatch) {
+    return [];
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(jsonMatch[0]);
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(parsed)) {
+    return [];
+  }
+
+  const commitments: ExtractedCommitment[] = [];
+  for (const entry of parsed) {
+    const title = typeof entry?.title === "string" ? entry.title.trim() : "";
+    if (!title) continue;
+    // Small models sometimes write the string "null"
+    const rawDate = entry.date === "null" ? null : entry.date;
+    const date =
+      typeof rawDate === "string" && DATE_PATTERN.test(rawDate)
+        ? rawDate
+        : undefined;
+    if (rawDate && !date) continue;
+    const time =
+      date && typeof entry.time === "string" && TIME_PATTERN.test(entry.time)
+        ? entry.time
+        : undefined;
+    commitments.push({
+      title,
+      date,
+      time,
+      quote: typeof entry.quote === "string" ? entry.quote.trim() : title,
+    });
+  }
+  return commitments.slice(0, MAX_COMMITMENTS_PER_PASS);
+}
+
+/**
+ * Interpret a reply to a confirmation prompt listing `count` commitments:
+ * "yes", "no", or the numbers to keep ("1 and 3", "just 2"). Returns null
+ * when the reply is not an answer to the prompt.
+ */
+export function parseConfirmationReply(
+  text: string,
+  count: number
+): ConfirmationReply | null {
+  const reply = text.trim().replace(/[.!]+$/, "");
+  if (!reply || reply.split(/\s+/).length > MAX_REPLY_WORDS) {
+    return null;
+  }
+
+  const all = Array.from({ length: count }, (_, i) => i);
+  const numbers = (reply.match(/\d+/g) || [])
+    .map((n) => Number(n) - 1)
+    .filter((i) => i >= 0 && i < count);
+
+  if (NEGATIVE.test(reply)) {
+    return { confirm: [], dismiss: all };
+  }
+  if (
+    numbers.length > 0 &&
+    (AFFIRMATIVE.test(reply) || SELECTION.test(reply))
+  ) {
+    return {
+      confirm: all.filter((i) => numbers.includes(i)),
+      dismiss: all.filter((i) => !numbers.includes(i)),
+    };
+  }
+  if (AFFIRMATIVE.test(reply)) {
+    return { confirm: all, dismiss: [] };
+  }
+  return null;
+}
+
+/**
+ * Service that spots todos and commitments in conversation, asks the user
+ * to confirm them and files confirmed ones in Notion or the scheduler
+ */
+class CommitmentService {
+  isEnabled(): boolean {
+    return process.env.COMMITMENT_EXTRACTION !== "false";
+  }
+
+  /**
+   * The user's IANA timezone from their latest location context, falling
+   * back to DEFAULT_TIMEZONE and then the server's zone
+   */
+  async getUserTimezone(userId: string): Promise<string | undefined> {
+    try {
+      const locations = await contextService.getContext(
+        userId,
+        ContextType.LOCATION,
+        false
+      );
+      const timezone = locations.find(
+        (context) =>
+          typeof context.data?.timezone === "string" &&
+          isValidTimezone(context.data.timezone)
+      )?.data.timezone;
+      if (timezone) {
+        return timezone;
+      }
+    } catch (error) {
+      logger.warn(`Could not read location context for user ${userId}`, {
+        error: (error as Error).message,
+      });
+    }
+
+    const fallback = process.env.DEFAULT_TIMEZONE;
+    return fallback && isValidTimezone(fallback) ? fallback : undefined;
+  }
+
+  /**
+   * Run the extraction model over the latest messages and store new
+   * commitments as pending. Commitments proposed in the last two weeks,
+   * including dismissed ones, are not proposed again.
+   */
+  async extractCommitments(
+    userId: string,
+    sessionId: string,
+    messages: ChatMessage[],
+    sourceMessageId?: string
+  ): Promise<ICommitment[]> {
+    const recent = messages
+      .filter(
+        (m) => m.role === MessageRole.USER || m.role === MessageRole.ASSISTANT
+      )
+      .slice(-RECENT_MESSAGE_COUNT);
+    const latest = [...recent]
+      .reverse()
+      .find((m) => m.role === MessageRole.USER);
+    if (!latest || latest.content.trim().length < MIN_MESSAGE_LENGTH) {
+      return [];
+    }
+
+    const timezone = await this.getUserTimezone(userId);
+    const now = new Date();
+    const transcript = recent
+      .map(
+        (m) =>
+          `${m.role === MessageRole.USER ? "User" : "Companion"}: ${m.content}`
+      )
+      .join("\n");
+
+    const prompt = `Current date and time for the user: ${now.toLocaleString(
+      "en-US",
+      {
+        timeZone: timezone,
+        weekday: "long",
+        year: "numeric",
+        month: "long",
+        day: "numeric",
+        hour: "2-digit",
+        minute: "2-digit",
+        hourCycle: "h23",
+      }
+    )} (${timezone || "server time"}), which is ${localDay(now, timezone)}.
+
+Conversation:
+"""
+${transcript}
+"""
+
+List things the USER said they need to, have to, promised to or plan to do, in the last User message only. Earlier messages are context. Ignore things the Companion suggested, things already done, and vague wishes.
+
+Return a JSON array, empty if there are none:
+[{"title": "Call mum", "date": "YYYY-MM-DD or null", "time": "HH:mm or null", "quote": "the user's words"}]
+
+Resolve relative dates such as "Friday" or "tomorrow" to the next matching date on or after today. Use 24-hour time and leave time null unless the user gave one. Titles are short imperatives.`;
+
+    const response = await aiService.generateAuxiliaryResponse(
+      prompt,
+      {
+        temperature: 0.1,
+        max_tokens: 400,
+        purpose: AIPurpose.ACTION_EXTRACTION,
+        sessionId,
+      },
+      "You extract todos and commitments from conversations and reply with JSON only.",
+      userId
+    );
+
+    const extracted = parseExtractedCommitments(response.text);
+    if (extracted.length === 0) {
+      return [];
+    }
+
+    const since = new Date(now.getTime() - LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+    const previous = await CommitmentModel.find({
+      userId,
+      createdAt: { $gte: since },
+    }).exec();
+    const known: ExistingTodo[] = previous.map((c) => ({
+      title: c.title,
+      day: c.dueDate ? localDay(c.dueDate, c.timezone) : undefined,
+    }));
+    const today = localDay(now, timezone);
+
+    const created: ICommitment[] = [];
+    for (const item of extracted) {
+      // A date before today is a misread, keep the item but not the date
+      const date = item.date && item.date >= today ? item.date : undefined;
+      const dueDate = date ? zonedTimeToDate(date, item.time, timezone) : null;
+      if (isDuplicateTodo({ title: item.title, day: date }, known)) {
+        continue;
+      }
+
+      const commitment = await CommitmentModel.create({
+        userId,
+        sessionId,
+        title: item.title,
+        dueDate: dueDate || undefined,
+        hasTime: !!(dueDate && item.time),
+        timezone,
+        sourceText: item.quote,
+        sourceMessageId,
+        status: "pending",
+      });
+      known.push({ title: item.title, day: date });
+      created.push(commitment);
+    }
+
+    if (created.length > 0) {
+      logger.info(
+        `Proposed ${created.length} commitment(s) for user ${userId} in session ${sessionId}`
+      );
+    }
+    return created;
+  }
+
+  /**
+   * Where confirmed commitments go: the Notion todo database when one is
+   * configured, otherwise the scheduler
+   */
+  async getTarget(
+    userId: string
+  ): Promise<{ target: CommitmentTarget; databaseId?: string }> {
+    const credentials = await notionService.getCredentials(userId);
+    if (credentials?.accessToken && credentials.databaseId) {
+      return { target: "notion", databaseId: credentials.databaseId };
+    }
+    return { target: "scheduler" };
+  }
+
+  /**
+   * The companion's question asking the user to confirm new commitments
+   */
+  async buildConfirmationMessage(
+    userId: string,
+    commitments: ICommitment[]
+  ): Promise<string> {
+    const { target } = await this.getTarget(userId);
+    const destination =
+      target === "notion" ? "your Notion todos" : "your tasks";
+    const lines = commitments.map(
+      (c, i) => `${i + 1}. ${c.title}${this.describeDue(c)}`
+    );
+
+    if (commitments.length === 1) {
+      return `Sounds like something to keep track of:\n${lines[0]}\n\nShould I add it to ${destination}? (yes / no)`;
+    }
+    return `Sounds like a few things to keep track of:\n${lines.join("\n")}\n\nShould I add them to ${destination}? Reply "yes", "no", or the numbers to keep.`;
+  }
+
+  /**
+   * Remember which assistant message asked about the commitments, so a
+   * reply to it can be recognized
+   */
+  async attachConfirmationMessage(
+    commitmentIds: string[],
+    messageId: string
+  ): Promise<void> {
+    await CommitmentModel.updateMany(
+      { _id: { $in: commitmentIds } },
+      { $set: { confirmationMessageId: messageId } }
+    ).exec();
+  }
+
+  /**
+   * Commitments of a user, newest first
+   */
+  async listCommitments(
+    userId: string,
+    status?: ICommitment["status"]
+  ): Promise<ICommitment[]> {
+    const query: Record<string, unknown> = { userId };
+    if (status) {
+      query.status = status;
+    }
+    return CommitmentModel.find(query)
+      .sort({ createdAt: -1 })
+      .limit(100)
+      .exec();
+  }
+
+  /**
+   * Apply the user's answer to a confirmation prompt. Returns the
+   * companion's reply, or null if the message is not an answer or the
+   * commitments were already resolved.
+   */
+  async handleConfirmationReply(
+    userId: string,
+    commitmentIds: string[],
+    text: string
+  ): Promise<string | null> {
+    const pending = await CommitmentModel.find({
+      _id: { $in: commitmentIds },
+      userId,
+      status: "pending",
+    }).exec();
+    if (pending.length === 0) {
+      return null;
+    }
+    // Keep the numbering of the prompt
+    pending.sort(
+      (a, b) => commitmentIds.indexOf(a._id) - commitmentIds.indexOf(b._id)
+    );
+
+    const reply = parseConfirmationReply(text, pending.length);
+    if (!reply) {
+      return null;
+    }
+
+    const added: string[] = [];
+    const duplicates: string[] = [];
+    const failed: string[] = [];
+    for (const index of reply.confirm) {
+      try {
+        const commitment = await this.confirmCommitment(
+          userId,
+          pending[index]._id
+        );
+        (commitment.status === "duplicate" ? duplicates : added).push(
+          commitment.title
+        );
+      } catch (error) {
+        logger.error(
+          `Failed to create commitment ${pending[index]._id}`,
+          error as Error
+        );
+        failed.push(pending[index].title);
+      }
+    }
+    for (const index of reply.dismiss) {
+      await this.dismissCommitment(userId, pending[index]._id);
+    }
+
+    const parts: string[] = [];
+    if (added.length > 0) {
+      parts.push(`Added: ${added.join(", ")}.`);
+    }
+    if (duplicates.length > 0) {
+      parts.push(`Already on your list: ${duplicates.join(", ")}.`);
+    }
+    if (failed.length > 0) {
+      parts.push(
+        `I couldn't add ${failed.join(", ")}, please try again later.`
+      );
+    }
+    return parts.length > 0 ? parts.join(" ") : "Okay, I won't add anything.";
+  }
+
+  /**
+   * Create a pending commitment in Notion, or in the scheduler when Notion
+   * isn't connected. If an equivalent open todo exists nothing is created
+   * and the commitment is marked as a duplicate.
+   */
+  async confirmCommitment(
+    userId: string,
+    commitmentId: string
+  ): Promise<ICommitment> {
+    const commitment = await CommitmentModel.findOne({
+      _id: commitmentId,
+      userId,
+    }).exec();
+    if (!commitment) {
+      throw new Error("Commitment not found");
+    }
+    if (commitment.status !== "pending") {
+      return commitment;
+    }
+
+    const { target, databaseId } = await this.getTarget(userId);
+    const day = commitment.dueDate
+      ? localDay(commitment.dueDate, commitment.timezone)
+      : undefined;
+    const candidate: ExistingTodo = { title: commitment.title, day };
+
+    if (target === "notion" && databaseId) {
+      const todos = await notionService.getTodos(userId, databaseId);
+      const open = todos
+        .filter((todo) => todo.status !== "Completed")
+        .map((todo) => ({
+          title: todo.title,
+          day: todo.dueDate
+            ? DATE_PATTERN.test(todo.dueDate)
+              ? todo.dueDate
+              : localDay(new Date(todo.dueDate), commitment.timezone)
+            : undefined,
+        }));
+
+      if (isDuplicateTodo(candidate, open)) {
+        commitment.status = "duplicate";
+      } else {
+        const todo = await notionService.createTodo(userId, databaseId, {
+          title: commitment.title,
+          status: "Not Started",
+          dueDate: commitment.hasTime ? commitment.dueDate?.toISOString() : day,
+        });
+        commitment.status = "created";
+        commitment.externalId = todo.id;
+        commitment.externalUrl = todo.url;
+      }
+    } else {
+      const tasks = await schedulerService.getUserTasks(userId, {
+        status: "pending",
+      });
+      const open = tasks.map((task) => ({
+        title: task.title,
+        day: localDay(new Date(task.dueDate), commitment.timezone),
+      }));
+
+      if (isDuplicateTodo(candidate, open)) {
+        commitment.status = "duplicate";
+      } else {
+        // The scheduler needs a due date; undated todos default to
+        // tomorrow morning without a reminder
+        const dueDate =
+          commitment.dueDate || defaultDueDate(commitment.timezone);
+        const task = await schedulerService.createTask(userId, {
+          title: commitment.title,
+          description: `From conversation: "${commitment.sourceText}"`,
+          dueDate: dueDate.toISOString(),
+          timezone: commitment.timezone,
+          reminderOffsets: commitment.dueDate ? [0] : [],
+          metadata: { source: "commitment", commitmentId: commitment._id },
+        });
+        commitment.status = "created";
+        commitment.externalId = task.id;
+      }
+    }
+
+    commitment.target = target;
+    commitment.resolvedAt = new Date();
+    await commitment.save();
+    logger.info(
+      `Commitment ${commitment._id} for user ${userId} resolved as ${commitment.status} (${target})`
+    );
+    return commitment;
+  }
+
+  /**
+   * Decline a pending commitment. It stays stored so it isn't proposed again.
+   */
+  async dismissCommitment(
+    userId: string,
+    commitmentId: string
+  ): Promise<ICommitment | null> {
+    return CommitmentModel.findOneAndUpdate(
+      { _id: commitmentId, userId, status: "pending" },
+      { $set: { status: "dismissed", resolvedAt: new Date() } },
+      { new: true }
+    ).exec();
+  }
+
+  private describeDue(commitment: ICommitment): string {
+    if (!commitment.dueDate) {
+      return "";
+    }
+    const formatted = commitment.dueDate.toLocaleString("en-US", {
+      timeZone: commitment.timezone,
+      weekday: "short",
+      month: "short",
+      day: "numeric",
+      ...(commitment.hasTime
+        ? { hour: "numeric" as const, minute: "2-digit" as const }
+        : {}),
+    });
+    return ` (${formatted})`;
+  }
+}
+
+export const commitmentService = new CommitmentService();
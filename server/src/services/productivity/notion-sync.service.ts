@@ -0,0 +1,595 @@
+import {
+  UserState,
+  IUserState,
+  IUserGoal,
+  UserGoalStatus,
+} from "../../models/user-state.model";
+import ScheduledTaskModel, {
+  IScheduledTask,
+  TaskPriority,
+} from "../../models/scheduled-task.model";
+import { notionService, NotionGoal, NotionTodo } from "./notion.service";
+import { schedulerService } from "../scheduler.service";
+import { userStateService } from "../user-state.service";
+import { defaultDueDate, zonedTimeToDate } from "../../utils/zoned-time";
+import { loggerFactory } from "../../utils/logger.service";
+
+const logger = loggerFactory.getLogger("NotionSyncService");
+
+const SYNC_INTERVAL_MS = parseInt(
+  process.env.NOTION_SYNC_INTERVAL_MS || String(5 * 60 * 1000),
+  10
+);
+const DEFAULT_GOAL_PRIORITY = 5;
+
+export type SyncAction = "pull" | "push" | "none";
+
+export interface SyncCounts {
+  pulled: number; // Local records updated from Notion
+  pushed: number; // Notion pages updated from local records
+  imported: number; // Local records created for new Notion pages
+  exported: number; // Notion pages created for new local records
+  removed: number; // Local records whose page was deleted in Notion
+}
+
+export interface NotionSyncReport {
+  goals?: SyncCounts;
+  tasks?: SyncCounts;
+}
+
+/**
+ * What was linked after the last sync of one database. A page in this
+ * list without a local record was deleted locally and is not re-imported.
+ */
+interface SyncedDatabase {
+  databaseId: string;
+  pageIds: string[];
+}
+
+const GOAL_STATUS_TO_NOTION: Record<UserGoalStatus, NotionGoal["status"]> = {
+  not_started: "Not Started",
+  in_progress: "In Progress",
+  completed: "Completed",
+};
+
+const PRIORITY_TO_NOTION: Record<TaskPriority, string> = {
+  high: "High",
+  medium: "Medium",
+  low: "Low",
+};
+
+function emptyCounts(): SyncCounts {
+  return { pulled: 0, pushed: 0, imported: 0, exported: 0, removed: 0 };
+}
+
+function sameTitle(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+/**
+ * Pages to remember as synced: the linked ones plus previously known pages
+ * that still exist, so a record deleted locally stays deleted
+ */
+function syncedPageIds(
+  linked: Iterable<string>,
+  known: string[],
+  pageIds: Set<string>
+): string[] {
+  return Array.from(
+    new Set([...linked, ...known.filter((id) => pageIds.has(id))])
+  );
+}
+
+/**
+ * Decide which side of a linked record wins. A side has changed if it was
+ * edited after the last sync; when both have, the later edit wins.
+ */
+export function resolveSyncAction(state: {
+  notionEditedAt: Date;
+  lastNotionEditedAt?: Date;
+  localUpdatedAt?: Date;
+  lastSyncedAt?: Date;
+}): SyncAction {
+  const notionChanged =
+    !state.lastNotionEditedAt ||
+    state.notionEditedAt.getTime() > state.lastNotionEditedAt.getTime();
+  const localChanged =
+    !state.lastSyncedAt ||
+    (!!state.localUpdatedAt &&
+      state.localUpdatedAt.getTime() > state.lastSyncedAt.getTime());
+
+  if (notionChanged && localChanged) {
+    return state.localUpdatedAt &&
+      state.localUpdatedAt.getTime() > state.notionEditedAt.getTime()
+      ? "push"
+      : "pull";
+  }
+  if (notionChanged) return "pull";
+  if (localChanged) return "push";
+  return "none";
+}
+
+export function goalStatusFromNotion(status?: string): UserGoalStatus {
+  const entry = Object.entries(GOAL_STATUS_TO_NOTION).find(
+    ([, name]) => name === status
+  );
+  return (entry?.[0] as UserGoalStatus) || "not_started";
+}
+
+function priorityFromNotion(priority?: string): TaskPriority {
+  const entry = Object.entries(PRIORITY_TO_NOTION).find(
+    ([, name]) => name === priority
+  );
+  return (entry?.[0] as TaskPriority) || "medium";
+}
+
+/**
+ * Due date of a Notion todo. Date-only values are taken as 9:00 in the
+ * task's timezone.
+ */
+function dueDateFromNotion(dueDate: string, timezone?: string): Date | null {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(dueDate)) {
+    return zonedTimeToDate(dueDate, undefined, timezone);
+  }
+  const date = new Date(dueDate);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Keeps the user's goals and scheduler tasks consistent with the Notion
+ * databases configured on their Notion integration (`goalsDatabaseId` and
+ * `databaseId`). Runs periodically for every user with an enabled Notion
+ * integration; conflicts are resolved by `last_edited_time`.
+ */
+class NotionSyncService {
+  private isRunning = false;
+  private tickInterval: NodeJS.Timeout | null = null;
+  private isTicking = false;
+
+  /**
+   * Start syncing every NOTION_SYNC_INTERVAL_MS (default 5 minutes)
+   */
+  start(): void {
+    if (this.isRunning) {
+      logger.info("Notion sync is already running");
+      return;
+    }
+
+    logger.info(`Starting Notion sync every ${SYNC_INTERVAL_MS}ms`);
+    this.isRunning = true;
+    this.tickInterval = setInterval(() => {
+      this.syncAll();
+    }, SYNC_INTERVAL_MS);
+
+    this.syncAll();
+  }
+
+  /**
+   * Stop syncing
+   */
+  stop(): void {
+    if (!this.isRunning) {
+      return;
+    }
+
+    logger.info("Stopping Notion sync");
+    this.isRunning = false;
+    if (this.tickInterval) {
+      clearInterval(this.tickInterval);
+      this.tickInterval = null;
+    }
+  }
+
+  /**
+   * Sync every user with an enabled Notion integration. A failure for one
+   * user doesn't stop the others.
+   */
+  async syncAll(): Promise<void> {
+    if (this.isTicking) {
+      return;
+    }
+    this.isTicking = true;
+
+    try {
+      const states = await UserState.find(
+        { integrations: { $elemMatch: { platform: "notion", enabled: true } } },
+        { userId: 1 }
+      ).exec();
+
+      for (const state of states) {
+        try {
+          await this.syncUser(state.userId);
+        } catch (error) {
+          logger.error(
+            `Notion sync failed for user ${state.userId}`,
+            error as Error
+          );
+        }
+      }
+    } catch (error) {
+      logger.error("Error running Notion sync", error as Error);
+    } finally {
+      this.isTicking = false;
+    }
+  }
+
+  /**
+   * Sync one user's goals and tasks with Notion and record `lastSync` on
+   * their Notion integration
+   */
+  async syncUser(userId: string): Promise<NotionSyncReport> {
+    const userState = await userStateService.getOrCreateUserState(userId);
+    const integration = userState.integrations.find(
+      (i) => i.platform === "notion"
+    );
+    if (!integration?.enabled) {
+      throw new Error("Notion integration is not enabled");
+    }
+
+    const credentials = await notionService.getCredentials(userId);
+    if (!credentials?.databaseId && !credentials?.goalsDatabaseId) {
+      throw new Error("No Notion goals or todo database is configured");
+    }
+
+    const previous = integration.metadata?.notionSync || {};
+    const report: NotionSyncReport = {};
+    const synced: Record<string, SyncedDatabase> = {};
+
+    if (credentials.goalsDatabaseId) {
+      const result = await this.syncGoals(
+        userId,
+        userState,
+        credentials.goalsDatabaseId,
+        previous.goals
+      );
+      report.goals = result.counts;
+      synced.goals = result.synced;
+    }
+
+    if (credentials.databaseId) {
+      const result = await this.syncTasks(
+        userId,
+        credentials.databaseId,
+        previous.tasks
+      );
+      report.tasks = result.counts;
+      synced.tasks = result.synced;
+    }
+
+    await UserState.updateOne(
+      { userId, "integrations.platform": "notion" },
+      {
+        $set: {
+          "integrations.$.lastSync": new Date(),
+          "integrations.$.metadata.notionSync": { ...previous, ...synced },
+        },
+      }
+    ).exec();
+
+    logger.info(`Synced Notion for user ${userId}`, { report });
+    return report;
+  }
+
+  private async syncGoals(
+    userId: string,
+    userState: IUserState,
+    databaseId: string,
+    previous?: SyncedDatabase
+  ): Promise<{ counts: SyncCounts; synced: SyncedDatabase }> {
+    const counts = emptyCounts();
+    const pages = await notionService.getGoals(userId, databaseId);
+    const pagesById = new Map(pages.map((page) => [page.id, page]));
+    const knownPageIds =
+      previous?.databaseId === databaseId ? previous.pageIds : [];
+    const now = new Date();
+
+    let goals: IUserGoal[] = (userState.userGoals || []).map((goal) => ({
+      ...((goal as any).toObject?.() ?? goal),
+    }));
+
+    // Links into another database are dropped when the setting changes
+    if (previous && previous.databaseId !== databaseId) {
+      goals = goals.map((goal) => ({
+        ...goal,
+        notionPageId: undefined,
+        notionLastEditedAt: undefined,
+        notionSyncedAt: undefined,
+      }));
+    }
+
+    // Pair up unlinked goals and pages with the same title
+    const linkedPageIds = new Set(goals.map((goal) => goal.notionPageId));
+    for (const goal of goals.filter((g) => !g.notionPageId)) {
+      const page = pages.find(
+        (p) =>
+          !linkedPageIds.has(p.id) &&
+          !knownPageIds.includes(p.id) &&
+          sameTitle(p.title, goal.goal)
+      );
+      if (page) {
+        goal.notionPageId = page.id;
+        linkedPageIds.add(page.id);
+      }
+    }
+
+    const kept: IUserGoal[] = [];
+    for (const goal of goals) {
+      if (!goal.notionPageId) {
+        const page = await notionService.createGoal(userId, databaseId, {
+          title: goal.goal,
+          status: GOAL_STATUS_TO_NOTION[goal.status || "not_started"],
+          progress: goal.progress || 0,
+        });
+        kept.push({
+          ...goal,
+          notionPageId: page.id,
+          notionLastEditedAt: new Date(page.lastEditedTime),
+          notionSyncedAt: now,
+        });
+        counts.exported++;
+        continue;
+      }
+
+      const page = pagesById.get(goal.notionPageId);
+      if (!page) {
+        // Deleted or archived in Notion
+        counts.removed++;
+        continue;
+      }
+
+      const action = resolveSyncAction({
+        notionEditedAt: new Date(page.lastEditedTime),
+        lastNotionEditedAt: goal.notionLastEditedAt,
+        localUpdatedAt: goal.updatedAt,
+        lastSyncedAt: goal.notionSyncedAt,
+      });
+
+      if (action === "pull") {
+        const status = goalStatusFromNotion(page.status);
+        kept.push({
+          ...goal,
+          goal: page.title,
+          status,
+          progress:
+            page.progress ?? (status === "completed" ? 100 : goal.progress),
+          updatedAt: now,
+          notionLastEditedAt: new Date(page.lastEditedTime),
+          notionSyncedAt: now,
+        });
+        counts.pulled++;
+      } else if (action === "push") {
+        const updated = await notionService.updateGoal(userId, page.id, {
+          title: goal.goal,
+          status: GOAL_STATUS_TO_NOTION[goal.status || "not_started"],
+          progress: goal.progress || 0,
+        });
+        kept.push({
+          ...goal,
+          notionLastEditedAt: new Date(updated.lastEditedTime),
+          notionSyncedAt: now,
+        });
+        counts.pushed++;
+      } else {
+        kept.push(goal);
+      }
+    }
+
+    for (const page of pages) {
+      if (linkedPageIds.has(page.id) || knownPageIds.includes(page.id)) {
+        continue;
+      }
+      const status = goalStatusFromNotion(page.status);
+      kept.push({
+        goal: page.title,
+        priority: DEFAULT_GOAL_PRIORITY,
+        progress: page.progress ?? (status === "completed" ? 100 : 0),
+        status,
+        createdAt: now,
+        updatedAt: now,
+        notionPageId: page.id,
+        notionLastEditedAt: new Date(page.lastEditedTime),
+        notionSyncedAt: now,
+      });
+      counts.imported++;
+    }
+
+    kept.sort((a, b) => b.priority - a.priority);
+    userState.userGoals = kept;
+    userState.markModified("userGoals");
+    await userState.save();
+
+    return {
+      counts,
+      synced: {
+        databaseId,
+        pageIds: syncedPageIds(
+          kept.map((goal) => goal.notionPageId!),
+          knownPageIds,
+          new Set(pagesById.keys())
+        ),
+      },
+    };
+  }
+
+  private async syncTasks(
+    userId: string,
+    databaseId: string,
+    previous?: SyncedDatabase
+  ): Promise<{ counts: SyncCounts; synced: SyncedDatabase }> {
+    const counts = emptyCounts();
+    const pages = await notionService.getTodos(userId, databaseId);
+    const pagesById = new Map(pages.map((page) => [page.id, page]));
+    const knownPageIds =
+      previous?.databaseId === databaseId ? previous.pageIds : [];
+
+    if (previous && previous.databaseId !== databaseId) {
+      await ScheduledTaskModel.updateMany(
+        { userId, notionPageId: { $exists: true } },
+        {
+          $unset: {
+            notionPageId: 1,
+            notionLastEditedAt: 1,
+            notionSyncedAt: 1,
+          },
+        },
+        { timestamps: false }
+      ).exec();
+    }
+
+    const tasks = await ScheduledTaskModel.find({
+      userId,
+      status: { $ne: "cancelled" },
+    }).exec();
+    const linkedPageIds = new Set<string>();
+    for (const task of tasks) {
+      if (task.notionPageId) linkedPageIds.add(task.notionPageId);
+    }
+
+    for (const task of tasks) {
+      if (!task.notionPageId) {
+        // Only open tasks are worth mirroring; completed ones are history
+        if (task.status !== "pending") continue;
+
+        const match = pages.find(
+          (p) =>
+            !linkedPageIds.has(p.id) &&
+            !knownPageIds.includes(p.id) &&
+            sameTitle(p.title, task.title)
+        );
+        if (match) {
+          linkedPageIds.add(match.id);
+          task.notionPageId = match.id;
+          await this.syncLinkedTask(userId, task, match, counts);
+          continue;
+        }
+
+        const page = await notionService.createTodo(userId, databaseId, {
+          title: task.title,
+          status: "Not Started",
+          dueDate: task.dueDate.toISOString(),
+          priority: PRIORITY_TO_NOTION[task.priority],
+        });
+        linkedPageIds.add(page.id);
+        await this.markTaskSynced(task._id, page);
+        counts.exported++;
+        continue;
+      }
+
+      const page = pagesById.get(task.notionPageId);
+      if (!page) {
+        // Deleted or archived in Notion
+        await schedulerService.cancelTask(task._id);
+        linkedPageIds.delete(task.notionPageId);
+        counts.removed++;
+        continue;
+      }
+      await this.syncLinkedTask(userId, task, page, counts);
+    }
+
+    for (const page of pages) {
+      if (
+        linkedPageIds.has(page.id) ||
+        knownPageIds.includes(page.id) ||
+        page.status === "Completed"
+      ) {
+        continue;
+      }
+
+      const dueDate = page.dueDate ? dueDateFromNotion(page.dueDate) : null;
+      const task = await schedulerService.createTask(userId, {
+        title: page.title,
+        description: "",
+        dueDate: (dueDate || defaultDueDate()).toISOString(),
+        priority: priorityFromNotion(page.priority),
+        reminderOffsets: dueDate ? [0] : [],
+        metadata: { source: "notion" },
+      });
+      await this.markTaskSynced(task.id, page);
+      linkedPageIds.add(page.id);
+      counts.imported++;
+    }
+
+    // Completed tasks keep their link, so their pages aren't re-imported
+    return {
+      counts,
+      synced: {
+        databaseId,
+        pageIds: syncedPageIds(
+          linkedPageIds,
+          knownPageIds,
+          new Set(pagesById.keys())
+        ),
+      },
+    };
+  }
+
+  private async syncLinkedTask(
+    userId: string,
+    task: IScheduledTask,
+    page: NotionTodo,
+    counts: SyncCounts
+  ): Promise<void> {
+    const action = resolveSyncAction({
+      notionEditedAt: new Date(page.lastEditedTime),
+      lastNotionEditedAt: task.notionLastEditedAt,
+      localUpdatedAt: task.updatedAt,
+      lastSyncedAt: task.notionSyncedAt,
+    });
+
+    if (action === "pull") {
+      const dueDate = page.dueDate
+        ? dueDateFromNotion(page.dueDate, task.timezone)
+        : null;
+      const completed = page.status === "Completed";
+      await schedulerService.updateTask(task._id, {
+        title: page.title,
+        priority: priorityFromNotion(page.priority),
+        ...(dueDate ? { dueDate: dueDate.toISOString() } : {}),
+        ...(completed
+          ? { status: "completed" as const }
+          : task.status === "completed"
+            ? { status: "pending" as const }
+            : {}),
+      });
+      await this.markTaskSynced(task._id, page);
+      counts.pulled++;
+    } else if (action === "push") {
+      const updated = await notionService.updateTodo(userId, page.id, {
+        title: task.title,
+        dueDate: task.dueDate.toISOString(),
+        priority: PRIORITY_TO_NOTION[task.priority],
+        // Pending tasks don't override "In Progress" set in Notion
+        status:
+          task.status === "completed"
+            ? "Completed"
+            : page.status === "In Progress"
+              ? "In Progress"
+              : "Not Started",
+      });
+      await this.markTaskSynced(task._id, updated);
+      counts.pushed++;
+    } else if (!task.notionSyncedAt) {
+      await this.markTaskSynced(task._id, page);
+    }
+  }
+
+  /**
+   * Record the link without touching `updatedAt`, so the sync itself isn't
+   * mistaken for a local edit next time
+   */
+  private async markTaskSynced(taskId: string, page: NotionTodo) {
+    await ScheduledTaskModel.updateOne(
+      { _id: taskId },
+      {
+        $set: {
+          notionPageId: page.id,
+          notionLastEditedAt: new Date(page.lastEditedTime),
+          notionSyncedAt: new Date(),
+        },
+      },
+      { timestamps: false }
+    ).exec();
+  }
+}
+
+export const notionSyncService = new NotionSyncService();
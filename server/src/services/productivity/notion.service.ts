@@ -1,10 +1,13 @@
 import axios from "axios";
 import { userStateService } from "../user-state.service";
+import { credentialVault } from "../credential-vault.service";
 
 interface NotionCredentials {
   accessToken: string;
   workspaceId?: string;
   pageId?: string;
+  databaseId?: string; // Database that receives todos
+  goalsDatabaseId?: string;
 }
 
 interface NotionPage {
@@ -23,7 +26,7 @@ interface NotionDatabase {
   properties: Record<string, any>;
 }
 
-interface NotionTodo {
+export interface NotionTodo {
   id: string;
   title: string;
   status: "Not Started" | "In Progress" | "Completed";
@@ -31,9 +34,10 @@ interface NotionTodo {
   priority?: "Low" | "Medium" | "High";
   tags?: string[];
   url: string;
+  lastEditedTime: string;
 }
 
-interface NotionGoal {
+export interface NotionGoal {
   id: string;
   title: string;
   description?: string;
@@ -41,46 +45,39 @@ interface NotionGoal {
   dueDate?: string;
   progress?: number; // 0-100
   url: string;
+  lastEditedTime: string;
 }
 
 /**
  * Service for integrating with Notion for productivity features
  */
 class NotionService {
-  private credentials: Map<string, NotionCredentials> = new Map();
-  private API_BASE_URL =
-    process.env.NOTION_API_BASE_URL || "https://api.notion.com/v1";
-
-  /**
-   * Store a user's Notion credentials
-   */
-  setCredentials(userId: string, credentials: NotionCredentials): void {
-    this.credentials.set(userId, credentials);
+  // Read on every request so tests can point it at a local mock
+  private get API_BASE_URL(): string {
+    return process.env.NOTION_API_BASE_URL || "https://api.notion.com/v1";
   }
 
   /**
-   * Get a user's Notion credentials from in-memory cache or database
+   * Get a user's Notion credentials, with the token opened from the
+   * credential vault. Nothing is cached so the token only lives in memory
+   * for the request that needs it.
    */
   async getCredentials(userId: string): Promise<NotionCredentials | undefined> {
-    // First check in-memory cache
-    if (this.credentials.has(userId)) {
-      return this.credentials.get(userId);
-    }
-
     try {
       // Try to use the dedicated method from userStateService
       const storedCredentials =
         await userStateService.getNotionCredentials(userId);
 
       if (storedCredentials?.token) {
-        const credentials: NotionCredentials = {
-          accessToken: storedCredentials.token || "",
+        return {
+          accessToken: await credentialVault.decrypt(
+            userId,
+            storedCredentials.token
+          ),
           pageId: storedCredentials.pageId,
+          databaseId: storedCredentials.databaseId,
+          goalsDatabaseId: storedCredentials.goalsDatabaseId,
         };
-
-        // Cache the credentials for future use
-        this.credentials.set(userId, credentials);
-        return credentials;
       }
     } catch (error) {
       console.error("Error fetching user Notion credentials:", error);
@@ -91,30 +88,19 @@ class NotionService {
       accessToken: process.env.NOTION_ACCESS_TOKEN || "",
       pageId: process.env.NOTION_PAGE_ID,
       workspaceId: process.env.NOTION_WORKSPACE_ID,
+      databaseId: process.env.NOTION_TODO_DATABASE_ID,
+      goalsDatabaseId: process.env.NOTION_GOALS_DATABASE_ID,
     };
 
     // Only return fallback if accessToken exists
     return fallbackCredentials.accessToken ? fallbackCredentials : undefined;
   }
 
-  /**
-   * Remove a user's Notion credentials
-   */
-  removeCredentials(userId: string): boolean {
-    return this.credentials.delete(userId);
-  }
-
   /**
    * Check if a user has connected Notion
    */
   async isConnected(userId: string): Promise<boolean> {
-    // Check in-memory cache first
-    if (this.credentials.has(userId)) {
-      return true;
-    }
-
     try {
-      // Then check database
       const credentials = await this.getCredentials(userId);
       return !!credentials?.accessToken;
     } catch {
@@ -170,30 +156,66 @@ class NotionService {
   }
 
   /**
-   * Get todos from a Notion database
+   * Get every page of a Notion database, following pagination
    */
-  async getTodos(userId: string, databaseId: string): Promise<NotionTodo[]> {
-    try {
+  private async queryDatabase(
+    userId: string,
+    databaseId: string
+  ): Promise<any[]> {
+    const headers = await this.getHeaders(userId);
+    const pages: any[] = [];
+    let cursor: string | undefined;
+
+    do {
       const response = await axios.post(
         `${this.API_BASE_URL}/databases/${databaseId}/query`,
-        {},
-        { headers: await this.getHeaders(userId) }
+        cursor ? { start_cursor: cursor } : {},
+        { headers }
       );
+      pages.push(...response.data.results);
+      cursor = response.data.has_more ? response.data.next_cursor : undefined;
+    } while (cursor);
+
+    return pages;
+  }
 
-      return response.data.results.map((page: any) => {
-        const properties = page.properties;
+  private toTodo(page: any): NotionTodo {
+    const properties = page.properties;
 
-        return {
-          id: page.id,
-          title: properties.Name?.title[0]?.plain_text || "Untitled",
-          status: properties.Status?.select?.name || "Not Started",
-          dueDate: properties["Due Date"]?.date?.start,
-          priority: properties.Priority?.select?.name,
-          tags:
-            properties.Tags?.multi_select?.map((tag: any) => tag.name) || [],
-          url: page.url,
-        };
-      });
+    return {
+      id: page.id,
+      title: properties.Name?.title[0]?.plain_text || "Untitled",
+      status: properties.Status?.select?.name || "Not Started",
+      dueDate: properties["Due Date"]?.date?.start,
+      priority: properties.Priority?.select?.name,
+      tags: properties.Tags?.multi_select?.map((tag: any) => tag.name) || [],
+      url: page.url,
+      lastEditedTime: page.last_edited_time,
+    };
+  }
+
+  private toGoal(page: any): NotionGoal {
+    const properties = page.properties;
+
+    return {
+      id: page.id,
+      title: properties.Name?.title[0]?.plain_text || "Untitled",
+      description: properties.Description?.rich_text?.[0]?.plain_text,
+      status: properties.Status?.select?.name || "Not Started",
+      dueDate: properties["Due Date"]?.date?.start,
+      progress: properties.Progress?.number ?? undefined,
+      url: page.url,
+      lastEditedTime: page.last_edited_time,
+    };
+  }
+
+  /**
+   * Get todos from a Notion database
+   */
+  async getTodos(userId: string, databaseId: string): Promise<NotionTodo[]> {
+    try {
+      const pages = await this.queryDatabase(userId, databaseId);
+      return pages.map((page) => this.toTodo(page));
     } catch (error) {
       console.error("Error getting Notion todos:", error);
       throw new Error(
@@ -266,6 +288,7 @@ class NotionService {
         priority: todo.priority as any,
         tags: todo.tags,
         url: page.url,
+        lastEditedTime: page.last_edited_time,
       };
     } catch (error) {
       console.error("Error creating Notion todo:", error);
@@ -328,19 +351,7 @@ class NotionService {
         { headers: await this.getHeaders(userId) }
       );
 
-      const page = response.data;
-      const pageProperties = page.properties;
-
-      return {
-        id: page.id,
-        title: pageProperties.Name?.title[0]?.plain_text || "Untitled",
-        status: pageProperties.Status?.select?.name || "Not Started",
-        dueDate: pageProperties["Due Date"]?.date?.start,
-        priority: pageProperties.Priority?.select?.name,
-        tags:
-          pageProperties.Tags?.multi_select?.map((tag: any) => tag.name) || [],
-        url: page.url,
-      };
+      return this.toTodo(response.data);
     } catch (error) {
       console.error("Error updating Notion todo:", error);
       throw new Error(
@@ -349,6 +360,99 @@ class NotionService {
     }
   }
 
+  /**
+   * Get goals from a Notion database with Name, Status and Progress
+   * (number, 0-100) properties
+   */
+  async getGoals(userId: string, databaseId: string): Promise<NotionGoal[]> {
+    try {
+      const pages = await this.queryDatabase(userId, databaseId);
+      return pages.map((page) => this.toGoal(page));
+    } catch (error) {
+      console.error("Error getting Notion goals:", error);
+      throw new Error(
+        `Failed to get Notion goals: ${(error as Error).message}`
+      );
+    }
+  }
+
+  private goalProperties(goal: {
+    title?: string;
+    status?: string;
+    progress?: number;
+  }): Record<string, any> {
+    const properties: Record<string, any> = {};
+
+    if (goal.title) {
+      properties.Name = {
+        title: [{ text: { content: goal.title } }],
+      };
+    }
+
+    if (goal.status) {
+      properties.Status = {
+        select: { name: goal.status },
+      };
+    }
+
+    if (goal.progress !== undefined) {
+      properties.Progress = { number: goal.progress };
+    }
+
+    return properties;
+  }
+
+  /**
+   * Create a new goal in Notion
+   */
+  async createGoal(
+    userId: string,
+    databaseId: string,
+    goal: { title: string; status?: string; progress?: number }
+  ): Promise<NotionGoal> {
+    try {
+      const response = await axios.post(
+        `${this.API_BASE_URL}/pages`,
+        {
+          parent: { database_id: databaseId },
+          properties: this.goalProperties(goal),
+        },
+        { headers: await this.getHeaders(userId) }
+      );
+
+      return this.toGoal(response.data);
+    } catch (error) {
+      console.error("Error creating Notion goal:", error);
+      throw new Error(
+        `Failed to create Notion goal: ${(error as Error).message}`
+      );
+    }
+  }
+
+  /**
+   * Update a goal in Notion
+   */
+  async updateGoal(
+    userId: string,
+    goalId: string,
+    updates: { title?: string; status?: string; progress?: number }
+  ): Promise<NotionGoal> {
+    try {
+      const response = await axios.patch(
+        `${this.API_BASE_URL}/pages/${goalId}`,
+        { properties: this.goalProperties(updates) },
+        { headers: await this.getHeaders(userId) }
+      );
+
+      return this.toGoal(response.data);
+    } catch (error) {
+      console.error("Error updating Notion goal:", error);
+      throw new Error(
+        `Failed to update Notion goal: ${(error as Error).message}`
+      );
+    }
+  }
+
   /**
    * Create a new note in Notion
    */
@@ -0,0 +1,54 @@
+/**
+ * A real-time event addressed to SSE clients. Session-scoped events go to
+ * connections for one chat session; user-scoped events go to every
+ * connection the user has open.
+ */
+export interface BusEvent {
+  id: string; // `${timestamp}-${instanceId}-${sequence}`, used as the SSE event id
+  scope: "session" | "user";
+  target: string; // sessionId or userId depending on scope
+  event: string; // SSE event name, e.g. "messageUpdate"
+  data: any;
+  origin: string; // Instance that published the event
+  timestamp: number;
+}
+
+export type BusEventHandler = (event: BusEvent) => void;
+
+/**
+ * Pub/sub transport that fans events out to every API instance.
+ * Implementations must also deliver events to the publishing instance.
+ */
+export interface EventBus {
+  readonly name: string;
+  start(handler: BusEventHandler): Promise<void>;
+  publish(event: BusEvent): Promise<void>;
+  stop(): Promise<void>;
+}
+
+/**
+ * Single-process bus: publishing delivers straight to the local handler.
+ */
+export class InProcessEventBus implements EventBus {
+  readonly name = "in-process";
+  private handler: BusEventHandler | null = null;
+
+  async start(handler: BusEventHandler): Promise<void> {
+    this.handler = handler;
+  }
+
+  async publish(event: BusEvent): Promise<void> {
+    this.handler?.(event);
+  }
+
+  async stop(): Promise<void> {
+    this.handler = null;
+  }
+}
+
+/**
+ * Timestamp component of an event id, or NaN if the id is not one of ours
+ */
+export function getEventTimestamp(id: string): number {
+  return Number(id.split("-")[0]);
+}
@@ -0,0 +1,80 @@
+import { EachMessagePayload } from "kafkajs";
+import { kafkaService } from "../kafka/kafka.service";
+import { BusEvent, BusEventHandler, EventBus } from "./event-bus";
+import { loggerFactory } from "../../utils/logger.service";
+
+const logger = loggerFactory.getLogger("KafkaEventBus");
+
+/**
+ * Fans events out through a Kafka topic. Every instance consumes the topic in
+ * its own consumer group so each one sees every event; events are delivered
+ * locally as soon as they are published and skipped when they come back
+ * from Kafka. The instance id must be unique per process, so the group is
+ * never joined again and is deleted when the bus stops.
+ */
+export class KafkaEventBus implements EventBus {
+  readonly name = "kafka";
+  private handler: BusEventHandler | null = null;
+  private readonly groupId: string;
+
+  constructor(
+    private instanceId: string,
+    private topic: string = process.env.SSE_EVENTS_TOPIC || "sse-events"
+  ) {
+    this.groupId = `sse-fanout-${instanceId}`;
+  }
+
+  async start(handler: BusEventHandler): Promise<void> {
+    this.handler = handler;
+
+    await kafkaService.createConsumer(
+      this.groupId,
+      [this.topic],
+      async ({ message }: EachMessagePayload) => {
+        const value = message.value?.toString();
+        if (!value) {
+          return;
+        }
+
+        const event = JSON.parse(value) as BusEvent;
+        if (event.origin === this.instanceId) {
+          return;
+        }
+        this.handler?.(event);
+      }
+    );
+
+    logger.info(
+      `Kafka event bus consuming ${this.topic} as instance ${this.instanceId}`
+    );
+  }
+
+  async publish(event: BusEvent): Promise<void> {
+    this.handler?.(event);
+
+    try {
+      // Keyed by target so events for one session/user stay ordered
+      await kafkaService.produceMessage(
+        this.topic,
+        event,
+        `${event.scope}:${event.target}`
+      );
+    } catch (error) {
+      logger.warn(
+        `Failed to publish ${event.event} to ${this.topic}; only local clients received it`,
+        { error: (error as Error).message }
+      );
+    }
+  }
+
+  async stop(): Promise<void> {
+    this.handler = null;
+    try {
+      await kafkaService.stopConsumer(this.groupId, { deleteGroup: true });
+    } catch (error) {
+      logger.warn(`Failed to remove consumer group ${this.groupId}`, {
+        error: (error as Error).message,
+      });
+    }
+  }
+}
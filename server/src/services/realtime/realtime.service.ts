@@ -0,0 +1,193 @@
+import { v4 as uuidv4 } from "uuid";
+import { SSEWrapper } from "../../utils/sse.wrapper";
+import { BusEvent, EventBus, InProcessEventBus } from "./event-bus";
+import { KafkaEventBus } from "./kafka-event-bus";
+import { ReplayBuffer } from "./replay-buffer";
+import { loggerFactory } from "../../utils/logger.service";
+
+const logger = loggerFactory.getLogger("RealtimeService");
+
+/**
+ * Delivers real-time events to SSE clients across API instances.
+ *
+ * Services publish session- or user-scoped events here instead of writing to
+ * SSE connections directly. Events travel over the configured EventBus
+ * (EVENT_BUS=memory|kafka) and every instance delivers them to its own
+ * local connections, keeping a short replay buffer for reconnecting clients.
+ */
+class RealtimeService {
+  // Random per process, so replicas sharing INSTANCE_ID (which only names
+  // the instance in logs and event ids) never skip each other's events
+  readonly instanceId = [process.env.INSTANCE_ID, uuidv4().slice(0, 8)]
+    .filter(Boolean)
+    .join("-");
+  private bus: EventBus = new InProcessEventBus();
+  private connections = new Map<string, Set<SSEWrapper>>(); // By sessionId
+  private buffer = new ReplayBuffer(
+    parseInt(process.env.SSE_REPLAY_BUFFER_SIZE || "200", 10)
+  );
+  private sequence = 0;
+
+  constructor() {
+    // Deliver locally until start() selects the configured bus
+    this.bus.start((event) => this.handleEvent(event));
+  }
+
+  /**
+   * Switch to the configured bus. Falls back to in-process delivery if the
+   * Kafka bus cannot be started.
+   */
+  async start(): Promise<void> {
+    const busType = (process.env.EVENT_BUS || "memory").toLowerCase();
+    if (busType !== "kafka") {
+      logger.info(`Realtime events use the ${this.bus.name} bus`);
+      return;
+    }
+
+    const kafkaBus = new KafkaEventBus(this.instanceId);
+    try {
+      await kafkaBus.start((event) => this.handleEvent(event));
+      await this.bus.stop();
+      this.bus = kafkaBus;
+      logger.info(`Realtime events use the kafka bus`);
+    } catch (error) {
+      logger.error(
+        "Failed to start Kafka event bus, staying in-process",
+        error as Error
+      );
+    }
+  }
+
+  async stop(): Promise<void> {
+    await this.bus.stop();
+  }
+
+  /**
+   * Track a local SSE connection so bus events reach it
+   */
+  registerConnection(connection: SSEWrapper): void {
+    const sessionId = connection.getSessionId();
+    let sessionConnections = this.connections.get(sessionId);
+    if (!sessionConnections) {
+      sessionConnections = new Set();
+      this.connections.set(sessionId, sessionConnections);
+    }
+    sessionConnections.add(connection);
+  }
+
+  unregisterConnection(connection: SSEWrapper): void {
+    const sessionId = connection.getSessionId();
+    const sessionConnections = this.connections.get(sessionId);
+    if (!sessionConnections) {
+      return;
+    }
+    sessionConnections.delete(connection);
+    if (sessionConnections.size === 0) {
+      this.connections.delete(sessionId);
+    }
+  }
+
+  /**
+   * Close and forget all local connections for a session (e.g. when it is deleted)
+   */
+  closeSession(sessionId: string): void {
+    for (const connection of this.connections.get(sessionId) || []) {
+      connection.close();
+    }
+    this.connections.delete(sessionId);
+  }
+
+  /**
+   * Whether any SSE client for the session is connected to this instance
+   */
+  hasLocalConnection(sessionId: string): boolean {
+    return (this.connections.get(sessionId)?.size || 0) > 0;
+  }
+
+  publishToSession(sessionId: string, event: string, data: any): void {
+    this.publish("session", sessionId, event, data);
+  }
+
+  publishToUser(userId: string, event: string, data: any): void {
+    this.publish("user", userId, event, data);
+  }
+
+  /**
+   * Send a reconnecting client everything buffered for its session and user
+   * since the last event it saw.
+   */
+  replay(connection: SSEWrapper, lastEventId: string): number {
+    const missed = this.buffer.since(
+      [
+        ReplayBuffer.key("session", connection.getSessionId()),
+        ReplayBuffer.key("user", connection.getUserId()),
+      ],
+      lastEventId
+    );
+    for (const event of missed) {
+      connection.send(event.data, event.event, event.id);
+    }
+    if (missed.length > 0) {
+      logger.info(
+        `Replayed ${missed.length} events to session ${connection.getSessionId()} after ${lastEventId}`
+      );
+    }
+    return missed.length;
+  }
+
+  private publish(
+    scope: BusEvent["scope"],
+    target: string,
+    event: string,
+    data: any
+  ): void {
+    const timestamp = Date.now();
+    const busEvent: BusEvent = {
+      id: `${timestamp}-${this.instanceId}-${this.sequence++}`,
+      scope,
+      target,
+      event,
+      data,
+      origin: this.instanceId,
+      timestamp,
+    };
+
+    this.bus.publish(busEvent).catch((error) => {
+      logger.error(`Failed to publish ${event} event`, error as Error);
+    });
+  }
+
+  /**
+   * Buffer an event from the bus and deliver it to matching local connections
+   */
+  private handleEvent(event: BusEvent): void {
+    this.buffer.add(event);
+
+    const targets: SSEWrapper[] = [];
+    if (event.scope === "session") {
+      targets.push(...(this.connections.get(event.target) || []));
+    } else {
+      for (const sessionConnections of this.connections.values()) {
+        for (const connection of sessionConnections) {
+          if (connection.getUserId() === event.target) {
+            targets.push(connection);
+          }
+        }
+      }
+    }
+
+    for (const connection of targets) {
+      try {
+        connection.send(event.data, event.event, event.id);
+      } catch (error) {
+        logger.warn(`Failed to deliver ${event.event} event`, {
+          error: (error as Error).message,
+          scope: event.scope,
+          target: event.target,
+        });
+      }
+    }
+  }
+}
+
+export const realtimeService = new RealtimeService();
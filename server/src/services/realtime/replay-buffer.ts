@@ -0,0 +1,70 @@
+import { BusEvent, getEventTimestamp } from "./event-bus";
+
+/**
+ * Bounded per-target history of recent events, used to replay what a
+ * client missed while it was reconnecting (SSE Last-Event-ID).
+ */
+export class ReplayBuffer {
+  private events = new Map<string, BusEvent[]>();
+
+  constructor(
+    private maxPerKey: number = 200,
+    private maxAgeMs: number = 5 * 60 * 1000,
+    private maxKeys: number = 5000
+  ) {}
+
+  static key(scope: BusEvent["scope"], target: string): string {
+    return `${scope}:${target}`;
+  }
+
+  add(event: BusEvent): void {
+    const key = ReplayBuffer.key(event.scope, event.target);
+    let list = this.events.get(key);
+
+    if (!list) {
+      // Evict the least recently written target (Map keeps insertion order)
+      if (this.events.size >= this.maxKeys) {
+        const oldest = this.events.keys().next().value;
+        if (oldest !== undefined) {
+          this.events.delete(oldest);
+        }
+      }
+      list = [];
+    } else {
+      this.events.delete(key);
+    }
+
+    list.push(event);
+    const cutoff = event.timestamp - this.maxAgeMs;
+    let drop = Math.max(0, list.length - this.maxPerKey);
+    while (drop < list.length && list[drop].timestamp < cutoff) {
+      drop++;
+    }
+    this.events.set(key, drop > 0 ? list.slice(drop) : list);
+  }
+
+  /**
+   * Events for the given targets published after `lastEventId`, oldest first.
+   * If the id is no longer buffered for a target, everything newer than its
+   * timestamp is returned instead.
+   */
+  since(keys: string[], lastEventId: string): BusEvent[] {
+    const lastTimestamp = getEventTimestamp(lastEventId);
+    if (isNaN(lastTimestamp)) {
+      return [];
+    }
+
+    const missed: BusEvent[] = [];
+    for (const key of keys) {
+      const list = this.events.get(key) || [];
+      const index = list.findIndex((event) => event.id === lastEventId);
+      if (index !== -1) {
+        missed.push(...list.slice(index + 1));
+      } else {
+        missed.push(...list.filter((event) => event.timestamp > lastTimestamp));
+      }
+    }
+
+    return missed.sort((a, b) => a.timestamp - b.timestamp);
+  }
+}
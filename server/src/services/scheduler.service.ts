@@ -1,226 +1,604 @@
-import { v4 as uuidv4 } from "uuid";import { aiService } from "./ai.service";
+import { v4 as uuidv4 } from "uuid";
+import { aiService } from "./ai.service";
 import { memoryService } from "./memory.service";
 import { contextService } from "./context.service";
+import { companionStateService } from "./companion-state.service";
+import { userStateService } from "./user-state.service";
+import { notificationService } from "./notification.service";
+import { telegramBotService } from "./telegram/telegram-bot.service";
+import {
+  ScheduledTaskModel,
+  IScheduledTask,
+  TaskPriority,
+  TaskStatus,
+} from "../models/scheduled-task.model";
+import { nextRecurrence } from "../utils/recurrence";
+import { loggerFactory } from "../utils/logger.service";
+
+const logger = loggerFactory.getLogger("SchedulerService");
 
 /**
  * Interface for scheduled tasks
  */
-interface ScheduledTask {
+export interface ScheduledTask {
   id: string;
   userId: string;
   title: string;
   description: string;
   dueDate: string; // ISO string
-  priority: "high" | "medium" | "low";
-  status: "pending" | "completed" | "cancelled";
-  recurringPattern?: string; // cron-like pattern
+  priority: TaskPriority;
+  status: TaskStatus;
+  recurringPattern?: string; // Cron expression or RRULE
+  timezone?: string;
+  seriesId?: string;
+  occurrence: number;
+  reminderOffsets: number[]; // Minutes before dueDate
+  nextReminderAt?: string;
   createdAt: string;
   updatedAt: string;
   completedAt?: string;
+  notionPageId?: string;
   metadata?: Record<string, any>;
 }
 
+export interface TaskInput {
+  title: string;
+  description: string;
+  dueDate: string;
+  priority?: TaskPriority;
+  recurringPattern?: string;
+  timezone?: string;
+  reminderOffsets?: number[];
+  metadata?: Record<string, any>;
+}
+
+const DURATION_UNITS: Record<string, number> = {
+  m: 1,
+  h: 60,
+  d: 24 * 60,
+  w: 7 * 24 * 60,
+};
+
 /**
- * Service for scheduling and managing tasks
- * Based on NestJS implementation: ../server/src/modules/scheduler/scheduler.service.ts
+ * Parse reminder lead times. Accepts minutes as numbers or duration strings
+ * such as "15m", "1h", "1d" or "1w". Returns null if any entry is invalid.
+ */
+export function parseReminderOffsets(
+  value: Array<number | string> | string
+): number[] | null {
+  const entries = typeof value === "string" ? value.split(",") : value;
+  const offsets: number[] = [];
+
+  for (const entry of entries) {
+    let minutes: number;
+    if (typeof entry === "number") {
+      minutes = entry;
+    } else {
+      const match = entry.trim().match(/^(\d+)\s*([mhdw]?)$/i);
+      if (!match) {
+        return null;
+      }
+      minutes =
+        Number(match[1]) * DURATION_UNITS[match[2].toLowerCase() || "m"];
+    }
+    if (!Number.isInteger(minutes) || minutes < 0) {
+      return null;
+    }
+    offsets.push(minutes);
+  }
+
+  // Largest lead time first, without duplicates
+  return Array.from(new Set(offsets)).sort((a, b) => b - a);
+}
+
+const DEFAULT_REMINDER_OFFSETS = parseReminderOffsets(
+  process.env.SCHEDULER_DEFAULT_REMINDERS || "1d,1h,0m"
+) || [0];
+
+function formatLeadTime(minutes: number): string {
+  const units: Array<[string, number]> = [
+    ["week", DURATION_UNITS.w],
+    ["day", DURATION_UNITS.d],
+    ["hour", DURATION_UNITS.h],
+  ];
+  for (const [name, size] of units) {
+    if (minutes >= size && minutes % size === 0) {
+      const count = minutes / size;
+      return `${count} ${name}${count === 1 ? "" : "s"}`;
+    }
+  }
+  return `${minutes} minute${minutes === 1 ? "" : "s"}`;
+}
+
+/**
+ * Earliest reminder that has not been sent yet for the task's due date
+ */
+function computeNextReminderAt(
+  dueDate: Date,
+  offsets: number[],
+  sent: number[]
+): Date | undefined {
+  const pending = offsets.filter((offset) => !sent.includes(offset));
+  if (pending.length === 0) {
+    return undefined;
+  }
+  return new Date(dueDate.getTime() - Math.max(...pending) * 60 * 1000);
+}
+
+/**
+ * Service for scheduling and managing tasks.
+ * Tasks are persisted in MongoDB; reminders are delivered by a ticking loop
+ * that claims each due reminder atomically, so restarts never lose them.
  */
 class SchedulerService {
-  // In-memory storage for tasks
-  private tasks: Map<string, ScheduledTask> = new Map();
+  private isRunning = false;
+  private tickInterval: NodeJS.Timeout | null = null;
+  private isTicking = false;
 
-  // Timeout IDs for task reminders
-  private taskTimers: Map<string, NodeJS.Timeout> = new Map();
+  /**
+   * Map a task document to the API representation
+   */
+  private toTask(doc: IScheduledTask): ScheduledTask {
+    return {
+      id: doc._id,
+      userId: doc.userId,
+      title: doc.title,
+      description: doc.description,
+      dueDate: doc.dueDate.toISOString(),
+      priority: doc.priority,
+      status: doc.status,
+      recurringPattern: doc.recurringPattern,
+      timezone: doc.timezone,
+      seriesId: doc.seriesId,
+      occurrence: doc.occurrence,
+      reminderOffsets: doc.reminderOffsets,
+      nextReminderAt: doc.nextReminderAt?.toISOString(),
+      createdAt: doc.createdAt.toISOString(),
+      updatedAt: doc.updatedAt.toISOString(),
+      completedAt: doc.completedAt?.toISOString(),
+      notionPageId: doc.notionPageId,
+      metadata: doc.metadata,
+    };
+  }
 
   /**
    * Create a new scheduled task
    */
-  createTask(
+  async createTask(
     userId: string,
-    taskData: {
-      title: string;
-      description: string;
-      dueDate: string;
-      priority?: "high" | "medium" | "low";
-      recurringPattern?: string;
-      metadata?: Record<string, any>;
-    }
-  ): ScheduledTask {
-    const now = new Date().toISOString();
+    taskData: TaskInput
+  ): Promise<ScheduledTask> {
+    const dueDate = new Date(taskData.dueDate);
+    const reminderOffsets =
+      taskData.reminderOffsets ?? DEFAULT_REMINDER_OFFSETS;
 
-    const task: ScheduledTask = {
-      id: uuidv4(),
+    const doc = await ScheduledTaskModel.create({
       userId,
       title: taskData.title,
       description: taskData.description,
-      dueDate: taskData.dueDate,
+      dueDate,
       priority: taskData.priority || "medium",
       status: "pending",
       recurringPattern: taskData.recurringPattern,
-      createdAt: now,
-      updatedAt: now,
+      timezone: taskData.timezone,
+      seriesId: taskData.recurringPattern ? uuidv4() : undefined,
+      occurrence: 1,
+      reminderOffsets,
+      remindersSent: [],
+      nextReminderAt: computeNextReminderAt(dueDate, reminderOffsets, []),
       metadata: taskData.metadata || {},
-    };
+    });
 
-    this.tasks.set(task.id, task);
-    this.scheduleTaskReminder(task);
-
-    return task;
+    logger.info(`Created task ${doc._id} for user ${userId}`);
+    return this.toTask(doc);
   }
 
   /**
    * Get all tasks for a user
    */
-  getUserTasks(
+  async getUserTasks(
     userId: string,
     filters?: {
-      status?: "pending" | "completed" | "cancelled";
-      priority?: "high" | "medium" | "low";
+      status?: TaskStatus;
+      priority?: TaskPriority;
       dueBefore?: string;
       dueAfter?: string;
     }
-  ): ScheduledTask[] {
-    const tasks = Array.from(this.tasks.values()).filter(
-      (task) => task.userId === userId
-    );
-
-    // Apply filters if provided
-    if (filters) {
-      return tasks.filter((task) => {
-        if (filters.status && task.status !== filters.status) {
-          return false;
-        }
-
-        if (filters.priority && task.priority !== filters.priority) {
-          return false;
-        }
+  ): Promise<ScheduledTask[]> {
+    const query: any = { userId };
 
-        if (
-          filters.dueBefore &&
-          new Date(task.dueDate) > new Date(filters.dueBefore)
-        ) {
-          return false;
-        }
-
-        if (
-          filters.dueAfter &&
-          new Date(task.dueDate) < new Date(filters.dueAfter)
-        ) {
-          return false;
-        }
-
-        return true;
-      });
+    if (filters?.status) {
+      query.status = filters.status;
+    }
+    if (filters?.priority) {
+      query.priority = filters.priority;
+    }
+    if (filters?.dueBefore || filters?.dueAfter) {
+      query.dueDate = {};
+      if (filters.dueBefore) {
+        query.dueDate.$lte = new Date(filters.dueBefore);
+      }
+      if (filters.dueAfter) {
+        query.dueDate.$gte = new Date(filters.dueAfter);
+      }
     }
 
-    return tasks;
+    const docs = await ScheduledTaskModel.find(query)
+      .sort({ dueDate: 1 })
+      .exec();
+    return docs.map((doc) => this.toTask(doc));
   }
 
   /**
    * Get task by ID
    */
-  getTask(taskId: string): ScheduledTask | undefined {
-    return this.tasks.get(taskId);
+  async getTask(taskId: string): Promise<ScheduledTask | undefined> {
+    const doc = await ScheduledTaskModel.findById(taskId).exec();
+    return doc ? this.toTask(doc) : undefined;
   }
 
   /**
    * Update an existing task
    */
-  updateTask(
+  async updateTask(
     taskId: string,
     updates: Partial<
       Omit<
         ScheduledTask,
-        "id" | "userId" | "createdAt" | "updatedAt" | "completedAt"
+        | "id"
+        | "userId"
+        | "createdAt"
+        | "updatedAt"
+        | "completedAt"
+        | "seriesId"
+        | "occurrence"
+        | "nextReminderAt"
+        | "notionPageId"
       >
     >
-  ): ScheduledTask | null {
-    const task = this.tasks.get(taskId);
-    if (!task) {
+  ): Promise<ScheduledTask | null> {
+    if (updates.status === "completed") {
+      const { status, ...rest } = updates;
+      if (Object.keys(rest).length > 0) {
+        await this.updateTask(taskId, rest);
+      }
+      return this.completeTask(taskId);
+    }
+
+    const doc = await ScheduledTaskModel.findById(taskId).exec();
+    if (!doc) {
       return null;
     }
 
-    // Clear existing timer if due date is changing
-    if (updates.dueDate && updates.dueDate !== task.dueDate) {
-      this.clearTaskReminder(taskId);
+    const dueDateChanged =
+      updates.dueDate !== undefined &&
+      new Date(updates.dueDate).getTime() !== doc.dueDate.getTime();
+
+    if (updates.title !== undefined) doc.title = updates.title;
+    if (updates.description !== undefined)
+      doc.description = updates.description;
+    if (updates.dueDate !== undefined) doc.dueDate = new Date(updates.dueDate);
+    if (updates.priority !== undefined) doc.priority = updates.priority;
+    if (updates.status !== undefined) doc.status = updates.status;
+    if (updates.timezone !== undefined) doc.timezone = updates.timezone;
+    if (updates.metadata !== undefined) doc.metadata = updates.metadata;
+    if (updates.reminderOffsets !== undefined)
+      doc.reminderOffsets = updates.reminderOffsets;
+    if (updates.recurringPattern !== undefined) {
+      doc.recurringPattern = updates.recurringPattern || undefined;
+      if (doc.recurringPattern && !doc.seriesId) {
+        doc.seriesId = uuidv4();
+      }
     }
 
-    const updatedTask: ScheduledTask = {
-      ...task,
-      ...updates,
-      updatedAt: new Date().toISOString(),
-    };
+    if (doc.status !== "completed") {
+      doc.completedAt = undefined;
+    }
 
-    // Set completedAt when status changes to completed
-    if (updates.status === "completed" && task.status !== "completed") {
-      updatedTask.completedAt = new Date().toISOString();
-    } else if (updates.status !== "completed") {
-      // Remove completedAt if status is not completed
-      delete updatedTask.completedAt;
+    // A new due date re-arms every reminder
+    if (dueDateChanged) {
+      doc.remindersSent = [];
     }
+    doc.nextReminderAt =
+      doc.status === "pending"
+        ? computeNextReminderAt(
+            doc.dueDate,
+            doc.reminderOffsets,
+            doc.remindersSent
+          )
+        : undefined;
+
+    await doc.save();
+    return this.toTask(doc);
+  }
+
+  /**
+   * Delete a task
+   */
+  async deleteTask(taskId: string): Promise<boolean> {
+    const result = await ScheduledTaskModel.deleteOne({ _id: taskId }).exec();
+    return result.deletedCount > 0;
+  }
+
+  /**
+   * Delete all tasks for a user
+   */
+  async deleteAllUserTasks(userId: string): Promise<number> {
+    const result = await ScheduledTaskModel.deleteMany({ userId }).exec();
+    return result.deletedCount;
+  }
+
+  /**
+   * Mark a task as completed. For recurring tasks the next occurrence is
+   * created as a new pending task in the same series.
+   */
+  async completeTask(taskId: string): Promise<ScheduledTask | null> {
+    const now = new Date();
 
-    this.tasks.set(taskId, updatedTask);
+    // Only the first completion spawns a follow-up occurrence
+    const doc = await ScheduledTaskModel.findOneAndUpdate(
+      { _id: taskId, status: { $ne: "completed" } },
+      {
+        $set: { status: "completed", completedAt: now },
+        $unset: { nextReminderAt: 1 },
+      },
+      { new: true }
+    ).exec();
+
+    if (!doc) {
+      const existing = await ScheduledTaskModel.findById(taskId).exec();
+      return existing ? this.toTask(existing) : null;
+    }
 
-    // Schedule new reminder if the task is still pending and has a due date
-    if (updatedTask.status === "pending") {
-      this.scheduleTaskReminder(updatedTask);
+    if (doc.recurringPattern) {
+      await this.createNextOccurrence(doc, now);
     }
 
-    return updatedTask;
+    return this.toTask(doc);
   }
 
   /**
-   * Delete a task
+   * Mark a task as cancelled
+   */
+  async cancelTask(taskId: string): Promise<ScheduledTask | null> {
+    return this.updateTask(taskId, { status: "cancelled" });
+  }
+
+  private async createNextOccurrence(
+    doc: IScheduledTask,
+    now: Date
+  ): Promise<IScheduledTask | null> {
+    let next;
+    try {
+      next = nextRecurrence(doc.recurringPattern!, doc.dueDate, {
+        occurrence: doc.occurrence,
+        notBefore: now,
+        timezone: doc.timezone,
+      });
+    } catch (error) {
+      logger.error(
+        `Invalid recurring pattern on task ${doc._id}`,
+        error as Error,
+        { pattern: doc.recurringPattern }
+      );
+      return null;
+    }
+
+    if (!next) {
+      logger.info(`Recurring series ${doc.seriesId} has ended`);
+      return null;
+    }
+
+    const nextDoc = await ScheduledTaskModel.create({
+      userId: doc.userId,
+      title: doc.title,
+      description: doc.description,
+      dueDate: next.date,
+      priority: doc.priority,
+      status: "pending",
+      recurringPattern: doc.recurringPattern,
+      timezone: doc.timezone,
+      seriesId: doc.seriesId || doc._id,
+      occurrence: next.occurrence,
+      reminderOffsets: doc.reminderOffsets,
+      remindersSent: [],
+      nextReminderAt: computeNextReminderAt(next.date, doc.reminderOffsets, []),
+      metadata: doc.metadata,
+    });
+
+    logger.info(
+      `Created occurrence ${next.occurrence} of task ${doc._id} due ${next.date.toISOString()}`
+    );
+    return nextDoc;
+  }
+
+  /**
+   * Start delivering reminders. Ticks every 30 seconds.
    */
-  deleteTask(taskId: string): boolean {
-    this.clearTaskReminder(taskId);
-    return this.tasks.delete(taskId);
+  start(): void {
+    if (this.isRunning) {
+      logger.info("Task reminder loop is already running");
+      return;
+    }
+
+    logger.info("Starting task reminder loop");
+    this.isRunning = true;
+    this.tickInterval = setInterval(() => {
+      this.processDueReminders();
+    }, 30 * 1000);
   }
 
   /**
-   * Delete all tasks for a user
+   * Stop delivering reminders
    */
-  deleteAllUserTasks(userId: string): number {
-    let count = 0;
-
-    for (const [id, task] of this.tasks.entries()) {
-      if (task.userId === userId) {
-        this.clearTaskReminder(id);
-        this.tasks.delete(id);
-        count++;
+  stop(): void {
+    if (!this.isRunning) {
+      return;
+    }
+
+    logger.info("Stopping task reminder loop");
+    this.isRunning = false;
+    if (this.tickInterval) {
+      clearInterval(this.tickInterval);
+      this.tickInterval = null;
+    }
+  }
+
+  /**
+   * Deliver every reminder whose time has come. Reminders that were due while
+   * the server was down are collapsed into a single message per task.
+   * Returns the number of reminders delivered.
+   */
+  async processDueReminders(): Promise<number> {
+    if (this.isTicking) {
+      return 0;
+    }
+    this.isTicking = true;
+
+    let delivered = 0;
+    try {
+      const now = new Date();
+      const due = await ScheduledTaskModel.find({
+        status: "pending",
+        nextReminderAt: { $lte: now },
+      })
+        .limit(100)
+        .exec();
+
+      for (const task of due) {
+        const dueOffsets = task.reminderOffsets.filter(
+          (offset) =>
+            !task.remindersSent.includes(offset) &&
+            task.dueDate.getTime() - offset * 60 * 1000 <= now.getTime()
+        );
+        if (dueOffsets.length === 0) {
+          continue;
+        }
+
+        const remindersSent = [...task.remindersSent, ...dueOffsets];
+        const nextReminderAt = computeNextReminderAt(
+          task.dueDate,
+          task.reminderOffsets,
+          remindersSent
+        );
+
+        // Claim the reminder so concurrent ticks or instances don't double-send
+        const claimed = await ScheduledTaskModel.findOneAndUpdate(
+          {
+            _id: task._id,
+            status: "pending",
+            nextReminderAt: task.nextReminderAt,
+          },
+          nextReminderAt
+            ? { $set: { remindersSent, nextReminderAt } }
+            : { $set: { remindersSent }, $unset: { nextReminderAt: 1 } }
+        ).exec();
+        if (!claimed) {
+          continue;
+        }
+
+        await this.deliverReminder(task, Math.min(...dueOffsets), now);
+        delivered++;
       }
+    } catch (error) {
+      logger.error("Error processing task reminders", error as Error);
+    } finally {
+      this.isTicking = false;
     }
 
-    return count;
+    return delivered;
   }
 
   /**
-   * Mark a task as completed
+   * Send a reminder to the user's inbox/SSE connections and, for Telegram
+   * users, to their chat.
    */
-  completeTask(taskId: string): ScheduledTask | null {
-    return this.updateTask(taskId, { status: "completed" });
+  private async deliverReminder(
+    task: IScheduledTask,
+    offset: number,
+    now: Date
+  ): Promise<void> {
+    const overdue = task.dueDate.getTime() < now.getTime();
+    const title = overdue
+      ? `Overdue: ${task.title}`
+      : offset === 0
+        ? `Due now: ${task.title}`
+        : `Due in ${formatLeadTime(offset)}: ${task.title}`;
+    const body = task.description
+      ? `${task.description}\nDue ${task.dueDate.toISOString()}`
+      : `Due ${task.dueDate.toISOString()}`;
+
+    try {
+      await notificationService.notify(task.userId, {
+        title,
+        body,
+        level: overdue ? "warning" : "info",
+        source: "scheduler",
+        sourceId: task._id,
+        metadata: { offsetMinutes: offset, dueDate: task.dueDate },
+      });
+    } catch (error) {
+      logger.error(
+        `Failed to store reminder for task ${task._id}`,
+        error as Error
+      );
+    }
+
+    const chatId = await telegramBotService.getLinkedChatId(task.userId);
+    if (chatId) {
+      const sent = await telegramBotService.sendMessageToChatId(
+        chatId,
+        `⏰ ${title}\n${body}`
+      );
+      if (!sent) {
+        logger.warn(`Telegram reminder for task ${task._id} was not sent`);
+      }
+    }
   }
 
   /**
-   * Mark a task as cancelled
+   * Collect the user's current goals from the companion and user state
    */
-  cancelTask(taskId: string): ScheduledTask | null {
-    return this.updateTask(taskId, { status: "cancelled" });
+  private async getUserGoals(userId: string): Promise<string[]> {
+    const goals: Array<{ goal: string; priority: number }> = [];
+
+    try {
+      const state =
+        await companionStateService.getOrCreateCompanionState(userId);
+      goals.push(...(state.userDefinedGoals || []));
+      goals.push(...(state.currentGoals || []));
+    } catch (error) {
+      logger.warn(`Could not load companion goals for user ${userId}`, {
+        error: (error as Error).message,
+      });
+    }
+
+    try {
+      goals.push(...(await userStateService.getUserGoals(userId)));
+    } catch (error) {
+      logger.warn(`Could not load user goals for user ${userId}`, {
+        error: (error as Error).message,
+      });
+    }
+
+    return Array.from(
+      new Set(goals.sort((a, b) => b.priority - a.priority).map((g) => g.goal))
+    );
   }
 
   /**
-   * Suggest tasks based on user context and history
+   * Suggest tasks based on the user's goals, memories and task history
    */
   async suggestTasks(
     userId: string,
     maxSuggestions: number = 3
   ): Promise<Partial<ScheduledTask>[]> {
     try {
-      // Gather context for AI suggestion
-      const contextSummary =
-        await contextService.generateContextSummary(userId);
-
-      // Get user's task history
-      const userTasks = this.getUserTasks(userId);
+      const [contextSummary, userTasks, goals] = await Promise.all([
+        contextService.generateContextSummary(userId).catch(() => ""),
+        this.getUserTasks(userId),
+        this.getUserGoals(userId),
+      ]);
       const completedTasks = userTasks.filter(
         (task) => task.status === "completed"
       );
@@ -228,23 +606,27 @@ class SchedulerService {
         (task) => task.status === "pending"
       );
 
-      // Get relevant memories to inform suggestions
+      // Look for memories related to what the user is working towards
       const relevantMemories = await memoryService.getRelevantMemories(
         userId,
-        "tasks goals priorities",
-        5
+        goals.length > 0 ? goals.slice(0, 5).join(". ") : "tasks goals plans",
+        8
       );
 
-      // Create prompt for AI
       const prompt = `
-Based on the user's context, completed tasks, pending tasks, and relevant memories, suggest ${maxSuggestions} new tasks that would be helpful for the user. 
+Based on the user's goals, context, completed tasks, pending tasks, and relevant memories, suggest ${maxSuggestions} new tasks that would help the user make progress. Do not repeat pending tasks.
+
+Current time: ${new Date().toISOString()}
+
+USER GOALS:
+${goals.length > 0 ? goals.map((g) => `- ${g}`).join("\n") : "None recorded"}
 
 USER CONTEXT:
 ${contextSummary}
 
 COMPLETED TASKS (${completedTasks.length}):
 ${completedTasks
-  .slice(0, 5)
+  .slice(-5)
   .map(
     (t) =>
       `- ${t.title}: ${t.description} (completed on ${new Date(t.completedAt || "").toLocaleDateString()})`
@@ -257,103 +639,79 @@ ${pendingTasks.map((t) => `- ${t.title}: ${t.description} (due on ${new Date(t.d
 RELEVANT MEMORIES:
 ${relevantMemories.map((m) => `- ${m.memory.text}`).join("\n")}
 
-For each suggested task, provide:
-1. A clear, specific title
-2. A brief description
-3. A suitable due date (ISO string)
-4. A priority level (high, medium, or low)
-
 Format your response as a JSON array of objects, each with these properties:
-- title
-- description
-- dueDate (ISO string)
-- priority
+- title: a clear, specific title
+- description: a brief description
+- dueDate: a suitable due date (ISO string, in the future)
+- priority: high, medium, or low
 
 TASK SUGGESTIONS:
 `;
 
-      // Generate suggestions using AI
       const response = await aiService.generateResponse(
-        prompt,
-        {
-          temperature: 0.7,
-          max_tokens: 1000,
-        },
+        [{ role: "user", content: prompt }],
+        { ...(await aiService.getParameters(userId)), temperature: 0.7 },
         undefined,
         userId
       );
 
-      // Parse suggestions from AI response
-      try {
-        const jsonMatch = response.text.match(/\[\s*\{.*\}\s*\]/s);
-        if (jsonMatch) {
-          const suggestions = JSON.parse(jsonMatch[0]);
-
-          // Validate and format suggestions
-          return suggestions
-            .filter(
-              (suggestion: any) =>
-                suggestion.title &&
-                suggestion.description &&
-                suggestion.dueDate &&
-                suggestion.priority
+      const jsonMatch = response.text.match(/\[\s*\{.*\}\s*\]/s);
+      if (jsonMatch) {
+        const suggestions = JSON.parse(jsonMatch[0]);
+
+        return suggestions
+          .filter(
+            (suggestion: any) =>
+              suggestion.title &&
+              suggestion.description &&
+              suggestion.dueDate &&
+              !isNaN(Date.parse(suggestion.dueDate))
+          )
+          .slice(0, maxSuggestions)
+          .map((suggestion: any) => ({
+            title: suggestion.title,
+            description: suggestion.description,
+            dueDate: new Date(suggestion.dueDate).toISOString(),
+            priority: ["high", "medium", "low"].includes(
+              String(suggestion.priority).toLowerCase()
             )
-            .map((suggestion: any) => ({
-              title: suggestion.title,
-              description: suggestion.description,
-              dueDate: suggestion.dueDate,
-              priority: suggestion.priority.toLowerCase() as
-                | "high"
-                | "medium"
-                | "low",
-            }));
-        }
-      } catch (error) {
-        console.error("Error parsing suggested tasks:", error);
+              ? (String(suggestion.priority).toLowerCase() as TaskPriority)
+              : "medium",
+          }));
       }
 
-      return [];
+      logger.warn(`No task suggestions could be parsed for user ${userId}`);
+      return this.suggestFromGoals(goals, pendingTasks, maxSuggestions);
     } catch (error) {
-      console.error("Error suggesting tasks:", error);
+      logger.error("Error suggesting tasks", error as Error, { userId });
       return [];
     }
   }
 
   /**
-   * Schedule a reminder for a task
+   * Fallback suggestions when the model is unavailable: one follow-up per
+   * top goal that isn't already covered by a pending task.
    */
-  private scheduleTaskReminder(task: ScheduledTask): void {
-    // Clear any existing timer
-    this.clearTaskReminder(task.id);
-
-    // Calculate time until due date
-    const now = new Date();
-    const dueDate = new Date(task.dueDate);
-    const timeUntilDue = dueDate.getTime() - now.getTime();
-
-    // Only schedule if due date is in the future
-    if (timeUntilDue > 0) {
-      const timer = setTimeout(
-        () => {
-          console.log(`Reminder: Task "${task.title}" is due now`);
-          // In a real implementation, this would trigger a notification to the user
-        },
-        Math.min(timeUntilDue, 2147483647)
-      ); // Limit to max setTimeout value
-
-      this.taskTimers.set(task.id, timer);
-    }
-  }
-
-  /**
-   * Clear a scheduled reminder
-   */
-  private clearTaskReminder(taskId: string): void {
-    const timer = this.taskTimers.get(taskId);
-    if (timer) {
-      clearTimeout(timer);
-      this.taskTimers.delete(taskId);
-    }
+  private suggestFromGoals(
+    goals: string[],
+    pendingTasks: ScheduledTask[],
+    maxSuggestions: number
+  ): Partial<ScheduledTask>[] {
+    const pendingTitles = pendingTasks.map((t) => t.title.toLowerCase());
+    const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000);
+
+    return goals
+      .filter(
+        (goal) =>
+          !pendingTitles.some((title) => title.includes(goal.toLowerCase()))
+      )
+      .slice(0, maxSuggestions)
+      .map((goal, i) => ({
+        title: `Next step: ${goal}`,
+        description: `Pick one concrete action that moves "${goal}" forward.`,
+        dueDate: tomorrow.toISOString(),
+        priority: i === 0 ? "high" : "medium",
+      }));
   }
 }
 
@@ -361,11 +719,15 @@ TASK SUGGESTIONS:
 export const schedulerService = new SchedulerService();
 
 /**
- * Initialize the scheduler service
- * This function should be called when the server starts
+ * Initialize the scheduler service.
+ * Must be called once MongoDB is connected: it first delivers reminders that
+ * were missed while the server was down, then starts the reminder loop.
  */
-export function initScheduler(): void {
-  console.log("Scheduler service initialized");
-  // Any initialization logic can go here
-  // For example, loading tasks from a database
+export async function initScheduler(): Promise<void> {
+  const recovered = await schedulerService.processDueReminders();
+  if (recovered > 0) {
+    logger.info(`Recovered ${recovered} missed task reminders`);
+  }
+  schedulerService.start();
+  logger.info("Scheduler service initialized");
 }
@@ -54,7 +54,7 @@ const SerendipitySuggestionSchema = new mongoose.Schema({
 SerendipitySuggestionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
 
 // Create model
-const SerendipitySuggestionModel = mongoose.model(
+export const SerendipitySuggestionModel = mongoose.model(
   "SerendipitySuggestion",
   SerendipitySuggestionSchema
 );
@@ -1,6 +1,7 @@
 import { v4 as uuidv4 } from "uuid";
 import { databaseService } from "../config/mongodb";
 import SessionModel, { ISession } from "../models/session.model"; // Import Mongoose model and interface
+import { domainEventsService, DomainEventType } from "./domain-events.service";
 
 // Define Session interface locally for clarity if ISession import has issues
 // interface Session extends ISession {}
@@ -167,6 +168,13 @@ class SessionService {
       this.sessionsFallback.set(sessionId, sessionData as Session);
       createdSession = sessionData as Session;
     }
+
+    domainEventsService.emit(DomainEventType.SESSION_CREATED, {
+      userId,
+      sessionId,
+      createdAt: createdSession.createdAt,
+      metadata,
+    });
     return createdSession;
   }
 
@@ -65,8 +65,11 @@ SocialConnectionSchema.index({ userA: 1, status: 1 });
 SocialConnectionSchema.index({ userB: 1, status: 1 });
 
 // Define models
-const SocialProfile = mongoose.model("SocialProfile", SocialProfileSchema);
-const SocialConnection = mongoose.model(
+export const SocialProfile = mongoose.model(
+  "SocialProfile",
+  SocialProfileSchema
+);
+export const SocialConnection = mongoose.model(
   "SocialConnection",
   SocialConnectionSchema
 );
@@ -5,6 +5,7 @@ import {
 } from "../../models/memory.model";
 import { memoryService } from "../memory.service";
 import { aiService } from "../ai.service";
+import { credentialVault } from "../credential-vault.service";
 
 export interface SocialMediaPost {
   id: string;
@@ -38,7 +39,7 @@ export interface SocialMediaConnection {
   userId: string;
   platform: string;
   profileId: string;
-  accessToken: string;
+  accessToken: string; // Sealed by the credential vault once stored
   refreshToken?: string;
   expiresAt?: string;
   scopes?: string[];
@@ -51,14 +52,18 @@ export interface SocialMediaConnection {
  * Base service for social media integrations
  */
 class SocialMediaService {
-  // Store user connections to social platforms
+  // Store user connections to social platforms, with tokens sealed
   private connections: Map<string, SocialMediaConnection[]> = new Map();
 
   /**
-   * Add a social media connection for a user
+   * Add a social media connection for a user, sealing its tokens
    */
-  addConnection(connection: SocialMediaConnection): void {
+  async addConnection(connection: SocialMediaConnection): Promise<void> {
     const userId = connection.userId;
+    const tokens = await credentialVault.sealCredentials(userId, {
+      accessToken: connection.accessToken,
+      refreshToken: connection.refreshToken,
+    });
     const userConnections = this.connections.get(userId) || [];
 
     // Remove any existing connection to the same platform
@@ -67,10 +72,24 @@ class SocialMediaService {
     );
 
     // Add the new connection
-    filteredConnections.push(connection);
+    filteredConnections.push({ ...connection, ...tokens });
     this.connections.set(userId, filteredConnections);
   }
 
+  /**
+   * The plaintext access token of a user's active connection to a platform
+   */
+  async getAccessToken(
+    userId: string,
+    platform: string
+  ): Promise<string | undefined> {
+    const connection = this.getConnection(userId, platform);
+    if (!connection || !connection.isActive) {
+      return undefined;
+    }
+    return credentialVault.decrypt(userId, connection.accessToken);
+  }
+
   /**
    * Get all social media connections for a user
    */
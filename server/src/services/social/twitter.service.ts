@@ -42,9 +42,11 @@ class TwitterService {
       };
 
       // Store connection
-      socialMediaService.addConnection(connection);
+      await socialMediaService.addConnection(connection);
 
-      return connection;
+      return (
+        socialMediaService.getConnection(userId, "twitter") || connection
+      );
     } catch (error) {
       console.error("Error connecting Twitter account:", error);
       throw new Error(
@@ -103,7 +105,11 @@ class TwitterService {
     count: number = 20
   ): Promise<SocialMediaPost[]> {
     const connection = socialMediaService.getConnection(userId, "twitter");
-    if (!connection || !connection.isActive) {
+    const accessToken = await socialMediaService.getAccessToken(
+      userId,
+      "twitter"
+    );
+    if (!connection || !accessToken) {
       throw new Error("Twitter account not connected");
     }
 
@@ -112,7 +118,7 @@ class TwitterService {
         `${this.API_BASE_URL}/users/${connection.profileId}/tweets`,
         {
           headers: {
-            Authorization: `Bearer ${connection.accessToken}`,
+            Authorization: `Bearer ${accessToken}`,
             "Content-Type": "application/json",
           },
           params: {
@@ -154,7 +160,11 @@ class TwitterService {
     count: number = 20
   ): Promise<SocialMediaPost[]> {
     const connection = socialMediaService.getConnection(userId, "twitter");
-    if (!connection || !connection.isActive) {
+    const accessToken = await socialMediaService.getAccessToken(
+      userId,
+      "twitter"
+    );
+    if (!connection || !accessToken) {
       throw new Error("Twitter account not connected");
     }
 
@@ -163,7 +173,7 @@ class TwitterService {
         `${this.API_BASE_URL}/users/${connection.profileId}/timelines/reverse_chronological`,
         {
           headers: {
-            Authorization: `Bearer ${connection.accessToken}`,
+            Authorization: `Bearer ${accessToken}`,
             "Content-Type": "application/json",
           },
           params: {
@@ -241,7 +251,7 @@ class TwitterService {
       const connection = socialMediaService.getConnection(userId, "twitter");
       if (connection) {
         connection.lastSyncedAt = new Date().toISOString();
-        socialMediaService.addConnection(connection);
+        await socialMediaService.addConnection(connection);
       }
     } catch (error) {
       console.error("Error syncing Twitter data:", error);
@@ -4,7 +4,9 @@ import { v4 as uuidv4 } from "uuid";
 import { aiService } from "./ai.service";
 import { memoryService, MemorySearchResult } from "./memory.service";
 import { modelEnum } from "../constants/models";
+import { AIPurpose } from "./model.service";
 import UserSummary, { IUserSummary } from "../models/summary.model";
+import { domainEventsService, DomainEventType } from "./domain-events.service";
 
 /**
  * Cache entry for session summary
@@ -67,6 +69,22 @@ class SummaryService {
     }
   }
 
+  /**
+   * Drop the user's cached summaries, e.g. when their account is deleted
+   */
+  clearUserCache(userId: string): number {
+    let removedCount = 0;
+
+    for (const [cacheKey, cacheEntry] of this.sessionSummaryCache.entries()) {
+      if (cacheEntry.userId === userId) {
+        this.sessionSummaryCache.delete(cacheKey);
+        removedCount++;
+      }
+    }
+
+    return removedCount;
+  }
+
   /**
    * Generate a cache key for a user-session combination
    */
@@ -106,6 +124,15 @@ class SummaryService {
       this.logger.info(
         `Stored summary record in database for user ${userId}, session ${sessionId}`
       );
+
+      domainEventsService.emit(DomainEventType.SUMMARY_CREATED, {
+        userId,
+        sessionId,
+        summaryId: String(summaryRecord._id),
+        summary,
+        memoryCount,
+        timestamp: summaryRecord.timestamp,
+      });
       return summaryRecord;
     } catch (error) {
       this.logger.error(`Failed to store summary record in database: ${error}`);
@@ -266,6 +293,7 @@ class SummaryService {
           model: modelEnum.gemma3o4b,
           max_tokens: 350,
           temperature: 0.4,
+          purpose: AIPurpose.SUMMARIZATION,
         },
         "You are an expert psychologist and profile writer.",
         userId
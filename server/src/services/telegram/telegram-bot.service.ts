@@ -1,4 +1,5 @@
-import { Bot, Context, session, SessionFlavor } from "grammy";
+import { Bot, Context, InlineKeyboard, session, SessionFlavor } from "grammy";
+import axios from "axios";
 import { memoryService, MemoryType } from "../memory.service";
 import { chatSessionManager } from "../chat-session.service";
 import { enhancedChatService } from "../enhanced-chat.service";
@@ -11,16 +12,60 @@ import {
   MessageStatus,
 } from "../../models/chat.model";
 import { telegramSchedulerService } from "./telegram-scheduler.service";
-import { userService } from "../user.service";
-import MessageModel from "../../models/message.model";
+import { telegramLinkService, TelegramIdentity } from "./telegram-link.service";
+import MessageModel, { IMessageAttachment } from "../../models/message.model";
 import { activityService } from "../activity.service";
 import {
   messageProducerService,
   MessageSource,
 } from "../kafka/message-producer.service";
+import { mediaService, isSupportedDocument } from "../media/media.service";
+import { schedulerService } from "../scheduler.service";
+import { usageService, quotaExceededMessage } from "../usage.service";
+import { userStateService } from "../user-state.service";
+import { companionStateService } from "../companion-state.service";
+import { ISession } from "../../models/session.model";
+import { parseReminderTime } from "../../utils/reminder-time";
+import { IGameSnapshot } from "../../models/activity.model";
 
 const logger = loggerFactory.getLogger("TelegramBotService");
 
+// Bots can only download files up to 20 MB through the Bot API
+const MAX_DOWNLOAD_BYTES = 20 * 1024 * 1024;
+// Longest list (sessions, tasks, memory matches) shown in one reply
+const MAX_LISTED_ITEMS = 10;
+const MAX_QUIET_HOURS = 7 * 24;
+
+// Replies sent with parse_mode HTML must escape these
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+/**
+ * Commands shown in /help and registered with Telegram for autocomplete
+ */
+const BOT_COMMANDS = [
+  { command: "start", description: "Start a conversation with me" },
+  { command: "help", description: "Show available commands" },
+  { command: "sessions", description: "List your sessions" },
+  { command: "switch", description: "Switch to session <n> from /sessions" },
+  { command: "newsession", description: "Go back to your main conversation" },
+  { command: "remember", description: "Store your last message as a memory" },
+  { command: "memories", description: "Show your recent memories" },
+  { command: "forget", description: "Forget a memory: /forget <n or text>" },
+  { command: "tasks", description: "Show your pending tasks" },
+  { command: "remind", description: "Set a reminder: /remind <when> <what>" },
+  { command: "goals", description: "Show your goals" },
+  {
+    command: "activity",
+    description:
+      "Start or end an activity: /activity roleplay|game|brainstorm|end",
+  },
+  { command: "mood", description: "See how I'm feeling" },
+  { command: "quiet", description: "Pause my own messages: /quiet <hours>" },
+  { command: "link", description: "Link to your web account: /link <code>" },
+  { command: "unlink", description: "Unlink from your web account" },
+];
+
 /**
  * Interface for session data
  */
@@ -30,6 +75,8 @@ interface SessionData {
   activeConversation: boolean;
   lastInteractionTime: number;
   sessionId?: string;
+  sessionIds?: string[]; // As numbered by the last /sessions
+  memoryIds?: string[]; // As numbered by the last /memories
 }
 
 /**
@@ -37,6 +84,14 @@ interface SessionData {
  */
 type BotContext = Context & SessionFlavor<SessionData>;
 
+/**
+ * What an incoming update is passed on to the companion as
+ */
+interface IncomingMessage {
+  text: string;
+  attachment?: IMessageAttachment;
+}
+
 /**
  * Telegram Bot Service using Grammy
  */
@@ -67,6 +122,7 @@ class TelegramBotService {
 
     // Set up command handlers
     this.setupCommandHandlers();
+    this.setupFeatureCommands();
 
     // Set up message handlers
     this.setupMessageHandlers();
@@ -89,6 +145,9 @@ class TelegramBotService {
     try {
       this.bot.start();
       this.isRunning = true;
+      this.bot.api.setMyCommands(BOT_COMMANDS).catch((error) => {
+        logger.warn(`Failed to register bot commands: ${error.message}`);
+      });
       console.log("Telegram bot started successfully");
     } catch (error) {
       console.error("Error starting Telegram bot:", error);
@@ -126,52 +185,13 @@ class TelegramBotService {
     // Start command - begins a conversation
     this.bot.command("start", async (ctx) => {
       try {
-        const username =
-          ctx.from?.username?.toLowerCase() || `telegram_${ctx.from?.id}`;
-        const telegramUserId = ctx.from?.id?.toString();
-        const displayName =
-          ctx.from?.first_name || ctx.from?.username || "User";
-
-        if (!telegramUserId) {
+        const user = await this.syncSessionUser(ctx);
+        if (!user) {
           await ctx.reply("Unable to identify user.");
           return;
         }
-
-        const userId = ctx.session.userId || `telegram_${telegramUserId}`;
-        if (!ctx.session.userId) ctx.session.userId = userId;
-
-        // --- User registration logic ---
-        let user = await userService.findUserByUsername(username);
-        let generatedPassword = undefined;
-        if (!user) {
-          generatedPassword = uuidv4();
-          user = await userService.createUser({
-            username,
-            email: `telegram_${telegramUserId}@telegram.local`,
-            password: generatedPassword,
-            name: displayName,
-          });
-        }
-
-        // Get the global session ID - this is where the conversation starts
+        const { userId } = user;
         const globalSessionId = sessionService.getGlobalSessionId(userId);
-        // Ensure the persistent session exists
-        await sessionService.ensureGlobalSession(userId);
-        // Ensure the session is initialized in the memory manager
-        if (!chatSessionManager.getSession(globalSessionId)) {
-          chatSessionManager.initializeSession(globalSessionId, userId);
-        }
-
-        ctx.session = {
-          userId,
-          username,
-          activeConversation: true,
-          lastInteractionTime: Date.now(),
-          sessionId: globalSessionId, // Explicitly set to global session ID
-        };
-        logger.info(
-          `User ${userId} (${username}) started conversation, using global session ${globalSessionId}.`
-        );
 
         // Get personalized greeting
         const greetingText =
@@ -193,13 +213,9 @@ class TelegramBotService {
         // Send greeting to user
         await ctx.reply(greetingText);
 
-        // If user was just created, send credentials
-        if (generatedPassword) {
+        if (user.provisional) {
           await ctx.reply(
-            this.escapeMarkdownV2(
-              `✅ Your Synapse account has been created!\n\nUsername: ${username}\nPassword: ${generatedPassword}\n\nPlease save these credentials. You can use them to log in on the web app.`
-            ),
-            { parse_mode: "MarkdownV2" }
+            "Already using Synapse on the web? Create a link code under Settings → Linked accounts and send /link <code> here to continue with the same account."
           );
         }
       } catch (error) {
@@ -213,15 +229,9 @@ class TelegramBotService {
     // Help command - shows available commands
     this.bot.command("help", async (ctx) => {
       try {
-        const helpMessage = `
-Available commands:
-/start - Start a conversation with me
-/help - Show this help message
-/clear - (Deprecated: Use /newsession) Clear conversation history
-/remember - Store the last message as a memory
-/memories - Show your recent memories
-/newsession - Start a new conversation session
-        `;
+        const helpMessage = `Available commands:\n${BOT_COMMANDS.map(
+          ({ command, description }) => `/${command} - ${description}`
+        ).join("\n")}`;
 
         await ctx.reply(helpMessage);
       } catch (error) {
@@ -232,6 +242,84 @@ Available commands:
       }
     });
 
+    // Link command - binds this Telegram account to a web account
+    this.bot.command("link", async (ctx) => {
+      try {
+        const identity = this.getIdentity(ctx);
+        const code = ctx.match?.trim();
+        if (!identity) {
+          await ctx.reply("Unable to identify user.");
+          return;
+        }
+        if (!code) {
+          await ctx.reply(
+            "Usage: /link <code>\nCreate a code under Settings → Linked accounts in the web app."
+          );
+          return;
+        }
+
+        const result = await telegramLinkService.redeemLinkCode(code, identity);
+        if (result.status === "rate_limited") {
+          await ctx.reply(
+            "Too many attempts. Please wait a few minutes before trying again."
+          );
+          return;
+        }
+        if (result.status === "invalid_code") {
+          await ctx.reply(
+            "That code is invalid or has expired. Create a new one in the web app."
+          );
+          return;
+        }
+
+        // Switch the conversation over to the linked account
+        ctx.session.userId = undefined;
+        await this.syncSessionUser(ctx);
+
+        let reply = "✅ Linked! This chat now continues your web account.";
+        if (result.merged) {
+          reply += `\nBrought over ${result.merged.memories} memories and ${result.merged.sessions} sessions from this chat.`;
+        }
+        await ctx.reply(reply);
+      } catch (error) {
+        logger.error("Error handling /link command:", error as Error);
+        await ctx.reply(
+          "Sorry, I encountered an error while linking your account."
+        );
+      }
+    });
+
+    // Unlink command - detaches this Telegram account from its web account
+    this.bot.command("unlink", async (ctx) => {
+      try {
+        const identity = this.getIdentity(ctx);
+        if (!identity) {
+          await ctx.reply("Unable to identify user.");
+          return;
+        }
+
+        const link = await telegramLinkService.getLink(identity.telegramUserId);
+        if (!link || link.provisional) {
+          await ctx.reply(
+            "This Telegram account isn't linked to a web account."
+          );
+          return;
+        }
+
+        await telegramLinkService.unlink(identity.telegramUserId);
+        ctx.session.userId = undefined;
+        ctx.session.activeConversation = false;
+        await ctx.reply(
+          "Unlinked. Messages here are no longer part of your web account."
+        );
+      } catch (error) {
+        logger.error("Error handling /unlink command:", error as Error);
+        await ctx.reply(
+          "Sorry, I encountered an error while unlinking your account."
+        );
+      }
+    });
+
     // Clear command - Deprecated, suggest /newsession
     this.bot.command("clear", async (ctx) => {
       await ctx.reply(
@@ -338,11 +426,15 @@ Available commands:
         }
 
         const recentMemories = memories.slice(-5).reverse(); // Show 5 most recent
+        ctx.session.memoryIds = recentMemories.map((memory) =>
+          String(memory._id)
+        );
         let response = "Your recent memories:\n";
 
         recentMemories.forEach((memory, index) => {
-          response += `\n🔹 ${memory.text}`; // Use text field instead of content
+          response += `\n${index + 1}. ${memory.text}`; // Use text field instead of content
         });
+        response += "\n\nUse /forget <n> to delete one.";
 
         await ctx.reply(response);
       } catch (error) {
@@ -355,204 +447,798 @@ Available commands:
   }
 
   /**
-   * Set up message handlers
+   * Commands mirroring the web app: sessions, memories, tasks, goals,
+   * activities, companion state and quiet hours
    */
-  private setupMessageHandlers(): void {
+  private setupFeatureCommands(): void {
     if (!this.bot) return;
-    // Handle text messages
-    this.bot.on("message:text", async (ctx) => {
+
+    // Sessions command - lists the user's sessions with buttons to switch
+    this.bot.command("sessions", async (ctx) => {
       try {
-        // --- Auto-start session and register user if needed ---
-        if (!ctx.session.activeConversation || !ctx.session.userId) {
-          // Simulate /start logic
-          const username =
-            ctx.from?.username?.toLowerCase() || `telegram_${ctx.from?.id}`;
-          const telegramUserId = ctx.from?.id?.toString();
-          const displayName =
-            ctx.from?.first_name || ctx.from?.username || "User";
-          if (!telegramUserId) {
-            await ctx.reply("Unable to identify user.");
-            return;
-          }
-          const userId = `telegram_${telegramUserId}`;
-          let user = await userService.findUserByUsername(username);
-          let generatedPassword = undefined;
-          if (!user) {
-            generatedPassword = uuidv4();
-            user = await userService.createUser({
-              username,
-              email: `telegram_${telegramUserId}@telegram.local`,
-              password: generatedPassword,
-              name: displayName,
-            });
-          }
-          const globalSessionId = sessionService.getGlobalSessionId(userId);
-          await sessionService.ensureGlobalSession(userId);
-          if (!chatSessionManager.getSession(globalSessionId)) {
-            chatSessionManager.initializeSession(globalSessionId, userId);
-          }
-          ctx.session = {
-            userId,
-            username,
-            activeConversation: true,
-            lastInteractionTime: Date.now(),
-            sessionId: globalSessionId,
-          };
-          logger.info(
-            `[AUTO-START] User ${userId} (${username}) started conversation, using global session ${globalSessionId}.`
+        const userId = await this.requireUser(ctx);
+        if (!userId) return;
+
+        const globalSessionId = sessionService.getGlobalSessionId(userId);
+        const sessions = (await sessionService.getUserSessions(userId))
+          .sort(
+            (a, b) =>
+              new Date(b.lastActivity).getTime() -
+              new Date(a.lastActivity).getTime()
+          )
+          .slice(0, MAX_LISTED_ITEMS);
+        ctx.session.sessionIds = sessions.map((session) => session._id);
+
+        const keyboard = new InlineKeyboard();
+        const lines = sessions.map((session, index) => {
+          const current =
+            session._id === ctx.session.sessionId ? " (current)" : "";
+          keyboard.text(`${index + 1}`, `switch:${session._id}`).row();
+          return `${index + 1}. ${this.describeSession(session, globalSessionId)}${current}`;
+        });
+
+        await ctx.reply(
+          `Your sessions:\n\n${lines.join("\n")}\n\nTap a number or use /switch <n>.`,
+          { reply_markup: keyboard }
+        );
+      } catch (error) {
+        logger.error("Error handling /sessions command:", error as Error);
+        await ctx.reply("Sorry, I couldn't load your sessions.");
+      }
+    });
+
+    // Switch command - continues in a session from the last /sessions list
+    this.bot.command("switch", async (ctx) => {
+      try {
+        const userId = await this.requireUser(ctx);
+        if (!userId) return;
+
+        const index = parseInt(ctx.match?.trim() || "", 10) - 1;
+        const sessionId = ctx.session.sessionIds?.[index];
+        if (!sessionId) {
+          await ctx.reply("Use /sessions first, then /switch <n>.");
+          return;
+        }
+        await this.switchSession(ctx, userId, sessionId);
+      } catch (error) {
+        logger.error("Error handling /switch command:", error as Error);
+        await ctx.reply("Sorry, I couldn't switch sessions.");
+      }
+    });
+
+    this.bot.callbackQuery(/^switch:(.+)$/, async (ctx) => {
+      try {
+        await ctx.answerCallbackQuery();
+        const userId = await this.requireUser(ctx);
+        if (!userId) return;
+        await this.switchSession(ctx, userId, ctx.match[1]);
+      } catch (error) {
+        logger.error("Error switching session from button:", error as Error);
+        await ctx.reply("Sorry, I couldn't switch sessions.");
+      }
+    });
+
+    // Forget command - deletes a memory by its /memories number or by text
+    this.bot.command("forget", async (ctx) => {
+      try {
+        const userId = await this.requireUser(ctx);
+        if (!userId) return;
+
+        const query = ctx.match?.trim() || "";
+        if (!query) {
+          await ctx.reply(
+            "Tell me what to forget: /forget <n> (from /memories) or /forget <words from the memory>."
           );
-          if (generatedPassword) {
-            await ctx.reply(
-              this.escapeMarkdownV2(
-                `✅ Your Synapse account has been created!\n\nUsername: ${username}\nPassword: ${generatedPassword}\n\nPlease save these credentials. You can use them to log in on the web app.`
-              ),
-              { parse_mode: "MarkdownV2" }
-            );
-          }
+          return;
         }
 
-        // --- Load recent conversation history for context (like chat controller/EnhancedChatService) ---
-        if (ctx.session.sessionId) {
-          await this._loadHistoryFromDB(
-            ctx.session.sessionId,
-            ctx.session.userId || "",
-            false
+        const listedId = /^\d+$/.test(query)
+          ? ctx.session.memoryIds?.[parseInt(query, 10) - 1]
+          : undefined;
+        if (listedId) {
+          await this.forgetMemory(ctx, userId, listedId);
+          return;
+        }
+
+        const needle = query.toLowerCase();
+        const matches = (await memoryService.getUserMemories(userId)).filter(
+          (memory) => memory.text.toLowerCase().includes(needle)
+        );
+        if (matches.length === 0) {
+          await ctx.reply("I couldn't find a memory like that.");
+        } else if (matches.length === 1) {
+          await this.forgetMemory(ctx, userId, String(matches[0]._id));
+        } else {
+          const keyboard = new InlineKeyboard();
+          const shown = matches.slice(0, MAX_LISTED_ITEMS);
+          shown.forEach((memory, index) =>
+            keyboard.text(`${index + 1}`, `forget:${memory._id}`).row()
+          );
+          await ctx.reply(
+            `Which one should I forget?\n\n${shown
+              .map((memory, index) => `${index + 1}. ${memory.text}`)
+              .join("\n")}`,
+            { reply_markup: keyboard }
           );
         }
+      } catch (error) {
+        logger.error("Error handling /forget command:", error as Error);
+        await ctx.reply("Sorry, I couldn't forget that memory.");
+      }
+    });
 
-        // Ensure conversation is active (set by /start)
-        if (!ctx.session.activeConversation || !ctx.session.userId) {
-          await ctx.reply("Please use /start to begin a conversation.");
+    this.bot.callbackQuery(/^forget:(.+)$/, async (ctx) => {
+      try {
+        await ctx.answerCallbackQuery();
+        const userId = await this.requireUser(ctx);
+        if (!userId) return;
+        await this.forgetMemory(ctx, userId, ctx.match[1]);
+      } catch (error) {
+        logger.error("Error forgetting memory from button:", error as Error);
+        await ctx.reply("Sorry, I couldn't forget that memory.");
+      }
+    });
+
+    // Tasks command - lists pending scheduled tasks
+    this.bot.command("tasks", async (ctx) => {
+      try {
+        const userId = await this.requireUser(ctx);
+        if (!userId) return;
+
+        const tasks = await schedulerService.getUserTasks(userId, {
+          status: "pending",
+        });
+        if (tasks.length === 0) {
+          await ctx.reply(
+            "You have no pending tasks. Add a reminder with /remind <when> <what>."
+          );
           return;
         }
 
-        const userMessageText = ctx.message.text;
-        const userId = ctx.session.userId;
-        const telegramUserId = ctx.from?.id;
-        // Use the sessionId stored in the grammy session if available
-        const currentSessionId = ctx.session.sessionId;
-        const clientMessageId = uuidv4(); // Generate ID for this specific message
+        const lines = tasks
+          .slice(0, MAX_LISTED_ITEMS)
+          .map(
+            (task, index) =>
+              `${index + 1}. ${task.title} - due ${new Date(task.dueDate).toLocaleString()}`
+          );
+        await ctx.reply(`Your pending tasks:\n\n${lines.join("\n")}`);
+      } catch (error) {
+        logger.error("Error handling /tasks command:", error as Error);
+        await ctx.reply("Sorry, I couldn't load your tasks.");
+      }
+    });
 
-        logger.info(
-          `Received message from user ${userId} in session context ${currentSessionId || "global"}`
-        );
-
-        // Track this message for the scheduler service
-        if (telegramUserId) {
-          // Update last message timestamp and track message for scheduling
-          telegramSchedulerService.trackUserMessage(userId, telegramUserId);
-
-          // Also update the session activity time
-          sessionService
-            .updateSessionActivity(
-              currentSessionId || sessionService.getGlobalSessionId(userId)
-            )
-            .then((updated) => {
-              if (updated) {
-                logger.debug(
-                  `Updated session activity time for ${currentSessionId || "global"}`
-                );
-              }
-            })
-            .catch((error) => {
-              logger.warn(
-                `Failed to update session activity time: ${error.message}`
-              );
-            });
+    // Remind command - creates a task with a reminder at the due time
+    this.bot.command("remind", async (ctx) => {
+      try {
+        const userId = await this.requireUser(ctx);
+        if (!userId) return;
+
+        const parsed = parseReminderTime(ctx.match || "");
+        if (!parsed) {
+          await ctx.reply(
+            "Usage: /remind <when> <what>\nFor example: /remind in 30m stretch, /remind 18:00 call mom, /remind tomorrow 9am pay rent"
+          );
+          return;
         }
 
-        // Indicate typing
-        await ctx.api.sendChatAction(ctx.chat.id, "typing");
+        const task = await schedulerService.createTask(userId, {
+          title: parsed.text,
+          description: "Reminder set from Telegram",
+          dueDate: parsed.dueDate.toISOString(),
+          reminderOffsets: [0],
+          metadata: { source: "telegram" },
+        });
+        await ctx.reply(
+          `Okay, I'll remind you on ${new Date(task.dueDate).toLocaleString()}: ${task.title}`
+        );
+      } catch (error) {
+        logger.error("Error handling /remind command:", error as Error);
+        await ctx.reply("Sorry, I couldn't set that reminder.");
+      }
+    });
 
-        try {
-          // Add the user message to the chat session
-          // This ensures the message appears in the history
-          const sessionIdToUse =
-            currentSessionId || sessionService.getGlobalSessionId(userId);
+    // Goals command - shows the goals the user set in the web app
+    this.bot.command("goals", async (ctx) => {
+      try {
+        const userId = await this.requireUser(ctx);
+        if (!userId) return;
 
-          chatSessionManager.addMessage(sessionIdToUse, {
-            id: clientMessageId,
-            sessionId: sessionIdToUse,
-            role: MessageRole.USER,
-            content: userMessageText,
-            status: MessageStatus.PROCESSING,
-            timestamp: new Date().toISOString(),
-          });
+        const goals = await userStateService.getUserGoals(userId);
+        if (goals.length === 0) {
+          await ctx.reply("You haven't set any goals yet.");
+          return;
+        }
 
-          // Save message to DB
-          const messageDoc = new MessageModel({
-            _id: clientMessageId,
-            userId: userId,
-            sessionId: sessionIdToUse,
-            role: MessageRole.USER,
-            content: userMessageText,
-            timestamp: new Date(),
-            isDeleted: false,
-          });
+        const lines = [...goals]
+          .sort((a, b) => b.priority - a.priority)
+          .map(
+            (goal) =>
+              `🎯 ${goal.goal}${goal.progress !== undefined ? ` (${goal.progress}%)` : ""}`
+          );
+        await ctx.reply(`Your goals:\n\n${lines.join("\n")}`);
+      } catch (error) {
+        logger.error("Error handling /goals command:", error as Error);
+        await ctx.reply("Sorry, I couldn't load your goals.");
+      }
+    });
+
+    // Activity command - starts or ends a roleplay, game or brainstorm
+    this.bot.command("activity", async (ctx) => {
+      try {
+        const userId = await this.requireUser(ctx);
+        if (!userId) return;
 
-          await messageDoc.save();
+        const sessionId =
+          ctx.session.sessionId || sessionService.getGlobalSessionId(userId);
+        const [type, ...rest] = (ctx.match || "").trim().split(/\s+/);
+        const kind = type?.toLowerCase();
 
-          // Queue the message for asynchronous processing via Kafka
-          await messageProducerService.queueChatMessage(
+        if (!kind) {
+          const activity = await activityService.getActiveActivity(
             userId,
-            userMessageText,
-            sessionIdToUse,
-            MessageSource.TELEGRAM,
-            clientMessageId,
-            undefined, // no config
-            {
-              telegramUserId: telegramUserId?.toString(),
-              chatId: ctx.chat.id,
-            }
+            sessionId
           );
+          await ctx.reply(
+            activity
+              ? `Current activity: ${activity.type} "${activity.name}". End it with /activity end.`
+              : "No activity running. Start one with /activity roleplay|game|brainstorm [topic]."
+          );
+          return;
+        }
+        if (!["roleplay", "game", "brainstorm", "end"].includes(kind)) {
+          await ctx.reply(
+            "Usage: /activity roleplay|game|brainstorm [topic], or /activity end"
+          );
+          return;
+        }
+
+        const result = await activityService.processActivityCommand(
+          userId,
+          sessionId,
+          `/${kind}${rest.length ? ` ${rest.join(" ")}` : ""}`
+        );
+        await ctx.reply(result.response || "Done.");
+      } catch (error) {
+        logger.error("Error handling /activity command:", error as Error);
+        await ctx.reply("Sorry, I couldn't change the activity.");
+      }
+    });
 
-          // Update last interaction time
-          ctx.session.lastInteractionTime = Date.now();
+    // Mood command - shows how the companion is feeling and what it's focused on
+    this.bot.command("mood", async (ctx) => {
+      try {
+        const userId = await this.requireUser(ctx);
+        if (!userId) return;
+
+        const state =
+          await companionStateService.getOrCreateCompanionState(userId);
+        const { emotion, intensity, reason } = state.currentEmotion;
+        const focus = [...state.focusAreas]
+          .sort((a, b) => b.importance - a.importance)
+          .slice(0, 3)
+          .map((area) => area.topic);
+        const lastThought =
+          state.recentThoughts[state.recentThoughts.length - 1];
+
+        const lines = [
+          `I'm feeling ${emotion} (${intensity}/10)${reason ? ` because ${reason}` : ""}.`,
+        ];
+        if (focus.length > 0) {
+          lines.push(`On my mind: ${focus.join(", ")}.`);
+        }
+        if (lastThought) {
+          lines.push(`Latest thought: ${lastThought.thought}`);
+        }
+        await ctx.reply(lines.join("\n\n"));
+      } catch (error) {
+        logger.error("Error handling /mood command:", error as Error);
+        await ctx.reply("Sorry, I couldn't check in on my mood.");
+      }
+    });
 
-          // No need to await response - the Kafka consumer will handle it asynchronously
-          // Just acknowledge we received the message but won't wait for the response
-          logger.info(
-            `Message from Telegram user ${telegramUserId} queued for processing`
+    // Quiet command - pauses proactive messages for a number of hours
+    this.bot.command("quiet", async (ctx) => {
+      try {
+        const identity = this.getIdentity(ctx);
+        const userId = await this.requireUser(ctx);
+        if (!identity || !userId) return;
+
+        const arg = ctx.match?.trim().toLowerCase() || "";
+        if (!arg) {
+          const link = await telegramLinkService.getLink(
+            identity.telegramUserId
           );
-        } catch (error) {
-          logger.error(
-            `Error queueing message via Kafka for user ${userId}, session ${currentSessionId || "global"}:`,
-            error
+          await ctx.reply(
+            link?.quietUntil && link.quietUntil > new Date()
+              ? `I'm keeping quiet until ${link.quietUntil.toLocaleString()}. Use /quiet off to hear from me again.`
+              : "I may message you on my own. Use /quiet <hours> to pause that."
           );
+          return;
+        }
+
+        const hours = arg === "off" ? 0 : Number(arg);
+        if (!Number.isFinite(hours) || hours < 0 || hours > MAX_QUIET_HOURS) {
           await ctx.reply(
-            "Sorry, I encountered an error while processing your message. Please try again later."
+            `Usage: /quiet <hours> (up to ${MAX_QUIET_HOURS}), or /quiet off`
           );
+          return;
         }
+
+        const until = await telegramSchedulerService.setQuietHours(
+          identity.telegramUserId,
+          hours
+        );
+        await ctx.reply(
+          until
+            ? `Okay, I won't message you on my own until ${until.toLocaleString()}.`
+            : "Okay, I may message you on my own again."
+        );
       } catch (error) {
-        // Catch errors in the outer try block (e.g., getting userId)
-        logger.error("Critical error handling text message:", error);
-        try {
+        logger.error("Error handling /quiet command:", error as Error);
+        await ctx.reply("Sorry, I couldn't change your quiet hours.");
+      }
+    });
+  }
+
+  /**
+   * The user this update acts as, replying when it can't be identified
+   */
+  private async requireUser(ctx: BotContext): Promise<string | null> {
+    const user = await this.syncSessionUser(ctx);
+    if (!user) {
+      await ctx.reply("Unable to identify user.");
+      return null;
+    }
+    return user.userId;
+  }
+
+  private describeSession(session: ISession, globalSessionId: string): string {
+    if (session._id === globalSessionId) {
+      return "Main conversation";
+    }
+    return (
+      session.metadata?.title ||
+      `Session from ${new Date(session.lastActivity).toLocaleDateString()}`
+    );
+  }
+
+  private async switchSession(
+    ctx: BotContext,
+    userId: string,
+    sessionId: string
+  ): Promise<void> {
+    const session = await sessionService.getSession(sessionId);
+    if (!session || session.userId !== userId) {
+      await ctx.reply("That session no longer exists.");
+      return;
+    }
+
+    ctx.session.sessionId = sessionId;
+    ctx.session.lastInteractionTime = Date.now();
+    await this._loadHistoryFromDB(sessionId, userId, false);
+    await ctx.reply(
+      `Switched to: ${this.describeSession(session, sessionService.getGlobalSessionId(userId))}`
+    );
+  }
+
+  private async forgetMemory(
+    ctx: BotContext,
+    userId: string,
+    memoryId: string
+  ): Promise<void> {
+    const memory = await memoryService.getMemory(memoryId);
+    if (!memory || memory.userId !== userId) {
+      await ctx.reply("I couldn't find that memory.");
+      return;
+    }
+
+    await memoryService.deleteMemory(memoryId);
+    ctx.session.memoryIds = ctx.session.memoryIds?.filter(
+      (id) => id !== memoryId
+    );
+    await ctx.reply(`Forgotten: "${memory.text}"`);
+  }
+
+  /**
+   * Set up message handlers
+   */
+  private setupMessageHandlers(): void {
+    if (!this.bot) return;
+    // Handle text messages
+    this.bot.on("message:text", async (ctx) => {
+      await this.handleIncomingMessage(ctx, async () => ({
+        text: ctx.message.text,
+      }));
+    });
+
+    // Voice notes and audio files are transcribed and handled as text
+    this.bot.on(["message:voice", "message:audio"], async (ctx) => {
+      await this.handleIncomingMessage(ctx, async (userId) => {
+        const media = ctx.message.voice || ctx.message.audio!;
+        if (!mediaService.isSpeechToTextEnabled()) {
           await ctx.reply(
-            "Sorry, a critical error occurred. Please try using /start again."
+            "Sorry, I can't listen to voice messages yet. Please send text instead."
           );
-        } catch (replyError) {
-          logger.error("Failed to send error reply to user:", replyError);
+          return null;
         }
-      }
+        if (await this.replyIfOverQuota(ctx, userId)) {
+          return null;
+        }
+
+        const mimeType = media.mime_type || "audio/ogg";
+        const transcript = await mediaService.transcribeAudio(
+          userId,
+          await this.downloadFile(ctx),
+          mimeType
+        );
+        if (!transcript) {
+          await ctx.reply("Sorry, I couldn't make out anything in that.");
+          return null;
+        }
+
+        return {
+          text: transcript,
+          attachment: {
+            type: ctx.message.voice ? "voice" : "audio",
+            source: "telegram",
+            fileId: media.file_id,
+            mimeType,
+            fileSize: media.file_size,
+            durationSeconds: media.duration,
+            transcript,
+          },
+        };
+      });
+    });
+
+    // Photos are captioned by the vision model
+    this.bot.on("message:photo", async (ctx) => {
+      await this.handleIncomingMessage(ctx, async (userId) => {
+        // Telegram sends several sizes; the last one is the largest
+        const photo = ctx.message.photo[ctx.message.photo.length - 1];
+        const caption = ctx.message.caption;
+        if (await this.replyIfOverQuota(ctx, userId)) {
+          return null;
+        }
+        const description = await mediaService.describeImage(
+          userId,
+          await this.downloadFile(ctx),
+          "image/jpeg"
+        );
+
+        return {
+          text: [caption, `[The user sent a photo: ${description}]`]
+            .filter(Boolean)
+            .join("\n\n"),
+          attachment: {
+            type: "photo",
+            source: "telegram",
+            fileId: photo.file_id,
+            mimeType: "image/jpeg",
+            fileSize: photo.file_size,
+            caption,
+            description,
+          },
+        };
+      });
+    });
+
+    // Text and PDF documents are stored for retrieval
+    this.bot.on("message:document", async (ctx) => {
+      await this.handleIncomingMessage(ctx, async (userId, messageId) => {
+        const document = ctx.message.document;
+        const fileName = document.file_name || "document";
+        const caption = ctx.message.caption;
+        if (!isSupportedDocument(document.mime_type)) {
+          await ctx.reply(
+            "Sorry, I can only read text and PDF documents for now."
+          );
+          return null;
+        }
+        if ((document.file_size || 0) > MAX_DOWNLOAD_BYTES) {
+          await ctx.reply("Sorry, that file is too large for me to read.");
+          return null;
+        }
+        if (await this.replyIfOverQuota(ctx, userId)) {
+          return null;
+        }
+
+        const chunks = await mediaService.ingestDocument(
+          userId,
+          await this.downloadFile(ctx),
+          {
+            fileName,
+            mimeType: document.mime_type!,
+            sourceId: messageId,
+            metadata: { source: "telegram" },
+          }
+        );
+
+        return {
+          text: [
+            caption,
+            `[The user sent the document "${fileName}". Its contents are saved for reference.]`,
+          ]
+            .filter(Boolean)
+            .join("\n\n"),
+          attachment: {
+            type: "document",
+            source: "telegram",
+            fileId: document.file_id,
+            fileName,
+            mimeType: document.mime_type,
+            fileSize: document.file_size,
+            caption,
+            chunks,
+          },
+        };
+      });
     });
   }
 
   /**
-   * Link a telegram user to a system user
+   * Attachments go through paid model calls before the message is queued,
+   * so check the quota first. Replies and returns true when it's used up.
    */
-  public linkUser(
-    telegramUserId: number,
-    systemUserId: string,
-    username: string
-  ): void {
-    // This would be enhanced with a proper database implementation
-    // For now, this is a simple in-memory implementation
-    this.bot?.on("message", (ctx) => {
-      if (ctx.from?.id === telegramUserId) {
-        ctx.session.userId = systemUserId;
-        ctx.session.username = username;
+  private async replyIfOverQuota(
+    ctx: BotContext,
+    userId: string
+  ): Promise<boolean> {
+    const quota = await usageService.getExceededQuota(userId);
+    if (!quota) {
+      return false;
+    }
+    await ctx.reply(quotaExceededMessage(quota));
+    return true;
+  }
+
+  /**
+   * Queue a message from Telegram for the companion. `prepare` turns the
+   * update into the text to send (transcribing or describing attachments),
+   * or resolves to null after replying itself when there is nothing to send.
+   */
+  private async handleIncomingMessage(
+    ctx: BotContext,
+    prepare: (
+      userId: string,
+      messageId: string
+    ) => Promise<IncomingMessage | null>
+  ): Promise<void> {
+    if (!ctx.chat) return;
+    try {
+      // --- Follow the account this Telegram user is linked to ---
+      // (it may have been linked or unlinked from the web app meanwhile)
+      if (!(await this.syncSessionUser(ctx))) {
+        await ctx.reply("Unable to identify user.");
+        return;
       }
-    });
+
+      // --- Load recent conversation history for context (like chat controller/EnhancedChatService) ---
+      if (ctx.session.sessionId) {
+        await this._loadHistoryFromDB(
+          ctx.session.sessionId,
+          ctx.session.userId || "",
+          false
+        );
+      }
+
+      // Ensure conversation is active (set by /start)
+      if (!ctx.session.activeConversation || !ctx.session.userId) {
+        await ctx.reply("Please use /start to begin a conversation.");
+        return;
+      }
+
+      const userId = ctx.session.userId;
+      const telegramUserId = ctx.from?.id;
+      // Use the sessionId stored in the grammy session if available
+      const currentSessionId = ctx.session.sessionId;
+      const clientMessageId = uuidv4(); // Generate ID for this specific message
+
+      logger.info(
+        `Received message from user ${userId} in session context ${currentSessionId || "global"}`
+      );
+
+      // Track this message for the scheduler service
+      if (telegramUserId) {
+        // Update last message timestamp and track message for scheduling
+        telegramSchedulerService.trackUserMessage(
+          userId,
+          ctx.chat.id.toString()
+        );
+
+        // Also update the session activity time
+        sessionService
+          .updateSessionActivity(
+            currentSessionId || sessionService.getGlobalSessionId(userId)
+          )
+          .then((updated) => {
+            if (updated) {
+              logger.debug(
+                `Updated session activity time for ${currentSessionId || "global"}`
+              );
+            }
+          })
+          .catch((error) => {
+            logger.warn(
+              `Failed to update session activity time: ${error.message}`
+            );
+          });
+      }
+
+      // Indicate typing
+      await ctx.api.sendChatAction(ctx.chat.id, "typing");
+
+      let incoming: IncomingMessage | null;
+      try {
+        incoming = await prepare(userId, clientMessageId);
+      } catch (error) {
+        logger.error(
+          `Error reading attachment from user ${userId}:`,
+          error as Error
+        );
+        await ctx.reply(
+          "Sorry, I couldn't process that attachment. Please try again later."
+        );
+        return;
+      }
+      if (!incoming) return;
+
+      const userMessageText = incoming.text;
+      const metadata = incoming.attachment
+        ? { source: "telegram", attachments: [incoming.attachment] }
+        : { source: "telegram" };
+
+      try {
+        // Add the user message to the chat session
+        // This ensures the message appears in the history
+        const sessionIdToUse =
+          currentSessionId || sessionService.getGlobalSessionId(userId);
+
+        chatSessionManager.addMessage(sessionIdToUse, {
+          id: clientMessageId,
+          sessionId: sessionIdToUse,
+          role: MessageRole.USER,
+          content: userMessageText,
+          status: MessageStatus.PROCESSING,
+          timestamp: new Date().toISOString(),
+          metadata,
+        });
+
+        // Save message to DB
+        const messageDoc = new MessageModel({
+          _id: clientMessageId,
+          userId: userId,
+          sessionId: sessionIdToUse,
+          role: MessageRole.USER,
+          content: userMessageText,
+          timestamp: new Date(),
+          metadata,
+          isDeleted: false,
+        });
+
+        await messageDoc.save();
+
+        // Queue the message for asynchronous processing via Kafka
+        await messageProducerService.queueChatMessage(
+          userId,
+          userMessageText,
+          sessionIdToUse,
+          MessageSource.TELEGRAM,
+          clientMessageId,
+          undefined, // no config
+          {
+            telegramUserId: telegramUserId?.toString(),
+            chatId: ctx.chat.id,
+            attachments: incoming.attachment ? [incoming.attachment] : [],
+          }
+        );
+
+        // Update last interaction time
+        ctx.session.lastInteractionTime = Date.now();
+
+        // No need to await response - the Kafka consumer will handle it asynchronously
+        // Just acknowledge we received the message but won't wait for the response
+        logger.info(
+          `Message from Telegram user ${telegramUserId} queued for processing`
+        );
+      } catch (error) {
+        logger.error(
+          `Error queueing message via Kafka for user ${userId}, session ${currentSessionId || "global"}:`,
+          error as Error
+        );
+        await ctx.reply(
+          "Sorry, I encountered an error while processing your message. Please try again later."
+        );
+      }
+    } catch (error) {
+      // Catch errors in the outer try block (e.g., getting userId)
+      logger.error("Critical error handling message:", error as Error);
+      try {
+        await ctx.reply(
+          "Sorry, a critical error occurred. Please try using /start again."
+        );
+      } catch (replyError) {
+        logger.error(
+          "Failed to send error reply to user:",
+          replyError as Error
+        );
+      }
+    }
+  }
+
+  /**
+   * Download the file attached to the current message
+   */
+  private async downloadFile(ctx: BotContext): Promise<Buffer> {
+    const file = await ctx.getFile();
+    if (!file.file_path) {
+      throw new Error(`Telegram returned no path for file ${file.file_id}`);
+    }
+    const response = await axios.get(
+      `https://api.telegram.org/file/bot${this.bot!.token}/${file.file_path}`,
+      { responseType: "arraybuffer", maxContentLength: MAX_DOWNLOAD_BYTES }
+    );
+    return Buffer.from(response.data);
+  }
+
+  /**
+   * Identify the Telegram account behind an update
+   */
+  private getIdentity(ctx: BotContext): TelegramIdentity | null {
+    const telegramUserId = ctx.from?.id?.toString();
+    if (!telegramUserId || !ctx.chat) {
+      return null;
+    }
+    return {
+      telegramUserId,
+      chatId: ctx.chat.id.toString(),
+      telegramUsername: ctx.from?.username?.toLowerCase(),
+      displayName: ctx.from?.first_name || ctx.from?.username,
+    };
+  }
+
+  /**
+   * Point the bot session at the user this Telegram account is linked to,
+   * starting a conversation in that user's global session when it changes.
+   */
+  private async syncSessionUser(
+    ctx: BotContext
+  ): Promise<{ userId: string; provisional: boolean } | null> {
+    const identity = this.getIdentity(ctx);
+    if (!identity) {
+      return null;
+    }
+
+    const user = await telegramLinkService.resolveUser(identity);
+    if (ctx.session.userId !== user.userId || !ctx.session.activeConversation) {
+      const globalSessionId = sessionService.getGlobalSessionId(user.userId);
+      await sessionService.ensureGlobalSession(user.userId);
+      if (!chatSessionManager.getSession(globalSessionId)) {
+        chatSessionManager.initializeSession(globalSessionId, user.userId);
+      }
+
+      ctx.session = {
+        userId: user.userId,
+        username: identity.telegramUsername || user.userId,
+        activeConversation: true,
+        lastInteractionTime: Date.now(),
+        sessionId: globalSessionId,
+      };
+      logger.info(
+        `Telegram user ${identity.telegramUserId} is chatting as ${user.userId}${
+          user.provisional ? " (unlinked)" : ""
+        }, using global session ${globalSessionId}.`
+      );
+    }
+    return user;
+  }
+
+  /**
+   * Chat a user's Telegram messages go to, or null if they never used the bot
+   */
+  public getLinkedChatId(userId: string): Promise<string | null> {
+    return telegramLinkService.getChatId(userId);
   }
 
   /**
@@ -581,7 +1267,8 @@ Available commands:
    */
   public async sendMessageToChatId(
     chatId: number | string,
-    message: string
+    message: string,
+    parseMode?: "HTML"
   ): Promise<boolean> {
     if (!this.bot || !this.isRunning) {
       logger.error("Cannot send message: Bot not initialized or not running");
@@ -589,7 +1276,11 @@ Available commands:
     }
 
     try {
-      await this.bot.api.sendMessage(chatId, message);
+      await this.bot.api.sendMessage(
+        chatId,
+        message,
+        parseMode ? { parse_mode: parseMode } : undefined
+      );
       logger.info(`Message sent to chat ID ${chatId}`);
       return true;
     } catch (error) {
@@ -598,6 +1289,25 @@ Available commands:
     }
   }
 
+  /**
+   * Send an assistant reply to a chat. A game board in the reply's metadata
+   * follows the text as a monospace block.
+   */
+  public async sendAssistantReply(
+    chatId: number | string,
+    message: ChatMessageModel
+  ): Promise<boolean> {
+    const game = message.metadata?.game as IGameSnapshot | undefined;
+    if (!game) {
+      return this.sendMessageToChatId(chatId, message.content);
+    }
+    return this.sendMessageToChatId(
+      chatId,
+      `${escapeHtml(message.content)}\n\n<pre>${escapeHtml(game.text)}</pre>`,
+      "HTML"
+    );
+  }
+
   // Helper to save message (async, non-blocking) - Similar to EnhancedChatService
   private _saveMessageToDB(message: ChatMessageModel, userId: string) {
     if (!message || !message.sessionId || !message.id) {
@@ -632,12 +1342,6 @@ Available commands:
       });
   }
 
-  // Helper to escape MarkdownV2 special characters
-  private escapeMarkdownV2(text: string): string {
-    // See https://core.telegram.org/bots/api#markdownv2-style for full list
-    return text.replace(/[!_\-*\[\]()~`>#+=|{}.]/g, (match) => `\\${match}`);
-  }
-
   private async _loadHistoryFromDB(
     sessionId: string,
     userId: string,
@@ -0,0 +1,353 @@
+import { createHash, randomInt } from "crypto";
+import TelegramLinkModel, {
+  ITelegramLink,
+} from "../../models/telegram-link.model";
+import TelegramLinkCodeModel from "../../models/telegram-link-code.model";
+import Memory from "../../models/memory.model";
+import VectorDocument from "../../models/vector-document.model";
+import MessageModel from "../../models/message.model";
+import SessionModel from "../../models/session.model";
+import CompanionState, { IGoal } from "../../models/companion-state.model";
+import { sessionService } from "../session.service";
+import { chatSessionManager } from "../chat-session.service";
+import { loggerFactory } from "../../utils/logger.service";
+
+const logger = loggerFactory.getLogger("TelegramLinkService");
+
+// Prefix of the provisional user IDs given to Telegram-only users
+export const TELEGRAM_USER_PREFIX = "telegram_";
+
+const LINK_CODE_TTL_MS = parseInt(
+  process.env.TELEGRAM_LINK_CODE_TTL_MS || String(10 * 60 * 1000),
+  10
+);
+// No 0/O or 1/I/L, so codes survive being read off a screen
+const CODE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+const CODE_LENGTH = 8;
+const MAX_FAILED_ATTEMPTS = 5;
+const FAILED_ATTEMPT_WINDOW_MS = 15 * 60 * 1000;
+const MAX_MERGED_THOUGHTS = 50;
+
+/**
+ * Who is talking to the bot
+ */
+export interface TelegramIdentity {
+  telegramUserId: string;
+  chatId: string;
+  telegramUsername?: string;
+  displayName?: string;
+}
+
+export interface MergeSummary {
+  memories: number;
+  messages: number;
+  sessions: number;
+  companionState: boolean;
+}
+
+export type LinkResult =
+  | { status: "linked"; userId: string; merged: MergeSummary | null }
+  | { status: "invalid_code" }
+  | { status: "rate_limited" };
+
+export function provisionalUserId(telegramUserId: string): string {
+  return `${TELEGRAM_USER_PREFIX}${telegramUserId}`;
+}
+
+export function generateLinkCode(): string {
+  let code = "";
+  for (let i = 0; i < CODE_LENGTH; i++) {
+    code += CODE_ALPHABET[randomInt(CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+/**
+ * Hash a code as typed by the user: case, spaces and dashes don't matter
+ */
+export function hashLinkCode(code: string): string {
+  const normalized = code.toUpperCase().replace(/[\s-]/g, "");
+  return createHash("sha256").update(normalized).digest("hex");
+}
+
+/**
+ * Binds Telegram accounts to users via one-time codes issued by the web
+ * app, and resolves which user (and chat) a Telegram account stands for.
+ */
+class TelegramLinkService {
+  // Recent failed /link attempts per Telegram user, to slow down guessing
+  private failedAttempts: Map<string, number[]> = new Map();
+
+  /**
+   * Issue a code for the user to send to the bot as `/link <code>`.
+   * Any earlier unused code for the user stops working.
+   */
+  async createLinkCode(
+    userId: string,
+    options: { mergeHistory?: boolean } = {}
+  ): Promise<{ code: string; expiresAt: Date }> {
+    await TelegramLinkCodeModel.deleteMany({ userId }).exec();
+
+    const code = generateLinkCode();
+    const expiresAt = new Date(Date.now() + LINK_CODE_TTL_MS);
+    await TelegramLinkCodeModel.create({
+      _id: hashLinkCode(code),
+      userId,
+      mergeHistory: !!options.mergeHistory,
+      expiresAt,
+    });
+
+    logger.info(`Issued Telegram link code for user ${userId}`);
+    return { code, expiresAt };
+  }
+
+  /**
+   * Redeem a code sent to the bot, binding the Telegram account to the
+   * code's user and, if requested, moving the provisional user's data over.
+   */
+  async redeemLinkCode(
+    code: string,
+    identity: TelegramIdentity
+  ): Promise<LinkResult> {
+    if (this.isRateLimited(identity.telegramUserId)) {
+      return { status: "rate_limited" };
+    }
+
+    const entry = await TelegramLinkCodeModel.findOneAndDelete({
+      _id: hashLinkCode(code),
+      expiresAt: { $gt: new Date() },
+    }).exec();
+    if (!entry) {
+      this.recordFailedAttempt(identity.telegramUserId);
+      return { status: "invalid_code" };
+    }
+    this.failedAttempts.delete(identity.telegramUserId);
+
+    await TelegramLinkModel.findByIdAndUpdate(
+      identity.telegramUserId,
+      {
+        $set: {
+          userId: entry.userId,
+          chatId: identity.chatId,
+          telegramUsername: identity.telegramUsername,
+          displayName: identity.displayName,
+          provisional: false,
+          linkedAt: new Date(),
+        },
+      },
+      { upsert: true }
+    ).exec();
+    logger.info(
+      `Linked Telegram user ${identity.telegramUserId} to user ${entry.userId}`
+    );
+
+    const fromUserId = provisionalUserId(identity.telegramUserId);
+    const merged =
+      entry.mergeHistory && fromUserId !== entry.userId
+        ? await this.mergeUserData(fromUserId, entry.userId)
+        : null;
+
+    return { status: "linked", userId: entry.userId, merged };
+  }
+
+  /**
+   * User a Telegram account acts as. Unlinked accounts get a provisional
+   * link to their telegram_<id> user so they can chat right away.
+   */
+  async resolveUser(
+    identity: TelegramIdentity
+  ): Promise<{ userId: string; provisional: boolean }> {
+    const link = await TelegramLinkModel.findById(
+      identity.telegramUserId
+    ).exec();
+    if (link) {
+      if (link.chatId !== identity.chatId) {
+        link.chatId = identity.chatId;
+        await link.save();
+      }
+      return { userId: link.userId, provisional: link.provisional };
+    }
+
+    const userId = provisionalUserId(identity.telegramUserId);
+    await TelegramLinkModel.create({
+      _id: identity.telegramUserId,
+      userId,
+      chatId: identity.chatId,
+      telegramUsername: identity.telegramUsername,
+      displayName: identity.displayName,
+      provisional: true,
+    });
+    logger.info(
+      `Created provisional user ${userId} for Telegram user ${identity.telegramUserId}`
+    );
+    return { userId, provisional: true };
+  }
+
+  async getLink(telegramUserId: string): Promise<ITelegramLink | null> {
+    return TelegramLinkModel.findById(telegramUserId).exec();
+  }
+
+  /**
+   * Chat to deliver a user's Telegram messages to (most recent link wins)
+   */
+  async getChatId(userId: string): Promise<string | null> {
+    const link = await TelegramLinkModel.findOne({ userId })
+      .sort({ linkedAt: -1 })
+      .lean()
+      .exec();
+    return link?.chatId || null;
+  }
+
+  async listLinks(userId: string): Promise<ITelegramLink[]> {
+    return TelegramLinkModel.find({ userId }).sort({ linkedAt: -1 }).exec();
+  }
+
+  /**
+   * Every linked Telegram account, provisional ones included
+   */
+  async listAllLinks(): Promise<ITelegramLink[]> {
+    return TelegramLinkModel.find().sort({ linkedAt: -1 }).exec();
+  }
+
+  /**
+   * Pause proactive messages to a Telegram account until the given time
+   * (null resumes them). Resolves to false when the account is not linked.
+   */
+  async setQuietUntil(
+    telegramUserId: string,
+    until: Date | null
+  ): Promise<boolean> {
+    const result = await TelegramLinkModel.updateOne(
+      { _id: telegramUserId },
+      until ? { $set: { quietUntil: until } } : { $unset: { quietUntil: 1 } }
+    ).exec();
+    return result.matchedCount > 0;
+  }
+
+  /**
+   * Remove a link. When userId is given the link must belong to that user.
+   */
+  async unlink(telegramUserId: string, userId?: string): Promise<boolean> {
+    const result = await TelegramLinkModel.deleteOne({
+      _id: telegramUserId,
+      ...(userId ? { userId } : {}),
+    }).exec();
+    if (result.deletedCount) {
+      logger.info(`Unlinked Telegram user ${telegramUserId}`);
+    }
+    return result.deletedCount > 0;
+  }
+
+  /**
+   * Move memories, sessions (with their messages) and companion state from
+   * one user to another. The global session's messages join the target's
+   * global session; companion thoughts, focus areas and goals are combined.
+   */
+  async mergeUserData(
+    fromUserId: string,
+    toUserId: string
+  ): Promise<MergeSummary> {
+    logger.info(`Merging data of user ${fromUserId} into ${toUserId}`);
+
+    const fromGlobalSessionId = sessionService.getGlobalSessionId(fromUserId);
+    const toGlobalSessionId = sessionService.getGlobalSessionId(toUserId);
+    await sessionService.ensureGlobalSession(toUserId);
+
+    const memories = await Memory.updateMany(
+      { userId: fromUserId },
+      { $set: { userId: toUserId } }
+    ).exec();
+    await VectorDocument.updateMany(
+      { userId: fromUserId },
+      { $set: { userId: toUserId } }
+    ).exec();
+
+    await MessageModel.updateMany(
+      { sessionId: fromGlobalSessionId },
+      { $set: { sessionId: toGlobalSessionId } }
+    ).exec();
+    const messages = await MessageModel.updateMany(
+      { userId: fromUserId },
+      { $set: { userId: toUserId } }
+    ).exec();
+
+    await SessionModel.deleteOne({ _id: fromGlobalSessionId }).exec();
+    const sessions = await SessionModel.updateMany(
+      { userId: fromUserId },
+      { $set: { userId: toUserId } }
+    ).exec();
+
+    const companionState = await this.mergeCompanionState(fromUserId, toUserId);
+
+    // Cached histories are stale now; they reload from the DB on next use
+    chatSessionManager.deleteSession(fromGlobalSessionId);
+    chatSessionManager.clearSessionHistory(toGlobalSessionId);
+
+    const summary: MergeSummary = {
+      memories: memories.modifiedCount,
+      messages: messages.modifiedCount,
+      sessions: sessions.modifiedCount,
+      companionState,
+    };
+    logger.info(`Merged ${fromUserId} into ${toUserId}`, summary);
+    return summary;
+  }
+
+  private async mergeCompanionState(
+    fromUserId: string,
+    toUserId: string
+  ): Promise<boolean> {
+    const source = await CompanionState.findOne({ userId: fromUserId }).exec();
+    if (!source) {
+      return false;
+    }
+
+    const target = await CompanionState.findOne({ userId: toUserId }).exec();
+    if (!target) {
+      source.userId = toUserId;
+      await source.save();
+      return true;
+    }
+
+    const mergeGoals = (a: IGoal[], b: IGoal[]) => [
+      ...a,
+      ...b.filter((goal) => !a.some((existing) => existing.goal === goal.goal)),
+    ];
+
+    target.recentThoughts = [...target.recentThoughts, ...source.recentThoughts]
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+      .slice(-MAX_MERGED_THOUGHTS);
+    target.focusAreas = [
+      ...target.focusAreas,
+      ...source.focusAreas.filter(
+        (area) =>
+          !target.focusAreas.some((existing) => existing.topic === area.topic)
+      ),
+    ];
+    target.currentGoals = mergeGoals(target.currentGoals, source.currentGoals);
+    target.userDefinedGoals = mergeGoals(
+      target.userDefinedGoals,
+      source.userDefinedGoals
+    );
+    await target.save();
+    await source.deleteOne();
+    return true;
+  }
+
+  private isRateLimited(telegramUserId: string): boolean {
+    const cutoff = Date.now() - FAILED_ATTEMPT_WINDOW_MS;
+    const recent = (this.failedAttempts.get(telegramUserId) || []).filter(
+      (timestamp) => timestamp > cutoff
+    );
+    this.failedAttempts.set(telegramUserId, recent);
+    return recent.length >= MAX_FAILED_ATTEMPTS;
+  }
+
+  private recordFailedAttempt(telegramUserId: string): void {
+    const attempts = this.failedAttempts.get(telegramUserId) || [];
+    attempts.push(Date.now());
+    this.failedAttempts.set(telegramUserId, attempts);
+  }
+}
+
+export const telegramLinkService = new TelegramLinkService();
@@ -1,6 +1,7 @@
 import { memoryService } from "../memory.service";
 import { sessionService } from "../session.service";
 import { telegramBotService } from "./telegram-bot.service";
+import { telegramLinkService } from "./telegram-link.service";
 import { enhancedChatService } from "../enhanced-chat.service";
 import { loggerFactory } from "../../utils/logger.service";
 import { serendipityService } from "../serendipity.service";
@@ -18,7 +19,7 @@ const logger = loggerFactory.getLogger("TelegramSchedulerService");
 interface UserMessageTracking {
   lastMessageTimestamp: Date;
   lastScheduledMessageTimestamp: Date | null;
-  telegramUserId: number;
+  chatId: string;
 }
 
 class TelegramSchedulerService {
@@ -72,18 +73,36 @@ class TelegramSchedulerService {
   /**
    * Update user's message tracking
    */
-  public trackUserMessage(userId: string, telegramUserId: number): void {
+  public trackUserMessage(userId: string, chatId: string): void {
     const userTracking = this.userMessagingStatus.get(userId) || {
       lastMessageTimestamp: new Date(),
       lastScheduledMessageTimestamp: null,
-      telegramUserId,
+      chatId,
     };
 
     userTracking.lastMessageTimestamp = new Date();
+    userTracking.chatId = chatId;
     this.userMessagingStatus.set(userId, userTracking);
     logger.debug(`Updated message tracking for user ${userId}`);
   }
 
+  /**
+   * Pause scheduled messages to a Telegram account for the given number of
+   * hours (0 resumes them). Resolves to the end of the pause, or null.
+   */
+  public async setQuietHours(
+    telegramUserId: string,
+    hours: number
+  ): Promise<Date | null> {
+    const until =
+      hours > 0 ? new Date(Date.now() + hours * 60 * 60 * 1000) : null;
+    await telegramLinkService.setQuietUntil(telegramUserId, until);
+    logger.info(
+      `Scheduled messages to Telegram user ${telegramUserId} ${until ? `paused until ${until.toISOString()}` : "resumed"}`
+    );
+    return until;
+  }
+
   /**
    * Check all telegram users and send messages if appropriate
    */
@@ -91,12 +110,11 @@ class TelegramSchedulerService {
     try {
       logger.info("Running scheduled message check for Telegram users");
 
-      // Fetch all sessions with userId starting with telegram_
       const telegramSessions = await this.fetchTelegramSessions();
       logger.info(`Found ${telegramSessions.length} Telegram sessions`);
 
-      for (const session of telegramSessions) {
-        await this.processUserForScheduledMessage(session);
+      for (const { session, chatId } of telegramSessions) {
+        await this.processUserForScheduledMessage(session, chatId);
       }
     } catch (error) {
       logger.error("Error in scheduled message task:", error);
@@ -108,17 +126,9 @@ class TelegramSchedulerService {
    */
   public async sendScheduledMessageToUser(userId: string): Promise<boolean> {
     try {
-      if (!userId.startsWith("telegram_")) {
-        logger.warn(
-          `User ID ${userId} is not a Telegram user ID. Must start with 'telegram_'`
-        );
-        return false;
-      }
-
-      // Extract the Telegram user ID from the format telegram_123456789
-      const telegramUserId = parseInt(userId.substring(9), 10);
-      if (isNaN(telegramUserId)) {
-        logger.warn(`Invalid Telegram user ID format: ${userId}`);
+      const chatId = await telegramLinkService.getChatId(userId);
+      if (!chatId) {
+        logger.warn(`User ${userId} has no linked Telegram account`);
         return false;
       }
 
@@ -132,7 +142,11 @@ class TelegramSchedulerService {
       }
 
       // Process the user for scheduled message
-      const result = await this.processUserForScheduledMessage(session, true);
+      const result = await this.processUserForScheduledMessage(
+        session,
+        chatId,
+        true
+      );
       return result;
     } catch (error) {
       logger.error(`Error sending scheduled message to user ${userId}:`, error);
@@ -145,20 +159,10 @@ class TelegramSchedulerService {
    */
   private async processUserForScheduledMessage(
     session: Session,
+    chatId: string,
     forceSend: boolean = false
   ): Promise<boolean> {
     const userId = session.userId;
-    if (!userId.startsWith("telegram_")) {
-      logger.debug(`Skipping non-Telegram user ${userId}`);
-      return false;
-    }
-
-    // Extract the Telegram user ID from the format telegram_123456789
-    const telegramUserId = parseInt(userId.substring(9), 10);
-    if (isNaN(telegramUserId)) {
-      logger.warn(`Invalid Telegram user ID format: ${userId}`);
-      return false;
-    }
 
     // Get or initialize user tracking
     let userTracking = this.userMessagingStatus.get(userId);
@@ -166,13 +170,13 @@ class TelegramSchedulerService {
       userTracking = {
         lastMessageTimestamp: session.lastActivity || new Date(),
         lastScheduledMessageTimestamp: null,
-        telegramUserId,
+        chatId,
       };
       this.userMessagingStatus.set(userId, userTracking);
     }
 
-    // Update the Telegram user ID in case it wasn't set before
-    userTracking.telegramUserId = telegramUserId;
+    // Update the chat in case the account was relinked
+    userTracking.chatId = chatId;
 
     // Check if enough time has passed since the last message
     const now = new Date();
@@ -245,8 +249,8 @@ Keep it under 100 words. Be conversational and ask an open-ended question.
       );
 
       // Send the message to the user via Telegram
-      const success = await telegramBotService.sendMessage(
-        telegramUserId,
+      const success = await telegramBotService.sendMessageToChatId(
+        chatId,
         aiResponse.content
       );
 
@@ -256,12 +260,12 @@ Keep it under 100 words. Be conversational and ask an open-ended question.
         this.userMessagingStatus.set(userId, userTracking);
 
         logger.info(
-          `Successfully sent scheduled message to Telegram user ${telegramUserId}`
+          `Successfully sent scheduled message to Telegram chat ${chatId}`
         );
         return true;
       } else {
         logger.warn(
-          `Failed to send scheduled message to Telegram user ${telegramUserId}`
+          `Failed to send scheduled message to Telegram chat ${chatId}`
         );
         return false;
       }
@@ -275,13 +279,35 @@ Keep it under 100 words. Be conversational and ask an open-ended question.
   }
 
   /**
-   * Fetch all sessions associated with Telegram users
+   * Fetch the global session of every user with a linked Telegram account,
+   * along with the chat to message them in
    */
-  private async fetchTelegramSessions(): Promise<Session[]> {
+  private async fetchTelegramSessions(): Promise<
+    Array<{ session: Session; chatId: string }>
+  > {
     try {
-      // Using regex for MongoDB: find all sessions where userId starts with "telegram_"
-      const sessions =
-        await sessionService.searchSessionsByUserIdPattern("^telegram_");
+      const links = await telegramLinkService.listAllLinks();
+      const seen = new Set<string>();
+      const sessions: Array<{ session: Session; chatId: string }> = [];
+
+      // Links are newest first, so a user's most recent chat wins
+      for (const link of links) {
+        if (seen.has(link.userId)) continue;
+        seen.add(link.userId);
+        if (link.quietUntil && link.quietUntil > new Date()) {
+          logger.debug(
+            `Skipping user ${link.userId}: quiet until ${link.quietUntil}`
+          );
+          continue;
+        }
+
+        const session = await sessionService.getSession(
+          sessionService.getGlobalSessionId(link.userId)
+        );
+        if (session) {
+          sessions.push({ session, chatId: link.chatId });
+        }
+      }
       return sessions;
     } catch (error) {
       logger.error("Error fetching Telegram sessions:", error);
@@ -1,63 +1,472 @@
+import { FilterQuery, isValidObjectId } from "mongoose";
+import {
+  TimelineEventModel,
+  ITimelineEvent,
+} from "../models/timeline-event.model";
+import { Memory } from "../models/memory.model";
+import { Activity } from "../models/activity.model";
+import { SessionModel } from "../models/session.model";
+import { ThinkingRecord } from "../models/thinking-record.model";
+import UserSummary from "../models/summary.model";
+import { CompanionState } from "../models/companion-state.model";
+import { domainEventsService, DomainEventType } from "./domain-events.service";
 import { loggerFactory } from "../utils/logger.service";
+
 const logger = loggerFactory.getLogger("TimelineService");
 
-// Placeholder for timeline event structure
-interface TimelineEvent {
+export enum TimelineEventType {
+  MEMORY_CREATED = "memory_created",
+  MEMORY_DELETED = "memory_deleted",
+  THOUGHT_ADDED = "thought_added",
+  EMOTION_CHANGED = "emotion_changed",
+  ACTIVITY_STARTED = "activity_started",
+  ACTIVITY_ENDED = "activity_ended",
+  SESSION_CREATED = "session_created",
+  THINKING_RECORDED = "thinking_recorded",
+  SUMMARY_CREATED = "summary_created",
+  GOAL_UPDATED = "goal_updated",
+}
+
+export interface TimelineEvent {
   id: string;
   timestamp: Date;
-  type: string; // e.g., 'interaction', 'memory_created', 'goal_updated', 'thought_added'
+  type: TimelineEventType;
   userId: string;
   sessionId?: string;
   description: string;
   metadata?: Record<string, any>;
 }
 
+export interface TimelineQuery {
+  limit?: number;
+  before?: string; // Cursor (or ISO date): return events older than this
+  after?: string; // Cursor (or ISO date): return events newer than this
+  types?: TimelineEventType[];
+  sessionId?: string;
+}
+
+export interface TimelinePage {
+  events: TimelineEvent[];
+  nextCursor: string | null; // Pass as `before` to load older events
+  prevCursor: string | null; // Pass as `after` to poll for newer events
+}
+
+interface TimelineEntry {
+  type: TimelineEventType;
+  timestamp: Date;
+  sessionId?: string;
+  sourceId: string;
+  description: string;
+  metadata?: Record<string, any>;
+}
+
+// How many records per source the backfill imports for a user
+const BACKFILL_LIMIT = 500;
+
+function truncate(text: string, length: number = 120): string {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
+
+function toDate(value: any): Date {
+  const date = value ? new Date(value) : new Date();
+  return isNaN(date.getTime()) ? new Date() : date;
+}
+
+/**
+ * Cursors encode the (timestamp, id) of the boundary event so pagination is
+ * stable even when several events share a timestamp. Plain ISO dates are
+ * still accepted for callers that only know a point in time.
+ */
+export function encodeCursor(event: { timestamp: Date; id: string }): string {
+  return Buffer.from(`${event.timestamp.getTime()}:${event.id}`).toString(
+    "base64url"
+  );
+}
+
+export function decodeCursor(
+  cursor: string
+): { timestamp: Date; id?: string } | null {
+  const decoded = Buffer.from(cursor, "base64url").toString("utf8");
+  const match = decoded.match(/^(\d+):(.+)$/);
+  if (match) {
+    // Event ids are ObjectIds; anything else is a forged or corrupted cursor
+    return isValidObjectId(match[2])
+      ? { timestamp: new Date(Number(match[1])), id: match[2] }
+      : null;
+  }
+
+  const date = new Date(cursor);
+  return isNaN(date.getTime()) ? null : { timestamp: date };
+}
+
+/**
+ * Map a domain event to a timeline entry, or null for events the timeline
+ * does not track
+ */
+function entryFromDomainEvent(
+  eventType: string,
+  data: Record<string, any>
+): TimelineEntry | null {
+  switch (eventType) {
+    case DomainEventType.MEMORY_CREATED:
+      return {
+        type: TimelineEventType.MEMORY_CREATED,
+        timestamp: new Date(),
+        sessionId: data.metadata?.sessionId,
+        sourceId: data.memoryId,
+        description: `Created memory: "${truncate(data.text || "")}"`,
+        metadata: {
+          memoryId: data.memoryId,
+          memoryType: data.type,
+          category: data.category,
+          importance: data.importance,
+        },
+      };
+    case DomainEventType.MEMORY_DELETED:
+      return {
+        type: TimelineEventType.MEMORY_DELETED,
+        timestamp: new Date(),
+        sourceId: data.memoryId,
+        description: `Deleted memory: "${truncate(data.text || "")}"`,
+        metadata: { memoryId: data.memoryId, soft: data.soft },
+      };
+    case DomainEventType.THOUGHT_ADDED:
+      return {
+        type: TimelineEventType.THOUGHT_ADDED,
+        timestamp: toDate(data.timestamp),
+        sessionId: data.metadata?.sessionId,
+        sourceId: String(toDate(data.timestamp).getTime()),
+        description: `Companion had a thought: "${truncate(data.thought || "")}"`,
+        metadata: { category: data.category, priority: data.priority },
+      };
+    case DomainEventType.EMOTION_CHANGED:
+      return {
+        type: TimelineEventType.EMOTION_CHANGED,
+        timestamp: toDate(data.since),
+        sourceId: String(toDate(data.since).getTime()),
+        description: `Companion feels ${data.emotion}${data.reason ? `: ${truncate(data.reason)}` : ""}`,
+        metadata: { emotion: data.emotion, intensity: data.intensity },
+      };
+    case DomainEventType.ACTIVITY_STARTED:
+      return {
+        type: TimelineEventType.ACTIVITY_STARTED,
+        timestamp: toDate(data.startTime),
+        sessionId: data.sessionId,
+        sourceId: String(data.activityId),
+        description: `Started ${data.type} activity: ${data.name}`,
+        metadata: {
+          activityId: String(data.activityId),
+          activityType: data.type,
+        },
+      };
+    case DomainEventType.ACTIVITY_ENDED:
+      return {
+        type: TimelineEventType.ACTIVITY_ENDED,
+        timestamp: toDate(data.endTime),
+        sessionId: data.sessionId,
+        sourceId: String(data.activityId),
+        description: `Ended ${data.type} activity: ${data.name}`,
+        metadata: {
+          activityId: String(data.activityId),
+          activityType: data.type,
+        },
+      };
+    case DomainEventType.SESSION_CREATED:
+      return {
+        type: TimelineEventType.SESSION_CREATED,
+        timestamp: toDate(data.createdAt),
+        sessionId: data.sessionId,
+        sourceId: data.sessionId,
+        description: "Started a new chat session",
+        metadata: { title: data.metadata?.title },
+      };
+    case DomainEventType.THINKING_RECORDED:
+      return {
+        type: TimelineEventType.THINKING_RECORDED,
+        timestamp: toDate(data.timestamp),
+        sessionId: data.sessionId,
+        sourceId: data.recordId,
+        description: `Companion reflected on ${data.topics?.length ? data.topics.join(", ") : "the conversation"}`,
+        metadata: { sentiment: data.sentiment, strategy: data.strategy },
+      };
+    case DomainEventType.SUMMARY_CREATED:
+      return {
+        type: TimelineEventType.SUMMARY_CREATED,
+        timestamp: toDate(data.timestamp),
+        sessionId: data.sessionId,
+        sourceId: data.summaryId,
+        description: `Updated user summary: "${truncate(data.summary || "")}"`,
+        metadata: { memoryCount: data.memoryCount },
+      };
+    case DomainEventType.GOAL_UPDATED: {
+      const goals: string[] = (data.goals || []).map((g: any) =>
+        typeof g === "string" ? g : g.goal || g.name || JSON.stringify(g)
+      );
+      const now = new Date();
+      return {
+        type: TimelineEventType.GOAL_UPDATED,
+        timestamp: now,
+        sourceId: `${data.goalType}:${now.getTime()}`,
+        description: `Updated ${data.goalType} goals${goals.length ? `: ${truncate(goals.join(", "))}` : ""}`,
+        metadata: { goalType: data.goalType, goals },
+      };
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * User-facing timeline of what the companion has done and learned.
+ * Entries are persisted as they happen from domain events; history from
+ * before the collection existed is imported by the backfill the first time
+ * a user's timeline is read in this process.
+ */
 class TimelineService {
+  private backfilledUsers = new Set<string>();
+
+  constructor() {
+    domainEventsService.subscribe((eventType, eventData) => {
+      if (!eventData.userId) {
+        return;
+      }
+      const entry = entryFromDomainEvent(eventType, eventData);
+      if (!entry || !entry.sourceId) {
+        return;
+      }
+      this.record(eventData.userId, [entry]).catch((error) => {
+        logger.error(`Failed to record ${entry.type} event`, error as Error, {
+          userId: eventData.userId,
+        });
+      });
+    });
+  }
+
+  private toEvent(doc: ITimelineEvent): TimelineEvent {
+    return {
+      id: doc._id,
+      timestamp: doc.timestamp,
+      type: doc.type as TimelineEventType,
+      userId: doc.userId,
+      sessionId: doc.sessionId,
+      description: doc.description,
+      metadata: doc.metadata,
+    };
+  }
+
   /**
-   * Fetch timeline events for a user.
-   * TODO: Implement actual data fetching logic (e.g., from a dedicated collection or aggregating from other services).
+   * Insert entries, ignoring ones that were already recorded for the same source
    */
-  async getTimelineEvents(
+  private async record(
     userId: string,
-    limit: number = 50,
-    before?: Date,
-    after?: Date
-  ): Promise<TimelineEvent[]> {
-    logger.debug(
-      `Fetching timeline events for userId: ${userId} (limit: ${limit})`
+    entries: TimelineEntry[]
+  ): Promise<number> {
+    if (entries.length === 0) {
+      return 0;
+    }
+
+    const result = await TimelineEventModel.bulkWrite(
+      entries.map((entry) => ({
+        updateOne: {
+          filter: { userId, type: entry.type, sourceId: entry.sourceId },
+          update: { $setOnInsert: { userId, ...entry } },
+          upsert: true,
+        },
+      })),
+      { ordered: false }
     );
+    return result.upsertedCount;
+  }
+
+  /**
+   * Fetch a page of timeline events for a user, newest first.
+   */
+  async getTimelineEvents(
+    userId: string,
+    query: TimelineQuery = {}
+  ): Promise<TimelinePage> {
+    const limit = Math.min(Math.max(query.limit || 50, 1), 200);
+    logger.debug(`Fetching timeline events for userId: ${userId}`, {
+      ...query,
+      limit,
+    });
+
+    // Backfill is idempotent, so repeating it once per process is harmless
+    if (!this.backfilledUsers.has(userId)) {
+      await this.backfillUser(userId);
+      this.backfilledUsers.add(userId);
+    }
+
+    const filter: FilterQuery<ITimelineEvent> = { userId };
+    if (query.types && query.types.length > 0) {
+      filter.type = { $in: query.types };
+    }
+    if (query.sessionId) {
+      filter.sessionId = query.sessionId;
+    }
+
+    const newer = !query.before && !!query.after;
+    const cursor = query.before
+      ? decodeCursor(query.before)
+      : query.after
+        ? decodeCursor(query.after)
+        : null;
+    if ((query.before || query.after) && !cursor) {
+      throw new Error("Invalid timeline cursor");
+    }
+
+    if (cursor) {
+      const op = newer ? "$gt" : "$lt";
+      filter.$or = cursor.id
+        ? [
+            { timestamp: { [op]: cursor.timestamp } },
+            { timestamp: cursor.timestamp, _id: { [op]: cursor.id } },
+          ]
+        : [{ timestamp: { [op]: cursor.timestamp } }];
+    }
 
-    // Placeholder implementation - return dummy data for now
-    const dummyEvents: TimelineEvent[] = [
-      {
-        id: "evt1",
-        timestamp: new Date(Date.now() - 1000 * 60 * 5), // 5 mins ago
-        type: "interaction",
-        userId,
-        sessionId: "dummy-session-1",
-        description: "User started a new chat session.",
-        metadata: { title: "New Chat" },
-      },
-      {
-        id: "evt2",
-        timestamp: new Date(Date.now() - 1000 * 60 * 3), // 3 mins ago
-        type: "thought_added",
-        userId,
-        description: "Companion had a thought: 'User seems interested in AI.'",
-        metadata: { category: "observation", priority: 4 },
-      },
-      {
-        id: "evt3",
-        timestamp: new Date(Date.now() - 1000 * 60 * 1), // 1 min ago
-        type: "memory_created",
-        userId,
-        description: "Created memory: 'User mentioned interest in AI ethics.'",
-        metadata: { memoryType: "short_term" },
-      },
-    ];
-
-    // Apply limit
-    return dummyEvents.slice(0, limit);
+    const direction = newer ? 1 : -1;
+    const docs = await TimelineEventModel.find(filter)
+      .sort({ timestamp: direction, _id: direction })
+      .limit(limit + 1)
+      .exec();
+
+    const hasMore = docs.length > limit;
+    const page = docs.slice(0, limit);
+    if (newer) {
+      page.reverse();
+    }
+    const events = page.map((doc) => this.toEvent(doc));
+
+    const oldest = events[events.length - 1];
+    const newest = events[0];
+    return {
+      events,
+      nextCursor: oldest && (newer || hasMore) ? encodeCursor(oldest) : null,
+      prevCursor: newest ? encodeCursor(newest) : query.after || null,
+    };
+  }
+
+  /**
+   * Import existing memories, thoughts, activities, sessions, thinking
+   * records, summaries and goals for a user. Safe to run repeatedly.
+   */
+  async backfillUser(userId: string): Promise<number> {
+    const [memories, activities, sessions, thinking, summaries, state] =
+      await Promise.all([
+        Memory.find({ userId })
+          .sort({ createdAt: -1 })
+          .limit(BACKFILL_LIMIT)
+          .lean()
+          .exec(),
+        Activity.find({ userId })
+          .sort({ startTime: -1 })
+          .limit(BACKFILL_LIMIT)
+          .lean()
+          .exec(),
+        SessionModel.find({ userId })
+          .sort({ createdAt: -1 })
+          .limit(BACKFILL_LIMIT)
+          .lean()
+          .exec(),
+        ThinkingRecord.find({ userId })
+          .sort({ timestamp: -1 })
+          .limit(BACKFILL_LIMIT)
+          .lean()
+          .exec(),
+        UserSummary.find({ userId })
+          .sort({ timestamp: -1 })
+          .limit(BACKFILL_LIMIT)
+          .lean()
+          .exec(),
+        CompanionState.findOne({ userId }).lean().exec(),
+      ]);
+
+    const entries: TimelineEntry[] = [];
+    const push = (eventType: DomainEventType, data: Record<string, any>) => {
+      const entry = entryFromDomainEvent(eventType, data);
+      if (entry && entry.sourceId) {
+        entries.push(entry);
+      }
+    };
+
+    for (const memory of memories as any[]) {
+      const memoryId = String(memory._id);
+      const created = entryFromDomainEvent(DomainEventType.MEMORY_CREATED, {
+        ...memory,
+        memoryId,
+      });
+      if (created) {
+        entries.push({ ...created, timestamp: toDate(memory.createdAt) });
+      }
+      if (memory.isDeleted) {
+        const deleted = entryFromDomainEvent(DomainEventType.MEMORY_DELETED, {
+          memoryId,
+          text: memory.text,
+          soft: true,
+        });
+        entries.push({ ...deleted!, timestamp: toDate(memory.updatedAt) });
+      }
+    }
+
+    for (const activity of activities as any[]) {
+      const data = { ...activity, activityId: activity._id };
+      push(DomainEventType.ACTIVITY_STARTED, data);
+      if (activity.endTime) {
+        push(DomainEventType.ACTIVITY_ENDED, data);
+      }
+    }
+
+    for (const session of sessions as any[]) {
+      push(DomainEventType.SESSION_CREATED, {
+        ...session,
+        sessionId: session._id,
+      });
+    }
+
+    for (const record of thinking as any[]) {
+      push(DomainEventType.THINKING_RECORDED, {
+        ...record,
+        recordId: String(record._id),
+      });
+    }
+
+    for (const summary of summaries as any[]) {
+      push(DomainEventType.SUMMARY_CREATED, {
+        ...summary,
+        summaryId: String(summary._id),
+      });
+    }
+
+    if (state) {
+      for (const thought of state.recentThoughts || []) {
+        push(DomainEventType.THOUGHT_ADDED, thought);
+      }
+      if (state.currentEmotion?.since) {
+        push(DomainEventType.EMOTION_CHANGED, state.currentEmotion);
+      }
+      const goalSets: Array<[string, any[]]> = [
+        ["user", state.userDefinedGoals || []],
+        ["companion", state.currentGoals || []],
+      ];
+      for (const [goalType, goals] of goalSets) {
+        for (const goal of goals) {
+          entries.push({
+            type: TimelineEventType.GOAL_UPDATED,
+            timestamp: toDate(goal.createdAt),
+            sourceId: `${goalType}:${goal.goal}`,
+            description: `Set ${goalType} goal: ${truncate(goal.goal)}`,
+            metadata: { goalType, goals: [goal.goal] },
+          });
+        }
+      }
+    }
+
+    const inserted = await this.record(userId, entries);
+    logger.info(
+      `Backfilled ${inserted} timeline events for user ${userId} from ${entries.length} records`
+    );
+    return inserted;
   }
 }
 
@@ -1,7 +1,17 @@
-import { v4 as uuidv4 } from "uuid";
+import { AsyncLocalStorage } from "async_hooks";
+import { randomBytes } from "crypto";
 import { loggerFactory } from "../utils/logger.service";
+import { createTraceExporter, TraceExporter } from "./tracing/otlp-exporter";
 
-interface SpanContext {
+// Mirrors OpenTelemetry span kinds
+export type SpanKind =
+  | "internal"
+  | "server"
+  | "client"
+  | "producer"
+  | "consumer";
+
+export interface SpanContext {
   traceId: string;
   spanId: string;
   parentSpanId?: string;
@@ -11,8 +21,9 @@ interface SpanContext {
   metadata?: Record<string, any>;
 }
 
-interface Span {
+export interface Span {
   context: SpanContext;
+  kind: SpanKind;
   start: number;
   end?: number;
   duration?: number;
@@ -24,9 +35,15 @@ interface Span {
     timestamp: number;
     attributes?: Record<string, any>;
   }>;
-  tags: Record<string, any>;
+  tags: Record<string, any>; // Exported as span attributes
 }
 
+// W3C trace context: version-traceId-spanId-flags
+const TRACEPARENT_PATTERN = /^00-([0-9a-f]{32})-([0-9a-f]{16})-[0-9a-f]{2}$/;
+
+const newTraceId = (): string => randomBytes(16).toString("hex");
+const newSpanId = (): string => randomBytes(8).toString("hex");
+
 /**
  * TracingService provides distributed tracing capabilities for tracking operations
  * across different services and components of the application.
@@ -34,10 +51,16 @@ interface Span {
  * It creates and manages trace contexts with unique identifiers that can be propagated
  * between services, including via Kafka messages, to maintain a connected view of
  * related operations.
+ *
+ * IDs follow the W3C trace context format so they can be carried in `traceparent`
+ * headers, and completed spans are exported as OTLP/JSON when an exporter is
+ * configured (see tracing/otlp-exporter.ts).
  */
 class TracingService {
   private activeSpans: Map<string, Span> = new Map();
   private logger = loggerFactory.getLogger("TracingService");
+  private contextStorage = new AsyncLocalStorage<SpanContext>();
+  private exporter: TraceExporter | null = createTraceExporter();
 
   /**
    * Creates a new trace context with a unique trace ID
@@ -53,8 +76,8 @@ class TracingService {
     metadata?: Record<string, any>
   ): SpanContext {
     return {
-      traceId: uuidv4(),
-      spanId: uuidv4(),
+      traceId: newTraceId(),
+      spanId: newSpanId(),
       timestamp: Date.now(),
       sessionId,
       userId,
@@ -68,18 +91,20 @@ class TracingService {
    * @param parentContext The parent trace context
    * @param operation The name of the operation being performed
    * @param metadata Optional additional metadata for the span
+   * @param kind The span kind reported to the exporter
    * @returns A new span object and context
    */
   startSpan(
     parentContext: SpanContext | undefined,
     operation: string,
-    metadata?: Record<string, any>
+    metadata?: Record<string, any>,
+    kind: SpanKind = "internal"
   ): { span: Span; context: SpanContext } {
     // If no parent context, create a new root trace
     const context: SpanContext = parentContext
       ? {
           traceId: parentContext.traceId,
-          spanId: uuidv4(),
+          spanId: newSpanId(),
           parentSpanId: parentContext.spanId,
           timestamp: Date.now(),
           sessionId: parentContext.sessionId,
@@ -90,11 +115,12 @@ class TracingService {
 
     const span: Span = {
       context,
+      kind,
       start: Date.now(),
       operation,
       status: "started",
       events: [],
-      tags: {},
+      tags: { ...metadata },
     };
 
     this.activeSpans.set(span.context.spanId, span);
@@ -140,6 +166,7 @@ class TracingService {
     }
 
     this.activeSpans.delete(spanId);
+    this.exporter?.export(span);
     return span;
   }
 
@@ -257,28 +284,32 @@ class TracingService {
   }
 
   /**
-   * Executes a function within a traced span
+   * Executes a function within a traced span. The span becomes the current
+   * context while the function runs, so spans started inside it nest under it.
    *
-   * @param parentContext The parent trace context
+   * @param parentContext The parent trace context (defaults to the current one)
    * @param operation The name of the operation being performed
    * @param fn The function to execute
    * @param metadata Optional additional metadata for the span
+   * @param kind The span kind reported to the exporter
    * @returns The result of the function
    */
   async traceAsync<T>(
     parentContext: SpanContext | undefined,
     operation: string,
     fn: (spanContext: SpanContext) => Promise<T>,
-    metadata?: Record<string, any>
+    metadata?: Record<string, any>,
+    kind: SpanKind = "internal"
   ): Promise<T> {
     const { span, context } = this.startSpan(
-      parentContext,
+      parentContext || this.getCurrentContext(),
       operation,
-      metadata
+      metadata,
+      kind
     );
 
     try {
-      const result = await fn(context);
+      const result = await this.runWithContext(context, () => fn(context));
       this.endSpan(span.context.spanId);
       return result;
     } catch (error) {
@@ -295,6 +326,59 @@ class TracingService {
   getActiveSpans(): Span[] {
     return Array.from(this.activeSpans.values());
   }
+
+  /**
+   * Runs a function with the given context as the current trace context
+   * for everything it calls, including across awaits
+   */
+  runWithContext<T>(context: SpanContext, fn: () => T): T {
+    return this.contextStorage.run(context, fn);
+  }
+
+  /**
+   * The trace context of the span currently executing, if any
+   */
+  getCurrentContext(): SpanContext | undefined {
+    return this.contextStorage.getStore();
+  }
+
+  /**
+   * Tags the span currently executing, if it is still active
+   */
+  setCurrentSpanTag(key: string, value: any): void {
+    const context = this.getCurrentContext();
+    const span = context && this.activeSpans.get(context.spanId);
+    if (span) {
+      span.tags[key] = value;
+    }
+  }
+
+  /**
+   * Formats a context as a W3C `traceparent` header value
+   */
+  toTraceparent(context: SpanContext): string {
+    return `00-${context.traceId}-${context.spanId}-01`;
+  }
+
+  /**
+   * Parses a W3C `traceparent` header into a parent context
+   *
+   * @returns The parent context, or undefined if the header is missing or invalid
+   */
+  fromTraceparent(header: string | undefined): SpanContext | undefined {
+    const match = header?.trim().toLowerCase().match(TRACEPARENT_PATTERN);
+    if (!match || /^0+$/.test(match[1]) || /^0+$/.test(match[2])) {
+      return undefined;
+    }
+    return { traceId: match[1], spanId: match[2], timestamp: Date.now() };
+  }
+
+  /**
+   * Flush spans waiting in the exporter (e.g. before shutdown)
+   */
+  async flush(): Promise<void> {
+    await this.exporter?.flush();
+  }
 }
 
 // Export a singleton instance
@@ -0,0 +1,81 @@
+import axios, { AxiosError, AxiosInstance, AxiosRequestConfig } from "axios";
+import { tracingService } from "../tracing.service";
+
+// Span ID of the client span started for a request
+type TracedRequestConfig = AxiosRequestConfig & { traceSpanId?: string };
+
+/**
+ * The URL as recorded on spans: scheme, host and path only. Query strings
+ * and userinfo can carry credentials (OpenWeather's `appid`), and Telegram
+ * file URLs have the bot token in the path.
+ */
+export function redactUrl(url?: string, baseURL?: string): string | undefined {
+  try {
+    const parsed = new URL(url || "", baseURL);
+    const path = parsed.pathname.replace(/\/bot[^/]+/g, "/bot<redacted>");
+    return `${parsed.protocol}//${parsed.host}${path}`;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Trace outgoing HTTP calls made through an axios instance (the default one
+ * covers Notion, weather, Twitter and webhooks): each request gets a client
+ * span under the current context and a `traceparent` header.
+ */
+export function instrumentAxios(instance: AxiosInstance = axios): void {
+  instance.interceptors.request.use((config: TracedRequestConfig) => {
+    const method = (config.method || "get").toUpperCase();
+    let host: string | undefined;
+    try {
+      host = new URL(config.url || "", config.baseURL).host;
+    } catch {
+      host = undefined;
+    }
+
+    const { span, context } = tracingService.startSpan(
+      tracingService.getCurrentContext(),
+      `HTTP ${method}${host ? ` ${host}` : ""}`,
+      {
+        "http.method": method,
+        "http.url": redactUrl(config.url, config.baseURL),
+        "server.address": host,
+      },
+      "client"
+    );
+
+    config.traceSpanId = span.context.spanId;
+    config.headers = {
+      ...config.headers,
+      traceparent: tracingService.toTraceparent(context),
+    };
+    return config;
+  });
+
+  instance.interceptors.response.use(
+    (response) => {
+      const spanId = (response.config as TracedRequestConfig).traceSpanId;
+      if (spanId) {
+        tracingService.setSpanTag(spanId, "http.status_code", response.status);
+        tracingService.endSpan(spanId);
+      }
+      return response;
+    },
+    (error: AxiosError) => {
+      const spanId = (error.config as TracedRequestConfig | undefined)
+        ?.traceSpanId;
+      if (spanId) {
+        if (error.response) {
+          tracingService.setSpanTag(
+            spanId,
+            "http.status_code",
+            error.response.status
+          );
+        }
+        tracingService.endSpan(spanId, error);
+      }
+      return Promise.reject(error);
+    }
+  );
+}
@@ -0,0 +1,269 @@
+import axios, { AxiosInstance } from "axios";
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import type { Span, SpanKind } from "../tracing.service";
+import { loggerFactory } from "../../utils/logger.service";
+
+const logger = loggerFactory.getLogger("OtlpExporter");
+
+// OTLP enum values (opentelemetry/proto/trace/v1/trace.proto)
+const SPAN_KIND: Record<SpanKind, number> = {
+  internal: 1,
+  server: 2,
+  client: 3,
+  producer: 4,
+  consumer: 5,
+};
+const STATUS_OK = 1;
+const STATUS_ERROR = 2;
+
+type OtlpAnyValue =
+  | { stringValue: string }
+  | { boolValue: boolean }
+  | { intValue: string }
+  | { doubleValue: number };
+
+interface OtlpAttribute {
+  key: string;
+  value: OtlpAnyValue;
+}
+
+export interface OtlpSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: number;
+  startTimeUnixNano: string;
+  endTimeUnixNano: string;
+  attributes: OtlpAttribute[];
+  events: Array<{
+    timeUnixNano: string;
+    name: string;
+    attributes: OtlpAttribute[];
+  }>;
+  status: { code: number; message?: string };
+}
+
+export interface TraceExporter {
+  export(span: Span): void;
+  flush(): Promise<void>;
+}
+
+export interface OtlpExporterOptions {
+  serviceName: string;
+  endpoint?: string; // Collector base URL; spans are POSTed to <endpoint>/v1/traces
+  headers?: Record<string, string>;
+  filePath?: string; // Appends one ExportTraceServiceRequest JSON per line
+  batchSize?: number;
+  flushIntervalMs?: number;
+}
+
+const toUnixNano = (ms: number): string => `${Math.round(ms)}000000`;
+
+/**
+ * Coerce an ID into the fixed-length hex OTLP expects. Our own IDs already
+ * are; legacy ones (e.g. UUIDs from x-trace-id headers) are hashed.
+ */
+export function normalizeId(id: string, length: 32 | 16): string {
+  const hex = id.replace(/-/g, "").toLowerCase();
+  if (hex.length === length && /^[0-9a-f]+$/.test(hex)) {
+    return hex;
+  }
+  return createHash("sha256").update(id).digest("hex").slice(0, length);
+}
+
+function toAttributeValue(value: any): OtlpAnyValue {
+  if (typeof value === "boolean") {
+    return { boolValue: value };
+  }
+  if (typeof value === "number") {
+    return Number.isInteger(value)
+      ? { intValue: String(value) }
+      : { doubleValue: value };
+  }
+  if (typeof value === "string") {
+    return { stringValue: value };
+  }
+  return { stringValue: JSON.stringify(value) };
+}
+
+function toAttributes(values: Record<string, any> = {}): OtlpAttribute[] {
+  return Object.entries(values)
+    .filter(([, value]) => value !== undefined && value !== null)
+    .map(([key, value]) => ({ key, value: toAttributeValue(value) }));
+}
+
+/**
+ * Convert a completed span to its OTLP/JSON representation
+ */
+export function toOtlpSpan(span: Span): OtlpSpan {
+  const events = span.events.map((event) => ({
+    timeUnixNano: toUnixNano(event.timestamp),
+    name: event.name,
+    attributes: toAttributes(event.attributes),
+  }));
+
+  if (span.error) {
+    events.push({
+      timeUnixNano: toUnixNano(span.end || Date.now()),
+      name: "exception",
+      attributes: toAttributes({
+        "exception.type": span.error.name,
+        "exception.message": span.error.message,
+        "exception.stacktrace": span.error.stack,
+      }),
+    });
+  }
+
+  return {
+    traceId: normalizeId(span.context.traceId, 32),
+    spanId: normalizeId(span.context.spanId, 16),
+    parentSpanId: span.context.parentSpanId
+      ? normalizeId(span.context.parentSpanId, 16)
+      : undefined,
+    name: span.operation,
+    kind: SPAN_KIND[span.kind] || SPAN_KIND.internal,
+    startTimeUnixNano: toUnixNano(span.start),
+    endTimeUnixNano: toUnixNano(span.end || span.start),
+    attributes: toAttributes({
+      ...span.tags,
+      "session.id": span.context.sessionId,
+      "user.id": span.context.userId,
+    }),
+    events,
+    status:
+      span.status === "error"
+        ? { code: STATUS_ERROR, message: span.error?.message }
+        : { code: STATUS_OK },
+  };
+}
+
+/**
+ * Batches completed spans and ships them as OTLP/JSON to a collector
+ * (Jaeger, the OpenTelemetry Collector, ...) and/or a local file
+ */
+export class OtlpExporter implements TraceExporter {
+  private buffer: OtlpSpan[] = [];
+  private timer: NodeJS.Timeout | null = null;
+  private flushing: Promise<void> = Promise.resolve();
+  // Separate instance so the exporter's own requests are not traced
+  private http: AxiosInstance = axios.create({ timeout: 10000 });
+
+  constructor(private options: OtlpExporterOptions) {}
+
+  export(span: Span): void {
+    this.buffer.push(toOtlpSpan(span));
+
+    if (this.buffer.length >= (this.options.batchSize || 100)) {
+      this.flush();
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.flush();
+      }, this.options.flushIntervalMs || 5000);
+      this.timer.unref();
+    }
+  }
+
+  flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    const spans = this.buffer.splice(0);
+    if (spans.length === 0) {
+      return this.flushing;
+    }
+
+    // Serialize flushes so file appends stay in order
+    this.flushing = this.flushing.then(() => this.send(spans));
+    return this.flushing;
+  }
+
+  private async send(spans: OtlpSpan[]): Promise<void> {
+    const request = {
+      resourceSpans: [
+        {
+          resource: {
+            attributes: toAttributes({
+              "service.name": this.options.serviceName,
+            }),
+          },
+          scopeSpans: [{ scope: { name: "synapse-tracing" }, spans }],
+        },
+      ],
+    };
+
+    if (this.options.endpoint) {
+      try {
+        await this.http.post(
+          `${this.options.endpoint.replace(/\/$/, "")}/v1/traces`,
+          request,
+          {
+            headers: {
+              "Content-Type": "application/json",
+              ...this.options.headers,
+            },
+          }
+        );
+      } catch (error) {
+        logger.warn(`Failed to export ${spans.length} spans to collector`, {
+          error: (error as Error).message,
+        });
+      }
+    }
+
+    if (this.options.filePath) {
+      try {
+        await fs.mkdir(path.dirname(this.options.filePath), {
+          recursive: true,
+        });
+        await fs.appendFile(
+          this.options.filePath,
+          JSON.stringify(request) + "\n"
+        );
+      } catch (error) {
+        logger.warn(`Failed to write ${spans.length} spans to file`, {
+          error: (error as Error).message,
+        });
+      }
+    }
+  }
+}
+
+/**
+ * Parse OTEL_EXPORTER_OTLP_HEADERS ("key1=value1,key2=value2")
+ */
+function parseHeaders(raw: string | undefined): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const pair of (raw || "").split(",")) {
+    const index = pair.indexOf("=");
+    if (index > 0) {
+      headers[pair.slice(0, index).trim()] = pair.slice(index + 1).trim();
+    }
+  }
+  return headers;
+}
+
+/**
+ * Build the exporter from the environment, or null when export is not configured
+ */
+export function createTraceExporter(): TraceExporter | null {
+  const endpoint = process.env.OTEL_EXPORTER_OTLP_ENDPOINT;
+  const filePath = process.env.TRACE_EXPORT_FILE;
+  if (!endpoint && !filePath) {
+    return null;
+  }
+
+  logger.info(
+    `Exporting spans as OTLP/JSON to ${[endpoint, filePath].filter(Boolean).join(" and ")}`
+  );
+  return new OtlpExporter({
+    serviceName: process.env.OTEL_SERVICE_NAME || "synapse-server",
+    endpoint,
+    headers: parseHeaders(process.env.OTEL_EXPORTER_OTLP_HEADERS),
+    filePath,
+  });
+}
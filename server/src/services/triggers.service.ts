@@ -1,4 +1,29 @@
+import crypto from "crypto";
 import { v4 as uuidv4 } from "uuid";
+import { TriggerModel, ITrigger } from "../models/trigger.model";
+import {
+  TriggerRun,
+  ITriggerRun,
+  ITriggerActionResult,
+} from "../models/trigger-run.model";
+import { isValidCron, matchesCron } from "../utils/cron";
+import { isValidTimezone } from "../utils/zoned-time";
+import { loggerFactory } from "../utils/logger.service";
+import { notificationService } from "./notification.service";
+import {
+  MAX_WEBHOOK_RETRIES,
+  MAX_WEBHOOK_TIMEOUT_MS,
+  validateWebhookUrl,
+  webhookService,
+} from "./webhook.service";
+import { telegramBotService } from "./telegram/telegram-bot.service";
+import { enhancedChatService } from "./enhanced-chat.service";
+import { actionManager } from "./action-manager.service";
+import { sessionService } from "./session.service";
+import { domainEventsService } from "./domain-events.service";
+import { credentialVault, SECRET_MASK } from "./credential-vault.service";
+
+const logger = loggerFactory.getLogger("TriggersService");
 
 /**
  * Trigger types supported by the application
@@ -17,6 +42,8 @@ export enum ActionType {
   EMAIL = "email",
   EXECUTE_FUNCTION = "execute_function",
   API_CALL = "api_call",
+  SEND_TELEGRAM = "send_telegram",
+  COMPANION_MESSAGE = "companion_message",
 }
 
 /**
@@ -34,6 +61,7 @@ export interface Trigger {
   createdAt: string;
   updatedAt: string;
   lastTriggered?: string;
+  nextRunAt?: string;
 }
 
 /**
@@ -45,34 +73,441 @@ export interface Action {
   config: any; // Specific to action type
 }
 
+/**
+ * Conditions for TIME triggers: either a recurring cron expression or a
+ * one-shot ISO timestamp.
+ */
+export interface TimeConditions {
+  cron?: string;
+  at?: string;
+  timezone?: string;
+}
+
+export type ConditionOperator =
+  | "equals"
+  | "notEquals"
+  | "contains"
+  | "gt"
+  | "gte"
+  | "lt"
+  | "lte"
+  | "in"
+  | "exists";
+
+/**
+ * JSON condition DSL for EVENT triggers, e.g.
+ * { and: [{ field: "importance", op: "gt", value: 7 }, { field: "text", op: "contains", value: "birthday" }] }
+ */
+export type ConditionNode =
+  | { and: ConditionNode[] }
+  | { or: ConditionNode[] }
+  | { not: ConditionNode }
+  | { field: string; op: ConditionOperator; value?: any };
+
+/**
+ * Conditions for EVENT triggers
+ */
+export interface EventConditions {
+  eventType: string;
+  match?: ConditionNode;
+}
+
+export interface TriggerRunContext {
+  source: "time" | "event" | "manual";
+  eventType?: string;
+  eventData?: Record<string, any>;
+}
+
+const CONDITION_OPERATORS: ConditionOperator[] = [
+  "equals",
+  "notEquals",
+  "contains",
+  "gt",
+  "gte",
+  "lt",
+  "lte",
+  "in",
+  "exists",
+];
+
+/**
+ * Resolve a dotted path (e.g. "metadata.activityId") against an object
+ */
+function getFieldValue(data: any, path: string): any {
+  return path
+    .split(".")
+    .reduce((value, key) => (value == null ? undefined : value[key]), data);
+}
+
+/**
+ * Evaluate a condition DSL node against event data
+ */
+export function evaluateCondition(node: ConditionNode, data: any): boolean {
+  if ("and" in node) {
+    return node.and.every((child) => evaluateCondition(child, data));
+  }
+  if ("or" in node) {
+    return node.or.some((child) => evaluateCondition(child, data));
+  }
+  if ("not" in node) {
+    return !evaluateCondition(node.not, data);
+  }
+
+  const actual = getFieldValue(data, node.field);
+  const expected = node.value;
+
+  switch (node.op) {
+    case "equals":
+      return actual === expected;
+    case "notEquals":
+      return actual !== expected;
+    case "contains":
+      if (Array.isArray(actual)) {
+        return actual.includes(expected);
+      }
+      return (
+        typeof actual === "string" &&
+        actual.toLowerCase().includes(String(expected).toLowerCase())
+      );
+    case "gt":
+      return actual > expected;
+    case "gte":
+      return actual >= expected;
+    case "lt":
+      return actual < expected;
+    case "lte":
+      return actual <= expected;
+    case "in":
+      return Array.isArray(expected) && expected.includes(actual);
+    case "exists":
+      return (actual !== undefined && actual !== null) === (expected ?? true);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Replace `{{path}}` placeholders in strings (recursively through objects and
+ * arrays) with values from the template context, e.g. "{{event.text}}".
+ */
+export function renderTemplate<T>(value: T, context: Record<string, any>): T {
+  if (typeof value === "string") {
+    return value.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_, path) => {
+      const resolved = getFieldValue(context, path);
+      if (resolved === undefined || resolved === null) return "";
+      return typeof resolved === "object"
+        ? JSON.stringify(resolved)
+        : String(resolved);
+    }) as unknown as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => renderTemplate(item, context)) as unknown as T;
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        renderTemplate(item, context),
+      ])
+    ) as T;
+  }
+  return value;
+}
+
+/**
+ * Validate the config of a single action, returning an error message or null
+ */
+export function validateActionConfig(action: Action): string | null {
+  const config = action.config || {};
+  switch (action.type) {
+    case ActionType.NOTIFICATION:
+      return config.title ? null : "Notification actions require a 'title'";
+    case ActionType.API_CALL: {
+      if (!config.url || !/^https?:\/\//.test(config.url)) {
+        return "API call actions require an http(s) 'url'";
+      }
+      const urlError = validateWebhookUrl(config.url);
+      if (urlError) return urlError;
+      if (
+        config.retries !== undefined &&
+        !(
+          Number.isInteger(config.retries) &&
+          config.retries >= 0 &&
+          config.retries <= MAX_WEBHOOK_RETRIES
+        )
+      ) {
+        return `'retries' must be a whole number between 0 and ${MAX_WEBHOOK_RETRIES}`;
+      }
+      if (
+        config.timeoutMs !== undefined &&
+        !(
+          Number.isInteger(config.timeoutMs) &&
+          config.timeoutMs > 0 &&
+          config.timeoutMs <= MAX_WEBHOOK_TIMEOUT_MS
+        )
+      ) {
+        return `'timeoutMs' must be a whole number between 1 and ${MAX_WEBHOOK_TIMEOUT_MS}`;
+      }
+      return null;
+    }
+    case ActionType.SEND_TELEGRAM:
+      if (config.chatId !== undefined) {
+        return "Telegram actions always go to your linked chat; remove 'chatId'";
+      }
+      return config.message ? null : "Telegram actions require a 'message'";
+    case ActionType.COMPANION_MESSAGE:
+      return config.prompt || config.message
+        ? null
+        : "Companion message actions require a 'prompt' or 'message'";
+    case ActionType.EXECUTE_FUNCTION:
+      return config.actionId
+        ? null
+        : "Execute function actions require an 'actionId'";
+    default:
+      return null;
+  }
+}
+
+/**
+ * Validate a condition DSL node, returning an error message or null
+ */
+function validateConditionNode(node: any, path = "match"): string | null {
+  if (!node || typeof node !== "object" || Array.isArray(node)) {
+    return `${path} must be an object`;
+  }
+  if ("and" in node || "or" in node) {
+    const children = node.and ?? node.or;
+    if (!Array.isArray(children) || children.length === 0) {
+      return `${path}.${"and" in node ? "and" : "or"} must be a non-empty array`;
+    }
+    for (let i = 0; i < children.length; i++) {
+      const error = validateConditionNode(children[i], `${path}[${i}]`);
+      if (error) return error;
+    }
+    return null;
+  }
+  if ("not" in node) {
+    return validateConditionNode(node.not, `${path}.not`);
+  }
+  if (typeof node.field !== "string" || !node.field) {
+    return `${path}.field is required`;
+  }
+  if (!CONDITION_OPERATORS.includes(node.op)) {
+    return `${path}.op must be one of ${CONDITION_OPERATORS.join(", ")}`;
+  }
+  return null;
+}
+
+/**
+ * Validate trigger conditions for the given trigger type.
+ * Returns an error message, or null when the conditions are valid.
+ */
+export function validateTriggerConditions(
+  type: TriggerType,
+  conditions: any
+): string | null {
+  if (!conditions || typeof conditions !== "object") {
+    return "Conditions must be an object";
+  }
+
+  if (type === TriggerType.TIME) {
+    const { cron, at, timezone } = conditions as TimeConditions;
+    if (!cron && !at) {
+      return "Time triggers require either 'cron' or 'at'";
+    }
+    if (cron && !isValidCron(cron)) {
+      return `Invalid cron expression: ${cron}`;
+    }
+    if (
+      timezone !== undefined &&
+      (typeof timezone !== "string" || !isValidTimezone(timezone))
+    ) {
+      return `Invalid timezone: ${timezone}`;
+    }
+    if (at && isNaN(new Date(at).getTime())) {
+      return `Invalid 'at' timestamp: ${at}`;
+    }
+    return null;
+  }
+
+  if (type === TriggerType.EVENT) {
+    const { eventType, match } = conditions as EventConditions;
+    if (!eventType || typeof eventType !== "string") {
+      return "Event triggers require an 'eventType'";
+    }
+    return match === undefined ? null : validateConditionNode(match);
+  }
+
+  return null;
+}
+
 /**
  * Service for managing triggers and automated workflows
  */
 class TriggersService {
-  // In-memory storage - would be replaced with a database in production
-  private triggers: Map<string, Trigger> = new Map();
+  private isRunning = false;
+  private tickInterval: NodeJS.Timeout | null = null;
+  private isTicking = false;
+
+  constructor() {
+    // Evaluate event triggers for every domain event without blocking the emitter
+    domainEventsService.subscribe((eventType, eventData) => {
+      this.processEventTriggers(eventType, eventData).catch((error) => {
+        logger.error(`Error processing ${eventType} triggers`, error as Error);
+      });
+    });
+  }
+
+  /**
+   * Start evaluating time triggers. Ticks twice a minute; each cron trigger
+   * is claimed atomically so it fires at most once per matching minute.
+   */
+  start(): void {
+    if (this.isRunning) {
+      logger.info("Trigger scheduler is already running");
+      return;
+    }
+
+    logger.info("Starting trigger scheduler");
+    this.isRunning = true;
+    this.tickInterval = setInterval(() => {
+      this.processTimeTriggers();
+    }, 30 * 1000);
+
+    // Run it once immediately to catch up on overdue one-shot triggers
+    this.processTimeTriggers();
+  }
+
+  /**
+   * Stop evaluating time triggers
+   */
+  stop(): void {
+    if (!this.isRunning) {
+      return;
+    }
+
+    logger.info("Stopping trigger scheduler");
+    this.isRunning = false;
+    if (this.tickInterval) {
+      clearInterval(this.tickInterval);
+      this.tickInterval = null;
+    }
+  }
+
+  /**
+   * Map a trigger document to the API representation. Webhook secrets are
+   * write-only, so they are masked unless the trigger is about to run.
+   */
+  private toTrigger(doc: ITrigger, maskSecrets: boolean = true): Trigger {
+    return {
+      id: doc._id,
+      userId: doc.userId,
+      name: doc.name,
+      description: doc.description,
+      type: doc.type as TriggerType,
+      conditions: doc.conditions,
+      actions: doc.actions.map((action) => ({
+        id: action.id,
+        type: action.type as ActionType,
+        config:
+          maskSecrets && action.config?.secret
+            ? { ...action.config, secret: SECRET_MASK }
+            : action.config,
+      })),
+      isActive: doc.isActive,
+      createdAt: doc.createdAt.toISOString(),
+      updatedAt: doc.updatedAt.toISOString(),
+      lastTriggered: doc.lastTriggered?.toISOString(),
+      nextRunAt: doc.nextRunAt?.toISOString(),
+    };
+  }
+
+  /**
+   * Seal webhook secrets with the credential vault. A secret sent back
+   * masked keeps the one stored for the same action. Webhooks are always
+   * signed with their own key, so actions left without one get a random
+   * secret, added to `generated` so it can be shown to the owner once.
+   */
+  private async sealActions(
+    userId: string,
+    actions: Action[],
+    existing: Action[] = [],
+    generated: Map<string, string> = new Map()
+  ): Promise<Action[]> {
+    return Promise.all(
+      actions.map(async (action) => {
+        const id = action.id || uuidv4();
+        if (action.type !== ActionType.API_CALL || !action.config) {
+          return { ...action, id };
+        }
+        const stored = existing.find((candidate) => candidate.id === id);
+        const config = await credentialVault.sealCredentials(
+          userId,
+          action.config,
+          stored?.config,
+          ["secret"]
+        );
+        if (!config.secret) {
+          const secret = crypto.randomBytes(32).toString("hex");
+          config.secret = await credentialVault.encrypt(userId, secret);
+          generated.set(id, secret);
+        }
+        return { ...action, id, config };
+      })
+    );
+  }
+
+  /**
+   * Show secrets generated by sealActions in place of their mask
+   */
+  private revealGeneratedSecrets(
+    trigger: Trigger,
+    generated: Map<string, string>
+  ): Trigger {
+    return {
+      ...trigger,
+      actions: trigger.actions.map((action) =>
+        generated.has(action.id)
+          ? {
+              ...action,
+              config: { ...action.config, secret: generated.get(action.id) },
+            }
+          : action
+      ),
+    };
+  }
+
+  /**
+   * One-shot time triggers are tracked through nextRunAt
+   */
+  private computeNextRunAt(type: TriggerType, conditions: any): Date | null {
+    if (type === TriggerType.TIME && conditions?.at && !conditions?.cron) {
+      return new Date(conditions.at);
+    }
+    return null;
+  }
 
   /**
    * Create a new trigger
    */
-  createTrigger(
+  async createTrigger(
     userId: string,
     name: string,
     type: TriggerType,
     conditions: any,
     actions: Action[],
     description?: string
-  ): Trigger {
-    const timestamp = new Date().toISOString();
-
-    // Assign IDs to actions if they don't have one
-    const processedActions = actions.map((action) => ({
-      ...action,
-      id: action.id || uuidv4(),
-    }));
+  ): Promise<Trigger> {
+    // Assign IDs to actions if they don't have one, and seal their secrets
+    const generated = new Map<string, string>();
+    const processedActions = await this.sealActions(
+      userId,
+      actions,
+      [],
+      generated
+    );
 
-    const trigger: Trigger = {
-      id: uuidv4(),
+    const doc = await TriggerModel.create({
       userId,
       name,
       description,
@@ -80,136 +515,291 @@ class TriggersService {
       conditions,
       actions: processedActions,
       isActive: true,
-      createdAt: timestamp,
-      updatedAt: timestamp,
-    };
+      nextRunAt: this.computeNextRunAt(type, conditions) ?? undefined,
+    });
 
-    this.triggers.set(trigger.id, trigger);
-    return trigger;
+    logger.info(`Created ${type} trigger ${doc._id} for user ${userId}`);
+    return this.revealGeneratedSecrets(this.toTrigger(doc), generated);
   }
 
   /**
    * Get all triggers for a user
    */
-  getUserTriggers(userId: string): Trigger[] {
-    return Array.from(this.triggers.values())
-      .filter((trigger) => trigger.userId === userId)
-      .sort(
-        (a, b) =>
-          new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
-      );
+  async getUserTriggers(userId: string): Promise<Trigger[]> {
+    const docs = await TriggerModel.find({ userId })
+      .sort({ updatedAt: -1 })
+      .exec();
+    return docs.map((doc) => this.toTrigger(doc));
   }
 
   /**
    * Get a specific trigger by ID
    */
-  getTrigger(triggerId: string): Trigger | undefined {
-    return this.triggers.get(triggerId);
+  async getTrigger(triggerId: string): Promise<Trigger | undefined> {
+    const doc = await TriggerModel.findById(triggerId).exec();
+    return doc ? this.toTrigger(doc) : undefined;
   }
 
   /**
    * Update an existing trigger
    */
-  updateTrigger(
+  async updateTrigger(
     triggerId: string,
     updates: Partial<Trigger>
-  ): Trigger | undefined {
-    const trigger = this.triggers.get(triggerId);
+  ): Promise<Trigger | undefined> {
+    const doc = await TriggerModel.findById(triggerId).exec();
 
-    if (!trigger) {
+    if (!doc) {
       return undefined;
     }
 
-    const updatedTrigger: Trigger = {
-      ...trigger,
-      ...updates,
-      updatedAt: new Date().toISOString(),
-    };
+    if (updates.name !== undefined) doc.name = updates.name;
+    if (updates.description !== undefined)
+      doc.description = updates.description;
+    const generated = new Map<string, string>();
+    if (updates.actions !== undefined) {
+      doc.actions = await this.sealActions(
+        doc.userId,
+        updates.actions,
+        doc.actions as Action[],
+        generated
+      );
+    }
+    if (updates.isActive !== undefined) doc.isActive = updates.isActive;
+    if (updates.conditions !== undefined) {
+      doc.conditions = updates.conditions;
+      doc.markModified("conditions");
+    }
+
+    // Re-arm one-shot triggers when their schedule changes or they are re-activated
+    if (updates.conditions !== undefined || updates.isActive === true) {
+      const nextRunAt = this.computeNextRunAt(
+        doc.type as TriggerType,
+        doc.conditions
+      );
+      doc.nextRunAt = nextRunAt ?? undefined;
+    }
 
-    this.triggers.set(triggerId, updatedTrigger);
-    return updatedTrigger;
+    await doc.save();
+    return this.revealGeneratedSecrets(this.toTrigger(doc), generated);
   }
 
   /**
-   * Delete a trigger
+   * Delete a trigger and its execution history
    */
-  deleteTrigger(triggerId: string): boolean {
-    return this.triggers.delete(triggerId);
+  async deleteTrigger(triggerId: string): Promise<boolean> {
+    const result = await TriggerModel.findByIdAndDelete(triggerId).exec();
+    if (!result) {
+      return false;
+    }
+    await TriggerRun.deleteMany({ triggerId }).exec();
+    return true;
   }
 
   /**
    * Activate a trigger
    */
-  activateTrigger(triggerId: string): Trigger | undefined {
+  async activateTrigger(triggerId: string): Promise<Trigger | undefined> {
     return this.updateTrigger(triggerId, { isActive: true });
   }
 
   /**
    * Deactivate a trigger
    */
-  deactivateTrigger(triggerId: string): Trigger | undefined {
+  async deactivateTrigger(triggerId: string): Promise<Trigger | undefined> {
     return this.updateTrigger(triggerId, { isActive: false });
   }
 
+  /**
+   * Get execution history for a trigger, most recent first
+   */
+  async getTriggerRuns(
+    triggerId: string,
+    limit: number = 50
+  ): Promise<ITriggerRun[]> {
+    return TriggerRun.find({ triggerId })
+      .sort({ startedAt: -1 })
+      .limit(limit)
+      .lean<ITriggerRun[]>()
+      .exec();
+  }
+
   /**
    * Manually execute a trigger
    */
-  async executeTrigger(triggerId: string): Promise<boolean> {
-    const trigger = this.triggers.get(triggerId);
+  async executeTrigger(
+    triggerId: string,
+    context: TriggerRunContext = { source: "manual" }
+  ): Promise<boolean> {
+    const doc = await TriggerModel.findById(triggerId).exec();
 
-    if (!trigger || !trigger.isActive) {
+    if (!doc || !doc.isActive) {
       return false;
     }
 
-    try {
-      // Record that the trigger was executed
-      this.updateTrigger(triggerId, {
-        lastTriggered: new Date().toISOString(),
-      });
+    doc.lastTriggered = new Date();
+    await doc.save();
 
-      // Execute all actions
-      for (const action of trigger.actions) {
-        await this.executeAction(action);
-      }
+    const run = await this.runTrigger(this.toTrigger(doc, false), context);
+    return run.status !== "failure";
+  }
 
-      return true;
-    } catch (error) {
-      console.error(`Error executing trigger ${triggerId}:`, error);
-      return false;
+  /**
+   * Execute all actions of a trigger and record the run
+   */
+  private async runTrigger(
+    trigger: Trigger,
+    context: TriggerRunContext
+  ): Promise<ITriggerRun> {
+    const startedAt = new Date();
+    const actionResults: ITriggerActionResult[] = [];
+
+    for (const action of trigger.actions) {
+      const actionStart = Date.now();
+      try {
+        const result = await this.executeAction(action, trigger, context);
+        actionResults.push({
+          actionId: action.id,
+          type: action.type,
+          status: "success",
+          result,
+          durationMs: Date.now() - actionStart,
+        });
+      } catch (error) {
+        logger.error(
+          `Action ${action.id} of trigger ${trigger.id} failed`,
+          error as Error
+        );
+        actionResults.push({
+          actionId: action.id,
+          type: action.type,
+          status: "failure",
+          error: (error as Error).message,
+          durationMs: Date.now() - actionStart,
+        });
+      }
     }
+
+    const failures = actionResults.filter((r) => r.status === "failure");
+    const status =
+      failures.length === 0
+        ? "success"
+        : failures.length === actionResults.length
+          ? "failure"
+          : "partial";
+
+    const run = await TriggerRun.create({
+      triggerId: trigger.id,
+      userId: trigger.userId,
+      source: context.source,
+      eventType: context.eventType,
+      eventData: context.eventData,
+      status,
+      actionResults,
+      startedAt,
+      durationMs: Date.now() - startedAt.getTime(),
+    });
+
+    logger.info(
+      `Trigger ${trigger.id} ran from ${context.source} with status ${status}`
+    );
+    return run;
   }
 
   /**
-   * Execute a single action
+   * Execute a single action. Config strings may reference the trigger and
+   * event through `{{...}}` templates.
    */
-  private async executeAction(action: Action): Promise<void> {
-    // This would be implemented with actual action execution logic
+  private async executeAction(
+    action: Action,
+    trigger: Trigger,
+    context: TriggerRunContext
+  ): Promise<any> {
+    const config = renderTemplate(action.config || {}, {
+      trigger: { id: trigger.id, name: trigger.name },
+      event: context.eventData || {},
+      eventType: context.eventType,
+      userId: trigger.userId,
+      firedAt: new Date().toISOString(),
+    });
+
     switch (action.type) {
-      case ActionType.NOTIFICATION:
-        console.log(
-          `Executing notification action: ${JSON.stringify(action.config)}`
+      case ActionType.NOTIFICATION: {
+        const notification = await notificationService.notify(trigger.userId, {
+          title: config.title,
+          body: config.body,
+          level: config.level,
+          link: config.link,
+          source: "trigger",
+          sourceId: trigger.id,
+          metadata: { actionId: action.id, eventType: context.eventType },
+        });
+        return { notificationId: notification._id };
+      }
+
+      case ActionType.API_CALL: {
+        const result = await webhookService.deliver({
+          url: config.url,
+          method: config.method,
+          headers: config.headers,
+          body: config.body ?? {
+            trigger: { id: trigger.id, name: trigger.name },
+            eventType: context.eventType,
+            event: context.eventData,
+            firedAt: new Date().toISOString(),
+          },
+          timeoutMs: config.timeoutMs,
+          retries: config.retries,
+          secret:
+            config.secret &&
+            (await credentialVault.decrypt(trigger.userId, config.secret)),
+        });
+        return { status: result.status, attempts: result.attempts };
+      }
+
+      case ActionType.SEND_TELEGRAM: {
+        // Only ever the owner's own chat, so triggers can't message strangers
+        const chatId = await telegramBotService.getLinkedChatId(trigger.userId);
+        if (!chatId) {
+          throw new Error(`No Telegram chat linked for user ${trigger.userId}`);
+        }
+        const sent = await telegramBotService.sendMessageToChatId(
+          chatId,
+          config.message
         );
-        // Would integrate with notification service
-        break;
+        if (!sent) {
+          throw new Error("Telegram message could not be sent");
+        }
+        return { chatId };
+      }
 
-      case ActionType.EMAIL:
-        console.log(`Executing email action: ${JSON.stringify(action.config)}`);
-        // Would integrate with email service
-        break;
+      case ActionType.COMPANION_MESSAGE: {
+        const message = await enhancedChatService.postProactiveMessage(
+          trigger.userId,
+          {
+            prompt: config.prompt,
+            content: config.message,
+            metadata: { triggerId: trigger.id, actionId: action.id },
+          }
+        );
+        return { messageId: message.id, sessionId: message.sessionId };
+      }
 
       case ActionType.EXECUTE_FUNCTION:
-        console.log(
-          `Executing function action: ${JSON.stringify(action.config)}`
+        return actionManager.executeAction(
+          config.actionId,
+          config.parameters || {},
+          {
+            userId: trigger.userId,
+            sessionId:
+              config.sessionId ||
+              sessionService.getGlobalSessionId(trigger.userId),
+            metadata: { triggerId: trigger.id, source: "trigger" },
+          }
         );
-        // Would dynamically execute a function
-        break;
 
-      case ActionType.API_CALL:
-        console.log(
-          `Executing API call action: ${JSON.stringify(action.config)}`
-        );
-        // Would make an API call
-        break;
+      case ActionType.EMAIL:
+        throw new Error("Email delivery is not configured");
 
       default:
         throw new Error(`Unsupported action type: ${action.type}`);
@@ -217,70 +807,123 @@ class TriggersService {
   }
 
   /**
-   * Process time-based triggers
-   * This would be called by a scheduler
+   * Process time-based triggers. Called by the ticking scheduler.
    */
-  processTimeTriggers(): void {
-    const now = new Date();
-
-    Array.from(this.triggers.values())
-      .filter(
-        (trigger) => trigger.isActive && trigger.type === TriggerType.TIME
-      )
-      .forEach((trigger) => {
-        // Check if the time condition is met
-        const shouldExecute = this.evaluateTimeCondition(
-          trigger.conditions,
-          now
-        );
+  async processTimeTriggers(now: Date = new Date()): Promise<void> {
+    if (this.isTicking) {
+      return;
+    }
+    this.isTicking = true;
 
-        if (shouldExecute) {
-          this.executeTrigger(trigger.id);
+    try {
+      const minuteStart = new Date(now);
+      minuteStart.setSeconds(0, 0);
+
+      // Recurring cron triggers matching the current minute
+      const cronTriggers = await TriggerModel.find({
+        isActive: true,
+        type: TriggerType.TIME,
+        "conditions.cron": { $exists: true, $ne: "" },
+      }).exec();
+
+      for (const doc of cronTriggers) {
+        const { cron, timezone } = doc.conditions as TimeConditions;
+        try {
+          if (!matchesCron(cron!, now, timezone)) {
+            continue;
+          }
+        } catch (error) {
+          logger.warn(`Skipping trigger ${doc._id} with invalid cron`, {
+            cron,
+          });
+          continue;
         }
-      });
-  }
 
-  /**
-   * Process event-based triggers
-   * This would be called when events occur in the system
-   */
-  processEventTriggers(eventType: string, eventData: any): void {
-    Array.from(this.triggers.values())
-      .filter(
-        (trigger) =>
-          trigger.isActive &&
-          trigger.type === TriggerType.EVENT &&
-          trigger.conditions.eventType === eventType
-      )
-      .forEach((trigger) => {
-        // Check if the event data meets the conditions
-        const shouldExecute = this.evaluateEventCondition(
-          trigger.conditions,
-          eventData
-        );
+        // Claim this minute so concurrent ticks (or instances) don't double-fire
+        const claimed = await TriggerModel.findOneAndUpdate(
+          {
+            _id: doc._id,
+            isActive: true,
+            $or: [
+              { lastTriggered: { $exists: false } },
+              { lastTriggered: { $lt: minuteStart } },
+            ],
+          },
+          { $set: { lastTriggered: now } },
+          { new: true }
+        ).exec();
+
+        if (claimed) {
+          await this.runTrigger(this.toTrigger(claimed, false), {
+            source: "time",
+          });
+        }
+      }
 
-        if (shouldExecute) {
-          this.executeTrigger(trigger.id);
+      // Due one-shot triggers, deactivated as they are claimed
+      const dueTriggers = await TriggerModel.find({
+        isActive: true,
+        type: TriggerType.TIME,
+        nextRunAt: { $lte: now },
+      }).exec();
+
+      for (const doc of dueTriggers) {
+        const claimed = await TriggerModel.findOneAndUpdate(
+          { _id: doc._id, isActive: true, nextRunAt: { $lte: now } },
+          {
+            $set: { isActive: false, lastTriggered: now },
+            $unset: { nextRunAt: 1 },
+          },
+          { new: true }
+        ).exec();
+
+        if (claimed) {
+          await this.runTrigger(this.toTrigger(claimed, false), {
+            source: "time",
+          });
         }
-      });
+      }
+    } catch (error) {
+      logger.error("Error processing time triggers", error as Error);
+    } finally {
+      this.isTicking = false;
+    }
   }
 
   /**
-   * Evaluate time-based conditions
+   * Process event-based triggers for the user the event belongs to
    */
-  private evaluateTimeCondition(conditions: any, currentTime: Date): boolean {
-    // Implement time condition evaluation logic
-    // This is a placeholder implementation
-    return true;
-  }
+  async processEventTriggers(
+    eventType: string,
+    eventData: Record<string, any>
+  ): Promise<void> {
+    const userId = eventData?.userId;
+    if (!userId) {
+      logger.warn(`Ignoring ${eventType} event without a userId`);
+      return;
+    }
 
-  /**
-   * Evaluate event-based conditions
-   */
-  private evaluateEventCondition(conditions: any, eventData: any): boolean {
-    // Implement event condition evaluation logic
-    // This is a placeholder implementation
-    return true;
+    const docs = await TriggerModel.find({
+      userId,
+      isActive: true,
+      type: TriggerType.EVENT,
+      "conditions.eventType": eventType,
+    }).exec();
+
+    for (const doc of docs) {
+      const { match } = doc.conditions as EventConditions;
+      if (match && !evaluateCondition(match, eventData)) {
+        continue;
+      }
+
+      doc.lastTriggered = new Date();
+      await doc.save();
+      await this.runTrigger(this.toTrigger(doc, false), {
+        source: "event",
+        eventType,
+        eventData,
+      });
+    }
   }
 }
 
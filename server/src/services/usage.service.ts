@@ -0,0 +1,337 @@
+import { isValidObjectId } from "mongoose";
+import { User } from "../models/user.model";
+import { UsageRecord } from "../models/usage-record.model";
+import {
+  DEFAULT_PLAN,
+  PlanDefinition,
+  PlanId,
+  getPlan,
+} from "../constants/plans";
+import { loggerFactory } from "../utils/logger.service";
+
+const logger = loggerFactory.getLogger("UsageService");
+
+const TOTALS_CACHE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Purpose recorded for chat replies; each one counts as a message
+export const CHAT_PURPOSE = "chat";
+
+/**
+ * One model call to meter
+ */
+export interface UsageEntry {
+  userId: string;
+  provider: string;
+  model: string;
+  purpose: string;
+  promptTokens: number;
+  completionTokens: number;
+  sessionId?: string;
+}
+
+export interface UsageTotals {
+  tokens: number;
+  messages: number;
+}
+
+export interface QuotaUsage {
+  used: number;
+  limit: number | null; // Null when the plan has no limit
+}
+
+/**
+ * Where a user stands against their plan for the current month
+ */
+export interface QuotaStatus {
+  plan: PlanId;
+  planName: string;
+  periodStart: Date;
+  periodEnd: Date;
+  tokens: QuotaUsage;
+  messages: QuotaUsage;
+  exceeded: boolean; // Chat replies are refused
+  nearLimit: boolean; // Background calls are skipped
+}
+
+/**
+ * Usage for one day, with tokens broken down by purpose
+ */
+export interface DailyUsage {
+  date: string; // YYYY-MM-DD (UTC)
+  tokens: number;
+  messages: number;
+  byPurpose: Record<string, number>;
+}
+
+/**
+ * Quota periods are calendar months in UTC
+ */
+export function getPeriodBounds(now: Date = new Date()): {
+  start: Date;
+  end: Date;
+} {
+  return {
+    start: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+    end: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)),
+  };
+}
+
+/**
+ * Compare usage with a plan's limits
+ */
+export function evaluateQuota(
+  plan: PlanDefinition,
+  totals: UsageTotals
+): { exceeded: boolean; nearLimit: boolean } {
+  const checks: Array<[number, number | null]> = [
+    [totals.tokens, plan.monthlyTokens],
+    [totals.messages, plan.monthlyMessages],
+  ];
+  const limited = checks.filter(
+    (check): check is [number, number] => check[1] !== null
+  );
+  return {
+    exceeded: limited.some(([used, limit]) => used >= limit),
+    nearLimit: limited.some(
+      ([used, limit]) => used >= limit * plan.backgroundCutoff
+    ),
+  };
+}
+
+/**
+ * What to tell a user whose quota is used up
+ */
+export function quotaExceededMessage(quota: QuotaStatus): string {
+  const resetsOn = quota.periodEnd.toISOString().slice(0, 10);
+  return `You've reached this month's usage limit on the ${quota.planName} plan. It resets on ${resetsOn}, or you can upgrade your plan to keep chatting now.`;
+}
+
+/**
+ * Meters model calls per user and checks them against the user's plan
+ */
+class UsageService {
+  // Month-to-date totals and plan per user, kept current by record()
+  private cache: Map<
+    string,
+    {
+      plan: PlanDefinition;
+      periodStart: number;
+      totals: UsageTotals;
+      expiresAt: number;
+    }
+  > = new Map();
+
+  /**
+   * Store a metered call. Never throws, so metering can't break generation.
+   */
+  async record(entry: UsageEntry): Promise<void> {
+    const promptTokens = Math.max(0, Math.round(entry.promptTokens || 0));
+    const completionTokens = Math.max(
+      0,
+      Math.round(entry.completionTokens || 0)
+    );
+
+    const cached = this.cache.get(entry.userId);
+    if (cached && cached.periodStart === getPeriodBounds().start.getTime()) {
+      cached.totals.tokens += promptTokens + completionTokens;
+      if (entry.purpose === CHAT_PURPOSE) {
+        cached.totals.messages += 1;
+      }
+    }
+
+    try {
+      await UsageRecord.create({
+        userId: entry.userId,
+        provider: entry.provider,
+        llmModel: entry.model,
+        purpose: entry.purpose,
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens,
+        sessionId: entry.sessionId,
+      });
+    } catch (error) {
+      logger.warn(`Failed to record usage for user ${entry.userId}`, {
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * Usage for the current month against the user's plan
+   */
+  async getQuotaStatus(userId: string): Promise<QuotaStatus> {
+    const { start, end } = getPeriodBounds();
+    const { plan, totals } = await this.load(userId, start);
+
+    return {
+      plan: plan.id,
+      planName: plan.name,
+      periodStart: start,
+      periodEnd: end,
+      tokens: { used: totals.tokens, limit: plan.monthlyTokens },
+      messages: { used: totals.messages, limit: plan.monthlyMessages },
+      ...evaluateQuota(plan, totals),
+    };
+  }
+
+  /**
+   * The user's quota status when chat replies should be refused, else null.
+   * Fails closed: when usage can't be read the user is treated as over the
+   * default plan's limits, so an outage can't hand out unlimited calls.
+   */
+  async getExceededQuota(userId: string): Promise<QuotaStatus | null> {
+    try {
+      const status = await this.getQuotaStatus(userId);
+      return status.exceeded ? status : null;
+    } catch (error) {
+      logger.warn(`Failed to check quota for user ${userId}`, {
+        error: (error as Error).message,
+      });
+      const { start, end } = getPeriodBounds();
+      const plan = getPlan(DEFAULT_PLAN);
+      return {
+        plan: plan.id,
+        planName: plan.name,
+        periodStart: start,
+        periodEnd: end,
+        tokens: { used: 0, limit: plan.monthlyTokens },
+        messages: { used: 0, limit: plan.monthlyMessages },
+        exceeded: true,
+        nearLimit: true,
+      };
+    }
+  }
+
+  /**
+   * Whether optional background calls (companion thinking, insight
+   * extraction) should run for the user. Errs on the side of running them.
+   */
+  async allowsBackground(userId: string): Promise<boolean> {
+    try {
+      const status = await this.getQuotaStatus(userId);
+      if (status.nearLimit) {
+        logger.debug(
+          `User ${userId} is near their ${status.plan} limits, skipping background model call`
+        );
+      }
+      return !status.nearLimit;
+    } catch (error) {
+      logger.warn(`Failed to check usage for user ${userId}`, {
+        error: (error as Error).message,
+      });
+      return true;
+    }
+  }
+
+  /**
+   * Day by day usage for the last `days` days, oldest first. Days without
+   * any calls are included with zero usage.
+   */
+  async getDailyUsage(userId: string, days = 30): Promise<DailyUsage[]> {
+    const today = new Date();
+    const since = new Date(
+      Date.UTC(
+        today.getUTCFullYear(),
+        today.getUTCMonth(),
+        today.getUTCDate() - (days - 1)
+      )
+    );
+
+    const rows: Array<{
+      _id: { date: string; purpose: string };
+      tokens: number;
+      calls: number;
+    }> = await UsageRecord.aggregate([
+      { $match: { userId, createdAt: { $gte: since } } },
+      {
+        $group: {
+          _id: {
+            date: {
+              $dateToString: { format: "%Y-%m-%d", date: "$createdAt" },
+            },
+            purpose: "$purpose",
+          },
+          tokens: { $sum: "$totalTokens" },
+          calls: { $sum: 1 },
+        },
+      },
+    ]);
+
+    const byDate = new Map<string, DailyUsage>();
+    for (let offset = 0; offset < days; offset++) {
+      const date = new Date(since.getTime() + offset * DAY_MS)
+        .toISOString()
+        .slice(0, 10);
+      byDate.set(date, { date, tokens: 0, messages: 0, byPurpose: {} });
+    }
+    for (const row of rows) {
+      const day = byDate.get(row._id.date);
+      if (!day) continue;
+      day.tokens += row.tokens;
+      day.byPurpose[row._id.purpose] =
+        (day.byPurpose[row._id.purpose] || 0) + row.tokens;
+      if (row._id.purpose === CHAT_PURPOSE) {
+        day.messages += row.calls;
+      }
+    }
+
+    return Array.from(byDate.values());
+  }
+
+  /**
+   * Drop cached totals for a user
+   */
+  clearUserCache(userId: string): void {
+    this.cache.delete(userId);
+  }
+
+  private async load(
+    userId: string,
+    periodStart: Date
+  ): Promise<{ plan: PlanDefinition; totals: UsageTotals }> {
+    const cached = this.cache.get(userId);
+    if (
+      cached &&
+      cached.periodStart === periodStart.getTime() &&
+      cached.expiresAt > Date.now()
+    ) {
+      return cached;
+    }
+
+    const [user, rows] = await Promise.all([
+      // Provisional users (e.g. "telegram_<id>") have no user document and
+      // are on the default plan
+      isValidObjectId(userId)
+        ? User.findById(userId).select("subscription").lean()
+        : null,
+      UsageRecord.aggregate([
+        { $match: { userId, createdAt: { $gte: periodStart } } },
+        {
+          $group: {
+            _id: null,
+            tokens: { $sum: "$totalTokens" },
+            messages: {
+              $sum: { $cond: [{ $eq: ["$purpose", CHAT_PURPOSE] }, 1, 0] },
+            },
+          },
+        },
+      ]),
+    ]);
+
+    const entry = {
+      plan: getPlan(user?.subscription),
+      periodStart: periodStart.getTime(),
+      totals: {
+        tokens: rows[0]?.tokens || 0,
+        messages: rows[0]?.messages || 0,
+      },
+      expiresAt: Date.now() + TOTALS_CACHE_MS,
+    };
+    this.cache.set(userId, entry);
+    return entry;
+  }
+}
+
+export const usageService = new UsageService();
@@ -4,11 +4,19 @@ import {
   IUserInterest,
   IIntegration,
   IUserGoal,
+  UserGoalStatus,
 } from "../models/user-state.model";
 import { loggerFactory } from "../utils/logger.service";
+import { credentialVault } from "./credential-vault.service";
 
 const logger = loggerFactory.getLogger("UserStateService");
 
+const GOAL_STATUSES: UserGoalStatus[] = [
+  "not_started",
+  "in_progress",
+  "completed",
+];
+
 class UserStateService {
   /**
    * Get or create the user state document for a given user ID.
@@ -107,7 +115,8 @@ class UserStateService {
 
   /**
    * Update the user's integrations.
-   * Replaces the entire integrations array.
+   * Replaces the entire integrations array. Secrets are sealed with the
+   * credential vault; masked or missing ones keep their stored value.
    */
   async updateIntegrations(
     userId: string,
@@ -120,7 +129,21 @@ class UserStateService {
     // Add more validation as needed for specific integration types
 
     const userState = await this.getOrCreateUserState(userId);
-    userState.integrations = integrations;
+    const sealed: IIntegration[] = [];
+    for (const integration of integrations) {
+      const existing = userState.integrations.find(
+        (i) => i.platform === integration.platform
+      );
+      sealed.push({
+        ...integration,
+        credentials: await credentialVault.sealCredentials(
+          userId,
+          integration.credentials || {},
+          existing?.credentials
+        ),
+      });
+    }
+    userState.integrations = sealed;
     await userState.save();
     logger.info(`Successfully updated integrations for userId: ${userId}`);
     return userState;
@@ -139,7 +162,13 @@ class UserStateService {
    */
   async saveNotionCredentials(
     userId: string,
-    credentials: { token: string; pageId?: string; enabled?: boolean }
+    credentials: {
+      token: string;
+      pageId?: string;
+      databaseId?: string;
+      goalsDatabaseId?: string;
+      enabled?: boolean;
+    }
   ): Promise<IIntegration> {
     logger.debug(`Saving Notion credentials for userId: ${userId}`);
 
@@ -165,12 +194,18 @@ class UserStateService {
             metadata: {},
           };
 
-    // Update the integration
-    notionIntegration.credentials = {
-      ...notionIntegration.credentials,
-      token: credentials.token,
-      pageId: credentials.pageId,
-    };
+    // Update the integration, sealing the token
+    notionIntegration.credentials = await credentialVault.sealCredentials(
+      userId,
+      {
+        ...notionIntegration.credentials,
+        token: credentials.token,
+        pageId: credentials.pageId,
+        databaseId: credentials.databaseId,
+        goalsDatabaseId: credentials.goalsDatabaseId,
+      },
+      notionIntegration.credentials
+    );
 
     // Update enabled state if provided
     if (credentials.enabled !== undefined) {
@@ -194,11 +229,16 @@ class UserStateService {
   }
 
   /**
-   * Get Notion credentials for a user
+   * Get Notion credentials for a user. The token is sealed; open it with
+   * credentialVault.decrypt.
    */
-  async getNotionCredentials(
-    userId: string
-  ): Promise<{ token?: string; pageId?: string; enabled?: boolean } | null> {
+  async getNotionCredentials(userId: string): Promise<{
+    token?: string;
+    pageId?: string;
+    databaseId?: string;
+    goalsDatabaseId?: string;
+    enabled?: boolean;
+  } | null> {
     logger.debug(`Getting Notion credentials for userId: ${userId}`);
 
     const userState = await this.getOrCreateUserState(userId);
@@ -213,6 +253,8 @@ class UserStateService {
     return {
       token: notionIntegration.credentials.token,
       pageId: notionIntegration.credentials.pageId,
+      databaseId: notionIntegration.credentials.databaseId,
+      goalsDatabaseId: notionIntegration.credentials.goalsDatabaseId,
       enabled: notionIntegration.enabled,
     };
   }
@@ -228,7 +270,9 @@ class UserStateService {
 
   /**
    * Update the user's goals.
-   * Replaces the entire goals array.
+   * Replaces the entire goals array. Goals are matched to the existing ones
+   * by Notion page or text so their sync state carries over, and `updatedAt`
+   * only moves for goals that actually changed.
    */
   async updateUserGoals(
     userId: string,
@@ -241,8 +285,12 @@ class UserStateService {
       throw new Error("Goals must be an array.");
     }
 
+    const userState = await this.getOrCreateUserState(userId);
+    const existingGoals = userState.userGoals || [];
+    const now = new Date();
+
     // Format and validate goals
-    const formattedGoals = goals.map((goal) => {
+    const formattedGoals: IUserGoal[] = goals.map((goal) => {
       if (!goal.goal || typeof goal.priority !== "number") {
         throw new Error(
           "Each goal must have a goal description and priority number."
@@ -253,18 +301,37 @@ class UserStateService {
         throw new Error("Goal priority must be between 1 and 10.");
       }
 
+      const existing =
+        existingGoals.find(
+          (g) => goal.notionPageId && g.notionPageId === goal.notionPageId
+        ) || existingGoals.find((g) => g.goal === goal.goal);
+      const progress = goal.progress || 0;
+      const status = GOAL_STATUSES.includes(goal.status as UserGoalStatus)
+        ? goal.status
+        : existing?.status;
+      const changed =
+        !existing ||
+        existing.goal !== goal.goal ||
+        existing.priority !== goal.priority ||
+        (existing.progress || 0) !== progress ||
+        existing.status !== status;
+
       return {
         goal: goal.goal,
         priority: goal.priority,
-        progress: goal.progress || 0,
+        progress,
+        status,
         createdAt: goal.createdAt || new Date(),
+        updatedAt: changed ? now : existing.updatedAt,
+        notionPageId: existing?.notionPageId,
+        notionLastEditedAt: existing?.notionLastEditedAt,
+        notionSyncedAt: existing?.notionSyncedAt,
       };
     });
 
     // Sort by priority (highest first)
     formattedGoals.sort((a, b) => b.priority - a.priority);
 
-    const userState = await this.getOrCreateUserState(userId);
     userState.userGoals = formattedGoals;
     await userState.save();
 
@@ -42,6 +42,14 @@ import User, { IUser } from "../models/user.model";class UserService {
     return User.findById(id).exec();
   }
 
+  async verifyPassword(id: string, password: string): Promise<boolean> {
+    const user = await User.findById(id).select("+password").exec();
+    if (!user || !user.password) {
+      return false;
+    }
+    return user.comparePassword(password);
+  }
+
   async updateUserPrompt(
     userId: string,
     prompt: string
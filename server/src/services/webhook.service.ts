@@ -0,0 +1,222 @@
+import axios, { Method } from "axios";
+import crypto from "crypto";
+import dns from "dns";
+import http from "http";
+import https from "https";
+import net from "net";
+import { loggerFactory } from "../utils/logger.service";
+
+const logger = loggerFactory.getLogger("WebhookService");
+
+// Longest a single delivery attempt may take
+export const MAX_WEBHOOK_TIMEOUT_MS = 30000;
+// Most retries after the first attempt
+export const MAX_WEBHOOK_RETRIES = 5;
+
+export interface WebhookRequest {
+  url: string;
+  method?: Method;
+  headers?: Record<string, string>;
+  body?: any;
+  timeoutMs?: number;
+  retries?: number;
+  secret?: string; // HMAC-SHA256 signing secret
+}
+
+export interface WebhookResult {
+  status: number;
+  attempts: number;
+  response?: any;
+}
+
+/**
+ * Whether webhooks must not reach an address: loopback, private, carrier-grade
+ * NAT, link-local (which covers cloud metadata endpoints), multicast and
+ * unspecified addresses. Anything that isn't an IP address is blocked too.
+ */
+export function isBlockedAddress(address: string): boolean {
+  if (net.isIPv4(address)) {
+    const [a, b] = address.split(".").map(Number);
+    return (
+      a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      (a === 198 && (b === 18 || b === 19)) ||
+      a >= 224
+    );
+  }
+  if (net.isIPv6(address)) {
+    const lower = address.toLowerCase();
+    // IPv4-mapped addresses, dotted or in hex
+    const dotted = lower.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+    if (dotted) return isBlockedAddress(dotted[1]);
+    const hex = lower.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+    if (hex) {
+      const high = parseInt(hex[1], 16);
+      const low = parseInt(hex[2], 16);
+      return isBlockedAddress(
+        [high >> 8, high & 255, low >> 8, low & 255].join(".")
+      );
+    }
+    return (
+      lower === "::" ||
+      lower === "::1" ||
+      /^f[cd]/.test(lower) || // Unique local
+      /^fe[89ab]/.test(lower) || // Link-local
+      /^ff/.test(lower) // Multicast
+    );
+  }
+  return true;
+}
+
+/**
+ * Why a webhook URL can't be used, or null. Catches what can be known
+ * without DNS; hostnames are checked again when they are resolved.
+ */
+export function validateWebhookUrl(url: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return "Webhook URLs must be absolute http(s) URLs";
+  }
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    return "Webhook URLs must use http or https";
+  }
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, "");
+  if (
+    hostname === "localhost" ||
+    hostname.endsWith(".localhost") ||
+    (net.isIP(hostname) && isBlockedAddress(hostname))
+  ) {
+    return "Webhook URLs can't point at local or private addresses";
+  }
+  return null;
+}
+
+// Refuse to connect when a hostname resolves to a blocked address. Checked
+// at connection time so a DNS answer can't change between check and use.
+const safeLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, options, (error, address, family) => {
+    if (error) return callback(error, address, family);
+    const addresses = Array.isArray(address) ? address : [{ address }];
+    if (addresses.some((entry) => isBlockedAddress(entry.address))) {
+      return callback(
+        new Error(`Webhook host ${hostname} resolves to a blocked address`),
+        address,
+        family
+      );
+    }
+    callback(null, address, family);
+  });
+};
+
+const httpAgent = new http.Agent({ lookup: safeLookup });
+const httpsAgent = new https.Agent({ lookup: safeLookup });
+
+/**
+ * Delivers outbound webhooks with timeouts, retries and HMAC signatures.
+ *
+ * Signed requests carry `X-Synapse-Timestamp` and
+ * `X-Synapse-Signature: sha256=<hex>`, where the HMAC is computed over
+ * `${timestamp}.${rawBody}` so receivers can reject replays. Requests only
+ * go to public addresses and redirects aren't followed.
+ */
+class WebhookService {
+  sign(secret: string, timestamp: string, payload: string): string {
+    return crypto
+      .createHmac("sha256", secret)
+      .update(`${timestamp}.${payload}`)
+      .digest("hex");
+  }
+
+  async deliver(request: WebhookRequest): Promise<WebhookResult> {
+    const urlError = validateWebhookUrl(request.url);
+    if (urlError) {
+      throw new Error(urlError);
+    }
+    const method = (request.method || "POST").toUpperCase() as Method;
+    const payload =
+      request.body === undefined
+        ? ""
+        : typeof request.body === "string"
+          ? request.body
+          : JSON.stringify(request.body);
+    const retries = Number.isInteger(request.retries)
+      ? Math.min(Math.max(request.retries as number, 0), MAX_WEBHOOK_RETRIES)
+      : 2;
+    const timeout =
+      Number.isInteger(request.timeoutMs) && (request.timeoutMs as number) > 0
+        ? Math.min(request.timeoutMs as number, MAX_WEBHOOK_TIMEOUT_MS)
+        : 10000;
+    const secret = request.secret;
+
+    let lastError: Error | null = null;
+
+    for (let attempt = 1; attempt <= retries + 1; attempt++) {
+      const timestamp = Math.floor(Date.now() / 1000).toString();
+      const headers: Record<string, string> = {
+        "Content-Type": "application/json",
+        "User-Agent": "Synapse-Webhook/1.0",
+        ...request.headers,
+      };
+      if (secret) {
+        headers["X-Synapse-Timestamp"] = timestamp;
+        headers["X-Synapse-Signature"] =
+          `sha256=${this.sign(secret, timestamp, payload)}`;
+      }
+
+      try {
+        const response = await axios.request({
+          url: request.url,
+          method,
+          headers,
+          data: payload || undefined,
+          timeout,
+          // A redirect could lead anywhere, including private addresses
+          maxRedirects: 0,
+          httpAgent,
+          httpsAgent,
+          // Resolve for every status so retry decisions are made here
+          validateStatus: () => true,
+        });
+
+        if (response.status < 400) {
+          logger.info(
+            `Webhook ${method} ${request.url} -> ${response.status} (attempt ${attempt})`
+          );
+          return {
+            status: response.status,
+            attempts: attempt,
+            response: response.data,
+          };
+        }
+
+        lastError = new Error(`Webhook responded with ${response.status}`);
+        // Client errors other than rate limiting won't succeed on retry
+        if (response.status < 500 && response.status !== 429) {
+          break;
+        }
+      } catch (error) {
+        lastError = error as Error;
+      }
+
+      if (attempt <= retries) {
+        const delayMs = 500 * Math.pow(2, attempt - 1);
+        logger.warn(
+          `Webhook ${method} ${request.url} failed (attempt ${attempt}), retrying in ${delayMs}ms`,
+          { error: lastError?.message }
+        );
+        await new Promise((resolve) => setTimeout(resolve, delayMs));
+      }
+    }
+
+    throw lastError || new Error("Webhook delivery failed");
+  }
+}
+
+export const webhookService = new WebhookService();
@@ -0,0 +1,83 @@
+import fs from "fs";
+import path from "path";
+import mongoose from "mongoose";
+
+jest.mock("../services/social.service", () => ({
+  SocialProfile: { modelName: "SocialProfile" },
+  SocialConnection: { modelName: "SocialConnection" },
+}));
+jest.mock("../services/serendipity.service", () => ({
+  SerendipitySuggestionModel: { modelName: "SerendipitySuggestion" },
+}));
+jest.mock("../services/companion-thinking.service", () => ({
+  companionThinkingService: {},
+}));
+jest.mock("../services/summary.service", () => ({ summaryService: {} }));
+jest.mock("../services/chat-session.service", () => ({
+  chatSessionManager: {},
+}));
+jest.mock("../services/ai-settings.service", () => ({
+  aiSettingsService: {},
+}));
+jest.mock("../services/social/social-media.service", () => ({
+  socialMediaService: {},
+}));
+
+import {
+  USER_COLLECTIONS,
+  getDeletionGraceDays,
+} from "../services/account.service";
+
+// Collections that aren't about one particular user
+const NOT_PER_USER = ["User", "AccountDeletion"];
+
+describe("Account export and deletion", () => {
+  afterEach(() => {
+    delete process.env.ACCOUNT_DELETION_GRACE_DAYS;
+  });
+
+  it("covers every model that stores per-user data", () => {
+    const modelsDir = path.join(__dirname, "../models");
+    for (const file of fs.readdirSync(modelsDir)) {
+      if (file.endsWith(".model.ts")) {
+        require(path.join(modelsDir, file));
+      }
+    }
+
+    const covered = USER_COLLECTIONS.map(
+      (collection) => collection.model.modelName
+    );
+    const missing = mongoose
+      .modelNames()
+      .filter((name) => !NOT_PER_USER.includes(name))
+      .filter((name) => !covered.includes(name));
+
+    expect(missing).toEqual([]);
+  });
+
+  it("leaves secrets out of the export", () => {
+    const projection = (name: string) =>
+      USER_COLLECTIONS.find((collection) => collection.name === name)
+        ?.exportProjection || "";
+
+    expect(projection("userState")).toContain(
+      "-integrations.credentials.token"
+    );
+    expect(projection("devices")).toContain("-tokenHash");
+    expect(
+      USER_COLLECTIONS.find(
+        (collection) => collection.name === "credentialKeys"
+      )?.exported
+    ).toBe(false);
+  });
+
+  it("reads the grace period from the environment", () => {
+    expect(getDeletionGraceDays()).toBe(7);
+
+    process.env.ACCOUNT_DELETION_GRACE_DAYS = "0";
+    expect(getDeletionGraceDays()).toBe(0);
+
+    process.env.ACCOUNT_DELETION_GRACE_DAYS = "soon";
+    expect(getDeletionGraceDays()).toBe(7);
+  });
+});
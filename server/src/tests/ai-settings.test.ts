@@ -0,0 +1,128 @@
+import {
+  aiSettingsService,
+  mergeParameters,
+  pickParameters,
+} from "../services/ai-settings.service";
+import { AIPurpose, LLMProvider } from "../services/model.service";
+import { userStateService } from "../services/user-state.service";
+import { sessionService } from "../services/session.service";
+
+jest.mock("../services/user-state.service", () => ({
+  userStateService: { getOrCreateUserState: jest.fn() },
+}));
+jest.mock("../services/session.service", () => ({
+  sessionService: { getSession: jest.fn(), updateSessionMetadata: jest.fn() },
+}));
+
+describe("AI settings", () => {
+  const base = { model: "gemma3:4b", temperature: 0.5, max_tokens: 150 };
+
+  const storedSettings = {
+    parameters: { model: "llama3", temperature: 0.9 },
+    purposeOverrides: {
+      [AIPurpose.SUMMARIZATION]: { model: "gpt-4o-mini" },
+    },
+    profiles: [
+      {
+        id: "fast",
+        name: "fast local",
+        parameters: { model: "llama3:8b", max_tokens: 400 },
+        purposeOverrides: {
+          [AIPurpose.THINKING]: { model: "qwen2.5:3b", temperature: 0.2 },
+        },
+        createdAt: new Date(),
+      },
+      {
+        id: "creative",
+        name: "creative cloud",
+        parameters: { model: "gemini-pro", temperature: 1.4 },
+        purposeOverrides: {},
+        createdAt: new Date(),
+      },
+    ],
+    activeProfileId: "fast",
+  };
+
+  beforeAll(() => {
+    (userStateService.getOrCreateUserState as jest.Mock).mockResolvedValue({
+      aiSettings: storedSettings,
+    });
+  });
+
+  it("only keeps persisted parameter fields", () => {
+    expect(
+      pickParameters({
+        model: "llama3",
+        apiKey: "secret",
+        temperature: 0,
+        top_p: null,
+        endpointUrl: "",
+      })
+    ).toEqual({ model: "llama3", temperature: 0 });
+  });
+
+  it("drops an inherited provider when a layer switches model", () => {
+    expect(
+      mergeParameters(
+        { ...base, provider: LLMProvider.GOOGLE },
+        { model: "llama3" }
+      )
+    ).toEqual({ ...base, model: "llama3" });
+  });
+
+  it("layers user parameters, the active profile and overrides for chat", async () => {
+    const params = await aiSettingsService.resolveParameters(
+      "user-1",
+      AIPurpose.CHAT,
+      base
+    );
+    expect(params).toEqual({
+      model: "llama3:8b",
+      temperature: 0.9,
+      max_tokens: 400,
+    });
+  });
+
+  it("applies only purpose overrides to auxiliary calls", async () => {
+    expect(
+      await aiSettingsService.resolveParameters(
+        "user-1",
+        AIPurpose.THINKING,
+        base
+      )
+    ).toEqual({ model: "qwen2.5:3b", temperature: 0.2, max_tokens: 150 });
+    expect(
+      await aiSettingsService.resolveParameters(
+        "user-1",
+        AIPurpose.SUMMARIZATION,
+        base
+      )
+    ).toEqual({ ...base, model: "gpt-4o-mini" });
+    expect(
+      await aiSettingsService.resolveParameters(
+        "user-1",
+        AIPurpose.ACTION_EXTRACTION,
+        base
+      )
+    ).toEqual(base);
+  });
+
+  it("prefers the profile pinned to the session", async () => {
+    (sessionService.getSession as jest.Mock).mockResolvedValue({
+      userId: "user-1",
+      metadata: { modelProfileId: "creative" },
+    });
+
+    const params = await aiSettingsService.resolveParameters(
+      "user-1",
+      AIPurpose.CHAT,
+      base,
+      "session-1"
+    );
+    expect(params).toEqual({
+      model: "gemini-pro",
+      temperature: 1.4,
+      max_tokens: 150,
+    });
+  });
+});
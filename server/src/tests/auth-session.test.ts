@@ -0,0 +1,112 @@
+jest.mock("../models/auth-session.model", () => ({
+  AuthSession: {
+    findById: () => ({
+      select: () => ({
+        lean: () => ({
+          exec: async () => ({ expiresAt: new Date(Date.now() + 60000) }),
+        }),
+      }),
+    }),
+  },
+}));
+
+// Stands in for the collection's unique _id
+jest.mock("../models/stream-ticket.model", () => {
+  const redeemed = new Set<string>();
+  return {
+    RedeemedStreamTicket: {
+      create: async ({ _id }: { _id: string }) => {
+        if (redeemed.has(_id)) {
+          throw Object.assign(new Error("duplicate key"), { code: 11000 });
+        }
+        redeemed.add(_id);
+      },
+    },
+  };
+});
+
+import {
+  authSessionService,
+  describeDevice,
+  hashToken,
+  parseRefreshToken,
+} from "../services/auth-session.service";
+
+describe("Auth sessions", () => {
+  beforeAll(() => {
+    process.env.JWT_SECRET = "test-secret";
+  });
+
+  it("names devices from their user agent", () => {
+    expect(
+      describeDevice(
+        "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36"
+      )
+    ).toBe("Chrome on macOS");
+    expect(
+      describeDevice(
+        "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36 Edg/124.0.0.0"
+      )
+    ).toBe("Edge on Windows");
+    expect(
+      describeDevice(
+        "Mozilla/5.0 (iPhone; CPU iPhone OS 17_4 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.4 Mobile/15E148 Safari/604.1"
+      )
+    ).toBe("Safari on iOS");
+    expect(describeDevice("curl/8.4.0")).toBe("curl");
+    expect(describeDevice(undefined)).toBe("Unknown device");
+  });
+
+  it("stores refresh tokens only as a hash", () => {
+    const hash = hashToken("session.secret");
+
+    expect(hash).toHaveLength(64);
+    expect(hash).not.toContain("secret");
+    expect(hashToken("session.secret")).toBe(hash);
+  });
+
+  it("rejects malformed refresh tokens before looking them up", async () => {
+    const token = `${"a".repeat(24)}.${"b".repeat(43)}`;
+    expect(parseRefreshToken(token)).toBe("a".repeat(24));
+
+    for (const malformed of [
+      "garbage",
+      `not-an-object-id.${"b".repeat(43)}`,
+      `${"a".repeat(24)}.short`,
+      `${"a".repeat(24)}.${"b".repeat(43)}.extra`,
+    ]) {
+      expect(parseRefreshToken(malformed)).toBeNull();
+      expect(
+        await authSessionService.refresh(malformed, {}, async () => null)
+      ).toBeNull();
+    }
+  });
+
+  it("accepts a stream ticket once and only for its session", async () => {
+    const { ticket } = authSessionService.issueStreamTicket(
+      { id: "user-1", sid: "device-1" },
+      "chat-1"
+    );
+
+    expect(
+      await authSessionService.redeemStreamTicket(ticket, "chat-2")
+    ).toBeNull();
+    expect(await authSessionService.redeemStreamTicket(ticket, "chat-1")).toBe(
+      "user-1"
+    );
+    expect(
+      await authSessionService.redeemStreamTicket(ticket, "chat-1")
+    ).toBeNull();
+  });
+
+  it("does not take a stream ticket as an access token", async () => {
+    const { ticket } = authSessionService.issueStreamTicket(
+      { id: "user-1", sid: "device-1" },
+      "chat-1"
+    );
+
+    await expect(authSessionService.verifyAccessToken(ticket)).rejects.toThrow(
+      "not an access token"
+    );
+  });
+});
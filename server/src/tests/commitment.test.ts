@@ -0,0 +1,90 @@
+jest.mock("../services/ai.service", () => ({ aiService: {} }));
+jest.mock("../services/context.service", () => ({ contextService: {} }));
+jest.mock("../services/scheduler.service", () => ({ schedulerService: {} }));
+jest.mock("../services/productivity/notion.service", () => ({
+  notionService: {},
+}));
+
+import {
+  isDuplicateTodo,
+  parseConfirmationReply,
+  parseExtractedCommitments,
+} from "../services/productivity/commitment.service";
+import { zonedTimeToDate } from "../utils/zoned-time";
+
+describe("Commitment extraction", () => {
+  it("resolves local dates and times in the user's timezone", () => {
+    expect(
+      zonedTimeToDate("2026-10-23", "18:30", "Europe/Berlin")?.toISOString()
+    ).toBe("2026-10-23T16:30:00.000Z");
+    // Berlin is back on UTC+1 after the last Sunday of October
+    expect(
+      zonedTimeToDate("2026-10-26", undefined, "Europe/Berlin")?.toISOString()
+    ).toBe("2026-10-26T08:00:00.000Z");
+    expect(zonedTimeToDate("2026-02-30", undefined, "UTC")).toBeNull();
+    expect(zonedTimeToDate("2026-10-23", "25:00", "UTC")).toBeNull();
+  });
+
+  it("keeps well-formed entries from the model output", () => {
+    const output = `Here you go:
+[{"title": "Call mum", "date": "2026-10-23", "time": "6pm", "quote": "I need to call mum on Friday"},
+ {"title": "Renew passport", "date": "null", "time": null},
+ {"title": "Dentist", "date": "next week"},
+ {"date": "2026-10-20"}]`;
+
+    expect(parseExtractedCommitments(output)).toEqual([
+      {
+        title: "Call mum",
+        date: "2026-10-23",
+        time: undefined,
+        quote: "I need to call mum on Friday",
+      },
+      {
+        title: "Renew passport",
+        date: undefined,
+        time: undefined,
+        quote: "Renew passport",
+      },
+    ]);
+    expect(parseExtractedCommitments("Nothing to add.")).toEqual([]);
+  });
+
+  it("treats the same title on the same or an unknown day as a duplicate", () => {
+    const existing = [
+      { title: "Call Mum!", day: "2026-10-23" },
+      { title: "Buy the milk" },
+    ];
+
+    expect(
+      isDuplicateTodo({ title: "to call mum", day: "2026-10-23" }, existing)
+    ).toBe(true);
+    expect(
+      isDuplicateTodo({ title: "call mum", day: "2026-11-02" }, existing)
+    ).toBe(false);
+    expect(
+      isDuplicateTodo({ title: "buy milk", day: "2026-10-20" }, existing)
+    ).toBe(true);
+  });
+
+  it("reads yes, no and numbered answers to the confirmation prompt", () => {
+    expect(parseConfirmationReply("Yes please!", 2)).toEqual({
+      confirm: [0, 1],
+      dismiss: [],
+    });
+    expect(parseConfirmationReply("nope", 2)).toEqual({
+      confirm: [],
+      dismiss: [0, 1],
+    });
+    expect(parseConfirmationReply("just 2", 3)).toEqual({
+      confirm: [1],
+      dismiss: [0, 2],
+    });
+    expect(parseConfirmationReply("what time is it?", 1)).toBeNull();
+    expect(
+      parseConfirmationReply(
+        "yes, and by the way I also wanted to tell you about my day",
+        1
+      )
+    ).toBeNull();
+  });
+});
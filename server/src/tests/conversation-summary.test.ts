@@ -0,0 +1,61 @@
+jest.mock("../services/ai.service", () => ({
+  aiService: { generateAuxiliaryResponse: jest.fn() },
+}));
+
+import { planChunks } from "../services/conversation-summary.service";
+
+const at = (minute: number) => ({
+  id: minute,
+  timestamp: new Date(Date.UTC(2024, 0, 1, 12, minute)),
+});
+
+const messages = (count: number) =>
+  Array.from({ length: count }, (_, minute) => at(minute));
+
+const ids = (chunks: Array<Array<{ id: number }>>) =>
+  chunks.map((chunk) => chunk.map((message) => message.id));
+
+describe("Conversation summary chunking", () => {
+  it("summarizes only full chunks outside the recent messages", () => {
+    // 25 candidates once the newest 10 are kept out: two full chunks of 10
+    const chunks = planChunks(messages(35), [], 10, 10);
+
+    expect(ids(chunks)).toEqual([
+      [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+      [10, 11, 12, 13, 14, 15, 16, 17, 18, 19],
+    ]);
+  });
+
+  it("skips messages a summary already covers", () => {
+    const chunks = planChunks(
+      messages(30),
+      [{ startAt: at(0).timestamp, endAt: at(9).timestamp }],
+      5,
+      10
+    );
+
+    expect(ids(chunks)).toEqual([
+      [10, 11, 12, 13, 14],
+      [15, 16, 17, 18, 19],
+    ]);
+  });
+
+  it("summarizes a gap between summaries even when it is short", () => {
+    const chunks = planChunks(
+      messages(30),
+      [
+        { startAt: at(0).timestamp, endAt: at(4).timestamp },
+        { startAt: at(7).timestamp, endAt: at(15).timestamp },
+      ],
+      5,
+      10
+    );
+
+    // 5-6 fill the gap left by an invalidated summary; 16-19 wait for more
+    expect(ids(chunks)).toEqual([[5, 6]]);
+  });
+
+  it("leaves short sessions alone", () => {
+    expect(planChunks(messages(12), [], 20, 10)).toEqual([]);
+  });
+});
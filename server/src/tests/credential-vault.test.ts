@@ -0,0 +1,53 @@
+import { randomBytes } from "crypto";
+import {
+  encryptWithKey,
+  decryptWithKey,
+  parseMasterKey,
+  maskSecret,
+  isMasked,
+} from "../services/credential-vault.service";
+
+describe("Credential vault", () => {
+  const key = randomBytes(32);
+
+  it("round-trips a secret and never repeats a ciphertext", () => {
+    const first = encryptWithKey(key, "secret_abc123", "user-1");
+    const second = encryptWithKey(key, "secret_abc123", "user-1");
+
+    expect(first).not.toEqual(second);
+    expect(first).not.toContain("secret_abc123");
+    expect(decryptWithKey(key, first, "user-1")).toBe("secret_abc123");
+  });
+
+  it("refuses a secret sealed for another user or with another key", () => {
+    const sealed = encryptWithKey(key, "secret_abc123", "user-1");
+
+    expect(() => decryptWithKey(key, sealed, "user-2")).toThrow();
+    expect(() => decryptWithKey(randomBytes(32), sealed, "user-1")).toThrow();
+  });
+
+  it("detects tampering", () => {
+    const data = Buffer.from(
+      encryptWithKey(key, "secret_abc123", "user-1"),
+      "base64"
+    );
+    data[data.length - 1] ^= 1;
+
+    expect(() =>
+      decryptWithKey(key, data.toString("base64"), "user-1")
+    ).toThrow();
+  });
+
+  it("reads master keys as base64 or hex and rejects other lengths", () => {
+    expect(parseMasterKey(key.toString("base64"))).toEqual(key);
+    expect(parseMasterKey(key.toString("hex"))).toEqual(key);
+    expect(() => parseMasterKey("too-short")).toThrow(/32 bytes/);
+  });
+
+  it("masks secrets, showing only the end of long ones", () => {
+    expect(maskSecret("secret_abcdefgh1234")).toBe("••••1234");
+    expect(maskSecret("short")).toBe("••••");
+    expect(isMasked(maskSecret("secret_abcdefgh1234"))).toBe(true);
+    expect(isMasked("secret_abcdefgh1234")).toBe(false);
+  });
+});
@@ -0,0 +1,67 @@
+import {
+  HashingEmbeddingProvider,
+  cosineSimilarity,
+  isSameEmbeddingSpace,
+} from "../services/embedding.service";
+
+jest.mock("../services/model.service", () => ({
+  modelService: {
+    getOpenAIClient: jest.fn(),
+  },
+}));
+
+describe("HashingEmbeddingProvider", () => {
+  const provider = new HashingEmbeddingProvider(384);
+
+  it("produces deterministic, normalised vectors", async () => {
+    const [a] = await provider.embed(["I love hiking in the mountains"]);
+    const [b] = await provider.embed(["I love hiking in the mountains"]);
+
+    expect(a).toHaveLength(384);
+    expect(a).toEqual(b);
+    expect(Math.sqrt(a.reduce((sum, v) => sum + v * v, 0))).toBeCloseTo(1);
+  });
+
+  it("ranks related text above unrelated text", async () => {
+    const [query, related, unrelated] = await provider.embed([
+      "hiking trips in the mountains",
+      "User enjoys hiking in the mountains on weekends",
+      "User's favourite programming language is TypeScript",
+    ]);
+
+    expect(cosineSimilarity(query, related)).toBeGreaterThan(
+      cosineSimilarity(query, unrelated)
+    );
+  });
+});
+
+describe("cosineSimilarity", () => {
+  it("returns 0 for mismatched or empty vectors", () => {
+    expect(cosineSimilarity([1, 0], [1, 0, 0])).toBe(0);
+    expect(cosineSimilarity([], [])).toBe(0);
+    expect(cosineSimilarity([0, 0], [1, 1])).toBe(0);
+  });
+
+  it("returns 1 for parallel vectors", () => {
+    expect(cosineSimilarity([1, 2, 3], [2, 4, 6])).toBeCloseTo(1);
+  });
+});
+
+describe("isSameEmbeddingSpace", () => {
+  it("requires both model and version to match", () => {
+    const signature = { model: "local/hashing-384", version: "1" };
+    expect(
+      isSameEmbeddingSpace(
+        { embeddingModel: "local/hashing-384", embeddingVersion: "1" },
+        signature
+      )
+    ).toBe(true);
+    expect(
+      isSameEmbeddingSpace(
+        { embeddingModel: "local/hashing-384", embeddingVersion: "2" },
+        signature
+      )
+    ).toBe(false);
+    expect(isSameEmbeddingSpace({}, signature)).toBe(false);
+  });
+});
@@ -0,0 +1,214 @@
+import { GameEngine } from "../services/games/game-engine";
+import { ticTacToeEngine } from "../services/games/tictactoe.engine";
+import { HangmanBoard, hangmanEngine } from "../services/games/hangman.engine";
+import {
+  WordGuessBoard,
+  scoreGuess,
+  wordGuessEngine,
+} from "../services/games/wordguess.engine";
+import { chessEngine, START_FEN } from "../services/games/chess.engine";
+
+// Play moves as a user would type them, failing on an illegal one
+const play = <TBoard>(
+  engine: GameEngine<TBoard>,
+  board: TBoard,
+  moves: string[]
+) =>
+  moves.reduce((current, notation) => {
+    const move = engine.parseMove(current, notation);
+    if (move === null || engine.validateMove(current, move)) {
+      throw new Error(`Illegal move ${notation}`);
+    }
+    return engine.applyMove(current, move);
+  }, board);
+
+describe("Game engines", () => {
+  describe("tic-tac-toe", () => {
+    it("parses moves and rejects taken squares", () => {
+      const board = ticTacToeEngine.createBoard();
+      expect(ticTacToeEngine.parseMove(board, "top left")).toEqual({
+        row: 0,
+        col: 0,
+      });
+      expect(ticTacToeEngine.parseMove(board, "b2")).toEqual({
+        row: 1,
+        col: 1,
+      });
+      expect(ticTacToeEngine.parseMove(board, "how are you?")).toBeNull();
+
+      const taken = ticTacToeEngine.applyMove(board, { row: 1, col: 1 });
+      expect(
+        ticTacToeEngine.validateMove(taken, { row: 1, col: 1 })
+      ).not.toBeNull();
+    });
+
+    it("detects wins and draws", () => {
+      const won = play(ticTacToeEngine, ticTacToeEngine.createBoard(), [
+        "a1",
+        "a2",
+        "b1",
+        "b2",
+        "c1",
+      ]);
+      expect(ticTacToeEngine.getOutcome(won).status).toBe("user_won");
+
+      const drawn = play(ticTacToeEngine, ticTacToeEngine.createBoard(), [
+        "a1",
+        "b2",
+        "c1",
+        "b1",
+        "b3",
+        "a2",
+        "c2",
+        "c3",
+        "a3",
+      ]);
+      expect(ticTacToeEngine.getOutcome(drawn).status).toBe("draw");
+    });
+
+    it("blocks an immediate win", () => {
+      const board = play(ticTacToeEngine, ticTacToeEngine.createBoard(), [
+        "a1",
+        "b2",
+        "b1",
+      ]);
+      expect(
+        ticTacToeEngine.formatMove(board, ticTacToeEngine.chooseMove(board))
+      ).toBe("top right");
+    });
+  });
+
+  describe("hangman", () => {
+    it("hides the word until the game is over", () => {
+      let board: HangmanBoard = { word: "castle", guesses: [], maxMisses: 6 };
+      expect(hangmanEngine.parseMove(board, "is there an e?")).toBe("e");
+      board = hangmanEngine.applyMove(board, "e");
+      expect(hangmanEngine.renderText(board)).toContain("_ _ _ _ _ E");
+
+      board = hangmanEngine.applyMove(board, "castle");
+      expect(hangmanEngine.getOutcome(board).status).toBe("user_won");
+      expect(hangmanEngine.validateMove(board, "a")).not.toBeNull();
+    });
+
+    it("only reads whole messages or guess phrases as guesses", () => {
+      const board: HangmanBoard = { word: "fun", guesses: [], maxMisses: 6 };
+      expect(hangmanEngine.parseMove(board, "the word is fun")).toBe("fun");
+      expect(hangmanEngine.parseMove(board, "Guess the letter E")).toBe("e");
+      expect(hangmanEngine.parseMove(board, "is it fun?")).toBeNull();
+      expect(hangmanEngine.parseMove(board, "try again")).toBeNull();
+      expect(hangmanEngine.parseMove(board, "I'll try a vowel")).toBeNull();
+    });
+  });
+
+  describe("word guess", () => {
+    it("marks repeated letters only as often as they occur", () => {
+      expect(scoreGuess("apple", "paper")).toEqual([
+        "present",
+        "present",
+        "correct",
+        "present",
+        "absent",
+      ]);
+      expect(scoreGuess("crane", "eerie")).toEqual([
+        "absent",
+        "absent",
+        "present",
+        "absent",
+        "correct",
+      ]);
+    });
+
+    it("takes only dictionary words or guess phrases as guesses", () => {
+      const board: WordGuessBoard = {
+        word: "crane",
+        guesses: [],
+        maxGuesses: 6,
+      };
+      expect(wordGuessEngine.parseMove(board, "Crane!")).toBe("crane");
+      expect(wordGuessEngine.parseMove(board, "guess 'toast'")).toBe("toast");
+      expect(wordGuessEngine.parseMove(board, "let me try again")).toBeNull();
+      expect(wordGuessEngine.parseMove(board, "hmmmm")).toBeNull();
+      expect(wordGuessEngine.validateMove(board, "xqzzt")).toBe(
+        "XQZZT isn't in my word list."
+      );
+    });
+  });
+
+  describe("chess", () => {
+    it("generates the twenty opening moves", () => {
+      expect(chessEngine.legalMoves(START_FEN)).toHaveLength(20);
+    });
+
+    it("detects checkmate", () => {
+      const board = play(chessEngine, START_FEN, [
+        "e4",
+        "e5",
+        "Bc4",
+        "Nc6",
+        "Qh5",
+        "Nf6",
+        "Qxf7#",
+      ]);
+      expect(chessEngine.getOutcome(board)).toEqual({
+        status: "user_won",
+        reason: "checkmate",
+      });
+    });
+
+    it("castles and captures en passant", () => {
+      const board = play(chessEngine, START_FEN, [
+        "e4",
+        "a6",
+        "e5",
+        "d5",
+        "exd6",
+        "a5",
+        "Nf3",
+        "a4",
+        "Be2",
+        "a3",
+      ]);
+      expect(board.split(" ")[0]).toBe(
+        "rnbqkbnr/1pp1pppp/3P4/8/8/p4N2/PPPPBPPP/RNBQK2R"
+      );
+
+      const castled = chessEngine.applyMove(
+        board,
+        chessEngine.parseMove(board, "O-O")!
+      );
+      expect(castled.split(" ")[0]).toBe(
+        "rnbqkbnr/1pp1pppp/3P4/8/8/p4N2/PPPPBPPP/RNBQ1RK1"
+      );
+    });
+
+    it("detects stalemate", () => {
+      expect(chessEngine.getOutcome("7k/5Q2/6K1/8/8/8/8/8 b - - 0 1")).toEqual({
+        status: "draw",
+        reason: "stalemate",
+      });
+    });
+
+    it("explains illegal moves", () => {
+      expect(
+        chessEngine.validateMove(
+          START_FEN,
+          chessEngine.parseMove(START_FEN, "e2e5")!
+        )
+      ).toBe("The pawn on e2 can't move to e5.");
+      expect(
+        chessEngine.validateMove(
+          START_FEN,
+          chessEngine.parseMove(START_FEN, "Ke2")!
+        )
+      ).toBe("Ke2 isn't a legal move in this position.");
+    });
+
+    it("ignores squares mentioned in conversation", () => {
+      expect(chessEngine.parseMove(START_FEN, "I think a4 is bad")).toBeNull();
+      expect(chessEngine.parseMove(START_FEN, "what about e2e4?")).toBeNull();
+      expect(chessEngine.parseMove(START_FEN, "I'll play e4")).toEqual(
+        chessEngine.parseMove(START_FEN, "e2e4")
+      );
+    });
+  });
+});
@@ -0,0 +1,61 @@
+import axios from "axios";
+import {
+  chunkText,
+  isSupportedDocument,
+  mediaService,
+} from "../services/media/media.service";
+import { usageService } from "../services/usage.service";
+
+jest.mock("axios");
+jest.mock("../services/usage.service", () => ({
+  usageService: { record: jest.fn() },
+}));
+
+describe("Media attachments", () => {
+  it("keeps short documents in a single chunk", () => {
+    expect(chunkText("  Just one paragraph.  ", 100, 20)).toEqual([
+      "Just one paragraph.",
+    ]);
+  });
+
+  it("splits long documents at paragraph ends with overlap", () => {
+    const paragraph = "word ".repeat(30).trim();
+    const text = [paragraph, paragraph, paragraph].join("\n\n");
+
+    const chunks = chunkText(text, 200, 20);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach((chunk) => expect(chunk.length).toBeLessThanOrEqual(200));
+    expect(chunks[0]).toBe(paragraph);
+    expect(chunks[chunks.length - 1].endsWith("word")).toBe(true);
+  });
+
+  it("only reads text and PDF documents", () => {
+    expect(isSupportedDocument("text/markdown")).toBe(true);
+    expect(isSupportedDocument("application/pdf")).toBe(true);
+    expect(isSupportedDocument("image/png")).toBe(false);
+    expect(isSupportedDocument(undefined)).toBe(false);
+  });
+
+  it("meters image descriptions against the user's plan", async () => {
+    (axios.post as jest.Mock).mockResolvedValue({
+      data: { response: " A cat. ", prompt_eval_count: 600, eval_count: 4 },
+    });
+
+    const description = await mediaService.describeImage(
+      "user-1",
+      Buffer.from("image"),
+      "image/jpeg"
+    );
+
+    expect(description).toBe("A cat.");
+    expect(usageService.record).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: "user-1",
+        purpose: "image_description",
+        promptTokens: 600,
+        completionTokens: 4,
+      })
+    );
+  });
+});
@@ -0,0 +1,79 @@
+jest.mock("../services/ai.service", () => ({
+  aiService: { generateAuxiliaryResponse: jest.fn() },
+}));
+jest.mock("../services/memory.service", () => ({
+  memoryService: { addMemory: jest.fn(), deleteMemory: jest.fn() },
+  MemoryType: {
+    SHORT_TERM: "short_term",
+    MEDIUM_TERM: "medium_term",
+    LONG_TERM: "long_term",
+    PERMANENT: "permanent",
+  },
+  CURRENT_MEMORY_FILTER: {},
+}));
+
+import {
+  clusterBySimilarity,
+  parseFactNumbers,
+} from "../services/memory-consolidation.service";
+
+const memory = (id: string, embedding: number[]) => ({ id, embedding });
+
+const ids = (clusters: Array<Array<{ id: string }>>) =>
+  clusters.map((cluster) => cluster.map((item) => item.id));
+
+describe("Memory consolidation", () => {
+  it("clusters memories close to a cluster's leader", () => {
+    const clusters = clusterBySimilarity(
+      [
+        memory("hiking", [1, 0, 0]),
+        memory("music", [0, 1, 0]),
+        memory("hiking trips", [0.95, 0.05, 0]),
+        memory("concerts", [0.05, 0.98, 0]),
+        memory("cooking", [0, 0, 1]),
+      ],
+      0.9
+    );
+
+    expect(ids(clusters)).toEqual([
+      ["hiking", "hiking trips"],
+      ["music", "concerts"],
+    ]);
+  });
+
+  it("doesn't chain items that are only close to each other's neighbours", () => {
+    // b is close to both, but a and c are too far apart to share a cluster
+    const clusters = clusterBySimilarity(
+      [
+        memory("a", [1, 0]),
+        memory("b", [0.92, 0.39]),
+        memory("c", [0.7, 0.71]),
+      ],
+      0.9
+    );
+
+    expect(ids(clusters)).toEqual([["a", "b"]]);
+  });
+
+  it("caps cluster size", () => {
+    const same = [1, 0];
+    const clusters = clusterBySimilarity(
+      ["a", "b", "c", "d", "e"].map((id) => memory(id, same)),
+      0.9,
+      2
+    );
+
+    expect(ids(clusters)).toEqual([
+      ["a", "b"],
+      ["c", "d"],
+    ]);
+  });
+
+  it("reads fact numbers from the model's reply", () => {
+    expect(parseFactNumbers("Contradicted: [2, 1, 2]", 3)).toEqual([2, 1]);
+    expect(parseFactNumbers("[0, 4, 3]", 3)).toEqual([3]);
+    expect(parseFactNumbers("[]", 3)).toEqual([]);
+    expect(parseFactNumbers("None of them", 3)).toEqual([]);
+    expect(parseFactNumbers("[1, 2", 3)).toEqual([]);
+  });
+});
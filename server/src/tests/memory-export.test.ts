@@ -0,0 +1,116 @@
+import {
+  validateImport,
+  renderMarkdown,
+  MemoryExport,
+} from "../services/memory-export.service";
+
+describe("Memory export and import", () => {
+  it("accepts an export file and fills in defaults", () => {
+    const { memories, errors } = validateImport({
+      version: 1,
+      memories: [
+        {
+          id: "a",
+          text: "  Lives in Berlin ",
+          category: "fact",
+          relatedMemories: ["b", 3],
+        },
+        { text: "Likes hiking", type: "permanent", pinned: true },
+      ],
+    });
+
+    expect(errors).toEqual([]);
+    expect(memories[0]).toMatchObject({
+      id: "a",
+      text: "Lives in Berlin",
+      type: "medium_term",
+      category: "fact",
+      source: "import",
+      importance: 5,
+      pinned: false,
+      relatedMemories: ["b"],
+    });
+    expect(memories[1]).toMatchObject({ type: "permanent", pinned: true });
+  });
+
+  it("reports invalid entries by index and keeps the rest", () => {
+    const { memories, errors } = validateImport([
+      { text: "" },
+      { text: "ok" },
+      { text: "bad type", type: "forever" },
+      { text: "bad importance", importance: 11 },
+      { text: "bad date", createdAt: "yesterday-ish" },
+      "not an object",
+    ]);
+
+    expect(memories.map((memory) => memory.text)).toEqual(["ok"]);
+    expect(errors.map((error) => error.index)).toEqual([0, 2, 3, 4, 5]);
+  });
+
+  it("rejects payloads that aren't a list of memories", () => {
+    expect(validateImport({ foo: 1 }).errors).toEqual([
+      {
+        index: -1,
+        message: "Expected an export file or an array of memories",
+      },
+    ]);
+  });
+
+  it("renders Markdown grouped by category with relationships", () => {
+    const data: MemoryExport = {
+      version: 1,
+      exportedAt: "2024-05-01T00:00:00.000Z",
+      memories: [
+        {
+          id: "m1",
+          text: "Enjoys hiking trips",
+          type: "long_term" as any,
+          category: "interest" as any,
+          source: "memory-consolidation",
+          importance: 7,
+          pinned: true,
+          isDeleted: false,
+          createdAt: "2024-04-01T00:00:00.000Z",
+          accessCount: 0,
+          metadata: {},
+          relatedMemories: ["m2"],
+        },
+        {
+          id: "m2",
+          text: "Likes hiking",
+          type: "medium_term" as any,
+          category: "interest" as any,
+          source: "user",
+          importance: 5,
+          pinned: false,
+          isDeleted: false,
+          createdAt: "2024-03-01T00:00:00.000Z",
+          accessCount: 2,
+          metadata: { sessionId: "s1" },
+          relatedMemories: [],
+          mergedInto: "m1",
+        },
+      ],
+    };
+
+    expect(renderMarkdown(data)).toBe(
+      [
+        "# Memories",
+        "",
+        "Exported 2024-05-01T00:00:00.000Z · 2 memories",
+        "",
+        "## Interests",
+        "",
+        "- Enjoys hiking trips",
+        "  - id `m1` · long_term · importance 7 · source memory-consolidation · created 2024-04-01T00:00:00.000Z",
+        "  - pinned",
+        "  - related: `m2`",
+        "- Likes hiking",
+        "  - id `m2` · medium_term · importance 5 · source user · created 2024-03-01T00:00:00.000Z",
+        "  - merged into `m1`",
+        '  - metadata: `{"sessionId":"s1"}`',
+        "",
+      ].join("\n")
+    );
+  });
+});
@@ -0,0 +1,212 @@
+import http from "http";
+import { AddressInfo } from "net";
+
+const userState: any = {
+  userId: "user-1",
+  integrations: [
+    {
+      platform: "notion",
+      enabled: true,
+      credentials: { token: "secret", goalsDatabaseId: "goals-db" },
+      metadata: {},
+    },
+  ],
+  userGoals: [],
+  markModified: jest.fn(),
+  save: jest.fn(),
+};
+
+jest.mock("../services/user-state.service", () => ({
+  userStateService: {
+    getOrCreateUserState: jest.fn(async () => userState),
+    getNotionCredentials: jest.fn(async () => ({
+      token: "secret",
+      goalsDatabaseId: "goals-db",
+      enabled: true,
+    })),
+  },
+}));
+jest.mock("../models/user-state.model", () => ({
+  UserState: {
+    updateOne: jest.fn(() => ({
+      exec: jest.fn(async () => {
+        userState.integrations[0].metadata.notionSync = { goals: synced() };
+      }),
+    })),
+  },
+}));
+jest.mock("../services/scheduler.service", () => ({ schedulerService: {} }));
+
+import {
+  notionSyncService,
+  resolveSyncAction,
+} from "../services/productivity/notion-sync.service";
+
+// The goal database as the mock Notion API holds it
+let pages: any[] = [];
+let nextId = 1;
+
+function synced() {
+  return {
+    databaseId: "goals-db",
+    pageIds: userState.userGoals.map((g: any) => g.notionPageId),
+  };
+}
+
+function goalPage(title: string, status: string, progress: number) {
+  return {
+    id: `page-${nextId++}`,
+    url: "https://notion.so/page",
+    last_edited_time: new Date().toISOString(),
+    properties: {
+      Name: { title: [{ plain_text: title }] },
+      Status: { select: { name: status } },
+      Progress: { number: progress },
+    },
+  };
+}
+
+/**
+ * Minimal Notion REST API: database queries (one page per response, to
+ * exercise pagination), page creation and page updates
+ */
+const server = http.createServer((req, res) => {
+  let body = "";
+  req.on("data", (chunk) => (body += chunk));
+  req.on("end", () => {
+    const json = body ? JSON.parse(body) : {};
+    const send = (data: unknown, status = 200) => {
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(data));
+    };
+
+    if (req.headers.authorization !== "Bearer secret") {
+      return send({ message: "unauthorized" }, 401);
+    }
+    if (req.method === "POST" && req.url === "/databases/goals-db/query") {
+      const start = json.start_cursor ? Number(json.start_cursor) : 0;
+      return send({
+        results: pages.slice(start, start + 1),
+        has_more: start + 1 < pages.length,
+        next_cursor: String(start + 1),
+      });
+    }
+    if (req.method === "POST" && req.url === "/pages") {
+      const page = {
+        id: `page-${nextId++}`,
+        url: "https://notion.so/page",
+        last_edited_time: new Date().toISOString(),
+        properties: json.properties,
+      };
+      page.properties.Name.title[0].plain_text =
+        json.properties.Name.title[0].text.content;
+      pages.push(page);
+      return send(page);
+    }
+    const page = pages.find((p) => req.url === `/pages/${p.id}`);
+    if (req.method === "PATCH" && page) {
+      Object.assign(page.properties, json.properties);
+      page.last_edited_time = new Date().toISOString();
+      return send(page);
+    }
+    send({ message: "not found" }, 404);
+  });
+});
+
+describe("Notion sync", () => {
+  beforeAll(async () => {
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    const { port } = server.address() as AddressInfo;
+    process.env.NOTION_API_BASE_URL = `http://127.0.0.1:${port}`;
+  });
+
+  afterAll(async () => {
+    delete process.env.NOTION_API_BASE_URL;
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("lets the later edit win when both sides changed", () => {
+    const lastSync = new Date("2026-10-01T10:00:00Z");
+    const state = {
+      lastNotionEditedAt: lastSync,
+      lastSyncedAt: lastSync,
+    };
+
+    expect(
+      resolveSyncAction({
+        ...state,
+        notionEditedAt: new Date("2026-10-02T10:00:00Z"),
+        localUpdatedAt: new Date("2026-10-03T10:00:00Z"),
+      })
+    ).toBe("push");
+    expect(
+      resolveSyncAction({
+        ...state,
+        notionEditedAt: new Date("2026-10-04T10:00:00Z"),
+        localUpdatedAt: new Date("2026-10-03T10:00:00Z"),
+      })
+    ).toBe("pull");
+    expect(
+      resolveSyncAction({
+        ...state,
+        notionEditedAt: lastSync,
+        localUpdatedAt: lastSync,
+      })
+    ).toBe("none");
+  });
+
+  it("imports new pages, exports new goals and then follows Notion edits", async () => {
+    pages = [
+      goalPage("Read 12 books", "In Progress", 25),
+      goalPage("Learn Spanish", "Not Started", 0),
+    ];
+    userState.userGoals = [
+      {
+        goal: "Run a marathon",
+        priority: 8,
+        progress: 10,
+        status: "in_progress",
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      },
+    ];
+
+    const first = await notionSyncService.syncUser("user-1");
+
+    expect(first.goals).toEqual({
+      pulled: 0,
+      pushed: 0,
+      imported: 2,
+      exported: 1,
+      removed: 0,
+    });
+    expect(pages.map((p) => p.properties.Name.title[0].plain_text)).toContain(
+      "Run a marathon"
+    );
+    expect(
+      userState.userGoals.find((g: any) => g.goal === "Read 12 books")
+    ).toMatchObject({ progress: 25, status: "in_progress", priority: 5 });
+
+    // Edited in Notion after the sync, deleted there, and unchanged locally
+    pages[0].properties.Progress = { number: 60 };
+    pages[0].last_edited_time = new Date(Date.now() + 60 * 1000).toISOString();
+    pages.splice(1, 1);
+
+    const second = await notionSyncService.syncUser("user-1");
+
+    expect(second.goals).toEqual({
+      pulled: 1,
+      pushed: 0,
+      imported: 0,
+      exported: 0,
+      removed: 1,
+    });
+    expect(userState.userGoals.map((g: any) => g.goal).sort()).toEqual([
+      "Read 12 books",
+      "Run a marathon",
+    ]);
+    expect(
+      userState.userGoals.find((g: any) => g.goal === "Read 12 books").progress
+    ).toBe(60);
+  });
+});
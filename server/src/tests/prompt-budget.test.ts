@@ -0,0 +1,50 @@
+import { allocateBudget, fitItems } from "../utils/prompt-budget";
+import { countTokens, countMessageTokens } from "../utils/token-counter";
+
+describe("Prompt budgeting", () => {
+  it("gives small sections what they need and splits the rest by weight", () => {
+    const budgets = allocateBudget(1000, [
+      { name: "history", demand: 5000, weight: 4 },
+      { name: "memories", demand: 100, weight: 2 },
+      { name: "summary", demand: 600, weight: 1 },
+      { name: "documents", demand: 0, weight: 1 },
+    ]);
+
+    // memories fits its share; history and summary split the other 900 4:1
+    expect(budgets).toEqual({
+      history: 720,
+      memories: 100,
+      summary: 180,
+      documents: 0,
+    });
+  });
+
+  it("hands out nothing when the fixed sections filled the window", () => {
+    expect(
+      allocateBudget(-50, [{ name: "history", demand: 10, weight: 1 }])
+    ).toEqual({ history: 0 });
+  });
+
+  it("keeps items in order until one doesn't fit", () => {
+    const result = fitItems(
+      ["aaaa", "bb", "cccccc", "d"],
+      7,
+      (item) => item.length
+    );
+
+    expect(result).toEqual({ kept: ["aaaa", "bb"], dropped: 2, tokens: 6 });
+  });
+
+  it("counts tokens with the model family's tokenizer", () => {
+    expect(countTokens("hello world", "cl100k")).toBe(2);
+    expect(countTokens("", "o200k")).toBe(0);
+    // No local vocabulary: scaled cl100k count, rounded up
+    expect(countTokens("hello world", "sentencepiece")).toBe(3);
+    expect(
+      countMessageTokens(
+        [{ content: "hello world" }, { content: "hello world" }],
+        "cl100k"
+      )
+    ).toBe(12);
+  });
+});
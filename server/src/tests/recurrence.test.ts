@@ -0,0 +1,107 @@
+import {
+  nextRecurrence,
+  isValidRecurrence,
+  parseRRule,
+} from "../utils/recurrence";
+import { parseReminderOffsets } from "../services/scheduler.service";
+
+jest.mock("../services/ai.service", () => ({ aiService: {} }));
+jest.mock("../services/memory.service", () => ({ memoryService: {} }));
+jest.mock("../services/context.service", () => ({ contextService: {} }));
+jest.mock("../services/companion-state.service", () => ({
+  companionStateService: {},
+}));
+jest.mock("../services/user-state.service", () => ({ userStateService: {} }));
+jest.mock("../services/notification.service", () => ({
+  notificationService: { notify: jest.fn() },
+}));
+jest.mock("../services/telegram/telegram-bot.service", () => ({
+  telegramBotService: { sendMessageToChatId: jest.fn() },
+}));
+
+describe("Task recurrence", () => {
+  // Monday 6 January 2025, 09:00 local time
+  const monday = new Date(2025, 0, 6, 9, 0);
+
+  it("validates cron and RRULE patterns", () => {
+    expect(isValidRecurrence("0 9 * * 1-5")).toBe(true);
+    expect(isValidRecurrence("RRULE:FREQ=WEEKLY;BYDAY=MO,TH")).toBe(true);
+    expect(isValidRecurrence("FREQ=DAILY;INTERVAL=2")).toBe(true);
+    expect(isValidRecurrence("FREQ=HOURLY")).toBe(false);
+    expect(isValidRecurrence("FREQ=DAILY;BYDAY=MO")).toBe(false);
+    expect(isValidRecurrence("every day")).toBe(false);
+    expect(() => parseRRule("FREQ=WEEKLY;BYDAY=XX")).toThrow();
+  });
+
+  it("expands cron patterns", () => {
+    const next = nextRecurrence("0 9 * * 1-5", monday);
+    expect(next?.date).toEqual(new Date(2025, 0, 7, 9, 0));
+    expect(next?.occurrence).toBe(2);
+  });
+
+  it("expands daily and weekly RRULEs keeping the time of day", () => {
+    expect(nextRecurrence("FREQ=DAILY;INTERVAL=3", monday)?.date).toEqual(
+      new Date(2025, 0, 9, 9, 0)
+    );
+    expect(nextRecurrence("FREQ=WEEKLY;BYDAY=MO,TH", monday)?.date).toEqual(
+      new Date(2025, 0, 9, 9, 0)
+    );
+
+    const thursday = new Date(2025, 0, 9, 9, 0);
+    expect(
+      nextRecurrence("FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH", thursday)?.date
+    ).toEqual(new Date(2025, 0, 20, 9, 0));
+  });
+
+  it("expands RRULEs on the clock of the task's timezone", () => {
+    // 08:00 on Monday 6 January in Auckland is still Sunday in UTC
+    expect(
+      nextRecurrence("FREQ=WEEKLY;BYDAY=MO", new Date("2025-01-05T19:00:00Z"), {
+        timezone: "Pacific/Auckland",
+      })?.date
+    ).toEqual(new Date("2025-01-12T19:00:00Z"));
+
+    // New York springs forward overnight; the task stays at 09:00
+    expect(
+      nextRecurrence("FREQ=DAILY", new Date("2025-03-08T14:00:00Z"), {
+        timezone: "America/New_York",
+      })?.date
+    ).toEqual(new Date("2025-03-09T13:00:00Z"));
+  });
+
+  it("skips months without the day for monthly rules", () => {
+    const jan31 = new Date(2025, 0, 31, 9, 0);
+    expect(nextRecurrence("FREQ=MONTHLY", jan31)?.date).toEqual(
+      new Date(2025, 2, 31, 9, 0)
+    );
+  });
+
+  it("ends the series at COUNT and UNTIL", () => {
+    expect(
+      nextRecurrence("FREQ=DAILY;COUNT=3", monday, { occurrence: 2 })
+    ).not.toBeNull();
+    expect(
+      nextRecurrence("FREQ=DAILY;COUNT=3", monday, { occurrence: 3 })
+    ).toBeNull();
+    expect(nextRecurrence("FREQ=DAILY;UNTIL=20250106", monday)).toBeNull();
+  });
+
+  it("skips occurrences that are already in the past", () => {
+    const next = nextRecurrence("FREQ=DAILY", monday, {
+      notBefore: new Date(2025, 0, 10, 12, 0),
+    });
+    expect(next?.date).toEqual(new Date(2025, 0, 11, 9, 0));
+    expect(next?.occurrence).toBe(6);
+  });
+});
+
+describe("Reminder offsets", () => {
+  it("parses lead times into minutes, largest first", () => {
+    expect(parseReminderOffsets(["1h", "1d", 15, "0"])).toEqual([
+      1440, 60, 15, 0,
+    ]);
+    expect(parseReminderOffsets("1w,2h")).toEqual([10080, 120]);
+    expect(parseReminderOffsets(["soon"])).toBeNull();
+    expect(parseReminderOffsets([-5])).toBeNull();
+  });
+});
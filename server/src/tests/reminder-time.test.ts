@@ -0,0 +1,46 @@
+import { parseReminderTime } from "../utils/reminder-time";
+
+describe("parseReminderTime", () => {
+  // Wednesday 2025-01-15 14:00 local time
+  const now = new Date(2025, 0, 15, 14, 0, 0);
+
+  it("parses relative times", () => {
+    expect(parseReminderTime("in 10 minutes stretch", now)).toEqual({
+      dueDate: new Date(2025, 0, 15, 14, 10),
+      text: "stretch",
+    });
+    expect(parseReminderTime("2h to call mom", now)).toEqual({
+      dueDate: new Date(2025, 0, 15, 16, 0),
+      text: "call mom",
+    });
+  });
+
+  it("rolls times of day that already passed over to tomorrow", () => {
+    expect(parseReminderTime("18:30 dinner", now)?.dueDate).toEqual(
+      new Date(2025, 0, 15, 18, 30)
+    );
+    expect(parseReminderTime("at 9am standup", now)?.dueDate).toEqual(
+      new Date(2025, 0, 16, 9, 0)
+    );
+  });
+
+  it("parses tomorrow and dates, defaulting to 9:00", () => {
+    expect(parseReminderTime("tomorrow pay rent", now)?.dueDate).toEqual(
+      new Date(2025, 0, 16, 9, 0)
+    );
+    expect(parseReminderTime("tomorrow 7:15pm gym", now)?.dueDate).toEqual(
+      new Date(2025, 0, 16, 19, 15)
+    );
+    expect(parseReminderTime("2025-03-01 14:00 taxes", now)).toEqual({
+      dueDate: new Date(2025, 2, 1, 14, 0),
+      text: "taxes",
+    });
+  });
+
+  it("rejects input without a time or without text", () => {
+    expect(parseReminderTime("call mom", now)).toBeNull();
+    expect(parseReminderTime("9 coffee", now)).toBeNull();
+    expect(parseReminderTime("in 10m", now)).toBeNull();
+    expect(parseReminderTime("25:00 nope", now)).toBeNull();
+  });
+});
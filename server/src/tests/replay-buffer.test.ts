@@ -0,0 +1,63 @@
+import { BusEvent } from "../services/realtime/event-bus";
+import { ReplayBuffer } from "../services/realtime/replay-buffer";
+
+const makeEvent = (
+  timestamp: number,
+  sequence: number,
+  target: string = "session-1",
+  scope: BusEvent["scope"] = "session"
+): BusEvent => ({
+  id: `${timestamp}-instance-a-${sequence}`,
+  scope,
+  target,
+  event: "messageUpdate",
+  data: { sequence },
+  origin: "instance-a",
+  timestamp,
+});
+
+describe("ReplayBuffer", () => {
+  const sessionKey = ReplayBuffer.key("session", "session-1");
+  const userKey = ReplayBuffer.key("user", "user-1");
+
+  it("returns events published after the last seen id", () => {
+    const buffer = new ReplayBuffer();
+    const events = [1000, 1000, 2000, 3000].map((ts, i) => makeEvent(ts, i));
+    events.forEach((event) => buffer.add(event));
+
+    const missed = buffer.since([sessionKey], events[1].id);
+    expect(missed.map((event) => event.data.sequence)).toEqual([2, 3]);
+  });
+
+  it("merges session and user events in timestamp order", () => {
+    const buffer = new ReplayBuffer();
+    buffer.add(makeEvent(1000, 0));
+    buffer.add(makeEvent(3000, 1));
+    buffer.add(makeEvent(2000, 2, "user-1", "user"));
+
+    const missed = buffer.since([sessionKey, userKey], "1000-instance-a-0");
+    expect(missed.map((event) => event.data.sequence)).toEqual([2, 1]);
+  });
+
+  it("falls back to the id timestamp when the id was evicted", () => {
+    const buffer = new ReplayBuffer(2);
+    [1000, 2000, 3000, 4000].forEach((ts, i) => buffer.add(makeEvent(ts, i)));
+
+    const missed = buffer.since([sessionKey], "1500-instance-b-7");
+    expect(missed.map((event) => event.data.sequence)).toEqual([2, 3]);
+  });
+
+  it("drops events older than the max age", () => {
+    const buffer = new ReplayBuffer(200, 1000);
+    buffer.add(makeEvent(1000, 0));
+    buffer.add(makeEvent(5000, 1));
+
+    expect(buffer.since([sessionKey], "0-x-0")).toHaveLength(1);
+  });
+
+  it("ignores ids it did not issue", () => {
+    const buffer = new ReplayBuffer();
+    buffer.add(makeEvent(1000, 0));
+    expect(buffer.since([sessionKey], "not-an-id")).toEqual([]);
+  });
+});
@@ -0,0 +1,66 @@
+import {
+  RetryHeader,
+  computeBackoff,
+  getAttempt,
+  getDeadLetterTopic,
+  getRetryPolicy,
+  headersToStrings,
+  isRetryable,
+} from "../services/kafka/retry-policy";
+
+describe("Kafka retry policy", () => {
+  const policy = {
+    maxAttempts: 5,
+    initialDelayMs: 1000,
+    maxDelayMs: 5000,
+    multiplier: 2,
+  };
+
+  it("backs off exponentially up to the max delay", () => {
+    expect(computeBackoff(policy, 2)).toBe(1000);
+    expect(computeBackoff(policy, 3)).toBe(2000);
+    expect(computeBackoff(policy, 4)).toBe(4000);
+    expect(computeBackoff(policy, 5)).toBe(5000);
+  });
+
+  it("reads the attempt from headers, defaulting to the first delivery", () => {
+    expect(getAttempt(undefined)).toBe(1);
+    expect(getAttempt({ [RetryHeader.ATTEMPT]: Buffer.from("3") })).toBe(3);
+    expect(getAttempt({ [RetryHeader.ATTEMPT]: "garbage" })).toBe(1);
+  });
+
+  it("applies per-topic overrides and env overrides", () => {
+    expect(getRetryPolicy("chat-message-requests").maxAttempts).toBe(3);
+
+    process.env.KAFKA_RETRY_MEMORY_OPERATIONS_MAX_ATTEMPTS = "9";
+    try {
+      expect(getRetryPolicy("memory-operations").maxAttempts).toBe(9);
+    } finally {
+      delete process.env.KAFKA_RETRY_MEMORY_OPERATIONS_MAX_ATTEMPTS;
+    }
+  });
+
+  it("names DLQ topics and flattens headers", () => {
+    expect(getDeadLetterTopic("memory-operations")).toBe(
+      "memory-operations.dlq"
+    );
+    expect(
+      headersToStrings({
+        "trace-id": Buffer.from("abc"),
+        "operation-type": "memory.create",
+        empty: undefined,
+      })
+    ).toEqual({ "trace-id": "abc", "operation-type": "memory.create" });
+  });
+
+  it("does not retry unparseable payloads", () => {
+    let parseError: unknown;
+    try {
+      JSON.parse("{not json");
+    } catch (error) {
+      parseError = error;
+    }
+    expect(isRetryable(parseError)).toBe(false);
+    expect(isRetryable(new Error("Mongo timeout"))).toBe(true);
+  });
+});
@@ -0,0 +1,49 @@
+import {
+  generateLinkCode,
+  hashLinkCode,
+  telegramLinkService,
+} from "../services/telegram/telegram-link.service";
+import TelegramLinkCodeModel from "../models/telegram-link-code.model";
+
+jest.mock("../services/session.service", () => ({
+  sessionService: {
+    getGlobalSessionId: jest.fn(),
+    ensureGlobalSession: jest.fn(),
+  },
+}));
+jest.mock("../services/chat-session.service", () => ({
+  chatSessionManager: {
+    deleteSession: jest.fn(),
+    clearSessionHistory: jest.fn(),
+  },
+}));
+
+describe("Telegram account linking", () => {
+  const identity = { telegramUserId: "42", chatId: "42" };
+
+  it("generates codes without look-alike characters", () => {
+    const code = generateLinkCode();
+    expect(code).toMatch(/^[A-HJKMNP-Z2-9]{8}$/);
+  });
+
+  it("hashes codes the same however they are typed", () => {
+    expect(hashLinkCode("abcd-efgh")).toBe(hashLinkCode("ABCD EFGH"));
+    expect(hashLinkCode("ABCDEFGH")).not.toBe(hashLinkCode("ABCDEFGJ"));
+  });
+
+  it("rate limits repeated failed redemptions", async () => {
+    const findOneAndDelete = jest
+      .spyOn(TelegramLinkCodeModel, "findOneAndDelete")
+      .mockReturnValue({ exec: jest.fn().mockResolvedValue(null) } as any);
+
+    for (let i = 0; i < 5; i++) {
+      expect(
+        await telegramLinkService.redeemLinkCode("WRONG123", identity)
+      ).toEqual({ status: "invalid_code" });
+    }
+    expect(
+      await telegramLinkService.redeemLinkCode("WRONG123", identity)
+    ).toEqual({ status: "rate_limited" });
+    expect(findOneAndDelete).toHaveBeenCalledTimes(5);
+  });
+});
@@ -0,0 +1,301 @@
+import {
+  evaluateCondition,
+  validateTriggerConditions,
+  validateActionConfig,
+  renderTemplate,
+  TriggerType,
+  ActionType,
+  ConditionNode,
+  triggersService,
+} from "../services/triggers.service";
+import { TriggerModel } from "../models/trigger.model";
+import {
+  credentialVault,
+  SECRET_MASK,
+} from "../services/credential-vault.service";
+import { matchesCron, nextCronOccurrence, isValidCron } from "../utils/cron";
+import { isBlockedAddress } from "../services/webhook.service";
+
+// Action executors are not exercised here
+jest.mock("../services/notification.service", () => ({
+  notificationService: { notify: jest.fn() },
+}));
+jest.mock("../services/webhook.service", () => ({
+  ...jest.requireActual("../services/webhook.service"),
+  webhookService: { deliver: jest.fn() },
+}));
+jest.mock("../services/telegram/telegram-bot.service", () => ({
+  telegramBotService: { sendMessageToChatId: jest.fn() },
+}));
+jest.mock("../services/enhanced-chat.service", () => ({
+  enhancedChatService: { postProactiveMessage: jest.fn() },
+}));
+jest.mock("../services/action-manager.service", () => ({
+  actionManager: { executeAction: jest.fn() },
+}));
+jest.mock("../services/session.service", () => ({
+  sessionService: { getGlobalSessionId: jest.fn() },
+}));
+
+describe("Trigger condition DSL", () => {
+  const event = {
+    userId: "user-1",
+    text: "Remember Sam's birthday party",
+    importance: 8,
+    metadata: { tags: ["family", "events"] },
+  };
+
+  it("evaluates field comparisons", () => {
+    expect(
+      evaluateCondition({ field: "importance", op: "gt", value: 7 }, event)
+    ).toBe(true);
+    expect(
+      evaluateCondition({ field: "importance", op: "lt", value: 5 }, event)
+    ).toBe(false);
+    expect(
+      evaluateCondition(
+        { field: "text", op: "contains", value: "BIRTHDAY" },
+        event
+      )
+    ).toBe(true);
+    expect(
+      evaluateCondition(
+        { field: "metadata.tags", op: "contains", value: "family" },
+        event
+      )
+    ).toBe(true);
+    expect(
+      evaluateCondition(
+        { field: "userId", op: "equals", value: "user-1" },
+        event
+      )
+    ).toBe(true);
+  });
+
+  it("combines conditions with and/or/not", () => {
+    const condition: ConditionNode = {
+      and: [
+        { field: "importance", op: "gte", value: 8 },
+        {
+          or: [
+            { field: "text", op: "contains", value: "anniversary" },
+            { not: { field: "metadata.archived", op: "exists" } },
+          ],
+        },
+      ],
+    };
+
+    expect(evaluateCondition(condition, event)).toBe(true);
+    expect(
+      evaluateCondition(condition, { ...event, metadata: { archived: true } })
+    ).toBe(false);
+  });
+
+  it("validates trigger conditions per type", () => {
+    expect(
+      validateTriggerConditions(TriggerType.TIME, { cron: "0 9 * * 1-5" })
+    ).toBeNull();
+    expect(
+      validateTriggerConditions(TriggerType.TIME, { cron: "every day" })
+    ).toMatch(/Invalid cron/);
+    expect(
+      validateTriggerConditions(TriggerType.TIME, {
+        cron: "0 9 * * *",
+        timezone: "Mars/Olympus_Mons",
+      })
+    ).toMatch(/Invalid timezone/);
+    expect(validateTriggerConditions(TriggerType.TIME, {})).not.toBeNull();
+    expect(
+      validateTriggerConditions(TriggerType.EVENT, {
+        eventType: "memory.created",
+        match: { field: "importance", op: "bigger", value: 3 },
+      })
+    ).toMatch(/op must be one of/);
+  });
+});
+
+describe("Trigger action config", () => {
+  it("renders templates from the trigger context", () => {
+    const rendered = renderTemplate(
+      {
+        title: "New memory: {{event.text}}",
+        body: {
+          importance: "{{ event.importance }}",
+          missing: "{{event.nope}}",
+        },
+        tags: ["{{trigger.name}}"],
+      },
+      {
+        event: { text: "Sam's birthday", importance: 8 },
+        trigger: { name: "Birthdays" },
+      }
+    );
+
+    expect(rendered).toEqual({
+      title: "New memory: Sam's birthday",
+      body: { importance: "8", missing: "" },
+      tags: ["Birthdays"],
+    });
+  });
+
+  it("validates required config per action type", () => {
+    expect(
+      validateActionConfig({
+        id: "a1",
+        type: ActionType.API_CALL,
+        config: { url: "ftp://example.com" },
+      })
+    ).toMatch(/http\(s\)/);
+    expect(
+      validateActionConfig({
+        id: "a2",
+        type: ActionType.COMPANION_MESSAGE,
+        config: { prompt: "Check in about their exam" },
+      })
+    ).toBeNull();
+    expect(
+      validateActionConfig({
+        id: "a3",
+        type: ActionType.EXECUTE_FUNCTION,
+        config: {},
+      })
+    ).not.toBeNull();
+    expect(
+      validateActionConfig({
+        id: "a4",
+        type: ActionType.SEND_TELEGRAM,
+        config: { message: "Hi", chatId: "12345" },
+      })
+    ).toMatch(/chatId/);
+  });
+
+  it("keeps API calls off local and private addresses", () => {
+    const apiCall = (config: Record<string, any>) =>
+      validateActionConfig({ id: "a1", type: ActionType.API_CALL, config });
+
+    expect(apiCall({ url: "https://hooks.example.com/in" })).toBeNull();
+    for (const url of [
+      "http://localhost:9092",
+      "http://127.0.0.1:27017",
+      "http://169.254.169.254/latest/meta-data",
+      "http://10.0.0.5/",
+      "http://[::1]:11434/",
+      "http://[::ffff:7f00:1]/",
+    ]) {
+      expect(apiCall({ url })).not.toBeNull();
+    }
+    expect(
+      apiCall({ url: "https://hooks.example.com/in", timeoutMs: 600000 })
+    ).toMatch(/timeoutMs/);
+    for (const retries of [-1, 1.5, "3", NaN, 6]) {
+      expect(apiCall({ url: "https://hooks.example.com/in", retries })).toMatch(
+        /retries/
+      );
+    }
+    expect(
+      apiCall({ url: "https://hooks.example.com/in", retries: 0 })
+    ).toBeNull();
+    expect(isBlockedAddress("172.20.1.1")).toBe(true);
+    expect(isBlockedAddress("8.8.8.8")).toBe(false);
+  });
+
+  it("seals webhook secrets and never returns them", async () => {
+    jest
+      .spyOn(credentialVault, "encrypt")
+      .mockResolvedValue("vault:v1:1:sealed");
+    const create = jest
+      .spyOn(TriggerModel, "create")
+      .mockImplementation(async (doc: any) => ({
+        ...doc,
+        _id: "trigger-1",
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      }));
+
+    const trigger = await triggersService.createTrigger(
+      "user-1",
+      "Ping",
+      TriggerType.EVENT,
+      { eventType: "memory.created" },
+      [
+        {
+          id: "a1",
+          type: ActionType.API_CALL,
+          config: { url: "https://hooks.example.com/in", secret: "s3cret" },
+        },
+      ]
+    );
+
+    expect((create.mock.calls[0][0] as any).actions[0].config.secret).toBe(
+      "vault:v1:1:sealed"
+    );
+    expect(trigger.actions[0].config.secret).toBe(SECRET_MASK);
+  });
+
+  it("generates a secret for webhooks without one and shows it once", async () => {
+    const encrypt = jest
+      .spyOn(credentialVault, "encrypt")
+      .mockResolvedValue("vault:v1:1:sealed");
+    const create = jest
+      .spyOn(TriggerModel, "create")
+      .mockImplementation(async (doc: any) => ({
+        ...doc,
+        _id: "trigger-2",
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      }));
+
+    const trigger = await triggersService.createTrigger(
+      "user-1",
+      "Ping",
+      TriggerType.EVENT,
+      { eventType: "memory.created" },
+      [
+        {
+          id: "a1",
+          type: ActionType.API_CALL,
+          config: { url: "https://hooks.example.com/in" },
+        },
+      ]
+    );
+
+    const secret = trigger.actions[0].config.secret;
+    expect(secret).toMatch(/^[0-9a-f]{64}$/);
+    expect(encrypt).toHaveBeenCalledWith("user-1", secret);
+    expect((create.mock.calls[0][0] as any).actions[0].config.secret).toBe(
+      "vault:v1:1:sealed"
+    );
+  });
+});
+
+describe("cron utilities", () => {
+  it("matches weekday morning schedules", () => {
+    // 2024-01-08 is a Monday
+    expect(matchesCron("0 9 * * 1-5", new Date(2024, 0, 8, 9, 0))).toBe(true);
+    expect(matchesCron("0 9 * * 1-5", new Date(2024, 0, 7, 9, 0))).toBe(false);
+    expect(matchesCron("*/15 * * * *", new Date(2024, 0, 7, 3, 45))).toBe(true);
+  });
+
+  it("finds the next occurrence", () => {
+    const next = nextCronOccurrence("30 8 * * *", new Date(2024, 0, 8, 9, 0));
+    expect(next).toEqual(new Date(2024, 0, 9, 8, 30));
+
+    // Skips whole days to reach a rare date, in the given timezone
+    expect(
+      nextCronOccurrence(
+        "15 6 29 2 *",
+        new Date("2024-03-01T00:00:00Z"),
+        "Asia/Tokyo",
+        1500
+      )
+    ).toEqual(new Date("2028-02-28T21:15:00Z"));
+  });
+
+  it("rejects malformed expressions", () => {
+    expect(isValidCron("61 * * * *")).toBe(false);
+    expect(isValidCron("* * *")).toBe(false);
+    expect(isValidCron("0 0 30 2 *")).toBe(false);
+    expect(isValidCron("0 0 31 4,6 *")).toBe(false);
+    expect(isValidCron("0 0 30 2 1")).toBe(true);
+  });
+});
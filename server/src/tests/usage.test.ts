@@ -0,0 +1,82 @@
+import { PLANS, getPlan } from "../constants/plans";
+import { User } from "../models/user.model";
+import { UsageRecord } from "../models/usage-record.model";
+import {
+  evaluateQuota,
+  getPeriodBounds,
+  usageService,
+} from "../services/usage.service";
+
+describe("Usage quotas", () => {
+  it("falls back to the free plan", () => {
+    expect(getPlan("PREMIUM")).toBe(PLANS.PREMIUM);
+    expect(getPlan(undefined)).toBe(PLANS.FREE);
+    expect(getPlan("ENTERPRISE")).toBe(PLANS.FREE);
+  });
+
+  it("uses calendar months in UTC", () => {
+    const { start, end } = getPeriodBounds(
+      new Date("2026-12-31T23:30:00.000Z")
+    );
+    expect(start.toISOString()).toBe("2026-12-01T00:00:00.000Z");
+    expect(end.toISOString()).toBe("2027-01-01T00:00:00.000Z");
+  });
+
+  it("drops background calls before refusing replies", () => {
+    const plan = {
+      ...PLANS.FREE,
+      monthlyTokens: 1000,
+      monthlyMessages: 10,
+      backgroundCutoff: 0.8,
+    };
+
+    expect(evaluateQuota(plan, { tokens: 500, messages: 5 })).toEqual({
+      exceeded: false,
+      nearLimit: false,
+    });
+    expect(evaluateQuota(plan, { tokens: 850, messages: 5 })).toEqual({
+      exceeded: false,
+      nearLimit: true,
+    });
+    expect(evaluateQuota(plan, { tokens: 500, messages: 10 })).toEqual({
+      exceeded: true,
+      nearLimit: true,
+    });
+    expect(
+      evaluateQuota(
+        { ...plan, monthlyTokens: null, monthlyMessages: null },
+        { tokens: 1e9, messages: 1e6 }
+      )
+    ).toEqual({ exceeded: false, nearLimit: false });
+  });
+
+  describe("getExceededQuota", () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+      usageService.clearUserCache("telegram_42");
+    });
+
+    it("puts provisional users on the default plan", async () => {
+      const findById = jest.spyOn(User, "findById");
+      jest
+        .spyOn(UsageRecord, "aggregate")
+        .mockResolvedValue([{ tokens: 0, messages: 300 }] as any);
+
+      const quota = await usageService.getExceededQuota("telegram_42");
+
+      expect(findById).not.toHaveBeenCalled();
+      expect(quota?.plan).toBe("FREE");
+    });
+
+    it("fails closed when usage can't be read", async () => {
+      jest
+        .spyOn(UsageRecord, "aggregate")
+        .mockRejectedValue(new Error("connection lost"));
+
+      const quota = await usageService.getExceededQuota("telegram_42");
+
+      expect(quota?.exceeded).toBe(true);
+      expect(quota?.plan).toBe("FREE");
+    });
+  });
+});
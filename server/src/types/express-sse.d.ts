@@ -4,7 +4,7 @@ declare module "express-sse" {
   export default class SSE {
     constructor(initial?: any, options?: any);
     init(req: Request, res: Response): void;
-    send(data: any, event?: string): void;
+    send(data: any, event?: string, id?: string | number): void;
     updateInit(data: any): void;
     serialize(data: any): string;
     close(): void;
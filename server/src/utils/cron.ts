@@ -0,0 +1,241 @@
+/**
+ * Minimal 5-field cron expression support (minute hour day-of-month month day-of-week).
+ * Each field accepts `*`, numbers, lists (`1,15`), ranges (`1-5`) and steps (`*\/15`, `0-30/10`).
+ * Day-of-week uses 0-6 with Sunday as 0 (7 is also accepted as Sunday).
+ */
+
+interface CronFields {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+export interface ZonedParts {
+  minute: number;
+  hour: number;
+  dayOfMonth: number;
+  month: number; // 1-12
+  dayOfWeek: number; // 0-6, Sunday = 0
+}
+
+const FIELD_RANGES: Array<[number, number]> = [
+  [0, 59],
+  [0, 23],
+  [1, 31],
+  [1, 12],
+  [0, 7],
+];
+
+// Longest each month can be, February counting leap years
+const MONTH_LENGTHS = [31, 29, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+const MINUTE_MS = 60 * 1000;
+
+function parseField(field: string, [min, max]: [number, number]): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(",")) {
+    const [rangePart, stepPart] = part.split("/");
+    const step = stepPart === undefined ? 1 : Number(stepPart);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid cron step "${part}"`);
+    }
+
+    let start: number;
+    let end: number;
+    if (rangePart === "*") {
+      start = min;
+      end = max;
+    } else if (rangePart.includes("-")) {
+      [start, end] = rangePart.split("-").map(Number);
+    } else {
+      start = Number(rangePart);
+      end = stepPart === undefined ? start : max;
+    }
+
+    if (
+      !Number.isInteger(start) ||
+      !Number.isInteger(end) ||
+      start < min ||
+      end > max ||
+      start > end
+    ) {
+      throw new Error(`Invalid cron field "${field}"`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a cron expression, throwing on invalid syntax.
+ */
+export function parseCron(expression: string): CronFields {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(
+      `Cron expression must have 5 fields, got ${fields.length}: "${expression}"`
+    );
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map(
+    (field, i) => parseField(field, FIELD_RANGES[i])
+  );
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.add(0);
+  }
+
+  const dayOfMonthRestricted = fields[2] !== "*";
+  const dayOfWeekRestricted = fields[4] !== "*";
+  // A restricted day-of-month alone must fall in one of the months, or the
+  // expression never fires (e.g. "0 0 30 2 *")
+  if (
+    dayOfMonthRestricted &&
+    !dayOfWeekRestricted &&
+    ![...months].some((month) =>
+      [...daysOfMonth].some((day) => day <= MONTH_LENGTHS[month - 1])
+    )
+  ) {
+    throw new Error(`Cron expression never matches: "${expression}"`);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    dayOfMonthRestricted,
+    dayOfWeekRestricted,
+  };
+}
+
+export function isValidCron(expression: string): boolean {
+  try {
+    parseCron(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Calendar parts of a date in the given IANA timezone (defaults to the server's zone).
+ */
+export function getZonedParts(date: Date, timezone?: string): ZonedParts {
+  if (!timezone) {
+    return {
+      minute: date.getMinutes(),
+      hour: date.getHours(),
+      dayOfMonth: date.getDate(),
+      month: date.getMonth() + 1,
+      dayOfWeek: date.getDay(),
+    };
+  }
+
+  let formatter = formatterCache.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      hourCycle: "h23",
+      minute: "numeric",
+      hour: "numeric",
+      day: "numeric",
+      month: "numeric",
+      weekday: "short",
+    });
+    formatterCache.set(timezone, formatter);
+  }
+
+  const parts = formatter.formatToParts(date);
+  const get = (type: string) => parts.find((p) => p.type === type)?.value;
+  const weekdays = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+  return {
+    minute: Number(get("minute")),
+    hour: Number(get("hour")),
+    dayOfMonth: Number(get("day")),
+    month: Number(get("month")),
+    dayOfWeek: weekdays.indexOf(get("weekday") || "Sun"),
+  };
+}
+
+/**
+ * Whether the minute containing `date` matches the cron expression.
+ * Follows standard cron semantics: when both day-of-month and day-of-week
+ * are restricted, either one matching is enough.
+ */
+export function matchesCron(
+  expression: string,
+  date: Date,
+  timezone?: string
+): boolean {
+  return matchesParsed(parseCron(expression), getZonedParts(date, timezone));
+}
+
+function matchesParsed(cron: CronFields, parts: ZonedParts): boolean {
+  return (
+    cron.minutes.has(parts.minute) &&
+    cron.hours.has(parts.hour) &&
+    matchesDay(cron, parts)
+  );
+}
+
+function matchesDay(cron: CronFields, parts: ZonedParts): boolean {
+  if (!cron.months.has(parts.month)) {
+    return false;
+  }
+
+  const domMatch = cron.daysOfMonth.has(parts.dayOfMonth);
+  const dowMatch = cron.daysOfWeek.has(parts.dayOfWeek);
+  if (cron.dayOfMonthRestricted && cron.dayOfWeekRestricted) {
+    return domMatch || dowMatch;
+  }
+  return domMatch && dowMatch;
+}
+
+/**
+ * Next minute strictly after `after` that matches the expression, or null
+ * if none is found within `horizonDays`. Days and hours that can't match are
+ * skipped whole rather than checked minute by minute.
+ */
+export function nextCronOccurrence(
+  expression: string,
+  after: Date,
+  timezone?: string,
+  horizonDays: number = 366
+): Date | null {
+  const cron = parseCron(expression);
+
+  let candidate = Math.floor(after.getTime() / MINUTE_MS) * MINUTE_MS;
+  candidate += MINUTE_MS;
+
+  const limit = after.getTime() + horizonDays * 24 * 60 * MINUTE_MS;
+  while (candidate <= limit) {
+    const parts = getZonedParts(new Date(candidate), timezone);
+    if (!matchesDay(cron, parts)) {
+      // Jump to the day's last hour and let the hour step cross midnight, so
+      // a DST change can't carry the jump past the start of the next day
+      candidate +=
+        Math.max((23 - parts.hour) * 60 - parts.minute, 60 - parts.minute) *
+        MINUTE_MS;
+    } else if (!cron.hours.has(parts.hour)) {
+      candidate += (60 - parts.minute) * MINUTE_MS;
+    } else if (!cron.minutes.has(parts.minute)) {
+      candidate += MINUTE_MS;
+    } else {
+      return new Date(candidate);
+    }
+  }
+  return null;
+}
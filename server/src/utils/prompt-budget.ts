@@ -0,0 +1,70 @@
+/**
+ * Splits the tokens left in a context window across the prompt sections that
+ * can shrink (memories, history, ...). Each section asks for what it would
+ * need in full and gets a share in proportion to its weight; whatever a
+ * section doesn't use is handed on to the others.
+ */
+
+export interface BudgetRequest {
+  name: string;
+  /** Tokens the section needs to be included in full */
+  demand: number;
+  weight: number;
+}
+
+export function allocateBudget(
+  available: number,
+  requests: BudgetRequest[]
+): Record<string, number> {
+  const budgets: Record<string, number> = {};
+  let remaining = Math.max(0, Math.floor(available));
+  let open = requests.filter((request) => {
+    budgets[request.name] = 0;
+    return request.demand > 0 && request.weight > 0;
+  });
+
+  while (open.length > 0 && remaining > 0) {
+    const totalWeight = open.reduce((sum, request) => sum + request.weight, 0);
+    const satisfied = open.filter(
+      (request) => request.demand <= (remaining * request.weight) / totalWeight
+    );
+
+    if (satisfied.length === 0) {
+      // Everyone wants more than their share: hand out the rest by weight
+      for (const request of open) {
+        budgets[request.name] = Math.floor(
+          (remaining * request.weight) / totalWeight
+        );
+      }
+      break;
+    }
+
+    for (const request of satisfied) {
+      budgets[request.name] = request.demand;
+      remaining -= request.demand;
+    }
+    open = open.filter((request) => !satisfied.includes(request));
+  }
+
+  return budgets;
+}
+
+/**
+ * Keep items, most important first, while they fit in the budget. Stops at
+ * the first item that doesn't fit so the kept items stay contiguous.
+ */
+export function fitItems(
+  items: string[],
+  budget: number,
+  count: (text: string) => number
+): { kept: string[]; dropped: number; tokens: number } {
+  const kept: string[] = [];
+  let tokens = 0;
+  for (const item of items) {
+    const itemTokens = count(item);
+    if (tokens + itemTokens > budget) break;
+    kept.push(item);
+    tokens += itemTokens;
+  }
+  return { kept, dropped: items.length - kept.length, tokens };
+}
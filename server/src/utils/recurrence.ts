@@ -0,0 +1,232 @@
+import { isValidCron, nextCronOccurrence } from "./cron";
+import { fromWallTime, toWallTime } from "./zoned-time";
+
+/**
+ * Recurrence patterns for scheduled tasks. Two syntaxes are accepted:
+ *
+ * - 5-field cron expressions (see utils/cron), e.g. `0 9 * * 1-5`
+ * - A subset of RFC 5545 RRULEs, with or without the `RRULE:` prefix, e.g.
+ *   `FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH;COUNT=10`. Supported parts are
+ *   FREQ (DAILY, WEEKLY, MONTHLY, YEARLY), INTERVAL, BYDAY (weekly only),
+ *   COUNT and UNTIL. The time of day is taken from the previous occurrence.
+ *
+ * Both are expanded on the clock of the task's timezone, so a weekly rule
+ * keeps its weekday and time of day across DST changes.
+ */
+
+type Frequency = "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+
+interface RRule {
+  freq: Frequency;
+  interval: number;
+  byDay?: Set<number>;
+  count?: number;
+  until?: Date;
+}
+
+const WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function isRRule(pattern: string): boolean {
+  return /^(RRULE:)?FREQ=/i.test(pattern.trim());
+}
+
+/**
+ * RRULE UNTIL values use the basic ISO format (20250131 or 20250131T090000Z)
+ */
+function parseUntil(value: string): Date {
+  const match = value.match(
+    /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/
+  );
+  const date = match
+    ? new Date(
+        Date.UTC(
+          Number(match[1]),
+          Number(match[2]) - 1,
+          Number(match[3]),
+          Number(match[4] || 23),
+          Number(match[5] || 59),
+          Number(match[6] || 59)
+        )
+      )
+    : new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid RRULE UNTIL "${value}"`);
+  }
+  return date;
+}
+
+/**
+ * Parse an RRULE, throwing on unsupported or invalid parts.
+ */
+export function parseRRule(pattern: string): RRule {
+  const body = pattern.trim().replace(/^RRULE:/i, "");
+  const parts = new Map<string, string>();
+  for (const part of body.split(";").filter(Boolean)) {
+    const [key, value] = part.split("=");
+    if (!key || value === undefined) {
+      throw new Error(`Invalid RRULE part "${part}"`);
+    }
+    parts.set(key.toUpperCase(), value.toUpperCase());
+  }
+
+  const freq = parts.get("FREQ") as Frequency;
+  if (!["DAILY", "WEEKLY", "MONTHLY", "YEARLY"].includes(freq)) {
+    throw new Error(`Unsupported RRULE FREQ "${parts.get("FREQ")}"`);
+  }
+
+  const rule: RRule = { freq, interval: 1 };
+
+  for (const [key, value] of parts) {
+    switch (key) {
+      case "FREQ":
+        break;
+      case "INTERVAL":
+        rule.interval = Number(value);
+        if (!Number.isInteger(rule.interval) || rule.interval < 1) {
+          throw new Error(`Invalid RRULE INTERVAL "${value}"`);
+        }
+        break;
+      case "COUNT":
+        rule.count = Number(value);
+        if (!Number.isInteger(rule.count) || rule.count < 1) {
+          throw new Error(`Invalid RRULE COUNT "${value}"`);
+        }
+        break;
+      case "UNTIL":
+        rule.until = parseUntil(value);
+        break;
+      case "BYDAY":
+        if (freq !== "WEEKLY") {
+          throw new Error("RRULE BYDAY is only supported with FREQ=WEEKLY");
+        }
+        rule.byDay = new Set(
+          value.split(",").map((day) => {
+            const index = WEEKDAYS.indexOf(day);
+            if (index === -1) {
+              throw new Error(`Invalid RRULE BYDAY "${day}"`);
+            }
+            return index;
+          })
+        );
+        break;
+      default:
+        throw new Error(`Unsupported RRULE part "${key}"`);
+    }
+  }
+
+  return rule;
+}
+
+// Rules are expanded on wall-clock times (see toWallTime), so the helpers
+// below only use the UTC date methods
+
+function addMonthsExact(date: Date, months: number): Date | null {
+  const result = new Date(date.getTime());
+  result.setUTCMonth(result.getUTCMonth() + months);
+  // Skip months that don't have this day (e.g. the 31st) like RFC 5545 does
+  return result.getUTCDate() === date.getUTCDate() ? result : null;
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+function startOfWeek(date: Date): number {
+  const start = new Date(date.getTime());
+  start.setUTCHours(0, 0, 0, 0);
+  return start.getTime() - start.getUTCDay() * DAY_MS;
+}
+
+function nextRRuleOccurrence(rule: RRule, previous: Date): Date | null {
+  switch (rule.freq) {
+    case "DAILY":
+      return addDays(previous, rule.interval);
+    case "WEEKLY": {
+      if (!rule.byDay || rule.byDay.size === 0) {
+        return addDays(previous, 7 * rule.interval);
+      }
+      // Remaining days in the current week, then the next active week
+      const previousWeek = startOfWeek(previous);
+      for (let offset = 1; offset <= 7 * (rule.interval + 1); offset++) {
+        const candidate = addDays(previous, offset);
+        const weeks = Math.round(
+          (startOfWeek(candidate) - previousWeek) / (7 * DAY_MS)
+        );
+        if (
+          weeks % rule.interval === 0 &&
+          rule.byDay.has(candidate.getUTCDay())
+        ) {
+          return candidate;
+        }
+      }
+      return null;
+    }
+    case "MONTHLY":
+    case "YEARLY": {
+      const step = rule.freq === "MONTHLY" ? rule.interval : 12 * rule.interval;
+      for (let k = 1; k <= 48; k++) {
+        const next = addMonthsExact(previous, step * k);
+        if (next) {
+          return next;
+        }
+      }
+      return null;
+    }
+  }
+}
+
+export function isValidRecurrence(pattern: string): boolean {
+  try {
+    if (isRRule(pattern)) {
+      parseRRule(pattern);
+      return true;
+    }
+    return isValidCron(pattern);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Compute the occurrence that follows `previous`, or null when the series has
+ * ended. `occurrence` is the 1-based index of `previous` and is only used to
+ * enforce RRULE COUNT. Occurrences at or before `notBefore` are skipped so a
+ * task completed late does not spawn an already-overdue follow-up.
+ */
+export function nextRecurrence(
+  pattern: string,
+  previous: Date,
+  options: { occurrence?: number; notBefore?: Date; timezone?: string } = {}
+): { date: Date; occurrence: number } | null {
+  let occurrence = options.occurrence ?? 1;
+  const notBefore = options.notBefore?.getTime() ?? -Infinity;
+
+  if (!isRRule(pattern)) {
+    const after = new Date(Math.max(previous.getTime(), notBefore));
+    const date = nextCronOccurrence(pattern, after, options.timezone);
+    return date ? { date, occurrence: occurrence + 1 } : null;
+  }
+
+  const rule = parseRRule(pattern);
+  let wall: Date | null = toWallTime(previous, options.timezone);
+  // Bounded so a pathological rule can't spin forever
+  for (let i = 0; i < 10000; i++) {
+    wall = nextRRuleOccurrence(rule, wall);
+    occurrence++;
+    if (!wall) {
+      return null;
+    }
+    if (rule.count !== undefined && occurrence > rule.count) {
+      return null;
+    }
+    const date = fromWallTime(wall, options.timezone);
+    if (rule.until && date > rule.until) {
+      return null;
+    }
+    if (date.getTime() > notBefore) {
+      return { date, occurrence };
+    }
+  }
+  return null;
+}
@@ -0,0 +1,119 @@
+/**
+ * Parses the `<when>` part of chat commands like `/remind <when> <what>`.
+ * The time expression must come first; whatever follows is returned as the
+ * reminder text. Times are in the server's local time zone. Accepted forms:
+ *
+ * - Relative: `in 10 minutes`, `10m`, `2h`, `in 3 days`, `1w`
+ * - Time of day: `18:30`, `at 9am`, `7:15pm` (tomorrow if already past)
+ * - `tomorrow`, optionally with a time (`tomorrow 8:00`, default 9:00)
+ * - Dates: `2025-03-01` (9:00) or `2025-03-01 14:00`
+ */
+
+const UNIT_MINUTES: Record<string, number> = {
+  m: 1,
+  min: 1,
+  mins: 1,
+  minute: 1,
+  minutes: 1,
+  h: 60,
+  hr: 60,
+  hrs: 60,
+  hour: 60,
+  hours: 60,
+  d: 24 * 60,
+  day: 24 * 60,
+  days: 24 * 60,
+  w: 7 * 24 * 60,
+  week: 7 * 24 * 60,
+  weeks: 7 * 24 * 60,
+};
+
+const DEFAULT_HOUR = 9;
+
+const RELATIVE =
+  /^(?:in\s+)?(\d+)\s*(m|mins?|minutes?|h|hrs?|hours?|d|days?|w|weeks?)\b\s*/i;
+const TIME_OF_DAY = /^(?:at\s+)?(\d{1,2})(?::(\d{2}))?\s*(am|pm)?\b\s*/i;
+const TOMORROW = /^tomorrow\b\s*/i;
+const DATE = /^(\d{4})-(\d{2})-(\d{2})\b\s*/;
+
+export interface ParsedReminder {
+  dueDate: Date;
+  text: string;
+}
+
+/**
+ * Hours and minutes of a matched time of day, or null if out of range.
+ * A bare number only counts as a time with am/pm (`9am`, not `9`).
+ */
+function toHoursMinutes(match: RegExpMatchArray): [number, number] | null {
+  if (!match[2] && !match[3]) {
+    return null;
+  }
+  let hours = Number(match[1]);
+  const minutes = Number(match[2] || 0);
+  const meridiem = match[3]?.toLowerCase();
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    hours = (hours % 12) + (meridiem === "pm" ? 12 : 0);
+  }
+  if (hours > 23 || minutes > 59) {
+    return null;
+  }
+  return [hours, minutes];
+}
+
+export function parseReminderTime(
+  input: string,
+  now: Date = new Date()
+): ParsedReminder | null {
+  let rest = input.trim();
+  let dueDate: Date | null = null;
+
+  const relative = rest.match(RELATIVE);
+  const tomorrow = rest.match(TOMORROW);
+  const date = rest.match(DATE);
+
+  if (relative) {
+    const minutes =
+      Number(relative[1]) * UNIT_MINUTES[relative[2].toLowerCase()];
+    dueDate = new Date(now.getTime() + minutes * 60 * 1000);
+    rest = rest.slice(relative[0].length);
+  } else if (tomorrow || date) {
+    const dayMatch = (tomorrow || date)!;
+    dueDate = date
+      ? new Date(Number(date[1]), Number(date[2]) - 1, Number(date[3]))
+      : new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1);
+    if (isNaN(dueDate.getTime())) {
+      return null;
+    }
+    rest = rest.slice(dayMatch[0].length);
+
+    const time = rest.match(TIME_OF_DAY);
+    const hoursMinutes = time ? toHoursMinutes(time) : null;
+    if (time && hoursMinutes) {
+      dueDate.setHours(hoursMinutes[0], hoursMinutes[1], 0, 0);
+      rest = rest.slice(time[0].length);
+    } else {
+      dueDate.setHours(DEFAULT_HOUR, 0, 0, 0);
+    }
+  } else {
+    const time = rest.match(TIME_OF_DAY);
+    const hoursMinutes = time ? toHoursMinutes(time) : null;
+    if (!time || !hoursMinutes) {
+      return null;
+    }
+    dueDate = new Date(now);
+    dueDate.setHours(hoursMinutes[0], hoursMinutes[1], 0, 0);
+    if (dueDate.getTime() <= now.getTime()) {
+      dueDate.setDate(dueDate.getDate() + 1);
+    }
+    rest = rest.slice(time[0].length);
+  }
+
+  // Allow "in 10m to call mom" as well as "in 10m call mom"
+  const text = rest.replace(/^(?:to|that)\s+/i, "").trim();
+  if (!text) {
+    return null;
+  }
+  return { dueDate, text };
+}
@@ -26,6 +26,14 @@ export class SSEWrapper {
     this.userId = userId;
   }
 
+  public getUserId(): string {
+    return this.userId;
+  }
+
+  public getSessionId(): string {
+    return this.sessionId;
+  }
+
   /**
    * Safely set headers for SSE if they haven't been sent
    */
@@ -146,9 +154,11 @@ export class SSEWrapper {
   }
 
   /**
-   * Safely send an event to the client, falling back to manual writing if needed
+   * Safely send an event to the client, falling back to manual writing if needed.
+   * When an id is given it is sent as the SSE event id, which the browser
+   * reports back as Last-Event-ID on reconnect.
    */
-  public send(data: any, eventType?: string): void {
+  public send(data: any, eventType?: string, id?: string): void {
     if (!this.res || this.res.writableEnded) {
       logger.warn(
         `Cannot send to closed connection for session ${this.sessionId}`
@@ -159,10 +169,10 @@ export class SSEWrapper {
     try {
       if (this.initialized) {
         // Try using the SSE instance first
-        this.sse.send(data, eventType);
+        this.sse.send(data, eventType, id);
       } else {
         // Fall back to manual event writing
-        this.writeEvent(eventType || "message", data);
+        this.writeEvent(eventType || "message", data, id);
       }
     } catch (error) {
       logger.warn(
@@ -171,7 +181,7 @@ export class SSEWrapper {
       );
       // Try manual writing as fallback
       try {
-        this.writeEvent(eventType || "message", data);
+        this.writeEvent(eventType || "message", data, id);
       } catch (writeError) {
         logger.error(`Failed manual event writing fallback:`, writeError);
         // The connection might be broken at this point
@@ -193,10 +203,13 @@ export class SSEWrapper {
   /**
    * Write an event to the response stream directly
    */
-  private writeEvent(event: string, data: any): void {
+  private writeEvent(event: string, data: any, id?: string): void {
     if (!this.res || this.res.writableEnded) return;
 
     try {
+      if (id) {
+        this.res.write(`id: ${id}\n`);
+      }
       this.res.write(`event: ${event}\n`);
       this.res.write(`data: ${JSON.stringify(data)}\n\n`);
     } catch (error) {
@@ -280,20 +293,13 @@ export class SSEWrapper {
     const authHeader = req.headers.authorization;
     let token: string | undefined;
 
-    // Check Authorization header first
+    // Tokens are never accepted in the query string; browsers use stream tickets
     if (authHeader && authHeader.startsWith("Bearer ")) {
       token = authHeader.split(" ")[1];
       logger.debug(
         `SSE Auth: Using token from Authorization header for session ${this.sessionId}`
       );
     }
-    // Then check query parameter as fallback
-    else if (req.query.token) {
-      token = req.query.token as string;
-      logger.debug(
-        `SSE Auth: Using token from query parameter for session ${this.sessionId}`
-      );
-    }
 
     // If no token was found, fail authentication
     if (!token) {
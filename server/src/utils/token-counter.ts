@@ -0,0 +1,55 @@
+import { getEncoding, Tiktoken, TiktokenEncoding } from "js-tiktoken";
+
+/**
+ * Counts prompt tokens the way the target model's tokenizer would.
+ *
+ * - `o200k` / `cl100k`: OpenAI's BPE vocabularies, exact for GPT models.
+ *   Llama 3 extends cl100k with 28k extra tokens, so cl100k is within a few
+ *   percent for the Llama 3 family too.
+ * - `sentencepiece`: Gemini, Gemma, Mistral and older Llama models. Their
+ *   vocabularies don't ship with the server, so the cl100k count is scaled up
+ *   by SENTENCEPIECE_RATIO to err on the side of fitting.
+ */
+export type TokenizerFamily = "o200k" | "cl100k" | "sentencepiece";
+
+const SENTENCEPIECE_RATIO = 1.15;
+
+/** Extra tokens per chat message for role markers and separators */
+export const MESSAGE_OVERHEAD_TOKENS = 4;
+
+// Building an encoder parses a multi-megabyte rank table, so keep one each
+const encoders = new Map<TiktokenEncoding, Tiktoken>();
+
+function getEncoder(encoding: TiktokenEncoding): Tiktoken {
+  let encoder = encoders.get(encoding);
+  if (!encoder) {
+    encoder = getEncoding(encoding);
+    encoders.set(encoding, encoder);
+  }
+  return encoder;
+}
+
+export function countTokens(text: string, family: TokenizerFamily): number {
+  if (!text) return 0;
+  if (family === "o200k") {
+    return getEncoder("o200k_base").encode(text).length;
+  }
+  const count = getEncoder("cl100k_base").encode(text).length;
+  return family === "sentencepiece"
+    ? Math.ceil(count * SENTENCEPIECE_RATIO)
+    : count;
+}
+
+/**
+ * Tokens taken by a list of chat messages, including per-message overhead
+ */
+export function countMessageTokens(
+  messages: Array<{ content: string }>,
+  family: TokenizerFamily
+): number {
+  return messages.reduce(
+    (total, message) =>
+      total + countTokens(message.content, family) + MESSAGE_OVERHEAD_TOKENS,
+    0
+  );
+}
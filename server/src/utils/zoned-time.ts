@@ -0,0 +1,158 @@
+/**
+ * Helpers for calendar dates and wall-clock times in a user's IANA
+ * timezone. Without a timezone the server's zone is used.
+ */
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const TIME_PATTERN = /^(\d{1,2}):(\d{2})$/;
+const DEFAULT_HOUR = 9; // Used when a day is given without a time
+
+const wallClockFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Calendar date and time of an instant in the given timezone, as UTC
+ * milliseconds of the same wall-clock reading
+ */
+function wallClock(date: Date, timezone: string): number {
+  let formatter = wallClockFormatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+    });
+    wallClockFormatters.set(timezone, formatter);
+  }
+  const parts = formatter.formatToParts(date);
+  const get = (type: string) =>
+    Number(parts.find((p) => p.type === type)?.value);
+  return Date.UTC(
+    get("year"),
+    get("month") - 1,
+    get("day"),
+    get("hour"),
+    get("minute")
+  );
+}
+
+// Milliseconds past the minute, which no timezone offset changes
+const withinMinute = (time: number): number => ((time % 60000) + 60000) % 60000;
+
+/**
+ * The wall-clock reading of an instant, as a Date whose UTC fields hold
+ * it. Calendar arithmetic on the result with the UTC methods is free of
+ * DST changes; fromWallTime turns it back into an instant.
+ */
+export function toWallTime(date: Date, timezone?: string): Date {
+  if (!timezone) {
+    return new Date(
+      Date.UTC(
+        date.getFullYear(),
+        date.getMonth(),
+        date.getDate(),
+        date.getHours(),
+        date.getMinutes(),
+        date.getSeconds(),
+        date.getMilliseconds()
+      )
+    );
+  }
+  return new Date(wallClock(date, timezone) + withinMinute(date.getTime()));
+}
+
+/**
+ * The instant at which the clock in `timezone` (server zone if omitted)
+ * shows the reading held in `wall`'s UTC fields
+ */
+export function fromWallTime(wall: Date, timezone?: string): Date {
+  if (!timezone) {
+    return new Date(
+      wall.getUTCFullYear(),
+      wall.getUTCMonth(),
+      wall.getUTCDate(),
+      wall.getUTCHours(),
+      wall.getUTCMinutes(),
+      wall.getUTCSeconds(),
+      wall.getUTCMilliseconds()
+    );
+  }
+  const offset = (instant: number) =>
+    wallClock(new Date(instant), timezone) - (instant - withinMinute(instant));
+  // Shift by the zone's offset, then once more in case the first guess
+  // landed on the other side of a DST change
+  let instant = wall.getTime() - offset(wall.getTime());
+  instant = wall.getTime() - offset(instant);
+  return new Date(instant);
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The instant at which the clock in `timezone` (server zone if omitted)
+ * reads the given local date and time. Without a time, 9:00 is used.
+ * Returns null for malformed or impossible dates.
+ */
+export function zonedTimeToDate(
+  date: string,
+  time: string | undefined,
+  timezone?: string
+): Date | null {
+  const dateMatch = DATE_PATTERN.exec(date);
+  const timeMatch = time ? TIME_PATTERN.exec(time) : null;
+  if (!dateMatch || (time && !timeMatch)) {
+    return null;
+  }
+
+  const [year, month, day] = dateMatch.slice(1).map(Number);
+  const hours = timeMatch ? Number(timeMatch[1]) : DEFAULT_HOUR;
+  const minutes = timeMatch ? Number(timeMatch[2]) : 0;
+  const wall = Date.UTC(year, month - 1, day, hours, minutes);
+  if (
+    hours > 23 ||
+    minutes > 59 ||
+    new Date(wall).getUTCDate() !== day ||
+    new Date(wall).getUTCMonth() !== month - 1
+  ) {
+    return null;
+  }
+
+  return fromWallTime(new Date(wall), timezone);
+}
+
+/**
+ * YYYY-MM-DD of an instant in the given timezone (server zone if omitted)
+ */
+export function localDay(date: Date, timezone?: string): string {
+  const wall = timezone
+    ? new Date(wallClock(date, timezone))
+    : new Date(
+        Date.UTC(date.getFullYear(), date.getMonth(), date.getDate(), 0, 0)
+      );
+  return wall.toISOString().slice(0, 10);
+}
+
+/**
+ * Tomorrow at 9:00 in the given timezone, for todos that need a due date
+ * but weren't given one
+ */
+export function defaultDueDate(
+  timezone?: string,
+  now: Date = new Date()
+): Date {
+  return zonedTimeToDate(
+    localDay(new Date(now.getTime() + 24 * 60 * 60 * 1000), timezone),
+    undefined,
+    timezone
+  )!;
+}
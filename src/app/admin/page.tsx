@@ -17,6 +17,7 @@ import { Badge } from "../../components/ui/badge";
 import { Switch } from "../../components/ui/switch";
 import { Slider } from "../../components/ui/slider";
 import { ScrollArea } from "../../components/ui/scroll-area";
+import { ModelSettingsForm } from "../../components/settings/model-settings-form";
 import {
   AlertCircle,
   Bell,
@@ -152,7 +153,7 @@ export default function Dashboard() {
         </div>
 
         <Tabs defaultValue="vibes" className="space-y-8">
-          <TabsList className="grid w-full grid-cols-2 lg:grid-cols-4 bg-black text-white">
+          <TabsList className="grid w-full grid-cols-2 lg:grid-cols-5 bg-black text-white">
             <TabsTrigger
               value="vibes"
               className="data-[state=active]:bg-white data-[state=active]:text-black"
@@ -177,6 +178,12 @@ export default function Dashboard() {
             >
               Tweaks
             </TabsTrigger>
+            <TabsTrigger
+              value="models"
+              className="data-[state=active]:bg-white data-[state=active]:text-black"
+            >
+              Models
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="vibes" className="space-y-4">
@@ -472,6 +479,10 @@ export default function Dashboard() {
               </CardContent>
             </Card>
           </TabsContent>
+
+          <TabsContent value="models" className="space-y-4">
+            <ModelSettingsForm />
+          </TabsContent>
         </Tabs>
       </main>
 
@@ -5,7 +5,7 @@ import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
 import { Button } from "@/components/ui/button"
 import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet"
 import { Menu, Settings, Archive, LogIn, LogOut, User as UserIcon } from 'lucide-react'
-import { Thread, Message, Mood, chatApi } from '@/types/types'
+import { Thread, Message, MessageDelta, Mood, chatApi } from '@/types/types'
 import ThreadItem from '@/app/components/interact/thread-item'
 import ChatView from '@/app/components/interact/chat-view'
 import SessionsView from '@/app/components/interact/sessions-view'
@@ -238,6 +238,29 @@ export default function SerendipityCompanion() {
       setIsTyping(typingUpdate.isTyping);
     }
 
+    const handleMessageDelta = (delta: MessageDelta) => {
+      setCurrentMessages(prevMessages => {
+        const existingIndex = prevMessages.findIndex(msg => msg.id === delta.messageId);
+        if (existingIndex > -1) {
+          const existing = prevMessages[existingIndex];
+          // The final messageUpdate may already have landed; never append to a finished reply
+          if (existing.status && existing.status.toUpperCase() !== 'PROCESSING') return prevMessages;
+          const updatedMessages = [...prevMessages];
+          updatedMessages[existingIndex] = { ...existing, content: existing.content + delta.delta };
+          return updatedMessages;
+        }
+        return [...prevMessages, {
+          id: delta.messageId,
+          sessionId: delta.sessionId,
+          role: 'assistant',
+          content: delta.delta,
+          timestamp: delta.timestamp,
+          status: 'PROCESSING',
+        }];
+      });
+      setIsTyping(false);
+    }
+
     const handleActivityUpdate = (activityUpdate: { activityId: string | null; isActive: boolean | null; type: string | null; name: string | null }) => {
       console.log('SSE received activity update:', activityUpdate)
       // If an activity has ended, update UI state accordingly
@@ -252,7 +275,8 @@ export default function SerendipityCompanion() {
       handleNewMessage, 
       handleStatusUpdate, 
       handleTyping,
-      handleActivityUpdate
+      handleActivityUpdate,
+      handleMessageDelta
     )
 
     return () => {
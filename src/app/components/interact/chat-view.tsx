@@ -186,6 +186,11 @@ export default function ChatView({
     }
   };
 
+  // An assistant message still in PROCESSING has partial text streamed via messageDelta
+  const isStreamingMessage = (message: Message) =>
+    message.role === 'assistant' && message.status?.toUpperCase() === 'PROCESSING' && message.content.length > 0;
+  const hasStreamingMessage = currentMessages.some(isStreamingMessage);
+
   const isGlobalSession = sessionId.startsWith('global-');
   const currentTitle = isGlobalSession ? "Global Chat" : currentThread?.title || "Chat";
 
@@ -286,6 +291,7 @@ export default function ChatView({
                   }
                   activeActivityId={activeActivityId}
                   isTyping={false}
+                  isStreaming={isStreamingMessage(message)}
                   onDelete={(messageId) => {
                     // Update the message in the current state to mark it as deleted
                     const updatedMessages = currentMessages.map(msg => 
@@ -305,7 +311,7 @@ export default function ChatView({
                 />
              ))
           )}
-          {isTyping && (
+          {isTyping && !hasStreamingMessage && (
              <MessageItem key="typing-indicator" message={{
                id: 'typing',
                role: 'assistant',
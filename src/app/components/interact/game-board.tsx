@@ -0,0 +1,68 @@
+import { cn } from "@/lib/utils";
+import { IGameSnapshot } from "@/../server/src/models/activity.model";
+
+interface GameBoardProps {
+  game: IGameSnapshot;
+}
+
+// Glyphs for the FEN letters in a chess grid (upper case is white)
+const CHESS_PIECES: Record<string, string> = {
+  K: '♔', Q: '♕', R: '♖', B: '♗', N: '♘', P: '♙',
+  k: '♚', q: '♛', r: '♜', b: '♝', n: '♞', p: '♟',
+};
+
+const describeOutcome = (game: IGameSnapshot): string | null => {
+  const reason = game.outcomeReason ? ` (${game.outcomeReason})` : '';
+  switch (game.status) {
+    case 'user_won':
+      return `You won${reason}`;
+    case 'ai_won':
+      return `I won${reason}`;
+    case 'draw':
+      return `Draw${reason}`;
+    default:
+      return null;
+  }
+};
+
+// Shown under an assistant message in a game: the board after the moves it narrates
+export default function GameBoard({ game }: GameBoardProps) {
+  const isChess = game.gameType === 'chess';
+  const outcome = describeOutcome(game);
+
+  return (
+    <div className="mt-1 rounded-md border border-purple-200 bg-white px-3 py-2 text-xs text-gray-700">
+      <div className="flex items-center justify-between gap-3 mb-1">
+        <span className="font-medium">{game.name}</span>
+        {outcome && <span className="text-purple-700">{outcome}</span>}
+      </div>
+      {game.grid ? (
+        <div
+          className={cn("inline-grid", !isChess && "gap-0.5 bg-gray-300")}
+          style={{ gridTemplateColumns: `repeat(${game.grid[0]?.length || 1}, auto)` }}
+        >
+          {game.grid.flatMap((row, rowIndex) =>
+            row.map((cell, colIndex) => (
+              <div
+                key={`${rowIndex}-${colIndex}`}
+                className={cn(
+                  "flex items-center justify-center",
+                  isChess
+                    ? cn("h-7 w-7 text-lg", (rowIndex + colIndex) % 2 === 0 ? "bg-amber-50" : "bg-amber-200")
+                    : "h-9 w-9 bg-white text-base font-semibold"
+                )}
+              >
+                {cell ? (isChess ? CHESS_PIECES[cell] || cell : cell) : ''}
+              </div>
+            ))
+          )}
+        </div>
+      ) : (
+        <pre className="font-mono text-xs leading-snug whitespace-pre">{game.text}</pre>
+      )}
+      {game.lastTurn?.rejectedMove && (
+        <p className="mt-1 text-red-600">{game.lastTurn.rejectionReason}</p>
+      )}
+    </div>
+  );
+}
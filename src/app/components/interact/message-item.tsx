@@ -1,7 +1,7 @@
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Message } from "@/types/types";
 import { cn } from "@/lib/utils"; // Assuming cn utility exists for class names
-import { Activity, Trash, RefreshCw, Check, AlertCircle, Zap } from 'lucide-react'; // Import needed icons
+import { Activity, Trash, RefreshCw, Check, AlertCircle, Zap, Mic, Image as ImageIcon, FileText, HelpCircle } from 'lucide-react'; // Import needed icons
 import { Button } from "@/components/ui/button";
 import { chatApi } from "@/types/types";
 import { useState } from "react";
@@ -11,10 +11,15 @@ import {
   TooltipProvider,
   TooltipTrigger
 } from "@/components/ui/tooltip";
+import { IMessageAttachment } from "@/../server/src/models/message.model";
+import MessageProvenancePanel from "./message-provenance";
+import GameBoard from "./game-board";
+import { IGameSnapshot } from "@/../server/src/models/activity.model";
 
 interface MessageItemProps {
   message: Message;
   isTyping?: boolean; // Added optional prop for typing indicator
+  isStreaming?: boolean; // Whether the assistant reply is still arriving as deltas
   possiblyInActivity?: boolean; // Whether this message might be part of an activity (for optimistic UI)
   activeActivityId?: string | null; // Current active activity ID for the session
   onDelete?: (messageId: string) => void; // Callback for deleting messages
@@ -24,6 +29,7 @@ interface MessageItemProps {
 export default function MessageItem({ 
   message, 
   isTyping = false, 
+  isStreaming = false,
   possiblyInActivity = false,
   activeActivityId = null,
   onDelete,
@@ -32,6 +38,7 @@ export default function MessageItem({
   const [isHovering, setIsHovering] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
   const [isRestoring, setIsRestoring] = useState(false);
+  const [showProvenance, setShowProvenance] = useState(false);
 
   const isUser = message.role === 'user'; // Use role instead of sender
   const avatarFallback = isUser ? 'U' : 'S';
@@ -54,11 +61,47 @@ export default function MessageItem({
   const actionSuccess = message.metadata?.actionSuccess;
   const actionMessage = message.metadata?.actionMessage;
 
+  // Finished assistant replies can explain what they were based on
+  const canExplain = !isUser && !isTyping && !isStreaming && !message.isDeleted && message.status !== 'ERROR';
+
+  // Files sent along with the message (e.g. from Telegram)
+  const attachments: IMessageAttachment[] = message.metadata?.attachments || [];
+
+  // The board of a game activity, as it stood after this reply
+  const game: IGameSnapshot | undefined = message.metadata?.game;
+
   // Function to format timestamp (optional)
   const formatTimestamp = (date: Date) => {
     return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
   };
 
+  const formatDuration = (seconds: number) =>
+    `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+  const describeAttachment = (attachment: IMessageAttachment) => {
+    switch (attachment.type) {
+      case 'voice':
+      case 'audio':
+        return {
+          icon: <Mic className="h-3 w-3" />,
+          label: `${attachment.type === 'voice' ? 'Voice message' : attachment.fileName || 'Audio'}${attachment.durationSeconds ? ` · ${formatDuration(attachment.durationSeconds)}` : ''}`,
+          detail: 'Transcribed to the text above',
+        };
+      case 'photo':
+        return {
+          icon: <ImageIcon className="h-3 w-3" />,
+          label: 'Photo',
+          detail: attachment.description,
+        };
+      default:
+        return {
+          icon: <FileText className="h-3 w-3" />,
+          label: attachment.fileName || 'Document',
+          detail: attachment.chunks ? `${attachment.chunks} sections saved for reference` : undefined,
+        };
+    }
+  };
+
   const handleDelete = async () => {
     if (onDelete && !isDeleting) {
       setIsDeleting(true);
@@ -129,6 +172,9 @@ export default function MessageItem({
             <>
               <p className="text-sm text-gray-800">
                 {message.isDeleted ? <span className="italic text-gray-500">[Message deleted]</span> : message.content}
+                {isStreaming && !message.isDeleted && (
+                  <span className="inline-block w-1.5 h-3.5 ml-0.5 align-text-bottom bg-amber-400 animate-pulse" />
+                )}
               </p>
               
               {/* Inline action buttons that appear on hover */}
@@ -163,6 +209,34 @@ export default function MessageItem({
             </>
           )}
         </div>
+        {/* Attachments sent with the message */}
+        {attachments.length > 0 && (
+          <div className={cn("flex flex-wrap gap-1 mt-1", isUser ? "justify-end" : "justify-start")}>
+            {attachments.map((attachment, index) => {
+              const { icon, label, detail } = describeAttachment(attachment);
+              return (
+                <TooltipProvider key={attachment.fileId || index}>
+                  <Tooltip>
+                    <TooltipTrigger>
+                      <div className="flex items-center gap-1 text-xs rounded-md px-2 py-1 bg-gray-100 text-gray-600">
+                        {icon}
+                        <span>{label}</span>
+                        {attachment.source === 'telegram' && <span className="text-gray-400">· via Telegram</span>}
+                      </div>
+                    </TooltipTrigger>
+                    {detail && (
+                      <TooltipContent>
+                        <p className="max-w-xs">{detail}</p>
+                      </TooltipContent>
+                    )}
+                  </Tooltip>
+                </TooltipProvider>
+              );
+            })}
+          </div>
+        )}
+        {/* Game board */}
+        {!isUser && game && <GameBoard game={game} />}
         {/* Action display */}
         {!isUser && actionExecuted && (
           <div className={cn(
@@ -196,7 +270,20 @@ export default function MessageItem({
           {message.status === 'PENDING' && isUser && <span className="ml-1">(Sending...)</span>}
           {message.status === 'ERROR' && isUser && <span className="ml-1 text-red-500">(Failed)</span>}
           {message.isDeleted && <span className="ml-1 text-gray-500">(Deleted)</span>}
+          {canExplain && (
+            <button
+              type="button"
+              className="ml-2 flex items-center gap-0.5 hover:text-gray-600"
+              onClick={() => setShowProvenance(!showProvenance)}
+            >
+              <HelpCircle className="h-3 w-3" />
+              {showProvenance ? 'Hide' : 'Why did you say this?'}
+            </button>
+          )}
         </p>
+        {canExplain && showProvenance && (
+          <MessageProvenancePanel sessionId={message.sessionId} messageId={message.id} />
+        )}
       </div>
       {isUser && (
         <Avatar className={cn("h-8 w-8 ml-2 flex-shrink-0", avatarColor)}>
@@ -0,0 +1,142 @@
+import { useEffect, useState } from "react";
+import { Brain, Loader2, Undo2, EyeOff } from 'lucide-react';
+import { Button } from "@/components/ui/button";
+import { chatApi, MessageProvenance } from "@/types/types";
+import { setMemoryDeleted } from "@/lib/settings-api";
+
+interface MessageProvenanceProps {
+  sessionId: string;
+  messageId: string;
+}
+
+// Shown under an assistant message: the memories, context and activity state its prompt contained
+export default function MessageProvenancePanel({ sessionId, messageId }: MessageProvenanceProps) {
+  const [provenance, setProvenance] = useState<MessageProvenance | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [pendingMemoryId, setPendingMemoryId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    chatApi.getMessageProvenance(sessionId, messageId).then((data) => {
+      if (cancelled) return;
+      setProvenance(data);
+      setError(data ? null : "Couldn't load what this reply was based on.");
+      setIsLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId, messageId]);
+
+  const toggleForgotten = async (memoryId: string, deleted: boolean) => {
+    setPendingMemoryId(memoryId);
+    try {
+      await setMemoryDeleted(memoryId, deleted);
+      setProvenance((current) => current && {
+        ...current,
+        memories: current.memories.map((memory) =>
+          memory.memoryId === memoryId ? { ...memory, isDeleted: deleted } : memory
+        ),
+      });
+      setError(null);
+    } catch (err) {
+      console.error("Failed to update memory:", err);
+      setError(deleted ? "Couldn't forget that memory." : "Couldn't restore that memory.");
+    } finally {
+      setPendingMemoryId(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-1 mt-1 text-xs text-gray-500">
+        <Loader2 className="h-3 w-3 animate-spin" /> Loading…
+      </div>
+    );
+  }
+
+  if (!provenance) {
+    return <div className="mt-1 text-xs text-red-500">{error}</div>;
+  }
+
+  if (!provenance.recorded) {
+    return (
+      <div className="mt-1 text-xs text-gray-500">
+        No record was kept of what this reply was based on.
+      </div>
+    );
+  }
+
+  const isEmpty = provenance.memories.length === 0 && provenance.contextItems.length === 0 && !provenance.activity;
+
+  return (
+    <div className="mt-1 w-full rounded-md border border-gray-200 bg-white px-3 py-2 text-xs text-gray-700 space-y-2">
+      {error && <div className="text-red-500">{error}</div>}
+      {isEmpty && <div className="text-gray-500">Only the conversation itself went into this reply.</div>}
+
+      {provenance.memories.length > 0 && (
+        <div>
+          <div className="font-medium text-gray-800 mb-1">Memories it recalled</div>
+          <ul className="space-y-1">
+            {provenance.memories.map((memory) => {
+              const forgotten = !memory.exists || memory.isDeleted;
+              return (
+                <li key={memory.memoryId} className="flex items-start justify-between gap-2">
+                  <span className={forgotten ? "line-through text-gray-400" : ""}>
+                    <Brain className="inline h-3 w-3 mr-1 text-amber-500" />
+                    {memory.text}
+                    {memory.score !== undefined && (
+                      <span className="ml-1 text-gray-400">({Math.round(memory.score * 100)}%)</span>
+                    )}
+                    {memory.replacedBy && !forgotten && (
+                      <span className="ml-1 text-gray-400">(since merged or updated)</span>
+                    )}
+                  </span>
+                  {memory.exists && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-5 px-1 text-xs flex-shrink-0"
+                      disabled={pendingMemoryId === memory.memoryId}
+                      onClick={() => toggleForgotten(memory.memoryId, !memory.isDeleted)}
+                    >
+                      {memory.isDeleted ? (
+                        <><Undo2 className="h-3 w-3 mr-1" /> Undo</>
+                      ) : (
+                        <><EyeOff className="h-3 w-3 mr-1" /> Forget this</>
+                      )}
+                    </Button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+
+      {provenance.contextItems.length > 0 && (
+        <div>
+          <div className="font-medium text-gray-800 mb-1">Context it had</div>
+          <ul className="list-disc pl-4 space-y-0.5">
+            {provenance.contextItems.map((item, index) => (
+              <li key={item.id || `${item.section}-${index}`}>{item.label}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {provenance.activity && (
+        <div>
+          <div className="font-medium text-gray-800 mb-1">
+            Activity: {provenance.activity.name} ({provenance.activity.type})
+          </div>
+          {provenance.activity.state && (
+            <pre className="whitespace-pre-wrap font-sans text-gray-600">{provenance.activity.state}</pre>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
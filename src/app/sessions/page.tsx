@@ -27,11 +27,12 @@ export default function SessionsPage() {
           const manageableThreads = fetchedThreads.filter(t => !t.sessionId.startsWith('global-'))
           
           // Create synthetic global thread object
+          const userId = String(user?._id ?? '')
           const globalThread: Thread = {
-            id: `global-${user._id}`,
-            sessionId: `global-${user._id}`,
+            id: `global-${userId}`,
+            sessionId: `global-${userId}`,
             title: "Global",
-            userId: user._id,
+            userId,
             status: 'active',
             lastActive: new Date(), // Use current time or fetch from backend if available
             messages: [], // Cannot display message count easily
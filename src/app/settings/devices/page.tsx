@@ -0,0 +1,16 @@
+import React from 'react';
+import { DevicesView } from '@/components/settings/devices-view';
+
+export default function DevicesPage() {
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-medium">Devices</h3>
+        <p className="text-sm text-gray-500">
+          See where you&apos;re signed in and sign out devices you don&apos;t recognize.
+        </p>
+      </div>
+      <DevicesView />
+    </div>
+  );
+}
@@ -0,0 +1,16 @@
+import React from 'react';
+import { LinkedAccountsView } from '@/components/settings/linked-accounts-view';
+
+export default function LinkedAccountsPage() {
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-medium">Linked Accounts</h3>
+        <p className="text-sm text-gray-500">
+          Chat with Synapse from Telegram as the same user, with the same memories and goals.
+        </p>
+      </div>
+      <LinkedAccountsView />
+    </div>
+  );
+}
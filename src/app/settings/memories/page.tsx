@@ -0,0 +1,16 @@
+import React from 'react';
+import { MemoriesView } from '@/components/settings/memories-view';
+
+export default function MemoriesPage() {
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-medium">Memories</h3>
+        <p className="text-sm text-gray-500">
+          Review, correct and curate what Synapse remembers about you.
+        </p>
+      </div>
+      <MemoriesView />
+    </div>
+  );
+}
@@ -1,6 +1,12 @@
 import React from 'react';
 import { ProfileForm } from '@/components/settings/profile-form';
+import { AccountDataCard } from '@/components/settings/account-data-card';
 
 export default function ProfileSettingsPage() {
-  return <ProfileForm />;
+  return (
+    <div className="space-y-6">
+      <ProfileForm />
+      <AccountDataCard />
+    </div>
+  );
 }
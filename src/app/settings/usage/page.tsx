@@ -0,0 +1,16 @@
+import React from 'react';
+import { UsageView } from '@/components/settings/usage-view';
+
+export default function UsagePage() {
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-medium">Usage</h3>
+        <p className="text-sm text-gray-500">
+          How much of your plan you&apos;ve used this month.
+        </p>
+      </div>
+      <UsageView />
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { toast } from "sonner";
+import { useAuth } from '@/context/auth-context';
+import {
+  AccountDeletion,
+  cancelAccountDeletion,
+  deleteAccount,
+  exportAccountData,
+  fetchAccountDeletion,
+} from '@/lib/settings-api';
+
+/**
+ * Download all of the user's data, or delete the account after a grace period.
+ */
+export function AccountDataCard() {
+  const { logout } = useAuth();
+  const [deletion, setDeletion] = useState<AccountDeletion | null>(null);
+  const [password, setPassword] = useState('');
+  const [isExporting, setIsExporting] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    fetchAccountDeletion()
+      .then(setDeletion)
+      .catch((error) => console.error("Failed to fetch account deletion:", error));
+  }, []);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const { blob, filename } = await exportAccountData();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename || 'synapse-export.json';
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Failed to export account data:", error);
+      toast.error("Failed to export your data.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!password) {
+      toast.error("Enter your password to confirm.");
+      return;
+    }
+    if (!window.confirm("Delete your account and everything Synapse knows about you?")) return;
+
+    setIsLoading(true);
+    try {
+      const scheduled = await deleteAccount(password);
+      toast.success(
+        `Your account will be deleted on ${new Date(scheduled.scheduledFor).toLocaleDateString()}. ` +
+          "Log in before then to cancel."
+      );
+      // Every device, this one included, has been signed out
+      logout();
+    } catch (error: any) {
+      console.error("Failed to delete account:", error);
+      toast.error(error?.status === 403 ? "Incorrect password." : "Failed to delete your account.");
+      setIsLoading(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    setIsLoading(true);
+    try {
+      await cancelAccountDeletion();
+      setDeletion(null);
+      toast.success("Your account will not be deleted.");
+    } catch (error) {
+      console.error("Failed to cancel account deletion:", error);
+      toast.error("Failed to cancel the deletion.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Card className="bg-white shadow-sm">
+      <CardHeader>
+        <CardTitle className="text-xl font-semibold text-gray-800">Your data</CardTitle>
+        <CardDescription className="text-gray-600">
+          Download everything stored about you, or delete your account.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <Button variant="outline" disabled={isExporting} onClick={handleExport}>
+          {isExporting ? 'Preparing download...' : 'Download my data'}
+        </Button>
+
+        {deletion?.status === 'scheduled' ? (
+          <div className="border border-red-200 bg-red-50 rounded p-3 space-y-2">
+            <p className="text-sm text-red-800">
+              Your account is scheduled for deletion on {new Date(deletion.scheduledFor).toLocaleString()}.
+            </p>
+            <Button size="sm" variant="outline" disabled={isLoading} onClick={handleCancel}>
+              Keep my account
+            </Button>
+          </div>
+        ) : deletion ? (
+          <p className="text-sm text-red-800">Your account is being deleted.</p>
+        ) : (
+          <div className="space-y-2">
+            <Label htmlFor="delete-password" className="text-gray-700">Delete account</Label>
+            <p className="text-sm text-gray-500">
+              Your conversations, memories, settings and connected accounts are removed after a grace
+              period, during which you can log in and cancel.
+            </p>
+            <div className="flex gap-2">
+              <Input
+                id="delete-password"
+                type="password"
+                placeholder="Password"
+                value={password}
+                onChange={(event) => setPassword(event.target.value)}
+              />
+              <Button variant="destructive" disabled={isLoading} onClick={handleDelete}>
+                Delete account
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
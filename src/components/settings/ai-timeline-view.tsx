@@ -1,42 +1,50 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
 import { toast } from "sonner";
-import { fetchTimelineEvents } from '@/lib/settings-api'; // Import API function
+import { fetchTimelineEvents, TimelineEvent } from '@/lib/settings-api'; // Import API function
 import { ScrollArea } from "@/components/ui/scroll-area"; // For potentially long lists
 
-// Define a basic structure for timeline events (adjust based on actual data)
-interface TimelineEvent {
-  id: string; // Assuming events have IDs
-  timestamp: string | Date;
-  type: string;
-  description: string;
-  metadata?: Record<string, any>;
-}
+// Event type groups offered as filters
+const TYPE_FILTERS: { label: string; types: string[] }[] = [
+  { label: 'Memories', types: ['memory_created', 'memory_deleted'] },
+  { label: 'Thoughts', types: ['thought_added', 'thinking_recorded', 'emotion_changed'] },
+  { label: 'Activities', types: ['activity_started', 'activity_ended'] },
+  { label: 'Sessions', types: ['session_created', 'summary_created'] },
+  { label: 'Goals', types: ['goal_updated'] },
+];
+
+const PAGE_SIZE = 50;
 
 export function AITimelineView() {
   const [events, setEvents] = useState<TimelineEvent[]>([]);
   const [isFetching, setIsFetching] = useState(true);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [activeFilter, setActiveFilter] = useState<string | null>(null);
+
+  const loadEvents = useCallback(async (before?: string) => {
+    setIsFetching(true);
+    try {
+      const types = TYPE_FILTERS.find((f) => f.label === activeFilter)?.types;
+      const page = await fetchTimelineEvents({ limit: PAGE_SIZE, before, types });
+      const fetched = Array.isArray(page?.events) ? page.events : [];
+      // Older pages are appended below what is already shown
+      setEvents((current) => (before ? [...current, ...fetched] : fetched));
+      setNextCursor(page?.nextCursor ?? null);
+    } catch (error) {
+      console.error("Failed to fetch timeline events:", error);
+      toast.error("Failed to load AI timeline.");
+      if (!before) setEvents([]); // Clear on error
+    } finally {
+      setIsFetching(false);
+    }
+  }, [activeFilter]);
 
   useEffect(() => {
-    const loadEvents = async () => {
-      setIsFetching(true);
-      try {
-        // Fetching latest 50 events by default
-        const fetchedEvents = await fetchTimelineEvents(50);
-        // Ensure fetched data is an array
-        setEvents(Array.isArray(fetchedEvents) ? fetchedEvents : []);
-      } catch (error) {
-        console.error("Failed to fetch timeline events:", error);
-        toast.error("Failed to load AI timeline.");
-        setEvents([]); // Clear on error
-      } finally {
-        setIsFetching(false);
-      }
-    };
     loadEvents();
-  }, []);
+  }, [loadEvents]);
 
   // Helper to format timestamp
   const formatTimestamp = (ts: string | Date) => {
@@ -56,11 +64,31 @@ export function AITimelineView() {
         </CardDescription>
       </CardHeader>
       <CardContent>
-        {isFetching ? (
+        <div className="flex flex-wrap gap-2 mb-4">
+          <Button
+            size="sm"
+            variant={activeFilter === null ? 'default' : 'outline'}
+            onClick={() => setActiveFilter(null)}
+          >
+            All
+          </Button>
+          {TYPE_FILTERS.map((filter) => (
+            <Button
+              key={filter.label}
+              size="sm"
+              variant={activeFilter === filter.label ? 'default' : 'outline'}
+              onClick={() => setActiveFilter(filter.label)}
+            >
+              {filter.label}
+            </Button>
+          ))}
+        </div>
+        {isFetching && events.length === 0 ? (
           <p className="text-gray-600">Loading timeline...</p>
         ) : (
           <ScrollArea className="h-[400px] pr-4"> {/* Limit height and add scroll */} 
             {events.length > 0 ? (
+              <>
               <ul className="space-y-3">
                 {events.map((event) => (
                   <li key={event.id} className="p-3 border-l-4 border-amber-400 bg-gray-50 rounded-r">
@@ -83,6 +111,19 @@ export function AITimelineView() {
                   </li>
                 ))}
               </ul>
+              {nextCursor && (
+                <div className="flex justify-center pt-3">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={isFetching}
+                    onClick={() => loadEvents(nextCursor)}
+                  >
+                    {isFetching ? 'Loading...' : 'Load older events'}
+                  </Button>
+                </div>
+              )}
+              </>
             ) : (
               <p className="text-sm text-gray-500">No timeline events found or unable to load.</p>
             )}
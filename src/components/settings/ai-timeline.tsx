@@ -20,6 +20,8 @@ interface TimelineEvent {
 const eventTypeVisuals: { [key: string]: { icon: React.ElementType, color: string } } = {
   interaction: { icon: MessageSquare, color: "text-blue-500 dark:text-blue-400" },
   memory_created: { icon: MemoryStick, color: "text-green-500 dark:text-green-400" },
+  memory_deleted: { icon: MemoryStick, color: "text-red-500 dark:text-red-400" },
+  session_created: { icon: MessageSquare, color: "text-blue-500 dark:text-blue-400" },
   goal_updated: { icon: Target, color: "text-yellow-500 dark:text-yellow-400" },
   thought_added: { icon: Brain, color: "text-purple-500 dark:text-purple-400" },
   default: { icon: AlertCircle, color: "text-gray-500 dark:text-gray-400" },
@@ -33,12 +35,8 @@ export function AITimeline() {
     async function fetchTimeline() {
       setIsLoading(true)
       try {
-        const fetchedEvents = await fetchTimelineEvents(100)
-        setEvents(
-          fetchedEvents.sort(
-            (a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
-          ) || []
-        )
+        const page = await fetchTimelineEvents({ limit: 100 })
+        setEvents(page.events || [])
       } catch (error: any) {
         console.error("Failed to fetch AI timeline:", error)
         toast.error("Failed to load AI timeline.", { description: error.message })
@@ -0,0 +1,116 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { toast } from "sonner";
+import { useAuth } from '@/context/auth-context';
+import { SignedInDevice, fetchDevices, logoutEverywhere, revokeDevice } from '@/lib/settings-api';
+
+/**
+ * The devices the user is signed in on, each of which can be signed out.
+ */
+export function DevicesView() {
+  const { logout } = useAuth();
+  const [devices, setDevices] = useState<SignedInDevice[]>([]);
+  const [isFetching, setIsFetching] = useState(true);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+
+  const loadDevices = useCallback(async () => {
+    setIsFetching(true);
+    try {
+      const fetched = await fetchDevices();
+      setDevices(Array.isArray(fetched) ? fetched : []);
+    } catch (error) {
+      console.error("Failed to fetch devices:", error);
+      toast.error("Failed to load your devices.");
+    } finally {
+      setIsFetching(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadDevices();
+  }, [loadDevices]);
+
+  const handleRevoke = async (device: SignedInDevice) => {
+    if (device.current && !window.confirm("Sign out of this device?")) return;
+    setPendingId(device.id);
+    try {
+      await revokeDevice(device.id);
+      if (device.current) {
+        logout();
+        return;
+      }
+      setDevices((current) => current.filter((d) => d.id !== device.id));
+      toast.success(`Signed out ${device.deviceName}.`);
+    } catch (error) {
+      console.error("Failed to revoke device:", error);
+      toast.error("Failed to sign out that device.");
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const handleLogoutEverywhere = async () => {
+    if (!window.confirm("Sign out of every device, including this one?")) return;
+    try {
+      await logoutEverywhere();
+      logout();
+    } catch (error) {
+      console.error("Failed to log out everywhere:", error);
+      toast.error("Failed to sign out your devices.");
+    }
+  };
+
+  return (
+    <Card className="bg-white shadow-sm">
+      <CardHeader>
+        <CardTitle className="text-xl font-semibold text-gray-800">Signed-in devices</CardTitle>
+        <CardDescription className="text-gray-600">
+          Devices stay signed in until they&apos;re signed out here or go unused for a month.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isFetching && devices.length === 0 ? (
+          <p className="text-gray-600">Loading devices...</p>
+        ) : devices.length ? (
+          <ul className="space-y-2">
+            {devices.map((device) => (
+              <li key={device.id} className="border rounded p-3 flex items-center justify-between gap-2">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2 text-sm font-medium text-gray-800">
+                    {device.deviceName}
+                    {device.current && (
+                      <Badge variant="secondary" className="text-xs font-normal">This device</Badge>
+                    )}
+                  </div>
+                  <div className="text-xs text-gray-500" title={device.userAgent}>
+                    Last active {new Date(device.lastUsedAt).toLocaleString()}
+                    {device.ip && <span> · {device.ip}</span>}
+                    <span> · signed in {new Date(device.createdAt).toLocaleDateString()}</span>
+                  </div>
+                </div>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={pendingId === device.id}
+                  onClick={() => handleRevoke(device)}
+                >
+                  Sign out
+                </Button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-gray-600">No signed-in devices.</p>
+        )}
+
+        <Button variant="destructive" onClick={handleLogoutEverywhere}>
+          Sign out everywhere
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -9,7 +9,7 @@ import { Switch } from "@/components/ui/switch"
 import { AlertCircle, Loader2, CheckCircle2 } from "lucide-react"
 import { toast } from "sonner"
 import { fetchUserIntegrations, updateUserIntegrations } from "@/lib/integrations-api"
-import { testNotionConnection, updateNotionSettings, getNotionSettings, getUserNotionPages } from "@/lib/integrations-api"
+import { testNotionConnection, updateNotionSettings, getNotionSettings, getUserNotionPages, syncNotion } from "@/lib/integrations-api"
 import { IIntegration } from "@/../server/src/models/user-state.model" // Adjust path if needed
 
 // Define known integration types for UI rendering
@@ -21,7 +21,9 @@ const KNOWN_INTEGRATIONS = [
     description: "Connect Synapse to your Notion workspace to access and update your notes.",
     fields: [
       { key: "token", label: "Notion API Token", type: "password" },
-      { key: "pageId", label: "Root Page ID (Optional)", type: "text", required: false }
+      { key: "pageId", label: "Root Page ID (Optional)", type: "text", required: false },
+      { key: "databaseId", label: "Todo Database ID (Optional)", type: "text", required: false },
+      { key: "goalsDatabaseId", label: "Goals Database ID (Optional)", type: "text", required: false }
     ]
   },
   { 
@@ -46,6 +48,7 @@ export function IntegrationsForm() {
     message?: string;
     workspaceName?: string;
   }>({ status: 'idle' })
+  const [isSyncingNotion, setIsSyncingNotion] = useState(false)
   const [notionPages, setNotionPages] = useState<Array<{id: string, title: string}>>([])
 
   const fetchIntegrations = useCallback(async () => {
@@ -151,6 +154,27 @@ export function IntegrationsForm() {
     )
   }
   
+  const handleSyncNotion = async () => {
+    setIsSyncingNotion(true)
+    try {
+      const { report } = await syncNotion()
+      const changes = [report.goals, report.tasks].reduce(
+        (sum, counts) => sum + (counts ? Object.values(counts).reduce((a, b) => a + b, 0) : 0),
+        0
+      )
+      toast.success("Notion sync finished", { description: `${changes} change(s) applied.` })
+      setIntegrations(prev =>
+        prev.map(integration =>
+          integration.platform === "notion" ? { ...integration, lastSync: new Date() } : integration
+        )
+      )
+    } catch (error: any) {
+      toast.error("Notion sync failed.", { description: error.message })
+    } finally {
+      setIsSyncingNotion(false)
+    }
+  }
+
   const handleTestNotion = async () => {
     const notionIntegration = integrations.find(i => i.platform === "notion")
     if (!notionIntegration?.credentials?.token) {
@@ -196,6 +220,8 @@ export function IntegrationsForm() {
           await updateNotionSettings({
             token: notionIntegration.credentials.token,
             pageId: notionIntegration.credentials.pageId,
+            databaseId: notionIntegration.credentials.databaseId,
+            goalsDatabaseId: notionIntegration.credentials.goalsDatabaseId,
             enabled: notionIntegration.enabled
           })
           toast.success("Notion integration saved successfully!")
@@ -312,6 +338,22 @@ export function IntegrationsForm() {
                       'Test Connection'
                     )}
                   </Button>
+
+                  {(integration.credentials?.databaseId || integration.credentials?.goalsDatabaseId) && (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={handleSyncNotion}
+                      disabled={!integration.enabled || isSyncingNotion}
+                      className="w-full mt-2 bg-gray-100 dark:bg-gray-700 dark:text-white"
+                    >
+                      {isSyncingNotion ? (
+                        <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Syncing...</>
+                      ) : (
+                        'Sync Goals & Todos Now'
+                      )}
+                    </Button>
+                  )}
                   
                   {notionTestStatus.status === 'success' && (
                     <div className="mt-2 flex items-start text-sm text-green-600 dark:text-green-400">
@@ -0,0 +1,150 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { toast } from "sonner";
+import {
+  LinkedTelegramAccount,
+  TelegramLinkCode,
+  createTelegramLinkCode,
+  fetchLinkedTelegramAccounts,
+  unlinkTelegramAccount,
+} from '@/lib/settings-api';
+
+/**
+ * Link Telegram accounts to the web account with one-time codes, and list
+ * or unlink the accounts already bound.
+ */
+export function LinkedAccountsView() {
+  const [accounts, setAccounts] = useState<LinkedTelegramAccount[]>([]);
+  const [linkCode, setLinkCode] = useState<TelegramLinkCode | null>(null);
+  const [mergeHistory, setMergeHistory] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isFetching, setIsFetching] = useState(true);
+
+  const loadAccounts = async () => {
+    try {
+      setAccounts(await fetchLinkedTelegramAccounts());
+    } catch (error) {
+      console.error("Failed to fetch linked accounts:", error);
+      toast.error("Failed to load linked accounts.");
+    } finally {
+      setIsFetching(false);
+    }
+  };
+
+  useEffect(() => {
+    loadAccounts();
+  }, []);
+
+  const handleCreateCode = async () => {
+    setIsLoading(true);
+    try {
+      setLinkCode(await createTelegramLinkCode(mergeHistory));
+    } catch (error) {
+      console.error("Failed to create link code:", error);
+      toast.error("Failed to create a link code. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleUnlink = async (account: LinkedTelegramAccount) => {
+    setIsLoading(true);
+    try {
+      await unlinkTelegramAccount(account.telegramUserId);
+      toast.success("Telegram account unlinked.");
+      await loadAccounts();
+    } catch (error) {
+      console.error("Failed to unlink account:", error);
+      toast.error("Failed to unlink the account. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card className="bg-white shadow-sm">
+        <CardHeader>
+          <CardTitle className="text-xl font-semibold text-gray-800">Link Telegram</CardTitle>
+          <CardDescription className="text-gray-600">
+            Create a code and send it to the bot
+            {linkCode?.botUsername ? ` @${linkCode.botUsername}` : ''} as{' '}
+            <code>/link CODE</code>. Codes work once and expire after a few minutes.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center space-x-2">
+            <Switch
+              id="merge-history"
+              checked={mergeHistory}
+              onCheckedChange={setMergeHistory}
+              disabled={isLoading}
+            />
+            <Label htmlFor="merge-history" className="text-sm text-gray-600">
+              Bring over the memories and chats from my Telegram-only account
+            </Label>
+          </div>
+          <Button onClick={handleCreateCode} disabled={isLoading}>
+            {linkCode ? 'Create New Code' : 'Create Link Code'}
+          </Button>
+          {linkCode && (
+            <div className="border rounded p-3">
+              <p className="font-mono text-2xl tracking-widest">{linkCode.code}</p>
+              <p className="text-xs text-gray-500">
+                Expires at {new Date(linkCode.expiresAt).toLocaleTimeString()}
+              </p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="bg-white shadow-sm">
+        <CardHeader>
+          <CardTitle className="text-xl font-semibold text-gray-800">Linked Accounts</CardTitle>
+          <CardDescription className="text-gray-600">
+            Telegram accounts that chat as you.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isFetching ? (
+            <p className="text-gray-600">Loading linked accounts...</p>
+          ) : accounts.length ? (
+            <ul className="space-y-2">
+              {accounts.map((account) => (
+                <li
+                  key={account.telegramUserId}
+                  className="flex items-center justify-between border rounded p-2"
+                >
+                  <div>
+                    <p className="font-medium">
+                      {account.displayName || account.telegramUsername || account.telegramUserId}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {account.telegramUsername ? `@${account.telegramUsername} · ` : ''}
+                      linked {new Date(account.linkedAt).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={isLoading}
+                    onClick={() => handleUnlink(account)}
+                  >
+                    Unlink
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-gray-500">No Telegram accounts linked yet.</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
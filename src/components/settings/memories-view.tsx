@@ -0,0 +1,420 @@
+'use client';
+
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { toast } from "sonner";
+import {
+  MemoryCategory,
+  MemoryFilter,
+  UserMemory,
+  bulkSetMemoriesDeleted,
+  deleteMemory,
+  exportMemories,
+  fetchMemories,
+  importMemories,
+  setMemoryPinned,
+  updateMemory,
+} from '@/lib/settings-api';
+
+const CATEGORIES: { value: MemoryCategory; label: string }[] = [
+  { value: 'fact', label: 'Facts' },
+  { value: 'preference', label: 'Preferences' },
+  { value: 'interest', label: 'Interests' },
+  { value: 'behavior', label: 'Behavior' },
+  { value: 'goal', label: 'Goals' },
+  { value: 'event', label: 'Events' },
+  { value: 'conversation', label: 'Conversations' },
+  { value: 'custom', label: 'Other' },
+];
+
+const PAGE_SIZE = 100;
+
+/**
+ * Browse, search and edit the companion's memories of the user, with
+ * pinning, bulk deletion by filter and export/import.
+ */
+export function MemoriesView() {
+  const [memories, setMemories] = useState<UserMemory[]>([]);
+  const [total, setTotal] = useState(0);
+  const [isFetching, setIsFetching] = useState(true);
+  const [isLoading, setIsLoading] = useState(false);
+  const [search, setSearch] = useState('');
+  const [query, setQuery] = useState('');
+  const [category, setCategory] = useState<MemoryCategory | null>(null);
+  const [showDeleted, setShowDeleted] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+  const [bulkSource, setBulkSource] = useState('');
+  const [bulkFrom, setBulkFrom] = useState('');
+  const [bulkTo, setBulkTo] = useState('');
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const loadMemories = useCallback(async (skip = 0) => {
+    setIsFetching(true);
+    try {
+      const page = await fetchMemories({
+        q: query || undefined,
+        category: category ?? undefined,
+        includeDeleted: showDeleted,
+        limit: PAGE_SIZE,
+        skip,
+      });
+      const fetched = Array.isArray(page?.memories) ? page.memories : [];
+      setMemories((current) => (skip ? [...current, ...fetched] : fetched));
+      setTotal(page?.total ?? fetched.length);
+    } catch (error) {
+      console.error("Failed to fetch memories:", error);
+      toast.error("Failed to load memories.");
+    } finally {
+      setIsFetching(false);
+    }
+  }, [query, category, showDeleted]);
+
+  useEffect(() => {
+    loadMemories();
+  }, [loadMemories]);
+
+  const replaceMemory = (updated: UserMemory) => {
+    setMemories((current) =>
+      current.map((memory) => (memory._id === updated._id ? { ...memory, ...updated } : memory))
+    );
+  };
+
+  const handleSave = async (memory: UserMemory) => {
+    const text = draft.trim();
+    if (!text || text === memory.text) {
+      setEditingId(null);
+      return;
+    }
+    setIsLoading(true);
+    try {
+      replaceMemory(await updateMemory(memory._id, { text }));
+      setEditingId(null);
+      toast.success("Memory updated.");
+    } catch (error) {
+      console.error("Failed to update memory:", error);
+      toast.error("Failed to update the memory.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCategoryChange = async (memory: UserMemory, value: MemoryCategory) => {
+    try {
+      replaceMemory(await updateMemory(memory._id, { category: value }));
+    } catch (error) {
+      console.error("Failed to update memory category:", error);
+      toast.error("Failed to change the category.");
+    }
+  };
+
+  const handleTogglePin = async (memory: UserMemory) => {
+    try {
+      replaceMemory(await setMemoryPinned(memory._id, !memory.pinned));
+    } catch (error) {
+      console.error("Failed to pin memory:", error);
+      toast.error("Failed to pin the memory.");
+    }
+  };
+
+  const handleDelete = async (memory: UserMemory) => {
+    if (!window.confirm("Delete this memory permanently?")) return;
+    try {
+      await deleteMemory(memory._id);
+      setMemories((current) => current.filter((m) => m._id !== memory._id));
+      setTotal((count) => count - 1);
+    } catch (error) {
+      console.error("Failed to delete memory:", error);
+      toast.error("Failed to delete the memory.");
+    }
+  };
+
+  const handleBulk = async (deleted: boolean) => {
+    const filter: MemoryFilter = {
+      category: category ?? undefined,
+      source: bulkSource.trim() || undefined,
+      from: bulkFrom || undefined,
+      // Include the whole end day
+      to: bulkTo ? `${bulkTo}T23:59:59.999` : undefined,
+    };
+    if (!filter.category && !filter.source && !filter.from && !filter.to) {
+      toast.error("Pick a category, source or date range first.");
+      return;
+    }
+    if (deleted && !window.confirm("Delete every matching memory? Pinned memories are kept.")) {
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const count = await bulkSetMemoriesDeleted(filter, deleted);
+      toast.success(`${deleted ? 'Deleted' : 'Restored'} ${count} memories.`);
+      await loadMemories();
+    } catch (error) {
+      console.error("Failed to update memories:", error);
+      toast.error(`Failed to ${deleted ? 'delete' : 'restore'} memories.`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleExport = async (format: 'json' | 'markdown') => {
+    try {
+      const { blob, filename } = await exportMemories(format);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename || `memories.${format === 'json' ? 'json' : 'md'}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Failed to export memories:", error);
+      toast.error("Failed to export memories.");
+    }
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setIsLoading(true);
+    try {
+      const report = await importMemories(JSON.parse(await file.text()));
+      toast.success(
+        `Imported ${report.imported} memories` +
+          (report.errors.length ? `, skipped ${report.errors.length} invalid entries.` : '.')
+      );
+      await loadMemories();
+    } catch (error) {
+      console.error("Failed to import memories:", error);
+      toast.error(
+        error instanceof SyntaxError
+          ? "That file isn't valid JSON."
+          : "Failed to import memories."
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const statusBadges = (memory: UserMemory) => [
+    memory.pinned && 'Pinned',
+    memory.isDeleted && 'Deleted',
+    memory.mergedInto && 'Merged',
+    memory.supersededBy && 'Superseded',
+  ].filter(Boolean) as string[];
+
+  return (
+    <div className="space-y-4">
+      <Card className="bg-white shadow-sm">
+        <CardHeader>
+          <CardTitle className="text-xl font-semibold text-gray-800">Memories</CardTitle>
+          <CardDescription className="text-gray-600">
+            What the companion remembers about you. Pinned memories never fade or expire.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <form
+            className="flex gap-2"
+            onSubmit={(event) => {
+              event.preventDefault();
+              setQuery(search.trim());
+            }}
+          >
+            <Input
+              placeholder="Search memories..."
+              value={search}
+              onChange={(event) => setSearch(event.target.value)}
+            />
+            <Button type="submit" variant="outline">Search</Button>
+          </form>
+
+          <div className="flex flex-wrap gap-2">
+            <Button
+              size="sm"
+              variant={category === null ? 'default' : 'outline'}
+              onClick={() => setCategory(null)}
+            >
+              All
+            </Button>
+            {CATEGORIES.map((option) => (
+              <Button
+                key={option.value}
+                size="sm"
+                variant={category === option.value ? 'default' : 'outline'}
+                onClick={() => setCategory(option.value)}
+              >
+                {option.label}
+              </Button>
+            ))}
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <Switch id="show-deleted" checked={showDeleted} onCheckedChange={setShowDeleted} />
+            <Label htmlFor="show-deleted" className="text-sm text-gray-600">
+              Show deleted memories
+            </Label>
+          </div>
+
+          {isFetching && memories.length === 0 ? (
+            <p className="text-gray-600">Loading memories...</p>
+          ) : memories.length ? (
+            <ul className="space-y-2">
+              {memories.map((memory) => (
+                <li
+                  key={memory._id}
+                  className={`border rounded p-3 space-y-2 ${memory.isDeleted || memory.mergedInto || memory.supersededBy ? 'opacity-60' : ''}`}
+                >
+                  {editingId === memory._id ? (
+                    <div className="space-y-2">
+                      <Textarea value={draft} onChange={(event) => setDraft(event.target.value)} rows={3} />
+                      <div className="flex gap-2">
+                        <Button size="sm" disabled={isLoading} onClick={() => handleSave(memory)}>
+                          Save
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => setEditingId(null)}>
+                          Cancel
+                        </Button>
+                      </div>
+                    </div>
+                  ) : (
+                    <p
+                      className="text-sm text-gray-800 cursor-text"
+                      title="Click to edit"
+                      onClick={() => {
+                        setEditingId(memory._id);
+                        setDraft(memory.text);
+                      }}
+                    >
+                      {memory.text}
+                    </p>
+                  )}
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <div className="flex flex-wrap items-center gap-2 text-xs text-gray-500">
+                      <select
+                        className="border rounded px-1 py-0.5 bg-white"
+                        value={memory.category}
+                        onChange={(event) =>
+                          handleCategoryChange(memory, event.target.value as MemoryCategory)
+                        }
+                      >
+                        {CATEGORIES.map((option) => (
+                          <option key={option.value} value={option.value}>
+                            {option.label}
+                          </option>
+                        ))}
+                      </select>
+                      <span>importance {memory.importance}</span>
+                      <span>· {memory.source}</span>
+                      <span>· {new Date(memory.createdAt).toLocaleDateString()}</span>
+                      {statusBadges(memory).map((status) => (
+                        <Badge key={status} variant="secondary" className="text-xs font-normal">
+                          {status}
+                        </Badge>
+                      ))}
+                    </div>
+                    <div className="flex gap-2">
+                      <Button size="sm" variant="outline" onClick={() => handleTogglePin(memory)}>
+                        {memory.pinned ? 'Unpin' : 'Pin'}
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => handleDelete(memory)}>
+                        Delete
+                      </Button>
+                    </div>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-gray-500">No memories found.</p>
+          )}
+          {memories.length < total && (
+            <div className="flex justify-center">
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={isFetching}
+                onClick={() => loadMemories(memories.length)}
+              >
+                {isFetching ? 'Loading...' : `Load more (${total - memories.length} left)`}
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="bg-white shadow-sm">
+        <CardHeader>
+          <CardTitle className="text-xl font-semibold text-gray-800">Bulk Delete</CardTitle>
+          <CardDescription className="text-gray-600">
+            Delete or restore every memory in the selected category
+            {category ? '' : ' (any category)'} that matches a source and date range.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 gap-2 sm:grid-cols-3">
+            <div className="space-y-1">
+              <Label htmlFor="bulk-source">Source</Label>
+              <Input
+                id="bulk-source"
+                placeholder="e.g. ai-generated"
+                value={bulkSource}
+                onChange={(event) => setBulkSource(event.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="bulk-from">From</Label>
+              <Input id="bulk-from" type="date" value={bulkFrom} onChange={(event) => setBulkFrom(event.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="bulk-to">To</Label>
+              <Input id="bulk-to" type="date" value={bulkTo} onChange={(event) => setBulkTo(event.target.value)} />
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="destructive" disabled={isLoading} onClick={() => handleBulk(true)}>
+              Delete Matching
+            </Button>
+            <Button variant="outline" disabled={isLoading} onClick={() => handleBulk(false)}>
+              Restore Matching
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="bg-white shadow-sm">
+        <CardHeader>
+          <CardTitle className="text-xl font-semibold text-gray-800">Export &amp; Import</CardTitle>
+          <CardDescription className="text-gray-600">
+            Download every memory with its metadata and links, or import a JSON export.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-wrap gap-2">
+          <Button variant="outline" onClick={() => handleExport('json')}>
+            Export JSON
+          </Button>
+          <Button variant="outline" onClick={() => handleExport('markdown')}>
+            Export Markdown
+          </Button>
+          <Button disabled={isLoading} onClick={() => fileInput.current?.click()}>
+            Import JSON
+          </Button>
+          <input
+            ref={fileInput}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={handleImport}
+          />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
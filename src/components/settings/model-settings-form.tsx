@@ -0,0 +1,333 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { toast } from "sonner";
+import {
+  AIPurpose,
+  AISettings,
+  ModelParameters,
+  activateModelProfile,
+  createModelProfile,
+  deleteModelProfile,
+  fetchAISettings,
+  fetchAvailableModels,
+  updateAIParameters,
+  updatePurposeOverride,
+} from '@/lib/settings-api';
+
+const PURPOSES: Array<{ id: AIPurpose; label: string }> = [
+  { id: 'chat', label: 'Chat reply' },
+  { id: 'thinking', label: 'Companion thinking' },
+  { id: 'summarization', label: 'Summarization' },
+  { id: 'action_extraction', label: 'Action parameter extraction' },
+];
+
+// Form state for a model + temperature pair; empty strings mean "not set"
+interface ParameterDraft {
+  model: string;
+  temperature: string;
+  max_tokens: string;
+}
+
+const toDraft = (parameters?: ModelParameters): ParameterDraft => ({
+  model: parameters?.model || '',
+  temperature: parameters?.temperature?.toString() ?? '',
+  max_tokens: parameters?.max_tokens?.toString() ?? '',
+});
+
+const fromDraft = (draft: ParameterDraft): ModelParameters => {
+  const parameters: ModelParameters = {};
+  if (draft.model.trim()) parameters.model = draft.model.trim();
+  if (draft.temperature !== '') parameters.temperature = Number(draft.temperature);
+  if (draft.max_tokens !== '') parameters.max_tokens = parseInt(draft.max_tokens, 10);
+  return parameters;
+};
+
+function ParameterFields({
+  idPrefix,
+  draft,
+  onChange,
+}: {
+  idPrefix: string;
+  draft: ParameterDraft;
+  onChange: (draft: ParameterDraft) => void;
+}) {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+      <div>
+        <Label htmlFor={`${idPrefix}-model`} className="text-xs">Model</Label>
+        <Input
+          id={`${idPrefix}-model`}
+          list="available-models"
+          placeholder="default"
+          value={draft.model}
+          onChange={(e) => onChange({ ...draft, model: e.target.value })}
+        />
+      </div>
+      <div>
+        <Label htmlFor={`${idPrefix}-temperature`} className="text-xs">Temperature</Label>
+        <Input
+          id={`${idPrefix}-temperature`}
+          type="number"
+          min={0}
+          max={2}
+          step={0.1}
+          placeholder="default"
+          value={draft.temperature}
+          onChange={(e) => onChange({ ...draft, temperature: e.target.value })}
+        />
+      </div>
+      <div>
+        <Label htmlFor={`${idPrefix}-max-tokens`} className="text-xs">Max tokens</Label>
+        <Input
+          id={`${idPrefix}-max-tokens`}
+          type="number"
+          min={1}
+          max={8192}
+          placeholder="default"
+          value={draft.max_tokens}
+          onChange={(e) => onChange({ ...draft, max_tokens: e.target.value })}
+        />
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Edit the persisted model settings: base chat parameters, per-purpose
+ * overrides and named model profiles.
+ */
+export function ModelSettingsForm() {
+  const [settings, setSettings] = useState<AISettings | null>(null);
+  const [modelIds, setModelIds] = useState<string[]>([]);
+  const [baseDraft, setBaseDraft] = useState<ParameterDraft>(toDraft());
+  const [overrideDrafts, setOverrideDrafts] = useState<Record<string, ParameterDraft>>({});
+  const [profileName, setProfileName] = useState('');
+  const [profileDescription, setProfileDescription] = useState('');
+  const [profileDraft, setProfileDraft] = useState<ParameterDraft>(toDraft());
+  const [isLoading, setIsLoading] = useState(false);
+  const [isFetching, setIsFetching] = useState(true);
+
+  const applySettings = (next: AISettings) => {
+    setSettings(next);
+    setBaseDraft(toDraft(next.parameters));
+    setOverrideDrafts(
+      Object.fromEntries(
+        PURPOSES.map(({ id }) => [id, toDraft(next.purposeOverrides?.[id])])
+      )
+    );
+  };
+
+  useEffect(() => {
+    const loadSettings = async () => {
+      setIsFetching(true);
+      try {
+        const [data, available] = await Promise.all([
+          fetchAISettings(),
+          fetchAvailableModels().catch(() => null),
+        ]);
+        applySettings(data);
+        if (available) {
+          setModelIds(
+            Object.values(available.models).flatMap((models) => models.map((m) => m.id))
+          );
+        }
+      } catch (error) {
+        console.error("Failed to fetch AI settings:", error);
+        toast.error("Failed to load model settings.");
+      } finally {
+        setIsFetching(false);
+      }
+    };
+    loadSettings();
+  }, []);
+
+  // Run a save action, then reload so the form matches what was stored
+  const save = async (action: () => Promise<unknown>, successMessage: string) => {
+    setIsLoading(true);
+    try {
+      await action();
+      applySettings(await fetchAISettings());
+      toast.success(successMessage);
+    } catch (error) {
+      console.error("Failed to save model settings:", error);
+      toast.error("Failed to save changes. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSaveBase = () => {
+    const parameters = fromDraft(baseDraft);
+    // Fields left empty are cleared so they fall back to the defaults
+    save(
+      () =>
+        updateAIParameters({
+          model: parameters.model ?? null,
+          temperature: parameters.temperature ?? null,
+          max_tokens: parameters.max_tokens ?? null,
+        }),
+      "Chat parameters updated."
+    );
+  };
+
+  const handleSaveOverride = (purpose: AIPurpose) => {
+    const parameters = fromDraft(overrideDrafts[purpose] || toDraft());
+    save(
+      () =>
+        updatePurposeOverride(purpose, Object.keys(parameters).length ? parameters : null),
+      "Override updated."
+    );
+  };
+
+  const handleCreateProfile = () => {
+    if (!profileName.trim()) {
+      toast.error("Give the profile a name.");
+      return;
+    }
+    save(async () => {
+      await createModelProfile({
+        name: profileName,
+        description: profileDescription || undefined,
+        parameters: fromDraft(profileDraft),
+      });
+      setProfileName('');
+      setProfileDescription('');
+      setProfileDraft(toDraft());
+    }, "Profile created.");
+  };
+
+  if (isFetching) {
+    return <p className="text-gray-600">Loading model settings...</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <datalist id="available-models">
+        {modelIds.map((id) => (
+          <option key={id} value={id} />
+        ))}
+      </datalist>
+
+      <Card className="bg-white shadow-sm">
+        <CardHeader>
+          <CardTitle className="text-xl font-semibold text-gray-800">Model Profiles</CardTitle>
+          <CardDescription className="text-gray-600">
+            Named sets of parameters. The active profile applies to every session unless a
+            session picks its own.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {settings?.profiles.length ? (
+            <ul className="space-y-2">
+              {settings.profiles.map((profile) => {
+                const isActive = settings.activeProfileId === profile.id;
+                return (
+                  <li key={profile.id} className="flex items-center justify-between border rounded p-2">
+                    <div>
+                      <p className="font-medium">
+                        {profile.name}{' '}
+                        {isActive && <Badge className="ml-1">Active</Badge>}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {profile.description || profile.parameters.model || 'default model'}
+                      </p>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={isLoading}
+                        onClick={() =>
+                          save(
+                            () => activateModelProfile(isActive ? null : profile.id),
+                            isActive ? "Profile deactivated." : `Switched to ${profile.name}.`
+                          )
+                        }
+                      >
+                        {isActive ? 'Deactivate' : 'Activate'}
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={isLoading}
+                        onClick={() => save(() => deleteModelProfile(profile.id), "Profile deleted.")}
+                      >
+                        Delete
+                      </Button>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          ) : (
+            <p className="text-sm text-gray-500">No profiles yet.</p>
+          )}
+
+          <div className="space-y-2 border-t pt-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+              <Input
+                placeholder="Profile name, e.g. fast local"
+                value={profileName}
+                onChange={(e) => setProfileName(e.target.value)}
+              />
+              <Input
+                placeholder="Description (optional)"
+                value={profileDescription}
+                onChange={(e) => setProfileDescription(e.target.value)}
+              />
+            </div>
+            <ParameterFields idPrefix="new-profile" draft={profileDraft} onChange={setProfileDraft} />
+            <Button onClick={handleCreateProfile} disabled={isLoading}>
+              Create Profile
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="bg-white shadow-sm">
+        <CardHeader>
+          <CardTitle className="text-xl font-semibold text-gray-800">Chat Parameters</CardTitle>
+          <CardDescription className="text-gray-600">
+            Used for chat replies when no profile overrides them. Leave a field empty for the default.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <ParameterFields idPrefix="base" draft={baseDraft} onChange={setBaseDraft} />
+          <Button onClick={handleSaveBase} disabled={isLoading}>
+            Save Parameters
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card className="bg-white shadow-sm">
+        <CardHeader>
+          <CardTitle className="text-xl font-semibold text-gray-800">Per-Purpose Models</CardTitle>
+          <CardDescription className="text-gray-600">
+            Use a different model for a specific job. Empty fields keep the built-in choice.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {PURPOSES.map(({ id, label }) => (
+            <div key={id} className="space-y-2">
+              <p className="text-sm font-medium text-gray-700">{label}</p>
+              <ParameterFields
+                idPrefix={`override-${id}`}
+                draft={overrideDrafts[id] || toDraft()}
+                onChange={(draft) => setOverrideDrafts({ ...overrideDrafts, [id]: draft })}
+              />
+              <Button variant="outline" size="sm" onClick={() => handleSaveOverride(id)} disabled={isLoading}>
+                Save Override
+              </Button>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -39,7 +39,11 @@ export function SettingsLayout({ children, user }: SettingsLayoutProps) {
                 <nav className="flex flex-col space-y-1">
                   <SettingsLink href="/settings" label="Profile" />
                   <SettingsLink href="/settings/interests" label="Interests" />
+                  <SettingsLink href="/settings/memories" label="Memories" />
                   <SettingsLink href="/settings/integrations" label="Integrations" />
+                  <SettingsLink href="/settings/linked-accounts" label="Linked Accounts" />
+                  <SettingsLink href="/settings/devices" label="Devices" />
+                  <SettingsLink href="/settings/usage" label="Usage" />
                   <SettingsLink href="/settings/prompt" label="Companion Config" />
                   <SettingsLink href="/settings/timeline" label="AI Timeline" />
                   <SettingsLink href="/settings/companion-state" label="Companion State" />
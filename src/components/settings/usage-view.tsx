@@ -0,0 +1,134 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { toast } from "sonner";
+import { QuotaUsage, UsageSummary, fetchUsage } from '@/lib/settings-api';
+
+// Chart colours and labels for the purposes the server meters
+const PURPOSES: Record<string, { label: string; color: string }> = {
+  chat: { label: 'Chat replies', color: 'bg-blue-500' },
+  thinking: { label: 'Companion thinking', color: 'bg-purple-500' },
+  summarization: { label: 'Summaries', color: 'bg-green-500' },
+  action_extraction: { label: 'Actions', color: 'bg-orange-500' },
+  insight_extraction: { label: 'Insights', color: 'bg-pink-500' },
+};
+const OTHER_PURPOSE = { label: 'Other', color: 'bg-gray-400' };
+
+const describePurpose = (purpose: string) => PURPOSES[purpose] || OTHER_PURPOSE;
+
+function QuotaBar({ label, quota }: { label: string; quota: QuotaUsage }) {
+  const percent = quota.limit ? Math.min(100, (quota.used / quota.limit) * 100) : 0;
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between text-sm text-gray-700">
+        <span>{label}</span>
+        <span>
+          {quota.used.toLocaleString()}
+          {quota.limit !== null ? ` of ${quota.limit.toLocaleString()}` : ' (unlimited)'}
+        </span>
+      </div>
+      {quota.limit !== null && <Progress value={percent} />}
+    </div>
+  );
+}
+
+/**
+ * This month's usage against the user's plan, and a day by day chart of the
+ * tokens used, split by what they were used for.
+ */
+export function UsageView() {
+  const [usage, setUsage] = useState<UsageSummary | null>(null);
+  const [isFetching, setIsFetching] = useState(true);
+
+  useEffect(() => {
+    fetchUsage()
+      .then(setUsage)
+      .catch((error) => {
+        console.error("Failed to fetch usage:", error);
+        toast.error("Failed to load your usage.");
+      })
+      .finally(() => setIsFetching(false));
+  }, []);
+
+  if (!usage) {
+    return <p className="text-gray-600">{isFetching ? 'Loading usage...' : 'Usage is unavailable.'}</p>;
+  }
+
+  const maxTokens = Math.max(1, ...usage.daily.map((day) => day.tokens));
+  const purposes = Array.from(
+    new Set(usage.daily.flatMap((day) => Object.keys(day.byPurpose)))
+  );
+
+  return (
+    <div className="space-y-6">
+      <Card className="bg-white shadow-sm">
+        <CardHeader>
+          <CardTitle className="text-xl font-semibold text-gray-800 flex items-center gap-2">
+            This month
+            <Badge variant={usage.plan === 'PREMIUM' ? 'default' : 'outline'}>{usage.planName}</Badge>
+          </CardTitle>
+          <CardDescription className="text-gray-600">
+            Limits reset on {new Date(usage.periodEnd).toLocaleDateString()}.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <QuotaBar label="Messages" quota={usage.messages} />
+          <QuotaBar label="Tokens" quota={usage.tokens} />
+          {usage.exceeded ? (
+            <p className="text-sm text-red-700">
+              You&apos;ve reached your plan&apos;s limit, so chat replies are paused until it resets.
+            </p>
+          ) : usage.nearLimit ? (
+            <p className="text-sm text-amber-700">
+              You&apos;re close to your plan&apos;s limit, so background thinking and summaries are paused
+              to save what&apos;s left for your conversations.
+            </p>
+          ) : null}
+        </CardContent>
+      </Card>
+
+      <Card className="bg-white shadow-sm">
+        <CardHeader>
+          <CardTitle className="text-xl font-semibold text-gray-800">Last {usage.daily.length} days</CardTitle>
+          <CardDescription className="text-gray-600">Tokens used each day.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-end gap-1 h-40">
+            {usage.daily.map((day) => (
+              <div
+                key={day.date}
+                className="flex-1 h-full flex flex-col justify-end"
+                title={`${day.date}: ${day.tokens.toLocaleString()} tokens, ${day.messages} messages`}
+              >
+                {Object.entries(day.byPurpose).map(([purpose, tokens]) => (
+                  <div
+                    key={purpose}
+                    className={describePurpose(purpose).color}
+                    style={{ height: `${(tokens / maxTokens) * 100}%` }}
+                  />
+                ))}
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-between text-xs text-gray-500">
+            <span>{usage.daily[0]?.date}</span>
+            <span>{usage.daily[usage.daily.length - 1]?.date}</span>
+          </div>
+          {purposes.length > 0 && (
+            <div className="flex flex-wrap gap-3 text-xs text-gray-600">
+              {purposes.map((purpose) => (
+                <span key={purpose} className="flex items-center gap-1">
+                  <span className={`inline-block w-3 h-3 rounded-sm ${describePurpose(purpose).color}`} />
+                  {describePurpose(purpose).label}
+                </span>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -11,8 +11,9 @@ import { Trash2 } from 'lucide-react';
 import { fetchUserDefinedGoals, updateUserDefinedGoals } from '@/lib/settings-api'; 
 import { IUserGoal } from "@/../server/src/models/user-state.model"; // Use the user-state model
 
-// Simplified Goal type for the form state
-interface FormGoal {
+// Simplified Goal type for the form state. Fields the form doesn't edit are
+// kept so saving doesn't reset progress or the Notion link.
+interface FormGoal extends Partial<IUserGoal> {
   goal: string;
   priority: number;
 }
@@ -32,7 +33,7 @@ export function UserDefinedGoalsForm() {
         // Use actual API call
         const existingGoals: IUserGoal[] = await fetchUserDefinedGoals();
         // Map IUserGoal to FormGoal
-        setGoals(existingGoals.map(g => ({ goal: g.goal, priority: g.priority })) || []); 
+        setGoals(existingGoals.map(g => ({ ...g })) || []); 
       } catch (error) {
         console.error("Failed to fetch user defined goals:", error);
         toast.error("Failed to load your defined goals.");
@@ -64,10 +65,9 @@ export function UserDefinedGoalsForm() {
     try {
       // Format goals to include createdAt property required by the backend
       const formattedGoals = goals.map(goal => ({
-        goal: goal.goal,
-        priority: goal.priority,
-        createdAt: new Date(), // Required by the model
-        progress: 0 // Default progress value
+        ...goal,
+        createdAt: goal.createdAt || new Date(), // Required by the model
+        progress: goal.progress ?? 0 // Default progress value
       }));
       
       await updateUserDefinedGoals(formattedGoals);
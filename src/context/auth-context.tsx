@@ -4,7 +4,7 @@ import React, { createContext, useState, useContext, useEffect, ReactNode } from
 import { useRouter } from 'next/navigation';
 import { IUser } from '@/../server/src/models/user.model'; // Adjust path if needed
 import { toast } from 'sonner';
-import { apiClient } from '@/lib/api-client'; // Import apiClient
+import { apiClient, storeAuthTokens } from '@/lib/api-client'; // Import apiClient
 import { Session } from '@/../server/src/models/session.model'; // Assuming Session model export
 
 
@@ -35,19 +35,17 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
   const [isLoading, setIsLoading] = useState(true); // Start loading until session checked
   const router = useRouter();
 
-  const saveSession = (userData: ContextUser, authToken: string) => {
+  const saveSession = (userData: ContextUser, authToken: string, refreshToken?: string) => {
     // Ensure sensitive data isn't stored if present (though backend should omit it)
     const userToStore = { ...userData };
     delete (userToStore as any).password;
 
     console.log('[AuthContext] Attempting to save session:', { user: userToStore, token: authToken });
 
-    localStorage.setItem('authToken', authToken);
+    // Also sets the token cookie for SSR compatibility
+    storeAuthTokens(authToken, refreshToken);
     localStorage.setItem('userData', JSON.stringify(userToStore));
-    
-    // Also set token as cookie for SSR compatibility
-    document.cookie = `authToken=${authToken}; path=/; max-age=${7 * 24 * 60 * 60}; SameSite=Lax`;
-    
+
     setUser(userToStore);
     setToken(authToken);
     console.log('[AuthContext] Session state updated and saved to localStorage and cookie.');
@@ -55,6 +53,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
 
   const clearSession = () => {
     localStorage.removeItem('authToken');
+    localStorage.removeItem('refreshToken');
     localStorage.removeItem('userData');
     
     // Clear token cookie
@@ -110,11 +109,22 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     checkForExistingSession();
   }, []);
 
+  // The refresh token was rejected (expired, or this device was signed out elsewhere)
+  useEffect(() => {
+    const handleExpired = () => {
+      clearSession();
+      toast.info('Your session has ended. Please log in again.');
+      router.push('/login');
+    };
+    window.addEventListener('auth:expired', handleExpired);
+    return () => window.removeEventListener('auth:expired', handleExpired);
+  }, [router]);
+
   const login = async (username: string, password: string) => {
     setIsLoading(true);
     try {
         // Use apiClient, login endpoint doesn't require auth token initially
-        const data = await apiClient<{ user: ContextUser, token: string }>('/auth/login', {
+        const data = await apiClient<{ user: ContextUser, token: string, refreshToken: string }>('/auth/login', {
             method: 'POST',
             body: { username, password },
             includeAuth: false,
@@ -124,7 +134,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
             throw new Error('Invalid response from server');
         }
 
-        saveSession(data.user, data.token);
+        saveSession(data.user, data.token, data.refreshToken);
         toast.success('Login successful!');
         setIsLoading(false);
         router.push('/'); // Or to dashboard
@@ -141,7 +151,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
      setIsLoading(true);
      try {
          // Use apiClient, register endpoint doesn't require auth token initially
-         const data = await apiClient<{ user: ContextUser, token: string }>('/auth/register', {
+         const data = await apiClient<{ user: ContextUser, token: string, refreshToken: string }>('/auth/register', {
              method: 'POST',
              body: { username, name, email, password },
              includeAuth: false,
@@ -151,7 +161,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
             throw new Error('Invalid response from server');
          }
 
-         saveSession(data.user, data.token);
+         saveSession(data.user, data.token, data.refreshToken);
          toast.success('Registration successful!');
          router.push('/'); // Or to dashboard
      } catch (error: any) {
@@ -165,6 +175,15 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
    };
 
   const logout = () => {
+    // Sign this device out on the server too; the local session goes either way
+    const refreshToken = localStorage.getItem('refreshToken');
+    if (refreshToken) {
+      apiClient('/auth/logout', {
+        method: 'POST',
+        body: { refreshToken },
+        includeAuth: false,
+      }).catch((error) => console.error('Logout API call failed:', error));
+    }
     clearSession();
     toast.info('You have been logged out.');
     router.push('/login'); // Redirect to login page
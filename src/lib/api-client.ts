@@ -14,6 +14,72 @@ const NEXTJS_API_BASE_URL =
   process.env.NEXT_PUBLIC_API_BASE_URL || "http://localhost:3000";
 const EXPRESS_API_BASE_URL = "http://localhost:5000"; // Assume Express runs on 5000
 
+/**
+ * Persist a token pair where getAuthToken and server components (cookie)
+ * will find it
+ */
+export function storeAuthTokens(token: string, refreshToken?: string): void {
+  localStorage.setItem("authToken", token);
+  if (refreshToken) {
+    localStorage.setItem("refreshToken", refreshToken);
+  }
+  // Also set token as cookie for SSR compatibility
+  document.cookie = `authToken=${token}; path=/; max-age=${7 * 24 * 60 * 60}; SameSite=Lax`;
+}
+
+let refreshInFlight: Promise<string | null> | null = null;
+
+/**
+ * Trade the stored refresh token for a new access token. Concurrent callers
+ * share one request, since each refresh token can only be used once.
+ * Resolves to null (and fires "auth:expired") when the user must log in again.
+ */
+export function refreshAuthToken(): Promise<string | null> {
+  if (!refreshInFlight) {
+    refreshInFlight = requestTokenRefresh().finally(() => {
+      refreshInFlight = null;
+    });
+  }
+  return refreshInFlight;
+}
+
+async function requestTokenRefresh(): Promise<string | null> {
+  if (typeof window === "undefined") {
+    return null;
+  }
+  const refreshToken = localStorage.getItem("refreshToken");
+  if (!refreshToken) {
+    return null;
+  }
+
+  try {
+    const response = await fetch(`${EXPRESS_API_BASE_URL}/api/auth/refresh`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ refreshToken }),
+    });
+
+    if (!response.ok) {
+      // Another tab may have refreshed with the same token first
+      const latest = localStorage.getItem("refreshToken");
+      if (latest && latest !== refreshToken) {
+        return getAuthToken();
+      }
+      if (response.status === 401) {
+        window.dispatchEvent(new Event("auth:expired"));
+      }
+      return null;
+    }
+
+    const data: { token: string; refreshToken: string } = await response.json();
+    storeAuthTokens(data.token, data.refreshToken);
+    return data.token;
+  } catch (error) {
+    console.error("Token refresh failed:", error);
+    return null;
+  }
+}
+
 interface FetchOptions extends RequestInit {
   includeAuth?: boolean;
   body?: any;
@@ -75,12 +141,25 @@ export const apiClient = async <T = any>(
   console.log(`Fetching: ${options.method || "GET"} ${url}`);
 
   try {
-    const response = await fetch(url, {
+    let response = await fetch(url, {
       ...restOptions,
       headers: fetchHeaders,
       body: requestBody,
     });
 
+    // Access tokens are short-lived: refresh once and retry
+    if (response.status === 401 && includeAuth) {
+      const freshToken = await refreshAuthToken();
+      if (freshToken) {
+        fetchHeaders.set("Authorization", `Bearer ${freshToken}`);
+        response = await fetch(url, {
+          ...restOptions,
+          headers: fetchHeaders,
+          body: requestBody,
+        });
+      }
+    }
+
     console.log(`Response status:`, response.status);
 
     // Attempt to parse JSON response, handle empty response
@@ -123,6 +202,44 @@ export const apiClient = async <T = any>(
   }
 };
 
+/**
+ * Fetch a file from the Express backend with auth, for downloads that
+ * aren't JSON. The filename comes from Content-Disposition when present.
+ */
+export const apiDownload = async (
+  endpoint: string
+): Promise<{ blob: Blob; filename?: string }> => {
+  const headers = new Headers();
+  const token = getAuthToken();
+  if (token) {
+    headers.set("Authorization", `Bearer ${token}`);
+  }
+
+  let response = await fetch(`${EXPRESS_API_BASE_URL}/api${endpoint}`, {
+    headers,
+  });
+  if (response.status === 401) {
+    const freshToken = await refreshAuthToken();
+    if (freshToken) {
+      headers.set("Authorization", `Bearer ${freshToken}`);
+      response = await fetch(`${EXPRESS_API_BASE_URL}/api${endpoint}`, {
+        headers,
+      });
+    }
+  }
+  if (!response.ok) {
+    const error = new Error(
+      response.statusText || `Request failed with status ${response.status}`
+    ) as any;
+    error.status = response.status;
+    throw error;
+  }
+
+  const disposition = response.headers.get("content-disposition") || "";
+  const filename = disposition.match(/filename="?([^";]+)"?/)?.[1];
+  return { blob: await response.blob(), filename };
+};
+
 /**
  * Adds the authentication token to headers for server components
  * @param headers Headers object to modify
@@ -74,6 +74,8 @@ export async function updateIntegration(
 export interface NotionCredentials {
   token: string;
   pageId?: string;
+  databaseId?: string; // Database that receives todos picked up from chat
+  goalsDatabaseId?: string; // Database synced with user goals
 }
 
 export interface NotionTestResponse {
@@ -136,6 +138,8 @@ export async function getNotionSettings(): Promise<{
     lastSync: string;
     metadata: Record<string, any>;
     hasPageId: boolean;
+    hasDatabaseId?: boolean;
+    hasGoalsDatabaseId?: boolean;
   };
   message?: string;
 }> {
@@ -168,6 +172,8 @@ export async function updateNotionSettings(
       body: {
         token: settings.token,
         pageId: settings.pageId,
+        databaseId: settings.databaseId,
+        goalsDatabaseId: settings.goalsDatabaseId,
         enabled: settings.enabled !== false, // Default to true if not specified
       },
     });
@@ -176,6 +182,29 @@ export async function updateNotionSettings(
   }
 }
 
+export interface NotionSyncCounts {
+  pulled: number;
+  pushed: number;
+  imported: number;
+  exported: number;
+  removed: number;
+}
+
+// Sync goals and todos with the configured Notion databases now
+export async function syncNotion(): Promise<{
+  success: boolean;
+  report: { goals?: NotionSyncCounts; tasks?: NotionSyncCounts };
+}> {
+  try {
+    return await apiClient("/notion/sync", {
+      method: "POST",
+      targetBackend: "express",
+    });
+  } catch (error: any) {
+    throw new Error(error.message || "Failed to sync with Notion");
+  }
+}
+
 // Get user's connected Notion pages
 export async function getUserNotionPages(): Promise<{
   success: boolean;
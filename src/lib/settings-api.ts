@@ -1,4 +1,4 @@
-import { apiClient } from "./api-client";
+import { apiClient, apiDownload } from "./api-client";
 import {
   IUserState,
   IUserInterest,
@@ -244,16 +244,424 @@ export const updateGlobalPrompt = async (
 // These functions manage the AI timeline events
 
 /**
- * Fetches timeline events with an optional limit
+ * Interface for a single timeline event
+ */
+export interface TimelineEvent {
+  id: string;
+  timestamp: string;
+  type: string;
+  userId: string;
+  sessionId?: string;
+  description: string;
+  metadata?: Record<string, any>;
+}
+
+/**
+ * A page of timeline events, newest first. Pass nextCursor as `before`
+ * to load older events and prevCursor as `after` to fetch newer ones.
+ */
+export interface TimelinePage {
+  events: TimelineEvent[];
+  nextCursor: string | null;
+  prevCursor: string | null;
+}
+
+/**
+ * Fetches a page of timeline events
  */
 export const fetchTimelineEvents = async (
-  limit: number = 50
-): Promise<any[]> => {
-  return apiClient(`/timeline?limit=${limit}`, {
+  options: {
+    limit?: number;
+    before?: string;
+    after?: string;
+    types?: string[];
+    sessionId?: string;
+  } = {}
+): Promise<TimelinePage> => {
+  const params = new URLSearchParams({ limit: String(options.limit ?? 50) });
+  if (options.before) params.set("before", options.before);
+  if (options.after) params.set("after", options.after);
+  if (options.types?.length) params.set("types", options.types.join(","));
+  if (options.sessionId) params.set("sessionId", options.sessionId);
+
+  return apiClient(`/timeline?${params.toString()}`, {
     targetBackend: "express",
   });
 };
 
+// --- AI Model Settings API ---
+// These functions manage persisted model parameters, profiles and per-purpose overrides
+
+export type AIPurpose =
+  | "chat"
+  | "thinking"
+  | "summarization"
+  | "action_extraction";
+
+/**
+ * Model parameters as stored by the backend (snake_case like AIParameters)
+ */
+export interface ModelParameters {
+  model?: string;
+  provider?: string;
+  temperature?: number;
+  max_tokens?: number;
+  top_p?: number;
+  endpointUrl?: string;
+}
+
+export interface ModelProfile {
+  id: string;
+  name: string;
+  description?: string;
+  parameters: ModelParameters;
+  purposeOverrides: Partial<Record<AIPurpose, ModelParameters>>;
+  createdAt: string;
+}
+
+export interface AISettings {
+  parameters: ModelParameters;
+  purposeOverrides: Partial<Record<AIPurpose, ModelParameters>>;
+  profiles: ModelProfile[];
+  activeProfileId?: string | null;
+}
+
+export interface AvailableModels {
+  providers: string[];
+  purposes: AIPurpose[];
+  models: Record<string, Array<{ id: string; name: string; description: string }>>;
+}
+
+/**
+ * Fetches the stored AI settings
+ */
+export const fetchAISettings = async (): Promise<AISettings> => {
+  const response = await apiClient("/ai-parameters/settings", {
+    targetBackend: "express",
+  });
+  return response.data;
+};
+
+/**
+ * Fetches the providers and models the backend knows about
+ */
+export const fetchAvailableModels = async (): Promise<AvailableModels> => {
+  const response = await apiClient("/ai-parameters/models", {
+    targetBackend: "express",
+  });
+  return response.data;
+};
+
+/**
+ * Updates the base chat parameters (null clears a field). Returns the
+ * effective chat parameters.
+ */
+export const updateAIParameters = async (
+  parameters: Record<string, unknown>
+): Promise<ModelParameters> => {
+  const response = await apiClient("/ai-parameters", {
+    method: "POST",
+    body: parameters,
+    targetBackend: "express",
+  });
+  return response.data;
+};
+
+/**
+ * Sets, or with null clears, the model override for one purpose
+ */
+export const updatePurposeOverride = async (
+  purpose: AIPurpose,
+  parameters: ModelParameters | null
+): Promise<AISettings> => {
+  const response = await apiClient(`/ai-parameters/overrides/${purpose}`, {
+    method: parameters ? "PUT" : "DELETE",
+    body: parameters || undefined,
+    targetBackend: "express",
+  });
+  return response.data;
+};
+
+/**
+ * Creates a named model profile
+ */
+export const createModelProfile = async (profile: {
+  name: string;
+  description?: string;
+  parameters?: ModelParameters;
+  purposeOverrides?: Partial<Record<AIPurpose, ModelParameters>>;
+}): Promise<ModelProfile> => {
+  const response = await apiClient("/ai-parameters/profiles", {
+    method: "POST",
+    body: profile,
+    targetBackend: "express",
+  });
+  return response.data;
+};
+
+/**
+ * Deletes a model profile
+ */
+export const deleteModelProfile = async (profileId: string): Promise<void> => {
+  await apiClient(`/ai-parameters/profiles/${profileId}`, {
+    method: "DELETE",
+    targetBackend: "express",
+  });
+};
+
+/**
+ * Makes a profile the default for all sessions (null to use the base parameters)
+ */
+export const activateModelProfile = async (
+  profileId: string | null
+): Promise<AISettings> => {
+  const response = await apiClient("/ai-parameters/active-profile", {
+    method: "POST",
+    body: { profileId },
+    targetBackend: "express",
+  });
+  return response.data;
+};
+
+/**
+ * Switches the profile used in a single session (null to follow the active profile)
+ */
+export const setSessionModelProfile = async (
+  sessionId: string,
+  profileId: string | null
+): Promise<ModelParameters> => {
+  const response = await apiClient(
+    `/ai-parameters/sessions/${sessionId}/profile`,
+    {
+      method: "PUT",
+      body: { profileId },
+      targetBackend: "express",
+    }
+  );
+  return response.data;
+};
+
+// --- Linked Accounts API ---
+// These functions manage the Telegram accounts bound to the user
+
+export interface TelegramLinkCode {
+  code: string;
+  expiresAt: string;
+  botUsername?: string;
+}
+
+export interface LinkedTelegramAccount {
+  telegramUserId: string;
+  telegramUsername?: string;
+  displayName?: string;
+  linkedAt: string;
+}
+
+/**
+ * Issues a one-time code to send to the bot as `/link <code>`
+ */
+export const createTelegramLinkCode = async (
+  mergeHistory: boolean
+): Promise<TelegramLinkCode> => {
+  const response = await apiClient("/telegram/link", {
+    method: "POST",
+    body: { mergeHistory },
+    targetBackend: "express",
+  });
+  return response.data;
+};
+
+/**
+ * Fetches the Telegram accounts linked to the user
+ */
+export const fetchLinkedTelegramAccounts = async (): Promise<
+  LinkedTelegramAccount[]
+> => {
+  const response = await apiClient("/telegram/links", {
+    targetBackend: "express",
+  });
+  return response.data;
+};
+
+/**
+ * Unlinks a Telegram account from the user
+ */
+export const unlinkTelegramAccount = async (
+  telegramUserId: string
+): Promise<void> => {
+  await apiClient(`/telegram/links/${telegramUserId}`, {
+    method: "DELETE",
+    targetBackend: "express",
+  });
+};
+
+// --- Memories API ---
+// These functions manage the user's memories: listing, editing, pinning,
+// bulk deletion and export/import
+
+export type MemoryCategory =
+  | "fact"
+  | "preference"
+  | "interest"
+  | "behavior"
+  | "goal"
+  | "interaction"
+  | "conversation"
+  | "event"
+  | "topic"
+  | "custom";
+
+export interface UserMemory {
+  _id: string;
+  text: string;
+  type: string;
+  category: MemoryCategory;
+  source: string;
+  importance: number;
+  pinned?: boolean;
+  isDeleted?: boolean;
+  mergedInto?: string;
+  supersededBy?: string;
+  relatedMemories?: string[];
+  metadata?: Record<string, any>;
+  createdAt: string;
+}
+
+/**
+ * Filter for bulk operations. Dates are YYYY-MM-DD or ISO strings.
+ */
+export interface MemoryFilter {
+  category?: MemoryCategory;
+  source?: string;
+  from?: string;
+  to?: string;
+}
+
+export interface MemoryImportReport {
+  imported: number;
+  errors: Array<{ index: number; message: string }>;
+}
+
+/**
+ * Fetches the user's memories, pinned first
+ */
+export const fetchMemories = async (
+  options: MemoryFilter & {
+    q?: string;
+    includeDeleted?: boolean;
+    limit?: number;
+    skip?: number;
+  } = {}
+): Promise<{ memories: UserMemory[]; total: number }> => {
+  const params = new URLSearchParams({ limit: String(options.limit ?? 100) });
+  if (options.q) params.set("q", options.q);
+  if (options.category) params.set("category", options.category);
+  if (options.source) params.set("source", options.source);
+  if (options.from) params.set("from", options.from);
+  if (options.to) params.set("to", options.to);
+  if (options.includeDeleted) params.set("includeDeleted", "true");
+  if (options.skip) params.set("skip", String(options.skip));
+
+  const response = await apiClient(`/memories?${params.toString()}`, {
+    targetBackend: "express",
+  });
+  return { memories: response.data, total: response.total };
+};
+
+/**
+ * Updates a memory's text, category or importance
+ */
+export const updateMemory = async (
+  memoryId: string,
+  updates: Partial<Pick<UserMemory, "text" | "category" | "importance">>
+): Promise<UserMemory> => {
+  const response = await apiClient(`/memories/${memoryId}`, {
+    method: "PUT",
+    body: updates,
+    targetBackend: "express",
+  });
+  return response.data;
+};
+
+/**
+ * Pins or unpins a memory
+ */
+export const setMemoryPinned = async (
+  memoryId: string,
+  pinned: boolean
+): Promise<UserMemory> => {
+  const response = await apiClient(`/memories/${memoryId}/pin`, {
+    method: "PUT",
+    body: { pinned },
+    targetBackend: "express",
+  });
+  return response.data;
+};
+
+/**
+ * Permanently deletes a memory
+ */
+export const deleteMemory = async (memoryId: string): Promise<void> => {
+  await apiClient(`/memories/${memoryId}`, {
+    method: "DELETE",
+    targetBackend: "express",
+  });
+};
+
+/**
+ * Soft-deletes (or restores) a single memory; unlike deleteMemory it can be undone
+ */
+export const setMemoryDeleted = async (
+  memoryId: string,
+  deleted: boolean
+): Promise<void> => {
+  await apiClient(
+    `/memories/${memoryId}/${deleted ? "soft-delete" : "restore"}`,
+    {
+      method: "POST",
+      targetBackend: "express",
+    }
+  );
+};
+
+/**
+ * Soft-deletes (or restores) every memory matching the filter and returns
+ * how many changed
+ */
+export const bulkSetMemoriesDeleted = async (
+  filter: MemoryFilter,
+  deleted: boolean
+): Promise<number> => {
+  const response = await apiClient(
+    deleted ? "/memories/bulk-delete" : "/memories/bulk-restore",
+    { method: "POST", body: filter, targetBackend: "express" }
+  );
+  return response.data.count;
+};
+
+/**
+ * Downloads all memories as JSON or Markdown
+ */
+export const exportMemories = async (
+  format: "json" | "markdown"
+): Promise<{ blob: Blob; filename?: string }> => {
+  return apiDownload(`/memories/export?format=${format}`);
+};
+
+/**
+ * Imports memories from a parsed JSON export
+ */
+export const importMemories = async (
+  payload: unknown
+): Promise<MemoryImportReport> => {
+  const response = await apiClient("/memories/import", {
+    method: "POST",
+    body: payload,
+    targetBackend: "express",
+  });
+  return response.data;
+};
+
 // --- User Profile API ---
 // These functions manage the user profile
 
@@ -295,3 +703,131 @@ export const updateUserProfile = async (
     targetBackend: "express",
   });
 };
+
+// --- Devices API ---
+
+export interface SignedInDevice {
+  id: string;
+  deviceName: string;
+  userAgent?: string;
+  ip?: string;
+  createdAt: string;
+  lastUsedAt: string;
+  current: boolean; // The device making the request
+}
+
+/**
+ * Fetches the devices the user is signed in on
+ */
+export const fetchDevices = async (): Promise<SignedInDevice[]> => {
+  return apiClient("/auth/devices", { targetBackend: "express" });
+};
+
+/**
+ * Signs one device out
+ */
+export const revokeDevice = async (deviceId: string): Promise<void> => {
+  await apiClient(`/auth/devices/${deviceId}`, {
+    method: "DELETE",
+    targetBackend: "express",
+  });
+};
+
+/**
+ * Signs every device out, including this one
+ */
+export const logoutEverywhere = async (): Promise<number> => {
+  const response = await apiClient<{ revoked: number }>(
+    "/auth/logout-everywhere",
+    {
+      method: "POST",
+      targetBackend: "express",
+    }
+  );
+  return response.revoked;
+};
+
+// --- Account API ---
+
+export interface AccountDeletion {
+  _id: string;
+  status: "scheduled" | "processing" | "completed" | "cancelled" | "failed";
+  requestedAt: string;
+  scheduledFor: string; // When the data will be deleted
+}
+
+/**
+ * Downloads everything stored about the user as one JSON file
+ */
+export const exportAccountData = async (): Promise<{
+  blob: Blob;
+  filename?: string;
+}> => {
+  return apiDownload("/users/me/export");
+};
+
+/**
+ * Fetches the user's pending account deletion, or null if there is none
+ */
+export const fetchAccountDeletion =
+  async (): Promise<AccountDeletion | null> => {
+    return apiClient("/users/me/deletion", { targetBackend: "express" });
+  };
+
+/**
+ * Schedules the account for deletion; this signs out every device
+ */
+export const deleteAccount = async (
+  password: string
+): Promise<AccountDeletion> => {
+  return apiClient("/users/me", {
+    method: "DELETE",
+    body: { password },
+    targetBackend: "express",
+  });
+};
+
+/**
+ * Cancels a pending account deletion
+ */
+export const cancelAccountDeletion = async (): Promise<AccountDeletion> => {
+  return apiClient("/users/me/deletion/cancel", {
+    method: "POST",
+    targetBackend: "express",
+  });
+};
+
+// --- Usage API ---
+
+export interface QuotaUsage {
+  used: number;
+  limit: number | null; // Null when the plan has no limit
+}
+
+export interface DailyUsage {
+  date: string; // YYYY-MM-DD (UTC)
+  tokens: number;
+  messages: number;
+  byPurpose: Record<string, number>; // Tokens per purpose, e.g. chat, thinking
+}
+
+export interface UsageSummary {
+  plan: "FREE" | "PREMIUM";
+  planName: string;
+  periodStart: string;
+  periodEnd: string; // When the monthly limits reset
+  tokens: QuotaUsage;
+  messages: QuotaUsage;
+  exceeded: boolean; // Chat replies are paused until the period ends
+  nearLimit: boolean; // Background thinking is paused
+  daily: DailyUsage[];
+}
+
+/**
+ * Fetches this month's usage against the user's plan, with day by day usage
+ */
+export const fetchUsage = async (days = 30): Promise<UsageSummary> => {
+  return apiClient(`/users/me/usage?days=${days}`, {
+    targetBackend: "express",
+  });
+};
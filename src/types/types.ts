@@ -26,6 +26,40 @@ export interface Message {
   isDeleted?: boolean; // Flag to mark the message as deleted
 }
 
+export interface MessageDelta {
+  messageId: string;
+  sessionId: string;
+  delta: string;
+  index?: number;
+  timestamp: Date;
+}
+
+// What the prompt contained when an assistant message was generated
+export interface MessageProvenance {
+  messageId: string;
+  recorded: boolean; // False for messages from before provenance was kept
+  memories: Array<{
+    memoryId: string;
+    text: string;
+    score?: number;
+    exists: boolean;
+    isDeleted: boolean;
+    replacedBy?: string; // Memory it was merged into or superseded by
+  }>;
+  contextItems: Array<{
+    section: string;
+    type: string;
+    id?: string;
+    label: string;
+  }>;
+  activity?: {
+    activityId: string;
+    name: string;
+    type: string;
+    state?: string;
+  };
+}
+
 export type SessionStatus = "active" | "archived" | "favorite";
 
 export type Thread = {
@@ -220,6 +254,25 @@ export const chatApi = {
     }
   },
 
+  // Fetch what went into the prompt for an assistant message
+  getMessageProvenance: async (
+    sessionId: string,
+    messageId: string
+  ): Promise<MessageProvenance | null> => {
+    try {
+      const response = await apiClient(
+        `/chat/${sessionId}/messages/${messageId}/provenance`
+      );
+      return response.data;
+    } catch (error) {
+      console.error(
+        `Error fetching provenance for message ${messageId}:`,
+        error
+      );
+      return null;
+    }
+  },
+
   // Fetch action logs for a message
   getActionLogsForMessage: async (messageId: string): Promise<any[]> => {
     try {
@@ -249,14 +302,15 @@ export const chatApi = {
   },
 
   // --- SSE Listener Setup --- G
-  // Note: EventSource doesn't easily support custom headers like Authorization.
-  // We'll need to pass the token via query parameter, requiring backend adjustment.
+  // Note: EventSource can't send an Authorization header, so every connection
+  // first fetches a one-time stream ticket and passes that in the URL instead.
   listenToSessionEvents: (
     sessionId: string,
     onMessage: (message: Message) => void,
     onStatusUpdate: (update: any) => void,
     onTyping: (typing: any) => void,
-    onActivityUpdate?: (activityUpdate: any) => void
+    onActivityUpdate?: (activityUpdate: any) => void,
+    onMessageDelta?: (delta: MessageDelta) => void
   ) => {
     const backendSessionId = sessionId;
     console.log(`Setting up SSE listener for session: ${backendSessionId}`);
@@ -265,32 +319,73 @@ export const chatApi = {
     let eventSource: EventSource | null = null;
     let reconnectAttempts = 0;
     let reconnectTimer: NodeJS.Timeout | null = null;
+    // Id of the last event received, so a reconnect can replay what was missed
+    let lastEventId: string | null = null;
+    // Set by cleanup, which may run while a ticket is being fetched
+    let closed = false;
+
+    const trackEventId = (event: MessageEvent) => {
+      if (event.lastEventId) {
+        lastEventId = event.lastEventId;
+      }
+    };
 
-    const connect = () => {
+    const connect = async () => {
       // Clear any existing reconnect timer
       if (reconnectTimer) {
         clearTimeout(reconnectTimer);
         reconnectTimer = null;
       }
 
-      const token = localStorage.getItem("authToken");
-
       // Only proceed if a valid token exists
-      if (!token) {
+      if (!localStorage.getItem("authToken")) {
         console.warn(
           `SSE Connection Aborted: No auth token found for session ${backendSessionId}. User needs to log in.`
         );
         return; // Don't attempt to connect without a token
       }
 
+      // Tickets are single-use and expire within a minute, so get a fresh
+      // one for every (re)connect
+      let ticket: string;
+      try {
+        const response = await apiClient<{ ticket: string }>(
+          `/chat/${backendSessionId}/stream-ticket`,
+          { method: "POST" }
+        );
+        ticket = response.ticket;
+      } catch (ticketError: any) {
+        console.error("Failed to get SSE stream ticket:", ticketError);
+        // Signed out or no access to the session: retrying won't help
+        if (
+          closed ||
+          ticketError?.status === 401 ||
+          ticketError?.status === 403
+        ) {
+          return;
+        }
+        const reconnectDelay = Math.min(
+          1000 * Math.pow(1.5, reconnectAttempts),
+          30000
+        );
+        reconnectAttempts++;
+        reconnectTimer = setTimeout(connect, reconnectDelay);
+        return;
+      }
+      if (closed) {
+        return;
+      }
+
       const backendBaseUrl =
         process.env.NEXT_PUBLIC_EXPRESS_API_BASE_URL ||
         "http://localhost:5000/api";
 
-      // Keep the token in query params for backward compatibility
-      const url = `${backendBaseUrl}/chat/${backendSessionId}/events?token=${encodeURIComponent(
-        token
+      let url = `${backendBaseUrl}/chat/${backendSessionId}/events?ticket=${encodeURIComponent(
+        ticket
       )}`;
+      if (lastEventId) {
+        url += `&lastEventId=${encodeURIComponent(lastEventId)}`;
+      }
 
       if (eventSource) {
         // Close any existing connection before creating a new one
@@ -304,14 +399,7 @@ export const chatApi = {
       try {
         console.log("SSE Connecting to:", url);
 
-        // Create EventSource with additional headers using fetch for initial request
-        const eventSourceInit = {
-          headers: {
-            Authorization: `Bearer ${token}`, // Add authorization header for middleware
-          },
-        };
-        // @ts-ignore - EventSource constructor with options is not in the standard type definitions
-        eventSource = new EventSource(url, eventSourceInit);
+        eventSource = new EventSource(url);
 
         // Handle successful connection
         eventSource.onopen = () => {
@@ -363,6 +451,7 @@ export const chatApi = {
 
         // Handle regular events
         eventSource.addEventListener("messageUpdate", (event) => {
+          trackEventId(event);
           try {
             const messageData = JSON.parse(event.data);
             console.log("SSE messageUpdate:", messageData);
@@ -382,7 +471,28 @@ export const chatApi = {
           }
         });
 
+        // Streamed fragments of an assistant reply; the final messageUpdate
+        // for the same messageId carries the completed content.
+        eventSource.addEventListener("messageDelta", (event) => {
+          trackEventId(event);
+          try {
+            const deltaData = JSON.parse(event.data);
+            if (onMessageDelta) {
+              onMessageDelta({
+                messageId: deltaData.messageId,
+                sessionId: deltaData.sessionId,
+                delta: deltaData.delta || "",
+                index: deltaData.index,
+                timestamp: new Date(deltaData.timestamp),
+              });
+            }
+          } catch (e) {
+            console.error("Error parsing messageDelta event:", event.data, e);
+          }
+        });
+
         eventSource.addEventListener("statusUpdate", (event) => {
+          trackEventId(event);
           try {
             const statusData = JSON.parse(event.data);
             console.log("SSE statusUpdate:", statusData);
@@ -393,6 +503,7 @@ export const chatApi = {
         });
 
         eventSource.addEventListener("typing", (event) => {
+          trackEventId(event);
           try {
             const typingData = JSON.parse(event.data);
             console.log("SSE typing:", typingData);
@@ -404,6 +515,7 @@ export const chatApi = {
 
         // Add handler for activity updates
         eventSource.addEventListener("activityUpdate", (event) => {
+          trackEventId(event);
           try {
             const activityData = JSON.parse(event.data);
             console.log("SSE activityUpdate:", activityData);
@@ -513,6 +625,7 @@ export const chatApi = {
     // Return cleanup function
     return () => {
       console.log(`Closing SSE listener for session: ${backendSessionId}`);
+      closed = true;
 
       // Clear any pending reconnect timer
       if (reconnectTimer) {